@@ -0,0 +1,62 @@
+/*
+  Warnings:
+
+  - You are about to drop the `CostBasis` table. If the table is not empty, all the data it contains will be lost.
+
+  CostBasis held one running average per wallet and token (average price, amount
+  acquired, total cost), not the trades behind it, so its rows cannot be turned
+  into Trade rows and are not migrated. PnL is now computed from Trade: run
+  `jup-cli wallet sync-history <id>` after upgrading to import past swaps from
+  the chain. See "Upgrading" in the README.
+
+*/
+-- DropIndex
+DROP INDEX "CostBasis_walletId_mint_key";
+
+-- DropIndex
+DROP INDEX "CostBasis_mint_idx";
+
+-- DropIndex
+DROP INDEX "CostBasis_walletId_idx";
+
+-- DropTable
+PRAGMA foreign_keys=off;
+DROP TABLE "CostBasis";
+PRAGMA foreign_keys=on;
+
+-- CreateTable
+CREATE TABLE "Trade" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "walletId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "inputMint" TEXT NOT NULL,
+    "outputMint" TEXT NOT NULL,
+    "inputSymbol" TEXT,
+    "outputSymbol" TEXT,
+    "inputAmount" TEXT NOT NULL,
+    "outputAmount" TEXT NOT NULL,
+    "inputDecimals" INTEGER NOT NULL,
+    "outputDecimals" INTEGER NOT NULL,
+    "inputUsdPrice" TEXT,
+    "outputUsdPrice" TEXT,
+    "inputUsdValue" TEXT,
+    "outputUsdValue" TEXT,
+    "routeLabels" TEXT,
+    "signature" TEXT NOT NULL,
+    "requestId" TEXT,
+    "executedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Trade_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Trade_walletId_executedAt_idx" ON "Trade"("walletId", "executedAt");
+
+-- CreateIndex
+CREATE INDEX "Trade_walletId_inputMint_idx" ON "Trade"("walletId", "inputMint");
+
+-- CreateIndex
+CREATE INDEX "Trade_walletId_outputMint_idx" ON "Trade"("walletId", "outputMint");
+
+-- CreateIndex
+CREATE INDEX "Trade_signature_idx" ON "Trade"("signature");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "SyncCursor" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "walletId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "cursor" TEXT,
+    "lastSyncedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SyncCursor_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncCursor_walletId_source_key" ON "SyncCursor"("walletId", "source");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "WalletActivity" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "walletId" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "slot" INTEGER NOT NULL,
+    "blockTime" DATETIME NOT NULL,
+    "fee" INTEGER NOT NULL,
+    "failed" BOOLEAN NOT NULL DEFAULT false,
+    "changes" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WalletActivity_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WalletActivity_walletId_blockTime_idx" ON "WalletActivity"("walletId", "blockTime");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletActivity_walletId_signature_key" ON "WalletActivity"("walletId", "signature");
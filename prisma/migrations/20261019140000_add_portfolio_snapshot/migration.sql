@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "PortfolioSnapshot" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "takenAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "totalValue" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "PortfolioSnapshotItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "snapshotId" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "walletName" TEXT NOT NULL,
+    "mint" TEXT NOT NULL,
+    "symbol" TEXT,
+    "amount" TEXT NOT NULL,
+    "usdPrice" TEXT NOT NULL,
+    "usdValue" TEXT NOT NULL,
+    CONSTRAINT "PortfolioSnapshotItem_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "PortfolioSnapshot" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PortfolioSnapshot_takenAt_idx" ON "PortfolioSnapshot"("takenAt");
+
+-- CreateIndex
+CREATE INDEX "PortfolioSnapshotItem_snapshotId_idx" ON "PortfolioSnapshotItem"("snapshotId");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN "error" TEXT;
+ALTER TABLE "Trade" ADD COLUMN "logMessages" TEXT;
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "ConditionalOrder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "walletId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "inputMint" TEXT NOT NULL,
+    "outputMint" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "slippageBps" INTEGER NOT NULL,
+    "triggerPrice" TEXT,
+    "trailPct" REAL,
+    "highestPrice" TEXT,
+    "ocoGroupId" TEXT,
+    "signature" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "triggeredAt" DATETIME,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ConditionalOrder_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "ConditionalOrderEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "orderId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "price" TEXT,
+    "message" TEXT NOT NULL,
+    "signature" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ConditionalOrderEvent_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "ConditionalOrder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ConditionalOrder_status_idx" ON "ConditionalOrder"("status");
+
+-- CreateIndex
+CREATE INDEX "ConditionalOrder_walletId_idx" ON "ConditionalOrder"("walletId");
+
+-- CreateIndex
+CREATE INDEX "ConditionalOrder_ocoGroupId_idx" ON "ConditionalOrder"("ocoGroupId");
+
+-- CreateIndex
+CREATE INDEX "ConditionalOrderEvent_orderId_createdAt_idx" ON "ConditionalOrderEvent"("orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ConditionalOrderEvent_createdAt_idx" ON "ConditionalOrderEvent"("createdAt");
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "TwapOrder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "walletId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "inputMint" TEXT NOT NULL,
+    "outputMint" TEXT NOT NULL,
+    "inputDecimals" INTEGER NOT NULL,
+    "outputDecimals" INTEGER NOT NULL,
+    "totalAmount" TEXT NOT NULL,
+    "intervalSeconds" INTEGER NOT NULL,
+    "maxPriceImpactPct" REAL NOT NULL,
+    "slippageBps" INTEGER NOT NULL,
+    "lastAttemptAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TwapOrder_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TwapSlice" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "twapId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "scheduledAt" DATETIME NOT NULL,
+    "inputAmount" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "outputAmount" TEXT,
+    "priceImpactPct" REAL,
+    "signature" TEXT,
+    "error" TEXT,
+    "executedAt" DATETIME,
+    CONSTRAINT "TwapSlice_twapId_fkey" FOREIGN KEY ("twapId") REFERENCES "TwapOrder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TwapOrder_status_idx" ON "TwapOrder"("status");
+
+-- CreateIndex
+CREATE INDEX "TwapOrder_walletId_idx" ON "TwapOrder"("walletId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TwapSlice_twapId_index_key" ON "TwapSlice"("twapId", "index");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "OrderCommitment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "walletId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "orderKey" TEXT,
+    "usdValue" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "OrderCommitment_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "OrderCommitment_walletId_createdAt_idx" ON "OrderCommitment"("walletId", "createdAt");
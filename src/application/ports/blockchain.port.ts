@@ -1,8 +1,37 @@
+import { VersionedTransaction } from '@solana/web3.js';
+
+export type TokenProgram = 'spl-token' | 'token-2022';
+
+export const TOKEN_PROGRAM_IDS: Readonly<Record<TokenProgram, string>> = {
+  'spl-token': 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'token-2022': 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+};
+
+/**
+ * Transfer fee in effect for the current epoch. `maxFee` is a raw amount.
+ */
+export interface TransferFee {
+  basisPoints: number;
+  maxFee: string;
+}
+
+/**
+ * Token-2022 mint extensions that change what a holder can do with a token.
+ */
+export interface MintExtensions {
+  transferFee?: TransferFee;
+  permanentDelegate?: string; // Can move or burn tokens from any account
+  nonTransferable?: boolean;
+  interestBearing?: { rateBps: number };
+}
+
 export interface TokenAccount {
   mint: string;
   amount: string;
   decimals: number;
   uiAmount: number;
+  program: TokenProgram;
+  extensions?: MintExtensions; // Token-2022 mints only
 }
 
 export interface WalletTokens {
@@ -15,6 +44,92 @@ export interface SolanaRpcPort {
   getTokenAccounts(walletAddress: string): Promise<WalletTokens>;
 }
 
+export interface MintExtensionsPort {
+  /**
+   * Extensions of Token-2022 mints, keyed by mint. Legacy SPL mints are omitted.
+   */
+  getMintExtensions(mints: string[]): Promise<Map<string, MintExtensions>>;
+}
+
+export interface AddressLookupTablePort {
+  /**
+   * Addresses stored in each lookup table, keyed by table address. Tables
+   * that do not exist are omitted.
+   */
+  getLookupTableAddresses(tables: string[]): Promise<Map<string, string[]>>;
+}
+
+export interface SimulatedAccount {
+  lamports: bigint;
+  owner: string; // Program that owns the account
+  data: Buffer;
+}
+
+export interface TransactionSimulation {
+  err: unknown; // Null when the simulation succeeded
+  logs: string[];
+  unitsConsumed: number | null;
+  accounts: Array<{
+    address: string;
+    before: SimulatedAccount | null; // Null: the account does not exist
+    after: SimulatedAccount | null; // Null: closed, or the simulation failed
+  }>;
+}
+
+export interface TransactionSimulationPort {
+  /**
+   * Runs a transaction against current state without sending it, and reads
+   * `accounts` before and after.
+   */
+  simulateTransaction(transaction: string, accounts: string[]): Promise<TransactionSimulation>;
+}
+
+export interface PrioritizationFeePort {
+  /**
+   * Lowest priority fee (micro-lamports per compute unit) paid by a landed
+   * transaction that writes any of `accounts`, for each recent slot.
+   */
+  getRecentPrioritizationFees(accounts: string[]): Promise<number[]>;
+}
+
+export interface TransactionSenderPort {
+  /**
+   * `skipPreflight` for rebroadcasts, which fail preflight once the first
+   * copy has been processed.
+   */
+  sendTransaction(
+    transaction: VersionedTransaction,
+    options?: { skipPreflight?: boolean }
+  ): Promise<string>;
+}
+
+export type CommitmentLevel = 'processed' | 'confirmed' | 'finalized';
+
+export interface SignatureStatus {
+  slot: number;
+  err: unknown; // Null when the transaction succeeded
+  confirmationStatus: CommitmentLevel | null;
+}
+
+export interface SignatureStatusPort {
+  /**
+   * Null when the cluster has no record of the signature. Searches the
+   * ledger history, so older transactions are found too.
+   */
+  getSignatureStatus(signature: string): Promise<SignatureStatus | null>;
+  /**
+   * Checked at confirmed commitment: a blockhash from a block the finalized
+   * bank has not reached yet would read as invalid there. Once false, no
+   * transaction using the blockhash can still land.
+   */
+  isBlockhashValid(blockhash: string): Promise<boolean>;
+  /**
+   * Current block height at confirmed commitment, to compare with a
+   * transaction's `lastValidBlockHeight`.
+   */
+  getBlockHeight(): Promise<number>;
+}
+
 export interface SignatureInfo {
   signature: string;
   slot: number;
@@ -50,6 +165,7 @@ export interface ParsedTransaction {
     preTokenBalances?: Array<{
       accountIndex: number;
       mint: string;
+      owner?: string;
       uiTokenAmount: {
         amount: string;
         decimals: number;
@@ -59,6 +175,7 @@ export interface ParsedTransaction {
     postTokenBalances?: Array<{
       accountIndex: number;
       mint: string;
+      owner?: string;
       uiTokenAmount: {
         amount: string;
         decimals: number;
@@ -69,3 +186,11 @@ export interface ParsedTransaction {
   } | null;
   blockTime: number | null;
 }
+
+export interface TransactionHistoryPort {
+  getSignaturesForAddress(
+    address: string,
+    options?: { before?: string; until?: string; limit?: number }
+  ): Promise<SignatureInfo[]>;
+  getParsedTransaction(signature: string): Promise<ParsedTransaction | null>;
+}
@@ -0,0 +1,184 @@
+import { randomUUID } from 'crypto';
+import Big from 'big.js';
+import {
+  ConditionalOrder,
+  ConditionalOrderEvent,
+} from '../../../domain/entities/conditional-order.entity';
+import { ConditionalOrderRepository } from '../../../domain/repositories/conditional-order.repository';
+import { LoggerService } from '../../../core/logger/logger.service';
+import { PriceV3Port } from '../../ports/token-discovery.port';
+import { DEFAULT_SWAP_RETRIES, SwapService } from '../trade/swap.service';
+import { failedSignatureOf } from '../trade/transaction-error';
+import { getUsdPrices } from './conditional-order.service';
+
+export interface WatchTick {
+  checked: number; // Active orders
+  prices: Record<string, string>; // USD price per input mint
+  events: ConditionalOrderEvent[]; // Logged during this check, oldest first
+}
+
+/**
+ * Checks active conditional orders against Price V3 and sells through the
+ * Ultra flow when one triggers. Swaps go through the same risk policy,
+ * inspection and simulation as `trade swap`.
+ */
+export class ConditionalOrderWatcherService {
+  constructor(
+    private repository: ConditionalOrderRepository,
+    private priceApi: PriceV3Port,
+    private swaps: SwapService,
+    private sessionKey: Buffer
+  ) {}
+
+  /**
+   * One pass over the active orders. Orders are executed one at a time, in
+   * the order they were added. Every write is conditional on the status read,
+   * so an order cancelled meanwhile stays cancelled, and only one of several
+   * watchers sells a triggered order.
+   */
+  async tick(): Promise<WatchTick> {
+    const orders = await this.repository.findByStatus(['active']);
+    if (orders.length === 0) {
+      return { checked: 0, prices: {}, events: [] };
+    }
+
+    const prices = await getUsdPrices(
+      this.priceApi,
+      orders.map((order) => order.inputMint)
+    );
+    const events: ConditionalOrderEvent[] = [];
+    const closed = new Set<string>(); // OCO siblings cancelled during this pass
+
+    for (const order of orders) {
+      if (closed.has(order.id)) continue;
+      const price = prices.get(order.inputMint);
+      if (!price) {
+        LoggerService.getInstance().warn('No price for conditional order', {
+          orderId: order.id,
+          mint: order.inputMint,
+        });
+        continue;
+      }
+
+      if (order.observe(price) && !(await this.repository.update(order, 'active'))) {
+        continue;
+      }
+      if (!order.isTriggeredAt(price)) continue;
+
+      order.trigger();
+      if (!(await this.repository.update(order, 'active'))) {
+        LoggerService.getInstance().info('Conditional order no longer active', {
+          orderId: order.id,
+        });
+        continue;
+      }
+      events.push(
+        await this.log(order, 'triggered', {
+          price: price.toString(),
+          message: `Price $${price.toString()} reached the ${order.kind.replace('_', ' ')} at $${order.stopPrice.toString()}`,
+        })
+      );
+
+      for (const sibling of await this.cancelSiblings(order)) {
+        closed.add(sibling.id);
+        events.push(
+          await this.log(sibling, 'cancelled', {
+            price: price.toString(),
+            message: `OCO: ${order.id} triggered`,
+          })
+        );
+      }
+
+      events.push(await this.execute(order, price));
+    }
+
+    return {
+      checked: orders.length,
+      prices: Object.fromEntries([...prices].map(([mint, p]) => [mint, p.toString()])),
+      events,
+    };
+  }
+
+  private async cancelSiblings(order: ConditionalOrder): Promise<ConditionalOrder[]> {
+    if (!order.ocoGroupId) return [];
+    const siblings = (await this.repository.findByGroup(order.ocoGroupId)).filter(
+      (sibling) => sibling.id !== order.id && sibling.status === 'active'
+    );
+    const cancelled: ConditionalOrder[] = [];
+    for (const sibling of siblings) {
+      sibling.cancel();
+      if (await this.repository.update(sibling, 'active')) {
+        cancelled.push(sibling);
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Marks the order executed or failed. A failed order is not retried.
+   */
+  private async execute(order: ConditionalOrder, price: Big): Promise<ConditionalOrderEvent> {
+    try {
+      const quote = await this.swaps.quote({
+        wallet: order.walletId,
+        inputToken: order.inputMint,
+        outputToken: order.outputMint,
+        amount: order.amount,
+        slippageBps: order.slippageBps,
+        engine: 'ultra',
+      });
+      const execution = await this.swaps.execute(quote, this.sessionKey, {
+        retries: DEFAULT_SWAP_RETRIES,
+      });
+      if (!execution.signature) {
+        throw new Error(`Swap not sent (${execution.executionStatus})`);
+      }
+
+      order.markExecuted(execution.signature);
+      await this.repository.update(order, 'triggered');
+      const sold = `${execution.quote.inputAmount.toString()} ${execution.quote.input.symbol}`;
+      const received = `${execution.quote.outputAmount.toString()} ${execution.quote.output.symbol}`;
+      return this.log(order, 'executed', {
+        price: price.toString(),
+        message: `Sold ${sold} for ${received}${
+          execution.succeeded ? '' : ` (${execution.confirmation?.outcome ?? 'unconfirmed'})`
+        }`,
+        signature: execution.signature,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      LoggerService.getInstance().error(
+        'Conditional order execution failed',
+        error instanceof Error ? error : undefined,
+        { orderId: order.id }
+      );
+      order.markFailed(message);
+      await this.repository.update(order, 'triggered');
+      return this.log(order, 'failed', {
+        price: price.toString(),
+        message,
+        signature: failedSignatureOf(error),
+      });
+    }
+  }
+
+  private async log(
+    order: ConditionalOrder,
+    type: ConditionalOrderEvent['type'],
+    event: Pick<ConditionalOrderEvent, 'message' | 'price' | 'signature'>
+  ): Promise<ConditionalOrderEvent> {
+    const logged: ConditionalOrderEvent = {
+      id: randomUUID(),
+      orderId: order.id,
+      type,
+      createdAt: new Date(),
+      ...event,
+    };
+    await this.repository.addEvent(logged);
+    LoggerService.getInstance().info(`Conditional order ${type}`, {
+      orderId: order.id,
+      message: event.message,
+    });
+    return logged;
+  }
+}
@@ -0,0 +1,238 @@
+import { randomUUID } from 'crypto';
+import Big from 'big.js';
+import {
+  ConditionalOrder,
+  ConditionalOrderEvent,
+  ConditionalOrderKind,
+} from '../../../domain/entities/conditional-order.entity';
+import { ConditionalOrderRepository } from '../../../domain/repositories/conditional-order.repository';
+import { Wallet } from '../../../domain/entities/wallet.entity';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import {
+  ConditionalOrderNotFoundError,
+  InvalidArgumentError,
+} from '../../../core/errors/cli.errors';
+import { PriceV3Port } from '../../ports/token-discovery.port';
+import { ResolvedToken, TokenInfoProvider } from '../token-info.service';
+import { WalletResolverService } from '../wallet/wallet-resolver.service';
+import { parseAmountExpression } from '../trade/amount-resolver.service';
+
+/**
+ * Prices are USD per input token. Two or more conditions make an OCO group:
+ * the first to trigger cancels the others.
+ */
+export interface ConditionalOrderRequest {
+  wallet: string; // Wallet identifier (number, name, or UUID)
+  inputToken: string; // Sold when a condition triggers
+  outputToken: string;
+  amount: string; // Token units, or "50%", "max", "$250", resolved when triggered
+  slippageBps: number;
+  stopLoss?: string;
+  takeProfit?: string;
+  trailPct?: number;
+}
+
+export interface CreatedConditionalOrders {
+  wallet: Wallet;
+  input: ResolvedToken;
+  output: ResolvedToken;
+  currentPrice: Big;
+  orders: ConditionalOrder[];
+}
+
+/**
+ * Reads the USD price of each mint from Price V3. Mints without a price are
+ * missing from the map.
+ */
+export async function getUsdPrices(
+  priceApi: PriceV3Port,
+  mints: string[]
+): Promise<Map<string, Big>> {
+  const response = await priceApi.getPricesV3([...new Set(mints)]);
+  const prices = new Map<string, Big>();
+  for (const [mint, data] of Object.entries(response.data)) {
+    const price = data?.price ? Number(data.price) : NaN;
+    if (price > 0) {
+      prices.set(mint, new Big(data.price));
+    }
+  }
+  return prices;
+}
+
+function parsePrice(value: string, label: string): string {
+  const trimmed = value.trim().replace(/^\$/, '');
+  if (!/^\d+(\.\d+)?$/.test(trimmed) || new Big(trimmed).lte(0)) {
+    throw new InvalidArgumentError(`Invalid ${label} price "${value}"`, { [label]: value });
+  }
+  return new Big(trimmed).toString();
+}
+
+/**
+ * Adds, lists and cancels conditional orders, which live only in the local
+ * database until `jup-cli watch` executes them. Every change is logged.
+ */
+export class ConditionalOrderService {
+  constructor(
+    private walletResolver: WalletResolverService,
+    private tokenInfoProvider: TokenInfoProvider,
+    private priceApi: PriceV3Port,
+    private repository: ConditionalOrderRepository
+  ) {}
+
+  async add(request: ConditionalOrderRequest): Promise<CreatedConditionalOrders> {
+    const conditions: Array<{ kind: ConditionalOrderKind; triggerPrice?: string }> = [];
+    if (request.stopLoss !== undefined) {
+      conditions.push({
+        kind: 'stop_loss',
+        triggerPrice: parsePrice(request.stopLoss, 'stopLoss'),
+      });
+    }
+    if (request.takeProfit !== undefined) {
+      conditions.push({
+        kind: 'take_profit',
+        triggerPrice: parsePrice(request.takeProfit, 'takeProfit'),
+      });
+    }
+    if (request.trailPct !== undefined) {
+      if (!(request.trailPct > 0 && request.trailPct < 100)) {
+        throw new InvalidArgumentError('Trailing stop must be between 0 and 100 percent', {
+          trailPct: request.trailPct,
+        });
+      }
+      conditions.push({ kind: 'trailing_stop' });
+    }
+    if (conditions.length === 0) {
+      throw new InvalidArgumentError('Set a stop-loss, take-profit or trailing stop');
+    }
+
+    const wallet = await this.walletResolver.resolve(request.wallet);
+    const [input, output] = await Promise.all([
+      this.tokenInfoProvider.resolveToken(request.inputToken),
+      this.tokenInfoProvider.resolveToken(request.outputToken),
+    ]);
+    if (input.mint === output.mint) {
+      throw new InvalidArgumentError('Input and output tokens must be different');
+    }
+    const amount = parseAmountExpression(request.amount);
+    if (amount.kind === 'tokens') {
+      TokenAmount.parse(amount.value, input.decimals);
+    }
+
+    const currentPrice = (await getUsdPrices(this.priceApi, [input.mint])).get(input.mint);
+    if (!currentPrice) {
+      throw new InvalidArgumentError(`No USD price for ${input.symbol}`, { mint: input.mint });
+    }
+    // A condition already met would sell on the first check
+    for (const { kind, triggerPrice } of conditions) {
+      if (kind === 'stop_loss' && currentPrice.lte(triggerPrice ?? 0)) {
+        throw new InvalidArgumentError(
+          `Stop-loss $${triggerPrice} is not below the current ${input.symbol} price $${currentPrice.toString()}`
+        );
+      }
+      if (kind === 'take_profit' && currentPrice.gte(triggerPrice ?? 0)) {
+        throw new InvalidArgumentError(
+          `Take-profit $${triggerPrice} is not above the current ${input.symbol} price $${currentPrice.toString()}`
+        );
+      }
+    }
+
+    const ocoGroupId = conditions.length > 1 ? randomUUID() : undefined;
+    const orders: ConditionalOrder[] = [];
+    for (const { kind, triggerPrice } of conditions) {
+      const order = new ConditionalOrder(
+        randomUUID(),
+        wallet.id,
+        kind,
+        input.mint,
+        output.mint,
+        request.amount.trim(),
+        request.slippageBps,
+        {
+          triggerPrice,
+          trailPct: kind === 'trailing_stop' ? request.trailPct : undefined,
+          highestPrice: kind === 'trailing_stop' ? currentPrice.toString() : undefined,
+          ocoGroupId,
+        }
+      );
+      orders.push(await this.repository.create(order));
+      await this.log(order, 'created', {
+        price: currentPrice.toString(),
+        message: `${describeCondition(order, input.symbol)}, selling ${order.amount} ${input.symbol} for ${output.symbol}`,
+      });
+    }
+
+    return { wallet, input, output, currentPrice, orders };
+  }
+
+  /**
+   * Active and triggered orders, or every order with `all`.
+   */
+  async list(walletId?: string, all = false): Promise<ConditionalOrder[]> {
+    return this.repository.findByStatus(
+      all ? ['active', 'triggered', 'executed', 'failed', 'cancelled'] : ['active', 'triggered'],
+      walletId
+    );
+  }
+
+  async cancel(id: string): Promise<ConditionalOrder> {
+    const order = await this.repository.findById(id);
+    if (!order) {
+      throw new ConditionalOrderNotFoundError(id);
+    }
+    if (order.status !== 'active') {
+      throw this.notActive(order);
+    }
+    order.cancel();
+    if (!(await this.repository.update(order, 'active'))) {
+      // The watcher triggered it since it was read
+      throw this.notActive((await this.repository.findById(id)) ?? order);
+    }
+    await this.log(order, 'cancelled', { message: 'Cancelled by the user' });
+    return order;
+  }
+
+  /**
+   * Newest first, for one order or all of them.
+   */
+  async events(orderId?: string, limit?: number): Promise<ConditionalOrderEvent[]> {
+    if (orderId && !(await this.repository.findById(orderId))) {
+      throw new ConditionalOrderNotFoundError(orderId);
+    }
+    return this.repository.findEvents(orderId ? [orderId] : undefined, limit);
+  }
+
+  private notActive(order: ConditionalOrder): InvalidArgumentError {
+    return new InvalidArgumentError(`Conditional order is ${order.status}, not active`, {
+      id: order.id,
+      status: order.status,
+    });
+  }
+
+  private async log(
+    order: ConditionalOrder,
+    type: ConditionalOrderEvent['type'],
+    event: Pick<ConditionalOrderEvent, 'message' | 'price'>
+  ): Promise<void> {
+    await this.repository.addEvent({
+      id: randomUUID(),
+      orderId: order.id,
+      type,
+      createdAt: new Date(),
+      ...event,
+    });
+  }
+}
+
+/**
+ * e.g. "stop-loss at $150" or "trailing stop 10% below $200 (at $180)".
+ */
+export function describeCondition(order: ConditionalOrder, symbol: string): string {
+  switch (order.kind) {
+    case 'stop_loss':
+      return `stop-loss when ${symbol} ≤ $${order.triggerPrice}`;
+    case 'take_profit':
+      return `take-profit when ${symbol} ≥ $${order.triggerPrice}`;
+    case 'trailing_stop':
+      return `trailing stop ${order.trailPct}% below $${order.highestPrice} (at $${order.stopPrice.toString()})`;
+  }
+}
@@ -0,0 +1,443 @@
+import Big from 'big.js';
+import { Wallet } from '../../../domain/entities/wallet.entity';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import { splitAmount } from '../../../domain/values/split-amount';
+import { InvalidArgumentError } from '../../../core/errors/cli.errors';
+import { LoggerService } from '../../../core/logger/logger.service';
+import { TriggerApiService } from '../../../infrastructure/jupiter-api/trigger/trigger-api.service';
+import { RiskPolicyViolationError, RiskViolation } from '../../../core/errors/risk.errors';
+import { RiskPolicyService, RiskCheckRequest } from '../risk/risk-policy.service';
+import {
+  DeclaredInput,
+  TransactionInspection,
+  TransactionInspectorService,
+} from '../security/transaction-inspector.service';
+import { ResolvedToken, TokenInfoProvider } from '../token-info.service';
+import { AmountResolverService } from '../trade/amount-resolver.service';
+import { WalletResolverService } from '../wallet/wallet-resolver.service';
+import { WalletSignerService } from '../wallet/wallet-signer.service';
+
+export interface LimitOrderRequest {
+  wallet: string; // Wallet identifier (number, name, or UUID)
+  inputToken: string; // What you sell
+  outputToken: string; // What you receive
+  amount: string; // Token units, or an expression: "50%", "max", "$250"
+  targetPrice: string; // Output tokens per input token
+  expirySeconds?: number;
+}
+
+export interface LimitOrderDraft {
+  wallet: Wallet;
+  input: ResolvedToken;
+  output: ResolvedToken;
+  amount: string; // Resolved input amount in token units
+  amountBasis: string | null; // How an amount expression was resolved
+  targetPrice: number;
+  inputAmount: TokenAmount;
+  outputAmount: TokenAmount;
+  makingAmount: string; // Raw amounts sent to the Trigger API
+  takingAmount: string;
+  expiredAt?: number; // Unix seconds
+}
+
+export const MAX_LADDER_STEPS = 50;
+
+export type LadderDistribution = 'linear' | 'geometric';
+
+/**
+ * Limit orders at `steps` prices from `fromPrice` to `toPrice`, the amount
+ * split equally between them.
+ */
+export interface LimitOrderLadderRequest {
+  wallet: string; // Wallet identifier (number, name, or UUID)
+  inputToken: string;
+  outputToken: string;
+  amount: string; // Total over every rung: token units, or "50%", "max", "$250"
+  fromPrice: string; // Output tokens per input token, both ends included
+  toPrice: string;
+  steps: number;
+  distribution: LadderDistribution;
+  expirySeconds?: number;
+}
+
+export interface LimitOrderLadder {
+  wallet: Wallet;
+  input: ResolvedToken;
+  output: ResolvedToken;
+  amount: TokenAmount;
+  amountBasis: string | null;
+  distribution: LadderDistribution;
+  rungs: LimitOrderDraft[]; // In price order, from `fromPrice`
+}
+
+export type LadderRungResult =
+  | { index: number; draft: LimitOrderDraft; status: 'created'; created: LimitOrderCreated }
+  | { index: number; draft: LimitOrderDraft; status: 'failed'; error: Error };
+
+/**
+ * Rung prices from `from` to `to`: evenly spaced (linear) or a constant
+ * ratio apart (geometric), which keeps rungs the same percentage apart.
+ */
+export function ladderPrices(
+  from: Big,
+  to: Big,
+  steps: number,
+  distribution: LadderDistribution
+): Big[] {
+  return Array.from({ length: steps }, (_, i) => {
+    if (i === 0) return from;
+    if (i === steps - 1) return to;
+    if (distribution === 'linear') {
+      return from.plus(
+        to
+          .minus(from)
+          .times(i)
+          .div(steps - 1)
+      );
+    }
+    const ratio = to.div(from).toNumber() ** (i / (steps - 1));
+    return new Big(from.times(ratio).toPrecision(12));
+  });
+}
+
+/**
+ * A draft with the Trigger API's unsigned order transaction.
+ */
+export interface LimitOrderTransaction {
+  draft: LimitOrderDraft;
+  orderId: string;
+  requestId: string;
+  transaction: string; // Base64, unsigned
+}
+
+export interface LimitOrderCreated {
+  orderId: string;
+  signature: string | null;
+}
+
+/**
+ * Creates and cancels Jupiter Trigger (limit) orders. Shared by the `order`
+ * commands and the local API server.
+ */
+export class LimitOrderService {
+  constructor(
+    private walletResolver: WalletResolverService,
+    private tokenInfoProvider: TokenInfoProvider,
+    private triggerApi: TriggerApiService,
+    private riskPolicy: RiskPolicyService,
+    private inspector: TransactionInspectorService,
+    private amountResolver: AmountResolverService,
+    private signer: WalletSignerService = new WalletSignerService()
+  ) {}
+
+  async prepare(request: LimitOrderRequest): Promise<LimitOrderDraft> {
+    const wallet = await this.walletResolver.resolve(request.wallet);
+    const [input, output] = await Promise.all([
+      this.tokenInfoProvider.resolveToken(request.inputToken),
+      this.tokenInfoProvider.resolveToken(request.outputToken),
+    ]);
+
+    const { amount: inputAmount, basis } = await this.amountResolver.resolve(
+      request.amount,
+      input,
+      wallet.address
+    );
+    const targetPrice = this.parseTargetPrice(request.targetPrice);
+
+    return this.toDraft(
+      { wallet, input, output },
+      inputAmount,
+      basis,
+      targetPrice,
+      request.expirySeconds
+    );
+  }
+
+  /**
+   * Drafts every rung of a ladder. The amount is resolved once, so "50%"
+   * is half the balance over the whole ladder.
+   */
+  async prepareLadder(request: LimitOrderLadderRequest): Promise<LimitOrderLadder> {
+    if (!Number.isInteger(request.steps) || request.steps < 2) {
+      throw new InvalidArgumentError('A ladder needs at least 2 steps', { steps: request.steps });
+    }
+    if (request.steps > MAX_LADDER_STEPS) {
+      throw new InvalidArgumentError(`A ladder can have at most ${MAX_LADDER_STEPS} steps`, {
+        steps: request.steps,
+      });
+    }
+    const from = this.parseTargetPrice(request.fromPrice);
+    const to = this.parseTargetPrice(request.toPrice);
+    if (from.lte(0) || to.lte(0) || from.eq(to)) {
+      throw new InvalidArgumentError('Ladder prices must be positive and different', {
+        from: request.fromPrice,
+        to: request.toPrice,
+      });
+    }
+
+    const wallet = await this.walletResolver.resolve(request.wallet);
+    const [input, output] = await Promise.all([
+      this.tokenInfoProvider.resolveToken(request.inputToken),
+      this.tokenInfoProvider.resolveToken(request.outputToken),
+    ]);
+    const { amount, basis } = await this.amountResolver.resolve(
+      request.amount,
+      input,
+      wallet.address
+    );
+    const amounts = splitAmount(amount.raw, request.steps);
+    const prices = ladderPrices(from, to, request.steps, request.distribution);
+
+    return {
+      wallet,
+      input,
+      output,
+      amount,
+      amountBasis: basis,
+      distribution: request.distribution,
+      rungs: prices.map((price, i) =>
+        this.toDraft(
+          { wallet, input, output },
+          TokenAmount.fromRaw(amounts[i] ?? 0n, input.decimals),
+          basis,
+          price,
+          request.expirySeconds
+        )
+      ),
+    };
+  }
+
+  /**
+   * Risk policy violations for the draft, for display before confirming.
+   * `create` and `submit` enforce the policy either way.
+   */
+  checkPolicy(draft: LimitOrderDraft): Promise<RiskViolation[]> {
+    return this.riskPolicy.check(this.toRiskCheck(draft));
+  }
+
+  /**
+   * Risk policy violations for the whole ladder. USD limits apply to the
+   * total, since every rung can fill; the rungs are then checked one by one
+   * for anything the total did not already report.
+   */
+  async checkLadderPolicy(ladder: LimitOrderLadder): Promise<RiskViolation[]> {
+    const violations = await this.riskPolicy.check({
+      wallet: ladder.wallet,
+      input: ladder.input,
+      output: ladder.output,
+      inputAmount: ladder.amount,
+      outputAmount: ladder.rungs.reduce(
+        (sum, rung) => sum.plus(rung.outputAmount),
+        TokenAmount.zero(ladder.output.decimals)
+      ),
+    });
+    for (const rung of ladder.rungs) {
+      const reported = new Set(violations.map((v) => v.rule));
+      violations.push(...(await this.checkPolicy(rung)).filter((v) => !reported.has(v.rule)));
+    }
+    return violations;
+  }
+
+  /**
+   * Gets the unsigned order transaction. Nothing is created until `submit`.
+   */
+  async buildTransaction(draft: LimitOrderDraft): Promise<LimitOrderTransaction> {
+    const orderResponse = await this.triggerApi.createOrder({
+      maker: draft.wallet.address,
+      makingAmount: draft.makingAmount,
+      takingAmount: draft.takingAmount,
+      inputMint: draft.input.mint,
+      outputMint: draft.output.mint,
+      expiredAt: draft.expiredAt,
+    });
+
+    return {
+      draft,
+      orderId: orderResponse.order || orderResponse.orderId || '',
+      requestId: orderResponse.requestId,
+      transaction: orderResponse.transaction,
+    };
+  }
+
+  /**
+   * Decoded order transaction, for display before confirming. It is
+   * verified again before signing either way.
+   */
+  inspectTransaction(order: LimitOrderTransaction): Promise<TransactionInspection> {
+    return this.inspector.inspect(
+      order.transaction,
+      order.draft.wallet.address,
+      this.toDeclaredInput(order.draft)
+    );
+  }
+
+  /**
+   * Signs and sends a transaction from `buildTransaction`. The order counts
+   * toward the daily USD limit from now, not when it fills.
+   */
+  async submit(order: LimitOrderTransaction, sessionKey: Buffer): Promise<LimitOrderCreated> {
+    await this.riskPolicy.enforce(this.toRiskCheck(order.draft));
+    const created = await this.signAndExecute(order, sessionKey);
+    await this.riskPolicy.recordCommitment(
+      this.toRiskCheck(order.draft),
+      'limit_order',
+      created.orderId
+    );
+    return created;
+  }
+
+  /**
+   * Trades are recorded by `order sync` once the order fills, not here.
+   */
+  async create(draft: LimitOrderDraft, sessionKey: Buffer): Promise<LimitOrderCreated> {
+    await this.riskPolicy.enforce(this.toRiskCheck(draft));
+    const created = await this.signAndExecute(await this.buildTransaction(draft), sessionKey);
+    await this.riskPolicy.recordCommitment(this.toRiskCheck(draft), 'limit_order', created.orderId);
+    return created;
+  }
+
+  /**
+   * Creates the rungs one after another, once the whole ladder passes the
+   * risk policy. A rung that fails is reported and the others are still
+   * created; nothing is rolled back.
+   */
+  async createLadder(
+    ladder: LimitOrderLadder,
+    sessionKey: Buffer,
+    onRung?: (result: LadderRungResult) => void
+  ): Promise<LadderRungResult[]> {
+    const violations = await this.checkLadderPolicy(ladder);
+    if (violations.length > 0) {
+      throw new RiskPolicyViolationError(violations);
+    }
+
+    const results: LadderRungResult[] = [];
+    for (const [index, draft] of ladder.rungs.entries()) {
+      let result: LadderRungResult;
+      try {
+        result = { index, draft, status: 'created', created: await this.create(draft, sessionKey) };
+      } catch (error) {
+        LoggerService.getInstance().error(
+          'Ladder rung failed',
+          error instanceof Error ? error : undefined,
+          { rung: index, targetPrice: draft.targetPrice }
+        );
+        result = {
+          index,
+          draft,
+          status: 'failed',
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+      }
+      results.push(result);
+      onRung?.(result);
+    }
+    return results;
+  }
+
+  async cancel(wallet: Wallet, orderId: string, sessionKey: Buffer): Promise<void> {
+    const cancelResponse = await this.triggerApi.cancelOrder(wallet.address, orderId);
+    await this.inspector.verify(cancelResponse.transaction, wallet.address, null);
+    const signedTransaction = await this.signer.signTransaction(
+      wallet,
+      cancelResponse.transaction,
+      sessionKey
+    );
+    await this.triggerApi.execute(signedTransaction, cancelResponse.requestId);
+  }
+
+  async getActiveOrderIds(wallet: Wallet): Promise<string[]> {
+    const response = await this.triggerApi.getOrders(wallet.address, 'active');
+    return response.orders.map((o) => o.orderKey || o.id || o.orderId || '').filter(Boolean);
+  }
+
+  async cancelMany(wallet: Wallet, orderIds: string[], sessionKey: Buffer): Promise<void> {
+    const cancelResponse = await this.triggerApi.cancelOrders(wallet.address, orderIds);
+    for (const transaction of cancelResponse.transactions) {
+      await this.inspector.verify(transaction, wallet.address, null);
+    }
+    const signedTransactions = await this.signer.signTransactions(
+      wallet,
+      cancelResponse.transactions,
+      sessionKey
+    );
+    for (const signedTransaction of signedTransactions) {
+      await this.triggerApi.execute(signedTransaction, cancelResponse.requestId);
+    }
+  }
+
+  private async signAndExecute(
+    order: LimitOrderTransaction,
+    sessionKey: Buffer
+  ): Promise<LimitOrderCreated> {
+    const { draft } = order;
+    await this.inspector.verify(
+      order.transaction,
+      draft.wallet.address,
+      this.toDeclaredInput(draft)
+    );
+
+    const signedTransaction = await this.signer.signTransaction(
+      draft.wallet,
+      order.transaction,
+      sessionKey
+    );
+    const result = await this.triggerApi.execute(signedTransaction, order.requestId);
+
+    return {
+      orderId: order.orderId,
+      signature: result.signature || null,
+    };
+  }
+
+  private toDraft(
+    tokens: { wallet: Wallet; input: ResolvedToken; output: ResolvedToken },
+    inputAmount: TokenAmount,
+    basis: string | null,
+    targetPrice: Big,
+    expirySeconds?: number
+  ): LimitOrderDraft {
+    const outputAmount = TokenAmount.fromDecimal(
+      inputAmount.times(targetPrice),
+      tokens.output.decimals
+    );
+    if (inputAmount.isZero() || outputAmount.isZero()) {
+      throw new InvalidArgumentError('Amount and target price must give a non-zero order');
+    }
+
+    return {
+      ...tokens,
+      amount: inputAmount.toString(),
+      amountBasis: basis,
+      targetPrice: targetPrice.toNumber(),
+      inputAmount,
+      outputAmount,
+      makingAmount: inputAmount.toRawString(),
+      takingAmount: outputAmount.toRawString(),
+      expiredAt: expirySeconds ? Math.floor(Date.now() / 1000) + expirySeconds : undefined,
+    };
+  }
+
+  private toRiskCheck(draft: LimitOrderDraft): RiskCheckRequest {
+    return {
+      wallet: draft.wallet,
+      input: draft.input,
+      output: draft.output,
+      inputAmount: draft.inputAmount,
+      outputAmount: draft.outputAmount,
+    };
+  }
+
+  private toDeclaredInput(draft: LimitOrderDraft): DeclaredInput {
+    return { mint: draft.input.mint, amount: draft.inputAmount };
+  }
+
+  private parseTargetPrice(value: string): Big {
+    if (!/^(\d+\.?\d*|\.\d+)$/.test(value.trim())) {
+      throw new InvalidArgumentError(
+        `Invalid target price "${value}": expected a positive decimal number`
+      );
+    }
+    return new Big(value.trim());
+  }
+}
@@ -0,0 +1,145 @@
+import { TriggerApiService } from '../../../infrastructure/jupiter-api/trigger/trigger-api.service';
+import {
+  TriggerOrder,
+  TriggerOrderTrade,
+} from '../../../infrastructure/jupiter-api/trigger/trigger.types';
+import { Trade } from '../../../domain/entities/trade.entity';
+import { SyncCursor } from '../../../domain/entities/sync-cursor.entity';
+import { SyncCursorRepository } from '../../../domain/repositories/sync-cursor.repository';
+import { TokenInfoProvider } from '../token-info.service';
+import { TradeService, isRecentExecution, toRawAmount } from '../trade/trade.service';
+import { LoggerService } from '../../../core/logger/logger.service';
+
+const SYNC_SOURCE = 'trigger_orders';
+const MAX_HISTORY_PAGES = 100;
+
+export interface OrderFillSyncResult {
+  recorded: Trade[];
+  duplicates: number;
+  skipped: number;
+  ordersScanned: number;
+  lastSyncedAt?: Date; // Previous cursor position, undefined on first sync
+}
+
+/**
+ * Detects limit order fills (full and partial) from the Trigger API and
+ * records them as local trades. Progress is kept per wallet so later syncs
+ * only page through orders updated since the last fill seen.
+ */
+export class OrderFillSyncService {
+  constructor(
+    private triggerApi: TriggerApiService,
+    private tradeService: TradeService,
+    private syncCursorRepo: SyncCursorRepository,
+    private tokenInfoProvider: TokenInfoProvider
+  ) {}
+
+  async syncFills(walletId: string, walletAddress: string): Promise<OrderFillSyncResult> {
+    const cursor =
+      (await this.syncCursorRepo.find(walletId, SYNC_SOURCE)) ??
+      new SyncCursor(walletId, SYNC_SOURCE);
+    const since = cursor.cursor ? new Date(cursor.cursor) : undefined;
+
+    // Partially filled orders are still active, so both lists carry fills
+    const active = await this.triggerApi.getOrders(walletAddress, 'active');
+    const history = await this.fetchHistory(walletAddress, since);
+    const orders = [...active.orders, ...history];
+
+    const fills = orders
+      .flatMap((order) => order.trades ?? [])
+      .filter((fill) => this.isFill(fill))
+      .filter((fill) => !since || new Date(fill.confirmedAt) >= since)
+      .sort((a, b) => new Date(a.confirmedAt).getTime() - new Date(b.confirmedAt).getTime());
+
+    const mints = new Set<string>();
+    fills.forEach((fill) => {
+      mints.add(fill.inputMint);
+      mints.add(fill.outputMint);
+    });
+    const tokenInfoMap = await this.tokenInfoProvider.getTokenInfoBatch(Array.from(mints));
+
+    const result: OrderFillSyncResult = {
+      recorded: [],
+      duplicates: 0,
+      skipped: 0,
+      ordersScanned: orders.length,
+      lastSyncedAt: since,
+    };
+    let newestFill = since;
+
+    for (const fill of fills) {
+      const confirmedAt = new Date(fill.confirmedAt);
+      if (!newestFill || confirmedAt > newestFill) {
+        newestFill = confirmedAt;
+      }
+
+      const pair = { inputMint: fill.inputMint, outputMint: fill.outputMint };
+      if (await this.tradeService.isTradeRecorded(fill.txId, pair)) {
+        result.duplicates++;
+        continue;
+      }
+
+      const inputInfo = tokenInfoMap.get(fill.inputMint);
+      const outputInfo = tokenInfoMap.get(fill.outputMint);
+      if (!inputInfo || !outputInfo) {
+        LoggerService.getInstance().warn(
+          `Skipping fill ${fill.txId}: unknown decimals for ${fill.inputMint} or ${fill.outputMint}`
+        );
+        result.skipped++;
+        continue;
+      }
+
+      const trade = await this.tradeService.recordTrade({
+        walletId,
+        type: 'limit_order',
+        status: 'success',
+        inputMint: fill.inputMint,
+        outputMint: fill.outputMint,
+        inputSymbol: inputInfo.symbol,
+        outputSymbol: outputInfo.symbol,
+        inputAmount: fill.rawInputAmount ?? toRawAmount(fill.inputAmount, inputInfo.decimals),
+        outputAmount: fill.rawOutputAmount ?? toRawAmount(fill.outputAmount, outputInfo.decimals),
+        inputDecimals: inputInfo.decimals,
+        outputDecimals: outputInfo.decimals,
+        signature: fill.txId,
+        requestId: fill.orderKey,
+        executedAt: confirmedAt,
+        fetchPrices: isRecentExecution(confirmedAt),
+      });
+      result.recorded.push(trade);
+    }
+
+    cursor.advance(newestFill?.toISOString());
+    await this.syncCursorRepo.save(cursor);
+
+    LoggerService.getInstance().info(
+      `Order sync for ${walletAddress}: ${result.recorded.length} new fills, ${result.duplicates} already recorded`
+    );
+
+    return result;
+  }
+
+  private async fetchHistory(walletAddress: string, since?: Date): Promise<TriggerOrder[]> {
+    const orders: TriggerOrder[] = [];
+
+    for (let page = 1; page <= MAX_HISTORY_PAGES; page++) {
+      const response = await this.triggerApi.getOrders(walletAddress, 'history', page);
+      orders.push(...response.orders);
+
+      // History is newest first: stop once a whole page predates the cursor
+      const reachedCursor =
+        since !== undefined &&
+        response.orders.every((order) => new Date(order.updatedAt ?? order.createdAt) < since);
+
+      if (!response.hasMoreData || reachedCursor) {
+        break;
+      }
+    }
+
+    return orders;
+  }
+
+  private isFill(fill: TriggerOrderTrade): boolean {
+    return fill.action.toLowerCase().includes('fill');
+  }
+}
@@ -1,3 +1,4 @@
+import { TokenAmount } from '../../../domain/values/token-amount';
 import { TriggerApiService } from '../../../infrastructure/jupiter-api/trigger/trigger-api.service';
 import { TriggerOrder } from '../../../infrastructure/jupiter-api/trigger/trigger.types';
 import { PriceProvider } from '../wallet/wallet-sync.service';
@@ -74,10 +75,12 @@ export class OrderSyncService {
     const inputDecimals = inputInfo?.decimals ?? 9;
     const outputDecimals = outputInfo?.decimals ?? 6;
 
-    const inputAmount = parseFloat(order.makingAmount) / Math.pow(10, inputDecimals);
-    const outputAmount = parseFloat(order.takingAmount) / Math.pow(10, outputDecimals);
+    const inputAmount = TokenAmount.fromRaw(order.makingAmount, inputDecimals);
+    const outputAmount = TokenAmount.fromRaw(order.takingAmount, outputDecimals);
 
-    const targetPrice = outputAmount / inputAmount;
+    const targetPrice = inputAmount.isZero()
+      ? 0
+      : outputAmount.toBig().div(inputAmount.toBig()).toNumber();
 
     const currentPrice = prices.get(order.outputMint)
       ? (prices.get(order.inputMint) ?? 0) / (prices.get(order.outputMint) ?? 1)
@@ -92,7 +95,7 @@ export class OrderSyncService {
 
     // Calculate USD value of input tokens
     const inputPrice = prices.get(order.inputMint) ?? 0;
-    const inputUsdValue = inputAmount * inputPrice;
+    const inputUsdValue = inputAmount.times(inputPrice).toNumber();
 
     return {
       orderId: order.orderKey || order.id || order.orderId || '',
@@ -0,0 +1,155 @@
+import { RecurringApiService } from '../../../infrastructure/jupiter-api/recurring/recurring-api.service';
+import {
+  RecurringOrder,
+  RecurringOrderTrade,
+  RecurringType,
+} from '../../../infrastructure/jupiter-api/recurring/recurring.types';
+import { Trade } from '../../../domain/entities/trade.entity';
+import { SyncCursor } from '../../../domain/entities/sync-cursor.entity';
+import { SyncCursorRepository } from '../../../domain/repositories/sync-cursor.repository';
+import { TokenInfoProvider } from '../token-info.service';
+import { TradeService, isRecentExecution, toRawAmount } from '../trade/trade.service';
+import { LoggerService } from '../../../core/logger/logger.service';
+
+const SYNC_SOURCE = 'recurring_orders';
+const RECURRING_TYPES: RecurringType[] = ['time', 'price'];
+const MAX_HISTORY_PAGES = 100;
+
+export interface RecurringFillSyncResult {
+  recorded: Trade[];
+  duplicates: number;
+  skipped: number;
+  ordersScanned: number;
+  lastSyncedAt?: Date; // Previous cursor position, undefined on first sync
+}
+
+/**
+ * Records the cycles executed by Jupiter's keepers for recurring (DCA)
+ * orders as local trades, the same way OrderFillSyncService does for limit
+ * order fills. Progress is kept per wallet in its own sync cursor.
+ */
+export class RecurringFillSyncService {
+  constructor(
+    private recurringApi: RecurringApiService,
+    private tradeService: TradeService,
+    private syncCursorRepo: SyncCursorRepository,
+    private tokenInfoProvider: TokenInfoProvider
+  ) {}
+
+  async syncFills(walletId: string, walletAddress: string): Promise<RecurringFillSyncResult> {
+    const cursor =
+      (await this.syncCursorRepo.find(walletId, SYNC_SOURCE)) ??
+      new SyncCursor(walletId, SYNC_SOURCE);
+    const since = cursor.cursor ? new Date(cursor.cursor) : undefined;
+
+    // Running orders fill every cycle, so both lists carry fills
+    const orders: RecurringOrder[] = [];
+    for (const type of RECURRING_TYPES) {
+      orders.push(...(await this.fetchOrders(walletAddress, 'active', type)));
+      orders.push(...(await this.fetchOrders(walletAddress, 'history', type, since)));
+    }
+
+    const fills = orders
+      .flatMap((order) => order.trades ?? [])
+      .filter((fill) => this.isFill(fill))
+      .filter((fill) => !since || new Date(fill.confirmedAt) >= since)
+      .sort((a, b) => new Date(a.confirmedAt).getTime() - new Date(b.confirmedAt).getTime());
+
+    const mints = new Set<string>();
+    fills.forEach((fill) => {
+      mints.add(fill.inputMint);
+      mints.add(fill.outputMint);
+    });
+    const tokenInfoMap = await this.tokenInfoProvider.getTokenInfoBatch(Array.from(mints));
+
+    const result: RecurringFillSyncResult = {
+      recorded: [],
+      duplicates: 0,
+      skipped: 0,
+      ordersScanned: orders.length,
+      lastSyncedAt: since,
+    };
+    let newestFill = since;
+
+    for (const fill of fills) {
+      const confirmedAt = new Date(fill.confirmedAt);
+      if (!newestFill || confirmedAt > newestFill) {
+        newestFill = confirmedAt;
+      }
+
+      const pair = { inputMint: fill.inputMint, outputMint: fill.outputMint };
+      if (await this.tradeService.isTradeRecorded(fill.txId, pair)) {
+        result.duplicates++;
+        continue;
+      }
+
+      const inputInfo = tokenInfoMap.get(fill.inputMint);
+      const outputInfo = tokenInfoMap.get(fill.outputMint);
+      if (!inputInfo || !outputInfo) {
+        LoggerService.getInstance().warn(
+          `Skipping fill ${fill.txId}: unknown decimals for ${fill.inputMint} or ${fill.outputMint}`
+        );
+        result.skipped++;
+        continue;
+      }
+
+      const trade = await this.tradeService.recordTrade({
+        walletId,
+        type: 'recurring_order',
+        status: 'success',
+        inputMint: fill.inputMint,
+        outputMint: fill.outputMint,
+        inputSymbol: inputInfo.symbol,
+        outputSymbol: outputInfo.symbol,
+        inputAmount: fill.rawInputAmount ?? toRawAmount(fill.inputAmount, inputInfo.decimals),
+        outputAmount: fill.rawOutputAmount ?? toRawAmount(fill.outputAmount, outputInfo.decimals),
+        inputDecimals: inputInfo.decimals,
+        outputDecimals: outputInfo.decimals,
+        signature: fill.txId,
+        requestId: fill.orderKey,
+        executedAt: confirmedAt,
+        fetchPrices: isRecentExecution(confirmedAt),
+      });
+      result.recorded.push(trade);
+    }
+
+    cursor.advance(newestFill?.toISOString());
+    await this.syncCursorRepo.save(cursor);
+
+    LoggerService.getInstance().info(
+      `Recurring order sync for ${walletAddress}: ${result.recorded.length} new fills, ${result.duplicates} already recorded`
+    );
+
+    return result;
+  }
+
+  private async fetchOrders(
+    walletAddress: string,
+    status: 'active' | 'history',
+    type: RecurringType,
+    since?: Date
+  ): Promise<RecurringOrder[]> {
+    const orders: RecurringOrder[] = [];
+
+    for (let page = 1; page <= MAX_HISTORY_PAGES; page++) {
+      const response = await this.recurringApi.getOrders(walletAddress, status, type, page);
+      const pageOrders = response[type] ?? [];
+      orders.push(...pageOrders);
+
+      // History is newest first: stop once a whole page predates the cursor
+      const reachedCursor =
+        since !== undefined &&
+        pageOrders.every((order) => new Date(order.updatedAt ?? order.createdAt) < since);
+
+      if (page >= response.totalPages || reachedCursor) {
+        break;
+      }
+    }
+
+    return orders;
+  }
+
+  private isFill(fill: RecurringOrderTrade): boolean {
+    return fill.action.toLowerCase().includes('fill');
+  }
+}
@@ -0,0 +1,351 @@
+import Big from 'big.js';
+import { Wallet } from '../../../domain/entities/wallet.entity';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import { InvalidArgumentError, RecurringOrderNotFoundError } from '../../../core/errors/cli.errors';
+import { JupiterApiError } from '../../../core/errors/api.errors';
+import { RiskViolation } from '../../../core/errors/risk.errors';
+import { RecurringApiService } from '../../../infrastructure/jupiter-api/recurring/recurring-api.service';
+import {
+  CreateRecurringOrderParams,
+  RecurringOrder,
+  RecurringType,
+} from '../../../infrastructure/jupiter-api/recurring/recurring.types';
+import { RiskPolicyService, RiskCheckRequest } from '../risk/risk-policy.service';
+import {
+  DeclaredInput,
+  TransactionInspection,
+  TransactionInspectorService,
+} from '../security/transaction-inspector.service';
+import { ResolvedToken, TokenInfoProvider } from '../token-info.service';
+import { AmountResolverService } from '../trade/amount-resolver.service';
+import { WalletResolverService } from '../wallet/wallet-resolver.service';
+import { WalletSignerService } from '../wallet/wallet-signer.service';
+
+const RECURRING_TYPES: RecurringType[] = ['time', 'price'];
+const MAX_PAGES = 20;
+const USDC_DECIMALS = 6;
+
+/**
+ * Time-based orders set `numberOfOrders`, price-based (value averaging)
+ * orders set `incrementUsd`.
+ */
+export interface RecurringOrderRequest {
+  wallet: string; // Wallet identifier (number, name, or UUID)
+  inputToken: string; // What is spent
+  outputToken: string; // What is bought
+  amount: string; // Token units, or "50%", "max", "$250": the whole deposit
+  intervalSeconds: number;
+  numberOfOrders?: number;
+  incrementUsd?: string; // USD value added to the position each interval
+  minPrice?: string; // Time-based only: input tokens per output token
+  maxPrice?: string;
+  startAt?: Date;
+}
+
+export interface RecurringOrderDraft {
+  wallet: Wallet;
+  input: ResolvedToken;
+  output: ResolvedToken;
+  type: RecurringType;
+  amount: TokenAmount; // Deposited up front
+  amountBasis: string | null; // How an amount expression was resolved
+  amountPerOrder: TokenAmount | null; // Time-based only
+  intervalSeconds: number;
+  numberOfOrders: number | null;
+  incrementUsd: string | null;
+  minPrice: string | null;
+  maxPrice: string | null;
+  startAt: Date | null; // Null to start now
+}
+
+/**
+ * A draft with the Recurring API's unsigned order transaction.
+ */
+export interface RecurringOrderTransaction {
+  draft: RecurringOrderDraft;
+  requestId: string;
+  transaction: string; // Base64, unsigned
+}
+
+export interface RecurringOrderCreated {
+  orderKey: string | null;
+  signature: string;
+}
+
+/**
+ * A recurring order as listed by the Recurring API, with its type.
+ */
+export type TypedRecurringOrder = RecurringOrder & { type: RecurringType };
+
+function parsePositive(value: string, label: string): string {
+  const trimmed = value.trim().replace(/^\$/, '');
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(trimmed) || new Big(trimmed).lte(0)) {
+    throw new InvalidArgumentError(`Invalid ${label} "${value}": expected a positive number`);
+  }
+  return new Big(trimmed).toString();
+}
+
+/**
+ * The Recurring API takes amounts and prices as JSON numbers, which are not
+ * exact past 2^53.
+ */
+function toSafeNumber(value: bigint | string, label: string): number {
+  if (new Big(value.toString()).gt(Number.MAX_SAFE_INTEGER)) {
+    throw new InvalidArgumentError(
+      `The ${label} ${value.toString()} is too large for the Recurring API (max ${Number.MAX_SAFE_INTEGER})`
+    );
+  }
+  return Number(value);
+}
+
+/**
+ * Creates, lists and cancels Jupiter Recurring (DCA) orders. The deposit
+ * leaves the wallet when the order is created; Jupiter's keepers then swap
+ * it in cycles. Fills are recorded by RecurringFillSyncService.
+ */
+export class RecurringOrderService {
+  constructor(
+    private walletResolver: WalletResolverService,
+    private tokenInfoProvider: TokenInfoProvider,
+    private recurringApi: RecurringApiService,
+    private riskPolicy: RiskPolicyService,
+    private inspector: TransactionInspectorService,
+    private amountResolver: AmountResolverService,
+    private signer: WalletSignerService = new WalletSignerService()
+  ) {}
+
+  async prepare(request: RecurringOrderRequest): Promise<RecurringOrderDraft> {
+    const type: RecurringType = request.incrementUsd !== undefined ? 'price' : 'time';
+    if ((request.numberOfOrders === undefined) === (request.incrementUsd === undefined)) {
+      throw new InvalidArgumentError(
+        'Set either a number of orders (time-based) or a USD increment (price-based)'
+      );
+    }
+    if (type === 'time') {
+      const orders = request.numberOfOrders ?? 0;
+      if (!Number.isInteger(orders) || orders < 2) {
+        throw new InvalidArgumentError('A time-based order needs at least 2 orders', {
+          numberOfOrders: request.numberOfOrders,
+        });
+      }
+    } else if (request.minPrice !== undefined || request.maxPrice !== undefined) {
+      throw new InvalidArgumentError('Price bounds only apply to time-based orders');
+    }
+    if (!(request.intervalSeconds >= 60)) {
+      throw new InvalidArgumentError('The interval must be at least 1 minute', {
+        intervalSeconds: request.intervalSeconds,
+      });
+    }
+    const minPrice =
+      request.minPrice !== undefined ? parsePositive(request.minPrice, 'minimum price') : null;
+    const maxPrice =
+      request.maxPrice !== undefined ? parsePositive(request.maxPrice, 'maximum price') : null;
+    if (minPrice && maxPrice && new Big(minPrice).gte(maxPrice)) {
+      throw new InvalidArgumentError('The minimum price must be below the maximum price');
+    }
+    const incrementUsd =
+      request.incrementUsd !== undefined
+        ? parsePositive(request.incrementUsd, 'USD increment')
+        : null;
+    if (request.startAt && request.startAt.getTime() <= Date.now()) {
+      throw new InvalidArgumentError('The start time must be in the future', {
+        startAt: request.startAt.toISOString(),
+      });
+    }
+
+    const wallet = await this.walletResolver.resolve(request.wallet);
+    const [input, output] = await Promise.all([
+      this.tokenInfoProvider.resolveToken(request.inputToken),
+      this.tokenInfoProvider.resolveToken(request.outputToken),
+    ]);
+    if (input.mint === output.mint) {
+      throw new InvalidArgumentError('Input and output tokens must be different');
+    }
+    const { amount, basis } = await this.amountResolver.resolve(
+      request.amount,
+      input,
+      wallet.address
+    );
+
+    return {
+      wallet,
+      input,
+      output,
+      type,
+      amount,
+      amountBasis: basis,
+      amountPerOrder:
+        type === 'time'
+          ? TokenAmount.fromRaw(amount.raw / BigInt(request.numberOfOrders ?? 1), input.decimals)
+          : null,
+      intervalSeconds: request.intervalSeconds,
+      numberOfOrders: type === 'time' ? (request.numberOfOrders ?? null) : null,
+      incrementUsd,
+      minPrice,
+      maxPrice,
+      startAt: request.startAt ?? null,
+    };
+  }
+
+  /**
+   * Risk policy violations for the deposit, for display before confirming.
+   * `submit` enforces the policy either way.
+   */
+  checkPolicy(draft: RecurringOrderDraft): Promise<RiskViolation[]> {
+    return this.riskPolicy.check(this.toRiskCheck(draft));
+  }
+
+  /**
+   * Gets the unsigned order transaction. Nothing is created until `submit`.
+   */
+  async buildTransaction(draft: RecurringOrderDraft): Promise<RecurringOrderTransaction> {
+    const response = await this.recurringApi.createOrder(this.toCreateParams(draft));
+
+    return { draft, requestId: response.requestId, transaction: response.transaction };
+  }
+
+  /**
+   * Decoded order transaction, for display before confirming. It is
+   * verified again before signing either way.
+   */
+  inspectTransaction(order: RecurringOrderTransaction): Promise<TransactionInspection> {
+    return this.inspector.inspect(
+      order.transaction,
+      order.draft.wallet.address,
+      this.toDeclaredInput(order.draft)
+    );
+  }
+
+  /**
+   * Enforces the risk policy, verifies, signs and sends a transaction from
+   * `buildTransaction`.
+   */
+  async submit(
+    order: RecurringOrderTransaction,
+    sessionKey: Buffer
+  ): Promise<RecurringOrderCreated> {
+    const { draft } = order;
+    await this.riskPolicy.enforce(this.toRiskCheck(draft));
+    await this.inspector.verify(
+      order.transaction,
+      draft.wallet.address,
+      this.toDeclaredInput(draft)
+    );
+
+    const signedTransaction = await this.signer.signTransaction(
+      draft.wallet,
+      order.transaction,
+      sessionKey
+    );
+    const result = await this.recurringApi.execute(signedTransaction, order.requestId);
+    if (result.status !== 'Success') {
+      throw new JupiterApiError(
+        `Recurring order transaction failed: ${result.error ?? result.status}`,
+        400,
+        { signature: result.signature, status: result.status }
+      );
+    }
+
+    const orderKey = result.order ?? null;
+    await this.riskPolicy.recordCommitment(this.toRiskCheck(draft), 'recurring_order', orderKey);
+    return { orderKey, signature: result.signature };
+  }
+
+  /**
+   * Orders of both types, newest first.
+   */
+  async list(wallet: Wallet, status: 'active' | 'history'): Promise<TypedRecurringOrder[]> {
+    const orders: TypedRecurringOrder[] = [];
+    for (const type of RECURRING_TYPES) {
+      for (let page = 1; page <= MAX_PAGES; page++) {
+        const response = await this.recurringApi.getOrders(wallet.address, status, type, page);
+        orders.push(...(response[type] ?? []).map((order) => ({ ...order, type })));
+        if (page >= response.totalPages) break;
+      }
+    }
+    return orders.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  /**
+   * Closes an active order; what was not swapped yet goes back to the wallet.
+   */
+  async cancel(wallet: Wallet, orderKey: string, sessionKey: Buffer): Promise<string> {
+    const order = (await this.list(wallet, 'active')).find((o) => o.orderKey === orderKey);
+    if (!order) {
+      throw new RecurringOrderNotFoundError(orderKey);
+    }
+
+    const response = await this.recurringApi.cancelOrder(wallet.address, orderKey, order.type);
+    await this.inspector.verify(response.transaction, wallet.address, null);
+    const signedTransaction = await this.signer.signTransaction(
+      wallet,
+      response.transaction,
+      sessionKey
+    );
+    const result = await this.recurringApi.execute(signedTransaction, response.requestId);
+    if (result.status !== 'Success') {
+      throw new JupiterApiError(
+        `Cancel transaction failed: ${result.error ?? result.status}`,
+        400,
+        { signature: result.signature, status: result.status }
+      );
+    }
+    return result.signature;
+  }
+
+  private toCreateParams(draft: RecurringOrderDraft): CreateRecurringOrderParams {
+    const startAt = draft.startAt ? Math.floor(draft.startAt.getTime() / 1000) : null;
+    const base = {
+      user: draft.wallet.address,
+      inputMint: draft.input.mint,
+      outputMint: draft.output.mint,
+    };
+    if (draft.type === 'price') {
+      return {
+        ...base,
+        params: {
+          price: {
+            depositAmount: toSafeNumber(draft.amount.raw, 'deposit amount'),
+            incrementUsdcValue: toSafeNumber(
+              TokenAmount.fromDecimal(draft.incrementUsd ?? '0', USDC_DECIMALS).raw,
+              'USD increment'
+            ),
+            interval: draft.intervalSeconds,
+            startAt,
+          },
+        },
+      };
+    }
+    return {
+      ...base,
+      params: {
+        time: {
+          inAmount: toSafeNumber(draft.amount.raw, 'deposit amount'),
+          numberOfOrders: draft.numberOfOrders ?? 0,
+          interval: draft.intervalSeconds,
+          minPrice: draft.minPrice !== null ? toSafeNumber(draft.minPrice, 'minimum price') : null,
+          maxPrice: draft.maxPrice !== null ? toSafeNumber(draft.maxPrice, 'maximum price') : null,
+          startAt,
+        },
+      },
+    };
+  }
+
+  /**
+   * The whole deposit is checked, since it leaves the wallet at once. The
+   * output is unknown until the cycles run, so USD limits use the input.
+   */
+  private toRiskCheck(draft: RecurringOrderDraft): RiskCheckRequest {
+    return {
+      wallet: draft.wallet,
+      input: draft.input,
+      output: draft.output,
+      inputAmount: draft.amount,
+      outputAmount: TokenAmount.zero(draft.output.decimals),
+    };
+  }
+
+  private toDeclaredInput(draft: RecurringOrderDraft): DeclaredInput {
+    return { mint: draft.input.mint, amount: draft.amount };
+  }
+}
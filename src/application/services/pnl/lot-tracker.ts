@@ -0,0 +1,166 @@
+import Big from 'big.js';
+import { Configuration } from '../../../core/config/configuration.service';
+
+export type CostBasisMethod = Configuration['trading']['costBasisMethod'];
+
+export interface Lot {
+  tradeId: string; // Or the activity ID of a deposit
+  amount: Big; // Units still held from this acquisition
+  unitCost: Big | null; // USD cost per unit, null for a deposit of unknown cost
+  acquiredAt: Date;
+}
+
+/**
+ * Part of a disposal matched against holdings. `acquiredAt` is undefined
+ * for the average method and for units sold beyond holdings.
+ */
+export interface LotSlice {
+  amount: Big;
+  cost: Big | null; // Null when unknown: deposited units, or units sold beyond holdings
+  acquiredAt?: Date;
+}
+
+/**
+ * Tracks holdings per mint and matches disposals against them using the
+ * selected cost-basis method. Units of unknown cost are held like any other
+ * but come back from disposals without a cost.
+ */
+export class LotTracker {
+  private method: CostBasisMethod;
+  private lots = new Map<string, Lot[]>();
+  // `amount` and `cost` cover units of known cost, `unknown` the others
+  private pools = new Map<string, { amount: Big; cost: Big; unknown: Big }>();
+
+  constructor(method: CostBasisMethod) {
+    this.method = method;
+  }
+
+  acquire(mint: string, tradeId: string, amount: Big, cost: Big | null, acquiredAt: Date): void {
+    if (amount.lte(0)) return;
+
+    if (this.method === 'average') {
+      const pool = this.pools.get(mint) ?? {
+        amount: new Big(0),
+        cost: new Big(0),
+        unknown: new Big(0),
+      };
+      if (cost === null) {
+        pool.unknown = pool.unknown.plus(amount);
+      } else {
+        pool.amount = pool.amount.plus(amount);
+        pool.cost = pool.cost.plus(cost);
+      }
+      this.pools.set(mint, pool);
+      return;
+    }
+
+    const lots = this.lots.get(mint) ?? [];
+    lots.push({ tradeId, amount, unitCost: cost !== null ? cost.div(amount) : null, acquiredAt });
+    this.lots.set(mint, lots);
+  }
+
+  /**
+   * Remove `amount` units from holdings and return the matched slices.
+   * Units beyond holdings come back as an untracked slice, with no cost.
+   */
+  dispose(mint: string, amount: Big): LotSlice[] {
+    if (amount.lte(0)) return [];
+
+    const slices =
+      this.method === 'average'
+        ? this.disposeAverage(mint, amount)
+        : this.disposeLots(mint, amount);
+
+    const matched = slices.reduce((sum, s) => sum.plus(s.amount), new Big(0));
+    if (amount.gt(matched)) {
+      slices.push({ amount: amount.minus(matched), cost: null });
+    }
+
+    return slices;
+  }
+
+  /**
+   * Units of known cost still held, and their cost.
+   */
+  getHoldings(mint: string): { amount: Big; cost: Big } {
+    if (this.method === 'average') {
+      const pool = this.pools.get(mint);
+      return pool
+        ? { amount: pool.amount, cost: pool.cost }
+        : { amount: new Big(0), cost: new Big(0) };
+    }
+
+    return (this.lots.get(mint) ?? []).reduce(
+      (acc, lot) =>
+        lot.unitCost === null
+          ? acc
+          : {
+              amount: acc.amount.plus(lot.amount),
+              cost: acc.cost.plus(lot.amount.times(lot.unitCost)),
+            },
+      { amount: new Big(0), cost: new Big(0) }
+    );
+  }
+
+  private disposeAverage(mint: string, amount: Big): LotSlice[] {
+    const pool = this.pools.get(mint);
+    const held = pool ? pool.amount.plus(pool.unknown) : new Big(0);
+    if (!pool || held.lte(0)) return [];
+
+    // On sell, cost is reduced proportionally to the units sold (PLAN C8);
+    // units of known and unknown cost are sold in proportion too
+    const matched = amount.gt(held) ? held : amount;
+    const known = matched.times(pool.amount).div(held);
+    const unknown = matched.minus(known);
+    const cost = pool.amount.gt(0) ? pool.cost.times(known.div(pool.amount)) : new Big(0);
+
+    pool.amount = pool.amount.minus(known);
+    pool.cost = pool.cost.minus(cost);
+    pool.unknown = pool.unknown.minus(unknown);
+
+    const slices: LotSlice[] = [];
+    if (known.gt(0)) slices.push({ amount: known, cost });
+    if (unknown.gt(0)) slices.push({ amount: unknown, cost: null });
+    return slices;
+  }
+
+  private disposeLots(mint: string, amount: Big): LotSlice[] {
+    const lots = this.lots.get(mint) ?? [];
+    const slices: LotSlice[] = [];
+    let remaining = amount;
+
+    for (const lot of this.orderLots(lots)) {
+      if (remaining.lte(0)) break;
+      const take = lot.amount.lt(remaining) ? lot.amount : remaining;
+      slices.push({
+        amount: take,
+        cost: lot.unitCost !== null ? take.times(lot.unitCost) : null,
+        acquiredAt: lot.acquiredAt,
+      });
+      lot.amount = lot.amount.minus(take);
+      remaining = remaining.minus(take);
+    }
+
+    this.lots.set(
+      mint,
+      lots.filter((l) => l.amount.gt(0))
+    );
+    return slices;
+  }
+
+  private orderLots(lots: Lot[]): Lot[] {
+    switch (this.method) {
+      case 'lifo':
+        return [...lots].sort((a, b) => b.acquiredAt.getTime() - a.acquiredAt.getTime());
+      case 'hifo':
+        // Lots of unknown cost last
+        return [...lots].sort((a, b) =>
+          a.unitCost === null || b.unitCost === null
+            ? Number(a.unitCost === null) - Number(b.unitCost === null)
+            : b.unitCost.cmp(a.unitCost)
+        );
+      default:
+        return lots;
+    }
+  }
+}
@@ -0,0 +1,511 @@
+import Big from 'big.js';
+import { Trade } from '../../../domain/entities/trade.entity';
+import { TradeRepository } from '../../../domain/repositories/trade.repository';
+import { WalletActivity } from '../../../domain/entities/wallet-activity.entity';
+import { WalletActivityRepository } from '../../../domain/repositories/wallet-activity.repository';
+import { SolanaRpcPort } from '../../ports/blockchain.port';
+import { PriceProvider } from '../wallet/wallet-sync.service';
+import { STABLECOIN_MINTS, toUiAmount } from '../trade/trade.service';
+import { LoggerService } from '../../../core/logger/logger.service';
+import { CostBasisMethod, LotTracker } from './lot-tracker';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const LONG_TERM_DAYS = 365;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface TokenCost {
+  symbol?: string;
+  totalAcquired: Big; // Total units ever acquired via trades
+  totalDisposed: Big; // Total units ever sold via trades
+  remainingAmount: Big; // Units still held according to trades
+  remainingCost: Big; // Cost basis of remaining holdings (USD)
+  realizedPnl: Big; // Sum of realized PnL from sales (USD)
+  untrackedDisposed: Big; // Units sold beyond tracked holdings, left out of realizedPnl
+}
+
+export interface TokenPnL {
+  mint: string;
+  symbol?: string;
+  balance: number; // Current on-chain balance
+  currentPrice: number; // Current price (Jupiter API)
+  currentValue: number; // balance × currentPrice
+  avgCost: number; // remainingCost / remaining units
+  totalCost: number; // Cost of current holdings
+  unrealizedPnl: number; // currentValue - totalCost
+  unrealizedPnlPercent: number;
+  realizedPnl: number; // From past sales
+  untrackedSold: number; // Units sold without a tracked acquisition, not in realizedPnl
+  tracked: boolean; // false if no trades exist for this token
+  priced: boolean; // false if no current price is available
+}
+
+export interface PnLResult {
+  tokens: TokenPnL[];
+  totalValue: number;
+  totalCost: number;
+  totalUnrealizedPnl: number;
+  totalUnrealizedPnlPercent: number;
+  totalRealizedPnl: number;
+  untrackedTokens: string[]; // Mints with balance but no trades
+  tradeCount: number;
+  skippedTrades: number; // Trades without any USD value
+}
+
+/**
+ * A sale of (part of) a position matched against one acquisition lot.
+ */
+export interface Disposal {
+  tradeId: string;
+  signature: string;
+  mint: string;
+  symbol?: string;
+  amount: Big;
+  proceeds: Big; // USD received for these units
+  costBasis: Big | null; // USD cost of these units, null when untracked
+  gain: Big | null; // proceeds - costBasis, null when untracked
+  disposedAt: Date;
+  acquiredAt?: Date; // Undefined for cost average or untracked units
+  holdingPeriodDays?: number;
+  longTerm?: boolean; // Held for more than a year
+}
+
+export interface RealizedGainsOptions {
+  method: CostBasisMethod;
+  from?: Date;
+  to?: Date;
+  mint?: string;
+}
+
+export interface RealizedGainsReport {
+  method: CostBasisMethod;
+  disposals: Disposal[];
+  totalProceeds: number;
+  totalCostBasis: number;
+  totalGain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  untrackedProceeds: number; // From untracked units, not in the totals above
+  skippedTrades: number;
+}
+
+interface CostCalculation {
+  costs: Map<string, TokenCost>;
+  disposals: Disposal[];
+  tradeCount: number;
+  skippedTrades: number;
+}
+
+export class PnLService {
+  private tradeRepo: TradeRepository;
+  private rpcService: SolanaRpcPort;
+  private priceProvider: PriceProvider;
+  private activityRepo?: WalletActivityRepository;
+
+  constructor(
+    tradeRepo: TradeRepository,
+    rpcService: SolanaRpcPort,
+    priceProvider: PriceProvider,
+    activityRepo?: WalletActivityRepository
+  ) {
+    this.tradeRepo = tradeRepo;
+    this.rpcService = rpcService;
+    this.priceProvider = priceProvider;
+    this.activityRepo = activityRepo;
+  }
+
+  /**
+   * Calculate PnL for a wallet (cost average by default).
+   * Cost basis is rebuilt from recorded trades; open positions are marked
+   * with on-chain balances and current Jupiter prices.
+   */
+  async calculatePnL(
+    walletId: string,
+    walletAddress: string,
+    mint?: string,
+    method: CostBasisMethod = 'average'
+  ): Promise<PnLResult> {
+    const trades = await this.getSuccessfulTrades(walletId);
+    const transfers = await this.getTransfers(walletId);
+    const { costs, tradeCount, skippedTrades } = this.buildCosts(trades, method, transfers);
+
+    const walletTokens = await this.rpcService.getTokenAccounts(walletAddress);
+    const balances = new Map<string, Big>();
+    if (walletTokens.solBalance > 0) {
+      balances.set(SOL_MINT, new Big(walletTokens.solBalance));
+    }
+    for (const token of walletTokens.tokens) {
+      balances.set(token.mint, toUiAmount(token.amount, token.decimals));
+    }
+
+    if (mint) {
+      for (const key of [...costs.keys()]) {
+        if (key !== mint) costs.delete(key);
+      }
+      for (const key of [...balances.keys()]) {
+        if (key !== mint) balances.delete(key);
+      }
+    }
+
+    const prices = await this.fetchPrices([...new Set([...costs.keys(), ...balances.keys()])]);
+
+    return {
+      ...this.computePnL(costs, balances, prices),
+      tradeCount,
+      skippedTrades,
+    };
+  }
+
+  /**
+   * List realized gains per disposal. The whole trade history is replayed so
+   * that lots acquired before the requested period are matched correctly.
+   */
+  async calculateRealizedGains(
+    walletId: string,
+    options: RealizedGainsOptions
+  ): Promise<RealizedGainsReport> {
+    const trades = await this.getSuccessfulTrades(walletId);
+    const transfers = await this.getTransfers(walletId);
+    const { disposals, skippedTrades } = this.buildCosts(trades, options.method, transfers);
+
+    const filtered = disposals.filter(
+      (d) =>
+        (!options.mint || d.mint === options.mint) &&
+        (!options.from || d.disposedAt >= options.from) &&
+        (!options.to || d.disposedAt <= options.to)
+    );
+
+    const sum = (items: Disposal[], pick: (d: Disposal) => Big | null) =>
+      items.reduce((acc, d) => acc.plus(pick(d) ?? 0), new Big(0)).toNumber();
+    const tracked = filtered.filter((d) => d.costBasis !== null);
+
+    return {
+      method: options.method,
+      disposals: filtered,
+      totalProceeds: sum(tracked, (d) => d.proceeds),
+      totalCostBasis: sum(tracked, (d) => d.costBasis),
+      totalGain: sum(tracked, (d) => d.gain),
+      shortTermGain: sum(
+        tracked.filter((d) => !d.longTerm),
+        (d) => d.gain
+      ),
+      longTermGain: sum(
+        tracked.filter((d) => d.longTerm),
+        (d) => d.gain
+      ),
+      untrackedProceeds: sum(
+        filtered.filter((d) => d.costBasis === null),
+        (d) => d.proceeds
+      ),
+      skippedTrades,
+    };
+  }
+
+  /**
+   * Pure function: rebuild the cost basis of each mint from trades.
+   * With cost average, a sell reduces the cost basis proportionally to the
+   * units sold (PLAN C8), never by the sale value. Lot methods consume
+   * acquisition lots in FIFO, LIFO or highest-cost-first order.
+   * Withdrawals (imported outgoing transfers) remove units at cost without
+   * realizing a gain. Deposits (imported incoming transfers) are held at an
+   * unknown cost, stablecoins at face value: selling them realizes no gain.
+   */
+  calculateCostByMint(
+    trades: Trade[],
+    method: CostBasisMethod = 'average',
+    transfers: WalletActivity[] = []
+  ): Map<string, TokenCost> {
+    return this.buildCosts(trades, method, transfers).costs;
+  }
+
+  /**
+   * Pure function: list every disposal of a non-stablecoin token.
+   */
+  calculateDisposals(
+    trades: Trade[],
+    method: CostBasisMethod = 'average',
+    transfers: WalletActivity[] = []
+  ): Disposal[] {
+    return this.buildCosts(trades, method, transfers).disposals;
+  }
+
+  /**
+   * Pure function: combine cost basis with current balances and prices.
+   * Units held beyond what trades account for (transfers, airdrops) are
+   * valued but excluded from cost and unrealized PnL.
+   */
+  computePnL(
+    costs: Map<string, TokenCost>,
+    balances: Map<string, Big | number>,
+    prices: Map<string, number>
+  ): Omit<PnLResult, 'tradeCount' | 'skippedTrades'> {
+    const tokens: TokenPnL[] = [];
+    const untrackedTokens: string[] = [];
+    let totalValue = new Big(0);
+    let totalCost = new Big(0);
+    let totalUnrealized = new Big(0);
+    let totalRealized = new Big(0);
+
+    const mints = new Set([...costs.keys(), ...balances.keys()]);
+
+    for (const mint of mints) {
+      const cost = costs.get(mint);
+      const balance = new Big(balances.get(mint) ?? 0);
+      const price = prices.get(mint);
+      const priced = price !== undefined;
+      const currentPrice = new Big(price ?? 0);
+      const currentValue = balance.times(currentPrice);
+
+      totalValue = totalValue.plus(currentValue);
+
+      if (!cost) {
+        untrackedTokens.push(mint);
+        tokens.push({
+          mint,
+          balance: balance.toNumber(),
+          currentPrice: currentPrice.toNumber(),
+          currentValue: currentValue.toNumber(),
+          avgCost: 0,
+          totalCost: 0,
+          unrealizedPnl: 0,
+          unrealizedPnlPercent: 0,
+          realizedPnl: 0,
+          untrackedSold: 0,
+          tracked: false,
+          priced,
+        });
+        continue;
+      }
+
+      const avgCost = cost.remainingAmount.gt(0)
+        ? cost.remainingCost.div(cost.remainingAmount)
+        : new Big(0);
+      const costedBalance = balance.lt(cost.remainingAmount) ? balance : cost.remainingAmount;
+      const holdingCost = avgCost.times(costedBalance);
+      const unrealized = priced ? costedBalance.times(currentPrice).minus(holdingCost) : new Big(0);
+
+      totalRealized = totalRealized.plus(cost.realizedPnl);
+      if (priced) {
+        totalCost = totalCost.plus(holdingCost);
+        totalUnrealized = totalUnrealized.plus(unrealized);
+      }
+
+      tokens.push({
+        mint,
+        symbol: cost.symbol,
+        balance: balance.toNumber(),
+        currentPrice: currentPrice.toNumber(),
+        currentValue: currentValue.toNumber(),
+        avgCost: avgCost.toNumber(),
+        totalCost: holdingCost.toNumber(),
+        unrealizedPnl: unrealized.toNumber(),
+        unrealizedPnlPercent: holdingCost.gt(0)
+          ? unrealized.div(holdingCost).times(100).toNumber()
+          : 0,
+        realizedPnl: cost.realizedPnl.toNumber(),
+        untrackedSold: cost.untrackedDisposed.toNumber(),
+        tracked: true,
+        priced,
+      });
+    }
+
+    tokens.sort((a, b) => b.currentValue - a.currentValue);
+
+    return {
+      tokens,
+      totalValue: totalValue.toNumber(),
+      totalCost: totalCost.toNumber(),
+      totalUnrealizedPnl: totalUnrealized.toNumber(),
+      totalUnrealizedPnlPercent: totalCost.gt(0)
+        ? totalUnrealized.div(totalCost).times(100).toNumber()
+        : 0,
+      totalRealizedPnl: totalRealized.toNumber(),
+      untrackedTokens,
+    };
+  }
+
+  private async getSuccessfulTrades(walletId: string): Promise<Trade[]> {
+    return this.tradeRepo.findByWallet(walletId, { status: 'success', order: 'asc' });
+  }
+
+  /**
+   * Deposits and withdrawals. Order escrow movements are left out: the
+   * units stay the wallet's, and their fills are recorded as trades.
+   */
+  private async getTransfers(walletId: string): Promise<WalletActivity[]> {
+    if (!this.activityRepo) return [];
+    return this.activityRepo.findByWallet(walletId, {
+      kinds: ['transfer_in', 'transfer_out'],
+      order: 'asc',
+    });
+  }
+
+  private buildCosts(
+    trades: Trade[],
+    method: CostBasisMethod,
+    transfers: WalletActivity[] = []
+  ): CostCalculation {
+    const costs = new Map<string, TokenCost>();
+    const disposals: Disposal[] = [];
+    const tracker = new LotTracker(method);
+    let tradeCount = 0;
+    let skippedTrades = 0;
+
+    const events: Array<{ at: Date; trade?: Trade; transfer?: WalletActivity }> = [
+      ...trades.filter((t) => t.status === 'success').map((t) => ({ at: t.executedAt, trade: t })),
+      ...transfers
+        .filter((t) => t.kind === 'transfer_in' || t.kind === 'transfer_out')
+        .map((t) => ({ at: t.blockTime, transfer: t })),
+    ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    for (const { trade, transfer } of events) {
+      if (transfer) {
+        // Deposits are held like bought units, but no USD value is known for them
+        for (const change of transfer.inflows) {
+          const amount = toUiAmount(change.amount, change.decimals);
+          const cost = STABLECOIN_MINTS.has(change.mint) ? amount : null;
+          tracker.acquire(change.mint, transfer.id, amount, cost, transfer.blockTime);
+        }
+        // Units leaving the wallet take their cost basis with them
+        for (const change of transfer.outflows) {
+          tracker.dispose(change.mint, toUiAmount(change.amount.slice(1), change.decimals));
+        }
+        continue;
+      }
+      if (!trade || trade.inputMint === trade.outputMint) continue;
+
+      const inputAmount = toUiAmount(trade.inputAmount, trade.inputDecimals);
+      const outputAmount = toUiAmount(trade.outputAmount, trade.outputDecimals);
+      const inputValue = this.getLegUsdValue(trade, 'input');
+      const outputValue = this.getLegUsdValue(trade, 'output');
+
+      if (inputValue === null || outputValue === null) {
+        skippedTrades++;
+        LoggerService.getInstance().warn(`Skipping trade ${trade.id} in PnL: no USD value`);
+        continue;
+      }
+
+      tradeCount++;
+
+      // INPUT token (disposed)
+      const disposed = this.getOrCreateCost(costs, trade.inputMint, trade.inputSymbol);
+      disposed.totalDisposed = disposed.totalDisposed.plus(inputAmount);
+
+      for (const slice of tracker.dispose(trade.inputMint, inputAmount)) {
+        // Stablecoins are USD: spending them never realizes a gain or loss
+        if (STABLECOIN_MINTS.has(trade.inputMint)) continue;
+
+        const proceeds = inputValue.times(slice.amount).div(inputAmount);
+        // Units sold without a tracked acquisition have no known cost: no gain is realized
+        const gain = slice.cost !== null ? proceeds.minus(slice.cost) : null;
+        if (gain !== null) {
+          disposed.realizedPnl = disposed.realizedPnl.plus(gain);
+        } else {
+          disposed.untrackedDisposed = disposed.untrackedDisposed.plus(slice.amount);
+        }
+
+        const holdingPeriodDays = slice.acquiredAt
+          ? Math.floor((trade.executedAt.getTime() - slice.acquiredAt.getTime()) / MS_PER_DAY)
+          : undefined;
+
+        disposals.push({
+          tradeId: trade.id,
+          signature: trade.signature,
+          mint: trade.inputMint,
+          symbol: trade.inputSymbol,
+          amount: slice.amount,
+          proceeds,
+          costBasis: slice.cost,
+          gain,
+          disposedAt: trade.executedAt,
+          acquiredAt: slice.acquiredAt,
+          holdingPeriodDays,
+          longTerm:
+            holdingPeriodDays !== undefined ? holdingPeriodDays > LONG_TERM_DAYS : undefined,
+        });
+      }
+
+      // OUTPUT token (acquired)
+      const acquired = this.getOrCreateCost(costs, trade.outputMint, trade.outputSymbol);
+      acquired.totalAcquired = acquired.totalAcquired.plus(outputAmount);
+      tracker.acquire(trade.outputMint, trade.id, outputAmount, outputValue, trade.executedAt);
+    }
+
+    for (const [mint, cost] of costs) {
+      const holdings = tracker.getHoldings(mint);
+      cost.remainingAmount = holdings.amount;
+      cost.remainingCost = holdings.cost;
+    }
+
+    return { costs, disposals, tradeCount, skippedTrades };
+  }
+
+  /**
+   * USD value of one side of a trade. Stablecoins are valued at face value;
+   * a missing value falls back to the other side of the swap (PLAN C2).
+   */
+  private getLegUsdValue(trade: Trade, side: 'input' | 'output'): Big | null {
+    const own = this.getStoredUsdValue(trade, side);
+    if (own !== null) return own;
+    return this.getStoredUsdValue(trade, side === 'input' ? 'output' : 'input');
+  }
+
+  private getStoredUsdValue(trade: Trade, side: 'input' | 'output'): Big | null {
+    const mint = side === 'input' ? trade.inputMint : trade.outputMint;
+    if (STABLECOIN_MINTS.has(mint)) {
+      return side === 'input'
+        ? toUiAmount(trade.inputAmount, trade.inputDecimals)
+        : toUiAmount(trade.outputAmount, trade.outputDecimals);
+    }
+    const value = side === 'input' ? trade.inputUsdValue : trade.outputUsdValue;
+    return value !== undefined ? new Big(value) : null;
+  }
+
+  private getOrCreateCost(costs: Map<string, TokenCost>, mint: string, symbol?: string): TokenCost {
+    let cost = costs.get(mint);
+    if (!cost) {
+      cost = {
+        symbol,
+        totalAcquired: new Big(0),
+        totalDisposed: new Big(0),
+        remainingAmount: new Big(0),
+        remainingCost: new Big(0),
+        realizedPnl: new Big(0),
+        untrackedDisposed: new Big(0),
+      };
+      costs.set(mint, cost);
+    } else if (!cost.symbol && symbol) {
+      cost.symbol = symbol;
+    }
+    return cost;
+  }
+
+  private async fetchPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    for (const mint of mints) {
+      if (STABLECOIN_MINTS.has(mint)) {
+        prices.set(mint, 1);
+      }
+    }
+
+    const toFetch = mints.filter((m) => !prices.has(m));
+    if (toFetch.length === 0) {
+      return prices;
+    }
+
+    try {
+      const results = await this.priceProvider.getPrice(toFetch);
+      for (const result of results) {
+        if (result.price > 0) {
+          prices.set(result.mint, result.price);
+        }
+      }
+    } catch (error) {
+      LoggerService.getInstance().warn(
+        `Failed to fetch prices for PnL: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    return prices;
+  }
+}
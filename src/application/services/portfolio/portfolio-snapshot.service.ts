@@ -0,0 +1,307 @@
+import { randomUUID } from 'crypto';
+import Big from 'big.js';
+import {
+  PortfolioSnapshot,
+  SnapshotItem,
+} from '../../../domain/entities/portfolio-snapshot.entity';
+import { PortfolioSnapshotRepository } from '../../../domain/repositories/portfolio-snapshot.repository';
+import { WalletRepository } from '../../../domain/repositories/wallet.repository';
+import { WalletActivityRepository } from '../../../domain/repositories/wallet-activity.repository';
+import { WalletState } from '../wallet/wallet-sync.service';
+import { toUiAmount } from '../trade/trade.service';
+import { FailedWallet } from './portfolio.service';
+import { LoggerService } from '../../../core/logger/logger.service';
+
+export interface WalletStateProvider {
+  getWalletState(walletId: string): Promise<WalletState>;
+}
+
+export interface SnapshotResult {
+  snapshot: PortfolioSnapshot;
+  failedWallets: FailedWallet[];
+}
+
+/**
+ * Deposit (positive) or withdrawal (negative) of one token, in UI units.
+ */
+export interface CashFlow {
+  walletId: string;
+  at: Date;
+  mint: string;
+  amount: Big;
+}
+
+export interface EquityPoint {
+  takenAt: Date;
+  value: number; // Total USD value of the snapshot
+  flows: number; // Net deposits (USD) since the previous snapshot
+  index: number; // Growth of $1 invested at the first snapshot (flow-adjusted)
+}
+
+export interface DailyChange {
+  date: string; // YYYY-MM-DD (UTC)
+  value: number; // Value at the last snapshot of the day
+  change: number; // USD change vs. previous close, including flows
+  returnPercent: number; // Flow-adjusted return vs. previous close
+}
+
+export interface PerformanceReport {
+  snapshotCount: number;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  timeWeightedReturn: number; // %
+  maxDrawdown: number; // % decline from peak, positive
+  maxDrawdownPeak?: Date;
+  maxDrawdownTrough?: Date;
+  equityCurve: EquityPoint[];
+  daily: DailyChange[];
+}
+
+/**
+ * Captures portfolio snapshots and reports performance between them.
+ *
+ * Returns are time-weighted: each period between two snapshots uses the
+ * Modified Dietz method over wallets present in both snapshots, so deposits,
+ * withdrawals (imported with `wallet sync-history`) and wallets added later
+ * do not count as performance.
+ */
+export class PortfolioSnapshotService {
+  private snapshotRepo: PortfolioSnapshotRepository;
+  private walletRepo: WalletRepository;
+  private walletStateProvider: WalletStateProvider;
+  private activityRepo?: WalletActivityRepository;
+
+  constructor(
+    snapshotRepo: PortfolioSnapshotRepository,
+    walletRepo: WalletRepository,
+    walletStateProvider: WalletStateProvider,
+    activityRepo?: WalletActivityRepository
+  ) {
+    this.snapshotRepo = snapshotRepo;
+    this.walletRepo = walletRepo;
+    this.walletStateProvider = walletStateProvider;
+    this.activityRepo = activityRepo;
+  }
+
+  async takeSnapshot(): Promise<SnapshotResult> {
+    const wallets = await this.walletRepo.findAll();
+    const results = await Promise.allSettled(
+      wallets.map((wallet) => this.walletStateProvider.getWalletState(wallet.id))
+    );
+
+    const items: SnapshotItem[] = [];
+    const failedWallets: FailedWallet[] = [];
+
+    results.forEach((result, index) => {
+      const wallet = wallets[index];
+      if (!wallet) return;
+
+      if (result.status === 'rejected') {
+        const error = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+        LoggerService.getInstance().warn(`Snapshot skipped ${wallet.name}: ${error}`);
+        failedWallets.push({ walletId: wallet.id, name: wallet.name, error });
+        return;
+      }
+
+      for (const token of result.value.tokens) {
+        if (token.amount <= 0) continue;
+        items.push({
+          walletId: wallet.id,
+          walletName: wallet.name,
+          mint: token.mint,
+          symbol: token.symbol,
+          amount: new Big(token.amount).toString(),
+          usdPrice: new Big(token.price).toString(),
+          usdValue: new Big(token.value).toString(),
+        });
+      }
+    });
+
+    const snapshot = await this.snapshotRepo.create(
+      new PortfolioSnapshot(randomUUID(), new Date(), items)
+    );
+
+    return { snapshot, failedWallets };
+  }
+
+  async getPerformance(from?: Date, to?: Date): Promise<PerformanceReport> {
+    const snapshots = await this.snapshotRepo.findBetween(from, to);
+    const flows = await this.getCashFlows(snapshots);
+    return this.computePerformance(snapshots, flows);
+  }
+
+  /**
+   * Pure function: equity curve, time-weighted return, drawdown and daily
+   * changes from snapshots (oldest first) and cash flows.
+   */
+  computePerformance(snapshots: PortfolioSnapshot[], flows: CashFlow[]): PerformanceReport {
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    if (!first || !last) {
+      return {
+        snapshotCount: 0,
+        startValue: 0,
+        endValue: 0,
+        netFlows: 0,
+        timeWeightedReturn: 0,
+        maxDrawdown: 0,
+        equityCurve: [],
+        daily: [],
+      };
+    }
+
+    const equityCurve: EquityPoint[] = [
+      { takenAt: first.takenAt, value: first.totalValue.toNumber(), flows: 0, index: 1 },
+    ];
+    let index = new Big(1);
+    let netFlows = new Big(0);
+
+    for (let i = 1; i < snapshots.length; i++) {
+      const start = snapshots[i - 1] as PortfolioSnapshot;
+      const end = snapshots[i] as PortfolioSnapshot;
+      const period = this.periodReturn(start, end, flows);
+
+      index = index.times(period.return.plus(1));
+      netFlows = netFlows.plus(period.flows);
+      equityCurve.push({
+        takenAt: end.takenAt,
+        value: end.totalValue.toNumber(),
+        flows: period.flows.toNumber(),
+        index: index.toNumber(),
+      });
+    }
+
+    const drawdown = this.maxDrawdown(equityCurve);
+
+    return {
+      snapshotCount: snapshots.length,
+      startValue: first.totalValue.toNumber(),
+      endValue: last.totalValue.toNumber(),
+      netFlows: netFlows.toNumber(),
+      timeWeightedReturn: index.minus(1).times(100).toNumber(),
+      maxDrawdown: drawdown.percent,
+      maxDrawdownPeak: drawdown.peak,
+      maxDrawdownTrough: drawdown.trough,
+      equityCurve,
+      daily: this.dailyChanges(equityCurve),
+    };
+  }
+
+  private periodReturn(
+    start: PortfolioSnapshot,
+    end: PortfolioSnapshot,
+    flows: CashFlow[]
+  ): { return: Big; flows: Big } {
+    const endWallets = new Set(end.walletIds);
+    const common = start.walletIds.filter((id) => endWallets.has(id));
+    const duration = end.takenAt.getTime() - start.takenAt.getTime();
+
+    let startValue = new Big(0);
+    let endValue = new Big(0);
+    for (const walletId of common) {
+      startValue = startValue.plus(start.valueOfWallet(walletId));
+      endValue = endValue.plus(end.valueOfWallet(walletId));
+    }
+
+    let netFlow = new Big(0);
+    let weightedFlow = new Big(0);
+    for (const flow of flows) {
+      if (!common.includes(flow.walletId)) continue;
+      if (flow.at <= start.takenAt || flow.at > end.takenAt) continue;
+
+      const price = end.priceOf(flow.mint) ?? start.priceOf(flow.mint) ?? new Big(0);
+      const value = flow.amount.times(price);
+      const weight =
+        duration > 0 ? new Big(end.takenAt.getTime() - flow.at.getTime()).div(duration) : 0;
+
+      netFlow = netFlow.plus(value);
+      weightedFlow = weightedFlow.plus(value.times(weight));
+    }
+
+    // Modified Dietz: gain over average capital invested during the period
+    const capital = startValue.plus(weightedFlow);
+    const periodReturn = capital.gt(0)
+      ? endValue.minus(startValue).minus(netFlow).div(capital)
+      : new Big(0);
+
+    return { return: periodReturn, flows: netFlow };
+  }
+
+  private maxDrawdown(curve: EquityPoint[]): { percent: number; peak?: Date; trough?: Date } {
+    let peak = curve[0];
+    let result: { percent: number; peak?: Date; trough?: Date } = { percent: 0 };
+
+    for (const point of curve) {
+      if (!peak || point.index > peak.index) {
+        peak = point;
+        continue;
+      }
+      const drawdown = peak.index > 0 ? ((peak.index - point.index) / peak.index) * 100 : 0;
+      if (drawdown > result.percent) {
+        result = { percent: drawdown, peak: peak.takenAt, trough: point.takenAt };
+      }
+    }
+
+    return result;
+  }
+
+  private dailyChanges(curve: EquityPoint[]): DailyChange[] {
+    const closes = new Map<string, EquityPoint>();
+    for (const point of curve) {
+      closes.set(point.takenAt.toISOString().slice(0, 10), point);
+    }
+
+    const daily: DailyChange[] = [];
+    let previous = curve[0];
+
+    for (const [date, close] of closes) {
+      if (!previous || close === previous) continue;
+      daily.push({
+        date,
+        value: close.value,
+        change: close.value - previous.value,
+        returnPercent: previous.index > 0 ? (close.index / previous.index - 1) * 100 : 0,
+      });
+      previous = close;
+    }
+
+    return daily;
+  }
+
+  private async getCashFlows(snapshots: PortfolioSnapshot[]): Promise<CashFlow[]> {
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    if (!this.activityRepo || !first || !last || first === last) return [];
+
+    const walletIds = [...new Set(snapshots.flatMap((s) => s.walletIds))];
+    const flows: CashFlow[] = [];
+
+    for (const walletId of walletIds) {
+      // Order escrow leaves the wallet's balances like a withdrawal
+      const activities = await this.activityRepo.findByWallet(walletId, {
+        kinds: ['transfer_in', 'transfer_out', 'order'],
+        from: first.takenAt,
+        to: last.takenAt,
+        order: 'asc',
+      });
+      for (const activity of activities) {
+        for (const change of activity.changes) {
+          const negative = change.amount.startsWith('-');
+          const amount = toUiAmount(
+            negative ? change.amount.slice(1) : change.amount,
+            change.decimals
+          );
+          flows.push({
+            walletId,
+            at: activity.blockTime,
+            mint: change.mint,
+            amount: negative ? amount.neg() : amount,
+          });
+        }
+      }
+    }
+
+    return flows;
+  }
+}
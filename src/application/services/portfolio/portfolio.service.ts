@@ -0,0 +1,217 @@
+import { Wallet } from '../../../domain/entities/wallet.entity';
+import { WalletRepository } from '../../../domain/repositories/wallet.repository';
+import { SolanaRpcPort, WalletTokens } from '../../ports/blockchain.port';
+import { PriceProvider } from '../wallet/wallet-sync.service';
+import { TokenInfoProvider } from '../token-info.service';
+import { LoggerService } from '../../../core/logger/logger.service';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface WalletHolding {
+  walletId: string;
+  walletName: string;
+  amount: number;
+  value: number;
+  share: number; // % of this position held by the wallet
+}
+
+export interface PortfolioPosition {
+  mint: string;
+  symbol?: string;
+  amount: number;
+  price: number;
+  value: number;
+  share: number; // % of total portfolio value
+  priced: boolean;
+  wallets: WalletHolding[];
+}
+
+export interface WalletSummary {
+  walletId: string;
+  name: string;
+  address: string;
+  totalValue: number;
+  share: number; // % of total portfolio value
+  tokenCount: number;
+}
+
+export interface FailedWallet {
+  walletId: string;
+  name: string;
+  error: string;
+}
+
+export interface Portfolio {
+  positions: PortfolioPosition[];
+  wallets: WalletSummary[];
+  failedWallets: FailedWallet[];
+  totalValue: number;
+  fetchedAt: Date;
+}
+
+export interface WalletBalances {
+  wallet: Wallet;
+  balances: Map<string, number>;
+}
+
+/**
+ * Aggregates balances across all wallets. Balances are fetched concurrently
+ * and priced with a single batched price request.
+ */
+export class PortfolioService {
+  private walletRepo: WalletRepository;
+  private solanaRpc: SolanaRpcPort;
+  private priceProvider: PriceProvider;
+  private tokenInfoProvider: TokenInfoProvider;
+
+  constructor(
+    walletRepo: WalletRepository,
+    solanaRpc: SolanaRpcPort,
+    priceProvider: PriceProvider,
+    tokenInfoProvider: TokenInfoProvider
+  ) {
+    this.walletRepo = walletRepo;
+    this.solanaRpc = solanaRpc;
+    this.priceProvider = priceProvider;
+    this.tokenInfoProvider = tokenInfoProvider;
+  }
+
+  async getPortfolio(): Promise<Portfolio> {
+    const wallets = await this.walletRepo.findAll();
+
+    const results = await Promise.allSettled(
+      wallets.map((wallet) => this.solanaRpc.getTokenAccounts(wallet.address))
+    );
+
+    const fetched: WalletBalances[] = [];
+    const failedWallets: FailedWallet[] = [];
+
+    results.forEach((result, index) => {
+      const wallet = wallets[index];
+      if (!wallet) return;
+
+      if (result.status === 'fulfilled') {
+        fetched.push({ wallet, balances: this.toBalances(result.value) });
+      } else {
+        const error = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+        LoggerService.getInstance().warn(`Failed to fetch balances for ${wallet.name}: ${error}`);
+        failedWallets.push({ walletId: wallet.id, name: wallet.name, error });
+      }
+    });
+
+    const mints = [...new Set(fetched.flatMap((w) => [...w.balances.keys()]))];
+    const [prices, tokenInfoMap] = await Promise.all([
+      this.fetchPrices(mints),
+      this.tokenInfoProvider.getTokenInfoBatch(mints),
+    ]);
+
+    const portfolio = this.aggregate(fetched, prices);
+    for (const position of portfolio.positions) {
+      position.symbol = tokenInfoMap.get(position.mint)?.symbol;
+    }
+
+    return { ...portfolio, failedWallets, fetchedAt: new Date() };
+  }
+
+  /**
+   * Pure function: merge per-wallet balances by mint and compute shares.
+   */
+  aggregate(
+    walletBalances: WalletBalances[],
+    prices: Map<string, number>
+  ): Pick<Portfolio, 'positions' | 'wallets' | 'totalValue'> {
+    const positions = new Map<string, PortfolioPosition>();
+    const wallets: WalletSummary[] = [];
+
+    for (const { wallet, balances } of walletBalances) {
+      let walletValue = 0;
+
+      for (const [mint, amount] of balances) {
+        const price = prices.get(mint);
+        const value = amount * (price ?? 0);
+        walletValue += value;
+
+        const position = positions.get(mint) ?? {
+          mint,
+          amount: 0,
+          price: price ?? 0,
+          value: 0,
+          share: 0,
+          priced: price !== undefined,
+          wallets: [],
+        };
+        position.amount += amount;
+        position.value += value;
+        position.wallets.push({
+          walletId: wallet.id,
+          walletName: wallet.name,
+          amount,
+          value,
+          share: 0,
+        });
+        positions.set(mint, position);
+      }
+
+      wallets.push({
+        walletId: wallet.id,
+        name: wallet.name,
+        address: wallet.address,
+        totalValue: walletValue,
+        share: 0,
+        tokenCount: balances.size,
+      });
+    }
+
+    const totalValue = wallets.reduce((sum, w) => sum + w.totalValue, 0);
+    const percent = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+    for (const position of positions.values()) {
+      position.share = percent(position.value, totalValue);
+      for (const holding of position.wallets) {
+        // Unpriced positions are split by units instead of value
+        holding.share = position.priced
+          ? percent(holding.value, position.value)
+          : percent(holding.amount, position.amount);
+      }
+      position.wallets.sort((a, b) => b.amount - a.amount);
+    }
+    for (const wallet of wallets) {
+      wallet.share = percent(wallet.totalValue, totalValue);
+    }
+
+    return {
+      positions: [...positions.values()].sort((a, b) => b.value - a.value),
+      wallets: wallets.sort((a, b) => b.totalValue - a.totalValue),
+      totalValue,
+    };
+  }
+
+  private toBalances(walletTokens: WalletTokens): Map<string, number> {
+    const balances = new Map<string, number>();
+    if (walletTokens.solBalance > 0) {
+      balances.set(SOL_MINT, walletTokens.solBalance);
+    }
+    for (const token of walletTokens.tokens) {
+      if (token.uiAmount > 0) {
+        balances.set(token.mint, (balances.get(token.mint) ?? 0) + token.uiAmount);
+      }
+    }
+    return balances;
+  }
+
+  private async fetchPrices(mints: string[]): Promise<Map<string, number>> {
+    if (mints.length === 0) {
+      return new Map();
+    }
+
+    try {
+      const results = await this.priceProvider.getPrice(mints);
+      return new Map(results.filter((r) => r.price > 0).map((r) => [r.mint, r.price]));
+    } catch (error) {
+      LoggerService.getInstance().warn(
+        `Failed to fetch prices for portfolio: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return new Map();
+    }
+  }
+}
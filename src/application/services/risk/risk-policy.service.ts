@@ -0,0 +1,304 @@
+import Big from 'big.js';
+import { Wallet } from '../../../domain/entities/wallet.entity';
+import { TradeRepository } from '../../../domain/repositories/trade.repository';
+import { OrderCommitmentRepository } from '../../../domain/repositories/order-commitment.repository';
+import {
+  CommitmentSource,
+  OrderCommitment,
+} from '../../../domain/entities/order-commitment.entity';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import { Configuration, RiskLimits } from '../../../core/config/configuration.service';
+import { RiskPolicyViolationError, RiskViolation } from '../../../core/errors/risk.errors';
+import { LoggerService } from '../../../core/logger/logger.service';
+import { ShieldPort, ShieldWarning } from '../../ports/token-discovery.port';
+import { ResolvedToken } from '../token-info.service';
+import { PriceProvider } from '../wallet/wallet-sync.service';
+import { STABLECOIN_MINTS } from '../trade/trade.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Limits in effect for one wallet: every key is set, null means no limit.
+ */
+export type EffectiveRiskLimits = Required<RiskLimits>;
+
+export interface RiskCheckRequest {
+  wallet: Wallet;
+  input: ResolvedToken;
+  output: ResolvedToken;
+  inputAmount: TokenAmount;
+  outputAmount: TokenAmount;
+  slippageBps?: number; // Not applicable to limit orders
+  priceImpactPct?: number;
+}
+
+/**
+ * What the policy is evaluated against, gathered by RiskPolicyService.
+ */
+export interface RiskFacts {
+  inputMint: string;
+  outputMint: string;
+  slippageBps?: number;
+  priceImpactPct?: number;
+  usdValue: number | null; // null: neither token could be priced
+  usdLast24h: number;
+  criticalWarnings: Array<{ mint: string; warning: ShieldWarning }> | null; // null: Shield unavailable
+}
+
+/**
+ * Global limits overlaid with the wallet's own (matched by name or ID).
+ * Denylists add up; a wallet allowlist replaces the global one.
+ */
+export function resolveRiskLimits(config: Configuration, wallet: Wallet): EffectiveRiskLimits {
+  const { wallets, ...global } = config.risk;
+  const override = wallets[wallet.name] ?? wallets[wallet.id] ?? {};
+
+  return {
+    maxSlippageBps:
+      override.maxSlippageBps !== undefined
+        ? override.maxSlippageBps
+        : config.trading.maxSlippageBps,
+    maxPriceImpactPct:
+      override.maxPriceImpactPct !== undefined
+        ? override.maxPriceImpactPct
+        : global.maxPriceImpactPct,
+    maxUsdPerTrade:
+      override.maxUsdPerTrade !== undefined ? override.maxUsdPerTrade : global.maxUsdPerTrade,
+    maxUsdPerDay: override.maxUsdPerDay !== undefined ? override.maxUsdPerDay : global.maxUsdPerDay,
+    allowTokens: override.allowTokens ?? global.allowTokens,
+    denyTokens: [...new Set([...global.denyTokens, ...(override.denyTokens ?? [])])],
+    blockCriticalWarnings: override.blockCriticalWarnings ?? global.blockCriticalWarnings,
+  };
+}
+
+/**
+ * Pure check of one trade against the limits. Returns every violation, not
+ * just the first, so a refusal explains everything that has to change.
+ */
+export function evaluateRiskPolicy(limits: EffectiveRiskLimits, facts: RiskFacts): RiskViolation[] {
+  const violations: RiskViolation[] = [];
+
+  for (const mint of [facts.inputMint, facts.outputMint]) {
+    if (limits.denyTokens.includes(mint)) {
+      violations.push({ rule: 'token-denied', message: `${mint} is on the denylist`, mint });
+    } else if (limits.allowTokens.length > 0 && !limits.allowTokens.includes(mint)) {
+      violations.push({
+        rule: 'token-not-allowed',
+        message: `${mint} is not on the allowlist`,
+        mint,
+      });
+    }
+  }
+
+  if (
+    limits.maxSlippageBps !== null &&
+    facts.slippageBps !== undefined &&
+    facts.slippageBps > limits.maxSlippageBps
+  ) {
+    violations.push({
+      rule: 'max-slippage',
+      message: `slippage ${facts.slippageBps} bps exceeds ${limits.maxSlippageBps} bps`,
+      limit: limits.maxSlippageBps,
+      actual: facts.slippageBps,
+    });
+  }
+
+  if (
+    limits.maxPriceImpactPct !== null &&
+    facts.priceImpactPct !== undefined &&
+    Math.abs(facts.priceImpactPct) > limits.maxPriceImpactPct
+  ) {
+    violations.push({
+      rule: 'max-price-impact',
+      message: `price impact ${Math.abs(facts.priceImpactPct)}% exceeds ${limits.maxPriceImpactPct}%`,
+      limit: limits.maxPriceImpactPct,
+      actual: Math.abs(facts.priceImpactPct),
+    });
+  }
+
+  if (limits.maxUsdPerTrade !== null || limits.maxUsdPerDay !== null) {
+    if (facts.usdValue === null) {
+      violations.push({
+        rule: 'unpriced-trade',
+        message: 'the trade has no USD price, so USD limits cannot be checked',
+      });
+    } else {
+      if (limits.maxUsdPerTrade !== null && facts.usdValue > limits.maxUsdPerTrade) {
+        violations.push({
+          rule: 'max-usd-per-trade',
+          message: `$${facts.usdValue.toFixed(2)} exceeds the $${limits.maxUsdPerTrade} per-trade limit`,
+          limit: limits.maxUsdPerTrade,
+          actual: facts.usdValue,
+        });
+      }
+      const daily = facts.usdLast24h + facts.usdValue;
+      if (limits.maxUsdPerDay !== null && daily > limits.maxUsdPerDay) {
+        violations.push({
+          rule: 'max-usd-per-day',
+          message: `$${daily.toFixed(2)} traded in 24 hours would exceed the $${limits.maxUsdPerDay} daily limit`,
+          limit: limits.maxUsdPerDay,
+          actual: daily,
+        });
+      }
+    }
+  }
+
+  if (limits.blockCriticalWarnings) {
+    if (facts.criticalWarnings === null) {
+      violations.push({
+        rule: 'shield-unavailable',
+        message: 'Shield warnings could not be checked',
+      });
+    } else {
+      for (const { mint, warning } of facts.criticalWarnings) {
+        violations.push({
+          rule: 'critical-warning',
+          message: `${mint}: ${warning.message}`,
+          mint,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Checks trades against the configured risk policy before anything is
+ * signed. Facts are only fetched for the limits that are set.
+ */
+export class RiskPolicyService {
+  constructor(
+    private config: Configuration,
+    private tradeRepo: TradeRepository,
+    private priceProvider: PriceProvider,
+    private shieldApi: ShieldPort,
+    private commitmentRepo: OrderCommitmentRepository
+  ) {}
+
+  async check(request: RiskCheckRequest): Promise<RiskViolation[]> {
+    const limits = resolveRiskLimits(this.config, request.wallet);
+    const needsUsd = limits.maxUsdPerTrade !== null || limits.maxUsdPerDay !== null;
+
+    const [usdValue, usdLast24h, criticalWarnings] = await Promise.all([
+      needsUsd ? this.getUsdValue(request) : Promise.resolve(null),
+      limits.maxUsdPerDay !== null ? this.getUsdLast24h(request.wallet) : Promise.resolve(0),
+      limits.blockCriticalWarnings
+        ? this.getCriticalWarnings([request.input.mint, request.output.mint])
+        : Promise.resolve([]),
+    ]);
+
+    return evaluateRiskPolicy(limits, {
+      inputMint: request.input.mint,
+      outputMint: request.output.mint,
+      slippageBps: request.slippageBps,
+      priceImpactPct: request.priceImpactPct,
+      usdValue,
+      usdLast24h,
+      criticalWarnings,
+    });
+  }
+
+  /**
+   * Throws RiskPolicyViolationError listing every violation.
+   */
+  async enforce(request: RiskCheckRequest): Promise<void> {
+    const violations = await this.check(request);
+    if (violations.length > 0) {
+      LoggerService.getInstance().warn('Trade refused by risk policy', {
+        wallet: request.wallet.id,
+        inputMint: request.input.mint,
+        outputMint: request.output.mint,
+        violations: violations.map((v) => v.rule),
+      });
+      throw new RiskPolicyViolationError(violations);
+    }
+  }
+
+  /**
+   * Records the USD value of an order just created, for the daily limit.
+   * The order exists either way, so a failure is logged, not thrown.
+   */
+  async recordCommitment(
+    request: RiskCheckRequest,
+    source: CommitmentSource,
+    orderKey: string | null
+  ): Promise<void> {
+    try {
+      const usdValue = await this.getUsdValue(request);
+      if (usdValue === null) {
+        LoggerService.getInstance().warn('Order commitment has no USD price', {
+          wallet: request.wallet.id,
+          source,
+          orderKey,
+        });
+        return;
+      }
+      await this.commitmentRepo.create(
+        new OrderCommitment(request.wallet.id, source, orderKey, String(usdValue))
+      );
+    } catch (error) {
+      LoggerService.getInstance().error(
+        'Failed to record order commitment',
+        error instanceof Error ? error : undefined,
+        { wallet: request.wallet.id, source, orderKey }
+      );
+    }
+  }
+
+  private async getUsdValue(request: RiskCheckRequest): Promise<number | null> {
+    const { input, output, inputAmount, outputAmount } = request;
+    let prices = new Map<string, number>();
+    try {
+      const results = await this.priceProvider.getPrice([input.mint, output.mint]);
+      prices = new Map(results.filter((p) => p.price > 0).map((p) => [p.mint, p.price]));
+    } catch (error) {
+      LoggerService.getInstance().warn(
+        `Risk check could not fetch prices: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const priceOf = (mint: string): number | undefined =>
+      prices.get(mint) ?? (STABLECOIN_MINTS.has(mint) ? 1 : undefined);
+    const inputPrice = priceOf(input.mint);
+    if (inputPrice !== undefined) return inputAmount.times(inputPrice).toNumber();
+    const outputPrice = priceOf(output.mint);
+    if (outputPrice !== undefined) return outputAmount.times(outputPrice).toNumber();
+    return null;
+  }
+
+  /**
+   * Rolling 24 hours of swaps that did not fail, whichever side was priced,
+   * and of limit and recurring orders created. Order fills are left out: the
+   * order counted when it was created.
+   */
+  private async getUsdLast24h(wallet: Wallet): Promise<number> {
+    const from = new Date(Date.now() - DAY_MS);
+    const [trades, commitments] = await Promise.all([
+      this.tradeRepo.findByWallet(wallet.id, { type: 'swap', from }),
+      this.commitmentRepo.findByWallet(wallet.id, from),
+    ]);
+    const swapped = trades
+      .filter((t) => t.status !== 'failed')
+      .reduce((sum, t) => sum.plus(t.inputUsdValue ?? t.outputUsdValue ?? 0), new Big(0));
+    return commitments.reduce((sum, c) => sum.plus(c.usdValue), swapped).toNumber();
+  }
+
+  private async getCriticalWarnings(
+    mints: string[]
+  ): Promise<Array<{ mint: string; warning: ShieldWarning }> | null> {
+    try {
+      const response = await this.shieldApi.getShieldWarnings(mints);
+      return mints.flatMap((mint) =>
+        (response.warnings[mint] ?? [])
+          .filter((warning) => warning.severity === 'critical')
+          .map((warning) => ({ mint, warning }))
+      );
+    } catch (error) {
+      LoggerService.getInstance().warn(
+        `Risk check could not fetch Shield warnings: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import bs58 from 'bs58';
+import { ApiPermission, ApiToken } from '../../../domain/entities/api-token.entity';
+import { ApiTokenRepository } from '../../../domain/repositories/api-token.repository';
+import { ApiTokenNotFoundError, InvalidArgumentError } from '../../../core/errors/cli.errors';
+
+const TOKEN_PREFIX = 'jup_';
+
+// lastUsedAt is informational: avoid a database write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface IssuedApiToken {
+  token: string; // Shown once, only the hash is stored
+  apiToken: ApiToken;
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issues and checks the bearer tokens accepted by `jup-cli serve`.
+ */
+export class ApiTokenService {
+  constructor(private apiTokenRepo: ApiTokenRepository) {}
+
+  async create(name: string, permissions: ApiPermission[]): Promise<IssuedApiToken> {
+    if (await this.apiTokenRepo.findByName(name)) {
+      throw new InvalidArgumentError(`API token "${name}" already exists`, { name });
+    }
+
+    const token = TOKEN_PREFIX + bs58.encode(randomBytes(32));
+    const apiToken = await this.apiTokenRepo.save(
+      new ApiToken(randomUUID(), name, hashApiToken(token), [...new Set(permissions)])
+    );
+
+    return { token, apiToken };
+  }
+
+  async list(): Promise<ApiToken[]> {
+    return this.apiTokenRepo.findAll();
+  }
+
+  async revoke(name: string): Promise<void> {
+    const apiToken = await this.apiTokenRepo.findByName(name);
+    if (!apiToken) {
+      throw new ApiTokenNotFoundError(name);
+    }
+    await this.apiTokenRepo.delete(apiToken.id);
+  }
+
+  /**
+   * Returns the token's record, or null if the token is unknown or revoked.
+   */
+  async authenticate(token: string): Promise<ApiToken | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) {
+      return null;
+    }
+
+    const apiToken = await this.apiTokenRepo.findByHash(hashApiToken(token));
+    if (!apiToken) {
+      return null;
+    }
+
+    const lastUsed = apiToken.lastUsedAt?.getTime() ?? 0;
+    if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+      apiToken.markUsed();
+      await this.apiTokenRepo.save(apiToken);
+    }
+    return apiToken;
+  }
+}
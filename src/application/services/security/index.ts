@@ -1,2 +1,4 @@
 export * from './master-password.service';
 export * from './key-encryption.service';
+export * from './api-token.service';
+export * from './transaction-inspector.service';
@@ -0,0 +1,546 @@
+import { createHash } from 'crypto';
+import { VersionedTransaction } from '@solana/web3.js';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import {
+  TransactionViolation,
+  UnsafeTransactionError,
+} from '../../../core/errors/transaction.errors';
+import { LoggerService } from '../../../core/logger/logger.service';
+import {
+  AddressLookupTablePort,
+  TOKEN_PROGRAM_IDS,
+  TokenProgram,
+} from '../../ports/blockchain.port';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddress,
+} from '../wallet/token-account.util';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const COMPUTE_BUDGET_PROGRAM = 'ComputeBudget111111111111111111111111111111';
+const JUPITER_AGGREGATOR = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+// Rent for a new account is refundable; more than this is treated as a transfer
+const MAX_RENT_LAMPORTS = 10_000_000n; // 0.01 SOL
+
+/**
+ * Programs a Jupiter-built transaction may invoke directly. AMMs are reached
+ * by CPI from the Jupiter programs and never appear at the top level.
+ */
+export const ALLOWED_PROGRAMS: Readonly<Record<string, string>> = {
+  [JUPITER_AGGREGATOR]: 'Jupiter Aggregator v6',
+  '61DFfeTKM7trxYcPQCM78bJ794ddZprZpAwAnLiwTpYH': 'Jupiter Order Engine',
+  j1o2qRpjcyUwEvwtcfhEQefh773ZgjxcVRry7LDqg5X: 'Jupiter Limit Order v2',
+  jupoNjAxXgZ4rjzxzPMP4oxduvQsQtZzyknqvzYNrNu: 'Jupiter Limit Order',
+  DCA265Vj8a9CEuX1eb1LWRnDT7uK6q1xMipnNyatn23M: 'Jupiter DCA',
+  [TOKEN_PROGRAM_IDS['spl-token']]: 'Token Program',
+  [TOKEN_PROGRAM_IDS['token-2022']]: 'Token-2022 Program',
+  [ASSOCIATED_TOKEN_PROGRAM_ID]: 'Associated Token Program',
+  [SYSTEM_PROGRAM]: 'System Program',
+  [COMPUTE_BUDGET_PROGRAM]: 'Compute Budget Program',
+};
+
+/**
+ * What the wallet agreed to spend. Native SOL is the wrapped SOL mint.
+ */
+export interface DeclaredInput {
+  mint: string;
+  amount: TokenAmount;
+}
+
+export interface InspectedInstruction {
+  index: number;
+  programId: string;
+  program: string | null; // Null for programs outside the allowlist
+  action: string; // Decoded instruction name, "unknown" when not decoded
+  detail: string | null;
+  accounts: string[];
+}
+
+export interface TransactionOutflow {
+  instruction: number;
+  mint: string; // Native SOL is reported as the wrapped SOL mint
+  amount: string; // Raw units
+}
+
+export interface TransactionInspection {
+  version: 'legacy' | 0;
+  feePayer: string;
+  signers: string[];
+  lookupTables: string[];
+  programs: Array<{ id: string; name: string | null }>;
+  writableAccounts: string[];
+  instructions: InspectedInstruction[];
+  outflows: TransactionOutflow[]; // Value leaving the wallet, fees and rent aside
+  violations: TransactionViolation[];
+}
+
+interface InspectionContext {
+  owner: string;
+  ownAccounts: Set<string>; // The wallet and its token accounts for the expected mints
+  tokenAccountMints: Map<string, string>;
+}
+
+interface DecodedInstruction {
+  action: string;
+  detail?: string;
+  outflow?: { mint: string | null; amount: bigint }; // Null mint: source account not recognized
+  violation?: Omit<TransactionViolation, 'instruction'>;
+}
+
+function discriminator(name: string): string {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8).toString('hex');
+}
+
+/**
+ * Aggregator routes end with (amount, quoted amount, slippage_bps: u16,
+ * platform_fee_bps: u8), whatever the route plan before them. `source` is
+ * the index of the user's source token account.
+ */
+const JUPITER_ROUTES = new Map(
+  [
+    { name: 'route', source: 2, exactOut: false },
+    { name: 'shared_accounts_route', source: 3, exactOut: false },
+    { name: 'exact_out_route', source: 2, exactOut: true },
+    { name: 'shared_accounts_exact_out_route', source: 3, exactOut: true },
+  ].map((route) => [discriminator(route.name), route])
+);
+
+const TOKEN_ACTIONS: Readonly<Record<number, string>> = {
+  0: 'initializeMint',
+  1: 'initializeAccount',
+  5: 'revoke',
+  7: 'mintTo',
+  10: 'freezeAccount',
+  11: 'thawAccount',
+  14: 'mintToChecked',
+  16: 'initializeAccount2',
+  17: 'syncNative',
+  18: 'initializeAccount3',
+};
+
+function buildContext(owner: string, declared: DeclaredInput | null): InspectionContext {
+  const ownAccounts = new Set([owner]);
+  const tokenAccountMints = new Map<string, string>();
+
+  for (const mint of new Set([SOL_MINT, ...(declared ? [declared.mint] : [])])) {
+    for (const program of Object.keys(TOKEN_PROGRAM_IDS) as TokenProgram[]) {
+      const account = getAssociatedTokenAddress(owner, mint, program);
+      ownAccounts.add(account);
+      tokenAccountMints.set(account, mint);
+    }
+  }
+  return { owner, ownAccounts, tokenAccountMints };
+}
+
+function decodeSystem(
+  accounts: string[],
+  data: Buffer,
+  ctx: InspectionContext
+): DecodedInstruction {
+  const kind = data.readUInt32LE(0);
+  switch (kind) {
+    case 0: // CreateAccount
+    case 3: {
+      // CreateAccountWithSeed: base pubkey and a length-prefixed seed come first
+      const offset = kind === 0 ? 4 : 44 + Number(data.readBigUInt64LE(36));
+      const lamports = data.readBigUInt64LE(offset);
+      const [from, created] = accounts;
+      const action = kind === 0 ? 'createAccount' : 'createAccountWithSeed';
+      return {
+        action,
+        detail: `${lamports} lamports to ${created}`,
+        outflow:
+          from === ctx.owner && lamports > MAX_RENT_LAMPORTS
+            ? { mint: SOL_MINT, amount: lamports }
+            : undefined,
+      };
+    }
+    case 2: // Transfer
+    case 11: {
+      // TransferWithSeed moves lamports from an account derived from `base`
+      const lamports = data.readBigUInt64LE(4);
+      const [from, base, to] = kind === 2 ? [accounts[0], accounts[0], accounts[1]] : accounts;
+      return {
+        action: kind === 2 ? 'transfer' : 'transferWithSeed',
+        detail: `${lamports} lamports to ${to}`,
+        outflow:
+          (from === ctx.owner || base === ctx.owner) && to !== undefined && !ctx.ownAccounts.has(to)
+            ? { mint: SOL_MINT, amount: lamports }
+            : undefined,
+      };
+    }
+    default:
+      // Assign, Allocate and the nonce instructions have no place in a trade
+      return accounts.includes(ctx.owner)
+        ? {
+            action: 'unknown',
+            violation: {
+              check: 'unexpected-instruction',
+              message: `System Program instruction ${kind} acts on the wallet`,
+            },
+          }
+        : { action: 'unknown' };
+  }
+}
+
+function decodeToken(accounts: string[], data: Buffer, ctx: InspectionContext): DecodedInstruction {
+  const kind = data.readUInt8(0);
+  const transfer = (
+    action: string,
+    source: string | undefined,
+    mint: string | null,
+    destination: string | undefined,
+    authority: string | undefined,
+    amount: bigint
+  ): DecodedInstruction => ({
+    action,
+    detail: `${amount} from ${source} to ${destination}`,
+    outflow:
+      authority === ctx.owner && destination !== undefined && !ctx.ownAccounts.has(destination)
+        ? { mint: mint ?? (source && ctx.tokenAccountMints.get(source)) ?? null, amount }
+        : undefined,
+  });
+
+  switch (kind) {
+    case 3: {
+      const [source, destination, authority] = accounts;
+      return transfer('transfer', source, null, destination, authority, data.readBigUInt64LE(1));
+    }
+    case 12: {
+      const [source, mint, destination, authority] = accounts;
+      return transfer(
+        'transferChecked',
+        source,
+        mint ?? null,
+        destination,
+        authority,
+        data.readBigUInt64LE(1)
+      );
+    }
+    case 26: {
+      // Token-2022 transfer fee extension; 1 is TransferCheckedWithFee
+      if (data.readUInt8(1) !== 1) return { action: 'transferFeeExtension' };
+      const [source, mint, destination, authority] = accounts;
+      return transfer(
+        'transferCheckedWithFee',
+        source,
+        mint ?? null,
+        destination,
+        authority,
+        data.readBigUInt64LE(2)
+      );
+    }
+    case 8:
+    case 15: {
+      const [account, mint, authority] = accounts;
+      const amount = data.readBigUInt64LE(1);
+      return {
+        action: kind === 8 ? 'burn' : 'burnChecked',
+        detail: `${amount} from ${account}`,
+        outflow: authority === ctx.owner ? { mint: mint ?? null, amount } : undefined,
+      };
+    }
+    case 4:
+    case 13: {
+      const [source, delegate, owner] =
+        kind === 4 ? accounts : [accounts[0], accounts[2], accounts[3]];
+      return {
+        action: kind === 4 ? 'approve' : 'approveChecked',
+        detail: `${source} to ${delegate}`,
+        violation:
+          owner === ctx.owner
+            ? {
+                check: 'token-delegation',
+                message: `delegates ${source} to ${delegate}`,
+              }
+            : undefined,
+      };
+    }
+    case 6: {
+      const [account, authority] = accounts;
+      return {
+        action: 'setAuthority',
+        detail: account,
+        violation:
+          authority === ctx.owner
+            ? { check: 'authority-change', message: `changes the authority of ${account}` }
+            : undefined,
+      };
+    }
+    case 9: {
+      const [account, destination, authority] = accounts;
+      return {
+        action: 'closeAccount',
+        detail: `${account}, rent to ${destination}`,
+        violation:
+          authority === ctx.owner && destination !== undefined && !ctx.ownAccounts.has(destination)
+            ? {
+                check: 'undeclared-outflow',
+                message: `closes ${account} and sends its balance to ${destination}`,
+              }
+            : undefined,
+      };
+    }
+    default:
+      return { action: TOKEN_ACTIONS[kind] ?? 'unknown' };
+  }
+}
+
+function decodeAssociatedToken(data: Buffer): DecodedInstruction {
+  const kind = data.length === 0 ? 0 : data.readUInt8(0);
+  return { action: ['create', 'createIdempotent', 'recoverNested'][kind] ?? 'unknown' };
+}
+
+function decodeComputeBudget(data: Buffer): DecodedInstruction {
+  switch (data.readUInt8(0)) {
+    case 2:
+      return { action: 'setComputeUnitLimit', detail: `${data.readUInt32LE(1)} units` };
+    case 3:
+      return {
+        action: 'setComputeUnitPrice',
+        detail: `${data.readBigUInt64LE(1)} micro-lamports per unit`,
+      };
+    default:
+      return { action: 'unknown' };
+  }
+}
+
+function decodeJupiterAggregator(
+  accounts: string[],
+  data: Buffer,
+  ctx: InspectionContext
+): DecodedInstruction {
+  const route = JUPITER_ROUTES.get(data.subarray(0, 8).toString('hex'));
+  if (!route || data.length < 8 + 19) return { action: 'unknown' };
+
+  const tail = data.length - 19;
+  const amount = data.readBigUInt64LE(tail);
+  const quoted = data.readBigUInt64LE(tail + 8);
+  const slippageBps = BigInt(data.readUInt16LE(tail + 16));
+  // Exact out spends at most the quoted input plus slippage
+  const maxIn = route.exactOut ? (quoted * (10_000n + slippageBps)) / 10_000n : amount;
+
+  const source = accounts[route.source];
+  const authority = accounts[route.source - 1];
+  return {
+    action: route.name,
+    detail: route.exactOut
+      ? `${amount} out for at most ${maxIn} in`
+      : `${amount} in for at least ${quoted - (quoted * slippageBps) / 10_000n} out`,
+    outflow:
+      authority === ctx.owner
+        ? { mint: (source && ctx.tokenAccountMints.get(source)) ?? null, amount: maxIn }
+        : undefined,
+  };
+}
+
+function decodeInstruction(
+  programId: string,
+  accounts: string[],
+  data: Buffer,
+  ctx: InspectionContext
+): DecodedInstruction {
+  switch (programId) {
+    case SYSTEM_PROGRAM:
+      return decodeSystem(accounts, data, ctx);
+    case TOKEN_PROGRAM_IDS['spl-token']:
+    case TOKEN_PROGRAM_IDS['token-2022']:
+      return decodeToken(accounts, data, ctx);
+    case ASSOCIATED_TOKEN_PROGRAM_ID:
+      return decodeAssociatedToken(data);
+    case COMPUTE_BUDGET_PROGRAM:
+      return decodeComputeBudget(data);
+    case JUPITER_AGGREGATOR:
+      return decodeJupiterAggregator(accounts, data, ctx);
+    default:
+      // Other Jupiter programs move funds by CPI with layouts we do not decode
+      return { action: 'unknown' };
+  }
+}
+
+function formatRaw(mint: string, raw: bigint, declared: DeclaredInput | null): string {
+  if (declared && mint === declared.mint) {
+    return TokenAmount.fromRaw(raw, declared.amount.decimals).toString();
+  }
+  return mint === SOL_MINT ? `${TokenAmount.fromRaw(raw, 9).toString()} SOL` : `${raw} raw units`;
+}
+
+/**
+ * Decodes a transaction against its resolved lookup tables and checks it
+ * from the point of view of `owner`: only allowed programs at the top level,
+ * and nothing leaves the wallet beyond the declared input.
+ */
+export function inspectTransaction(
+  transaction: VersionedTransaction,
+  lookupTables: Map<string, string[]>,
+  owner: string,
+  declared: DeclaredInput | null
+): TransactionInspection {
+  const { message } = transaction;
+  const violations: TransactionViolation[] = [];
+  const ctx = buildContext(owner, declared);
+
+  // v0 account order: static keys, then every table's writable, then readonly entries
+  const writableLookups: string[] = [];
+  const readonlyLookups: string[] = [];
+  for (const lookup of message.addressTableLookups) {
+    const table = lookup.accountKey.toBase58();
+    const addresses = lookupTables.get(table);
+    if (!addresses) {
+      violations.push({
+        check: 'unresolved-lookup-table',
+        message: `lookup table ${table} could not be resolved`,
+      });
+    }
+    const resolve = (index: number): string => addresses?.[index] ?? `${table}[${index}]`;
+    writableLookups.push(...lookup.writableIndexes.map(resolve));
+    readonlyLookups.push(...lookup.readonlyIndexes.map(resolve));
+  }
+  const accountKeys = [
+    ...message.staticAccountKeys.map((key) => key.toBase58()),
+    ...writableLookups,
+    ...readonlyLookups,
+  ];
+
+  const instructions: InspectedInstruction[] = [];
+  const outflows: TransactionOutflow[] = [];
+  message.compiledInstructions.forEach((compiled, index) => {
+    const programId = accountKeys[compiled.programIdIndex] ?? 'unknown';
+    const accounts = compiled.accountKeyIndexes.map((i) => accountKeys[i] ?? 'unknown');
+    const program = ALLOWED_PROGRAMS[programId] ?? null;
+
+    let decoded: DecodedInstruction = { action: 'unknown' };
+    if (program === null) {
+      violations.push({
+        check: 'unknown-program',
+        message: `instruction ${index} invokes ${programId}, which is not an allowed program`,
+        instruction: index,
+      });
+    } else {
+      try {
+        decoded = decodeInstruction(programId, accounts, Buffer.from(compiled.data), ctx);
+      } catch {
+        decoded = {
+          action: 'unknown',
+          violation: {
+            check: 'unexpected-instruction',
+            message: `${program} instruction could not be decoded`,
+          },
+        };
+      }
+    }
+
+    if (decoded.violation) {
+      violations.push({ ...decoded.violation, instruction: index });
+    }
+    if (decoded.outflow) {
+      if (decoded.outflow.mint === null) {
+        violations.push({
+          check: 'undeclared-outflow',
+          message: `instruction ${index} moves tokens from an account that is not the input token account`,
+          instruction: index,
+        });
+      } else {
+        outflows.push({
+          instruction: index,
+          mint: decoded.outflow.mint,
+          amount: decoded.outflow.amount.toString(),
+        });
+      }
+    }
+    instructions.push({
+      index,
+      programId,
+      program,
+      action: decoded.action,
+      detail: decoded.detail ?? null,
+      accounts,
+    });
+  });
+
+  const totals = new Map<string, bigint>();
+  for (const outflow of outflows) {
+    totals.set(outflow.mint, (totals.get(outflow.mint) ?? 0n) + BigInt(outflow.amount));
+  }
+  for (const [mint, total] of totals) {
+    if (!declared || mint !== declared.mint) {
+      violations.push({
+        check: 'undeclared-outflow',
+        message: `${formatRaw(mint, total, declared)} of ${mint} would leave the wallet but was not declared`,
+      });
+    } else if (total > declared.amount.raw) {
+      violations.push({
+        check: 'outflow-exceeds-input',
+        message: `${formatRaw(mint, total, declared)} would leave the wallet, more than the declared ${declared.amount.toString()}`,
+      });
+    }
+  }
+
+  const programs = [...new Set(instructions.map((i) => i.programId))];
+  return {
+    version: message.version,
+    feePayer: accountKeys[0] ?? 'unknown',
+    signers: accountKeys.slice(0, message.header.numRequiredSignatures),
+    lookupTables: message.addressTableLookups.map((lookup) => lookup.accountKey.toBase58()),
+    programs: programs.map((id) => ({ id, name: ALLOWED_PROGRAMS[id] ?? null })),
+    writableAccounts: accountKeys.filter((_, index) => message.isAccountWritable(index)),
+    instructions,
+    outflows,
+    violations,
+  };
+}
+
+/**
+ * Looks inside Jupiter-built transactions before they are signed. Used by
+ * the swap and limit order services; `verify` refuses unsafe transactions.
+ */
+export class TransactionInspectorService {
+  constructor(private lookupTables: AddressLookupTablePort) {}
+
+  async inspect(
+    transaction: string,
+    owner: string,
+    declared: DeclaredInput | null
+  ): Promise<TransactionInspection> {
+    let decoded: VersionedTransaction;
+    try {
+      decoded = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+    } catch (error) {
+      throw new UnsafeTransactionError([
+        {
+          check: 'undecodable',
+          message: `the transaction could not be decoded (${
+            error instanceof Error ? error.message : 'Unknown error'
+          })`,
+        },
+      ]);
+    }
+
+    const tables = await this.lookupTables.getLookupTableAddresses(
+      decoded.message.addressTableLookups.map((lookup) => lookup.accountKey.toBase58())
+    );
+    return inspectTransaction(decoded, tables, owner, declared);
+  }
+
+  /**
+   * Throws UnsafeTransactionError listing every violation.
+   */
+  async verify(
+    transaction: string,
+    owner: string,
+    declared: DeclaredInput | null
+  ): Promise<TransactionInspection> {
+    const inspection = await this.inspect(transaction, owner, declared);
+    if (inspection.violations.length > 0) {
+      LoggerService.getInstance().warn('Refused to sign transaction', {
+        owner,
+        programs: inspection.programs.map((p) => p.id),
+        violations: inspection.violations.map((v) => v.check),
+      });
+      throw new UnsafeTransactionError(inspection.violations);
+    }
+    return inspection;
+  }
+}
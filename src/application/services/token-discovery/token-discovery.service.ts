@@ -11,12 +11,14 @@ import {
   ShieldPort,
   PriceV3Port,
 } from '../../ports/token-discovery.port';
+import { MintExtensions, MintExtensionsPort, TOKEN_PROGRAM_IDS } from '../../ports/blockchain.port';
 import { LoggerService } from '../../../core/logger/logger.service';
 
 export interface TokenDetails {
   token: MintInformation;
   warnings: ShieldWarning[];
   price: PriceV3Data | null;
+  extensions: MintExtensions | null; // Token-2022 mints only
 }
 
 export interface TokenSearchResult {
@@ -28,7 +30,8 @@ export class TokenDiscoveryService {
   constructor(
     private tokensApi: TokenDiscoveryPort,
     private shieldApi: ShieldPort,
-    private priceApi: PriceV3Port
+    private priceApi: PriceV3Port,
+    private mintExtensions?: MintExtensionsPort
   ) {}
 
   async searchTokens(query: string): Promise<MintInformation[]> {
@@ -59,8 +62,12 @@ export class TokenDiscoveryService {
 
       const warnings = shieldResponse.warnings[mint] ?? [];
       const price = priceResponse.data[mint] ?? null;
+      const extensions =
+        token.tokenProgram === TOKEN_PROGRAM_IDS['token-2022']
+          ? await this.getExtensionsSafe(token.id)
+          : null;
 
-      return { token, warnings, price };
+      return { token, warnings, price, extensions };
     } catch (error) {
       LoggerService.getInstance().error('Failed to get token details', error as Error);
       throw error;
@@ -159,6 +166,19 @@ export class TokenDiscoveryService {
     }
   }
 
+  private async getExtensionsSafe(mint: string): Promise<MintExtensions | null> {
+    if (!this.mintExtensions) return null;
+    try {
+      const extensions = await this.mintExtensions.getMintExtensions([mint]);
+      return extensions.get(mint) ?? null;
+    } catch (error) {
+      LoggerService.getInstance().warn(
+        `Token-2022 extensions unavailable for ${mint}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return null;
+    }
+  }
+
   private async getShieldSafe(mints: string[]): Promise<ShieldResponse> {
     try {
       return await this.shieldApi.getShieldWarnings(mints);
@@ -0,0 +1,180 @@
+import Big from 'big.js';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import { InvalidAmountError } from '../../../core/errors/token.errors';
+import { SolanaRpcPort } from '../../ports/blockchain.port';
+import { ResolvedToken } from '../token-info.service';
+import { PriceProvider } from '../wallet/wallet-sync.service';
+import { STABLECOIN_MINTS } from './trade.service';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+const DECIMAL = String.raw`(\d+\.?\d*|\.\d+)`;
+const PERCENT_PATTERN = new RegExp(`^${DECIMAL}%$`);
+const USD_PATTERN = new RegExp(`^\\$${DECIMAL}$`);
+
+/**
+ * An input amount as typed: token units, a share of the balance, the whole
+ * balance, or a USD value.
+ */
+export type AmountExpression =
+  | { kind: 'tokens'; value: string }
+  | { kind: 'percent'; percent: Big }
+  | { kind: 'max' }
+  | { kind: 'usd'; usd: Big };
+
+export interface ResolvedAmount {
+  amount: TokenAmount;
+  basis: string | null; // How a non-literal amount was worked out, e.g. "50% of 12.5 SOL"
+}
+
+export function parseAmountExpression(expression: string): AmountExpression {
+  const trimmed = expression.trim();
+  if (trimmed.toLowerCase() === 'max') {
+    return { kind: 'max' };
+  }
+
+  const percent = PERCENT_PATTERN.exec(trimmed);
+  if (percent?.[1]) {
+    const value = new Big(percent[1]);
+    if (value.lte(0) || value.gt(100)) {
+      throw new InvalidAmountError(expression, 'a percentage must be above 0 and at most 100');
+    }
+    return { kind: 'percent', percent: value };
+  }
+
+  const usd = USD_PATTERN.exec(trimmed);
+  if (usd?.[1]) {
+    const value = new Big(usd[1]);
+    if (value.lte(0)) {
+      throw new InvalidAmountError(expression, 'must be greater than 0');
+    }
+    return { kind: 'usd', usd: value };
+  }
+
+  return { kind: 'tokens', value: trimmed };
+}
+
+/**
+ * Turns amount expressions (`50%`, `max`, `$250`) into exact token amounts
+ * from the wallet's live balance and current prices. `max` of SOL keeps
+ * `solReserve` SOL for network fees and rent.
+ */
+export class AmountResolverService {
+  constructor(
+    private solanaRpc: SolanaRpcPort,
+    private priceProvider: PriceProvider,
+    private solReserve: number
+  ) {}
+
+  /**
+   * `walletAddress` is null for amounts not drawn from the wallet, such as an
+   * exact output: those take token units or USD only.
+   */
+  async resolve(
+    expression: string,
+    token: ResolvedToken,
+    walletAddress: string | null
+  ): Promise<ResolvedAmount> {
+    const parsed = parseAmountExpression(expression);
+    const resolved = await this.resolveExpression(parsed, expression, token, walletAddress);
+    if (resolved.amount.isZero()) {
+      throw new InvalidAmountError(
+        expression,
+        resolved.basis ? `${resolved.basis} rounds to 0 ${token.symbol}` : 'must be greater than 0'
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Native SOL for the SOL mint (swaps wrap it as needed), otherwise the sum
+   * of the wallet's token accounts for the mint.
+   */
+  async getBalance(token: ResolvedToken, walletAddress: string): Promise<TokenAmount> {
+    const holdings = await this.solanaRpc.getTokenAccounts(walletAddress);
+    if (token.mint === SOL_MINT) {
+      return TokenAmount.fromDecimal(new Big(holdings.solBalance), token.decimals);
+    }
+    return TokenAmount.fromRaw(
+      holdings.tokens
+        .filter((account) => account.mint === token.mint)
+        .reduce((sum, account) => sum + BigInt(account.amount), 0n),
+      token.decimals
+    );
+  }
+
+  private async resolveExpression(
+    parsed: AmountExpression,
+    expression: string,
+    token: ResolvedToken,
+    walletAddress: string | null
+  ): Promise<ResolvedAmount> {
+    switch (parsed.kind) {
+      case 'tokens':
+        return { amount: TokenAmount.parse(parsed.value, token.decimals), basis: null };
+
+      case 'percent': {
+        const balance = await this.getNonZeroBalance(token, walletAddress, expression);
+        return {
+          amount: TokenAmount.fromDecimal(
+            balance.toBig().times(parsed.percent).div(100),
+            token.decimals
+          ),
+          basis: `${parsed.percent.toString()}% of ${balance.toString()} ${token.symbol}`,
+        };
+      }
+
+      case 'max': {
+        const balance = await this.getNonZeroBalance(token, walletAddress, expression);
+        if (token.mint !== SOL_MINT) {
+          return { amount: balance, basis: `all ${balance.toString()} ${token.symbol}` };
+        }
+        const reserve = TokenAmount.fromDecimal(new Big(this.solReserve), token.decimals);
+        if (balance.compare(reserve) <= 0) {
+          throw new InvalidAmountError(
+            expression,
+            `the wallet holds ${balance.toString()} SOL, no more than the ${reserve.toString()} SOL kept for fees`
+          );
+        }
+        return {
+          amount: balance.minus(reserve),
+          basis: `${balance.toString()} SOL less ${reserve.toString()} SOL kept for fees`,
+        };
+      }
+
+      case 'usd': {
+        const price = await this.getUsdPrice(token, expression);
+        return {
+          amount: TokenAmount.fromDecimal(parsed.usd.div(price), token.decimals),
+          basis: `$${parsed.usd.toString()} at $${price} per ${token.symbol}`,
+        };
+      }
+    }
+  }
+
+  private async getNonZeroBalance(
+    token: ResolvedToken,
+    walletAddress: string | null,
+    expression: string
+  ): Promise<TokenAmount> {
+    if (walletAddress === null) {
+      throw new InvalidAmountError(expression, 'only token units or a USD amount apply here');
+    }
+    const balance = await this.getBalance(token, walletAddress);
+    if (balance.isZero()) {
+      throw new InvalidAmountError(expression, `the wallet holds no ${token.symbol}`);
+    }
+    return balance;
+  }
+
+  private async getUsdPrice(token: ResolvedToken, expression: string): Promise<number> {
+    const prices = await this.priceProvider.getPrice([token.mint]);
+    const price =
+      prices.find((p) => p.mint === token.mint)?.price ??
+      (STABLECOIN_MINTS.has(token.mint) ? 1 : undefined);
+    if (!price || price <= 0) {
+      throw new InvalidAmountError(expression, `no USD price for ${token.symbol}`);
+    }
+    return price;
+  }
+}
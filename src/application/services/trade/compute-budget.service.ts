@@ -0,0 +1,166 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { Configuration } from '../../../core/config/configuration.service';
+import { LoggerService } from '../../../core/logger/logger.service';
+import {
+  AddressLookupTablePort,
+  PrioritizationFeePort,
+  TransactionSimulationPort,
+} from '../../ports/blockchain.port';
+
+export type PriorityFeeSettings = Configuration['priorityFees'];
+
+// Most compute units a transaction may use
+export const MAX_COMPUTE_UNITS = 1_400_000;
+
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+
+/**
+ * Compute-budget instructions set on a transaction before it is signed.
+ */
+export interface ComputeBudget {
+  computeUnitLimit: number;
+  microLamports: number; // Priority fee per compute unit
+  priorityFeeLamports: number; // Paid on top of the base fee when the whole limit is used
+  simulated: boolean; // False: the simulation failed and the builder's limit was kept
+}
+
+/**
+ * Fixed mode uses the configured price; auto mode the configured percentile
+ * of recent fees (nearest rank). Both are capped at `maxMicroLamports`.
+ */
+export function estimatePriorityFee(recentFees: number[], settings: PriorityFeeSettings): number {
+  let price = settings.microLamports;
+  if (settings.mode === 'auto') {
+    const sorted = [...recentFees].sort((a, b) => a - b);
+    const rank = Math.ceil((settings.percentile / 100) * sorted.length);
+    price = sorted[Math.max(rank - 1, 0)] ?? 0;
+  }
+  return Math.min(price, settings.maxMicroLamports);
+}
+
+/**
+ * Simulated usage plus the configured margin, within the per-transaction maximum.
+ */
+export function computeUnitLimit(unitsConsumed: number, marginPct: number): number {
+  return Math.min(Math.ceil((unitsConsumed * (100 + marginPct)) / 100), MAX_COMPUTE_UNITS);
+}
+
+function isComputeBudget(instruction: TransactionInstruction, kind: number): boolean {
+  return (
+    instruction.programId.equals(ComputeBudgetProgram.programId) && instruction.data[0] === kind
+  );
+}
+
+/**
+ * Sets the priority fee and compute-unit limit of transactions the CLI sends
+ * over RPC itself, replacing any the builder chose. The price follows
+ * `priorityFees` in the configuration; the limit comes from simulating the
+ * transaction.
+ */
+export class ComputeBudgetService {
+  constructor(
+    private rpc: AddressLookupTablePort & TransactionSimulationPort & PrioritizationFeePort,
+    private settings: PriorityFeeSettings
+  ) {}
+
+  /**
+   * Returns the rebuilt transaction, unsigned and with the same blockhash, or
+   * null when it cannot be rebuilt because a lookup table is missing.
+   */
+  async apply(
+    transaction: string
+  ): Promise<{ transaction: string; computeBudget: ComputeBudget } | null> {
+    const decoded = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+    const tableKeys = decoded.message.addressTableLookups.map((lookup) =>
+      lookup.accountKey.toBase58()
+    );
+    const tables = await this.rpc.getLookupTableAddresses(tableKeys);
+    const lookupTables: AddressLookupTableAccount[] = [];
+    for (const key of tableKeys) {
+      const addresses = tables.get(key);
+      if (!addresses) return null;
+      lookupTables.push(
+        new AddressLookupTableAccount({
+          key: new PublicKey(key),
+          state: {
+            deactivationSlot: BigInt('18446744073709551615'),
+            lastExtendedSlot: 0,
+            lastExtendedSlotStartIndex: 0,
+            addresses: addresses.map((address) => new PublicKey(address)),
+          },
+        })
+      );
+    }
+
+    const message = TransactionMessage.decompile(decoded.message, {
+      addressLookupTableAccounts: lookupTables,
+    });
+    const builderLimit = message.instructions
+      .find((instruction) => isComputeBudget(instruction, SET_COMPUTE_UNIT_LIMIT))
+      ?.data.readUInt32LE(1);
+    const instructions = message.instructions.filter(
+      (instruction) =>
+        !isComputeBudget(instruction, SET_COMPUTE_UNIT_LIMIT) &&
+        !isComputeBudget(instruction, SET_COMPUTE_UNIT_PRICE)
+    );
+
+    const writable = new Set(
+      instructions.flatMap((instruction) =>
+        instruction.keys.filter((key) => key.isWritable).map((key) => key.pubkey.toBase58())
+      )
+    );
+    const microLamports = estimatePriorityFee(
+      this.settings.mode === 'auto'
+        ? await this.rpc.getRecentPrioritizationFees([...writable])
+        : [],
+      this.settings
+    );
+
+    const build = (units: number): string => {
+      const rebuilt = new TransactionMessage({
+        payerKey: message.payerKey,
+        recentBlockhash: message.recentBlockhash,
+        instructions: [
+          ComputeBudgetProgram.setComputeUnitLimit({ units }),
+          ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+          ...instructions,
+        ],
+      });
+      const compiled =
+        decoded.version === 'legacy'
+          ? rebuilt.compileToLegacyMessage()
+          : rebuilt.compileToV0Message(lookupTables);
+      return Buffer.from(new VersionedTransaction(compiled).serialize()).toString('base64');
+    };
+
+    const simulation = await this.rpc.simulateTransaction(build(MAX_COMPUTE_UNITS), []);
+    const units = simulation.err === null ? simulation.unitsConsumed : null;
+    if (units === null) {
+      LoggerService.getInstance().warn('Compute units not simulated, keeping the built limit', {
+        err: simulation.err,
+      });
+    }
+    const limit =
+      units !== null
+        ? computeUnitLimit(units, this.settings.computeUnitMarginPct)
+        : (builderLimit ?? MAX_COMPUTE_UNITS);
+
+    return {
+      transaction: build(limit),
+      computeBudget: {
+        computeUnitLimit: limit,
+        microLamports,
+        priorityFeeLamports: Math.ceil((limit * microLamports) / 1_000_000),
+        simulated: units !== null,
+      },
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { LoggerService } from '../../../core/logger/logger.service';
+import {
+  CommitmentLevel,
+  SignatureStatus,
+  SignatureStatusPort,
+  TransactionHistoryPort,
+} from '../../ports/blockchain.port';
+import { BalanceChange } from '../../../domain/entities/wallet-activity.entity';
+import { classifyTransaction } from '../wallet/transaction-classifier';
+import { DecodedTransactionError, decodeTransactionError } from './transaction-error';
+
+/**
+ * Where a sent transaction ended up. `expired`: it never landed and its
+ * blockhash expired, so it never will. `unknown`: not seen before the
+ * tracker gave up.
+ */
+export type ConfirmationOutcome = CommitmentLevel | 'failed' | 'expired' | 'unknown';
+
+export interface TransactionOutcome {
+  signature: string;
+  outcome: ConfirmationOutcome;
+  slot: number | null;
+  error: DecodedTransactionError | null; // Set when the transaction failed on-chain
+  logs: string[]; // Empty until the transaction is found
+}
+
+export interface ConfirmationProgress {
+  signature: string;
+  stage: 'sent' | CommitmentLevel;
+  slot: number | null;
+}
+
+export interface TrackOptions {
+  blockhash: string; // Recent blockhash of the transaction, to tell when it can no longer land
+  lastValidBlockHeight?: number; // Checked instead of the blockhash when known
+  resend?: () => Promise<unknown>; // Rebroadcast while the transaction has not been seen
+  onProgress?: (progress: ConfirmationProgress) => void;
+}
+
+export interface TrackerTiming {
+  pollIntervalMs: number;
+  timeoutMs: number; // Gives up with `unknown`, or the last commitment seen
+}
+
+const DEFAULT_TIMING: TrackerTiming = { pollIntervalMs: 2_000, timeoutMs: 120_000 };
+
+/**
+ * True for outcomes where the transaction landed and succeeded. Processed
+ * transactions can still be dropped with their fork.
+ */
+export function isLanded(outcome: ConfirmationOutcome): boolean {
+  return outcome === 'confirmed' || outcome === 'finalized';
+}
+
+/**
+ * Follows sent transactions to finalized over RPC, and reads the outcome of
+ * earlier ones.
+ */
+export class ConfirmationTrackerService {
+  constructor(
+    private rpc: SignatureStatusPort & TransactionHistoryPort,
+    private timing: TrackerTiming = DEFAULT_TIMING
+  ) {}
+
+  /**
+   * Polls until the transaction is finalized, fails, or expires unseen.
+   */
+  async track(signature: string, options: TrackOptions): Promise<TransactionOutcome> {
+    const started = Date.now();
+    let stage: ConfirmationProgress['stage'] = 'sent';
+    let last: SignatureStatus | null = null;
+    options.onProgress?.({ signature, stage, slot: null });
+
+    for (;;) {
+      const status = await this.rpc.getSignatureStatus(signature);
+      if (status) {
+        last = status;
+        if (status.confirmationStatus && status.confirmationStatus !== stage) {
+          stage = status.confirmationStatus;
+          options.onProgress?.({ signature, stage, slot: status.slot });
+        }
+        if (status.err !== null || status.confirmationStatus === 'finalized') {
+          return this.describe(signature, status);
+        }
+      } else if (await this.hasExpired(options)) {
+        // It may have landed between the two calls
+        const final = await this.rpc.getSignatureStatus(signature);
+        if (!final) {
+          return { signature, outcome: 'expired', slot: null, error: null, logs: [] };
+        }
+        continue;
+      } else if (options.resend) {
+        await options.resend().catch((error: unknown) => {
+          LoggerService.getInstance().debug('Rebroadcast failed', {
+            signature,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+
+      if (Date.now() - started >= this.timing.timeoutMs) {
+        LoggerService.getInstance().warn('Gave up waiting for confirmation', { signature, stage });
+        return last
+          ? this.describe(signature, last)
+          : { signature, outcome: 'unknown', slot: null, error: null, logs: [] };
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.timing.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Current outcome of any transaction, or null when the cluster has no
+   * record of it.
+   */
+  async lookup(signature: string): Promise<TransactionOutcome | null> {
+    const status = await this.rpc.getSignatureStatus(signature);
+    return status ? this.describe(signature, status) : null;
+  }
+
+  /**
+   * The wallet's net balance changes in a landed transaction, read as
+   * history sync reads them: SOL and wrapped SOL merged, the fee and token
+   * account rent left out. Null when the cluster has no record of it.
+   */
+  async getBalanceChanges(
+    signature: string,
+    walletAddress: string
+  ): Promise<BalanceChange[] | null> {
+    const transaction = await this.rpc.getParsedTransaction(signature);
+    return transaction ? classifyTransaction(transaction, walletAddress).changes : null;
+  }
+
+  /**
+   * Past its last valid block height, or its blockhash no longer valid at
+   * confirmed commitment. A transaction just sent is not seen yet but can
+   * still land, so neither is checked at finalized.
+   */
+  private async hasExpired(options: TrackOptions): Promise<boolean> {
+    if (options.lastValidBlockHeight !== undefined) {
+      return (await this.rpc.getBlockHeight()) > options.lastValidBlockHeight;
+    }
+    return !(await this.rpc.isBlockhashValid(options.blockhash));
+  }
+
+  /**
+   * Reads the logs, and decodes `meta.err`, from the transaction itself.
+   */
+  private async describe(signature: string, status: SignatureStatus): Promise<TransactionOutcome> {
+    const transaction = await this.rpc.getParsedTransaction(signature);
+    const logs = transaction?.meta?.logMessages ?? [];
+    const err = (transaction?.meta ? transaction.meta.err : status.err) ?? null;
+    const programIds = transaction?.transaction.message.instructions.map((i) => i.programId);
+    return {
+      signature,
+      outcome: err !== null ? 'failed' : (status.confirmationStatus ?? 'processed'),
+      slot: transaction?.slot ?? status.slot,
+      error: err !== null ? decodeTransactionError(err, logs, programIds ?? []) : null,
+      logs,
+    };
+  }
+}
@@ -0,0 +1,588 @@
+import { VersionedTransaction } from '@solana/web3.js';
+import { Wallet } from '../../../domain/entities/wallet.entity';
+import { UltraApiService } from '../../../infrastructure/jupiter-api/ultra/ultra-api.service';
+import { SwapApiService } from '../../../infrastructure/jupiter-api/swap/swap-api.service';
+import { QuoteParams, SwapMode } from '../../../infrastructure/jupiter-api/swap/swap.types';
+import {
+  MintExtensionsPort,
+  TransactionSenderPort,
+  TransferFee,
+} from '../../ports/blockchain.port';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import { InvalidArgumentError } from '../../../core/errors/cli.errors';
+import { InsufficientBalanceError } from '../../../core/errors/token.errors';
+import { SwapFailedError } from '../../../core/errors/api.errors';
+import {
+  TransactionExpiredError,
+  TransactionFailedError,
+} from '../../../core/errors/transaction.errors';
+import { LoggerService } from '../../../core/logger/logger.service';
+import { RiskViolation } from '../../../core/errors/risk.errors';
+import { RiskPolicyService, RiskCheckRequest } from '../risk/risk-policy.service';
+import {
+  DeclaredInput,
+  TransactionInspection,
+  TransactionInspectorService,
+} from '../security/transaction-inspector.service';
+import { ResolvedToken, TokenInfoProvider } from '../token-info.service';
+import { WalletResolverService } from '../wallet/wallet-resolver.service';
+import { WalletSignerService } from '../wallet/wallet-signer.service';
+import { TradeService, tradeStatusFor } from './trade.service';
+import { calculateTransferFee, grossUpForTransferFee } from './transfer-fee';
+import { SimulationReport, TransactionSimulatorService } from './transaction-simulator.service';
+import { AmountResolverService } from './amount-resolver.service';
+import { ComputeBudget, ComputeBudgetService } from './compute-budget.service';
+import {
+  ConfirmationProgress,
+  ConfirmationTrackerService,
+  TransactionOutcome,
+  isLanded,
+} from './confirmation-tracker.service';
+
+export interface SwapRequest {
+  wallet: string; // Wallet identifier (number, name, or UUID)
+  inputToken: string; // Symbol or mint address
+  outputToken: string;
+  // Input in token units, or "50%", "max", "$250"; with exactOut, the output in token units or USD
+  amount: string;
+  slippageBps: number;
+  exactOut?: boolean; // Receive exactly `amount` of the output token
+  engine?: SwapEngine; // Defaults to Ultra, or Metis for exactOut
+  routing?: MetisRouting;
+}
+
+/**
+ * Route constraints, which only the Metis engine takes.
+ */
+export type MetisRouting = Pick<QuoteParams, 'excludeDexes' | 'onlyDirectRoutes' | 'maxAccounts'>;
+
+/**
+ * Ultra quotes ExactIn only and sends the signed transaction itself. Metis
+ * also quotes ExactOut and takes routing constraints; its transactions are
+ * sent over RPC.
+ */
+export type SwapOrder =
+  | { engine: 'ultra'; requestId: string }
+  | { engine: 'metis'; lastValidBlockHeight: number };
+
+export const SWAP_ENGINES = ['ultra', 'metis'] as const;
+
+export type SwapEngine = (typeof SWAP_ENGINES)[number];
+
+// Re-quotes after an attempt expires without landing
+export const DEFAULT_SWAP_RETRIES = 2;
+
+export interface SwapQuote {
+  request: SwapRequest; // Quoted again when a retry is needed
+  wallet: Wallet;
+  input: ResolvedToken;
+  output: ResolvedToken;
+  mode: SwapMode;
+  amount: string; // Resolved amount the mode fixes: the input for ExactIn, the output for ExactOut
+  amountBasis: string | null; // How an amount expression was resolved
+  inputAmount: TokenAmount; // Quoted input
+  maxInputAmount: TokenAmount; // Most that can be spent: inputAmount, plus slippage for ExactOut
+  outputAmount: TokenAmount; // Received, after any Token-2022 transfer fee
+  outputTransferFee: TokenAmount; // Withheld from the output, zero without a transfer fee
+  transferFee: TransferFee | null; // Output mint's fee config
+  priceImpactPct: number;
+  slippageBps: number;
+  route: string[];
+  transaction: string; // Base64, unsigned
+  order: SwapOrder;
+  computeBudget: ComputeBudget | null; // Set by the CLI for Metis swaps, which it sends itself
+}
+
+export interface SignedSwap {
+  quote: SwapQuote;
+  transaction: string; // Base64, signed by the wallet but not sent
+}
+
+export interface SwapExecution {
+  quote: SwapQuote; // The quote executed last: a re-quote when an attempt expired
+  succeeded: boolean; // Landed at confirmed or finalized commitment
+  // Raw status returned by Jupiter Ultra, or Confirmed/Unconfirmed for swaps sent over RPC
+  executionStatus: string;
+  signature: string | null;
+  confirmation: TransactionOutcome | null; // Null when nothing was sent
+  attempts: number;
+  recorded: boolean; // False when the swap could not be saved to trade history
+}
+
+export interface SubmitOptions {
+  retries?: number; // Re-quotes after an attempt expires, default none
+  sessionKey?: Buffer; // Signs the re-quoted attempts
+  onProgress?: (progress: ConfirmationProgress) => void;
+  onRetry?: (attempt: number, quote: SwapQuote) => void;
+}
+
+interface SentSwap {
+  executionStatus: string | null; // Null for swaps sent over RPC
+  signature: string | null;
+  inAmount: string; // Raw
+  outAmount: string; // Raw, before any transfer fee
+}
+
+/**
+ * Quotes and executes swaps through Jupiter Ultra or Metis, then records them
+ * in trade history. Shared by `trade swap` and the local API server.
+ */
+export class SwapService {
+  constructor(
+    private walletResolver: WalletResolverService,
+    private tokenInfoProvider: TokenInfoProvider,
+    private ultraApi: UltraApiService,
+    private swapApi: SwapApiService,
+    private tradeService: TradeService,
+    private mintExtensions: MintExtensionsPort,
+    private riskPolicy: RiskPolicyService,
+    private inspector: TransactionInspectorService,
+    private simulator: TransactionSimulatorService,
+    private amountResolver: AmountResolverService,
+    private sender: TransactionSenderPort,
+    private computeBudget: ComputeBudgetService,
+    private tracker: ConfirmationTrackerService,
+    private signer: WalletSignerService = new WalletSignerService()
+  ) {}
+
+  async quote(request: SwapRequest): Promise<SwapQuote> {
+    const wallet = await this.walletResolver.resolve(request.wallet);
+    const [input, output] = await Promise.all([
+      this.tokenInfoProvider.resolveToken(request.inputToken),
+      this.tokenInfoProvider.resolveToken(request.outputToken),
+    ]);
+
+    if (input.mint === output.mint) {
+      throw new InvalidArgumentError('Input and output tokens must be different');
+    }
+
+    const engine = request.engine ?? (request.exactOut ? 'metis' : 'ultra');
+    if (engine === 'ultra') {
+      if (request.exactOut) {
+        throw new InvalidArgumentError('Exact-output swaps need the Metis engine');
+      }
+      if (request.routing && Object.values(request.routing).some((v) => v !== undefined)) {
+        throw new InvalidArgumentError('Routing options need the Metis engine');
+      }
+      return this.quoteUltra(request, wallet, input, output);
+    }
+    return this.quoteMetis(request, wallet, input, output);
+  }
+
+  private async quoteUltra(
+    request: SwapRequest,
+    wallet: Wallet,
+    input: ResolvedToken,
+    output: ResolvedToken
+  ): Promise<SwapQuote> {
+    const { amount: inputAmount, basis } = await this.amountResolver.resolve(
+      request.amount,
+      input,
+      wallet.address
+    );
+
+    const order = await this.ultraApi.getOrder(
+      input.mint,
+      output.mint,
+      inputAmount.toRawString(),
+      wallet.address,
+      request.slippageBps
+    );
+
+    const transferFee = await this.getTransferFee(output.mint);
+    const grossOutput = TokenAmount.fromRaw(order.outAmount, output.decimals);
+    const fee = TokenAmount.fromRaw(
+      transferFee ? calculateTransferFee(grossOutput.raw, transferFee) : 0n,
+      output.decimals
+    );
+
+    return {
+      request,
+      wallet,
+      input,
+      output,
+      mode: 'ExactIn',
+      amount: inputAmount.toString(),
+      amountBasis: basis,
+      inputAmount,
+      maxInputAmount: inputAmount,
+      outputAmount: grossOutput.minus(fee),
+      outputTransferFee: fee,
+      transferFee,
+      priceImpactPct: parseFloat(order.priceImpactPct),
+      slippageBps: order.slippageBps,
+      route: order.routePlan?.map((r) => r.swapInfo.label) ?? [],
+      transaction: order.transaction,
+      order: { engine: 'ultra', requestId: order.requestId },
+      computeBudget: null,
+    };
+  }
+
+  /**
+   * For ExactOut, asks for enough extra output to cover a Token-2022 transfer
+   * fee so that the wallet receives the requested amount. The priority fee and
+   * compute-unit limit are replaced per `priorityFees`, since the swap is sent
+   * over RPC rather than by Jupiter.
+   */
+  private async quoteMetis(
+    request: SwapRequest,
+    wallet: Wallet,
+    input: ResolvedToken,
+    output: ResolvedToken
+  ): Promise<SwapQuote> {
+    const mode: SwapMode = request.exactOut ? 'ExactOut' : 'ExactIn';
+    const { amount: requested, basis } = await this.amountResolver.resolve(
+      request.amount,
+      mode === 'ExactOut' ? output : input,
+      mode === 'ExactOut' ? null : wallet.address
+    );
+
+    const transferFee = await this.getTransferFee(output.mint);
+    const quote = await this.swapApi.getQuote({
+      inputMint: input.mint,
+      outputMint: output.mint,
+      amount:
+        mode === 'ExactOut' && transferFee
+          ? grossUpForTransferFee(requested.raw, transferFee).toString()
+          : requested.toRawString(),
+      swapMode: mode,
+      slippageBps: request.slippageBps,
+      ...request.routing,
+    });
+    const swap = await this.swapApi.getSwapTransaction(quote, wallet.address);
+    const budgeted = await this.computeBudget.apply(swap.swapTransaction);
+
+    const grossOutput = TokenAmount.fromRaw(quote.outAmount, output.decimals);
+    const fee = TokenAmount.fromRaw(
+      transferFee ? calculateTransferFee(grossOutput.raw, transferFee) : 0n,
+      output.decimals
+    );
+    const inputAmount = TokenAmount.fromRaw(quote.inAmount, input.decimals);
+    return {
+      request,
+      wallet,
+      input,
+      output,
+      mode,
+      amount: requested.toString(),
+      amountBasis: basis,
+      inputAmount,
+      maxInputAmount:
+        mode === 'ExactOut'
+          ? TokenAmount.fromRaw(quote.otherAmountThreshold, input.decimals)
+          : inputAmount,
+      outputAmount: grossOutput.minus(fee),
+      outputTransferFee: fee,
+      transferFee,
+      priceImpactPct: parseFloat(quote.priceImpactPct),
+      slippageBps: quote.slippageBps,
+      route: quote.routePlan.map((r) => r.swapInfo.label),
+      transaction: budgeted?.transaction ?? swap.swapTransaction,
+      order: { engine: 'metis', lastValidBlockHeight: swap.lastValidBlockHeight },
+      computeBudget: budgeted?.computeBudget ?? null,
+    };
+  }
+
+  /**
+   * Wallet balance of the input token, to compare with `maxInputAmount`.
+   */
+  getInputBalance(quote: SwapQuote): Promise<TokenAmount> {
+    return this.amountResolver.getBalance(quote.input, quote.wallet.address);
+  }
+
+  /**
+   * Risk policy violations for the quote, for display before confirming.
+   * `execute` enforces the policy either way.
+   */
+  checkPolicy(quote: SwapQuote): Promise<RiskViolation[]> {
+    return this.riskPolicy.check(this.toRiskCheck(quote));
+  }
+
+  /**
+   * Decoded order transaction, for display before confirming. `execute`
+   * verifies it either way.
+   */
+  inspectTransaction(quote: SwapQuote): Promise<TransactionInspection> {
+    return this.inspector.inspect(
+      quote.transaction,
+      quote.wallet.address,
+      this.toDeclaredInput(quote)
+    );
+  }
+
+  /**
+   * Runs the order transaction, signed or not, through RPC simulation.
+   */
+  simulate(quote: SwapQuote, transaction: string = quote.transaction): Promise<SimulationReport> {
+    return this.simulator.simulate(transaction, quote.wallet.address, [quote.input, quote.output]);
+  }
+
+  /**
+   * Enforces the risk policy, verifies the transaction, checks that an
+   * exact-output swap cannot spend more than the wallet holds, and signs.
+   * Nothing is sent until `submit`.
+   */
+  async sign(quote: SwapQuote, sessionKey: Buffer): Promise<SignedSwap> {
+    const { wallet } = quote;
+    await this.riskPolicy.enforce(this.toRiskCheck(quote));
+    await this.inspector.verify(quote.transaction, wallet.address, this.toDeclaredInput(quote));
+    if (quote.mode === 'ExactOut') {
+      const balance = await this.getInputBalance(quote);
+      if (balance.compare(quote.maxInputAmount) < 0) {
+        throw new InsufficientBalanceError(
+          quote.input.symbol,
+          quote.maxInputAmount.toString(),
+          balance.toString()
+        );
+      }
+    }
+    return {
+      quote,
+      transaction: await this.signer.signTransaction(wallet, quote.transaction, sessionKey),
+    };
+  }
+
+  /**
+   * Signs, refuses transactions that fail simulation, and submits.
+   */
+  async execute(
+    quote: SwapQuote,
+    sessionKey: Buffer,
+    options: Omit<SubmitOptions, 'sessionKey'> = {}
+  ): Promise<SwapExecution> {
+    const signed = await this.sign(quote, sessionKey);
+    await this.simulator.verify(signed.transaction, quote.wallet.address, [
+      quote.input,
+      quote.output,
+    ]);
+    return this.submit(signed, { ...options, sessionKey });
+  }
+
+  /**
+   * Sends the swap and tracks it to finalized. An attempt that expires
+   * without landing is quoted, signed and simulated again, up to `retries`
+   * times, before TransactionExpiredError. A transaction that lands with an
+   * error is recorded as failed and throws TransactionFailedError.
+   */
+  async submit(signed: SignedSwap, options: SubmitOptions = {}): Promise<SwapExecution> {
+    let attempt = signed;
+    for (let attempts = 1; ; attempts++) {
+      const execution = await this.submitAttempt(attempt, attempts, options.onProgress);
+      if (execution.confirmation?.outcome !== 'expired') {
+        return execution;
+      }
+      if (attempts > (options.retries ?? 0) || !options.sessionKey) {
+        throw new TransactionExpiredError(execution.signature, attempts);
+      }
+
+      LoggerService.getInstance().warn('Swap expired without landing, quoting again', {
+        signature: execution.signature,
+        attempt: attempts + 1,
+      });
+      const quote = await this.quote(attempt.quote.request);
+      options.onRetry?.(attempts + 1, quote);
+      attempt = await this.sign(quote, options.sessionKey);
+      await this.simulator.verify(attempt.transaction, quote.wallet.address, [
+        quote.input,
+        quote.output,
+      ]);
+    }
+  }
+
+  private async submitAttempt(
+    signed: SignedSwap,
+    attempts: number,
+    onProgress?: (progress: ConfirmationProgress) => void
+  ): Promise<SwapExecution> {
+    const { quote } = signed;
+    const { wallet, input, output, order } = quote;
+    const transaction = VersionedTransaction.deserialize(Buffer.from(signed.transaction, 'base64'));
+    const sent =
+      order.engine === 'ultra'
+        ? await this.executeUltra(signed, order.requestId)
+        : await this.broadcast(quote, transaction);
+
+    const confirmation = sent.signature
+      ? await this.tracker.track(sent.signature, {
+          blockhash: transaction.message.recentBlockhash,
+          lastValidBlockHeight: order.engine === 'metis' ? order.lastValidBlockHeight : undefined,
+          resend:
+            order.engine === 'metis'
+              ? () => this.sender.sendTransaction(transaction, { skipPreflight: true })
+              : undefined,
+          onProgress,
+        })
+      : null;
+    const status = confirmation ? tradeStatusFor(confirmation.outcome) : null;
+    const settled =
+      sent.signature && order.engine === 'metis' && confirmation && isLanded(confirmation.outcome)
+        ? await this.settledAmounts(sent.signature, quote)
+        : null;
+
+    let recorded = false;
+
+    if (sent.signature && status) {
+      try {
+        await this.tradeService.recordTrade({
+          walletId: wallet.id,
+          type: 'swap',
+          status,
+          inputMint: input.mint,
+          outputMint: output.mint,
+          inputSymbol: input.symbol,
+          outputSymbol: output.symbol,
+          inputAmount: settled?.inAmount ?? sent.inAmount,
+          outputAmount:
+            settled?.outAmount ?? this.netOfTransferFee(sent.outAmount, quote.transferFee),
+          inputDecimals: input.decimals,
+          outputDecimals: output.decimals,
+          signature: sent.signature,
+          requestId: order.engine === 'ultra' ? order.requestId : undefined,
+          routeLabels: quote.route,
+          error: confirmation?.error?.message,
+          logMessages: confirmation?.logs,
+        });
+        recorded = true;
+      } catch (recordError) {
+        LoggerService.getInstance().warn(
+          `Swap executed but could not be saved to history: ${
+            recordError instanceof Error ? recordError.message : 'Unknown error'
+          }`
+        );
+      }
+    }
+
+    if (confirmation?.outcome === 'failed') {
+      const error = confirmation.error;
+      throw new TransactionFailedError(error?.message ?? 'unknown error', {
+        signature: confirmation.signature,
+        code: error?.code ?? null,
+        instruction: error?.instruction ?? null,
+        programId: error?.programId ?? null,
+        logs: confirmation.logs,
+        recorded,
+      });
+    }
+
+    const succeeded = confirmation !== null && isLanded(confirmation.outcome);
+    return {
+      quote,
+      succeeded,
+      executionStatus: sent.executionStatus ?? (succeeded ? 'Confirmed' : 'Unconfirmed'),
+      signature: sent.signature,
+      confirmation,
+      attempts,
+      recorded,
+    };
+  }
+
+  /**
+   * Ultra reports a failure with the signature when the transaction did not
+   * land or landed with an error; tracking tells which.
+   */
+  private async executeUltra(signed: SignedSwap, requestId: string): Promise<SentSwap> {
+    const { quote } = signed;
+    const quoted = {
+      inAmount: quote.inputAmount.toRawString(),
+      outAmount: this.grossOutput(quote).toRawString(),
+    };
+    try {
+      const execution = await this.ultraApi.executeOrder(signed.transaction, requestId);
+      return {
+        executionStatus: execution.status,
+        signature: execution.signature ?? null,
+        inAmount: execution.result?.inAmount ?? quoted.inAmount,
+        outAmount: execution.result?.outAmount ?? quoted.outAmount,
+      };
+    } catch (error) {
+      const signature = error instanceof SwapFailedError ? error.details?.signature : undefined;
+      if (typeof signature !== 'string') {
+        throw error;
+      }
+      return { executionStatus: 'Failed', signature, ...quoted };
+    }
+  }
+
+  /**
+   * Sends a Metis transaction over RPC. Amounts are as quoted until
+   * `settledAmounts` reads them from the landed transaction.
+   */
+  private async broadcast(quote: SwapQuote, transaction: VersionedTransaction): Promise<SentSwap> {
+    return {
+      executionStatus: null,
+      signature: await this.sender.sendTransaction(transaction),
+      inAmount: quote.inputAmount.toRawString(),
+      outAmount: this.grossOutput(quote).toRawString(),
+    };
+  }
+
+  /**
+   * Raw amounts the wallet actually spent and received in a landed swap: an
+   * exact-output swap may spend less than quoted, and an exact-input one
+   * receive more. The output is already net of any transfer fee. Null, to
+   * keep the quoted amounts, when the transaction cannot be read.
+   */
+  private async settledAmounts(
+    signature: string,
+    quote: SwapQuote
+  ): Promise<{ inAmount: string; outAmount: string } | null> {
+    try {
+      const changes = await this.tracker.getBalanceChanges(signature, quote.wallet.address);
+      const spent = changes?.find((c) => c.mint === quote.input.mint);
+      const received = changes?.find((c) => c.mint === quote.output.mint);
+      if (spent && received && spent.amount.startsWith('-') && !received.amount.startsWith('-')) {
+        return { inAmount: spent.amount.slice(1), outAmount: received.amount };
+      }
+      LoggerService.getInstance().warn('Swap balance changes not found, recording quoted amounts', {
+        signature,
+      });
+    } catch (error) {
+      LoggerService.getInstance().warn(
+        `Could not read swap balance changes, recording quoted amounts: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+    return null;
+  }
+
+  private grossOutput(quote: SwapQuote): TokenAmount {
+    return quote.outputAmount.plus(quote.outputTransferFee);
+  }
+
+  private toRiskCheck(quote: SwapQuote): RiskCheckRequest {
+    return {
+      wallet: quote.wallet,
+      input: quote.input,
+      output: quote.output,
+      inputAmount: quote.maxInputAmount,
+      outputAmount: quote.outputAmount,
+      slippageBps: quote.slippageBps,
+      priceImpactPct: quote.priceImpactPct,
+    };
+  }
+
+  private toDeclaredInput(quote: SwapQuote): DeclaredInput {
+    return { mint: quote.input.mint, amount: quote.maxInputAmount };
+  }
+
+  private async getTransferFee(mint: string): Promise<TransferFee | null> {
+    try {
+      const extensions = await this.mintExtensions.getMintExtensions([mint]);
+      return extensions.get(mint)?.transferFee ?? null;
+    } catch (error) {
+      LoggerService.getInstance().warn(
+        `Could not check ${mint} for a transfer fee: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+      return null;
+    }
+  }
+
+  private netOfTransferFee(rawAmount: string, transferFee: TransferFee | null): string {
+    if (!transferFee) return rawAmount;
+    const gross = BigInt(rawAmount);
+    return (gross - calculateTransferFee(gross, transferFee)).toString();
+  }
+}
@@ -0,0 +1,226 @@
+import { randomUUID } from 'crypto';
+import Big from 'big.js';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import { Trade, TradeStatus, TradeType } from '../../../domain/entities/trade.entity';
+import { TradeQueryOptions, TradeRepository } from '../../../domain/repositories/trade.repository';
+import { PriceProvider } from '../wallet/wallet-sync.service';
+import { LoggerService } from '../../../core/logger/logger.service';
+import { ConfirmationOutcome, TransactionOutcome } from './confirmation-tracker.service';
+
+/**
+ * Stablecoins valued at $1 when the price API is unavailable.
+ */
+export const STABLECOIN_MINTS: ReadonlySet<string> = new Set([
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+  '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo', // PYUSD
+]);
+
+// Executions younger than this can be priced with current prices
+const RECENT_EXECUTION_MS = 15 * 60 * 1000;
+
+export interface RecordTradeParams {
+  walletId: string;
+  type?: TradeType;
+  status?: TradeStatus;
+  inputMint: string;
+  outputMint: string;
+  inputSymbol?: string;
+  outputSymbol?: string;
+  inputAmount: string;
+  outputAmount: string;
+  inputDecimals: number;
+  outputDecimals: number;
+  signature: string;
+  requestId?: string;
+  routeLabels?: string[];
+  error?: string; // Decoded on-chain error of a failed transaction
+  logMessages?: string[];
+  executedAt?: Date;
+  inputUsdPrice?: number;
+  outputUsdPrice?: number;
+  // Set to false for past executions: current prices would misstate their value
+  fetchPrices?: boolean;
+}
+
+export interface TradeHistoryPage {
+  trades: Trade[];
+  total: number;
+}
+
+export function toUiAmount(rawAmount: string, decimals: number): Big {
+  return TokenAmount.fromRaw(rawAmount, decimals).toBig();
+}
+
+export function toRawAmount(uiAmount: string, decimals: number): string {
+  return TokenAmount.fromDecimal(uiAmount, decimals).toRawString();
+}
+
+/**
+ * Trade status for a tracked transaction. Null for `expired`: the
+ * transaction never landed, so there is no trade.
+ */
+export function tradeStatusFor(outcome: ConfirmationOutcome): TradeStatus | null {
+  switch (outcome) {
+    case 'finalized':
+    case 'confirmed':
+      return 'success';
+    case 'failed':
+      return 'failed';
+    case 'expired':
+      return null;
+    default:
+      return 'pending';
+  }
+}
+
+export function isRecentExecution(executedAt: Date): boolean {
+  return Date.now() - executedAt.getTime() < RECENT_EXECUTION_MS;
+}
+
+export class TradeService {
+  private tradeRepo: TradeRepository;
+  private priceProvider: PriceProvider;
+
+  constructor(tradeRepo: TradeRepository, priceProvider: PriceProvider) {
+    this.tradeRepo = tradeRepo;
+    this.priceProvider = priceProvider;
+  }
+
+  /**
+   * Record an executed trade with the USD prices at execution time.
+   * Prices passed in params take precedence over fetched ones; a price
+   * lookup failure leaves the USD fields empty instead of failing.
+   */
+  async recordTrade(params: RecordTradeParams): Promise<Trade> {
+    const prices = await this.resolveUsdPrices(params);
+
+    const inputUsdPrice = prices.get(params.inputMint);
+    const outputUsdPrice = prices.get(params.outputMint);
+
+    const trade = new Trade(
+      randomUUID(),
+      params.walletId,
+      params.type ?? 'swap',
+      params.inputMint,
+      params.outputMint,
+      params.inputAmount,
+      params.outputAmount,
+      params.inputDecimals,
+      params.outputDecimals,
+      params.signature,
+      {
+        status: params.status,
+        inputSymbol: params.inputSymbol,
+        outputSymbol: params.outputSymbol,
+        inputUsdPrice: inputUsdPrice?.toString(),
+        outputUsdPrice: outputUsdPrice?.toString(),
+        inputUsdValue: inputUsdPrice
+          ? toUiAmount(params.inputAmount, params.inputDecimals).times(inputUsdPrice).toString()
+          : undefined,
+        outputUsdValue: outputUsdPrice
+          ? toUiAmount(params.outputAmount, params.outputDecimals).times(outputUsdPrice).toString()
+          : undefined,
+        routeLabels: params.routeLabels,
+        requestId: params.requestId,
+        error: params.error,
+        logMessages: params.logMessages,
+        executedAt: params.executedAt,
+      }
+    );
+
+    const created = await this.tradeRepo.create(trade);
+    LoggerService.getInstance().info(
+      `Recorded ${created.type} ${created.inputMint} → ${created.outputMint} (${created.signature})`
+    );
+    return created;
+  }
+
+  async getTradeHistory(walletId: string, options?: TradeQueryOptions): Promise<TradeHistoryPage> {
+    const [trades, total] = await Promise.all([
+      this.tradeRepo.findByWallet(walletId, options),
+      this.tradeRepo.countByWallet(walletId, { ...options, limit: undefined, offset: undefined }),
+    ]);
+
+    return { trades, total };
+  }
+
+  /**
+   * Updates the trades recorded for a transaction with its on-chain outcome,
+   * e.g. a swap left pending when confirmation timed out. Returns the trades.
+   */
+  async recordOutcome(outcome: TransactionOutcome): Promise<Trade[]> {
+    const status = tradeStatusFor(outcome.outcome);
+    const trades = await this.tradeRepo.findBySignature(outcome.signature);
+    if (!status) {
+      return trades;
+    }
+    return Promise.all(
+      trades.map((trade) => {
+        trade.recordOutcome(status, outcome.error?.message, outcome.logs);
+        return this.tradeRepo.update(trade);
+      })
+    );
+  }
+
+  /**
+   * Check whether a transaction was already recorded, optionally for a
+   * specific pair (one transaction may fill several orders).
+   */
+  async isTradeRecorded(
+    signature: string,
+    pair?: { inputMint: string; outputMint: string }
+  ): Promise<boolean> {
+    const trades = await this.tradeRepo.findBySignature(signature);
+    if (!pair) {
+      return trades.length > 0;
+    }
+    return trades.some((t) => t.inputMint === pair.inputMint && t.outputMint === pair.outputMint);
+  }
+
+  private async resolveUsdPrices(params: RecordTradeParams): Promise<Map<string, Big>> {
+    const prices = new Map<string, Big>();
+
+    if (params.inputUsdPrice !== undefined) {
+      prices.set(params.inputMint, new Big(params.inputUsdPrice));
+    }
+    if (params.outputUsdPrice !== undefined) {
+      prices.set(params.outputMint, new Big(params.outputUsdPrice));
+    }
+
+    const missing = [params.inputMint, params.outputMint].filter((m) => !prices.has(m));
+    if (missing.length > 0 && params.fetchPrices !== false) {
+      try {
+        const results = await this.priceProvider.getPrice(missing);
+        for (const result of results) {
+          if (result.price > 0) {
+            prices.set(result.mint, new Big(result.price));
+          }
+        }
+      } catch (error) {
+        LoggerService.getInstance().warn(
+          `Failed to fetch trade prices: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    for (const mint of missing) {
+      if (!prices.has(mint) && STABLECOIN_MINTS.has(mint)) {
+        prices.set(mint, new Big(1));
+      }
+    }
+
+    // Implicit price from the swap ratio when only one side is priced
+    const inputUi = toUiAmount(params.inputAmount, params.inputDecimals);
+    const outputUi = toUiAmount(params.outputAmount, params.outputDecimals);
+    const inputPrice = prices.get(params.inputMint);
+    const outputPrice = prices.get(params.outputMint);
+    if (inputPrice && !outputPrice && outputUi.gt(0)) {
+      prices.set(params.outputMint, inputUi.times(inputPrice).div(outputUi));
+    } else if (outputPrice && !inputPrice && inputUi.gt(0)) {
+      prices.set(params.inputMint, outputUi.times(outputPrice).div(inputUi));
+    }
+
+    return prices;
+  }
+}
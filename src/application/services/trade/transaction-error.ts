@@ -0,0 +1,114 @@
+import { ALLOWED_PROGRAMS } from '../security/transaction-inspector.service';
+import { TOKEN_PROGRAM_IDS } from '../../ports/blockchain.port';
+
+const JUPITER_AGGREGATOR = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+const JUPITER_ERRORS: Readonly<Record<number, string>> = {
+  6000: 'empty route',
+  6001: 'slippage tolerance exceeded',
+  6017: 'exact output amount not matched',
+};
+
+// Token program errors shared by both token programs
+const TOKEN_ERRORS: Readonly<Record<number, string>> = {
+  1: 'insufficient funds',
+  3: 'mint mismatch',
+  4: 'owner does not match',
+};
+
+const TRANSACTION_ERRORS: Readonly<Record<string, string>> = {
+  AccountNotFound: 'the fee payer has no SOL',
+  InsufficientFundsForFee: 'not enough SOL to pay the fee',
+  InsufficientFundsForRent: 'not enough SOL left for rent',
+  BlockhashNotFound: 'the blockhash expired before the transaction landed',
+  AlreadyProcessed: 'the transaction was already processed',
+};
+
+// Anchor programs log the message of the error they return
+const ANCHOR_ERROR_LOG = /AnchorError.*Error Message: (.+?)\.?$/;
+
+/**
+ * A transaction's `meta.err` in words. `instruction` and `programId` are set
+ * for instruction errors, `code` for custom program errors.
+ */
+export interface DecodedTransactionError {
+  message: string;
+  instruction: number | null;
+  programId: string | null;
+  code: number | null;
+}
+
+function describeInstructionError(detail: unknown, programId: string | null, logs: string[]) {
+  if (typeof detail === 'string') {
+    return { message: detail, code: null };
+  }
+  const custom =
+    detail !== null && typeof detail === 'object' && 'Custom' in detail ? detail.Custom : null;
+  if (typeof custom !== 'number') {
+    return { message: JSON.stringify(detail), code: null };
+  }
+
+  const anchorMessage = logs
+    .map((line) => ANCHOR_ERROR_LOG.exec(line)?.[1])
+    .filter((message) => message !== undefined)
+    .pop();
+  const known =
+    programId === JUPITER_AGGREGATOR
+      ? JUPITER_ERRORS[custom]
+      : programId && Object.values(TOKEN_PROGRAM_IDS).includes(programId)
+        ? TOKEN_ERRORS[custom]
+        : undefined;
+  return {
+    message: anchorMessage ?? known ?? `custom program error 0x${custom.toString(16)} (${custom})`,
+    code: custom,
+  };
+}
+
+/**
+ * Decodes `meta.err` with the transaction's log messages. `programIds` are
+ * the programs of the top-level instructions, in order.
+ */
+export function decodeTransactionError(
+  err: unknown,
+  logs: string[],
+  programIds: string[]
+): DecodedTransactionError {
+  const name =
+    typeof err === 'string'
+      ? err
+      : err !== null && typeof err === 'object'
+        ? Object.keys(err)[0]
+        : undefined;
+
+  if (name === 'InstructionError' && typeof err === 'object' && err !== null) {
+    const [index, detail] = (err as { InstructionError: [number, unknown] }).InstructionError;
+    const programId = programIds[index] ?? null;
+    const { message, code } = describeInstructionError(detail, programId, logs);
+    const program = programId ? (ALLOWED_PROGRAMS[programId] ?? programId) : 'unknown program';
+    return {
+      message: `instruction #${index} (${program}) failed: ${message}`,
+      instruction: index,
+      programId,
+      code,
+    };
+  }
+
+  return {
+    message: (name && TRANSACTION_ERRORS[name]) ?? JSON.stringify(err),
+    instruction: null,
+    programId: null,
+    code: null,
+  };
+}
+
+/**
+ * The signature a failed swap was sent under, when the error carries one in
+ * `details` (SwapFailedError, TransactionExpiredError, ...).
+ */
+export function failedSignatureOf(error: unknown): string | undefined {
+  const signature =
+    error !== null && typeof error === 'object' && 'details' in error
+      ? (error.details as { signature?: unknown } | undefined)?.signature
+      : undefined;
+  return typeof signature === 'string' ? signature : undefined;
+}
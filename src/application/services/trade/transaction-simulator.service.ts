@@ -0,0 +1,191 @@
+import { TokenAmount } from '../../../domain/values/token-amount';
+import {
+  SimulationFailedError,
+  SimulationFailureReason,
+} from '../../../core/errors/transaction.errors';
+import {
+  SimulatedAccount,
+  TOKEN_PROGRAM_IDS,
+  TokenProgram,
+  TransactionSimulationPort,
+} from '../../ports/blockchain.port';
+import { ResolvedToken } from '../token-info.service';
+import { getAssociatedTokenAddress } from '../wallet/token-account.util';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const SOL_TOKEN: ResolvedToken = { mint: SOL_MINT, symbol: 'SOL', decimals: 9 };
+
+// A token account's amount follows its mint and owner, for both token programs
+const TOKEN_AMOUNT_OFFSET = 64;
+
+// AccountNotFound: the fee payer has never held SOL
+const INSUFFICIENT_BALANCE_ERRORS = new Set([
+  'AccountNotFound',
+  'InsufficientFundsForFee',
+  'InsufficientFundsForRent',
+]);
+const INSUFFICIENT_BALANCE_LOGS = /insufficient (funds|lamports)/i;
+const MISSING_ACCOUNT_ERRORS =
+  /AccountNotInitialized|UninitializedAccount|InvalidAccountData|account not initialized|could not find account/i;
+
+const FAILURE_MESSAGES: Readonly<Record<SimulationFailureReason, string>> = {
+  'insufficient-balance': 'the wallet does not hold enough of the input token, or SOL for fees',
+  'missing-token-account': 'a token account the transaction uses does not exist',
+  failed: 'the transaction would fail',
+};
+
+/**
+ * Change in one of the wallet's balances, in token units. Native SOL
+ * includes network fees and rent.
+ */
+export interface BalanceChange {
+  mint: string;
+  symbol: string;
+  before: string;
+  after: string;
+  change: string; // Signed, e.g. "-0.5" or "+75.12"
+}
+
+export interface SimulationReport {
+  succeeded: boolean;
+  failure: { reason: SimulationFailureReason; message: string; err: unknown } | null;
+  unitsConsumed: number | null;
+  balanceChanges: BalanceChange[]; // Empty when the simulation failed
+  logs: string[];
+}
+
+/**
+ * Tells the two failures users can fix themselves apart from the rest.
+ */
+export function classifySimulationFailure(err: unknown, logs: string[]): SimulationFailureReason {
+  if (typeof err === 'string' && INSUFFICIENT_BALANCE_ERRORS.has(err)) {
+    return 'insufficient-balance';
+  }
+  const text = logs.join('\n');
+  if (INSUFFICIENT_BALANCE_LOGS.test(text)) {
+    return 'insufficient-balance';
+  }
+  if (MISSING_ACCOUNT_ERRORS.test(text) || MISSING_ACCOUNT_ERRORS.test(JSON.stringify(err))) {
+    return 'missing-token-account';
+  }
+  return 'failed';
+}
+
+/**
+ * Throws SimulationFailedError for a failed simulation.
+ */
+export function assertSimulationSucceeded(report: SimulationReport): void {
+  if (report.failure) {
+    throw new SimulationFailedError(
+      report.failure.reason,
+      report.failure.message,
+      report.failure.err,
+      report.logs
+    );
+  }
+}
+
+function tokenBalance(account: SimulatedAccount | null): bigint {
+  const isTokenAccount =
+    account !== null &&
+    Object.values(TOKEN_PROGRAM_IDS).includes(account.owner) &&
+    account.data.length >= TOKEN_AMOUNT_OFFSET + 8;
+  return isTokenAccount ? account.data.readBigUInt64LE(TOKEN_AMOUNT_OFFSET) : 0n;
+}
+
+function toBalanceChange(token: ResolvedToken, before: bigint, after: bigint): BalanceChange {
+  const delta = after - before;
+  const sign = delta > 0n ? '+' : delta < 0n ? '-' : '';
+  return {
+    mint: token.mint,
+    symbol: token.symbol,
+    before: TokenAmount.fromRaw(before, token.decimals).toString(),
+    after: TokenAmount.fromRaw(after, token.decimals).toString(),
+    change: sign + TokenAmount.fromRaw(delta < 0n ? -delta : delta, token.decimals).toString(),
+  };
+}
+
+/**
+ * Simulates transactions before they are sent and reports what they would
+ * do to the wallet: SOL and token balance changes, compute units, errors.
+ */
+export class TransactionSimulatorService {
+  constructor(private simulation: TransactionSimulationPort) {}
+
+  /**
+   * `tokens` are the mints whose balances to report besides SOL, read from
+   * the wallet's associated token accounts.
+   */
+  async simulate(
+    transaction: string,
+    owner: string,
+    tokens: ResolvedToken[]
+  ): Promise<SimulationReport> {
+    const watched = tokens
+      .filter((token) => token.mint !== SOL_MINT)
+      .flatMap((token) =>
+        (Object.keys(TOKEN_PROGRAM_IDS) as TokenProgram[]).map((program) => ({
+          token,
+          address: getAssociatedTokenAddress(owner, token.mint, program),
+        }))
+      );
+    const result = await this.simulation.simulateTransaction(transaction, [
+      owner,
+      ...watched.map((w) => w.address),
+    ]);
+
+    if (result.err !== null) {
+      const reason = classifySimulationFailure(result.err, result.logs);
+      return {
+        succeeded: false,
+        failure: {
+          reason,
+          message:
+            reason === 'failed'
+              ? `${FAILURE_MESSAGES.failed} (${JSON.stringify(result.err)})`
+              : FAILURE_MESSAGES[reason],
+          err: result.err,
+        },
+        unitsConsumed: result.unitsConsumed,
+        balanceChanges: [],
+        logs: result.logs,
+      };
+    }
+
+    const [wallet, ...tokenAccounts] = result.accounts;
+    const balanceChanges = [
+      toBalanceChange(SOL_TOKEN, wallet?.before?.lamports ?? 0n, wallet?.after?.lamports ?? 0n),
+    ];
+    for (const token of new Set(watched.map((w) => w.token))) {
+      let before = 0n;
+      let after = 0n;
+      tokenAccounts.forEach((account, index) => {
+        if (watched[index]?.token !== token) return;
+        before += tokenBalance(account.before);
+        after += tokenBalance(account.after);
+      });
+      balanceChanges.push(toBalanceChange(token, before, after));
+    }
+
+    return {
+      succeeded: true,
+      failure: null,
+      unitsConsumed: result.unitsConsumed,
+      balanceChanges,
+      logs: result.logs,
+    };
+  }
+
+  /**
+   * Simulates and throws SimulationFailedError when the transaction would fail.
+   */
+  async verify(
+    transaction: string,
+    owner: string,
+    tokens: ResolvedToken[]
+  ): Promise<SimulationReport> {
+    const report = await this.simulate(transaction, owner, tokens);
+    assertSimulationSucceeded(report);
+    return report;
+  }
+}
@@ -0,0 +1,41 @@
+import { TransferFee } from '../../ports/blockchain.port';
+
+const ONE_IN_BASIS_POINTS = 10000n;
+
+/**
+ * Fee withheld by a Token-2022 transfer fee on a raw amount, rounded up and
+ * capped like the token program does.
+ */
+export function calculateTransferFee(rawAmount: bigint, fee: TransferFee): bigint {
+  if (rawAmount <= 0n || fee.basisPoints <= 0) {
+    return 0n;
+  }
+  const amountTimesBps = rawAmount * BigInt(fee.basisPoints);
+  const uncapped = (amountTimesBps + ONE_IN_BASIS_POINTS - 1n) / ONE_IN_BASIS_POINTS;
+  const maxFee = BigInt(fee.maxFee);
+  return uncapped < maxFee ? uncapped : maxFee;
+}
+
+/**
+ * Smallest raw amount that still delivers `net` after the transfer fee, for
+ * exact-output swaps.
+ */
+export function grossUpForTransferFee(net: bigint, fee: TransferFee): bigint {
+  if (net <= 0n || fee.basisPoints <= 0) {
+    return net;
+  }
+  const maxFee = BigInt(fee.maxFee);
+  const keptBps = ONE_IN_BASIS_POINTS - BigInt(fee.basisPoints);
+  if (keptBps <= 0n) {
+    return net + maxFee;
+  }
+  let gross = (net * ONE_IN_BASIS_POINTS + keptBps - 1n) / keptBps;
+  if (gross - net > maxFee) {
+    return net + maxFee;
+  }
+  // The fee rounds up, which can take one more unit
+  while (gross - calculateTransferFee(gross, fee) < net) {
+    gross += 1n;
+  }
+  return gross;
+}
@@ -0,0 +1,333 @@
+import { randomUUID } from 'crypto';
+import { TwapOrder, TwapSlice, TwapSliceResult } from '../../../domain/entities/twap-order.entity';
+import { TwapOrderRepository } from '../../../domain/repositories/twap-order.repository';
+import { Wallet } from '../../../domain/entities/wallet.entity';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import { splitAmount } from '../../../domain/values/split-amount';
+import { InvalidArgumentError, TwapNotFoundError } from '../../../core/errors/cli.errors';
+import { LoggerService } from '../../../core/logger/logger.service';
+import { ResolvedToken, TokenInfoProvider } from '../token-info.service';
+import { WalletResolverService } from '../wallet/wallet-resolver.service';
+import { AmountResolverService } from './amount-resolver.service';
+import { DEFAULT_SWAP_RETRIES, SwapQuote, SwapService } from './swap.service';
+import { failedSignatureOf } from './transaction-error';
+
+export const MAX_TWAP_SLICES = 1_000;
+export const MIN_TWAP_INTERVAL_SECONDS = 10;
+export const DEFAULT_TWAP_MAX_IMPACT_PCT = 1;
+export const STALE_TWAP_SLICE_MS = 15 * 60_000; // Longer than a slice's swap takes with its retries
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3_600, d: 86_400 };
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)([smhd])$/;
+
+/**
+ * "90s", "30m", "6h" or "1.5d" in seconds.
+ */
+export function parseDuration(value: string): number {
+  const match = DURATION_PATTERN.exec(value.trim().toLowerCase());
+  const seconds = match?.[1] && match[2] ? Number(match[1]) * (DURATION_UNITS[match[2]] ?? 0) : 0;
+  if (!(seconds > 0)) {
+    throw new InvalidArgumentError(`Invalid duration "${value}", e.g. 90s, 30m, 6h or 1d`, {
+      duration: value,
+    });
+  }
+  return Math.round(seconds);
+}
+
+export interface TwapRequest {
+  wallet: string; // Wallet identifier (number, name, or UUID)
+  inputToken: string;
+  outputToken: string;
+  amount: string; // Token units, or "50%", "max", "$250", worked out once when planned
+  durationSeconds: number; // Time from the first slice to one interval after the last
+  slices: number;
+  maxPriceImpactPct: number; // A slice quoted above this is skipped
+  slippageBps: number;
+}
+
+export interface TwapPlan {
+  wallet: Wallet;
+  input: ResolvedToken;
+  output: ResolvedToken;
+  amount: TokenAmount;
+  basis: string | null; // How a non-literal amount was worked out
+  twap: TwapOrder; // Not saved until created
+}
+
+export interface TwapRunOptions {
+  onSlice?: (twap: TwapOrder, slice: TwapSlice) => void;
+}
+
+/**
+ * Splits a swap into equal slices spread over a time window, each one run
+ * through the Ultra flow like `trade swap`. The schedule lives in the local
+ * database, so a stopped TWAP can be resumed.
+ */
+export class TwapService {
+  constructor(
+    private walletResolver: WalletResolverService,
+    private tokenInfoProvider: TokenInfoProvider,
+    private amountResolver: AmountResolverService,
+    private swaps: SwapService,
+    private repository: TwapOrderRepository,
+    private checkIntervalMs = 30_000 // Longest wait before a running TWAP notices it was cancelled
+  ) {}
+
+  async plan(request: TwapRequest): Promise<TwapPlan> {
+    if (!Number.isInteger(request.slices) || request.slices < 2) {
+      throw new InvalidArgumentError('A TWAP needs at least 2 slices', { slices: request.slices });
+    }
+    if (request.slices > MAX_TWAP_SLICES) {
+      throw new InvalidArgumentError(`A TWAP can have at most ${MAX_TWAP_SLICES} slices`, {
+        slices: request.slices,
+      });
+    }
+    const intervalSeconds = Math.floor(request.durationSeconds / request.slices);
+    if (intervalSeconds < MIN_TWAP_INTERVAL_SECONDS) {
+      throw new InvalidArgumentError(
+        `Slices must be at least ${MIN_TWAP_INTERVAL_SECONDS}s apart: use fewer slices or a longer window`,
+        { durationSeconds: request.durationSeconds, slices: request.slices }
+      );
+    }
+    if (!(request.maxPriceImpactPct > 0 && request.maxPriceImpactPct <= 100)) {
+      throw new InvalidArgumentError('Price impact bound must be between 0 and 100 percent', {
+        maxPriceImpactPct: request.maxPriceImpactPct,
+      });
+    }
+
+    const wallet = await this.walletResolver.resolve(request.wallet);
+    const [input, output] = await Promise.all([
+      this.tokenInfoProvider.resolveToken(request.inputToken),
+      this.tokenInfoProvider.resolveToken(request.outputToken),
+    ]);
+    if (input.mint === output.mint) {
+      throw new InvalidArgumentError('Input and output tokens must be different');
+    }
+    const { amount, basis } = await this.amountResolver.resolve(
+      request.amount,
+      input,
+      wallet.address
+    );
+    const amounts = splitAmount(amount.raw, request.slices);
+    if (amounts[0] === 0n) {
+      throw new InvalidArgumentError(
+        `${amount.toString()} ${input.symbol} is too small to split into ${request.slices} slices`
+      );
+    }
+
+    const start = Date.now();
+    const twap = new TwapOrder(
+      randomUUID(),
+      wallet.id,
+      input.mint,
+      output.mint,
+      input.decimals,
+      output.decimals,
+      amount.toRawString(),
+      intervalSeconds,
+      request.maxPriceImpactPct,
+      request.slippageBps,
+      amounts.map((inputAmount, index) => ({
+        index,
+        scheduledAt: new Date(start + index * intervalSeconds * 1000),
+        inputAmount: inputAmount.toString(),
+        status: 'pending',
+      }))
+    );
+
+    return { wallet, input, output, amount, basis, twap };
+  }
+
+  async create(twap: TwapOrder): Promise<TwapOrder> {
+    const created = await this.repository.create(twap);
+    LoggerService.getInstance().info('TWAP created', {
+      twapId: created.id,
+      slices: created.slices.length,
+      intervalSeconds: created.intervalSeconds,
+    });
+    return created;
+  }
+
+  async get(id: string): Promise<TwapOrder> {
+    const twap = await this.repository.findById(id);
+    if (!twap) {
+      throw new TwapNotFoundError(id);
+    }
+    return twap;
+  }
+
+  /**
+   * Active TWAPs, or every TWAP with `all`. Oldest first.
+   */
+  async list(walletId?: string, all = false): Promise<TwapOrder[]> {
+    return this.repository.findByStatus(
+      all ? ['active', 'completed', 'cancelled'] : ['active'],
+      walletId
+    );
+  }
+
+  async cancel(id: string): Promise<TwapOrder> {
+    const twap = await this.get(id);
+    if (twap.status !== 'active') {
+      throw this.notActive(twap);
+    }
+    twap.cancel();
+    if (!(await this.repository.saveStatus(twap))) {
+      // Its last slice finished since it was read
+      throw this.notActive(await this.get(id));
+    }
+    LoggerService.getInstance().info('TWAP cancelled', { twapId: id });
+    return twap;
+  }
+
+  /**
+   * Runs the remaining slices as they fall due and returns the TWAP once
+   * none is left or it was cancelled, from here or another process. Slices
+   * another process left executing are waited for until stale, then marked
+   * unconfirmed.
+   */
+  async run(id: string, sessionKey: Buffer, options: TwapRunOptions = {}): Promise<TwapOrder> {
+    for (;;) {
+      // Reloaded every time round so a cancellation is noticed
+      const twap = await this.get(id);
+      for (const stale of twap.staleSlices(STALE_TWAP_SLICE_MS)) {
+        const abandoned = await this.abandonSlice(twap, stale);
+        options.onSlice?.(twap, abandoned);
+      }
+      const next = twap.nextSlice();
+      if (!next && twap.status !== 'active') {
+        return twap;
+      }
+
+      // With no slice pending, waits for those executing to finish or go stale
+      const due = next
+        ? twap.dueAt(next).getTime()
+        : (twap.lastAttemptAt?.getTime() ?? 0) + STALE_TWAP_SLICE_MS;
+      const wait = due - Date.now();
+      if (!next || wait > 0) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, Math.max(0, Math.min(wait, this.checkIntervalMs)))
+        );
+        continue;
+      }
+
+      const slice = await this.executeSlice(twap, next, sessionKey).catch(async (error) => {
+        // Cancelled between the reload and the claim
+        if ((await this.get(id)).status !== 'active') return undefined;
+        throw error;
+      });
+      if (slice) {
+        options.onSlice?.(twap, slice);
+      }
+    }
+  }
+
+  /**
+   * Quotes the slice through Ultra and executes it unless the price impact
+   * is over the TWAP's bound. A skipped, failed or unconfirmed slice is not
+   * run again.
+   */
+  async executeSlice(twap: TwapOrder, slice: TwapSlice, sessionKey: Buffer): Promise<TwapSlice> {
+    twap.startSlice(slice.index);
+    if (!(await this.repository.claimSlice(twap, slice.index))) {
+      const current = await this.get(twap.id);
+      if (current.status !== 'active') {
+        throw this.notActive(current);
+      }
+      throw new InvalidArgumentError(
+        `Slice ${slice.index + 1} of TWAP ${twap.id} is already being run by another process`,
+        { id: twap.id, slice: slice.index }
+      );
+    }
+
+    let quote: SwapQuote | undefined;
+    let result: TwapSliceResult;
+    try {
+      quote = await this.swaps.quote({
+        wallet: twap.walletId,
+        inputToken: twap.inputMint,
+        outputToken: twap.outputMint,
+        amount: TokenAmount.fromRaw(slice.inputAmount, twap.inputDecimals).toString(),
+        slippageBps: twap.slippageBps,
+        engine: 'ultra',
+      });
+
+      const impact = Math.abs(quote.priceImpactPct);
+      if (impact > twap.maxPriceImpactPct) {
+        result = {
+          status: 'skipped',
+          priceImpactPct: quote.priceImpactPct,
+          error: `Price impact ${impact.toFixed(2)}% is over the ${twap.maxPriceImpactPct}% bound`,
+        };
+      } else {
+        const execution = await this.swaps.execute(quote, sessionKey, {
+          retries: DEFAULT_SWAP_RETRIES,
+        });
+        if (!execution.signature) {
+          throw new Error(`Swap not sent (${execution.executionStatus})`);
+        }
+        result = execution.succeeded
+          ? {
+              status: 'executed',
+              outputAmount: execution.quote.outputAmount.toRawString(),
+              priceImpactPct: execution.quote.priceImpactPct,
+              signature: execution.signature,
+            }
+          : {
+              status: 'unconfirmed',
+              priceImpactPct: execution.quote.priceImpactPct,
+              signature: execution.signature,
+              error: `Swap not confirmed (${execution.confirmation?.outcome ?? execution.executionStatus}): check it with jup-cli tx status`,
+            };
+      }
+    } catch (error) {
+      LoggerService.getInstance().error(
+        'TWAP slice failed',
+        error instanceof Error ? error : undefined,
+        { twapId: twap.id, slice: slice.index }
+      );
+      result = {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        signature: failedSignatureOf(error),
+        priceImpactPct: quote?.priceImpactPct,
+      };
+    }
+
+    twap.finishSlice(slice.index, result);
+    const finished = twap.slices.find((s) => s.index === slice.index) ?? slice;
+    await this.repository.saveSlice(twap, finished);
+    LoggerService.getInstance().info(`TWAP slice ${finished.status}`, {
+      twapId: twap.id,
+      slice: slice.index,
+      signature: finished.signature,
+      error: finished.error,
+    });
+    return finished;
+  }
+
+  /**
+   * A slice whose process stopped before recording the outcome: its swap
+   * may have landed, so it is not run again.
+   */
+  private async abandonSlice(twap: TwapOrder, slice: TwapSlice): Promise<TwapSlice> {
+    twap.finishSlice(slice.index, {
+      status: 'unconfirmed',
+      error: 'Interrupted before its outcome was saved: check the wallet',
+    });
+    const finished = twap.slices.find((s) => s.index === slice.index) ?? slice;
+    await this.repository.saveSlice(twap, finished);
+    LoggerService.getInstance().warn('TWAP slice interrupted', {
+      twapId: twap.id,
+      slice: slice.index,
+    });
+    return finished;
+  }
+
+  private notActive(twap: TwapOrder): InvalidArgumentError {
+    return new InvalidArgumentError(`TWAP is ${twap.status}, not active`, {
+      id: twap.id,
+      status: twap.status,
+    });
+  }
+}
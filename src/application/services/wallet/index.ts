@@ -2,3 +2,4 @@ export * from './wallet-manager.service';
 export * from './wallet-creator.service';
 export * from './wallet-importer.service';
 export * from './wallet-exporter.service';
+export * from './wallet-signer.service';
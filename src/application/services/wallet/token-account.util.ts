@@ -0,0 +1,23 @@
+import { PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_IDS, TokenProgram } from '../../ports/blockchain.port';
+
+export const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+
+/**
+ * The wallet's associated token account for a mint. The address differs
+ * between the SPL Token and Token-2022 programs.
+ */
+export function getAssociatedTokenAddress(
+  owner: string,
+  mint: string,
+  program: TokenProgram
+): string {
+  return PublicKey.findProgramAddressSync(
+    [
+      new PublicKey(owner).toBuffer(),
+      new PublicKey(TOKEN_PROGRAM_IDS[program]).toBuffer(),
+      new PublicKey(mint).toBuffer(),
+    ],
+    new PublicKey(ASSOCIATED_TOKEN_PROGRAM_ID)
+  )[0].toBase58();
+}
@@ -0,0 +1,142 @@
+import Big from 'big.js';
+import { ParsedTransaction } from '../../ports/blockchain.port';
+import { ActivityKind, BalanceChange } from '../../../domain/entities/wallet-activity.entity';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const SOL_DECIMALS = 9;
+
+// Jupiter Trigger (limit order) and Recurring (DCA) programs, which hold orders in escrow
+export const JUPITER_ORDER_PROGRAMS = new Set([
+  'j1o2qRpjcyUwEvwtcfhEQefh773ZgjxcVRry7LDqg5X',
+  'jupoNjAxXgZ4rjzxzPMP4oxduvQsQtZzyknqvzYNrNu',
+  'DCA265Vj8a9CEuX1eb1LWRnDT7uK6q1xMipnNyatn23M',
+]);
+
+type TransactionMeta = NonNullable<ParsedTransaction['meta']>;
+
+export interface ClassifiedTransaction {
+  kind: ActivityKind;
+  changes: BalanceChange[];
+  fee: number; // Lamports, only when the wallet paid the fee
+  failed: boolean;
+}
+
+/**
+ * Pure function: compute the wallet's net balance changes in a transaction
+ * from pre/post balances and classify it.
+ *
+ * Native SOL and wrapped SOL are merged, and the fee and the rent of token
+ * accounts opened or closed are left out, so that a plain transfer is not
+ * mistaken for a swap against SOL. Transactions of the Jupiter order
+ * programs are `order`, not transfers: tokens go to or come back from the
+ * order's escrow, still the wallet's.
+ */
+export function classifyTransaction(
+  tx: ParsedTransaction,
+  walletAddress: string
+): ClassifiedTransaction {
+  const accountKeys = tx.transaction.message.accountKeys;
+  const meta = tx.meta;
+
+  if (!meta) {
+    return { kind: 'unknown', changes: [], fee: 0, failed: false };
+  }
+
+  const fee = accountKeys[0]?.pubkey === walletAddress ? meta.fee : 0;
+
+  if (meta.err) {
+    return { kind: fee > 0 ? 'fee' : 'unknown', changes: [], fee, failed: true };
+  }
+
+  const deltas = new Map<string, { amount: Big; decimals: number }>();
+  const addDelta = (mint: string, amount: Big, decimals: number) => {
+    const current = deltas.get(mint);
+    deltas.set(mint, {
+      amount: (current?.amount ?? new Big(0)).plus(amount),
+      decimals,
+    });
+  };
+
+  const walletIndex = accountKeys.findIndex((key) => key.pubkey === walletAddress);
+  if (walletIndex >= 0) {
+    const pre = meta.preBalances[walletIndex] ?? 0;
+    const post = meta.postBalances[walletIndex] ?? 0;
+    const rent = tokenAccountRent(meta, walletAddress, walletIndex === 0);
+    addDelta(SOL_MINT, new Big(post).minus(pre).plus(fee).plus(rent), SOL_DECIMALS);
+  }
+
+  for (const balance of meta.preTokenBalances ?? []) {
+    if (balance.owner !== walletAddress) continue;
+    addDelta(
+      balance.mint,
+      new Big(balance.uiTokenAmount.amount).neg(),
+      balance.uiTokenAmount.decimals
+    );
+  }
+  for (const balance of meta.postTokenBalances ?? []) {
+    if (balance.owner !== walletAddress) continue;
+    addDelta(balance.mint, new Big(balance.uiTokenAmount.amount), balance.uiTokenAmount.decimals);
+  }
+
+  const changes: BalanceChange[] = [...deltas]
+    .filter(([, d]) => !d.amount.eq(0))
+    .map(([mint, d]) => ({ mint, amount: d.amount.toFixed(0), decimals: d.decimals }));
+
+  const kind = tx.transaction.message.instructions.some((i) =>
+    JUPITER_ORDER_PROGRAMS.has(i.programId)
+  )
+    ? 'order'
+    : classify(changes, fee);
+  return { kind, changes, fee, failed: false };
+}
+
+/**
+ * Lamports the wallet paid as rent for token accounts created in the
+ * transaction, less those it got back from its token accounts closed in it.
+ * New accounts are funded by the fee payer; a closed account's rent goes
+ * back to its owner. Wrapped SOL in the accounts is already counted through
+ * token balances.
+ */
+function tokenAccountRent(meta: TransactionMeta, walletAddress: string, feePayer: boolean): Big {
+  const accounts = new Map<number, { owner?: string; wrapped: { pre: Big; post: Big } }>();
+  const track = (balances: TransactionMeta['preTokenBalances'], side: 'pre' | 'post') => {
+    for (const balance of balances ?? []) {
+      const account = accounts.get(balance.accountIndex) ?? {
+        owner: balance.owner,
+        wrapped: { pre: new Big(0), post: new Big(0) },
+      };
+      if (balance.mint === SOL_MINT) {
+        account.wrapped[side] = new Big(balance.uiTokenAmount.amount);
+      }
+      accounts.set(balance.accountIndex, account);
+    }
+  };
+  track(meta.preTokenBalances, 'pre');
+  track(meta.postTokenBalances, 'post');
+
+  let rent = new Big(0);
+  for (const [index, { owner, wrapped }] of accounts) {
+    const pre = meta.preBalances[index] ?? 0;
+    const post = meta.postBalances[index] ?? 0;
+    if (pre === 0 && post > 0 && feePayer) {
+      rent = rent.plus(new Big(post).minus(wrapped.post));
+    } else if (pre > 0 && post === 0 && owner === walletAddress) {
+      rent = rent.minus(new Big(pre).minus(wrapped.pre));
+    }
+  }
+  return rent;
+}
+
+function classify(changes: BalanceChange[], fee: number): ActivityKind {
+  const inflows = changes.filter((c) => !c.amount.startsWith('-')).length;
+  const outflows = changes.length - inflows;
+
+  if (changes.length === 0) {
+    return fee > 0 ? 'fee' : 'unknown';
+  }
+  if (inflows > 0 && outflows > 0) {
+    // Multi-leg transactions (LP deposits, batched swaps) are left for review
+    return inflows === 1 && outflows === 1 ? 'swap' : 'unknown';
+  }
+  return inflows > 0 ? 'transfer_in' : 'transfer_out';
+}
@@ -0,0 +1,191 @@
+import { randomUUID } from 'crypto';
+import { SignatureInfo, TransactionHistoryPort } from '../../ports/blockchain.port';
+import { WalletActivity } from '../../../domain/entities/wallet-activity.entity';
+import { SyncCursor } from '../../../domain/entities/sync-cursor.entity';
+import { WalletActivityRepository } from '../../../domain/repositories/wallet-activity.repository';
+import { SyncCursorRepository } from '../../../domain/repositories/sync-cursor.repository';
+import { TokenInfoProvider } from '../token-info.service';
+import { TradeService, isRecentExecution } from '../trade/trade.service';
+import { classifyTransaction } from './transaction-classifier';
+import { LoggerService } from '../../../core/logger/logger.service';
+
+const SYNC_SOURCE = 'signatures';
+const SIGNATURE_PAGE_SIZE = 1000;
+const DEFAULT_MAX_SIGNATURES = 1000;
+
+export interface HistorySyncOptions {
+  maxSignatures?: number; // Depth of the first sync only; later syncs always reach the checkpoint
+  onProgress?: (processed: number, total: number) => void;
+}
+
+export interface HistorySyncResult {
+  imported: WalletActivity[];
+  tradesRecorded: number;
+  alreadyImported: number;
+  scanned: number;
+  complete: boolean; // false if the RPC failed mid-way; the next run resumes
+  checkpoint?: string;
+}
+
+/**
+ * Imports on-chain activity made outside the CLI (deposits, withdrawals,
+ * swaps on other frontends) into local history.
+ *
+ * Signatures are collected newest first back to the checkpoint, then
+ * processed oldest first so the checkpoint can advance after every
+ * transaction. An interrupted sync resumes where it stopped, and each
+ * signature is imported at most once per wallet.
+ */
+export class WalletHistorySyncService {
+  constructor(
+    private history: TransactionHistoryPort,
+    private activityRepo: WalletActivityRepository,
+    private syncCursorRepo: SyncCursorRepository,
+    private tradeService: TradeService,
+    private tokenInfoProvider: TokenInfoProvider
+  ) {}
+
+  async syncHistory(
+    walletId: string,
+    walletAddress: string,
+    options: HistorySyncOptions = {}
+  ): Promise<HistorySyncResult> {
+    const cursor =
+      (await this.syncCursorRepo.find(walletId, SYNC_SOURCE)) ??
+      new SyncCursor(walletId, SYNC_SOURCE);
+
+    const signatures = await this.collectSignatures(
+      walletAddress,
+      cursor.cursor,
+      cursor.cursor ? undefined : (options.maxSignatures ?? DEFAULT_MAX_SIGNATURES)
+    );
+
+    const result: HistorySyncResult = {
+      imported: [],
+      tradesRecorded: 0,
+      alreadyImported: 0,
+      scanned: signatures.length,
+      complete: true,
+      checkpoint: cursor.cursor,
+    };
+
+    // Oldest first, so the checkpoint never skips over unprocessed signatures
+    for (const [index, info] of [...signatures].reverse().entries()) {
+      if (await this.activityRepo.exists(walletId, info.signature)) {
+        result.alreadyImported++;
+      } else {
+        const activity = await this.importTransaction(walletId, walletAddress, info);
+        if (!activity) {
+          result.complete = false;
+          break;
+        }
+        result.imported.push(activity);
+        if (activity.kind === 'swap' && (await this.recordSwap(activity))) {
+          result.tradesRecorded++;
+        }
+      }
+
+      cursor.advance(info.signature);
+      await this.syncCursorRepo.save(cursor);
+      result.checkpoint = info.signature;
+      options.onProgress?.(index + 1, signatures.length);
+    }
+
+    LoggerService.getInstance().info(
+      `History sync for ${walletAddress}: ${result.imported.length} imported, ${result.alreadyImported} already imported`
+    );
+
+    return result;
+  }
+
+  private async collectSignatures(
+    walletAddress: string,
+    until?: string,
+    max?: number
+  ): Promise<SignatureInfo[]> {
+    const signatures: SignatureInfo[] = [];
+    let before: string | undefined;
+
+    while (max === undefined || signatures.length < max) {
+      const limit =
+        max === undefined
+          ? SIGNATURE_PAGE_SIZE
+          : Math.min(SIGNATURE_PAGE_SIZE, max - signatures.length);
+      const page = await this.history.getSignaturesForAddress(walletAddress, {
+        before,
+        until,
+        limit,
+      });
+
+      signatures.push(...page);
+      if (page.length < limit) break;
+      before = page[page.length - 1]?.signature;
+    }
+
+    return signatures;
+  }
+
+  private async importTransaction(
+    walletId: string,
+    walletAddress: string,
+    info: SignatureInfo
+  ): Promise<WalletActivity | null> {
+    const tx = await this.history.getParsedTransaction(info.signature);
+    if (!tx) {
+      LoggerService.getInstance().warn(`Could not fetch transaction ${info.signature}`);
+      return null;
+    }
+
+    const classified = classifyTransaction(tx, walletAddress);
+    const blockTime = tx.blockTime ?? info.blockTime;
+
+    const activity = new WalletActivity(
+      randomUUID(),
+      walletId,
+      info.signature,
+      classified.kind,
+      tx.slot,
+      blockTime ? new Date(blockTime * 1000) : new Date(),
+      classified.changes,
+      classified.fee,
+      classified.failed
+    );
+
+    return this.activityRepo.create(activity);
+  }
+
+  /**
+   * Mirror a detected swap into trade history, unless the CLI already
+   * recorded it when executing.
+   */
+  private async recordSwap(activity: WalletActivity): Promise<boolean> {
+    const [input] = activity.outflows;
+    const [output] = activity.inflows;
+    if (!input || !output || (await this.tradeService.isTradeRecorded(activity.signature))) {
+      return false;
+    }
+
+    const [inputInfo, outputInfo] = await Promise.all([
+      this.tokenInfoProvider.getTokenInfo(input.mint),
+      this.tokenInfoProvider.getTokenInfo(output.mint),
+    ]);
+
+    await this.tradeService.recordTrade({
+      walletId: activity.walletId,
+      type: 'swap',
+      inputMint: input.mint,
+      outputMint: output.mint,
+      inputSymbol: inputInfo?.symbol,
+      outputSymbol: outputInfo?.symbol,
+      inputAmount: input.amount.slice(1),
+      outputAmount: output.amount,
+      inputDecimals: input.decimals,
+      outputDecimals: output.decimals,
+      signature: activity.signature,
+      executedAt: activity.blockTime,
+      fetchPrices: isRecentExecution(activity.blockTime),
+    });
+
+    return true;
+  }
+}
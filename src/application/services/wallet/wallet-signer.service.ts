@@ -0,0 +1,53 @@
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { Wallet } from '../../../domain/entities/wallet.entity';
+import { KeyEncryptionService, keyEncryptionService } from '../security/key-encryption.service';
+
+/**
+ * Signs base64 transactions returned by Jupiter with a wallet's private key.
+ * The key is decrypted with the session key and wiped after signing.
+ */
+export class WalletSignerService {
+  constructor(private keyEncryption: KeyEncryptionService = keyEncryptionService) {}
+
+  async signTransaction(wallet: Wallet, transaction: string, sessionKey: Buffer): Promise<string> {
+    return this.withKeypair(wallet, sessionKey, (keypair) => this.sign(transaction, keypair));
+  }
+
+  async signTransactions(
+    wallet: Wallet,
+    transactions: string[],
+    sessionKey: Buffer
+  ): Promise<string[]> {
+    return this.withKeypair(wallet, sessionKey, (keypair) =>
+      transactions.map((tx) => this.sign(tx, keypair))
+    );
+  }
+
+  private sign(transaction: string, keypair: Keypair): string {
+    const tx = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+    tx.sign([keypair]);
+    return Buffer.from(tx.serialize()).toString('base64');
+  }
+
+  private async withKeypair<T>(
+    wallet: Wallet,
+    sessionKey: Buffer,
+    fn: (keypair: Keypair) => T
+  ): Promise<T> {
+    const privateKeyBase58 = await this.keyEncryption.decryptPrivateKey(
+      wallet.encryptedKey,
+      wallet.keyNonce,
+      wallet.keySalt,
+      wallet.keyAuthTag,
+      sessionKey
+    );
+
+    const privateKeyBytes = bs58.decode(privateKeyBase58);
+    try {
+      return fn(Keypair.fromSecretKey(privateKeyBytes));
+    } finally {
+      privateKeyBytes.fill(0);
+    }
+  }
+}
@@ -1,5 +1,6 @@
+import { TokenAmount } from '../../../domain/values/token-amount';
 import { WalletRepository } from '../../../domain/repositories/wallet.repository';
-import { SolanaRpcPort } from '../../ports/blockchain.port';
+import { MintExtensions, SolanaRpcPort, TokenProgram } from '../../ports/blockchain.port';
 import { TokenInfoProvider } from '../token-info.service';
 import { WalletNotFoundError } from '../../../core/errors/wallet.errors';
 import { LoggerService } from '../../../core/logger/logger.service';
@@ -18,6 +19,8 @@ export interface WalletState {
     decimals: number;
     price: number;
     value: number;
+    program: TokenProgram | 'native';
+    extensions?: MintExtensions;
   }>;
   totalValue: number;
 }
@@ -84,21 +87,25 @@ export class WalletSyncService {
         decimals: 9,
         price,
         value,
+        program: 'native',
       });
       totalValue += value;
     }
 
     for (const token of walletTokens.tokens) {
       const price = prices.get(token.mint) || 0;
-      const value = token.uiAmount * price;
+      const amount = TokenAmount.fromRaw(token.amount, token.decimals);
+      const value = amount.times(price).toNumber();
       const tokenInfo = tokenInfoMap.get(token.mint);
       tokens.push({
         mint: token.mint,
         symbol: tokenInfo?.symbol,
-        amount: token.uiAmount,
+        amount: amount.toNumber(),
         decimals: token.decimals,
         price,
         value,
+        program: token.program,
+        extensions: token.extensions,
       });
       totalValue += value;
     }
@@ -34,9 +34,44 @@ const LoggingSchema = z.object({
   maxFiles: z.number(),
 });
 
+export const COST_BASIS_METHODS = ['average', 'fifo', 'lifo', 'hifo'] as const;
+
 const TradingSchema = z.object({
   defaultSlippageBps: z.number(),
   maxSlippageBps: z.number(),
+  costBasisMethod: z.enum(COST_BASIS_METHODS).default('average'),
+  solReserve: z.number().min(0).default(0.01),
+});
+
+// null lifts a limit; in a wallet override, an omitted key inherits the global value
+const RiskLimitsSchema = z.object({
+  maxSlippageBps: z.number().nullable().optional(),
+  maxPriceImpactPct: z.number().nullable().optional(),
+  maxUsdPerTrade: z.number().nullable().optional(),
+  maxUsdPerDay: z.number().nullable().optional(),
+  allowTokens: z.array(z.string()).optional(),
+  denyTokens: z.array(z.string()).optional(),
+  blockCriticalWarnings: z.boolean().optional(),
+});
+
+const RiskSchema = z.object({
+  maxPriceImpactPct: z.number().nullable().default(null),
+  maxUsdPerTrade: z.number().nullable().default(null),
+  maxUsdPerDay: z.number().nullable().default(null),
+  allowTokens: z.array(z.string()).default([]),
+  denyTokens: z.array(z.string()).default([]),
+  blockCriticalWarnings: z.boolean().default(true),
+  wallets: z.record(RiskLimitsSchema).default({}),
+});
+
+export const PRIORITY_FEE_MODES = ['auto', 'fixed'] as const;
+
+const PriorityFeesSchema = z.object({
+  mode: z.enum(PRIORITY_FEE_MODES).default('auto'),
+  microLamports: z.number().int().min(0).default(10_000),
+  percentile: z.number().min(0).max(100).default(75),
+  maxMicroLamports: z.number().int().min(0).default(1_000_000),
+  computeUnitMarginPct: z.number().min(0).default(10),
 });
 
 const SecuritySchema = z.object({
@@ -50,9 +85,16 @@ const ConfigurationSchema = z.object({
   solana: SolanaSchema.optional(),
   logging: LoggingSchema.optional(),
   trading: TradingSchema.optional(),
+  risk: RiskSchema.optional(),
+  priorityFees: PriorityFeesSchema.optional(),
   security: SecuritySchema.optional(),
 });
 
+/**
+ * Per-wallet risk overrides, keyed by wallet name or ID in `risk.wallets`.
+ */
+export type RiskLimits = z.infer<typeof RiskLimitsSchema>;
+
 export interface Configuration {
   paths: {
     data: string;
@@ -82,12 +124,41 @@ export interface Configuration {
   trading: {
     defaultSlippageBps: number;
     maxSlippageBps: number;
+    costBasisMethod: (typeof COST_BASIS_METHODS)[number];
+    solReserve: number; // SOL that `max` amounts leave in the wallet for fees and rent
+  };
+  // The global slippage cap is trading.maxSlippageBps
+  risk: {
+    maxPriceImpactPct: number | null;
+    maxUsdPerTrade: number | null;
+    maxUsdPerDay: number | null;
+    allowTokens: string[]; // Mint addresses; empty allows any token
+    denyTokens: string[];
+    blockCriticalWarnings: boolean;
+    wallets: Record<string, RiskLimits>;
+  };
+  // Compute budget of transactions the CLI sends over RPC itself
+  priorityFees: {
+    mode: (typeof PRIORITY_FEE_MODES)[number];
+    microLamports: number; // Fixed price per compute unit
+    percentile: number; // auto: percentile of recent fees paid on the same writable accounts
+    maxMicroLamports: number; // Cap on the price, fixed or auto
+    computeUnitMarginPct: number; // Headroom over the simulated compute units
   };
   security: {
     sessionKeyBytes: number;
   };
 }
 
+export const DEFAULT_RISK_POLICY: Readonly<Omit<Configuration['risk'], 'wallets'>> = {
+  maxPriceImpactPct: null,
+  maxUsdPerTrade: null,
+  maxUsdPerDay: null,
+  allowTokens: [],
+  denyTokens: [],
+  blockCriticalWarnings: true,
+};
+
 export class ConfigurationService {
   private config: Configuration;
   private pathManager: PathManager;
@@ -147,6 +218,16 @@ export class ConfigurationService {
       trading: {
         defaultSlippageBps: 100,
         maxSlippageBps: 500,
+        costBasisMethod: 'average',
+        solReserve: 0.01,
+      },
+      risk: { ...DEFAULT_RISK_POLICY, wallets: {} },
+      priorityFees: {
+        mode: 'auto',
+        microLamports: 10_000,
+        percentile: 75,
+        maxMicroLamports: 1_000_000,
+        computeUnitMarginPct: 10,
       },
       security: {
         sessionKeyBytes: 64,
@@ -164,6 +245,8 @@ export class ConfigurationService {
       solana: { ...defaults.solana, ...loaded.solana },
       logging: { ...defaults.logging, ...loaded.logging },
       trading: { ...defaults.trading, ...loaded.trading },
+      risk: { ...defaults.risk, ...loaded.risk },
+      priorityFees: { ...defaults.priorityFees, ...loaded.priorityFees },
       security: { ...defaults.security, ...loaded.security },
     };
   }
@@ -17,6 +17,18 @@ export class JupiterApiError extends ApiError {
   }
 }
 
+/**
+ * The order reached Jupiter but the swap did not succeed. `details.code`
+ * carries Jupiter's execution error code.
+ */
+export class SwapFailedError extends JupiterApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 400, details);
+    this.code = 'SWAP_FAILED';
+    this.name = 'SwapFailedError';
+  }
+}
+
 export class RateLimitError extends ApiError {
   constructor(retryAfter?: number) {
     super('Rate limit exceeded', 'RATE_LIMIT_EXCEEDED', 429, { retryAfter });
@@ -0,0 +1,75 @@
+export class CliError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export class NotInitializedError extends CliError {
+  constructor() {
+    super('Jup CLI is not initialized. Run "jup-cli init" first.', 'NOT_INITIALIZED');
+    this.name = 'NotInitializedError';
+  }
+}
+
+export class JupiterApiKeyMissingError extends CliError {
+  constructor() {
+    super(
+      'Jupiter API key not configured. Run "jup-cli config set-jupiter-key".',
+      'JUPITER_API_KEY_MISSING'
+    );
+    this.name = 'JupiterApiKeyMissingError';
+  }
+}
+
+export class InteractionRequiredError extends CliError {
+  constructor(what: string, flag: string) {
+    super(
+      `${what} requires a prompt; pass ${flag} in non-interactive output`,
+      'INTERACTION_REQUIRED',
+      {
+        flag,
+      }
+    );
+    this.name = 'InteractionRequiredError';
+  }
+}
+
+export class InvalidArgumentError extends CliError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'INVALID_ARGUMENT', details);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+export class ApiTokenNotFoundError extends CliError {
+  constructor(name: string) {
+    super(`API token "${name}" not found`, 'API_TOKEN_NOT_FOUND', { name });
+    this.name = 'ApiTokenNotFoundError';
+  }
+}
+
+export class ConditionalOrderNotFoundError extends CliError {
+  constructor(id: string) {
+    super(`Conditional order "${id}" not found`, 'CONDITIONAL_ORDER_NOT_FOUND', { id });
+    this.name = 'ConditionalOrderNotFoundError';
+  }
+}
+
+export class TwapNotFoundError extends CliError {
+  constructor(id: string) {
+    super(`TWAP "${id}" not found`, 'TWAP_NOT_FOUND', { id });
+    this.name = 'TwapNotFoundError';
+  }
+}
+
+export class RecurringOrderNotFoundError extends CliError {
+  constructor(orderKey: string) {
+    super(`No active recurring order "${orderKey}"`, 'RECURRING_ORDER_NOT_FOUND', { orderKey });
+    this.name = 'RecurringOrderNotFoundError';
+  }
+}
@@ -0,0 +1,63 @@
+import { ApiError } from './api.errors';
+
+/**
+ * Process exit codes. Stable across releases: scripts may branch on them.
+ */
+export enum ExitCode {
+  SUCCESS = 0,
+  GENERAL_ERROR = 1,
+  USAGE_ERROR = 2,
+  NOT_CONFIGURED = 3,
+  INVALID_PASSWORD = 4,
+  WALLET_NOT_FOUND = 5,
+  TOKEN_NOT_FOUND = 6,
+  RATE_LIMITED = 7,
+  NETWORK_ERROR = 8,
+  API_ERROR = 9,
+  SWAP_FAILED = 10,
+  POLICY_REFUSED = 11,
+  UNSAFE_TRANSACTION = 12,
+  SIMULATION_FAILED = 13,
+  INSUFFICIENT_BALANCE = 14,
+}
+
+/**
+ * Error `code` → exit code. Codes not listed here exit with GENERAL_ERROR,
+ * except other ApiErrors which exit with API_ERROR.
+ */
+export const EXIT_CODES_BY_ERROR_CODE: Readonly<Record<string, ExitCode>> = {
+  INVALID_ARGUMENT: ExitCode.USAGE_ERROR,
+  INTERACTION_REQUIRED: ExitCode.USAGE_ERROR,
+  INVALID_WALLET_NAME: ExitCode.USAGE_ERROR,
+  INVALID_PRIVATE_KEY: ExitCode.USAGE_ERROR,
+  INVALID_AMOUNT: ExitCode.USAGE_ERROR,
+  NOT_INITIALIZED: ExitCode.NOT_CONFIGURED,
+  JUPITER_API_KEY_MISSING: ExitCode.NOT_CONFIGURED,
+  MASTER_PASSWORD_NOT_SET: ExitCode.NOT_CONFIGURED,
+  SESSION_KEY_NOT_INITIALIZED: ExitCode.NOT_CONFIGURED,
+  INVALID_MASTER_PASSWORD: ExitCode.INVALID_PASSWORD,
+  WALLET_NOT_FOUND: ExitCode.WALLET_NOT_FOUND,
+  TOKEN_NOT_FOUND: ExitCode.TOKEN_NOT_FOUND,
+  RATE_LIMIT_EXCEEDED: ExitCode.RATE_LIMITED,
+  NETWORK_ERROR: ExitCode.NETWORK_ERROR,
+  JUPITER_API_ERROR: ExitCode.API_ERROR,
+  SWAP_FAILED: ExitCode.SWAP_FAILED,
+  TRANSACTION_FAILED: ExitCode.SWAP_FAILED,
+  TRANSACTION_EXPIRED: ExitCode.SWAP_FAILED,
+  RISK_POLICY_VIOLATION: ExitCode.POLICY_REFUSED,
+  UNSAFE_TRANSACTION: ExitCode.UNSAFE_TRANSACTION,
+  SIMULATION_FAILED: ExitCode.SIMULATION_FAILED,
+  INSUFFICIENT_BALANCE: ExitCode.INSUFFICIENT_BALANCE,
+};
+
+export function getExitCode(error: unknown): ExitCode {
+  const code =
+    error instanceof Error && 'code' in error && typeof error.code === 'string'
+      ? error.code
+      : undefined;
+
+  if (code && code in EXIT_CODES_BY_ERROR_CODE) {
+    return EXIT_CODES_BY_ERROR_CODE[code] ?? ExitCode.GENERAL_ERROR;
+  }
+  return error instanceof ApiError ? ExitCode.API_ERROR : ExitCode.GENERAL_ERROR;
+}
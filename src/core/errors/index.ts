@@ -1,3 +1,7 @@
 export * from './wallet.errors';
 export * from './api.errors';
 export * from './token.errors';
+export * from './cli.errors';
+export * from './risk.errors';
+export * from './transaction.errors';
+export * from './exit-codes';
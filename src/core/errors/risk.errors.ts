@@ -0,0 +1,29 @@
+export type RiskRule =
+  | 'max-slippage'
+  | 'max-price-impact'
+  | 'max-usd-per-trade'
+  | 'max-usd-per-day'
+  | 'token-not-allowed'
+  | 'token-denied'
+  | 'critical-warning'
+  | 'unpriced-trade'
+  | 'shield-unavailable';
+
+export interface RiskViolation {
+  rule: RiskRule;
+  message: string;
+  limit?: number;
+  actual?: number;
+  mint?: string;
+}
+
+export class RiskPolicyViolationError extends Error {
+  public code = 'RISK_POLICY_VIOLATION';
+  public details: { violations: RiskViolation[] };
+
+  constructor(violations: RiskViolation[]) {
+    super(`Refused by risk policy: ${violations.map((v) => v.message).join('; ')}`);
+    this.name = 'RiskPolicyViolationError';
+    this.details = { violations };
+  }
+}
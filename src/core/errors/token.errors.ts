@@ -15,3 +15,21 @@ export class TokenNotFoundError extends TokenError {
     this.name = 'TokenNotFoundError';
   }
 }
+
+export class InvalidAmountError extends TokenError {
+  constructor(amount: string, reason: string) {
+    super(`Invalid amount "${amount}": ${reason}`, 'INVALID_AMOUNT', { amount });
+    this.name = 'InvalidAmountError';
+  }
+}
+
+export class InsufficientBalanceError extends TokenError {
+  constructor(symbol: string, required: string, available: string) {
+    super(
+      `Insufficient ${symbol} balance: up to ${required} ${symbol} may be spent, the wallet holds ${available}`,
+      'INSUFFICIENT_BALANCE',
+      { symbol, required, available }
+    );
+    this.name = 'InsufficientBalanceError';
+  }
+}
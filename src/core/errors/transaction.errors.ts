@@ -0,0 +1,79 @@
+export type TransactionCheck =
+  | 'undecodable'
+  | 'unresolved-lookup-table'
+  | 'unknown-program'
+  | 'unexpected-instruction'
+  | 'undeclared-outflow'
+  | 'outflow-exceeds-input'
+  | 'token-delegation'
+  | 'authority-change';
+
+export interface TransactionViolation {
+  check: TransactionCheck;
+  message: string;
+  instruction?: number; // Index in the transaction's instructions
+}
+
+export class UnsafeTransactionError extends Error {
+  public code = 'UNSAFE_TRANSACTION';
+  public details: { violations: TransactionViolation[] };
+
+  constructor(violations: TransactionViolation[]) {
+    super(`Refused to sign transaction: ${violations.map((v) => v.message).join('; ')}`);
+    this.name = 'UnsafeTransactionError';
+    this.details = { violations };
+  }
+}
+
+export type SimulationFailureReason = 'insufficient-balance' | 'missing-token-account' | 'failed';
+
+export class SimulationFailedError extends Error {
+  public code = 'SIMULATION_FAILED';
+  public details: { reason: SimulationFailureReason; err: unknown; logs: string[] };
+
+  constructor(reason: SimulationFailureReason, message: string, err: unknown, logs: string[]) {
+    super(`Simulation failed: ${message}`);
+    this.name = 'SimulationFailedError';
+    this.details = { reason, err, logs };
+  }
+}
+
+/**
+ * Thrown after a sent transaction landed with an error, which `message`
+ * decodes. `code` is the custom program error, if any. The trade is recorded
+ * as failed first; `recorded` is false when that did not work.
+ */
+export class TransactionFailedError extends Error {
+  public code = 'TRANSACTION_FAILED';
+  public details: {
+    signature: string;
+    code: number | null;
+    instruction: number | null;
+    programId: string | null;
+    logs: string[];
+    recorded: boolean;
+  };
+
+  constructor(message: string, details: TransactionFailedError['details']) {
+    super(`Transaction failed on-chain: ${message}`);
+    this.name = 'TransactionFailedError';
+    this.details = details;
+  }
+}
+
+/**
+ * Thrown when no attempt landed before its blockhash expired, re-quoted
+ * retries included. Expired transactions never land, so nothing was spent.
+ */
+export class TransactionExpiredError extends Error {
+  public code = 'TRANSACTION_EXPIRED';
+  public details: { signature: string | null; attempts: number };
+
+  constructor(signature: string | null, attempts: number) {
+    super(
+      `Transaction expired without landing after ${attempts} attempt${attempts === 1 ? '' : 's'}`
+    );
+    this.name = 'TransactionExpiredError';
+    this.details = { signature, attempts };
+  }
+}
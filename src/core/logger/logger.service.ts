@@ -64,13 +64,15 @@ export class LoggerService {
       });
     }
 
-    // Console output (verbose mode only)
+    // Console output (verbose mode only), on stderr so it never mixes with
+    // JSON output or the MCP protocol on stdout
     if (logToConsole) {
       streams.push({
         level: logLevel,
         stream: pino.transport({
           target: 'pino-pretty',
           options: {
+            destination: 2,
             colorize: true,
             translateTime: 'SYS:yyyy-mm-dd HH:MM:ss',
             ignore: 'pid,hostname',
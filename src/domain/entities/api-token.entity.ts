@@ -0,0 +1,54 @@
+/**
+ * What an API token may do on the local server:
+ * - read: wallets, balances, prices, tokens and orders
+ * - swap: sign and execute swaps
+ * - orders: sign limit order creation and cancellation
+ */
+export type ApiPermission = 'read' | 'swap' | 'orders';
+
+export const API_PERMISSIONS: readonly ApiPermission[] = ['read', 'swap', 'orders'];
+
+export class ApiToken {
+  private _lastUsedAt?: Date;
+
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly tokenHash: string,
+    public readonly permissions: readonly ApiPermission[],
+    public readonly createdAt: Date = new Date(),
+    lastUsedAt?: Date
+  ) {
+    this.validateName(name);
+    this.validatePermissions(permissions);
+    this._lastUsedAt = lastUsedAt;
+  }
+
+  get lastUsedAt(): Date | undefined {
+    return this._lastUsedAt;
+  }
+
+  can(permission: ApiPermission): boolean {
+    return this.permissions.includes(permission);
+  }
+
+  markUsed(): void {
+    this._lastUsedAt = new Date();
+  }
+
+  private validateName(name: string): void {
+    if (!name || name.trim().length === 0) {
+      throw new Error('API token name cannot be empty');
+    }
+  }
+
+  private validatePermissions(permissions: readonly ApiPermission[]): void {
+    if (permissions.length === 0) {
+      throw new Error('API token needs at least one permission');
+    }
+    const unknown = permissions.filter((p) => !API_PERMISSIONS.includes(p));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown API permission: ${unknown.join(', ')}`);
+    }
+  }
+}
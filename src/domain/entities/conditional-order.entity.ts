@@ -0,0 +1,210 @@
+import Big from 'big.js';
+
+/**
+ * Conditions on the USD price of the input token:
+ * - stop_loss: sells when the price falls to `triggerPrice`
+ * - take_profit: sells when the price rises to `triggerPrice`
+ * - trailing_stop: sells when the price falls `trailPct` below the highest price seen
+ */
+export type ConditionalOrderKind = 'stop_loss' | 'take_profit' | 'trailing_stop';
+
+/**
+ * active → triggered → executed | failed, or active → cancelled. A triggered
+ * order is not executed again: if the watcher stopped mid-swap, check the
+ * wallet before adding a new order.
+ */
+export type ConditionalOrderStatus = 'active' | 'triggered' | 'executed' | 'failed' | 'cancelled';
+
+export const CONDITIONAL_ORDER_KINDS: readonly ConditionalOrderKind[] = [
+  'stop_loss',
+  'take_profit',
+  'trailing_stop',
+];
+
+const STATUSES: readonly ConditionalOrderStatus[] = [
+  'active',
+  'triggered',
+  'executed',
+  'failed',
+  'cancelled',
+];
+
+const PRICE_PATTERN = /^\d+(\.\d+)?(e[+-]?\d+)?$/i;
+
+export type ConditionalOrderEventType =
+  | 'created'
+  | 'triggered'
+  | 'executed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * One line of an order's durable log.
+ */
+export interface ConditionalOrderEvent {
+  id: string;
+  orderId: string;
+  type: ConditionalOrderEventType;
+  price?: string; // USD price of the input token when the event happened
+  message: string;
+  signature?: string;
+  createdAt: Date;
+}
+
+export class ConditionalOrder {
+  public readonly triggerPrice?: string;
+  public readonly trailPct?: number;
+  public readonly ocoGroupId?: string;
+  public readonly createdAt: Date;
+
+  private _status: ConditionalOrderStatus;
+  private _highestPrice?: string;
+  private _signature?: string;
+  private _error?: string;
+  private _triggeredAt?: Date;
+  private _updatedAt: Date;
+
+  constructor(
+    public readonly id: string,
+    public readonly walletId: string,
+    public readonly kind: ConditionalOrderKind,
+    public readonly inputMint: string,
+    public readonly outputMint: string,
+    public readonly amount: string, // As typed: token units, or "50%", "max", "$250"
+    public readonly slippageBps: number,
+    options: {
+      triggerPrice?: string; // stop_loss and take_profit
+      trailPct?: number; // trailing_stop
+      highestPrice?: string; // trailing_stop
+      ocoGroupId?: string; // Orders sharing a group cancel each other when one triggers
+      status?: ConditionalOrderStatus;
+      signature?: string;
+      error?: string;
+      createdAt?: Date;
+      triggeredAt?: Date;
+      updatedAt?: Date;
+    }
+  ) {
+    this.validateId(id);
+    if (!CONDITIONAL_ORDER_KINDS.includes(kind)) {
+      throw new Error(`Invalid conditional order kind: ${kind}`);
+    }
+    if (inputMint === outputMint) {
+      throw new Error('Input and output mints must be different');
+    }
+    if (kind === 'trailing_stop') {
+      const trailPct = options.trailPct;
+      if (trailPct === undefined || !(trailPct > 0 && trailPct < 100)) {
+        throw new Error('A trailing stop needs a trail between 0 and 100 percent');
+      }
+      this.validatePrice(options.highestPrice);
+    } else {
+      this.validatePrice(options.triggerPrice);
+    }
+    const status = options.status ?? 'active';
+    if (!STATUSES.includes(status)) {
+      throw new Error(`Invalid conditional order status: ${status}`);
+    }
+
+    this.triggerPrice = options.triggerPrice;
+    this.trailPct = options.trailPct;
+    this.ocoGroupId = options.ocoGroupId;
+    this.createdAt = options.createdAt ?? new Date();
+    this._status = status;
+    this._highestPrice = options.highestPrice;
+    this._signature = options.signature;
+    this._error = options.error;
+    this._triggeredAt = options.triggeredAt;
+    this._updatedAt = options.updatedAt ?? this.createdAt;
+  }
+
+  get status(): ConditionalOrderStatus {
+    return this._status;
+  }
+
+  get highestPrice(): string | undefined {
+    return this._highestPrice;
+  }
+
+  get signature(): string | undefined {
+    return this._signature;
+  }
+
+  get error(): string | undefined {
+    return this._error;
+  }
+
+  get triggeredAt(): Date | undefined {
+    return this._triggeredAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  /**
+   * Price at which the order triggers: the fixed trigger, or the trail below
+   * the highest price seen so far.
+   */
+  get stopPrice(): Big {
+    if (this.kind === 'trailing_stop') {
+      return new Big(this._highestPrice ?? 0).times(100 - (this.trailPct ?? 0)).div(100);
+    }
+    return new Big(this.triggerPrice ?? 0);
+  }
+
+  /**
+   * Moves a trailing stop up with the price. Returns true when it moved.
+   */
+  observe(price: Big): boolean {
+    if (this.kind !== 'trailing_stop' || this._status !== 'active') return false;
+    if (this._highestPrice !== undefined && price.lte(this._highestPrice)) return false;
+    this._highestPrice = price.toString();
+    this._updatedAt = new Date();
+    return true;
+  }
+
+  isTriggeredAt(price: Big): boolean {
+    if (this._status !== 'active') return false;
+    return this.kind === 'take_profit' ? price.gte(this.stopPrice) : price.lte(this.stopPrice);
+  }
+
+  trigger(): void {
+    this.transition(['active'], 'triggered');
+    this._triggeredAt = this._updatedAt;
+  }
+
+  markExecuted(signature: string): void {
+    this.transition(['triggered'], 'executed');
+    this._signature = signature;
+  }
+
+  markFailed(error: string): void {
+    this.transition(['triggered'], 'failed');
+    this._error = error;
+  }
+
+  cancel(): void {
+    this.transition(['active'], 'cancelled');
+  }
+
+  private transition(from: ConditionalOrderStatus[], to: ConditionalOrderStatus): void {
+    if (!from.includes(this._status)) {
+      throw new Error(`Cannot move a ${this._status} conditional order to ${to}`);
+    }
+    this._status = to;
+    this._updatedAt = new Date();
+  }
+
+  private validateId(id: string): void {
+    if (!id || id.trim().length === 0) {
+      throw new Error('Conditional order ID cannot be empty');
+    }
+  }
+
+  private validatePrice(price: string | undefined): void {
+    if (price === undefined || !PRICE_PATTERN.test(price) || new Big(price).lte(0)) {
+      throw new Error(`Invalid conditional order price: ${price}`);
+    }
+  }
+}
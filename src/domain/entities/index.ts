@@ -1,2 +1,10 @@
 export * from './wallet.entity';
 export * from './token-info.entity';
+export * from './trade.entity';
+export * from './sync-cursor.entity';
+export * from './wallet-activity.entity';
+export * from './portfolio-snapshot.entity';
+export * from './api-token.entity';
+export * from './conditional-order.entity';
+export * from './twap-order.entity';
+export * from './order-commitment.entity';
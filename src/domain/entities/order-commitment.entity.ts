@@ -0,0 +1,23 @@
+export type CommitmentSource = 'limit_order' | 'recurring_order';
+
+/**
+ * USD value an order committed when it was created. Orders fill later, so
+ * the daily risk limit counts them from here rather than from their fills.
+ */
+export class OrderCommitment {
+  constructor(
+    public readonly walletId: string,
+    public readonly source: CommitmentSource,
+    public readonly orderKey: string | null,
+    public readonly usdValue: string,
+    public readonly createdAt: Date = new Date()
+  ) {
+    this.validateWalletId(walletId);
+  }
+
+  private validateWalletId(walletId: string): void {
+    if (!walletId || walletId.trim().length === 0) {
+      throw new Error('Order commitment wallet ID cannot be empty');
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import Big from 'big.js';
+
+/**
+ * Holding of one mint in one wallet at snapshot time.
+ * Amounts and USD figures are decimal strings.
+ */
+export interface SnapshotItem {
+  walletId: string;
+  walletName: string;
+  mint: string;
+  symbol?: string;
+  amount: string;
+  usdPrice: string;
+  usdValue: string;
+}
+
+export class PortfolioSnapshot {
+  private _items: SnapshotItem[];
+
+  constructor(
+    public readonly id: string,
+    public readonly takenAt: Date,
+    items: SnapshotItem[]
+  ) {
+    this.validateId(id);
+    items.forEach((item) => this.validateItem(item));
+    this._items = items;
+  }
+
+  get items(): SnapshotItem[] {
+    return this._items.map((item) => ({ ...item }));
+  }
+
+  get totalValue(): Big {
+    return this._items.reduce((sum, item) => sum.plus(item.usdValue), new Big(0));
+  }
+
+  get walletIds(): string[] {
+    return [...new Set(this._items.map((item) => item.walletId))];
+  }
+
+  valueOfWallet(walletId: string): Big {
+    return this._items
+      .filter((item) => item.walletId === walletId)
+      .reduce((sum, item) => sum.plus(item.usdValue), new Big(0));
+  }
+
+  priceOf(mint: string): Big | undefined {
+    const item = this._items.find((i) => i.mint === mint && new Big(i.usdPrice).gt(0));
+    return item ? new Big(item.usdPrice) : undefined;
+  }
+
+  private validateId(id: string): void {
+    if (!id || id.trim().length === 0) {
+      throw new Error('Snapshot ID cannot be empty');
+    }
+  }
+
+  private validateItem(item: SnapshotItem): void {
+    if (!item.walletId || !item.mint) {
+      throw new Error('Snapshot item requires a wallet ID and a mint');
+    }
+    for (const value of [item.amount, item.usdPrice, item.usdValue]) {
+      if (!/^\d+(\.\d+)?(e[+-]?\d+)?$/i.test(value)) {
+        throw new Error(`Invalid snapshot amount: ${value}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,38 @@
+export type SyncSource = 'trigger_orders' | 'recurring_orders' | 'signatures';
+
+export class SyncCursor {
+  private _cursor?: string;
+  private _lastSyncedAt: Date;
+
+  constructor(
+    public readonly walletId: string,
+    public readonly source: SyncSource,
+    cursor?: string,
+    lastSyncedAt?: Date
+  ) {
+    this.validateWalletId(walletId);
+    this._cursor = cursor;
+    this._lastSyncedAt = lastSyncedAt ?? new Date(0);
+  }
+
+  get cursor(): string | undefined {
+    return this._cursor;
+  }
+
+  get lastSyncedAt(): Date {
+    return this._lastSyncedAt;
+  }
+
+  advance(cursor: string | undefined): void {
+    if (cursor !== undefined) {
+      this._cursor = cursor;
+    }
+    this._lastSyncedAt = new Date();
+  }
+
+  private validateWalletId(walletId: string): void {
+    if (!walletId || walletId.trim().length === 0) {
+      throw new Error('Sync cursor wallet ID cannot be empty');
+    }
+  }
+}
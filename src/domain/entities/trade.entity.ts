@@ -0,0 +1,196 @@
+export type TradeType = 'swap' | 'limit_order' | 'recurring_order';
+export type TradeStatus = 'success' | 'pending' | 'failed';
+
+const TRADE_TYPES: TradeType[] = ['swap', 'limit_order', 'recurring_order'];
+const TRADE_STATUSES: TradeStatus[] = ['success', 'pending', 'failed'];
+
+export class Trade {
+  private _status: TradeStatus;
+  private _inputSymbol?: string;
+  private _outputSymbol?: string;
+  private _inputUsdPrice?: string;
+  private _outputUsdPrice?: string;
+  private _inputUsdValue?: string;
+  private _outputUsdValue?: string;
+  private _routeLabels: string[];
+  private _requestId?: string;
+  private _error?: string;
+  private _logMessages: string[];
+  private _executedAt: Date;
+
+  constructor(
+    public readonly id: string,
+    public readonly walletId: string,
+    public readonly type: TradeType,
+    public readonly inputMint: string,
+    public readonly outputMint: string,
+    public readonly inputAmount: string,
+    public readonly outputAmount: string,
+    public readonly inputDecimals: number,
+    public readonly outputDecimals: number,
+    public readonly signature: string,
+    options?: {
+      status?: TradeStatus;
+      inputSymbol?: string;
+      outputSymbol?: string;
+      inputUsdPrice?: string;
+      outputUsdPrice?: string;
+      inputUsdValue?: string;
+      outputUsdValue?: string;
+      routeLabels?: string[];
+      requestId?: string;
+      error?: string;
+      logMessages?: string[];
+      executedAt?: Date;
+    }
+  ) {
+    this.validateId(id);
+    this.validateWalletId(walletId);
+    this.validateType(type);
+    this.validateMints(inputMint, outputMint);
+    this.validateRawAmount(inputAmount, 'Input');
+    this.validateRawAmount(outputAmount, 'Output');
+    this.validateDecimals(inputDecimals);
+    this.validateDecimals(outputDecimals);
+    this.validateSignature(signature);
+
+    const status = options?.status ?? 'success';
+    this.validateStatus(status);
+
+    this._status = status;
+    this._inputSymbol = options?.inputSymbol;
+    this._outputSymbol = options?.outputSymbol;
+    this._inputUsdPrice = options?.inputUsdPrice;
+    this._outputUsdPrice = options?.outputUsdPrice;
+    this._inputUsdValue = options?.inputUsdValue;
+    this._outputUsdValue = options?.outputUsdValue;
+    this._routeLabels = options?.routeLabels ?? [];
+    this._requestId = options?.requestId;
+    this._error = options?.error;
+    this._logMessages = options?.logMessages ?? [];
+    this._executedAt = options?.executedAt ?? new Date();
+  }
+
+  get status(): TradeStatus {
+    return this._status;
+  }
+
+  get inputSymbol(): string | undefined {
+    return this._inputSymbol;
+  }
+
+  get outputSymbol(): string | undefined {
+    return this._outputSymbol;
+  }
+
+  get inputUsdPrice(): string | undefined {
+    return this._inputUsdPrice;
+  }
+
+  get outputUsdPrice(): string | undefined {
+    return this._outputUsdPrice;
+  }
+
+  get inputUsdValue(): string | undefined {
+    return this._inputUsdValue;
+  }
+
+  get outputUsdValue(): string | undefined {
+    return this._outputUsdValue;
+  }
+
+  get routeLabels(): string[] {
+    return [...this._routeLabels];
+  }
+
+  get requestId(): string | undefined {
+    return this._requestId;
+  }
+
+  /**
+   * Decoded on-chain error of a failed transaction.
+   */
+  get error(): string | undefined {
+    return this._error;
+  }
+
+  get logMessages(): string[] {
+    return [...this._logMessages];
+  }
+
+  get executedAt(): Date {
+    return this._executedAt;
+  }
+
+  involvesMint(mint: string): boolean {
+    return this.inputMint === mint || this.outputMint === mint;
+  }
+
+  updateStatus(status: TradeStatus): void {
+    this.validateStatus(status);
+    this._status = status;
+  }
+
+  /**
+   * Final outcome of the transaction once it has been tracked on-chain.
+   */
+  recordOutcome(status: TradeStatus, error: string | undefined, logMessages: string[]): void {
+    this.updateStatus(status);
+    this._error = error;
+    this._logMessages = [...logMessages];
+  }
+
+  private validateId(id: string): void {
+    if (!id || id.trim().length === 0) {
+      throw new Error('Trade ID cannot be empty');
+    }
+  }
+
+  private validateWalletId(walletId: string): void {
+    if (!walletId || walletId.trim().length === 0) {
+      throw new Error('Trade wallet ID cannot be empty');
+    }
+  }
+
+  private validateType(type: TradeType): void {
+    if (!TRADE_TYPES.includes(type)) {
+      throw new Error(`Invalid trade type: ${type}`);
+    }
+  }
+
+  private validateStatus(status: TradeStatus): void {
+    if (!TRADE_STATUSES.includes(status)) {
+      throw new Error(`Invalid trade status: ${status}`);
+    }
+  }
+
+  private validateMints(inputMint: string, outputMint: string): void {
+    if (!inputMint || inputMint.trim().length === 0) {
+      throw new Error('Trade input mint cannot be empty');
+    }
+    if (!outputMint || outputMint.trim().length === 0) {
+      throw new Error('Trade output mint cannot be empty');
+    }
+    if (inputMint === outputMint) {
+      throw new Error('Trade input and output mints must be different');
+    }
+  }
+
+  private validateRawAmount(amount: string, label: string): void {
+    if (!/^\d+$/.test(amount)) {
+      throw new Error(`${label} amount must be a non-negative integer in smallest units`);
+    }
+  }
+
+  private validateDecimals(decimals: number): void {
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 18) {
+      throw new Error('Token decimals must be an integer between 0 and 18');
+    }
+  }
+
+  private validateSignature(signature: string): void {
+    if (!signature || signature.trim().length === 0) {
+      throw new Error('Trade signature cannot be empty');
+    }
+  }
+}
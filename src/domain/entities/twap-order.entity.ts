@@ -0,0 +1,202 @@
+/**
+ * active → completed once no slice is left pending or executing, or
+ * active → cancelled.
+ */
+export type TwapStatus = 'active' | 'completed' | 'cancelled';
+
+/**
+ * pending → executing → executed | skipped | failed | unconfirmed.
+ * `unconfirmed`: the swap was sent, or may have been, but was not seen to
+ * land. A slice left executing by a stopped process is not run again but
+ * marked unconfirmed once it is stale.
+ */
+export type TwapSliceStatus =
+  | 'pending'
+  | 'executing'
+  | 'executed'
+  | 'skipped'
+  | 'failed'
+  | 'unconfirmed';
+
+const TWAP_STATUSES: readonly TwapStatus[] = ['active', 'completed', 'cancelled'];
+
+/**
+ * One scheduled swap of a TWAP. Amounts are raw strings.
+ */
+export interface TwapSlice {
+  index: number;
+  scheduledAt: Date;
+  inputAmount: string;
+  status: TwapSliceStatus;
+  outputAmount?: string; // Quoted output of an executed slice
+  priceImpactPct?: number; // Of the slice's quote, also set when skipped
+  signature?: string;
+  error?: string; // Why the slice was skipped, failed or is unconfirmed
+  executedAt?: Date;
+}
+
+export type TwapSliceResult =
+  | { status: 'executed'; outputAmount: string; priceImpactPct: number; signature: string }
+  | { status: 'skipped'; priceImpactPct: number; error: string }
+  | { status: 'failed'; error: string; signature?: string; priceImpactPct?: number }
+  | { status: 'unconfirmed'; error: string; signature?: string; priceImpactPct?: number };
+
+/**
+ * A large swap split into equal slices spread over a time window. Slices run
+ * at least `intervalSeconds` apart: a TWAP resumed after a stop finishes
+ * late rather than catching up with several slices at once.
+ */
+export class TwapOrder {
+  public readonly createdAt: Date;
+
+  private _status: TwapStatus;
+  private _slices: TwapSlice[];
+  private _lastAttemptAt?: Date;
+  private _updatedAt: Date;
+
+  constructor(
+    public readonly id: string,
+    public readonly walletId: string,
+    public readonly inputMint: string,
+    public readonly outputMint: string,
+    public readonly inputDecimals: number,
+    public readonly outputDecimals: number,
+    public readonly totalAmount: string, // Raw
+    public readonly intervalSeconds: number,
+    public readonly maxPriceImpactPct: number,
+    public readonly slippageBps: number,
+    slices: TwapSlice[],
+    options?: {
+      status?: TwapStatus;
+      lastAttemptAt?: Date;
+      createdAt?: Date;
+      updatedAt?: Date;
+    }
+  ) {
+    if (!id || id.trim().length === 0) {
+      throw new Error('TWAP ID cannot be empty');
+    }
+    if (inputMint === outputMint) {
+      throw new Error('Input and output mints must be different');
+    }
+    if (slices.length === 0) {
+      throw new Error('A TWAP needs at least one slice');
+    }
+    const sum = slices.reduce((total, slice) => total + BigInt(slice.inputAmount), 0n);
+    if (sum !== BigInt(totalAmount)) {
+      throw new Error(`TWAP slices add up to ${sum}, not ${totalAmount}`);
+    }
+    if (!(intervalSeconds > 0) || !(maxPriceImpactPct > 0)) {
+      throw new Error('TWAP interval and price impact bound must be positive');
+    }
+    const status = options?.status ?? 'active';
+    if (!TWAP_STATUSES.includes(status)) {
+      throw new Error(`Invalid TWAP status: ${status}`);
+    }
+
+    this.createdAt = options?.createdAt ?? new Date();
+    this._status = status;
+    this._slices = [...slices].sort((a, b) => a.index - b.index).map((slice) => ({ ...slice }));
+    this._lastAttemptAt = options?.lastAttemptAt;
+    this._updatedAt = options?.updatedAt ?? this.createdAt;
+  }
+
+  get status(): TwapStatus {
+    return this._status;
+  }
+
+  get slices(): TwapSlice[] {
+    return this._slices.map((slice) => ({ ...slice }));
+  }
+
+  get lastAttemptAt(): Date | undefined {
+    return this._lastAttemptAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  /**
+   * Raw input spent and output received by executed slices.
+   */
+  get filled(): { input: bigint; output: bigint } {
+    return this._slices
+      .filter((slice) => slice.status === 'executed')
+      .reduce(
+        (sum, slice) => ({
+          input: sum.input + BigInt(slice.inputAmount),
+          output: sum.output + BigInt(slice.outputAmount ?? '0'),
+        }),
+        { input: 0n, output: 0n }
+      );
+  }
+
+  nextSlice(): TwapSlice | undefined {
+    if (this._status !== 'active') return undefined;
+    const next = this._slices.find((slice) => slice.status === 'pending');
+    return next ? { ...next } : undefined;
+  }
+
+  /**
+   * Slices left executing by a process that stopped mid-swap: the TWAP's
+   * last attempt started more than `staleMs` ago.
+   */
+  staleSlices(staleMs: number): TwapSlice[] {
+    const startedAt = this._lastAttemptAt?.getTime() ?? 0;
+    if (Date.now() - startedAt < staleMs) return [];
+    return this.slices.filter((slice) => slice.status === 'executing');
+  }
+
+  /**
+   * When a slice may run: its scheduled time, but no sooner than one
+   * interval after the previous attempt.
+   */
+  dueAt(slice: TwapSlice): Date {
+    const spaced = this._lastAttemptAt
+      ? this._lastAttemptAt.getTime() + this.intervalSeconds * 1000
+      : 0;
+    return new Date(Math.max(slice.scheduledAt.getTime(), spaced));
+  }
+
+  startSlice(index: number): void {
+    const slice = this.slice(index);
+    if (this._status !== 'active' || slice.status !== 'pending') {
+      throw new Error(`Cannot start slice ${index} of a ${this._status} TWAP (${slice.status})`);
+    }
+    slice.status = 'executing';
+    this._lastAttemptAt = new Date();
+    this._updatedAt = this._lastAttemptAt;
+  }
+
+  finishSlice(index: number, result: TwapSliceResult): void {
+    const slice = this.slice(index);
+    if (slice.status !== 'executing') {
+      throw new Error(`Slice ${index} is ${slice.status}, not executing`);
+    }
+    Object.assign(slice, result, { executedAt: new Date() });
+    this._updatedAt = new Date();
+    if (
+      this._status === 'active' &&
+      !this._slices.some((s) => s.status === 'pending' || s.status === 'executing')
+    ) {
+      this._status = 'completed';
+    }
+  }
+
+  cancel(): void {
+    if (this._status !== 'active') {
+      throw new Error(`Cannot cancel a ${this._status} TWAP`);
+    }
+    this._status = 'cancelled';
+    this._updatedAt = new Date();
+  }
+
+  private slice(index: number): TwapSlice {
+    const slice = this._slices.find((s) => s.index === index);
+    if (!slice) {
+      throw new Error(`TWAP has no slice ${index}`);
+    }
+    return slice;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * `order`: a Jupiter limit or recurring order moving tokens in or out of its
+ * escrow (created, filled, cancelled). The fills are recorded as trades.
+ */
+export type ActivityKind = 'swap' | 'transfer_in' | 'transfer_out' | 'order' | 'fee' | 'unknown';
+
+const ACTIVITY_KINDS: ActivityKind[] = [
+  'swap',
+  'transfer_in',
+  'transfer_out',
+  'order',
+  'fee',
+  'unknown',
+];
+
+/**
+ * Net change of one token for the wallet in a transaction.
+ * `amount` is signed and in smallest units (negative = outflow).
+ */
+export interface BalanceChange {
+  mint: string;
+  amount: string;
+  decimals: number;
+}
+
+export class WalletActivity {
+  private _changes: BalanceChange[];
+
+  constructor(
+    public readonly id: string,
+    public readonly walletId: string,
+    public readonly signature: string,
+    public readonly kind: ActivityKind,
+    public readonly slot: number,
+    public readonly blockTime: Date,
+    changes: BalanceChange[],
+    public readonly fee: number = 0,
+    public readonly failed: boolean = false
+  ) {
+    this.validateId(id);
+    this.validateWalletId(walletId);
+    this.validateSignature(signature);
+    this.validateKind(kind);
+    changes.forEach((change) => this.validateChange(change));
+    this._changes = changes;
+  }
+
+  get changes(): BalanceChange[] {
+    return this._changes.map((c) => ({ ...c }));
+  }
+
+  get inflows(): BalanceChange[] {
+    return this.changes.filter((c) => !c.amount.startsWith('-'));
+  }
+
+  get outflows(): BalanceChange[] {
+    return this.changes.filter((c) => c.amount.startsWith('-'));
+  }
+
+  private validateId(id: string): void {
+    if (!id || id.trim().length === 0) {
+      throw new Error('Activity ID cannot be empty');
+    }
+  }
+
+  private validateWalletId(walletId: string): void {
+    if (!walletId || walletId.trim().length === 0) {
+      throw new Error('Activity wallet ID cannot be empty');
+    }
+  }
+
+  private validateSignature(signature: string): void {
+    if (!signature || signature.trim().length === 0) {
+      throw new Error('Activity signature cannot be empty');
+    }
+  }
+
+  private validateKind(kind: ActivityKind): void {
+    if (!ACTIVITY_KINDS.includes(kind)) {
+      throw new Error(`Invalid activity kind: ${kind}`);
+    }
+  }
+
+  private validateChange(change: BalanceChange): void {
+    if (!/^-?\d+$/.test(change.amount) || /^-?0+$/.test(change.amount)) {
+      throw new Error('Balance change must be a non-zero integer in smallest units');
+    }
+  }
+}
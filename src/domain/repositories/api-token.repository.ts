@@ -0,0 +1,9 @@
+import { ApiToken } from '../entities/api-token.entity';
+
+export interface ApiTokenRepository {
+  findAll(): Promise<ApiToken[]>;
+  findByHash(tokenHash: string): Promise<ApiToken | null>;
+  findByName(name: string): Promise<ApiToken | null>;
+  save(token: ApiToken): Promise<ApiToken>;
+  delete(id: string): Promise<void>;
+}
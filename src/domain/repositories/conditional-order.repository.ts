@@ -0,0 +1,17 @@
+import {
+  ConditionalOrder,
+  ConditionalOrderEvent,
+  ConditionalOrderStatus,
+} from '../entities/conditional-order.entity';
+
+export interface ConditionalOrderRepository {
+  findById(id: string): Promise<ConditionalOrder | null>;
+  findByStatus(statuses: ConditionalOrderStatus[], walletId?: string): Promise<ConditionalOrder[]>; // Oldest first
+  findByGroup(ocoGroupId: string): Promise<ConditionalOrder[]>;
+  create(order: ConditionalOrder): Promise<ConditionalOrder>;
+  // Saves the order's state while the stored status is still `from`; false when
+  // another process (a second watcher, or `cond cancel`) moved it first
+  update(order: ConditionalOrder, from: ConditionalOrderStatus): Promise<boolean>;
+  addEvent(event: ConditionalOrderEvent): Promise<void>;
+  findEvents(orderIds?: string[], limit?: number): Promise<ConditionalOrderEvent[]>; // Newest first
+}
@@ -1,2 +1,10 @@
 export * from './wallet.repository';
 export * from './token-info.repository';
+export * from './trade.repository';
+export * from './sync-cursor.repository';
+export * from './wallet-activity.repository';
+export * from './portfolio-snapshot.repository';
+export * from './api-token.repository';
+export * from './conditional-order.repository';
+export * from './twap-order.repository';
+export * from './order-commitment.repository';
@@ -0,0 +1,6 @@
+import { OrderCommitment } from '../entities/order-commitment.entity';
+
+export interface OrderCommitmentRepository {
+  create(commitment: OrderCommitment): Promise<OrderCommitment>;
+  findByWallet(walletId: string, from: Date): Promise<OrderCommitment[]>;
+}
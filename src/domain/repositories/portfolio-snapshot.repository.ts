@@ -0,0 +1,6 @@
+import { PortfolioSnapshot } from '../entities/portfolio-snapshot.entity';
+
+export interface PortfolioSnapshotRepository {
+  create(snapshot: PortfolioSnapshot): Promise<PortfolioSnapshot>;
+  findBetween(from?: Date, to?: Date): Promise<PortfolioSnapshot[]>; // Oldest first
+}
@@ -0,0 +1,6 @@
+import { SyncCursor, SyncSource } from '../entities/sync-cursor.entity';
+
+export interface SyncCursorRepository {
+  find(walletId: string, source: SyncSource): Promise<SyncCursor | null>;
+  save(cursor: SyncCursor): Promise<SyncCursor>;
+}
@@ -0,0 +1,21 @@
+import { Trade, TradeStatus, TradeType } from '../entities/trade.entity';
+
+export interface TradeQueryOptions {
+  mint?: string;
+  type?: TradeType;
+  status?: TradeStatus;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+  order?: 'asc' | 'desc';
+}
+
+export interface TradeRepository {
+  create(trade: Trade): Promise<Trade>;
+  update(trade: Trade): Promise<Trade>;
+  findById(id: string): Promise<Trade | null>;
+  findBySignature(signature: string): Promise<Trade[]>;
+  findByWallet(walletId: string, options?: TradeQueryOptions): Promise<Trade[]>;
+  countByWallet(walletId: string, options?: TradeQueryOptions): Promise<number>;
+}
@@ -0,0 +1,14 @@
+import { TwapOrder, TwapSlice, TwapStatus } from '../entities/twap-order.entity';
+
+export interface TwapOrderRepository {
+  create(twap: TwapOrder): Promise<TwapOrder>;
+  findById(id: string): Promise<TwapOrder | null>;
+  findByStatus(statuses: TwapStatus[], walletId?: string): Promise<TwapOrder[]>; // Oldest first
+  // Moves a pending slice of an active TWAP to executing; false when another
+  // process got there first or the TWAP was cancelled
+  claimSlice(twap: TwapOrder, index: number): Promise<boolean>;
+  // Also saves the TWAP's status, unless it was cancelled while the slice ran
+  saveSlice(twap: TwapOrder, slice: TwapSlice): Promise<void>;
+  // Only over an active TWAP; false when it was completed or cancelled meanwhile
+  saveStatus(twap: TwapOrder): Promise<boolean>;
+}
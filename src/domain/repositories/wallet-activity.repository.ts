@@ -0,0 +1,15 @@
+import { ActivityKind, WalletActivity } from '../entities/wallet-activity.entity';
+
+export interface ActivityQueryOptions {
+  kinds?: ActivityKind[];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  order?: 'asc' | 'desc';
+}
+
+export interface WalletActivityRepository {
+  create(activity: WalletActivity): Promise<WalletActivity>;
+  exists(walletId: string, signature: string): Promise<boolean>;
+  findByWallet(walletId: string, options?: ActivityQueryOptions): Promise<WalletActivity[]>;
+}
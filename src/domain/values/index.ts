@@ -0,0 +1,2 @@
+export * from './token-amount';
+export * from './split-amount';
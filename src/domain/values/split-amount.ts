@@ -0,0 +1,10 @@
+/**
+ * Splits a raw `total` into `count` parts, the remainder going to the last
+ * one so the parts add up exactly.
+ */
+export function splitAmount(total: bigint, count: number): bigint[] {
+  const part = total / BigInt(count);
+  return Array.from({ length: count }, (_, i) =>
+    i === count - 1 ? total - part * BigInt(count - 1) : part
+  );
+}
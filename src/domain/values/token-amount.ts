@@ -0,0 +1,128 @@
+import Big from 'big.js';
+import { InvalidAmountError } from '../../core/errors/token.errors';
+
+const DECIMAL_PATTERN = /^(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Token amount held as raw units (bigint) with the mint's decimals, so that
+ * what is signed is exactly what the user typed. Convert to Big for USD
+ * math and to number only for display.
+ */
+export class TokenAmount {
+  private constructor(
+    public readonly raw: bigint,
+    public readonly decimals: number
+  ) {}
+
+  static zero(decimals: number): TokenAmount {
+    return new TokenAmount(0n, decimals);
+  }
+
+  /**
+   * From raw units, as returned by RPC and the Jupiter APIs.
+   */
+  static fromRaw(raw: string | bigint, decimals: number): TokenAmount {
+    let value: bigint;
+    try {
+      value = typeof raw === 'bigint' ? raw : BigInt(raw);
+    } catch {
+      throw new InvalidAmountError(String(raw), 'not an integer amount of raw units');
+    }
+    if (value < 0n) {
+      throw new InvalidAmountError(String(raw), 'must not be negative');
+    }
+    return new TokenAmount(value, decimals);
+  }
+
+  /**
+   * From a decimal string typed by the user. Rejects rather than rounds
+   * digits the token cannot hold.
+   */
+  static parse(value: string, decimals: number): TokenAmount {
+    const trimmed = value.trim();
+    if (!DECIMAL_PATTERN.test(trimmed)) {
+      throw new InvalidAmountError(value, 'expected a positive decimal number');
+    }
+    const [whole = '', fraction = ''] = trimmed.split('.');
+    if (fraction.length > decimals) {
+      throw new InvalidAmountError(value, `this token has ${decimals} decimals`);
+    }
+    return new TokenAmount(BigInt((whole || '0') + fraction.padEnd(decimals, '0')), decimals);
+  }
+
+  /**
+   * From a computed value (an amount times a price), rounded down to the
+   * smallest unit.
+   */
+  static fromDecimal(value: Big | string, decimals: number): TokenAmount {
+    const raw = new Big(value).times(new Big(10).pow(decimals)).round(0, Big.roundDown);
+    return TokenAmount.fromRaw(raw.toFixed(0), decimals);
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  plus(other: TokenAmount): TokenAmount {
+    return new TokenAmount(this.raw + this.sameDecimals(other).raw, this.decimals);
+  }
+
+  /**
+   * Floors at zero: a fee or reserve never makes an amount negative.
+   */
+  minus(other: TokenAmount): TokenAmount {
+    const raw = this.raw - this.sameDecimals(other).raw;
+    return new TokenAmount(raw > 0n ? raw : 0n, this.decimals);
+  }
+
+  compare(other: TokenAmount): -1 | 0 | 1 {
+    const raw = this.sameDecimals(other).raw;
+    return this.raw < raw ? -1 : this.raw > raw ? 1 : 0;
+  }
+
+  /**
+   * Value in the quote currency (usually USD) at the given unit price.
+   */
+  times(price: Big | number | string): Big {
+    return this.toBig().times(price);
+  }
+
+  toBig(): Big {
+    return new Big(this.raw.toString()).div(new Big(10).pow(this.decimals));
+  }
+
+  toNumber(): number {
+    return this.toBig().toNumber();
+  }
+
+  /**
+   * Rounded down, so a displayed amount is never more than the real one.
+   */
+  toFixed(dp: number): string {
+    return this.toBig().round(dp, Big.roundDown).toFixed(dp);
+  }
+
+  /**
+   * Exact decimal string without trailing zeros.
+   */
+  toString(): string {
+    if (this.decimals === 0) return this.raw.toString();
+    const digits = this.raw.toString().padStart(this.decimals + 1, '0');
+    const whole = digits.slice(0, -this.decimals);
+    const fraction = digits.slice(-this.decimals).replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole;
+  }
+
+  toRawString(): string {
+    return this.raw.toString();
+  }
+
+  private sameDecimals(other: TokenAmount): TokenAmount {
+    if (other.decimals !== this.decimals) {
+      throw new Error(
+        `Cannot combine amounts with ${this.decimals} and ${other.decimals} decimals`
+      );
+    }
+    return other;
+  }
+}
@@ -9,7 +9,7 @@ process.on('warning', (warning) => {
   console.warn(warning);
 });
 
-import { Command } from 'commander';
+import { Command, CommanderError, Option } from 'commander';
 import chalk from 'chalk';
 import { readFileSync } from 'fs';
 import { join } from 'path';
@@ -24,12 +24,26 @@ import { createTradeCommands } from './interface/cli/commands/trade/trade.cmd';
 import { createConfigCommands } from './interface/cli/commands/config/config.cmd';
 import { createSessionCommands } from './interface/cli/commands/session/session.cmd';
 import { createOrderCommands } from './interface/cli/commands/order/order.cmd';
+import { createPortfolioCommand } from './interface/cli/commands/portfolio/portfolio.cmd';
 import { createTokenCommands } from './interface/cli/commands/token/token.cmd';
+import { createHistoryCommand } from './interface/cli/commands/history/history.cmd';
+import { createTxCommands } from './interface/cli/commands/tx/tx.cmd';
+import { createCondCommands } from './interface/cli/commands/cond/cond.cmd';
+import { createWatchCommand } from './interface/cli/commands/watch/watch.cmd';
+import { createTwapCommands } from './interface/cli/commands/twap/twap.cmd';
+import { createDcaCommands } from './interface/cli/commands/dca/dca.cmd';
+import { createPnlCommands } from './interface/cli/commands/pnl/pnl.cmd';
+import { createServeCommand } from './interface/cli/commands/serve/serve.cmd';
+import { createMcpCommand } from './interface/cli/commands/mcp/mcp.cmd';
 import { ConfigurationService } from './core/config/configuration.service';
 import { PathManager } from './core/config/path-manager';
 import { LoggerService } from './core/logger/logger.service';
 import { MigrationService } from './core/database/migration.service';
 import { PrismaClient } from '@prisma/client';
+import { isMachineOutput, setOutputFormat } from './interface/cli/output/output';
+import { handleError } from './interface/cli/output/error-handler';
+import { ExitCode } from './core/errors/exit-codes';
+import { OUTPUT_FORMATS } from './interface/cli/output/serializers';
 
 // Global option for data directory
 let dataDir: string | undefined;
@@ -98,6 +112,9 @@ program
   .version(VERSION)
   .option('-d, --data-dir <path>', 'Data directory path (default: ~/.solana/jup-cli/)')
   .option('-v, --verbose', 'Enable verbose logging to console')
+  .addOption(
+    new Option('-o, --output <format>', 'Output format').choices(OUTPUT_FORMATS).default('table')
+  )
   .hook('preAction', (thisCommand) => {
     // Get options before any command runs
     const options = thisCommand.opts();
@@ -110,6 +127,7 @@ program
     if (options.verbose) {
       LoggerService.getInstance().setVerbose(true);
     }
+    setOutputFormat(options.output);
   });
 
 // Add commands with factory functions that get Prisma client
@@ -120,7 +138,17 @@ program.addCommand(createTradeCommands(getPrismaClient, getDataDir));
 program.addCommand(createConfigCommands(getDataDir));
 program.addCommand(createSessionCommands(getPrismaClient, getDataDir));
 program.addCommand(createOrderCommands(getPrismaClient, getDataDir));
+program.addCommand(createCondCommands(getPrismaClient, getDataDir));
+program.addCommand(createWatchCommand(getPrismaClient, getDataDir));
+program.addCommand(createTwapCommands(getPrismaClient, getDataDir));
+program.addCommand(createDcaCommands(getPrismaClient, getDataDir));
 program.addCommand(createTokenCommands(getDataDir));
+program.addCommand(createHistoryCommand(getPrismaClient));
+program.addCommand(createTxCommands(getPrismaClient));
+program.addCommand(createPnlCommands(getPrismaClient, getDataDir));
+program.addCommand(createPortfolioCommand(getPrismaClient, getDataDir));
+program.addCommand(createServeCommand(getPrismaClient, getDataDir));
+program.addCommand(createMcpCommand(getPrismaClient, getDataDir));
 
 // Default help
 program.on('--help', () => {
@@ -133,11 +161,25 @@ program.on('--help', () => {
   console.log('  $ jup-cli wallet create -n Trading          # Create named wallet');
   console.log('  $ jup-cli price get SOL USDC                # Get prices');
   console.log('  $ jup-cli trade swap -w <id> SOL USDC 1     # Execute swap');
+  console.log('  $ jup-cli order ladder -w <id> SOL USDC 10 --from 180 --to 220 --steps 8');
+  console.log('  $ jup-cli cond add -w <id> SOL USDC 1 --stop-loss 150  # Local stop-loss');
+  console.log('  $ jup-cli watch                             # Execute conditional orders');
+  console.log('  $ jup-cli trade twap -w <id> SOL USDC 500 --over 6h --slices 24  # TWAP');
+  console.log('  $ jup-cli twap status                       # TWAP progress');
+  console.log('  $ jup-cli dca create -w <id> USDC SOL 300 --every 1d --orders 30  # DCA');
+  console.log('  $ jup-cli dca history -w <id>               # Record DCA fills');
+  console.log('  $ jup-cli history -w <id>                   # Trade history');
+  console.log('  $ jup-cli pnl show -w <id>                  # Profit and loss');
+  console.log('  $ jup-cli portfolio                         # All wallets combined');
+  console.log('  $ jup-cli portfolio performance              # Return and drawdown');
   console.log('  $ jup-cli session status                    # Check session');
   console.log('  $ jup-cli token search SOL                  # Search tokens');
   console.log('  $ jup-cli token info <mint>                 # Token details + security');
   console.log('  $ jup-cli token trending                    # Trending tokens');
   console.log('  $ jup-cli token shield <mint>               # Security check');
+  console.log('  $ jup-cli wallet list --output json         # Machine-readable output');
+  console.log('  $ jup-cli serve --port 8787                 # Local JSON-RPC API for agents');
+  console.log('  $ jup-cli mcp                               # MCP server for LLM agents (stdio)');
   console.log('');
   console.log(chalk.dim('Configuration:'));
   console.log(chalk.dim('  All settings are stored in: ~/.solana/jup-cli/config.yaml'));
@@ -174,13 +216,22 @@ async function main() {
     // When using --help, commander throws an error with 'commander.help' or '(outputHelp)' as message
     if (
       error instanceof Error &&
-      error.message !== 'commander.help' &&
-      error.message !== '(outputHelp)' &&
-      error.message !== VERSION
+      (error.message === 'commander.help' ||
+        error.message === '(outputHelp)' ||
+        error.message === VERSION)
     ) {
-      console.error(chalk.red(`\nError: ${error.message}\n`));
-      process.exit(1);
+      return;
     }
+    if (error instanceof CommanderError) {
+      // Commander has already printed the usage error
+      if (!isMachineOutput()) {
+        process.exit(ExitCode.USAGE_ERROR);
+      }
+      handleError(error, ExitCode.USAGE_ERROR);
+    }
+    // Commands throw instead of handling errors themselves: this is the only
+    // place where a failure is reported and mapped to an exit code
+    handleError(error);
   }
 }
 
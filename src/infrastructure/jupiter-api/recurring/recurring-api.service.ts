@@ -0,0 +1,77 @@
+import { JupiterClient } from '../shared/jupiter-client';
+import {
+  CancelRecurringOrderResponse,
+  CreateRecurringOrderParams,
+  CreateRecurringOrderResponse,
+  ExecuteRecurringResponse,
+  GetRecurringOrdersResponse,
+  RecurringType,
+} from './recurring.types';
+
+export class RecurringApiService {
+  private client: JupiterClient;
+
+  constructor(client?: JupiterClient) {
+    this.client = client ?? new JupiterClient();
+  }
+
+  async createOrder(params: CreateRecurringOrderParams): Promise<CreateRecurringOrderResponse> {
+    const response = await this.client.post<CreateRecurringOrderResponse>(
+      '/recurring/v1/createOrder',
+      {
+        user: params.user,
+        inputMint: params.inputMint,
+        outputMint: params.outputMint,
+        params: params.params,
+      }
+    );
+
+    return response;
+  }
+
+  async getOrders(
+    user: string,
+    status: 'active' | 'history',
+    recurringType: RecurringType,
+    page: number = 1
+  ): Promise<GetRecurringOrdersResponse> {
+    const response = await this.client.get<GetRecurringOrdersResponse>(
+      '/recurring/v1/getRecurringOrders',
+      {
+        user,
+        orderStatus: status,
+        recurringType,
+        includeFailedTx: false,
+        page,
+      }
+    );
+
+    return response;
+  }
+
+  async cancelOrder(
+    user: string,
+    orderKey: string,
+    recurringType: RecurringType
+  ): Promise<CancelRecurringOrderResponse> {
+    const response = await this.client.post<CancelRecurringOrderResponse>(
+      '/recurring/v1/cancelOrder',
+      {
+        user,
+        order: orderKey,
+        recurringType,
+      }
+    );
+
+    return response;
+  }
+
+  async execute(signedTransaction: string, requestId: string): Promise<ExecuteRecurringResponse> {
+    const response = await this.client.post<ExecuteRecurringResponse>('/recurring/v1/execute', {
+      signedTransaction,
+      requestId,
+    });
+
+    return response;
+  }
+}
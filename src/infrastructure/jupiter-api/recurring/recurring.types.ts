@@ -0,0 +1,110 @@
+export type RecurringType = 'time' | 'price';
+
+/**
+ * Spend `inAmount` in `numberOfOrders` equal swaps, one every `interval`
+ * seconds. A cycle is skipped when the output price is outside
+ * `minPrice`/`maxPrice`.
+ */
+export interface TimeRecurringParams {
+  inAmount: number; // Raw, in total
+  numberOfOrders: number;
+  interval: number; // Seconds
+  minPrice: number | null;
+  maxPrice: number | null;
+  startAt: number | null; // Unix seconds, null to start now
+}
+
+/**
+ * Value averaging: each interval, buy enough to grow the position's USD value
+ * by `incrementUsdcValue`, until the deposit runs out.
+ */
+export interface PriceRecurringParams {
+  depositAmount: number; // Raw
+  incrementUsdcValue: number; // Raw USDC (6 decimals)
+  interval: number; // Seconds
+  startAt: number | null;
+}
+
+export interface CreateRecurringOrderParams {
+  user: string;
+  inputMint: string;
+  outputMint: string;
+  params: { time: TimeRecurringParams } | { price: PriceRecurringParams };
+}
+
+export interface CreateRecurringOrderResponse {
+  requestId: string;
+  transaction: string;
+}
+
+export interface RecurringOrderTrade {
+  orderKey: string;
+  keeper?: string;
+  inputMint: string;
+  outputMint: string;
+  inputAmount: string; // UI units
+  outputAmount: string;
+  rawInputAmount?: string;
+  rawOutputAmount?: string;
+  feeMint?: string;
+  feeAmount?: string;
+  rawFeeAmount?: string;
+  txId: string;
+  confirmedAt: string;
+  action: string;
+}
+
+/**
+ * Amounts are UI units as strings, with `raw*` counterparts.
+ */
+export interface RecurringOrder {
+  userPubkey: string;
+  orderKey: string;
+  inputMint: string;
+  outputMint: string;
+  inDeposited: string;
+  inWithdrawn: string;
+  rawInDeposited: string;
+  rawInWithdrawn: string;
+  cycleFrequency: string; // Seconds
+  outWithdrawn: string;
+  inAmountPerCycle?: string; // Time-based only
+  rawInAmountPerCycle?: string;
+  minOutAmount?: string;
+  maxOutAmount?: string;
+  inUsed: string;
+  rawInUsed: string;
+  outReceived: string;
+  rawOutReceived: string;
+  openTx: string;
+  closeTx: string;
+  userClosed: boolean;
+  status?: string; // Price-based only
+  incrementalUsdValue?: string; // Price-based only
+  estimatedUsdcValueSpent?: string;
+  createdAt: string;
+  updatedAt: string;
+  trades?: RecurringOrderTrade[];
+}
+
+export interface GetRecurringOrdersResponse {
+  user: string;
+  orderStatus: 'active' | 'history';
+  time?: RecurringOrder[];
+  price?: RecurringOrder[];
+  all?: RecurringOrder[];
+  page: number;
+  totalPages: number;
+}
+
+export interface CancelRecurringOrderResponse {
+  requestId: string;
+  transaction: string;
+}
+
+export interface ExecuteRecurringResponse {
+  signature: string;
+  status: string; // "Success" or "Failed"
+  order?: string | null; // Key of the created order
+  error?: string;
+}
@@ -0,0 +1,59 @@
+import { JupiterClient } from '../shared/jupiter-client';
+import { JupiterApiError } from '../../../core/errors/api.errors';
+import { LoggerService } from '../../../core/logger/logger.service';
+import { QuoteParams, QuoteResponse, SwapTransactionResponse } from './swap.types';
+
+/**
+ * Jupiter Metis swap API: a quote, then an unsigned transaction for it that
+ * the caller signs and sends itself. Unlike Ultra it also quotes ExactOut.
+ */
+export class SwapApiService {
+  private client: JupiterClient;
+  private baseUrl = '/swap/v1';
+
+  constructor(client?: JupiterClient) {
+    this.client = client ?? new JupiterClient();
+  }
+
+  async getQuote(params: QuoteParams): Promise<QuoteResponse> {
+    LoggerService.getInstance().debug('Getting Metis quote', { ...params });
+
+    const query: Record<string, string | number | boolean> = {
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      amount: params.amount,
+      swapMode: params.swapMode,
+      slippageBps: params.slippageBps,
+    };
+    if (params.excludeDexes && params.excludeDexes.length > 0) {
+      query.excludeDexes = params.excludeDexes.join(',');
+    }
+    if (params.onlyDirectRoutes) {
+      query.onlyDirectRoutes = true;
+    }
+    if (params.maxAccounts !== undefined) {
+      query.maxAccounts = params.maxAccounts;
+    }
+
+    return this.client.get<QuoteResponse>(`${this.baseUrl}/quote`, query);
+  }
+
+  async getSwapTransaction(
+    quoteResponse: QuoteResponse,
+    userPublicKey: string
+  ): Promise<SwapTransactionResponse> {
+    const response = await this.client.post<SwapTransactionResponse>(`${this.baseUrl}/swap`, {
+      quoteResponse,
+      userPublicKey,
+      wrapAndUnwrapSol: true,
+      dynamicComputeUnitLimit: true,
+    });
+
+    if (!response.swapTransaction) {
+      throw new JupiterApiError('No transaction returned from Jupiter for this quote.', 400, {
+        response,
+      });
+    }
+    return response;
+  }
+}
@@ -0,0 +1,49 @@
+export type SwapMode = 'ExactIn' | 'ExactOut';
+
+export interface QuoteParams {
+  inputMint: string;
+  outputMint: string;
+  amount: string; // Raw units of the input for ExactIn, of the output for ExactOut
+  swapMode: SwapMode;
+  slippageBps: number;
+  excludeDexes?: string[]; // DEX labels as shown in routes, e.g. "Raydium"
+  onlyDirectRoutes?: boolean; // Single hop only
+  maxAccounts?: number; // Keeps room in the transaction for other instructions
+}
+
+export interface RoutePlanStep {
+  swapInfo: {
+    ammKey: string;
+    label: string;
+    inputMint: string;
+    outputMint: string;
+    inAmount: string;
+    outAmount: string;
+    feeAmount: string;
+    feeMint: string;
+  };
+  percent: number;
+}
+
+export interface QuoteResponse {
+  inputMint: string;
+  inAmount: string;
+  outputMint: string;
+  outAmount: string;
+  // Minimum output for ExactIn, maximum input for ExactOut, after slippage
+  otherAmountThreshold: string;
+  swapMode: SwapMode;
+  slippageBps: number;
+  priceImpactPct: string;
+  routePlan: RoutePlanStep[];
+  contextSlot?: number;
+  timeTaken?: number;
+}
+
+export interface SwapTransactionResponse {
+  swapTransaction: string; // Base64, unsigned
+  lastValidBlockHeight: number;
+  prioritizationFeeLamports?: number;
+  computeUnitLimit?: number;
+  simulationError?: { errorCode: string; error: string } | null;
+}
@@ -45,6 +45,8 @@ export interface TriggerOrderTrade {
   outputMint: string;
   inputAmount: string;
   outputAmount: string;
+  rawInputAmount?: string;
+  rawOutputAmount?: string;
   txId: string;
   confirmedAt: string;
   action: string;
@@ -6,7 +6,7 @@ import {
   PriceDataEntry,
 } from '../../../application/ports/jupiter-api.port';
 import { LoggerService } from '../../../core/logger/logger.service';
-import { JupiterApiError } from '../../../core/errors/api.errors';
+import { JupiterApiError, SwapFailedError } from '../../../core/errors/api.errors';
 
 export interface UltraOrderResponse {
   transaction: string;
@@ -139,7 +139,7 @@ export class UltraApiService {
           code: response.code,
           details: response.details,
         });
-        throw new JupiterApiError(errorMessage, 400, {
+        throw new SwapFailedError(errorMessage, {
           status: response.status,
           error: response.error,
           code: response.code,
@@ -0,0 +1,71 @@
+import { PrismaClient, ApiToken as PrismaApiToken } from '@prisma/client';
+import { ApiPermission, ApiToken } from '../../domain/entities/api-token.entity';
+import { ApiTokenRepository } from '../../domain/repositories/api-token.repository';
+
+export class PrismaApiTokenRepository implements ApiTokenRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findAll(): Promise<ApiToken[]> {
+    const tokens = await this.prisma.apiToken.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return tokens.map((t) => this.toEntity(t));
+  }
+
+  async findByHash(tokenHash: string): Promise<ApiToken | null> {
+    const token = await this.prisma.apiToken.findUnique({
+      where: { tokenHash },
+    });
+
+    return token ? this.toEntity(token) : null;
+  }
+
+  async findByName(name: string): Promise<ApiToken | null> {
+    const token = await this.prisma.apiToken.findUnique({
+      where: { name },
+    });
+
+    return token ? this.toEntity(token) : null;
+  }
+
+  async save(token: ApiToken): Promise<ApiToken> {
+    const saved = await this.prisma.apiToken.upsert({
+      where: { id: token.id },
+      update: {
+        lastUsedAt: token.lastUsedAt,
+      },
+      create: {
+        id: token.id,
+        name: token.name,
+        tokenHash: token.tokenHash,
+        permissions: token.permissions.join(','),
+        createdAt: token.createdAt,
+        lastUsedAt: token.lastUsedAt,
+      },
+    });
+
+    return this.toEntity(saved);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.apiToken.delete({
+      where: { id },
+    });
+  }
+
+  private toEntity(data: PrismaApiToken): ApiToken {
+    return new ApiToken(
+      data.id,
+      data.name,
+      data.tokenHash,
+      data.permissions.split(',') as ApiPermission[],
+      data.createdAt,
+      data.lastUsedAt ?? undefined
+    );
+  }
+}
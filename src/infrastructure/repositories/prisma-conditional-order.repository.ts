@@ -0,0 +1,151 @@
+import {
+  PrismaClient,
+  ConditionalOrder as PrismaConditionalOrder,
+  ConditionalOrderEvent as PrismaConditionalOrderEvent,
+} from '@prisma/client';
+import {
+  ConditionalOrder,
+  ConditionalOrderEvent,
+  ConditionalOrderEventType,
+  ConditionalOrderKind,
+  ConditionalOrderStatus,
+} from '../../domain/entities/conditional-order.entity';
+import { ConditionalOrderRepository } from '../../domain/repositories/conditional-order.repository';
+
+export class PrismaConditionalOrderRepository implements ConditionalOrderRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findById(id: string): Promise<ConditionalOrder | null> {
+    const order = await this.prisma.conditionalOrder.findUnique({
+      where: { id },
+    });
+
+    return order ? this.toEntity(order) : null;
+  }
+
+  async findByStatus(
+    statuses: ConditionalOrderStatus[],
+    walletId?: string
+  ): Promise<ConditionalOrder[]> {
+    const orders = await this.prisma.conditionalOrder.findMany({
+      where: { status: { in: statuses }, ...(walletId ? { walletId } : {}) },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return orders.map((o) => this.toEntity(o));
+  }
+
+  async findByGroup(ocoGroupId: string): Promise<ConditionalOrder[]> {
+    const orders = await this.prisma.conditionalOrder.findMany({
+      where: { ocoGroupId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return orders.map((o) => this.toEntity(o));
+  }
+
+  async create(order: ConditionalOrder): Promise<ConditionalOrder> {
+    const created = await this.prisma.conditionalOrder.create({
+      data: {
+        ...this.toStateData(order),
+        id: order.id,
+        walletId: order.walletId,
+        kind: order.kind,
+        inputMint: order.inputMint,
+        outputMint: order.outputMint,
+        amount: order.amount,
+        slippageBps: order.slippageBps,
+        triggerPrice: order.triggerPrice,
+        trailPct: order.trailPct,
+        ocoGroupId: order.ocoGroupId,
+        createdAt: order.createdAt,
+      },
+    });
+
+    return this.toEntity(created);
+  }
+
+  async update(order: ConditionalOrder, from: ConditionalOrderStatus): Promise<boolean> {
+    const updated = await this.prisma.conditionalOrder.updateMany({
+      where: { id: order.id, status: from },
+      data: this.toStateData(order),
+    });
+
+    return updated.count > 0;
+  }
+
+  async addEvent(event: ConditionalOrderEvent): Promise<void> {
+    await this.prisma.conditionalOrderEvent.create({
+      data: {
+        id: event.id,
+        orderId: event.orderId,
+        type: event.type,
+        price: event.price,
+        message: event.message,
+        signature: event.signature,
+        createdAt: event.createdAt,
+      },
+    });
+  }
+
+  async findEvents(orderIds?: string[], limit?: number): Promise<ConditionalOrderEvent[]> {
+    const events = await this.prisma.conditionalOrderEvent.findMany({
+      where: orderIds ? { orderId: { in: orderIds } } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return events.map((e) => this.toEvent(e));
+  }
+
+  private toStateData(order: ConditionalOrder) {
+    return {
+      status: order.status,
+      highestPrice: order.highestPrice,
+      signature: order.signature,
+      error: order.error,
+      triggeredAt: order.triggeredAt,
+      updatedAt: order.updatedAt,
+    };
+  }
+
+  private toEntity(data: PrismaConditionalOrder): ConditionalOrder {
+    return new ConditionalOrder(
+      data.id,
+      data.walletId,
+      data.kind as ConditionalOrderKind,
+      data.inputMint,
+      data.outputMint,
+      data.amount,
+      data.slippageBps,
+      {
+        triggerPrice: data.triggerPrice ?? undefined,
+        trailPct: data.trailPct ?? undefined,
+        highestPrice: data.highestPrice ?? undefined,
+        ocoGroupId: data.ocoGroupId ?? undefined,
+        status: data.status as ConditionalOrderStatus,
+        signature: data.signature ?? undefined,
+        error: data.error ?? undefined,
+        createdAt: data.createdAt,
+        triggeredAt: data.triggeredAt ?? undefined,
+        updatedAt: data.updatedAt,
+      }
+    );
+  }
+
+  private toEvent(data: PrismaConditionalOrderEvent): ConditionalOrderEvent {
+    return {
+      id: data.id,
+      orderId: data.orderId,
+      type: data.type as ConditionalOrderEventType,
+      price: data.price ?? undefined,
+      message: data.message,
+      signature: data.signature ?? undefined,
+      createdAt: data.createdAt,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { PrismaClient, OrderCommitment as PrismaOrderCommitment } from '@prisma/client';
+import { CommitmentSource, OrderCommitment } from '../../domain/entities/order-commitment.entity';
+import { OrderCommitmentRepository } from '../../domain/repositories/order-commitment.repository';
+
+export class PrismaOrderCommitmentRepository implements OrderCommitmentRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async create(commitment: OrderCommitment): Promise<OrderCommitment> {
+    const created = await this.prisma.orderCommitment.create({
+      data: {
+        walletId: commitment.walletId,
+        source: commitment.source,
+        orderKey: commitment.orderKey,
+        usdValue: commitment.usdValue,
+        createdAt: commitment.createdAt,
+      },
+    });
+
+    return this.toEntity(created);
+  }
+
+  async findByWallet(walletId: string, from: Date): Promise<OrderCommitment[]> {
+    const commitments = await this.prisma.orderCommitment.findMany({
+      where: { walletId, createdAt: { gte: from } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return commitments.map((c) => this.toEntity(c));
+  }
+
+  private toEntity(data: PrismaOrderCommitment): OrderCommitment {
+    return new OrderCommitment(
+      data.walletId,
+      data.source as CommitmentSource,
+      data.orderKey,
+      data.usdValue,
+      data.createdAt
+    );
+  }
+}
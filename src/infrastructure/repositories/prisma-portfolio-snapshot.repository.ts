@@ -0,0 +1,75 @@
+import {
+  PrismaClient,
+  PortfolioSnapshot as PrismaPortfolioSnapshot,
+  PortfolioSnapshotItem as PrismaPortfolioSnapshotItem,
+} from '@prisma/client';
+import { PortfolioSnapshot } from '../../domain/entities/portfolio-snapshot.entity';
+import { PortfolioSnapshotRepository } from '../../domain/repositories/portfolio-snapshot.repository';
+
+export class PrismaPortfolioSnapshotRepository implements PortfolioSnapshotRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async create(snapshot: PortfolioSnapshot): Promise<PortfolioSnapshot> {
+    const created = await this.prisma.portfolioSnapshot.create({
+      data: {
+        id: snapshot.id,
+        takenAt: snapshot.takenAt,
+        totalValue: snapshot.totalValue.toString(),
+        items: {
+          create: snapshot.items.map((item) => ({
+            walletId: item.walletId,
+            walletName: item.walletName,
+            mint: item.mint,
+            symbol: item.symbol,
+            amount: item.amount,
+            usdPrice: item.usdPrice,
+            usdValue: item.usdValue,
+          })),
+        },
+      },
+      include: { items: true },
+    });
+
+    return this.toEntity(created);
+  }
+
+  async findBetween(from?: Date, to?: Date): Promise<PortfolioSnapshot[]> {
+    const snapshots = await this.prisma.portfolioSnapshot.findMany({
+      where:
+        from || to
+          ? {
+              takenAt: {
+                ...(from ? { gte: from } : {}),
+                ...(to ? { lte: to } : {}),
+              },
+            }
+          : undefined,
+      orderBy: { takenAt: 'asc' },
+      include: { items: true },
+    });
+
+    return snapshots.map((s) => this.toEntity(s));
+  }
+
+  private toEntity(
+    data: PrismaPortfolioSnapshot & { items: PrismaPortfolioSnapshotItem[] }
+  ): PortfolioSnapshot {
+    return new PortfolioSnapshot(
+      data.id,
+      data.takenAt,
+      data.items.map((item) => ({
+        walletId: item.walletId,
+        walletName: item.walletName,
+        mint: item.mint,
+        symbol: item.symbol ?? undefined,
+        amount: item.amount,
+        usdPrice: item.usdPrice,
+        usdValue: item.usdValue,
+      }))
+    );
+  }
+}
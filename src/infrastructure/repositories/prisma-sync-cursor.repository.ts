@@ -0,0 +1,46 @@
+import { PrismaClient, SyncCursor as PrismaSyncCursor } from '@prisma/client';
+import { SyncCursor, SyncSource } from '../../domain/entities/sync-cursor.entity';
+import { SyncCursorRepository } from '../../domain/repositories/sync-cursor.repository';
+
+export class PrismaSyncCursorRepository implements SyncCursorRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async find(walletId: string, source: SyncSource): Promise<SyncCursor | null> {
+    const cursor = await this.prisma.syncCursor.findUnique({
+      where: { walletId_source: { walletId, source } },
+    });
+
+    return cursor ? this.toEntity(cursor) : null;
+  }
+
+  async save(cursor: SyncCursor): Promise<SyncCursor> {
+    const saved = await this.prisma.syncCursor.upsert({
+      where: { walletId_source: { walletId: cursor.walletId, source: cursor.source } },
+      update: {
+        cursor: cursor.cursor,
+        lastSyncedAt: cursor.lastSyncedAt,
+      },
+      create: {
+        walletId: cursor.walletId,
+        source: cursor.source,
+        cursor: cursor.cursor,
+        lastSyncedAt: cursor.lastSyncedAt,
+      },
+    });
+
+    return this.toEntity(saved);
+  }
+
+  private toEntity(data: PrismaSyncCursor): SyncCursor {
+    return new SyncCursor(
+      data.walletId,
+      data.source as SyncSource,
+      data.cursor ?? undefined,
+      data.lastSyncedAt
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { Prisma, PrismaClient, Trade as PrismaTrade } from '@prisma/client';
+import { Trade, TradeStatus, TradeType } from '../../domain/entities/trade.entity';
+import { TradeQueryOptions, TradeRepository } from '../../domain/repositories/trade.repository';
+
+export class PrismaTradeRepository implements TradeRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async create(trade: Trade): Promise<Trade> {
+    const created = await this.prisma.trade.create({
+      data: {
+        id: trade.id,
+        walletId: trade.walletId,
+        type: trade.type,
+        status: trade.status,
+        inputMint: trade.inputMint,
+        outputMint: trade.outputMint,
+        inputSymbol: trade.inputSymbol,
+        outputSymbol: trade.outputSymbol,
+        inputAmount: trade.inputAmount,
+        outputAmount: trade.outputAmount,
+        inputDecimals: trade.inputDecimals,
+        outputDecimals: trade.outputDecimals,
+        inputUsdPrice: trade.inputUsdPrice,
+        outputUsdPrice: trade.outputUsdPrice,
+        inputUsdValue: trade.inputUsdValue,
+        outputUsdValue: trade.outputUsdValue,
+        routeLabels: trade.routeLabels.length > 0 ? trade.routeLabels.join(',') : null,
+        signature: trade.signature,
+        requestId: trade.requestId,
+        error: trade.error,
+        logMessages: trade.logMessages.length > 0 ? JSON.stringify(trade.logMessages) : null,
+        executedAt: trade.executedAt,
+      },
+    });
+
+    return this.toEntity(created);
+  }
+
+  async update(trade: Trade): Promise<Trade> {
+    const updated = await this.prisma.trade.update({
+      where: { id: trade.id },
+      data: {
+        status: trade.status,
+        inputUsdPrice: trade.inputUsdPrice,
+        outputUsdPrice: trade.outputUsdPrice,
+        inputUsdValue: trade.inputUsdValue,
+        outputUsdValue: trade.outputUsdValue,
+        error: trade.error ?? null,
+        logMessages: trade.logMessages.length > 0 ? JSON.stringify(trade.logMessages) : null,
+      },
+    });
+
+    return this.toEntity(updated);
+  }
+
+  async findById(id: string): Promise<Trade | null> {
+    const trade = await this.prisma.trade.findUnique({
+      where: { id },
+    });
+
+    return trade ? this.toEntity(trade) : null;
+  }
+
+  async findBySignature(signature: string): Promise<Trade[]> {
+    const trades = await this.prisma.trade.findMany({
+      where: { signature },
+      orderBy: { executedAt: 'asc' },
+    });
+
+    return trades.map((t) => this.toEntity(t));
+  }
+
+  async findByWallet(walletId: string, options?: TradeQueryOptions): Promise<Trade[]> {
+    const trades = await this.prisma.trade.findMany({
+      where: this.buildWhere(walletId, options),
+      orderBy: { executedAt: options?.order ?? 'desc' },
+      take: options?.limit,
+      skip: options?.offset,
+    });
+
+    return trades.map((t) => this.toEntity(t));
+  }
+
+  async countByWallet(walletId: string, options?: TradeQueryOptions): Promise<number> {
+    return this.prisma.trade.count({
+      where: this.buildWhere(walletId, options),
+    });
+  }
+
+  private buildWhere(walletId: string, options?: TradeQueryOptions): Prisma.TradeWhereInput {
+    const where: Prisma.TradeWhereInput = { walletId };
+
+    if (options?.mint) {
+      where.OR = [{ inputMint: options.mint }, { outputMint: options.mint }];
+    }
+    if (options?.type) {
+      where.type = options.type;
+    }
+    if (options?.status) {
+      where.status = options.status;
+    }
+    if (options?.from || options?.to) {
+      where.executedAt = {
+        ...(options.from ? { gte: options.from } : {}),
+        ...(options.to ? { lte: options.to } : {}),
+      };
+    }
+
+    return where;
+  }
+
+  private toEntity(data: PrismaTrade): Trade {
+    return new Trade(
+      data.id,
+      data.walletId,
+      data.type as TradeType,
+      data.inputMint,
+      data.outputMint,
+      data.inputAmount,
+      data.outputAmount,
+      data.inputDecimals,
+      data.outputDecimals,
+      data.signature,
+      {
+        status: data.status as TradeStatus,
+        inputSymbol: data.inputSymbol ?? undefined,
+        outputSymbol: data.outputSymbol ?? undefined,
+        inputUsdPrice: data.inputUsdPrice ?? undefined,
+        outputUsdPrice: data.outputUsdPrice ?? undefined,
+        inputUsdValue: data.inputUsdValue ?? undefined,
+        outputUsdValue: data.outputUsdValue ?? undefined,
+        routeLabels: data.routeLabels ? data.routeLabels.split(',') : [],
+        requestId: data.requestId ?? undefined,
+        error: data.error ?? undefined,
+        logMessages: data.logMessages ? (JSON.parse(data.logMessages) as string[]) : [],
+        executedAt: data.executedAt,
+      }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  PrismaClient,
+  TwapOrder as PrismaTwapOrder,
+  TwapSlice as PrismaTwapSlice,
+} from '@prisma/client';
+import {
+  TwapOrder,
+  TwapSlice,
+  TwapSliceStatus,
+  TwapStatus,
+} from '../../domain/entities/twap-order.entity';
+import { TwapOrderRepository } from '../../domain/repositories/twap-order.repository';
+
+type PrismaTwapOrderWithSlices = PrismaTwapOrder & { slices: PrismaTwapSlice[] };
+
+export class PrismaTwapOrderRepository implements TwapOrderRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async create(twap: TwapOrder): Promise<TwapOrder> {
+    const created = await this.prisma.twapOrder.create({
+      data: {
+        id: twap.id,
+        walletId: twap.walletId,
+        status: twap.status,
+        inputMint: twap.inputMint,
+        outputMint: twap.outputMint,
+        inputDecimals: twap.inputDecimals,
+        outputDecimals: twap.outputDecimals,
+        totalAmount: twap.totalAmount,
+        intervalSeconds: twap.intervalSeconds,
+        maxPriceImpactPct: twap.maxPriceImpactPct,
+        slippageBps: twap.slippageBps,
+        lastAttemptAt: twap.lastAttemptAt,
+        createdAt: twap.createdAt,
+        updatedAt: twap.updatedAt,
+        slices: {
+          create: twap.slices.map((slice) => this.toSliceData(slice)),
+        },
+      },
+      include: { slices: true },
+    });
+
+    return this.toEntity(created);
+  }
+
+  async findById(id: string): Promise<TwapOrder | null> {
+    const twap = await this.prisma.twapOrder.findUnique({
+      where: { id },
+      include: { slices: true },
+    });
+
+    return twap ? this.toEntity(twap) : null;
+  }
+
+  async findByStatus(statuses: TwapStatus[], walletId?: string): Promise<TwapOrder[]> {
+    const twaps = await this.prisma.twapOrder.findMany({
+      where: { status: { in: statuses }, ...(walletId ? { walletId } : {}) },
+      include: { slices: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return twaps.map((t) => this.toEntity(t));
+  }
+
+  async claimSlice(twap: TwapOrder, index: number): Promise<boolean> {
+    const claimed = await this.prisma.twapSlice.updateMany({
+      where: { twapId: twap.id, index, status: 'pending', twap: { status: 'active' } },
+      data: { status: 'executing' },
+    });
+    if (claimed.count === 0) return false;
+
+    await this.prisma.twapOrder.updateMany({
+      where: { id: twap.id, status: 'active' },
+      data: { lastAttemptAt: twap.lastAttemptAt, updatedAt: twap.updatedAt },
+    });
+    return true;
+  }
+
+  async saveSlice(twap: TwapOrder, slice: TwapSlice): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.twapSlice.update({
+        where: { twapId_index: { twapId: twap.id, index: slice.index } },
+        data: this.toSliceData(slice),
+      }),
+      this.prisma.twapOrder.updateMany({
+        where: { id: twap.id, status: 'active' },
+        data: this.toStatusData(twap),
+      }),
+    ]);
+  }
+
+  async saveStatus(twap: TwapOrder): Promise<boolean> {
+    const updated = await this.prisma.twapOrder.updateMany({
+      where: { id: twap.id, status: 'active' },
+      data: this.toStatusData(twap),
+    });
+
+    return updated.count > 0;
+  }
+
+  private toStatusData(twap: TwapOrder) {
+    return {
+      status: twap.status,
+      lastAttemptAt: twap.lastAttemptAt,
+      updatedAt: twap.updatedAt,
+    };
+  }
+
+  private toSliceData(slice: TwapSlice) {
+    return {
+      index: slice.index,
+      scheduledAt: slice.scheduledAt,
+      inputAmount: slice.inputAmount,
+      status: slice.status,
+      outputAmount: slice.outputAmount,
+      priceImpactPct: slice.priceImpactPct,
+      signature: slice.signature,
+      error: slice.error,
+      executedAt: slice.executedAt,
+    };
+  }
+
+  private toEntity(data: PrismaTwapOrderWithSlices): TwapOrder {
+    return new TwapOrder(
+      data.id,
+      data.walletId,
+      data.inputMint,
+      data.outputMint,
+      data.inputDecimals,
+      data.outputDecimals,
+      data.totalAmount,
+      data.intervalSeconds,
+      data.maxPriceImpactPct,
+      data.slippageBps,
+      data.slices.map((slice) => ({
+        index: slice.index,
+        scheduledAt: slice.scheduledAt,
+        inputAmount: slice.inputAmount,
+        status: slice.status as TwapSliceStatus,
+        outputAmount: slice.outputAmount ?? undefined,
+        priceImpactPct: slice.priceImpactPct ?? undefined,
+        signature: slice.signature ?? undefined,
+        error: slice.error ?? undefined,
+        executedAt: slice.executedAt ?? undefined,
+      })),
+      {
+        status: data.status as TwapStatus,
+        lastAttemptAt: data.lastAttemptAt ?? undefined,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt,
+      }
+    );
+  }
+}
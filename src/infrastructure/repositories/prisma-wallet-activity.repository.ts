@@ -0,0 +1,80 @@
+import { Prisma, PrismaClient, WalletActivity as PrismaWalletActivity } from '@prisma/client';
+import {
+  ActivityKind,
+  BalanceChange,
+  WalletActivity,
+} from '../../domain/entities/wallet-activity.entity';
+import {
+  ActivityQueryOptions,
+  WalletActivityRepository,
+} from '../../domain/repositories/wallet-activity.repository';
+
+export class PrismaWalletActivityRepository implements WalletActivityRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async create(activity: WalletActivity): Promise<WalletActivity> {
+    const created = await this.prisma.walletActivity.create({
+      data: {
+        id: activity.id,
+        walletId: activity.walletId,
+        signature: activity.signature,
+        kind: activity.kind,
+        slot: activity.slot,
+        blockTime: activity.blockTime,
+        fee: activity.fee,
+        failed: activity.failed,
+        changes: JSON.stringify(activity.changes),
+      },
+    });
+
+    return this.toEntity(created);
+  }
+
+  async exists(walletId: string, signature: string): Promise<boolean> {
+    const count = await this.prisma.walletActivity.count({
+      where: { walletId, signature },
+    });
+
+    return count > 0;
+  }
+
+  async findByWallet(walletId: string, options?: ActivityQueryOptions): Promise<WalletActivity[]> {
+    const where: Prisma.WalletActivityWhereInput = { walletId };
+
+    if (options?.kinds) {
+      where.kind = { in: options.kinds };
+    }
+    if (options?.from || options?.to) {
+      where.blockTime = {
+        ...(options.from ? { gte: options.from } : {}),
+        ...(options.to ? { lte: options.to } : {}),
+      };
+    }
+
+    const activities = await this.prisma.walletActivity.findMany({
+      where,
+      orderBy: { blockTime: options?.order ?? 'desc' },
+      take: options?.limit,
+    });
+
+    return activities.map((a) => this.toEntity(a));
+  }
+
+  private toEntity(data: PrismaWalletActivity): WalletActivity {
+    return new WalletActivity(
+      data.id,
+      data.walletId,
+      data.signature,
+      data.kind as ActivityKind,
+      data.slot,
+      data.blockTime,
+      JSON.parse(data.changes) as BalanceChange[],
+      data.fee,
+      data.failed
+    );
+  }
+}
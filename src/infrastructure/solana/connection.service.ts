@@ -1,4 +1,6 @@
 import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
   Connection,
   PublicKey,
   Transaction,
@@ -7,9 +9,31 @@ import {
 } from '@solana/web3.js';
 import { ConfigurationService } from '../../core/config/configuration.service';
 import { LoggerService } from '../../core/logger/logger.service';
-import { SignatureInfo, ParsedTransaction } from '../../application/ports/blockchain.port';
+import {
+  AddressLookupTablePort,
+  SimulatedAccount,
+  TransactionSimulation,
+  TransactionSimulationPort,
+  SignatureInfo,
+  ParsedTransaction,
+  TransactionHistoryPort,
+  TransactionSenderPort,
+  PrioritizationFeePort,
+  SignatureStatus,
+  SignatureStatusPort,
+} from '../../application/ports/blockchain.port';
+
+const MAX_PRIORITIZATION_FEE_ACCOUNTS = 128;
 
-export class ConnectionService {
+export class ConnectionService
+  implements
+    TransactionHistoryPort,
+    AddressLookupTablePort,
+    TransactionSimulationPort,
+    TransactionSenderPort,
+    PrioritizationFeePort,
+    SignatureStatusPort
+{
   private connection: Connection;
   private configService: ConfigurationService;
 
@@ -53,11 +77,14 @@ export class ConnectionService {
     }
   }
 
-  async sendTransaction(transaction: Transaction | VersionedTransaction): Promise<string> {
+  async sendTransaction(
+    transaction: Transaction | VersionedTransaction,
+    options?: { skipPreflight?: boolean }
+  ): Promise<string> {
     try {
       const signature = await this.connection.sendRawTransaction(transaction.serialize(), {
         maxRetries: 3,
-        skipPreflight: false,
+        skipPreflight: options?.skipPreflight ?? false,
         preflightCommitment: 'confirmed',
       });
 
@@ -121,13 +148,122 @@ export class ConnectionService {
     }
   }
 
+  async getSignatureStatus(signature: string): Promise<SignatureStatus | null> {
+    const { value } = await this.connection.getSignatureStatuses([signature], {
+      searchTransactionHistory: true,
+    });
+    const status = value[0];
+    if (!status) return null;
+    return {
+      slot: status.slot,
+      err: status.err ?? null,
+      confirmationStatus: status.confirmationStatus ?? null,
+    };
+  }
+
+  async isBlockhashValid(blockhash: string): Promise<boolean> {
+    const { value } = await this.connection.isBlockhashValid(blockhash, {
+      commitment: 'confirmed',
+    });
+    return value;
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.connection.getBlockHeight('confirmed');
+  }
+
+  /**
+   * Errors propagate: a transaction cannot be inspected without its tables.
+   */
+  async getLookupTableAddresses(tables: string[]): Promise<Map<string, string[]>> {
+    const result = new Map<string, string[]>();
+    if (tables.length === 0) {
+      return result;
+    }
+
+    const accounts = await this.connection.getMultipleAccountsInfo(
+      tables.map((table) => new PublicKey(table))
+    );
+    accounts.forEach((account, index) => {
+      const table = tables[index];
+      if (!table || !account?.owner.equals(AddressLookupTableProgram.programId)) return;
+      const state = AddressLookupTableAccount.deserialize(account.data);
+      result.set(
+        table,
+        state.addresses.map((address) => address.toBase58())
+      );
+    });
+    return result;
+  }
+
+  /**
+   * Signatures are not verified, so transactions still waiting for Jupiter's
+   * co-signature can be simulated too. The blockhash is kept as signed.
+   */
+  async simulateTransaction(
+    transaction: string,
+    accounts: string[]
+  ): Promise<TransactionSimulation> {
+    const tx = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+    const before = await this.connection.getMultipleAccountsInfo(
+      accounts.map((address) => new PublicKey(address))
+    );
+    const { value } = await this.connection.simulateTransaction(tx, {
+      sigVerify: false,
+      replaceRecentBlockhash: false,
+      accounts: { encoding: 'base64', addresses: accounts },
+    });
+
+    return {
+      err: value.err ?? null,
+      logs: value.logs ?? [],
+      unitsConsumed: value.unitsConsumed ?? null,
+      accounts: accounts.map((address, index) => {
+        const pre = before[index];
+        const post = value.accounts?.[index];
+        return {
+          address,
+          before: pre
+            ? { lamports: BigInt(pre.lamports), owner: pre.owner.toBase58(), data: pre.data }
+            : null,
+          after: post ? this.toSimulatedAccount(post) : null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * The RPC accepts at most 128 accounts; the rest are left out.
+   */
+  async getRecentPrioritizationFees(accounts: string[]): Promise<number[]> {
+    const fees = await this.connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: accounts
+        .slice(0, MAX_PRIORITIZATION_FEE_ACCOUNTS)
+        .map((address) => new PublicKey(address)),
+    });
+    return fees.map((fee) => fee.prioritizationFee);
+  }
+
+  private toSimulatedAccount(account: {
+    lamports: number;
+    owner: string;
+    data: string[];
+  }): SimulatedAccount {
+    return {
+      lamports: BigInt(account.lamports),
+      owner: account.owner,
+      data: Buffer.from(account.data[0] ?? '', 'base64'),
+    };
+  }
+
   async getSignaturesForAddress(
     address: string,
-    options?: { before?: string; limit?: number }
+    options?: { before?: string; until?: string; limit?: number }
   ): Promise<SignatureInfo[]> {
     try {
       const signatures = await this.connection.getSignaturesForAddress(new PublicKey(address), {
         before: options?.before,
+        until: options?.until,
         limit: options?.limit,
       });
 
@@ -198,11 +334,13 @@ export class ConnectionService {
                   const tokenBalance = tb as {
                     accountIndex: number;
                     mint: string;
+                    owner?: string;
                     uiTokenAmount: { amount: string; decimals: number; uiAmount: number };
                   };
                   return {
                     accountIndex: tokenBalance.accountIndex,
                     mint: tokenBalance.mint,
+                    owner: tokenBalance.owner,
                     uiTokenAmount: {
                       amount: tokenBalance.uiTokenAmount.amount,
                       decimals: tokenBalance.uiTokenAmount.decimals,
@@ -215,11 +353,13 @@ export class ConnectionService {
                   const tokenBalance = tb as {
                     accountIndex: number;
                     mint: string;
+                    owner?: string;
                     uiTokenAmount: { amount: string; decimals: number; uiAmount: number };
                   };
                   return {
                     accountIndex: tokenBalance.accountIndex,
                     mint: tokenBalance.mint,
+                    owner: tokenBalance.owner,
                     uiTokenAmount: {
                       amount: tokenBalance.uiTokenAmount.amount,
                       decimals: tokenBalance.uiTokenAmount.decimals,
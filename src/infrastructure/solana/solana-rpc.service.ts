@@ -1,17 +1,27 @@
 import { LoggerService } from '../../core/logger/logger.service';
 import { NetworkError } from '../../core/errors/api.errors';
-import { SolanaRpcPort, TokenAccount, WalletTokens } from '../../application/ports/blockchain.port';
+import {
+  MintExtensions,
+  MintExtensionsPort,
+  SolanaRpcPort,
+  TOKEN_PROGRAM_IDS,
+  TokenAccount,
+  TokenProgram,
+  WalletTokens,
+} from '../../application/ports/blockchain.port';
+import { TokenAmount } from '../../domain/values/token-amount';
+import { ParsedExtension, parseMintExtensions } from './token-extensions.parser';
 
 // RPC Response Types
-interface TokenAmount {
+interface RpcTokenAmount {
   amount: string;
   decimals: number;
-  uiAmount: number;
+  uiAmount: number | null;
 }
 
 interface TokenAccountInfo {
   mint: string;
-  tokenAmount: TokenAmount;
+  tokenAmount: RpcTokenAmount;
 }
 
 interface ParsedAccountData {
@@ -34,16 +44,28 @@ interface BalanceResponse {
   value: number;
 }
 
+interface MintAccountResponse {
+  value: Array<{
+    owner: string;
+    data: { parsed?: { info?: { extensions?: ParsedExtension[] } } } | unknown[];
+  } | null>;
+}
+
+interface EpochInfoResponse {
+  epoch: number;
+}
+
 // Configuration
 const RPC_TIMEOUT_MS = 10000; // 10 seconds
 const MAX_RETRIES = 3;
 const BASE_DELAY_MS = 1000;
+const MAX_ACCOUNTS_PER_CALL = 100; // getMultipleAccounts limit
 
 /**
  * Solana RPC Service - Uses public RPC to scan wallet tokens
  * With automatic retry and timeout
  */
-export class SolanaRpcService implements SolanaRpcPort {
+export class SolanaRpcService implements SolanaRpcPort, MintExtensionsPort {
   private rpcUrl: string;
   private maxRetries: number;
   private timeoutMs: number;
@@ -67,38 +89,29 @@ export class SolanaRpcService implements SolanaRpcPort {
         walletAddress,
       });
 
-      // Get token accounts
-      const tokenResponse = await this.callRpc<TokenAccountResponse>('getTokenAccountsByOwner', [
-        walletAddress,
-        { programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' },
-        { encoding: 'jsonParsed' },
+      // Token-2022 accounts are owned by a separate program and must be queried on their own
+      const [legacyTokens, token2022Tokens, balanceResponse] = await Promise.all([
+        this.getProgramTokenAccounts(walletAddress, 'spl-token'),
+        this.getProgramTokenAccounts(walletAddress, 'token-2022'),
+        this.callRpc<BalanceResponse>('getBalance', [walletAddress]),
       ]);
+      const solBalance = TokenAmount.fromRaw(String(balanceResponse.value), 9).toNumber();
 
-      // Get SOL balance
-      const balanceResponse = await this.callRpc<BalanceResponse>('getBalance', [walletAddress]);
-      const solBalance = balanceResponse.value / 1e9;
-
-      const tokens: TokenAccount[] = [];
-
-      if (tokenResponse.value) {
-        for (const account of tokenResponse.value) {
-          const parsed = account.account.data.parsed;
-          if (parsed && parsed.info) {
-            const token: TokenAccount = {
-              mint: parsed.info.mint,
-              amount: parsed.info.tokenAmount.amount,
-              decimals: parsed.info.tokenAmount.decimals,
-              uiAmount: parsed.info.tokenAmount.uiAmount || 0,
-            };
-
-            // Skip if amount is 0
-            if (token.uiAmount > 0) {
-              tokens.push(token);
-            }
+      if (token2022Tokens.length > 0) {
+        try {
+          const extensions = await this.getMintExtensions(token2022Tokens.map((t) => t.mint));
+          for (const token of token2022Tokens) {
+            token.extensions = extensions.get(token.mint);
           }
+        } catch (error) {
+          LoggerService.getInstance().warn('Failed to fetch Token-2022 extensions', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
         }
       }
 
+      const tokens = [...legacyTokens, ...token2022Tokens];
+
       LoggerService.getInstance().info(`Found ${tokens.length} tokens via Solana RPC`, {
         walletAddress,
       });
@@ -114,6 +127,76 @@ export class SolanaRpcService implements SolanaRpcPort {
     }
   }
 
+  async getMintExtensions(mints: string[]): Promise<Map<string, MintExtensions>> {
+    const result = new Map<string, MintExtensions>();
+    const unique = [...new Set(mints)];
+    if (unique.length === 0) {
+      return result;
+    }
+
+    const token2022 = new Map<string, ParsedExtension[]>();
+    for (let i = 0; i < unique.length; i += MAX_ACCOUNTS_PER_CALL) {
+      const chunk = unique.slice(i, i + MAX_ACCOUNTS_PER_CALL);
+      const response = await this.callRpc<MintAccountResponse>('getMultipleAccounts', [
+        chunk,
+        { encoding: 'jsonParsed' },
+      ]);
+
+      response.value.forEach((account, index) => {
+        const mint = chunk[index];
+        if (!mint || account?.owner !== TOKEN_PROGRAM_IDS['token-2022']) return;
+        const parsed = Array.isArray(account.data) ? undefined : account.data.parsed;
+        token2022.set(mint, parsed?.info?.extensions ?? []);
+      });
+    }
+
+    // The epoch is only needed to pick the transfer fee in effect
+    const needsEpoch = [...token2022.values()].some((extensions) =>
+      extensions.some((e) => e.extension === 'transferFeeConfig')
+    );
+    const epoch = needsEpoch
+      ? (await this.callRpc<EpochInfoResponse>('getEpochInfo', [])).epoch
+      : 0;
+
+    for (const [mint, extensions] of token2022) {
+      result.set(mint, parseMintExtensions(extensions, epoch));
+    }
+    return result;
+  }
+
+  private async getProgramTokenAccounts(
+    walletAddress: string,
+    program: TokenProgram
+  ): Promise<TokenAccount[]> {
+    const response = await this.callRpc<TokenAccountResponse>('getTokenAccountsByOwner', [
+      walletAddress,
+      { programId: TOKEN_PROGRAM_IDS[program] },
+      { encoding: 'jsonParsed' },
+    ]);
+
+    const tokens: TokenAccount[] = [];
+    for (const account of response.value ?? []) {
+      const parsed = account.account.data.parsed;
+      if (parsed && parsed.info) {
+        const { amount, decimals } = parsed.info.tokenAmount;
+        const balance = TokenAmount.fromRaw(amount, decimals);
+
+        // Skip if amount is 0
+        if (!balance.isZero()) {
+          tokens.push({
+            mint: parsed.info.mint,
+            amount,
+            decimals,
+            // RPC's uiAmount is a float and null for very large balances
+            uiAmount: balance.toNumber(),
+            program,
+          });
+        }
+      }
+    }
+    return tokens;
+  }
+
   /**
    * Call Solana RPC method with retry and timeout
    */
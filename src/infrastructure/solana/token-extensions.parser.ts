@@ -0,0 +1,59 @@
+import { MintExtensions, TransferFee } from '../../application/ports/blockchain.port';
+
+/**
+ * A mint extension as returned by RPC with `jsonParsed` encoding.
+ */
+export interface ParsedExtension {
+  extension: string;
+  state?: Record<string, unknown>;
+}
+
+interface ParsedTransferFee {
+  epoch: number;
+  maximumFee: number | string;
+  transferFeeBasisPoints: number;
+}
+
+function toTransferFee(fee: ParsedTransferFee): TransferFee {
+  return { basisPoints: fee.transferFeeBasisPoints, maxFee: String(fee.maximumFee) };
+}
+
+/**
+ * Keeps the extensions that matter to holders. A transfer fee update only
+ * takes effect from its epoch, so the older fee applies until then.
+ */
+export function parseMintExtensions(
+  extensions: ParsedExtension[],
+  currentEpoch: number
+): MintExtensions {
+  const result: MintExtensions = {};
+
+  for (const { extension, state } of extensions) {
+    switch (extension) {
+      case 'transferFeeConfig': {
+        const newer = state?.newerTransferFee as ParsedTransferFee | undefined;
+        const older = state?.olderTransferFee as ParsedTransferFee | undefined;
+        const current = newer && currentEpoch >= newer.epoch ? newer : older;
+        if (current && current.transferFeeBasisPoints > 0) {
+          result.transferFee = toTransferFee(current);
+        }
+        break;
+      }
+      case 'permanentDelegate':
+        if (typeof state?.delegate === 'string') {
+          result.permanentDelegate = state.delegate;
+        }
+        break;
+      case 'nonTransferable':
+        result.nonTransferable = true;
+        break;
+      case 'interestBearingConfig':
+        if (typeof state?.currentRate === 'number') {
+          result.interestBearing = { rateBps: state.currentRate };
+        }
+        break;
+    }
+  }
+
+  return result;
+}
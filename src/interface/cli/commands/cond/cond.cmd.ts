@@ -0,0 +1,275 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { PrismaClient } from '@prisma/client';
+import { UltraApiService } from '../../../../infrastructure/jupiter-api/ultra/ultra-api.service';
+import { PriceV3ApiService } from '../../../../infrastructure/jupiter-api/price/price-v3-api.service';
+import { PrismaWalletRepository } from '../../../../infrastructure/repositories/prisma-wallet.repository';
+import { PrismaTokenInfoRepository } from '../../../../infrastructure/repositories/prisma-token-info.repository';
+import { PrismaConditionalOrderRepository } from '../../../../infrastructure/repositories/prisma-conditional-order.repository';
+import { WalletResolverService } from '../../../../application/services/wallet/wallet-resolver.service';
+import { TokenInfoService } from '../../../../application/services/token-info.service';
+import { ConditionalOrderService } from '../../../../application/services/order/conditional-order.service';
+import { ConditionalOrder } from '../../../../domain/entities/conditional-order.entity';
+import { ConfigurationService } from '../../../../core/config/configuration.service';
+import {
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+} from '../../../../core/errors/cli.errors';
+import { createSpinner, printResult } from '../../output/output';
+import {
+  ConditionalOrderItem,
+  ConditionalOrderListResult,
+  ConditionalOrderLogResult,
+  toConditionalOrderItem,
+} from '../../output/results';
+
+const KIND_LABELS: Record<ConditionalOrderItem['kind'], string> = {
+  stop_loss: 'Stop-loss',
+  take_profit: 'Take-profit',
+  trailing_stop: 'Trailing',
+};
+
+function formatCondition(order: ConditionalOrderItem): string {
+  if (order.kind === 'trailing_stop') {
+    return `-${order.trailPct}% of $${order.highestPrice} → $${order.stopPrice}`;
+  }
+  return `${order.kind === 'stop_loss' ? '≤' : '≥'} $${order.stopPrice}`;
+}
+
+function formatStatus(status: ConditionalOrderItem['status']): string {
+  switch (status) {
+    case 'active':
+      return chalk.cyan(status);
+    case 'executed':
+      return chalk.green(status);
+    case 'failed':
+      return chalk.red(status);
+    case 'triggered':
+      return chalk.yellow(status);
+    default:
+      return chalk.dim(status);
+  }
+}
+
+function printConditionalOrders(result: ConditionalOrderListResult): void {
+  if (result.orders.length === 0) {
+    console.log(chalk.yellow('\nNo conditional orders. Add one with: jup-cli cond add'));
+    return;
+  }
+
+  console.log(chalk.bold(`\n🎯 Conditional Orders (${result.orders.length})\n`));
+  for (const order of result.orders) {
+    const input = order.inputSymbol ?? order.inputMint.slice(0, 6) + '...';
+    const output = order.outputSymbol ?? order.outputMint.slice(0, 6) + '...';
+    console.log(
+      `${chalk.dim(order.id)}  ${formatStatus(order.status)}${
+        order.ocoGroupId ? chalk.dim(` OCO ${order.ocoGroupId.slice(0, 8)}`) : ''
+      }`
+    );
+    console.log(
+      `  ${KIND_LABELS[order.kind].padEnd(12)} ${`${order.amount} ${input} → ${output}`.padEnd(28)} when ${input} ${formatCondition(order)}`
+    );
+    if (order.signature) {
+      console.log(chalk.dim(`  https://solscan.io/tx/${order.signature}`));
+    }
+    if (order.error) {
+      console.log(chalk.red(`  ${order.error}`));
+    }
+  }
+  console.log('');
+}
+
+export function printConditionalOrderEvents(result: ConditionalOrderLogResult): void {
+  for (const event of result.events) {
+    const color =
+      event.type === 'executed'
+        ? chalk.green
+        : event.type === 'failed'
+          ? chalk.red
+          : event.type === 'triggered'
+            ? chalk.yellow
+            : chalk.white;
+    console.log(
+      `${chalk.dim(event.createdAt.toLocaleString().padEnd(24))} ${chalk.dim(event.orderId.slice(0, 8))} ${color(event.type.padEnd(10))} ${event.message}${
+        event.signature ? chalk.dim(` ${event.signature}`) : ''
+      }`
+    );
+  }
+}
+
+export function eventCsvRows(result: ConditionalOrderLogResult): object[] {
+  return result.events.map((event) => ({
+    ...event,
+    price: event.price ?? '',
+    signature: event.signature ?? '',
+  }));
+}
+
+function orderCsvRows(result: ConditionalOrderListResult): object[] {
+  return result.orders.map((order) => ({
+    ...order,
+    inputSymbol: order.inputSymbol ?? '',
+    outputSymbol: order.outputSymbol ?? '',
+  }));
+}
+
+export function createCondCommands(
+  getPrisma: () => PrismaClient,
+  getDataDir: () => string | undefined
+): Command {
+  const cond = new Command('cond').description(
+    'Manage local stop-loss, take-profit and trailing-stop orders (run by `jup-cli watch`)'
+  );
+
+  const ultraApi = new UltraApiService();
+
+  const createServices = (prisma: PrismaClient) => {
+    const tokenInfoService = new TokenInfoService(new PrismaTokenInfoRepository(prisma), ultraApi);
+    const walletResolver = new WalletResolverService(new PrismaWalletRepository(prisma));
+    return {
+      tokenInfoService,
+      walletResolver,
+      conditionalOrders: new ConditionalOrderService(
+        walletResolver,
+        tokenInfoService,
+        new PriceV3ApiService(),
+        new PrismaConditionalOrderRepository(prisma)
+      ),
+    };
+  };
+
+  const toListResult = async (
+    tokenInfoService: TokenInfoService,
+    orders: ConditionalOrder[]
+  ): Promise<ConditionalOrderListResult> => {
+    const mints = new Set(orders.flatMap((o) => [o.inputMint, o.outputMint]));
+    const tokenInfo = await tokenInfoService.getTokenInfoBatch([...mints]);
+    const symbols = new Map([...tokenInfo].map(([mint, info]) => [mint, info.symbol]));
+    return { orders: orders.map((o) => toConditionalOrderItem(o, symbols)) };
+  };
+
+  cond
+    .command('add')
+    .description(
+      'Sell when the input token price crosses a level; two or more conditions form an OCO group'
+    )
+    .argument('<inputToken>', 'Token to sell (its USD price is watched)')
+    .argument('<outputToken>', 'Token to receive')
+    .argument('<amount>', 'Amount to sell, or 50%, max, $250 (worked out when triggered)')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier')
+    .option('--stop-loss <price>', 'Sell when the price falls to this USD price')
+    .option('--take-profit <price>', 'Sell when the price rises to this USD price')
+    .option('--trailing <percent>', 'Sell when the price falls this % below its highest')
+    .option('-s, --slippage <bps>', 'Slippage tolerance in basis points', '100')
+    .hook('preAction', () => {
+      if (!ConfigurationService.getInstance(getDataDir()).getConfig().jupiter.apiKey) {
+        throw new JupiterApiKeyMissingError();
+      }
+    })
+    .action(async (inputToken, outputToken, amount, options) => {
+      const slippageBps = parseInt(options.slippage, 10);
+      if (!(slippageBps > 0 && slippageBps <= 10_000)) {
+        throw new InvalidArgumentError('Slippage must be between 1 and 10000 bps', {
+          slippage: options.slippage,
+        });
+      }
+      const trailPct = options.trailing !== undefined ? Number(options.trailing) : undefined;
+      if (trailPct !== undefined && isNaN(trailPct)) {
+        throw new InvalidArgumentError(`Invalid trailing percentage "${options.trailing}"`);
+      }
+
+      const spinner = createSpinner('Adding conditional order...').start();
+      const { tokenInfoService, conditionalOrders } = createServices(getPrisma());
+      const created = await conditionalOrders.add({
+        wallet: options.wallet,
+        inputToken,
+        outputToken,
+        amount,
+        slippageBps,
+        stopLoss: options.stopLoss,
+        takeProfit: options.takeProfit,
+        trailPct,
+      });
+      spinner.stop();
+
+      printResult(await toListResult(tokenInfoService, created.orders), {
+        table: (result) => {
+          console.log(chalk.dim(`\nWallet: ${created.wallet.name}`));
+          console.log(
+            chalk.dim(`${created.input.symbol} price: $${created.currentPrice.toString()}`)
+          );
+          printConditionalOrders(result);
+          console.log(chalk.dim('Orders only execute while `jup-cli watch` is running.\n'));
+        },
+        csv: orderCsvRows,
+      });
+    });
+
+  cond
+    .command('list')
+    .description('List active and triggered conditional orders')
+    .option('-w, --wallet <identifier>', 'Only orders of this wallet')
+    .option('--all', 'Include executed, failed and cancelled orders')
+    .action(async (options) => {
+      const { tokenInfoService, walletResolver, conditionalOrders } = createServices(getPrisma());
+      const wallet = options.wallet ? await walletResolver.resolve(options.wallet) : undefined;
+      const orders = await conditionalOrders.list(wallet?.id, !!options.all);
+
+      printResult(await toListResult(tokenInfoService, orders), {
+        table: printConditionalOrders,
+        csv: orderCsvRows,
+      });
+    });
+
+  cond
+    .command('cancel')
+    .description('Cancel an active conditional order')
+    .argument('<id>', 'Conditional order ID (see cond list)')
+    .action(async (id: string) => {
+      const { tokenInfoService, conditionalOrders } = createServices(getPrisma());
+      const order = await conditionalOrders.cancel(id);
+
+      printResult(await toListResult(tokenInfoService, [order]), {
+        table: () => {
+          console.log(chalk.green('\n✅ Conditional order cancelled.'));
+          if (order.ocoGroupId) {
+            console.log(chalk.dim('   Other orders of its OCO group stay active.'));
+          }
+          console.log('');
+        },
+        csv: orderCsvRows,
+      });
+    });
+
+  cond
+    .command('log')
+    .description('Show the trigger and execution log')
+    .argument('[id]', 'Only events of this conditional order')
+    .option('--limit <n>', 'Most recent events to show', '50')
+    .action(async (id: string | undefined, options) => {
+      const limit = parseInt(options.limit, 10);
+      if (!(limit > 0)) {
+        throw new InvalidArgumentError(`Invalid limit "${options.limit}"`);
+      }
+      const { conditionalOrders } = createServices(getPrisma());
+      const events = (await conditionalOrders.events(id, limit)).reverse();
+
+      printResult(
+        { events },
+        {
+          table: (result) => {
+            if (result.events.length === 0) {
+              console.log(chalk.yellow('\nNo events logged.'));
+              return;
+            }
+            console.log('');
+            printConditionalOrderEvents(result);
+            console.log('');
+          },
+          csv: eventCsvRows,
+        }
+      );
+    });
+
+  return cond;
+}
@@ -1,7 +1,57 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import { ConfigurationService } from '../../../../core/config/configuration.service';
+import {
+  ConfigurationService,
+  COST_BASIS_METHODS,
+  DEFAULT_RISK_POLICY,
+  RiskLimits,
+} from '../../../../core/config/configuration.service';
+import { InvalidArgumentError } from '../../../../core/errors/cli.errors';
+
+type RiskValue = RiskLimits[keyof RiskLimits];
+
+function parseLimit(value: string): number | null {
+  if (value === 'none') return null;
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new InvalidArgumentError(`Invalid limit "${value}": expected a number or "none"`);
+  }
+  return limit;
+}
+
+function parseMints(value: string): string[] {
+  if (value === 'none') return [];
+  const mints = value.split(',').map((m) => m.trim());
+  const invalid = mints.find((m) => !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(m));
+  if (invalid !== undefined) {
+    throw new InvalidArgumentError(`Invalid mint address "${invalid}": lists take mint addresses`);
+  }
+  return mints;
+}
+
+function parseFlag(value: string): boolean {
+  if (value !== 'true' && value !== 'false') {
+    throw new InvalidArgumentError(`Invalid value "${value}": expected true or false`);
+  }
+  return value === 'true';
+}
+
+const RISK_RULES: Record<string, { key: keyof RiskLimits; parse: (value: string) => RiskValue }> = {
+  'max-slippage-bps': { key: 'maxSlippageBps', parse: parseLimit },
+  'max-price-impact-pct': { key: 'maxPriceImpactPct', parse: parseLimit },
+  'max-usd-per-trade': { key: 'maxUsdPerTrade', parse: parseLimit },
+  'max-usd-per-day': { key: 'maxUsdPerDay', parse: parseLimit },
+  'allow-tokens': { key: 'allowTokens', parse: parseMints },
+  'deny-tokens': { key: 'denyTokens', parse: parseMints },
+  'block-critical-warnings': { key: 'blockCriticalWarnings', parse: parseFlag },
+};
+
+function formatRiskValue(value: RiskValue, unit = ''): string {
+  if (value === null) return 'none';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  return `${value}${unit}`;
+}
 
 export function createConfigCommands(getDataDir: () => string | undefined): Command {
   const config = new Command('config').description('Manage configuration settings');
@@ -35,6 +85,38 @@ export function createConfigCommands(getDataDir: () => string | undefined): Comm
       console.log(`  Console: ${cfg.logging.console ? '✅' : '❌'}`);
       console.log(`  File:    ${cfg.logging.file ? '✅' : '❌'}`);
 
+      console.log(chalk.dim('\nTrading:'));
+      console.log(`  Default Slippage: ${cfg.trading.defaultSlippageBps} bps`);
+      console.log(`  Max Slippage:     ${cfg.trading.maxSlippageBps} bps`);
+      console.log(`  Cost Basis:       ${cfg.trading.costBasisMethod}`);
+      console.log(`  SOL Reserve:      ${cfg.trading.solReserve} SOL`);
+
+      console.log(chalk.dim('\nRisk Policy:'));
+      console.log(`  Max Price Impact:  ${formatRiskValue(cfg.risk.maxPriceImpactPct, '%')}`);
+      console.log(`  Max USD per Trade: ${formatRiskValue(cfg.risk.maxUsdPerTrade)}`);
+      console.log(`  Max USD per Day:   ${formatRiskValue(cfg.risk.maxUsdPerDay)}`);
+      console.log(
+        `  Allowed Tokens:    ${cfg.risk.allowTokens.length > 0 ? cfg.risk.allowTokens.join(', ') : 'any'}`
+      );
+      console.log(`  Denied Tokens:     ${formatRiskValue(cfg.risk.denyTokens)}`);
+      console.log(`  Block Critical:    ${cfg.risk.blockCriticalWarnings ? '✅' : '❌'}`);
+      for (const [wallet, limits] of Object.entries(cfg.risk.wallets)) {
+        const rules = Object.entries(limits).map(([k, v]) => `${k}=${formatRiskValue(v)}`);
+        console.log(`  Wallet ${wallet}: ${rules.join(', ') || 'inherits global limits'}`);
+      }
+
+      const fees = cfg.priorityFees;
+      console.log(chalk.dim('\nPriority Fees (transactions sent over your RPC):'));
+      console.log(
+        `  Price:          ${
+          fees.mode === 'auto'
+            ? `auto, p${fees.percentile} of recent fees`
+            : `${fees.microLamports} micro-lamports per unit`
+        }`
+      );
+      console.log(`  Max Price:      ${fees.maxMicroLamports} micro-lamports per unit`);
+      console.log(`  Compute Margin: ${fees.computeUnitMarginPct}% over simulation`);
+
       console.log();
     });
 
@@ -67,20 +149,13 @@ export function createConfigCommands(getDataDir: () => string | undefined): Comm
         apiKey = answer.apiKey;
       }
 
-      try {
-        const cfg = configService.getConfig();
-        cfg.jupiter.apiKey = apiKey.trim();
-        configService.saveConfiguration();
-
-        console.log(chalk.green('\n✅ Jupiter API key configured successfully!'));
-        console.log(chalk.dim('\nYou can now use Jupiter trading commands.'));
-        console.log(chalk.dim('Get your API key at: https://portal.jup.ag/'));
-      } catch (error) {
-        console.error(
-          chalk.red(`\n❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
-      }
+      const cfg = configService.getConfig();
+      cfg.jupiter.apiKey = apiKey.trim();
+      configService.saveConfiguration();
+
+      console.log(chalk.green('\n✅ Jupiter API key configured successfully!'));
+      console.log(chalk.dim('\nYou can now use Jupiter trading commands.'));
+      console.log(chalk.dim('Get your API key at: https://portal.jup.ag/'));
     });
 
   // Remove Jupiter API key
@@ -105,19 +180,12 @@ export function createConfigCommands(getDataDir: () => string | undefined): Comm
         return;
       }
 
-      try {
-        const cfg = configService.getConfig();
-        cfg.jupiter.apiKey = '';
-        configService.saveConfiguration();
+      const cfg = configService.getConfig();
+      cfg.jupiter.apiKey = '';
+      configService.saveConfiguration();
 
-        console.log(chalk.green('\n✅ Jupiter API key removed.'));
-        console.log(chalk.yellow('\n⚠️  Trading commands will not work without an API key.'));
-      } catch (error) {
-        console.error(
-          chalk.red(`\n❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
-      }
+      console.log(chalk.green('\n✅ Jupiter API key removed.'));
+      console.log(chalk.yellow('\n⚠️  Trading commands will not work without an API key.'));
     });
 
   // Set custom RPC URL
@@ -129,19 +197,12 @@ export function createConfigCommands(getDataDir: () => string | undefined): Comm
       const dataDir = getDataDir();
       const configService = new ConfigurationService(dataDir);
 
-      try {
-        const cfg = configService.getConfig();
-        cfg.solana.rpcUrl = url;
-        configService.saveConfiguration();
+      const cfg = configService.getConfig();
+      cfg.solana.rpcUrl = url;
+      configService.saveConfiguration();
 
-        console.log(chalk.green('\n✅ RPC URL updated successfully!'));
-        console.log(chalk.dim(`New URL: ${url}`));
-      } catch (error) {
-        console.error(
-          chalk.red(`\n❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
-      }
+      console.log(chalk.green('\n✅ RPC URL updated successfully!'));
+      console.log(chalk.dim(`New URL: ${url}`));
     });
 
   // Set log level
@@ -153,27 +214,178 @@ export function createConfigCommands(getDataDir: () => string | undefined): Comm
       const validLevels = ['debug', 'info', 'warn', 'error'];
 
       if (!validLevels.includes(level.toLowerCase())) {
-        console.error(
-          chalk.red(`\n❌ Invalid log level. Must be one of: ${validLevels.join(', ')}`)
+        throw new InvalidArgumentError(
+          `Invalid log level. Must be one of: ${validLevels.join(', ')}`,
+          { level }
+        );
+      }
+
+      const dataDir = getDataDir();
+      const configService = new ConfigurationService(dataDir);
+
+      const cfg = configService.getConfig();
+      cfg.logging.level = level.toLowerCase();
+      configService.saveConfiguration();
+
+      console.log(chalk.green('\n✅ Log level updated successfully!'));
+      console.log(chalk.dim(`New level: ${level.toLowerCase()}`));
+    });
+
+  // Set cost basis method
+  config
+    .command('set-cost-basis')
+    .description('Set cost basis method used for PnL')
+    .argument('<method>', `Cost basis method (${COST_BASIS_METHODS.join(', ')})`)
+    .action(async (method) => {
+      const normalized = method.toLowerCase();
+      const validMethods: readonly string[] = COST_BASIS_METHODS;
+
+      if (!validMethods.includes(normalized)) {
+        throw new InvalidArgumentError(
+          `Invalid cost basis method. Must be one of: ${validMethods.join(', ')}`,
+          { method }
         );
-        process.exit(1);
       }
 
       const dataDir = getDataDir();
       const configService = new ConfigurationService(dataDir);
 
-      try {
-        const cfg = configService.getConfig();
-        cfg.logging.level = level.toLowerCase();
-        configService.saveConfiguration();
+      const cfg = configService.getConfig();
+      cfg.trading.costBasisMethod = normalized;
+      configService.saveConfiguration();
+
+      console.log(chalk.green('\n✅ Cost basis method updated successfully!'));
+      console.log(chalk.dim(`New method: ${normalized}`));
+    });
+
+  // Set the SOL kept back by `max` amounts
+  config
+    .command('set-sol-reserve')
+    .description('Set the SOL that "max" swap and order amounts leave for fees and rent')
+    .argument('<amount>', 'Amount in SOL, e.g. 0.01')
+    .action(async (amount) => {
+      const reserve = Number(amount);
+      if (!Number.isFinite(reserve) || reserve < 0) {
+        throw new InvalidArgumentError('Invalid SOL reserve. Must be a number of SOL, 0 or more', {
+          amount,
+        });
+      }
+
+      const dataDir = getDataDir();
+      const configService = new ConfigurationService(dataDir);
+
+      const cfg = configService.getConfig();
+      cfg.trading.solReserve = reserve;
+      configService.saveConfiguration();
+
+      console.log(chalk.green('\n✅ SOL reserve updated successfully!'));
+      console.log(chalk.dim(`New reserve: ${reserve} SOL`));
+    });
+
+  // Set the priority fee of transactions sent over RPC
+  config
+    .command('set-priority-fee')
+    .description('Set the priority fee of transactions the CLI sends over your RPC')
+    .argument(
+      '<price>',
+      '"auto" to follow recent fees, or a fixed price in micro-lamports per unit'
+    )
+    .option('--percentile <p>', 'auto: percentile of recent fees to pay, 0-100')
+    .option('--max <micro-lamports>', 'Cap on the price, fixed or auto')
+    .option('--margin <pct>', 'Compute units to allow over the simulated usage, in percent')
+    .action(async (price, options) => {
+      const parseNumber = (value: string, name: string, max = Infinity): number => {
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed < 0 || parsed > max) {
+          throw new InvalidArgumentError(`Invalid ${name}`, { [name]: value });
+        }
+        return parsed;
+      };
+
+      const dataDir = getDataDir();
+      const configService = new ConfigurationService(dataDir);
+
+      const fees = configService.getConfig().priorityFees;
+      if (price === 'auto') {
+        fees.mode = 'auto';
+      } else {
+        fees.mode = 'fixed';
+        fees.microLamports = Math.floor(parseNumber(price, 'price'));
+      }
+      if (options.percentile !== undefined) {
+        fees.percentile = parseNumber(options.percentile, 'percentile', 100);
+      }
+      if (options.max !== undefined) {
+        fees.maxMicroLamports = Math.floor(parseNumber(options.max, 'max'));
+      }
+      if (options.margin !== undefined) {
+        fees.computeUnitMarginPct = parseNumber(options.margin, 'margin');
+      }
+      configService.saveConfiguration();
+
+      console.log(chalk.green('\n✅ Priority fee updated successfully!'));
+      console.log(
+        chalk.dim(
+          fees.mode === 'auto'
+            ? `Price: p${fees.percentile} of recent fees, at most ${fees.maxMicroLamports} micro-lamports per unit`
+            : `Price: ${Math.min(fees.microLamports, fees.maxMicroLamports)} micro-lamports per unit`
+        )
+      );
+    });
+
+  // Set a risk policy limit, globally or for one wallet
+  config
+    .command('set-risk')
+    .description('Set a risk policy limit checked before trades and orders are signed')
+    .argument('<rule>', `Rule (${Object.keys(RISK_RULES).join(', ')})`)
+    .argument(
+      '[value]',
+      'Number or "none", comma-separated mints or "none", true/false. Omit to reset'
+    )
+    .option('-w, --wallet <name>', 'Override for one wallet (name or UUID)')
+    .action(async (rule, value: string | undefined, options) => {
+      const definition = RISK_RULES[rule];
+      if (!definition) {
+        throw new InvalidArgumentError(
+          `Invalid risk rule. Must be one of: ${Object.keys(RISK_RULES).join(', ')}`,
+          { rule }
+        );
+      }
+
+      const dataDir = getDataDir();
+      const configService = new ConfigurationService(dataDir);
+      const cfg = configService.getConfig();
+      const { key } = definition;
+
+      if (options.wallet) {
+        const overrides: RiskLimits = { ...cfg.risk.wallets[options.wallet] };
+        if (value === undefined) {
+          delete overrides[key];
+        } else {
+          Object.assign(overrides, { [key]: definition.parse(value) });
+        }
+        cfg.risk.wallets[options.wallet] = overrides;
+      } else if (key === 'maxSlippageBps') {
+        const limit = value === undefined ? null : definition.parse(value);
+        if (typeof limit !== 'number') {
+          throw new InvalidArgumentError(
+            'The global slippage limit (trading.maxSlippageBps) needs a number'
+          );
+        }
+        cfg.trading.maxSlippageBps = limit;
+      } else {
+        Object.assign(cfg.risk, {
+          [key]: value === undefined ? DEFAULT_RISK_POLICY[key] : definition.parse(value),
+        });
+      }
+      configService.saveConfiguration();
 
-        console.log(chalk.green('\n✅ Log level updated successfully!'));
-        console.log(chalk.dim(`New level: ${level.toLowerCase()}`));
-      } catch (error) {
-        console.error(
-          chalk.red(`\n❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      const scope = options.wallet ? `wallet ${options.wallet}` : 'all wallets';
+      console.log(chalk.green(`\n✅ Risk rule ${rule} updated for ${scope}`));
+      if (value === undefined) {
+        console.log(
+          chalk.dim(options.wallet ? 'Now inherits the global value' : 'Reset to default')
         );
-        process.exit(1);
       }
     });
 
@@ -0,0 +1,438 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { PrismaClient } from '@prisma/client';
+import { RecurringApiService } from '../../../../infrastructure/jupiter-api/recurring/recurring-api.service';
+import { UltraApiService } from '../../../../infrastructure/jupiter-api/ultra/ultra-api.service';
+import { PrismaWalletRepository } from '../../../../infrastructure/repositories/prisma-wallet.repository';
+import { PrismaTokenInfoRepository } from '../../../../infrastructure/repositories/prisma-token-info.repository';
+import { PrismaTradeRepository } from '../../../../infrastructure/repositories/prisma-trade.repository';
+import { PrismaSyncCursorRepository } from '../../../../infrastructure/repositories/prisma-sync-cursor.repository';
+import { ConnectionService } from '../../../../infrastructure/solana/connection.service';
+import { solanaRpcService } from '../../../../infrastructure/solana/solana-rpc.service';
+import { WalletResolverService } from '../../../../application/services/wallet/wallet-resolver.service';
+import { TokenInfoService } from '../../../../application/services/token-info.service';
+import {
+  RecurringOrderService,
+  TypedRecurringOrder,
+} from '../../../../application/services/order/recurring-order.service';
+import { RecurringFillSyncService } from '../../../../application/services/order/recurring-fill-sync.service';
+import { TradeService, toUiAmount } from '../../../../application/services/trade/trade.service';
+import { AmountResolverService } from '../../../../application/services/trade/amount-resolver.service';
+import { parseDuration } from '../../../../application/services/trade/twap.service';
+import { TransactionInspectorService } from '../../../../application/services/security/transaction-inspector.service';
+import { ConfigurationService } from '../../../../core/config/configuration.service';
+import { RiskPolicyViolationError } from '../../../../core/errors/risk.errors';
+import { UnsafeTransactionError } from '../../../../core/errors/transaction.errors';
+import {
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+} from '../../../../core/errors/cli.errors';
+import {
+  assertInteractive,
+  createSpinner,
+  isMachineOutput,
+  printResult,
+} from '../../output/output';
+import {
+  DcaCreateResult,
+  DcaHistoryResult,
+  DcaItem,
+  DcaListResult,
+  toDcaItem,
+} from '../../output/results';
+import { displayTransactionInspection } from '../trade/transaction-formatters';
+import { formatInterval } from '../../output/twap-output';
+import { loadSessionKey } from '../../output/session-key';
+import { createRiskPolicyService } from '../../../service-factory';
+
+function parseStart(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new InvalidArgumentError(`Invalid start time: ${value} (e.g. 2026-11-01T09:00)`);
+  }
+  return date;
+}
+
+function printDcaOrder(order: DcaItem): void {
+  const input = order.inputSymbol ?? order.inputMint.slice(0, 6) + '...';
+  const output = order.outputSymbol ?? order.outputMint.slice(0, 6) + '...';
+  const schedule =
+    order.type === 'time'
+      ? `${order.amountPerCycle ?? '?'} ${input} every ${formatInterval(order.intervalSeconds)}`
+      : `+$${order.incrementUsd ?? '?'} of ${output} every ${formatInterval(order.intervalSeconds)}`;
+
+  console.log(`${chalk.dim(order.orderKey)}  ${chalk.cyan(order.type)}`);
+  console.log(`  ${input} → ${output}: ${schedule}`);
+  console.log(
+    `  Used ${order.used}/${order.deposited} ${input} → ${chalk.green(`${order.received} ${output}`)} in ${order.fills} fill(s)`
+  );
+  console.log(chalk.dim(`  Created ${new Date(order.createdAt).toLocaleString()}`));
+}
+
+function printDcaList(result: DcaListResult): void {
+  console.log(chalk.dim(`\nWallet: ${result.wallet.name}\n`));
+  if (result.orders.length === 0) {
+    console.log(
+      chalk.yellow(
+        result.status === 'history'
+          ? 'No recurring order history found.'
+          : 'No active recurring orders. Create one with: jup-cli dca create'
+      )
+    );
+    return;
+  }
+
+  console.log(
+    chalk.bold(
+      result.status === 'history'
+        ? `\n📋 Recurring Order History (${result.orders.length})\n`
+        : `\n🔁 Active Recurring Orders (${result.orders.length})\n`
+    )
+  );
+  for (const order of result.orders) {
+    printDcaOrder(order);
+    console.log('');
+  }
+}
+
+export function createDcaCommands(
+  getPrisma: () => PrismaClient,
+  getDataDir: () => string | undefined
+): Command {
+  const dca = new Command('dca').description(
+    'Manage recurring (DCA) orders run by the Jupiter Recurring API'
+  );
+
+  const recurringApi = new RecurringApiService();
+  const ultraApi = new UltraApiService();
+
+  const createServices = (prisma: PrismaClient, dataDir: string | undefined) => {
+    const config = ConfigurationService.getInstance(dataDir).getConfig();
+    const priceProvider = { getPrice: async (mints: string[]) => ultraApi.getPrice(mints) };
+    const tradeRepo = new PrismaTradeRepository(prisma);
+    const walletResolver = new WalletResolverService(new PrismaWalletRepository(prisma));
+    const tokenInfoService = new TokenInfoService(new PrismaTokenInfoRepository(prisma), ultraApi);
+    const tradeService = new TradeService(tradeRepo, priceProvider);
+    return {
+      walletResolver,
+      tokenInfoService,
+      tradeService,
+      recurringOrders: new RecurringOrderService(
+        walletResolver,
+        tokenInfoService,
+        recurringApi,
+        createRiskPolicyService(prisma, config),
+        new TransactionInspectorService(new ConnectionService()),
+        new AmountResolverService(solanaRpcService, priceProvider, config.trading.solReserve)
+      ),
+      fillSync: new RecurringFillSyncService(
+        recurringApi,
+        tradeService,
+        new PrismaSyncCursorRepository(prisma),
+        tokenInfoService
+      ),
+    };
+  };
+
+  const toListResult = async (
+    tokenInfoService: TokenInfoService,
+    wallet: DcaListResult['wallet'],
+    status: DcaListResult['status'],
+    orders: TypedRecurringOrder[]
+  ): Promise<DcaListResult> => {
+    const mints = new Set(orders.flatMap((o) => [o.inputMint, o.outputMint]));
+    const tokenInfo = await tokenInfoService.getTokenInfoBatch([...mints]);
+    const symbols = new Map([...tokenInfo].map(([mint, info]) => [mint, info.symbol]));
+    return { wallet, status, orders: orders.map((o) => toDcaItem(o, symbols)) };
+  };
+
+  const requireApiKey = () => {
+    if (!ConfigurationService.getInstance(getDataDir()).getConfig().jupiter.apiKey) {
+      throw new JupiterApiKeyMissingError();
+    }
+  };
+
+  dca
+    .command('create')
+    .description('Deposit an amount that Jupiter swaps in cycles, by time or by price')
+    .argument('<inputToken>', 'Input token (what you spend)')
+    .argument('<outputToken>', 'Output token (what you buy)')
+    .argument('<amount>', 'Total deposit of input token, or 50%, max, $250')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier')
+    .requiredOption('--every <duration>', 'Time between cycles, e.g. 1h or 1d')
+    .option('--orders <n>', 'Time-based: split the deposit into this many cycles')
+    .option('--increment <usd>', 'Price-based: grow the position by this USD value each cycle')
+    .option('--min-price <price>', 'Time-based: skip cycles below this price')
+    .option('--max-price <price>', 'Time-based: skip cycles above this price')
+    .option('--start <date>', 'Start time of the first cycle (default: now)')
+    .option('-p, --password <password>', 'Master password (optional if session exists)')
+    .option('-y, --yes', 'Skip confirmation')
+    .option('--show-instructions', 'Print the programs, accounts and instructions to be signed')
+    .hook('preAction', requireApiKey)
+    .action(async (inputToken, outputToken, amount, options) => {
+      const prisma = getPrisma();
+      const dataDir = getDataDir();
+      const { recurringOrders } = createServices(prisma, dataDir);
+      const spinner = createSpinner();
+
+      spinner.start('Resolving tokens...');
+      const draft = await recurringOrders.prepare({
+        wallet: options.wallet,
+        inputToken,
+        outputToken,
+        amount,
+        intervalSeconds: parseDuration(options.every),
+        numberOfOrders: options.orders !== undefined ? Number(options.orders) : undefined,
+        incrementUsd: options.increment,
+        minPrice: options.minPrice,
+        maxPrice: options.maxPrice,
+        startAt: options.start ? parseStart(options.start) : undefined,
+      });
+      spinner.stop();
+
+      spinner.start('Checking risk policy...');
+      const riskViolations = await recurringOrders.checkPolicy(draft);
+      spinner.stop();
+      if (riskViolations.length > 0) {
+        throw new RiskPolicyViolationError(riskViolations);
+      }
+
+      spinner.start('Inspecting order transaction...');
+      const orderTransaction = await recurringOrders.buildTransaction(draft);
+      const inspection = await recurringOrders.inspectTransaction(orderTransaction);
+      spinner.stop();
+
+      const { wallet, input, output } = draft;
+      const every = formatInterval(draft.intervalSeconds);
+      if (!isMachineOutput()) {
+        console.log(chalk.dim(`\nWallet: ${wallet.name}\n`));
+        console.log(chalk.bold(`🔁 Recurring Order (${draft.type}-based)\n`));
+        console.log(
+          `  Deposit: ${chalk.cyan(`${draft.amount.toString()} ${input.symbol}`)}${
+            draft.amountBasis ? chalk.dim(` (${draft.amountBasis})`) : ''
+          } → ${output.symbol}`
+        );
+        if (draft.type === 'time') {
+          console.log(
+            `  Cycles:  ${draft.numberOfOrders} of ${draft.amountPerOrder?.toString()} ${input.symbol}, every ${every}`
+          );
+          if (draft.minPrice || draft.maxPrice) {
+            console.log(
+              `  Price:   ${draft.minPrice ?? '0'} – ${draft.maxPrice ?? '∞'} ${input.symbol} per ${output.symbol}`
+            );
+          }
+        } else {
+          console.log(
+            `  Target:  ${output.symbol} position grows by $${draft.incrementUsd} every ${every}`
+          );
+        }
+        console.log(`  Start:   ${(draft.startAt ?? new Date()).toLocaleString()}\n`);
+        if (options.showInstructions) {
+          displayTransactionInspection(inspection, [input, output]);
+        }
+      }
+      if (inspection.violations.length > 0) {
+        throw new UnsafeTransactionError(inspection.violations);
+      }
+
+      let confirm = options.yes;
+      if (!confirm) {
+        assertInteractive('Recurring order confirmation', '--yes');
+        const answer = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: `Deposit ${draft.amount.toString()} ${input.symbol} into this recurring order?`,
+            default: false,
+          },
+        ]);
+        confirm = answer.confirm;
+      }
+
+      if (!confirm) {
+        console.log(chalk.dim('Order cancelled.'));
+        return;
+      }
+
+      const sessionKey = await loadSessionKey(prisma, dataDir, options.password);
+
+      spinner.start('Creating recurring order...');
+      const created = await recurringOrders.submit(orderTransaction, sessionKey);
+      spinner.stop();
+
+      const result: DcaCreateResult = {
+        wallet: { id: wallet.id, name: wallet.name, address: wallet.address },
+        type: draft.type,
+        orderKey: created.orderKey,
+        signature: created.signature,
+        input: {
+          mint: input.mint,
+          symbol: input.symbol,
+          amount: draft.amount.toString(),
+          perOrder: draft.amountPerOrder?.toString() ?? null,
+        },
+        output: { mint: output.mint, symbol: output.symbol },
+        intervalSeconds: draft.intervalSeconds,
+        numberOfOrders: draft.numberOfOrders,
+        incrementUsd: draft.incrementUsd,
+        minPrice: draft.minPrice,
+        maxPrice: draft.maxPrice,
+        startAt: draft.startAt,
+      };
+      printResult(result, {
+        table: (r) => {
+          console.log(chalk.green('\n✅ Recurring order created!\n'));
+          if (r.orderKey) {
+            console.log(`  Order: ${r.orderKey}`);
+          }
+          console.log(`  Signature: ${chalk.dim(r.signature)}`);
+          console.log(chalk.dim('\nRecord its fills with: jup-cli dca history\n'));
+        },
+        csv: (r) => [
+          {
+            orderKey: r.orderKey ?? '',
+            signature: r.signature,
+            type: r.type,
+            inputSymbol: r.input.symbol,
+            outputSymbol: r.output.symbol,
+            amount: r.input.amount,
+            intervalSeconds: r.intervalSeconds,
+          },
+        ],
+      });
+    });
+
+  dca
+    .command('list')
+    .description('List recurring orders of both types')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier')
+    .option('--history', 'Show completed and cancelled orders')
+    .hook('preAction', requireApiKey)
+    .action(async (options) => {
+      const { walletResolver, tokenInfoService, recurringOrders } = createServices(
+        getPrisma(),
+        getDataDir()
+      );
+      const wallet = await walletResolver.resolve(options.wallet);
+      const status = options.history ? 'history' : 'active';
+      const spinner = createSpinner('Fetching recurring orders...').start();
+      const orders = await recurringOrders.list(wallet, status);
+      spinner.stop();
+
+      printResult(
+        await toListResult(
+          tokenInfoService,
+          { id: wallet.id, name: wallet.name, address: wallet.address },
+          status,
+          orders
+        ),
+        { table: printDcaList, csv: (r) => r.orders }
+      );
+    });
+
+  dca
+    .command('cancel')
+    .description('Close a recurring order; the unused deposit and bought tokens go back')
+    .argument('<orderKey>', 'Order key (see dca list)')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier')
+    .option('-p, --password <password>', 'Master password (optional if session exists)')
+    .hook('preAction', requireApiKey)
+    .action(async (orderKey: string, options) => {
+      const prisma = getPrisma();
+      const dataDir = getDataDir();
+      const { walletResolver, recurringOrders } = createServices(prisma, dataDir);
+      const wallet = await walletResolver.resolve(options.wallet);
+      const sessionKey = await loadSessionKey(prisma, dataDir, options.password);
+
+      const spinner = createSpinner('Cancelling recurring order...').start();
+      const signature = await recurringOrders.cancel(wallet, orderKey, sessionKey);
+      spinner.stop();
+
+      printResult(
+        { orderKey, signature },
+        {
+          table: (r) => {
+            console.log(chalk.green('\n✅ Recurring order cancelled.\n'));
+            console.log(`  Signature: ${chalk.dim(r.signature)}\n`);
+          },
+          csv: (r) => [r],
+        }
+      );
+    });
+
+  dca
+    .command('history')
+    .description('Record recurring order fills in trade history and list them')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier')
+    .option('--limit <n>', 'Number of fills to show', '20')
+    .hook('preAction', requireApiKey)
+    .action(async (options) => {
+      const { walletResolver, tradeService, fillSync } = createServices(getPrisma(), getDataDir());
+      const limit = parseInt(options.limit, 10);
+      if (!(limit > 0)) {
+        throw new InvalidArgumentError('Limit must be a positive integer');
+      }
+
+      const wallet = await walletResolver.resolve(options.wallet);
+      const spinner = createSpinner('Syncing recurring order fills...').start();
+      const synced = await fillSync.syncFills(wallet.id, wallet.address);
+      const { trades, total } = await tradeService.getTradeHistory(wallet.id, {
+        type: 'recurring_order',
+        limit,
+      });
+      spinner.stop();
+
+      const result: DcaHistoryResult = {
+        wallet: { id: wallet.id, name: wallet.name, address: wallet.address },
+        recorded: synced.recorded.length,
+        duplicates: synced.duplicates,
+        skipped: synced.skipped,
+        fills: trades.map((trade) => ({
+          orderKey: trade.requestId ?? null,
+          signature: trade.signature,
+          inputMint: trade.inputMint,
+          outputMint: trade.outputMint,
+          inputSymbol: trade.inputSymbol ?? null,
+          outputSymbol: trade.outputSymbol ?? null,
+          inputAmount: toUiAmount(trade.inputAmount, trade.inputDecimals).toString(),
+          outputAmount: toUiAmount(trade.outputAmount, trade.outputDecimals).toString(),
+          inputUsdValue: trade.inputUsdValue ?? null,
+          executedAt: trade.executedAt,
+        })),
+        total,
+      };
+
+      printResult(result, {
+        table: (r) => {
+          console.log(chalk.dim(`\nWallet: ${r.wallet.name}\n`));
+          console.log(
+            r.recorded > 0
+              ? chalk.green(`✅ Recorded ${r.recorded} new fill(s)`)
+              : chalk.dim('No new fills')
+          );
+          if (r.skipped > 0) {
+            console.log(chalk.yellow(`⚠️  ${r.skipped} fill(s) skipped (unknown token)`));
+          }
+          if (r.fills.length === 0) {
+            console.log(chalk.yellow('\nNo recurring order fills recorded.\n'));
+            return;
+          }
+
+          console.log(chalk.bold(`\n🔁 Recurring Order Fills (${r.fills.length} of ${r.total})\n`));
+          for (const fill of r.fills) {
+            const input = `${fill.inputAmount} ${fill.inputSymbol ?? fill.inputMint.slice(0, 6) + '...'}`;
+            const output = `${fill.outputAmount} ${fill.outputSymbol ?? fill.outputMint.slice(0, 6) + '...'}`;
+            const usd = fill.inputUsdValue ? `$${parseFloat(fill.inputUsdValue).toFixed(2)}` : '';
+            console.log(
+              `${fill.executedAt.toLocaleString().padEnd(24)} ${input.padEnd(25)} → ${output.padEnd(25)} ${chalk.dim(usd)}`
+            );
+          }
+          console.log(chalk.dim('\nAlso listed by: jup-cli history --type recurring_order\n'));
+        },
+        csv: (r) => r.fills,
+      });
+    });
+
+  return dca;
+}
@@ -0,0 +1,161 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { PrismaClient } from '@prisma/client';
+import { TradeType } from '../../../../domain/entities/trade.entity';
+import { UltraApiService } from '../../../../infrastructure/jupiter-api/ultra/ultra-api.service';
+import { WalletResolverService } from '../../../../application/services/wallet/wallet-resolver.service';
+import { TokenInfoService } from '../../../../application/services/token-info.service';
+import { TradeService } from '../../../../application/services/trade/trade.service';
+import { PrismaWalletRepository } from '../../../../infrastructure/repositories/prisma-wallet.repository';
+import { PrismaTokenInfoRepository } from '../../../../infrastructure/repositories/prisma-token-info.repository';
+import { PrismaTradeRepository } from '../../../../infrastructure/repositories/prisma-trade.repository';
+import { InvalidArgumentError } from '../../../../core/errors/cli.errors';
+import { printResult } from '../../output/output';
+import { TradeHistoryResult, TradeItem, toTradeItem } from '../../output/results';
+
+const TRADE_TYPES: TradeType[] = ['swap', 'limit_order', 'recurring_order'];
+
+function parseDateOption(value: string, endOfDay: boolean): Date {
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(isDateOnly ? `${value}T00:00:00` : value);
+  if (isNaN(date.getTime())) {
+    throw new InvalidArgumentError(`Invalid date: ${value} (expected YYYY-MM-DD)`);
+  }
+  if (isDateOnly && endOfDay) {
+    date.setHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new InvalidArgumentError(`${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+function formatTradeAmount(uiAmount: string): string {
+  const amount = parseFloat(uiAmount);
+  if (amount === 0) return '0';
+  if (amount < 0.001) return amount.toExponential(2);
+  if (amount < 1) return amount.toFixed(6);
+  return amount.toFixed(4);
+}
+
+function formatDateTime(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatTradeRow(trade: TradeItem): string {
+  const type =
+    trade.type === 'limit_order' ? 'Limit' : trade.type === 'recurring_order' ? 'DCA' : 'Swap';
+  const inputSymbol = trade.inputSymbol || trade.inputMint.slice(0, 6) + '...';
+  const outputSymbol = trade.outputSymbol || trade.outputMint.slice(0, 6) + '...';
+  const inputStr = `${formatTradeAmount(trade.inputAmount)} ${inputSymbol}`;
+  const outputStr = `${formatTradeAmount(trade.outputAmount)} ${outputSymbol}`;
+
+  const usdValue = trade.inputUsdValue ?? trade.outputUsdValue;
+  const usdStr = usdValue ? `$${parseFloat(usdValue).toFixed(2)}` : chalk.dim('—');
+
+  const status =
+    trade.status === 'success'
+      ? ''
+      : trade.status === 'pending'
+        ? chalk.yellow(' (pending)')
+        : chalk.red(' (failed)');
+
+  return `${formatDateTime(trade.executedAt).padEnd(18)}${type.padEnd(8)}${inputStr.padEnd(22)}${outputStr.padEnd(22)}${usdStr}${status}`;
+}
+
+export function createHistoryCommand(getPrisma: () => PrismaClient): Command {
+  const history = new Command('history')
+    .description('Show recorded trade history')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier (number, name, or UUID)')
+    .option('--token <symbol>', 'Filter by token (symbol or mint address)')
+    .option('--type <type>', 'Filter by trade type (swap | limit_order | recurring_order)')
+    .option('--from <date>', 'Only trades on or after this date (YYYY-MM-DD)')
+    .option('--to <date>', 'Only trades on or before this date (YYYY-MM-DD)')
+    .option('--limit <n>', 'Number of results per page', '20')
+    .option('--page <n>', 'Page number', '1')
+    .action(async (options) => {
+      const prisma = getPrisma();
+      const ultraApi = new UltraApiService();
+      const walletResolver = new WalletResolverService(new PrismaWalletRepository(prisma));
+      const tokenInfoService = new TokenInfoService(
+        new PrismaTokenInfoRepository(prisma),
+        ultraApi
+      );
+      const tradeService = new TradeService(new PrismaTradeRepository(prisma), {
+        getPrice: async (mints: string[]) => ultraApi.getPrice(mints),
+      });
+
+      if (options.type && !TRADE_TYPES.includes(options.type)) {
+        throw new InvalidArgumentError(
+          `Invalid trade type: ${options.type} (expected ${TRADE_TYPES.join(', ')})`
+        );
+      }
+
+      const limit = parsePositiveInt(options.limit, 'Limit');
+      const page = parsePositiveInt(options.page, 'Page');
+      const from = options.from ? parseDateOption(options.from, false) : undefined;
+      const to = options.to ? parseDateOption(options.to, true) : undefined;
+
+      const wallet = await walletResolver.resolve(options.wallet);
+      const mint = options.token
+        ? (await tokenInfoService.resolveToken(options.token)).mint
+        : undefined;
+
+      const { trades, total } = await tradeService.getTradeHistory(wallet.id, {
+        mint,
+        type: options.type,
+        from,
+        to,
+        limit,
+        offset: (page - 1) * limit,
+      });
+
+      const result: TradeHistoryResult = {
+        wallet: { id: wallet.id, name: wallet.name, address: wallet.address },
+        trades: trades.map(toTradeItem),
+        page,
+        limit,
+        total,
+      };
+
+      printResult(result, {
+        table: (r) => {
+          console.log(chalk.bold(`\n📋 Trade History — Wallet: ${r.wallet.name}\n`));
+
+          if (r.total === 0) {
+            console.log(chalk.yellow('No trades recorded.'));
+            return;
+          }
+
+          console.log(chalk.gray('─'.repeat(90)));
+          console.log(
+            chalk.gray(
+              `${'Date'.padEnd(18)}${'Type'.padEnd(8)}${'Input'.padEnd(22)}${'Output'.padEnd(22)}USD Value`
+            )
+          );
+          console.log(chalk.gray('─'.repeat(90)));
+
+          for (const trade of r.trades) {
+            console.log(formatTradeRow(trade));
+          }
+
+          const totalPages = Math.ceil(r.total / r.limit);
+          console.log(chalk.gray('─'.repeat(90)));
+          console.log(
+            chalk.dim(
+              `Page ${r.page} of ${totalPages} (${r.total} trades, showing ${r.limit} per page)\n`
+            )
+          );
+        },
+        csv: (r) => r.trades,
+      });
+    });
+
+  return history;
+}
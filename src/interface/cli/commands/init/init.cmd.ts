@@ -5,6 +5,7 @@ import { ProjectConfigurationService, PathManager } from '../../../../core/confi
 import { ConfigurationService } from '../../../../core/config/configuration.service';
 import { MasterPasswordService } from '../../../../application/services/security/master-password.service';
 import { SessionService } from '../../../../core/session/session.service';
+import { InvalidArgumentError } from '../../../../core/errors/cli.errors';
 
 export function createInitCommand(getDataDir: () => string | undefined): Command {
   const command = new Command('init')
@@ -31,121 +32,112 @@ export function createInitCommand(getDataDir: () => string | undefined): Command
         console.log(chalk.dim(`Using default data directory: ${pathManager.getDataDir()}\n`));
       }
 
-      try {
-        let password = options.password;
-        let jupiterKey = options.jupiterKey;
-
-        if (!password) {
-          const answers = await inquirer.prompt([
-            {
-              type: 'password',
-              name: 'password',
-              message: 'Set your master password:',
-              mask: '*',
-              validate: (input: string) => {
-                if (input.length < 8) {
-                  return 'Password must be at least 8 characters long';
-                }
-                return true;
-              },
+      let password = options.password;
+      let jupiterKey = options.jupiterKey;
+
+      if (!password) {
+        const answers = await inquirer.prompt([
+          {
+            type: 'password',
+            name: 'password',
+            message: 'Set your master password:',
+            mask: '*',
+            validate: (input: string) => {
+              if (input.length < 8) {
+                return 'Password must be at least 8 characters long';
+              }
+              return true;
             },
-            {
-              type: 'password',
-              name: 'confirmPassword',
-              message: 'Confirm your master password:',
-              mask: '*',
+          },
+          {
+            type: 'password',
+            name: 'confirmPassword',
+            message: 'Confirm your master password:',
+            mask: '*',
+          },
+          {
+            type: 'confirm',
+            name: 'hasJupiterKey',
+            message: 'Do you have a Jupiter API key? (optional, required for trading)',
+            default: false,
+          },
+          {
+            type: 'password',
+            name: 'jupiterKey',
+            message: 'Enter your Jupiter API key:',
+            mask: '*',
+            when: (answers) => answers.hasJupiterKey,
+            validate: (input: string) => {
+              if (!input || input.trim() === '') {
+                return 'API key cannot be empty';
+              }
+              return true;
             },
-            {
-              type: 'confirm',
-              name: 'hasJupiterKey',
-              message: 'Do you have a Jupiter API key? (optional, required for trading)',
-              default: false,
-            },
-            {
-              type: 'password',
-              name: 'jupiterKey',
-              message: 'Enter your Jupiter API key:',
-              mask: '*',
-              when: (answers) => answers.hasJupiterKey,
-              validate: (input: string) => {
-                if (!input || input.trim() === '') {
-                  return 'API key cannot be empty';
-                }
-                return true;
-              },
-            },
-          ]);
+          },
+        ]);
 
-          if (answers.password !== answers.confirmPassword) {
-            console.log(chalk.red('\n❌ Passwords do not match'));
-            return;
-          }
-
-          password = answers.password;
-          jupiterKey = answers.jupiterKey;
+        if (answers.password !== answers.confirmPassword) {
+          throw new InvalidArgumentError('Passwords do not match');
         }
 
-        if (password.length < 8) {
-          console.log(chalk.red('\n❌ Password must be at least 8 characters long'));
-          return;
-        }
+        password = answers.password;
+        jupiterKey = answers.jupiterKey;
+      }
 
-        console.log('\n⏳ Initializing Jup CLI...\n');
+      if (password.length < 8) {
+        throw new InvalidArgumentError('Password must be at least 8 characters long');
+      }
 
-        const projectConfig = new ProjectConfigurationService(dataDir);
-        const prisma = projectConfig.createPrismaClient();
-        const masterPasswordService = new MasterPasswordService(prisma);
+      console.log('\n⏳ Initializing Jup CLI...\n');
 
-        await projectConfig.initialize(password, masterPasswordService, {
-          skipIfExists: false,
-          force: options.force,
-        });
+      const projectConfig = new ProjectConfigurationService(dataDir);
+      const prisma = projectConfig.createPrismaClient();
+      const masterPasswordService = new MasterPasswordService(prisma);
 
-        const sessionService = new SessionService(prisma, dataDir);
-        await sessionService.generateSessionKey(password);
-        console.log(chalk.green('✓ Session key generated'));
+      await projectConfig.initialize(password, masterPasswordService, {
+        skipIfExists: false,
+        force: options.force,
+      });
 
-        await prisma.$disconnect();
+      const sessionService = new SessionService(prisma, dataDir);
+      await sessionService.generateSessionKey(password);
+      console.log(chalk.green('✓ Session key generated'));
 
-        if (jupiterKey) {
-          const configService = new ConfigurationService(dataDir);
-          const cfg = configService.getConfig();
-          cfg.jupiter.apiKey = jupiterKey.trim();
-          configService.saveConfiguration();
-          console.log(chalk.green('✓ Jupiter API key configured'));
-        }
+      await prisma.$disconnect();
 
-        console.log(chalk.green('\n✅ Setup complete!'));
-        console.log(chalk.dim(`\nData location: ${pathManager.getDataDir()}`));
-        console.log(chalk.dim('Configuration: config.yaml'));
-        console.log(chalk.dim('Database: data/jupiter.db'));
-        console.log(chalk.dim('Session: session/key'));
-
-        if (!jupiterKey) {
-          console.log(chalk.yellow('\n⚠️  No Jupiter API key configured.'));
-          console.log(chalk.dim('Trading commands require an API key.'));
-          console.log(chalk.dim('Get one at: https://portal.jup.ag/'));
-          console.log(chalk.dim('Then run: jup-cli config set-jupiter-key'));
-        }
+      if (jupiterKey) {
+        const configService = new ConfigurationService(dataDir);
+        const cfg = configService.getConfig();
+        cfg.jupiter.apiKey = jupiterKey.trim();
+        configService.saveConfiguration();
+        console.log(chalk.green('✓ Jupiter API key configured'));
+      }
+
+      console.log(chalk.green('\n✅ Setup complete!'));
+      console.log(chalk.dim(`\nData location: ${pathManager.getDataDir()}`));
+      console.log(chalk.dim('Configuration: config.yaml'));
+      console.log(chalk.dim('Database: data/jupiter.db'));
+      console.log(chalk.dim('Session: session/key'));
+
+      if (!jupiterKey) {
+        console.log(chalk.yellow('\n⚠️  No Jupiter API key configured.'));
+        console.log(chalk.dim('Trading commands require an API key.'));
+        console.log(chalk.dim('Get one at: https://portal.jup.ag/'));
+        console.log(chalk.dim('Then run: jup-cli config set-jupiter-key'));
+      }
 
-        console.log(chalk.dim('\nYou can now:'));
-        console.log(chalk.dim('  - Create wallets: jup-cli wallet create'));
-        console.log(chalk.dim('  - Import wallets: jup-cli wallet import'));
-        console.log(chalk.dim('  - View config:    jup-cli config show'));
-        console.log(chalk.dim('  - Check session:  jup-cli session status'));
+      console.log(chalk.dim('\nYou can now:'));
+      console.log(chalk.dim('  - Create wallets: jup-cli wallet create'));
+      console.log(chalk.dim('  - Import wallets: jup-cli wallet import'));
+      console.log(chalk.dim('  - View config:    jup-cli config show'));
+      console.log(chalk.dim('  - Check session:  jup-cli session status'));
 
-        console.log(chalk.cyan('\n🔐 Session Info:'));
-        console.log(chalk.dim('The agent can operate autonomously with the session.'));
-        console.log(chalk.dim('Protected commands (wallet export, delete) require password.'));
+      console.log(chalk.cyan('\n🔐 Session Info:'));
+      console.log(chalk.dim('The agent can operate autonomously with the session.'));
+      console.log(chalk.dim('Protected commands (wallet export, delete) require password.'));
 
-        if (dataDir) {
-          console.log(chalk.dim(`\n⚠️  Remember to use --data-dir ${dataDir} for all commands`));
-        }
-      } catch (error) {
-        console.error(
-          chalk.red(`\n❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
+      if (dataDir) {
+        console.log(chalk.dim(`\n⚠️  Remember to use --data-dir ${dataDir} for all commands`));
       }
     });
 
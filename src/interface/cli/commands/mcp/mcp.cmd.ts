@@ -0,0 +1,50 @@
+import { Command } from 'commander';
+import { PrismaClient } from '@prisma/client';
+import { ConfigurationService } from '../../../../core/config/configuration.service';
+import { PathManager } from '../../../../core/config/path-manager';
+import { SessionService } from '../../../../core/session/session.service';
+import { JupiterApiKeyMissingError, NotInitializedError } from '../../../../core/errors/cli.errors';
+import { createRpcContext } from '../../../rpc/rpc-context';
+import { createRpcMethods } from '../../../rpc/rpc-methods';
+import { RpcMethodRegistry } from '../../../rpc/rpc.types';
+import { McpServer, movesFunds } from '../../../mcp/mcp-server';
+
+function withoutSigning(methods: RpcMethodRegistry): RpcMethodRegistry {
+  return Object.fromEntries(Object.entries(methods).filter(([, method]) => !movesFunds(method)));
+}
+
+export function createMcpCommand(
+  getPrisma: () => PrismaClient,
+  getDataDir: () => string | undefined
+): Command {
+  return new Command('mcp')
+    .description('Run a Model Context Protocol server on stdio for LLM agents')
+    .option('--read-only', 'Only expose tools that do not sign transactions')
+    .action(async (options, command: Command) => {
+      // Stdout belongs to the protocol: diagnostics go to stderr
+      const dataDir = getDataDir();
+      if (!new PathManager(dataDir).isInitialized()) {
+        throw new NotInitializedError();
+      }
+      if (!ConfigurationService.getInstance(dataDir).getConfig().jupiter.apiKey) {
+        throw new JupiterApiKeyMissingError();
+      }
+
+      const prisma = getPrisma();
+      const sessionKey = await new SessionService(prisma, dataDir).getSessionKey();
+
+      let methods = createRpcMethods(createRpcContext(prisma, sessionKey));
+      if (options.readOnly || !sessionKey) {
+        methods = withoutSigning(methods);
+      }
+      if (!sessionKey && !options.readOnly) {
+        console.error('No session key: swap and order tools are disabled. Run "jup-cli init".');
+      }
+
+      const server = new McpServer(methods, {
+        name: 'jup-cli',
+        version: command.parent?.version() ?? 'unknown',
+      });
+      await server.serve(process.stdin, process.stdout);
+    });
+}
@@ -1,27 +1,160 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import ora from 'ora';
 import { PrismaClient } from '@prisma/client';
-import { VersionedTransaction, Keypair } from '@solana/web3.js';
-import bs58 from 'bs58';
 import { TriggerApiService } from '../../../../infrastructure/jupiter-api/trigger/trigger-api.service';
 import { PrismaWalletRepository } from '../../../../infrastructure/repositories/prisma-wallet.repository';
 import { PrismaTokenInfoRepository } from '../../../../infrastructure/repositories/prisma-token-info.repository';
 import { WalletResolverService } from '../../../../application/services/wallet/wallet-resolver.service';
 import { TokenInfoService } from '../../../../application/services/token-info.service';
 import { OrderSyncService } from '../../../../application/services/order/order-sync.service';
+import {
+  LadderDistribution,
+  LimitOrderService,
+} from '../../../../application/services/order/limit-order.service';
+import { OrderFillSyncService } from '../../../../application/services/order/order-fill-sync.service';
+import { TokenAmount } from '../../../../domain/values/token-amount';
+import { TradeService, toUiAmount } from '../../../../application/services/trade/trade.service';
+import { PrismaTradeRepository } from '../../../../infrastructure/repositories/prisma-trade.repository';
+import { PrismaSyncCursorRepository } from '../../../../infrastructure/repositories/prisma-sync-cursor.repository';
 import { SessionService } from '../../../../core/session/session.service';
 import { MasterPasswordService } from '../../../../application/services/security/master-password.service';
-import { keyEncryptionService } from '../../../../application/services/security/key-encryption.service';
 import { UltraApiService } from '../../../../infrastructure/jupiter-api/ultra/ultra-api.service';
 import { ConfigurationService } from '../../../../core/config/configuration.service';
+import { TransactionInspectorService } from '../../../../application/services/security/transaction-inspector.service';
+import { ConnectionService } from '../../../../infrastructure/solana/connection.service';
+import { solanaRpcService } from '../../../../infrastructure/solana/solana-rpc.service';
+import { AmountResolverService } from '../../../../application/services/trade/amount-resolver.service';
+import { RiskPolicyViolationError } from '../../../../core/errors/risk.errors';
+import { UnsafeTransactionError } from '../../../../core/errors/transaction.errors';
+import {
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+} from '../../../../core/errors/cli.errors';
+import {
+  assertInteractive,
+  createSpinner,
+  isMachineOutput,
+  printResult,
+  ResultRenderers,
+} from '../../output/output';
+import {
+  OrderCancelResult,
+  OrderCreateResult,
+  OrderListResult,
+  OrderSyncResult,
+  toOrderLadderResult,
+} from '../../output/results';
+import { displayTransactionInspection } from '../trade/transaction-formatters';
+import { createRiskPolicyService } from '../../../service-factory';
+
+const LADDER_DISTRIBUTIONS: LadderDistribution[] = ['linear', 'geometric'];
 
 function checkJupiterApiKey(dataDir: string | undefined): boolean {
   const configService = ConfigurationService.getInstance(dataDir);
   return !!configService.getConfig().jupiter.apiKey;
 }
 
+function formatOrderAmount(amount: number): string {
+  if (amount < 0.001) return amount.toExponential(2);
+  if (amount < 1) return amount.toFixed(6);
+  return amount.toFixed(4);
+}
+
+function printOrderList(result: OrderListResult): void {
+  console.log(chalk.dim(`\nWallet: ${result.wallet.name}\n`));
+
+  if (result.status === 'history') {
+    if (result.orders.length === 0) {
+      console.log(chalk.yellow('No order history found.'));
+      return;
+    }
+
+    console.log(chalk.bold(`\n📋 Order History (${result.orders.length})\n`));
+    console.log(
+      `${chalk.gray('Date').padEnd(12)} ${chalk.gray('Status').padEnd(10)} ${chalk.gray('Input').padEnd(25)} ${chalk.gray('→').padEnd(4)} ${chalk.gray('Output').padEnd(25)} ${chalk.gray('Value')}`
+    );
+    console.log(chalk.gray('─'.repeat(110)));
+
+    for (const ord of result.orders) {
+      const status =
+        ord.status === 'filled' || ord.status === 'Completed'
+          ? chalk.green('✓'.padEnd(10))
+          : ord.status === 'cancelled'
+            ? chalk.red('✗ Cancel'.padEnd(10))
+            : chalk.yellow(ord.status.padEnd(10));
+      const date = new Date(ord.createdAt);
+      const dateStr = `${date.getDate()}/${date.getMonth() + 1}`;
+
+      const inputSymbol = ord.inputSymbol || ord.inputMint.slice(0, 6) + '...';
+      const outputSymbol = ord.outputSymbol || ord.outputMint.slice(0, 6) + '...';
+
+      const inputStr = `${formatOrderAmount(ord.inputAmount)} ${inputSymbol}`.padEnd(25);
+      const outputStr = `${formatOrderAmount(ord.outputAmount)} ${outputSymbol}`.padEnd(25);
+
+      // Show executed value for completed orders
+      let valueStr = '';
+      if (ord.status === 'filled' || ord.status === 'Completed') {
+        valueStr = chalk.green('$' + (ord.outputAmount * 1).toFixed(2)); // Simplified, ideally fetch current price
+      }
+
+      console.log(
+        `${dateStr.padEnd(12)} ${status} ${inputStr} ${'→'.padEnd(4)} ${outputStr} ${valueStr}`
+      );
+    }
+    return;
+  }
+
+  const orders = result.orders;
+  if (orders.length === 0) {
+    console.log(chalk.yellow('No active limit orders.'));
+    return;
+  }
+
+  // Calculate total blocked value
+  const totalBlocked = orders.reduce((sum, ord) => sum + ord.inputUsdValue, 0);
+
+  console.log(chalk.bold(`\n⏳ Active Limit Orders (${orders.length})`));
+  console.log(chalk.dim(`💰 Total blocked: $${totalBlocked.toFixed(2)}\n`));
+
+  console.log(
+    `${chalk.gray('Token').padEnd(12)} ${chalk.gray('Amount').padEnd(18)} ${chalk.gray('Target').padEnd(12)} ${chalk.gray('Current').padEnd(12)} ${chalk.gray('Diff').padEnd(12)} ${chalk.gray('Created')}`
+  );
+  console.log(chalk.gray('─'.repeat(90)));
+
+  for (const ord of orders) {
+    const inputSymbol =
+      ord.inputSymbol || (ord.inputMint ? ord.inputMint.slice(0, 8) + '...' : '???');
+    const formattedAmount = formatOrderAmount(parseFloat(ord.inputAmount));
+    const tokenStr = `${inputSymbol.padEnd(12)} ${formattedAmount.padEnd(18)}`;
+    const target = `$${ord.targetPrice < 1000 ? ord.targetPrice.toFixed(2) : ord.targetPrice.toExponential(2)}`;
+    const current = `$${ord.currentPrice < 1000 ? ord.currentPrice.toFixed(2) : ord.currentPrice.toExponential(2)}`;
+    const diffStr =
+      ord.diffPercent >= 0
+        ? chalk.green(`+${ord.diffPercent.toFixed(0)}%`)
+        : chalk.red(`${ord.diffPercent.toFixed(0)}%`);
+    const created = (Date.now() - ord.createdAt.getTime()) / (1000 * 60 * 60 * 24);
+    const createdStr = created < 1 ? '<1d' : `${Math.floor(created)}d`;
+
+    console.log(
+      `${tokenStr} ${target.padEnd(12)} ${current.padEnd(12)} ${diffStr.padEnd(12)} ${createdStr}`
+    );
+  }
+}
+
+const printOrderCancel: ResultRenderers<OrderCancelResult> = {
+  table: (result) => {
+    if (result.cancelled.length === 0) {
+      console.log(chalk.yellow('No active orders to cancel.'));
+    } else if (result.cancelled.length === 1) {
+      console.log(chalk.green('\n✅ Order cancelled.\n'));
+    } else {
+      console.log(chalk.green(`\n✅ Cancelled ${result.cancelled.length} order(s).\n`));
+    }
+  },
+  csv: (result) => result.cancelled.map((orderId) => ({ orderId })),
+};
+
 export function createOrderCommands(
   getPrisma: () => PrismaClient,
   getDataDir: () => string | undefined
@@ -31,149 +164,341 @@ export function createOrderCommands(
   const triggerApi = new TriggerApiService();
   const ultraApi = new UltraApiService();
 
+  const createLimitOrderService = (
+    prisma: PrismaClient,
+    dataDir: string | undefined,
+    tokenInfoService: TokenInfoService
+  ): LimitOrderService => {
+    const config = ConfigurationService.getInstance(dataDir).getConfig();
+    const priceProvider = { getPrice: async (mints: string[]) => ultraApi.getPrice(mints) };
+    return new LimitOrderService(
+      new WalletResolverService(new PrismaWalletRepository(prisma)),
+      tokenInfoService,
+      triggerApi,
+      createRiskPolicyService(prisma, config),
+      new TransactionInspectorService(new ConnectionService()),
+      new AmountResolverService(solanaRpcService, priceProvider, config.trading.solReserve)
+    );
+  };
+
   order
     .command('create')
     .description('Create a limit order')
     .argument('<inputToken>', 'Input token (what you sell)')
     .argument('<outputToken>', 'Output token (what you receive)')
-    .argument('<amount>', 'Amount of input token')
+    .argument('<amount>', 'Amount of input token, or 50%, max, $250')
     .requiredOption('-w, --wallet <identifier>', 'Wallet identifier')
     .requiredOption('--target <price>', 'Target price per unit of input token')
     .option('--expiry <seconds>', 'Order expiry in seconds')
     .option('-p, --password <password>', 'Master password')
     .option('-y, --yes', 'Skip confirmation')
+    .option('--show-instructions', 'Print the programs, accounts and instructions to be signed')
     .hook('preAction', () => {
       if (!checkJupiterApiKey(getDataDir())) {
-        console.error(chalk.red('\n❌ Jupiter API key required for limit orders.\n'));
-        process.exit(1);
+        throw new JupiterApiKeyMissingError();
       }
     })
     .action(async (inputToken, outputToken, amount, options) => {
-      const spinner = ora();
-
-      try {
-        const prisma = getPrisma();
-        const dataDir = getDataDir();
-        const walletRepo = new PrismaWalletRepository(prisma);
-        const tokenInfoRepo = new PrismaTokenInfoRepository(prisma);
-        const walletResolver = new WalletResolverService(walletRepo);
-        const tokenInfoService = new TokenInfoService(tokenInfoRepo, ultraApi);
-        const sessionService = new SessionService(prisma, dataDir);
-        const masterPasswordService = new MasterPasswordService(prisma);
-
-        const wallet = await walletResolver.resolve(options.wallet);
-        console.log(chalk.dim(`\nWallet: ${wallet.name}\n`));
-
-        spinner.start('Resolving tokens...');
-        const [input, output] = await Promise.all([
-          tokenInfoService.resolveToken(inputToken),
-          tokenInfoService.resolveToken(outputToken),
-        ]);
-        spinner.stop();
-
-        const inputAmount = parseFloat(amount);
-        const targetPrice = parseFloat(options.target);
-        const outputAmount = inputAmount * targetPrice;
+      const spinner = createSpinner();
+
+      const prisma = getPrisma();
+      const dataDir = getDataDir();
+      const tokenInfoService = new TokenInfoService(
+        new PrismaTokenInfoRepository(prisma),
+        ultraApi
+      );
+      const sessionService = new SessionService(prisma, dataDir);
+      const masterPasswordService = new MasterPasswordService(prisma);
+      const limitOrderService = createLimitOrderService(prisma, dataDir, tokenInfoService);
+
+      spinner.start('Resolving tokens...');
+      const draft = await limitOrderService.prepare({
+        wallet: options.wallet,
+        inputToken,
+        outputToken,
+        amount,
+        targetPrice: options.target,
+        expirySeconds: options.expiry ? parseInt(options.expiry) : undefined,
+      });
+      spinner.stop();
+
+      spinner.start('Checking risk policy...');
+      const riskViolations = await limitOrderService.checkPolicy(draft);
+      spinner.stop();
+      if (riskViolations.length > 0) {
+        throw new RiskPolicyViolationError(riskViolations);
+      }
 
-        const makingAmount = Math.floor(inputAmount * Math.pow(10, input.decimals)).toString();
-        const takingAmount = Math.floor(outputAmount * Math.pow(10, output.decimals)).toString();
+      spinner.start('Inspecting order transaction...');
+      const orderTransaction = await limitOrderService.buildTransaction(draft);
+      const inspection = await limitOrderService.inspectTransaction(orderTransaction);
+      spinner.stop();
 
+      const { input, output, outputAmount, targetPrice } = draft;
+      if (!isMachineOutput()) {
+        console.log(chalk.dim(`\nWallet: ${draft.wallet.name}\n`));
         console.log(chalk.bold('📊 Limit Order\n'));
-        console.log(`  Sell: ${chalk.cyan(`${amount} ${input.symbol}`)}`);
+        console.log(
+          `  Sell: ${chalk.cyan(`${draft.amount} ${input.symbol}`)}${
+            draft.amountBasis ? chalk.dim(` (${draft.amountBasis})`) : ''
+          }`
+        );
         console.log(`  Receive: ${chalk.green(`${outputAmount.toFixed(6)} ${output.symbol}`)}`);
         console.log(`  Target Price: ${chalk.yellow(`$${targetPrice} per ${input.symbol}`)}`);
         console.log();
+        if (options.showInstructions) {
+          displayTransactionInspection(inspection, [input, output]);
+        }
+      }
+      if (inspection.violations.length > 0) {
+        throw new UnsafeTransactionError(inspection.violations);
+      }
+
+      let confirm = options.yes;
+      if (!confirm) {
+        assertInteractive('Limit order confirmation', '--yes');
+        const answer = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: 'Create this limit order?',
+            default: false,
+          },
+        ]);
+        confirm = answer.confirm;
+      }
+
+      if (!confirm) {
+        console.log(chalk.dim('Order cancelled.'));
+        return;
+      }
 
-        let confirm = options.yes;
-        if (!confirm) {
+      let sessionKey = await sessionService.getSessionKey();
+      if (!sessionKey) {
+        if (options.password) {
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(options.password);
+        } else {
+          assertInteractive('Master password', '--password');
           const answer = await inquirer.prompt([
             {
-              type: 'confirm',
-              name: 'confirm',
-              message: 'Create this limit order?',
-              default: false,
+              type: 'password',
+              name: 'password',
+              message: 'Enter master password:',
+              mask: '*',
             },
           ]);
-          confirm = answer.confirm;
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(answer.password);
         }
+      }
 
-        if (!confirm) {
-          console.log(chalk.dim('Order cancelled.'));
-          return;
-        }
+      spinner.start('Creating order...');
 
-        spinner.start('Creating order...');
-
-        const orderResponse = await triggerApi.createOrder({
-          maker: wallet.address,
-          makingAmount,
-          takingAmount,
-          inputMint: input.mint,
-          outputMint: output.mint,
-          expiredAt: options.expiry
-            ? Math.floor(Date.now() / 1000) + parseInt(options.expiry)
-            : undefined,
-        });
+      const created = await limitOrderService.submit(orderTransaction, sessionKey);
 
-        spinner.text = 'Signing transaction...';
+      spinner.stop();
 
-        let sessionKey = await sessionService.getSessionKey();
-        if (!sessionKey) {
-          if (options.password) {
-            sessionKey = await masterPasswordService.getSessionKeyWithPassword(options.password);
-          } else {
-            spinner.stop();
-            const answer = await inquirer.prompt([
-              {
-                type: 'password',
-                name: 'password',
-                message: 'Enter master password:',
-                mask: '*',
-              },
-            ]);
-            spinner.start('Signing transaction...');
-            sessionKey = await masterPasswordService.getSessionKeyWithPassword(answer.password);
+      const result: OrderCreateResult = {
+        wallet: { id: draft.wallet.id, name: draft.wallet.name, address: draft.wallet.address },
+        orderId: created.orderId,
+        signature: created.signature,
+        input: { mint: input.mint, symbol: input.symbol, amount: draft.amount },
+        output: { mint: output.mint, symbol: output.symbol, amount: outputAmount.toString() },
+        targetPrice,
+      };
+
+      printResult(result, {
+        table: (r) => {
+          console.log(chalk.green('\n✅ Limit order created!\n'));
+          console.log(`  Order ID: ${r.orderId}`);
+          if (r.signature) {
+            console.log(`  Signature: ${chalk.dim(r.signature)}`);
           }
-        }
+        },
+        csv: (r) => [
+          {
+            orderId: r.orderId,
+            signature: r.signature ?? '',
+            inputMint: r.input.mint,
+            inputSymbol: r.input.symbol,
+            inputAmount: r.input.amount,
+            outputMint: r.output.mint,
+            outputSymbol: r.output.symbol,
+            outputAmount: r.output.amount,
+            targetPrice: r.targetPrice,
+          },
+        ],
+      });
+    });
 
-        const privateKeyBase58 = await keyEncryptionService.decryptPrivateKey(
-          wallet.encryptedKey,
-          wallet.keyNonce,
-          wallet.keySalt,
-          wallet.keyAuthTag,
-          sessionKey
+  order
+    .command('ladder')
+    .description('Split an amount over limit orders across a price range')
+    .argument('<inputToken>', 'Input token (what you sell)')
+    .argument('<outputToken>', 'Output token (what you receive)')
+    .argument('<amount>', 'Total amount of input token, or 50%, max, $250')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier')
+    .requiredOption('--from <price>', 'Target price of the first order')
+    .requiredOption('--to <price>', 'Target price of the last order')
+    .requiredOption('--steps <n>', 'Number of orders')
+    .option('--distribution <type>', 'Price spacing: linear | geometric', 'linear')
+    .option('--expiry <seconds>', 'Order expiry in seconds')
+    .option('-p, --password <password>', 'Master password')
+    .option('-y, --yes', 'Skip confirmation')
+    .hook('preAction', () => {
+      if (!checkJupiterApiKey(getDataDir())) {
+        throw new JupiterApiKeyMissingError();
+      }
+    })
+    .action(async (inputToken, outputToken, amount, options) => {
+      if (!LADDER_DISTRIBUTIONS.includes(options.distribution)) {
+        throw new InvalidArgumentError(
+          `Invalid distribution: ${options.distribution} (expected linear or geometric)`
         );
+      }
+      const spinner = createSpinner();
+
+      const prisma = getPrisma();
+      const dataDir = getDataDir();
+      const tokenInfoService = new TokenInfoService(
+        new PrismaTokenInfoRepository(prisma),
+        ultraApi
+      );
+      const sessionService = new SessionService(prisma, dataDir);
+      const masterPasswordService = new MasterPasswordService(prisma);
+      const limitOrderService = createLimitOrderService(prisma, dataDir, tokenInfoService);
+
+      spinner.start('Resolving tokens...');
+      const ladder = await limitOrderService.prepareLadder({
+        wallet: options.wallet,
+        inputToken,
+        outputToken,
+        amount,
+        fromPrice: options.from,
+        toPrice: options.to,
+        steps: Number(options.steps),
+        distribution: options.distribution,
+        expirySeconds: options.expiry ? parseInt(options.expiry) : undefined,
+      });
+      spinner.stop();
+
+      spinner.start('Checking risk policy...');
+      const riskViolations = await limitOrderService.checkLadderPolicy(ladder);
+      spinner.stop();
+      if (riskViolations.length > 0) {
+        throw new RiskPolicyViolationError(riskViolations);
+      }
 
-        const txBuffer = Buffer.from(orderResponse.transaction, 'base64');
-        const transaction = VersionedTransaction.deserialize(txBuffer);
-        const privateKeyBytes = bs58.decode(privateKeyBase58);
-        const keypair = Keypair.fromSecretKey(privateKeyBytes);
-        transaction.sign([keypair]);
-        privateKeyBytes.fill(0);
-
-        const signedTransaction = Buffer.from(transaction.serialize()).toString('base64');
-
-        spinner.text = 'Executing...';
-
-        const result = await triggerApi.execute(signedTransaction, orderResponse.requestId);
+      const { input, output } = ladder;
+      if (!isMachineOutput()) {
+        console.log(chalk.dim(`\nWallet: ${ladder.wallet.name}\n`));
+        console.log(
+          chalk.bold(
+            `🪜 Limit Order Ladder (${ladder.rungs.length} orders, ${ladder.distribution})\n`
+          )
+        );
+        console.log(
+          `  Sell: ${chalk.cyan(`${ladder.amount.toString()} ${input.symbol}`)}${
+            ladder.amountBasis ? chalk.dim(` (${ladder.amountBasis})`) : ''
+          }\n`
+        );
+        console.log(
+          `  ${chalk.gray('#'.padStart(3))}  ${chalk.gray('Target'.padEnd(14))} ${chalk.gray('Sell'.padEnd(22))} ${chalk.gray('Receive')}`
+        );
+        console.log(chalk.gray(`  ${'─'.repeat(64)}`));
+        ladder.rungs.forEach((rung, i) => {
+          console.log(
+            `  ${String(i + 1).padStart(3)}  ${formatOrderAmount(rung.targetPrice).padEnd(14)} ${`${rung.amount} ${input.symbol}`.padEnd(22)} ${rung.outputAmount.toFixed(6)} ${output.symbol}`
+          );
+        });
+        const total = ladder.rungs.reduce(
+          (sum, rung) => sum.plus(rung.outputAmount),
+          TokenAmount.zero(output.decimals)
+        );
+        console.log(chalk.gray(`  ${'─'.repeat(64)}`));
+        console.log(
+          `  Receive if all fill: ${chalk.green(`${total.toFixed(6)} ${output.symbol}`)}`
+        );
+        console.log(chalk.dim(`  Target prices in ${output.symbol} per ${input.symbol}\n`));
+      }
 
-        // Note: Trade recording happens via 'order sync' when the order is filled,
-        // not when it's created. Limit orders are pending until matched.
+      let confirm = options.yes;
+      if (!confirm) {
+        assertInteractive('Ladder confirmation', '--yes');
+        const answer = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: `Create these ${ladder.rungs.length} limit orders?`,
+            default: false,
+          },
+        ]);
+        confirm = answer.confirm;
+      }
 
-        spinner.stop();
+      if (!confirm) {
+        console.log(chalk.dim('Ladder cancelled.'));
+        return;
+      }
 
-        console.log(chalk.green('\n✅ Limit order created!\n'));
-        console.log(`  Order ID: ${orderResponse.order || orderResponse.orderId}`);
-        if (result.signature) {
-          console.log(`  Signature: ${chalk.dim(result.signature)}`);
+      let sessionKey = await sessionService.getSessionKey();
+      if (!sessionKey) {
+        if (options.password) {
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(options.password);
+        } else {
+          assertInteractive('Master password', '--password');
+          const answer = await inquirer.prompt([
+            {
+              type: 'password',
+              name: 'password',
+              message: 'Enter master password:',
+              mask: '*',
+            },
+          ]);
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(answer.password);
         }
-      } catch (error) {
-        spinner.fail('Order creation failed');
-        console.error(
-          chalk.red(`\n❌ ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
       }
+
+      spinner.start(`Creating order 1/${ladder.rungs.length}...`);
+      const results = await limitOrderService.createLadder(ladder, sessionKey, (result) => {
+        const next = result.index + 2;
+        if (next <= ladder.rungs.length) {
+          spinner.text = `Creating order ${next}/${ladder.rungs.length}...`;
+        }
+      });
+      spinner.stop();
+
+      printResult(toOrderLadderResult(ladder, results), {
+        table: (result) => {
+          console.log(
+            result.failed === 0
+              ? chalk.green(`\n✅ Created ${result.created} limit orders\n`)
+              : chalk.yellow(
+                  `\n⚠️  Created ${result.created} of ${result.rungs.length} limit orders; ${result.failed} failed\n`
+                )
+          );
+          for (const rung of result.rungs) {
+            const price = `${String(rung.index).padStart(3)}  ${formatOrderAmount(rung.targetPrice).padEnd(14)}`;
+            console.log(
+              rung.status === 'created'
+                ? `  ${price} ${chalk.green('✓')} ${chalk.dim(rung.orderId ?? '')}`
+                : `  ${price} ${chalk.red('✗')} ${chalk.red(rung.error ?? '')}`
+            );
+          }
+          if (result.failed > 0) {
+            console.log(
+              chalk.dim('\nCreated orders are kept. Retry failed rungs with: jup-cli order create')
+            );
+          }
+          console.log('');
+        },
+        csv: (result) =>
+          result.rungs.map((rung) => ({
+            ...rung,
+            orderId: rung.orderId ?? '',
+            signature: rung.signature ?? '',
+            error: rung.error ?? '',
+          })),
+      });
     });
 
   order
@@ -182,142 +507,150 @@ export function createOrderCommands(
     .requiredOption('-w, --wallet <identifier>', 'Wallet identifier')
     .option('--history', 'Show filled/cancelled orders')
     .action(async (options) => {
-      try {
-        const prisma = getPrisma();
-        const walletRepo = new PrismaWalletRepository(prisma);
-        const tokenInfoRepo = new PrismaTokenInfoRepository(prisma);
-        const walletResolver = new WalletResolverService(walletRepo);
-        const tokenInfoService = new TokenInfoService(tokenInfoRepo, ultraApi);
-
-        const priceProvider = {
-          getPrice: async (mints: string[]) => ultraApi.getPrice(mints),
-        };
-
-        const orderSyncService = new OrderSyncService(triggerApi, priceProvider, tokenInfoService);
-
-        const wallet = await walletResolver.resolve(options.wallet);
-        console.log(chalk.dim(`\nWallet: ${wallet.name}\n`));
-
-        if (options.history) {
-          const response = await triggerApi.getOrders(wallet.address, 'history');
-
-          if (response.orders.length === 0) {
-            console.log(chalk.yellow('No order history found.'));
-            return;
-          }
-
-          // Fetch token info for all mints
-          const mints = new Set<string>();
-          response.orders.forEach((ord) => {
-            mints.add(ord.inputMint);
-            mints.add(ord.outputMint);
-          });
-          const tokenInfoMap = await tokenInfoService.getTokenInfoBatch(Array.from(mints));
-
-          console.log(chalk.bold(`\n📋 Order History (${response.orders.length})\n`));
-          console.log(
-            `${chalk.gray('Date').padEnd(12)} ${chalk.gray('Status').padEnd(10)} ${chalk.gray('Input').padEnd(25)} ${chalk.gray('→').padEnd(4)} ${chalk.gray('Output').padEnd(25)} ${chalk.gray('Value')}`
-          );
-          console.log(chalk.gray('─'.repeat(110)));
-
-          for (const ord of response.orders) {
-            const status =
-              ord.status === 'filled' || ord.status === 'Completed'
-                ? chalk.green('✓'.padEnd(10))
-                : ord.status === 'cancelled'
-                  ? chalk.red('✗ Cancel'.padEnd(10))
-                  : chalk.yellow(ord.status.padEnd(10));
-            const date = new Date(ord.createdAt);
-            const dateStr = `${date.getDate()}/${date.getMonth() + 1}`;
+      const prisma = getPrisma();
+      const walletRepo = new PrismaWalletRepository(prisma);
+      const tokenInfoRepo = new PrismaTokenInfoRepository(prisma);
+      const walletResolver = new WalletResolverService(walletRepo);
+      const tokenInfoService = new TokenInfoService(tokenInfoRepo, ultraApi);
+
+      const priceProvider = {
+        getPrice: async (mints: string[]) => ultraApi.getPrice(mints),
+      };
+
+      const orderSyncService = new OrderSyncService(triggerApi, priceProvider, tokenInfoService);
+
+      const wallet = await walletResolver.resolve(options.wallet);
+      const walletRef = { id: wallet.id, name: wallet.name, address: wallet.address };
+
+      let result: OrderListResult;
+      if (options.history) {
+        const response = await triggerApi.getOrders(wallet.address, 'history');
+
+        // Fetch token info for all mints
+        const mints = new Set<string>();
+        response.orders.forEach((ord) => {
+          mints.add(ord.inputMint);
+          mints.add(ord.outputMint);
+        });
+        const tokenInfoMap = await tokenInfoService.getTokenInfoBatch(Array.from(mints));
 
+        result = {
+          wallet: walletRef,
+          status: 'history',
+          orders: response.orders.map((ord) => {
             const inputInfo = tokenInfoMap.get(ord.inputMint);
             const outputInfo = tokenInfoMap.get(ord.outputMint);
             const inputDecimals = inputInfo?.decimals ?? 9;
             const outputDecimals = outputInfo?.decimals ?? 6;
 
-            const inputAmount = parseFloat(ord.makingAmount) / Math.pow(10, inputDecimals);
-            const outputAmount = parseFloat(ord.takingAmount) / Math.pow(10, outputDecimals);
-
-            const inputSymbol = inputInfo?.symbol || ord.inputMint.slice(0, 6) + '...';
-            const outputSymbol = outputInfo?.symbol || ord.outputMint.slice(0, 6) + '...';
-
-            const formattedInput =
-              inputAmount < 0.001
-                ? inputAmount.toExponential(2)
-                : inputAmount < 1
-                  ? inputAmount.toFixed(6)
-                  : inputAmount.toFixed(4);
-            const formattedOutput =
-              outputAmount < 0.001
-                ? outputAmount.toExponential(2)
-                : outputAmount < 1
-                  ? outputAmount.toFixed(6)
-                  : outputAmount.toFixed(4);
-
-            const inputStr = `${formattedInput} ${inputSymbol}`.padEnd(25);
-            const outputStr = `${formattedOutput} ${outputSymbol}`.padEnd(25);
-
-            // Show executed value for completed orders
-            let valueStr = '';
-            if (ord.status === 'filled' || ord.status === 'Completed') {
-              valueStr = chalk.green('$' + (outputAmount * 1).toFixed(2)); // Simplified, ideally fetch current price
-            }
-
-            console.log(
-              `${dateStr.padEnd(12)} ${status} ${inputStr} ${'→'.padEnd(4)} ${outputStr} ${valueStr}`
-            );
-          }
-        } else {
-          const orders = await orderSyncService.getActiveOrdersWithPrices(wallet.address);
-
-          if (orders.length === 0) {
-            console.log(chalk.yellow('No active limit orders.'));
-            return;
-          }
-
-          // Calculate total blocked value
-          const totalBlocked = orders.reduce((sum, ord) => sum + ord.inputUsdValue, 0);
+            return {
+              orderKey: ord.orderKey ?? ord.orderId ?? ord.id ?? null,
+              status: ord.status,
+              inputMint: ord.inputMint,
+              outputMint: ord.outputMint,
+              inputSymbol: inputInfo?.symbol ?? null,
+              outputSymbol: outputInfo?.symbol ?? null,
+              inputAmount: TokenAmount.fromRaw(ord.makingAmount, inputDecimals).toNumber(),
+              outputAmount: TokenAmount.fromRaw(ord.takingAmount, outputDecimals).toNumber(),
+              createdAt: ord.createdAt,
+            };
+          }),
+        };
+      } else {
+        result = {
+          wallet: walletRef,
+          status: 'active',
+          orders: await orderSyncService.getActiveOrdersWithPrices(wallet.address),
+        };
+      }
 
-          console.log(chalk.bold(`\n⏳ Active Limit Orders (${orders.length})`));
-          console.log(chalk.dim(`💰 Total blocked: $${totalBlocked.toFixed(2)}\n`));
+      printResult(result, {
+        table: printOrderList,
+        csv: (r) => r.orders,
+      });
+    });
 
+  order
+    .command('sync')
+    .description('Record filled limit orders (including partial fills) in trade history')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier')
+    .action(async (options) => {
+      const spinner = createSpinner();
+      const prisma = getPrisma();
+      const walletRepo = new PrismaWalletRepository(prisma);
+      const tokenInfoRepo = new PrismaTokenInfoRepository(prisma);
+      const walletResolver = new WalletResolverService(walletRepo);
+      const tokenInfoService = new TokenInfoService(tokenInfoRepo, ultraApi);
+      const tradeService = new TradeService(new PrismaTradeRepository(prisma), {
+        getPrice: async (mints: string[]) => ultraApi.getPrice(mints),
+      });
+      const fillSyncService = new OrderFillSyncService(
+        triggerApi,
+        tradeService,
+        new PrismaSyncCursorRepository(prisma),
+        tokenInfoService
+      );
+
+      const wallet = await walletResolver.resolve(options.wallet);
+
+      spinner.start('Syncing order fills...');
+      const synced = await fillSyncService.syncFills(wallet.id, wallet.address);
+      spinner.stop();
+
+      const result: OrderSyncResult = {
+        wallet: { id: wallet.id, name: wallet.name, address: wallet.address },
+        ordersScanned: synced.ordersScanned,
+        lastSyncedAt: synced.lastSyncedAt ?? null,
+        recorded: synced.recorded.length,
+        duplicates: synced.duplicates,
+        skipped: synced.skipped,
+        fills: synced.recorded.map((trade) => ({
+          orderKey: trade.requestId ?? null,
+          signature: trade.signature,
+          inputMint: trade.inputMint,
+          outputMint: trade.outputMint,
+          inputSymbol: trade.inputSymbol ?? null,
+          outputSymbol: trade.outputSymbol ?? null,
+          inputAmount: toUiAmount(trade.inputAmount, trade.inputDecimals).toString(),
+          outputAmount: toUiAmount(trade.outputAmount, trade.outputDecimals).toString(),
+          executedAt: trade.executedAt,
+        })),
+      };
+
+      printResult(result, {
+        table: (r) => {
+          console.log(chalk.dim(`\nWallet: ${r.wallet.name}\n`));
           console.log(
-            `${chalk.gray('Token').padEnd(12)} ${chalk.gray('Amount').padEnd(18)} ${chalk.gray('Target').padEnd(12)} ${chalk.gray('Current').padEnd(12)} ${chalk.gray('Diff').padEnd(12)} ${chalk.gray('Created')}`
+            chalk.dim(
+              r.lastSyncedAt
+                ? `Fills since ${r.lastSyncedAt.toLocaleString()} (${r.ordersScanned} orders scanned)`
+                : `First sync (${r.ordersScanned} orders scanned)`
+            )
           );
-          console.log(chalk.gray('─'.repeat(90)));
-
-          for (const ord of orders) {
-            const inputSymbol =
-              ord.inputSymbol || (ord.inputMint ? ord.inputMint.slice(0, 8) + '...' : '???');
-            const inputAmount = parseFloat(ord.inputAmount);
-            // Format small numbers nicely
-            const formattedAmount =
-              inputAmount < 0.001
-                ? inputAmount.toExponential(2)
-                : inputAmount < 1
-                  ? inputAmount.toFixed(6)
-                  : inputAmount.toFixed(4);
-            const tokenStr = `${inputSymbol.padEnd(12)} ${formattedAmount.padEnd(18)}`;
-            const target = `$${ord.targetPrice < 1000 ? ord.targetPrice.toFixed(2) : ord.targetPrice.toExponential(2)}`;
-            const current = `$${ord.currentPrice < 1000 ? ord.currentPrice.toFixed(2) : ord.currentPrice.toExponential(2)}`;
-            const diffStr =
-              ord.diffPercent >= 0
-                ? chalk.green(`+${ord.diffPercent.toFixed(0)}%`)
-                : chalk.red(`${ord.diffPercent.toFixed(0)}%`);
-            const created = (Date.now() - ord.createdAt.getTime()) / (1000 * 60 * 60 * 24);
-            const createdStr = created < 1 ? '<1d' : `${Math.floor(created)}d`;
 
-            console.log(
-              `${tokenStr} ${target.padEnd(12)} ${current.padEnd(12)} ${diffStr.padEnd(12)} ${createdStr}`
-            );
+          if (r.fills.length === 0) {
+            console.log(chalk.yellow('\nNo new fills.'));
+          } else {
+            console.log(chalk.bold(`\n✅ Recorded ${r.fills.length} fill(s)\n`));
+            for (const fill of r.fills) {
+              const input = `${fill.inputAmount} ${fill.inputSymbol ?? fill.inputMint.slice(0, 6) + '...'}`;
+              const output = `${fill.outputAmount} ${fill.outputSymbol ?? fill.outputMint.slice(0, 6) + '...'}`;
+              console.log(
+                `${fill.executedAt.toLocaleString().padEnd(24)} ${input.padEnd(25)} → ${output}`
+              );
+            }
           }
-        }
-      } catch (error) {
-        console.error(
-          chalk.red(`\n❌ ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
-      }
+
+          if (r.duplicates > 0) {
+            console.log(chalk.dim(`${r.duplicates} fill(s) already recorded`));
+          }
+          if (r.skipped > 0) {
+            console.log(chalk.yellow(`⚠️  ${r.skipped} fill(s) skipped (unknown token)`));
+          }
+          console.log('');
+        },
+        csv: (r) => r.fills,
+      });
     });
 
   order
@@ -328,137 +661,66 @@ export function createOrderCommands(
     .option('--all', 'Cancel all active orders')
     .option('-p, --password <password>', 'Master password')
     .action(async (orderId, options) => {
-      const spinner = ora();
-
-      try {
-        const prisma = getPrisma();
-        const dataDir = getDataDir();
-        const walletRepo = new PrismaWalletRepository(prisma);
-        const walletResolver = new WalletResolverService(walletRepo);
-        const sessionService = new SessionService(prisma, dataDir);
-        const masterPasswordService = new MasterPasswordService(prisma);
-
-        const wallet = await walletResolver.resolve(options.wallet);
-
-        if (options.all) {
-          spinner.start('Fetching active orders...');
-          const response = await triggerApi.getOrders(wallet.address, 'active');
-
-          if (response.orders.length === 0) {
-            spinner.stop();
-            console.log(chalk.yellow('No active orders to cancel.'));
-            return;
-          }
-
-          const orderIds = response.orders
-            .map((o) => o.orderKey || o.id || o.orderId || '')
-            .filter(Boolean);
-          spinner.text = `Cancelling ${orderIds.length} order(s)...`;
-
-          const cancelResponse = await triggerApi.cancelOrders(wallet.address, orderIds);
-
-          spinner.text = 'Signing transaction...';
-
-          let sessionKey = await sessionService.getSessionKey();
-          if (!sessionKey) {
-            if (options.password) {
-              sessionKey = await masterPasswordService.getSessionKeyWithPassword(options.password);
-            } else {
-              spinner.stop();
-              const answer = await inquirer.prompt([
-                {
-                  type: 'password',
-                  name: 'password',
-                  message: 'Enter master password:',
-                  mask: '*',
-                },
-              ]);
-              spinner.start('Signing transaction...');
-              sessionKey = await masterPasswordService.getSessionKeyWithPassword(answer.password);
-            }
-          }
-
-          const privateKeyBase58 = await keyEncryptionService.decryptPrivateKey(
-            wallet.encryptedKey,
-            wallet.keyNonce,
-            wallet.keySalt,
-            wallet.keyAuthTag,
-            sessionKey
-          );
-
-          for (const tx of cancelResponse.transactions) {
-            const txBuffer = Buffer.from(tx, 'base64');
-            const transaction = VersionedTransaction.deserialize(txBuffer);
-            const privateKeyBytes = bs58.decode(privateKeyBase58);
-            const keypair = Keypair.fromSecretKey(privateKeyBytes);
-            transaction.sign([keypair]);
-            privateKeyBytes.fill(0);
-
-            const signedTransaction = Buffer.from(transaction.serialize()).toString('base64');
-            await triggerApi.execute(signedTransaction, cancelResponse.requestId);
-          }
+      const spinner = createSpinner();
+
+      const prisma = getPrisma();
+      const dataDir = getDataDir();
+      const walletRepo = new PrismaWalletRepository(prisma);
+      const walletResolver = new WalletResolverService(walletRepo);
+      const sessionService = new SessionService(prisma, dataDir);
+      const masterPasswordService = new MasterPasswordService(prisma);
+      const limitOrderService = createLimitOrderService(
+        prisma,
+        dataDir,
+        new TokenInfoService(new PrismaTokenInfoRepository(prisma), ultraApi)
+      );
+
+      const wallet = await walletResolver.resolve(options.wallet);
+
+      let orderIds: string[] = [];
+      if (options.all) {
+        spinner.start('Fetching active orders...');
+        orderIds = await limitOrderService.getActiveOrderIds(wallet);
+        spinner.stop();
+      } else if (orderId) {
+        orderIds = [orderId];
+      } else {
+        throw new InvalidArgumentError('Order ID required (or use --all)');
+      }
+      const walletRef = { id: wallet.id, name: wallet.name, address: wallet.address };
+      if (orderIds.length === 0) {
+        printResult({ wallet: walletRef, cancelled: [] }, printOrderCancel);
+        return;
+      }
 
-          spinner.stop();
-          console.log(chalk.green(`\n✅ Cancelled ${orderIds.length} order(s).\n`));
+      let sessionKey = await sessionService.getSessionKey();
+      if (!sessionKey) {
+        if (options.password) {
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(options.password);
         } else {
-          if (!orderId) {
-            console.error(chalk.red('❌ Order ID required (or use --all)'));
-            process.exit(1);
-          }
-
-          spinner.start('Cancelling order...');
-
-          const cancelResponse = await triggerApi.cancelOrder(wallet.address, orderId);
-
-          spinner.text = 'Signing transaction...';
-
-          let sessionKey = await sessionService.getSessionKey();
-          if (!sessionKey) {
-            if (options.password) {
-              sessionKey = await masterPasswordService.getSessionKeyWithPassword(options.password);
-            } else {
-              spinner.stop();
-              const answer = await inquirer.prompt([
-                {
-                  type: 'password',
-                  name: 'password',
-                  message: 'Enter master password:',
-                  mask: '*',
-                },
-              ]);
-              spinner.start('Signing transaction...');
-              sessionKey = await masterPasswordService.getSessionKeyWithPassword(answer.password);
-            }
-          }
-
-          const privateKeyBase58 = await keyEncryptionService.decryptPrivateKey(
-            wallet.encryptedKey,
-            wallet.keyNonce,
-            wallet.keySalt,
-            wallet.keyAuthTag,
-            sessionKey
-          );
-
-          const txBuffer = Buffer.from(cancelResponse.transaction, 'base64');
-          const transaction = VersionedTransaction.deserialize(txBuffer);
-          const privateKeyBytes = bs58.decode(privateKeyBase58);
-          const keypair = Keypair.fromSecretKey(privateKeyBytes);
-          transaction.sign([keypair]);
-          privateKeyBytes.fill(0);
-
-          const signedTransaction = Buffer.from(transaction.serialize()).toString('base64');
-          await triggerApi.execute(signedTransaction, cancelResponse.requestId);
-
-          spinner.stop();
-          console.log(chalk.green('\n✅ Order cancelled.\n'));
+          assertInteractive('Master password', '--password');
+          const answer = await inquirer.prompt([
+            {
+              type: 'password',
+              name: 'password',
+              message: 'Enter master password:',
+              mask: '*',
+            },
+          ]);
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(answer.password);
         }
-      } catch (error) {
-        spinner.fail('Cancel failed');
-        console.error(
-          chalk.red(`\n❌ ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
       }
+
+      if (options.all) {
+        spinner.start(`Cancelling ${orderIds.length} order(s)...`);
+        await limitOrderService.cancelMany(wallet, orderIds, sessionKey);
+      } else {
+        spinner.start('Cancelling order...');
+        await limitOrderService.cancel(wallet, orderId, sessionKey);
+      }
+      spinner.stop();
+
+      printResult({ wallet: walletRef, cancelled: orderIds }, printOrderCancel);
     });
 
   return order;
@@ -0,0 +1,345 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { PrismaClient } from '@prisma/client';
+import { UltraApiService } from '../../../../infrastructure/jupiter-api/ultra/ultra-api.service';
+import { solanaRpcService } from '../../../../infrastructure/solana/solana-rpc.service';
+import {
+  ConfigurationService,
+  COST_BASIS_METHODS,
+} from '../../../../core/config/configuration.service';
+import { WalletResolverService } from '../../../../application/services/wallet/wallet-resolver.service';
+import { TokenInfoService } from '../../../../application/services/token-info.service';
+import { PnLService, TokenPnL } from '../../../../application/services/pnl/pnl.service';
+import { CostBasisMethod } from '../../../../application/services/pnl/lot-tracker';
+import { PrismaWalletRepository } from '../../../../infrastructure/repositories/prisma-wallet.repository';
+import { PrismaTokenInfoRepository } from '../../../../infrastructure/repositories/prisma-token-info.repository';
+import { PrismaTradeRepository } from '../../../../infrastructure/repositories/prisma-trade.repository';
+import { PrismaWalletActivityRepository } from '../../../../infrastructure/repositories/prisma-wallet-activity.repository';
+import {
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+} from '../../../../core/errors/cli.errors';
+import { createSpinner, printResult } from '../../output/output';
+import { PnlRealizedResult, PnlShowResult, toPnlRealizedResult } from '../../output/results';
+
+function checkJupiterApiKey(dataDir: string | undefined): boolean {
+  const configService = new ConfigurationService(dataDir);
+  return !!configService.getConfig().jupiter.apiKey;
+}
+
+function resolveCostBasisMethod(
+  option: string | undefined,
+  dataDir: string | undefined
+): CostBasisMethod {
+  if (!option) {
+    return new ConfigurationService(dataDir).getConfig().trading.costBasisMethod;
+  }
+  const method = COST_BASIS_METHODS.find((m) => m === option.toLowerCase());
+  if (!method) {
+    throw new InvalidArgumentError(
+      `Invalid cost basis method: ${option} (expected ${COST_BASIS_METHODS.join(', ')})`
+    );
+  }
+  return method;
+}
+
+function formatMethod(method: CostBasisMethod): string {
+  return method === 'average' ? 'cost average' : method.toUpperCase();
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatUsd(value: number): string {
+  const abs = Math.abs(value);
+  if (abs > 0 && abs < 0.01) return `$${abs.toExponential(2)}`;
+  return `$${abs.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatSignedUsd(value: number): string {
+  if (value === 0) return '$0.00';
+  return value > 0 ? `+${formatUsd(value)}` : `-${formatUsd(value)}`;
+}
+
+function colorPnl(value: number, text: string): string {
+  if (value > 0) return chalk.green(text);
+  if (value < 0) return chalk.red(text);
+  return chalk.dim(text);
+}
+
+function formatBalance(amount: number): string {
+  if (amount === 0) return '0';
+  if (amount >= 1_000_000) return `${(amount / 1_000_000).toFixed(2)}M`;
+  if (amount < 0.001) return amount.toExponential(2);
+  if (amount < 1) return amount.toFixed(6);
+  return amount.toFixed(4);
+}
+
+function formatPrice(price: number): string {
+  if (price === 0) return '—';
+  if (price < 0.01) return `$${price.toPrecision(3)}`;
+  return formatUsd(price);
+}
+
+function symbolOf(item: { mint: string; symbol?: string | null }): string {
+  return item.symbol || item.mint.slice(0, 6) + '...';
+}
+
+function formatTokenRow(token: TokenPnL): string {
+  const symbol = symbolOf(token);
+  const balance = formatBalance(token.balance).padEnd(12);
+  const avgCost = (token.tracked ? formatPrice(token.avgCost) : 'unknown').padEnd(12);
+  const current = (token.priced ? formatPrice(token.currentPrice) : 'n/a').padEnd(12);
+  const value = formatUsd(token.currentValue).padEnd(13);
+
+  const unrealizedText = token.tracked && token.priced ? formatSignedUsd(token.unrealizedPnl) : '—';
+  const realizedText = token.tracked ? formatSignedUsd(token.realizedPnl) : '—';
+
+  return `${symbol.padEnd(8)}${balance}${avgCost}${current}${value}${colorPnl(token.unrealizedPnl, unrealizedText.padEnd(15))}${colorPnl(token.realizedPnl, realizedText)}`;
+}
+
+function printPnlReport(result: PnlShowResult): void {
+  console.log(chalk.bold(`\n📊 PnL Report — Wallet: ${result.wallet.name}\n`));
+
+  if (result.tokens.length === 0) {
+    console.log(chalk.yellow('No balances or recorded trades.'));
+    return;
+  }
+
+  console.log(chalk.gray('─'.repeat(95)));
+  console.log(
+    chalk.gray(
+      `${'Token'.padEnd(8)}${'Balance'.padEnd(12)}${'Avg Cost'.padEnd(12)}${'Current'.padEnd(12)}${'Value'.padEnd(13)}${'Unrealized'.padEnd(15)}Realized`
+    )
+  );
+  console.log(chalk.gray('─'.repeat(95)));
+
+  for (const t of result.tokens) {
+    console.log(formatTokenRow(t));
+  }
+
+  console.log(chalk.gray('─'.repeat(95)));
+  console.log(
+    `${chalk.bold('TOTAL'.padEnd(56))}${formatUsd(result.totalValue).padEnd(13)}${colorPnl(
+      result.totalUnrealizedPnl,
+      formatSignedUsd(result.totalUnrealizedPnl).padEnd(15)
+    )}${colorPnl(result.totalRealizedPnl, formatSignedUsd(result.totalRealizedPnl))}`
+  );
+  if (result.totalCost > 0) {
+    const pct = result.totalUnrealizedPnlPercent;
+    console.log(`${''.padEnd(69)}${colorPnl(pct, `(${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%)`)}`);
+  }
+
+  if (result.untrackedTokens.length > 0) {
+    const symbols = result.tokens.filter((t) => !t.tracked).map(symbolOf);
+    console.log(chalk.yellow(`\n⚠ Untracked tokens (no trade history): ${symbols.join(', ')}`));
+    console.log(chalk.dim('  These tokens were received outside the CLI.'));
+    console.log(chalk.dim('  PnL cannot be calculated for untracked tokens.'));
+  }
+
+  const oversold = result.tokens.filter((t) => t.untrackedSold > 0);
+  if (oversold.length > 0) {
+    console.log(
+      chalk.yellow(
+        `\n⚠ Sold without a recorded acquisition: ${oversold
+          .map((t) => `${formatBalance(t.untrackedSold)} ${symbolOf(t)}`)
+          .join(', ')}`
+      )
+    );
+    console.log(chalk.dim('  Their cost is unknown, so they are left out of realized PnL.'));
+  }
+
+  if (result.skippedTrades > 0) {
+    console.log(
+      chalk.yellow(`\n⚠ ${result.skippedTrades} trade(s) without USD prices were skipped.`)
+    );
+  }
+
+  console.log(
+    chalk.dim(
+      `\nCalculated from ${result.tradeCount} recorded trades (${formatMethod(result.method)} method)\n`
+    )
+  );
+}
+
+function printRealizedGains(result: PnlRealizedResult): void {
+  const period = result.year ? ` ${result.year}` : '';
+  console.log(
+    chalk.bold(
+      `\n🧾 Realized Gains${period} — Wallet: ${result.wallet.name} (${formatMethod(result.method)})\n`
+    )
+  );
+
+  if (result.disposals.length === 0) {
+    console.log(chalk.yellow('No disposals in this period.'));
+    return;
+  }
+
+  console.log(chalk.gray('─'.repeat(112)));
+  console.log(
+    chalk.gray(
+      `${'Sold'.padEnd(12)}${'Token'.padEnd(8)}${'Amount'.padEnd(14)}${'Acquired'.padEnd(12)}${'Held'.padEnd(10)}${'Proceeds'.padEnd(14)}${'Cost Basis'.padEnd(14)}Gain`
+    )
+  );
+  console.log(chalk.gray('─'.repeat(112)));
+
+  for (const d of result.disposals) {
+    const acquired = d.acquiredAt ? formatDate(d.acquiredAt) : '—';
+    const held =
+      d.holdingPeriodDays !== null ? `${d.holdingPeriodDays}d${d.longTerm ? ' (L)' : ''}` : '—';
+    const costBasis = d.costBasis ? formatUsd(parseFloat(d.costBasis)) : '—';
+    const gain = d.gain ? colorPnl(parseFloat(d.gain), formatSignedUsd(parseFloat(d.gain))) : '—';
+
+    console.log(
+      `${formatDate(d.disposedAt).padEnd(12)}${symbolOf(d).padEnd(8)}${formatBalance(parseFloat(d.amount)).padEnd(14)}${acquired.padEnd(12)}${held.padEnd(10)}${formatUsd(parseFloat(d.proceeds)).padEnd(14)}${costBasis.padEnd(14)}${gain}`
+    );
+  }
+
+  console.log(chalk.gray('─'.repeat(112)));
+  console.log(
+    `${chalk.bold('TOTAL'.padEnd(56))}${formatUsd(result.totalProceeds).padEnd(14)}${formatUsd(result.totalCostBasis).padEnd(14)}${colorPnl(result.totalGain, formatSignedUsd(result.totalGain))}`
+  );
+
+  if (result.method !== 'average') {
+    console.log(
+      chalk.dim(
+        `\n  Short-term: ${formatSignedUsd(result.shortTermGain)}   Long-term (L, > 1 year): ${formatSignedUsd(result.longTermGain)}`
+      )
+    );
+  }
+  if (result.disposals.some((d) => d.costBasis === null)) {
+    console.log(
+      chalk.yellow(
+        `\n⚠ Some units were sold without a recorded acquisition: cost basis and gain unknown (—).`
+      )
+    );
+    console.log(
+      chalk.dim(
+        `  Their proceeds (${formatUsd(result.untrackedProceeds)}) are left out of the totals.`
+      )
+    );
+  }
+  if (result.skippedTrades > 0) {
+    console.log(
+      chalk.yellow(`\n⚠ ${result.skippedTrades} trade(s) without USD prices were skipped.`)
+    );
+  }
+  console.log();
+}
+
+export function createPnlCommands(
+  getPrisma: () => PrismaClient,
+  getDataDir: () => string | undefined
+): Command {
+  const pnl = new Command('pnl').description('Profit and loss from recorded trades');
+
+  const ultraApi = new UltraApiService();
+
+  pnl
+    .command('show')
+    .description('Show realized and unrealized PnL')
+    .argument('[token]', 'Only show PnL for this token (symbol or mint address)')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier (number, name, or UUID)')
+    .option('-m, --method <method>', 'Cost basis method (average, fifo, lifo, hifo)')
+    .hook('preAction', () => {
+      if (!checkJupiterApiKey(getDataDir())) {
+        throw new JupiterApiKeyMissingError();
+      }
+    })
+    .action(async (token, options) => {
+      const spinner = createSpinner();
+
+      const prisma = getPrisma();
+      const walletResolver = new WalletResolverService(new PrismaWalletRepository(prisma));
+      const tokenInfoService = new TokenInfoService(
+        new PrismaTokenInfoRepository(prisma),
+        ultraApi
+      );
+      const pnlService = new PnLService(
+        new PrismaTradeRepository(prisma),
+        solanaRpcService,
+        { getPrice: async (mints: string[]) => ultraApi.getPrice(mints) },
+        new PrismaWalletActivityRepository(prisma)
+      );
+
+      const method = resolveCostBasisMethod(options.method, getDataDir());
+      const wallet = await walletResolver.resolve(options.wallet);
+      const mint = token ? (await tokenInfoService.resolveToken(token)).mint : undefined;
+
+      spinner.start('Calculating PnL...');
+      const pnlResult = await pnlService.calculatePnL(wallet.id, wallet.address, mint, method);
+      const tokenInfoMap = await tokenInfoService.getTokenInfoBatch(
+        pnlResult.tokens.filter((t) => !t.symbol).map((t) => t.mint)
+      );
+      spinner.stop();
+
+      const result: PnlShowResult = {
+        wallet: { id: wallet.id, name: wallet.name, address: wallet.address },
+        method,
+        ...pnlResult,
+        tokens: pnlResult.tokens.map((t) => ({
+          ...t,
+          symbol: t.symbol || tokenInfoMap.get(t.mint)?.symbol,
+        })),
+      };
+
+      printResult(result, {
+        table: printPnlReport,
+        csv: (r) => r.tokens,
+      });
+    });
+
+  pnl
+    .command('realized')
+    .description('List realized gains per disposal (tax report)')
+    .argument('[token]', 'Only show disposals of this token (symbol or mint address)')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier (number, name, or UUID)')
+    .option('-m, --method <method>', 'Cost basis method (average, fifo, lifo, hifo)')
+    .option('--year <year>', 'Only disposals during this calendar year')
+    .action(async (token, options) => {
+      const prisma = getPrisma();
+      const walletResolver = new WalletResolverService(new PrismaWalletRepository(prisma));
+      const tokenInfoService = new TokenInfoService(
+        new PrismaTokenInfoRepository(prisma),
+        ultraApi
+      );
+      const pnlService = new PnLService(
+        new PrismaTradeRepository(prisma),
+        solanaRpcService,
+        { getPrice: async (mints: string[]) => ultraApi.getPrice(mints) },
+        new PrismaWalletActivityRepository(prisma)
+      );
+
+      const method = resolveCostBasisMethod(options.method, getDataDir());
+      let year: number | null = null;
+      let from: Date | undefined;
+      let to: Date | undefined;
+      if (options.year) {
+        year = parseInt(options.year, 10);
+        if (isNaN(year) || year < 2000 || year > 9999) {
+          throw new InvalidArgumentError(`Invalid year: ${options.year}`);
+        }
+        from = new Date(year, 0, 1);
+        to = new Date(year, 11, 31, 23, 59, 59, 999);
+      }
+
+      const wallet = await walletResolver.resolve(options.wallet);
+      const mint = token ? (await tokenInfoService.resolveToken(token)).mint : undefined;
+
+      const report = await pnlService.calculateRealizedGains(wallet.id, {
+        method,
+        from,
+        to,
+        mint,
+      });
+
+      printResult(toPnlRealizedResult(wallet, report, year), {
+        table: printRealizedGains,
+        csv: (r) => r.disposals,
+      });
+    });
+
+  return pnl;
+}
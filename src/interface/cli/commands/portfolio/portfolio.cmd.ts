@@ -0,0 +1,318 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { PrismaClient } from '@prisma/client';
+import { UltraApiService } from '../../../../infrastructure/jupiter-api/ultra/ultra-api.service';
+import { solanaRpcService } from '../../../../infrastructure/solana/solana-rpc.service';
+import { ConfigurationService } from '../../../../core/config/configuration.service';
+import { TokenInfoService } from '../../../../application/services/token-info.service';
+import {
+  PortfolioPosition,
+  PortfolioService,
+} from '../../../../application/services/portfolio/portfolio.service';
+import {
+  PerformanceReport,
+  PortfolioSnapshotService,
+} from '../../../../application/services/portfolio/portfolio-snapshot.service';
+import { WalletSyncService } from '../../../../application/services/wallet/wallet-sync.service';
+import { PrismaWalletRepository } from '../../../../infrastructure/repositories/prisma-wallet.repository';
+import { PrismaTokenInfoRepository } from '../../../../infrastructure/repositories/prisma-token-info.repository';
+import { PrismaPortfolioSnapshotRepository } from '../../../../infrastructure/repositories/prisma-portfolio-snapshot.repository';
+import { PrismaWalletActivityRepository } from '../../../../infrastructure/repositories/prisma-wallet-activity.repository';
+import {
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+} from '../../../../core/errors/cli.errors';
+import { createSpinner, printResult, setOutputFormat } from '../../output/output';
+import { PortfolioSnapshotResult } from '../../output/results';
+
+function checkJupiterApiKey(dataDir: string | undefined): boolean {
+  const configService = new ConfigurationService(dataDir);
+  return !!configService.getConfig().jupiter.apiKey;
+}
+
+function formatUsd(value: number): string {
+  if (value > 0 && value < 0.01) return `$${value.toExponential(2)}`;
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatBalance(amount: number): string {
+  if (amount === 0) return '0';
+  if (amount >= 1_000_000) return `${(amount / 1_000_000).toFixed(2)}M`;
+  if (amount < 0.001) return amount.toExponential(2);
+  if (amount < 1) return amount.toFixed(6);
+  return amount.toFixed(4);
+}
+
+function formatShare(share: number): string {
+  return `${share.toFixed(1)}%`;
+}
+
+function colorBySign(value: number, text: string): string {
+  if (value > 0) return chalk.green(text);
+  if (value < 0) return chalk.red(text);
+  return chalk.dim(text);
+}
+
+function signedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+function signedUsd(value: number): string {
+  return `${value >= 0 ? '+' : '-'}${formatUsd(Math.abs(value))}`;
+}
+
+function parseDateOption(value: string, endOfDay: boolean): Date {
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(isDateOnly ? `${value}T00:00:00` : value);
+  if (isNaN(date.getTime())) {
+    throw new InvalidArgumentError(`Invalid date: ${value} (expected YYYY-MM-DD)`);
+  }
+  if (isDateOnly && endOfDay) {
+    date.setHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function printPerformance(report: PerformanceReport): void {
+  console.log(chalk.bold('\n📈 Portfolio Performance\n'));
+  console.log(`${'Start Value:'.padEnd(20)} ${formatUsd(report.startValue)}`);
+  console.log(`${'End Value:'.padEnd(20)} ${formatUsd(report.endValue)}`);
+  console.log(
+    `${'Net Deposits:'.padEnd(20)} ${colorBySign(report.netFlows, signedUsd(report.netFlows))}`
+  );
+  console.log(
+    `${'Time-Weighted Ret.:'.padEnd(20)} ${colorBySign(report.timeWeightedReturn, signedPercent(report.timeWeightedReturn))}`
+  );
+  const drawdownRange =
+    report.maxDrawdownPeak && report.maxDrawdownTrough
+      ? chalk.dim(
+          `  (${report.maxDrawdownPeak.toLocaleDateString()} → ${report.maxDrawdownTrough.toLocaleDateString()})`
+        )
+      : '';
+  console.log(
+    `${'Max Drawdown:'.padEnd(20)} ${report.maxDrawdown > 0 ? chalk.red(`-${report.maxDrawdown.toFixed(2)}%`) : chalk.dim('0.00%')}${drawdownRange}`
+  );
+  console.log(chalk.dim(`\nBased on ${report.snapshotCount} snapshots`));
+
+  if (report.daily.length > 0) {
+    console.log(chalk.bold('\n📅 Daily Change'));
+    console.log(chalk.gray('─'.repeat(60)));
+    console.log(
+      chalk.gray(`${'Date'.padEnd(14)}${'Value'.padEnd(16)}${'Change'.padEnd(18)}Return`)
+    );
+    console.log(chalk.gray('─'.repeat(60)));
+    for (const day of report.daily) {
+      const change = colorBySign(day.change, signedUsd(day.change).padEnd(18));
+      const dayReturn = colorBySign(day.returnPercent, signedPercent(day.returnPercent));
+      console.log(`${day.date.padEnd(14)}${formatUsd(day.value).padEnd(16)}${change}${dayReturn}`);
+    }
+  }
+  console.log();
+}
+
+function formatPositionRow(position: PortfolioPosition): string {
+  const symbol = position.symbol ?? position.mint.slice(0, 6) + '...';
+  const amount = formatBalance(position.amount).padEnd(14);
+  const price = (position.priced ? formatUsd(position.price) : 'n/a').padEnd(12);
+  const value = (position.priced ? formatUsd(position.value) : '—').padEnd(14);
+  const share = position.priced ? formatShare(position.share) : '—';
+  return `${chalk.cyan(symbol.padEnd(10))}${amount}${price}${value}${share}`;
+}
+
+export function createPortfolioCommand(
+  getPrisma: () => PrismaClient,
+  getDataDir: () => string | undefined
+): Command {
+  const ultraApi = new UltraApiService();
+
+  const createSnapshotService = (prisma: PrismaClient) => {
+    const walletRepo = new PrismaWalletRepository(prisma);
+    const tokenInfoService = new TokenInfoService(new PrismaTokenInfoRepository(prisma), ultraApi);
+    return new PortfolioSnapshotService(
+      new PrismaPortfolioSnapshotRepository(prisma),
+      walletRepo,
+      new WalletSyncService(walletRepo, solanaRpcService, ultraApi, tokenInfoService),
+      new PrismaWalletActivityRepository(prisma)
+    );
+  };
+
+  const portfolio = new Command('portfolio')
+    .description('Show positions aggregated across all wallets')
+    .option('-b, --breakdown', 'Show how each position is split across wallets')
+    .option('--json', 'Output as JSON')
+    .hook('preAction', (thisCommand, actionCommand) => {
+      // --json is shorthand for the global --output json
+      if (thisCommand.opts().json) {
+        setOutputFormat('json');
+      }
+      // Performance only reads stored snapshots
+      if (actionCommand.name() === 'performance') return;
+      if (!checkJupiterApiKey(getDataDir())) {
+        throw new JupiterApiKeyMissingError();
+      }
+    })
+    .action(async (options) => {
+      const spinner = createSpinner('Fetching balances for all wallets...').start();
+
+      const prisma = getPrisma();
+      const walletRepo = new PrismaWalletRepository(prisma);
+      const tokenInfoService = new TokenInfoService(
+        new PrismaTokenInfoRepository(prisma),
+        ultraApi
+      );
+      const portfolioService = new PortfolioService(
+        walletRepo,
+        solanaRpcService,
+        { getPrice: async (mints: string[]) => ultraApi.getPrice(mints) },
+        tokenInfoService
+      );
+
+      const portfolio = await portfolioService.getPortfolio();
+      spinner.stop();
+
+      printResult(portfolio, {
+        table: () => {
+          console.log(chalk.bold('\n📊 Portfolio\n'));
+          console.log(
+            `${'Total Value:'.padEnd(20)} ${chalk.bold(formatUsd(portfolio.totalValue))}` +
+              chalk.dim(`  (${portfolio.wallets.length} wallets)`)
+          );
+          console.log();
+
+          if (portfolio.positions.length === 0) {
+            console.log(chalk.yellow('No token balances found.\n'));
+          } else {
+            console.log(chalk.bold('📈 Positions'));
+            console.log(chalk.gray('─'.repeat(70)));
+            console.log(
+              chalk.gray(
+                `${'Token'.padEnd(10)}${'Amount'.padEnd(14)}${'Price'.padEnd(12)}${'Value'.padEnd(14)}Share`
+              )
+            );
+            console.log(chalk.gray('─'.repeat(70)));
+
+            for (const position of portfolio.positions) {
+              console.log(formatPositionRow(position));
+              if (options.breakdown) {
+                for (const holding of position.wallets) {
+                  const amount = formatBalance(holding.amount).padEnd(14);
+                  console.log(
+                    chalk.dim(
+                      `  ${holding.walletName.padEnd(8).slice(0, 8)}${amount}${''.padEnd(12)}${(position.priced ? formatUsd(holding.value) : '—').padEnd(14)}${formatShare(holding.share)}`
+                    )
+                  );
+                }
+              }
+            }
+            console.log();
+          }
+
+          console.log(chalk.bold('👛 Wallets'));
+          console.log(chalk.gray('─'.repeat(70)));
+          for (const wallet of portfolio.wallets) {
+            console.log(
+              `${wallet.name.padEnd(24)}${formatUsd(wallet.totalValue).padEnd(16)}${formatShare(wallet.share).padEnd(10)}${chalk.dim(`${wallet.tokenCount} tokens`)}`
+            );
+          }
+          console.log();
+
+          for (const failed of portfolio.failedWallets) {
+            console.log(chalk.yellow(`⚠️  ${failed.name}: ${failed.error} (excluded from totals)`));
+          }
+          if (portfolio.positions.some((p) => !p.priced)) {
+            console.log(chalk.dim('Tokens without a price are excluded from the total value.'));
+          }
+          console.log();
+        },
+        csv: (r) =>
+          r.positions.flatMap((p) =>
+            options.breakdown
+              ? p.wallets.map((w) => ({
+                  mint: p.mint,
+                  symbol: p.symbol ?? null,
+                  wallet: w.walletName,
+                  amount: w.amount,
+                  price: p.priced ? p.price : null,
+                  value: p.priced ? w.value : null,
+                  share: w.share,
+                }))
+              : [
+                  {
+                    mint: p.mint,
+                    symbol: p.symbol ?? null,
+                    amount: p.amount,
+                    price: p.priced ? p.price : null,
+                    value: p.priced ? p.value : null,
+                    share: p.share,
+                  },
+                ]
+          ),
+      });
+    });
+
+  portfolio
+    .command('snapshot')
+    .description('Store a snapshot of all wallets (run periodically, e.g. from cron)')
+    .action(async () => {
+      const snapshotService = createSnapshotService(getPrisma());
+      const { snapshot, failedWallets } = await snapshotService.takeSnapshot();
+
+      const result: PortfolioSnapshotResult = {
+        id: snapshot.id,
+        takenAt: snapshot.takenAt,
+        totalValue: snapshot.totalValue.toNumber(),
+        walletCount: snapshot.walletIds.length,
+        failedWallets,
+      };
+
+      printResult(result, {
+        table: (r) => {
+          console.log(
+            `📸 Snapshot ${r.takenAt.toISOString()}: ${formatUsd(r.totalValue)} across ${r.walletCount} wallets`
+          );
+          for (const failed of r.failedWallets) {
+            console.log(chalk.yellow(`⚠️  ${failed.name}: ${failed.error} (not included)`));
+          }
+        },
+        csv: (r) => [
+          {
+            id: r.id,
+            takenAt: r.takenAt,
+            totalValue: r.totalValue,
+            walletCount: r.walletCount,
+            failedWallets: r.failedWallets.length,
+          },
+        ],
+      });
+      if (failedWallets.length > 0) {
+        process.exit(1);
+      }
+    });
+
+  portfolio
+    .command('performance')
+    .description('Equity curve, time-weighted return and drawdown from stored snapshots')
+    .option('--from <date>', 'Start date (YYYY-MM-DD)')
+    .option('--to <date>', 'End date (YYYY-MM-DD, inclusive)')
+    .action(async (options) => {
+      const from = options.from ? parseDateOption(options.from, false) : undefined;
+      const to = options.to ? parseDateOption(options.to, true) : undefined;
+
+      const snapshotService = createSnapshotService(getPrisma());
+      const report = await snapshotService.getPerformance(from, to);
+
+      printResult(report, {
+        table: (r) => {
+          if (r.snapshotCount < 2) {
+            console.log(chalk.yellow('\nAt least two snapshots are needed in this period.'));
+            console.log(chalk.dim('Take one with: jup-cli portfolio snapshot\n'));
+            return;
+          }
+          printPerformance(r);
+        },
+        csv: (r) => r.equityCurve,
+      });
+    });
+
+  return portfolio;
+}
@@ -0,0 +1,189 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { PrismaClient } from '@prisma/client';
+import { ConfigurationService } from '../../../../core/config/configuration.service';
+import { PathManager } from '../../../../core/config/path-manager';
+import { SessionService } from '../../../../core/session/session.service';
+import { MasterPasswordService } from '../../../../application/services/security/master-password.service';
+import { ApiTokenService } from '../../../../application/services/security/api-token.service';
+import { PrismaApiTokenRepository } from '../../../../infrastructure/repositories/prisma-api-token.repository';
+import { ApiPermission, API_PERMISSIONS } from '../../../../domain/entities/api-token.entity';
+import {
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+  NotInitializedError,
+} from '../../../../core/errors/cli.errors';
+import { RpcDispatcher } from '../../../rpc/rpc-dispatcher';
+import { createRpcContext } from '../../../rpc/rpc-context';
+import { createRpcMethods } from '../../../rpc/rpc-methods';
+import { RPC_HOST, RpcServer } from '../../../rpc/rpc-server';
+import { printResult } from '../../output/output';
+
+const DEFAULT_PORT = 8787;
+
+function parsePort(value: string): number {
+  const port = parseInt(value, 10);
+  if (isNaN(port) || port < 1 || port > 65535) {
+    throw new InvalidArgumentError(`Invalid port "${value}"`, { port: value });
+  }
+  return port;
+}
+
+function parsePermissions(value: string): ApiPermission[] {
+  const permissions = value
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const invalid = permissions.filter((p) => !API_PERMISSIONS.includes(p as ApiPermission));
+  if (permissions.length === 0 || invalid.length > 0) {
+    throw new InvalidArgumentError(
+      `Invalid permissions "${value}". Use a comma-separated list of: ${API_PERMISSIONS.join(', ')}`,
+      { permissions: value }
+    );
+  }
+  return permissions as ApiPermission[];
+}
+
+export function createServeCommand(
+  getPrisma: () => PrismaClient,
+  getDataDir: () => string | undefined
+): Command {
+  const serve = new Command('serve')
+    .description('Run a local JSON-RPC API for agents (bound to 127.0.0.1)')
+    .option('--port <port>', 'Port to listen on', String(DEFAULT_PORT))
+    .option('-p, --password <password>', 'Master password (optional if session exists)');
+
+  serve.hook('preAction', () => {
+    if (!new PathManager(getDataDir()).isInitialized()) {
+      throw new NotInitializedError();
+    }
+  });
+
+  serve.action(async (options) => {
+    const configService = ConfigurationService.getInstance(getDataDir());
+    if (!configService.getConfig().jupiter.apiKey) {
+      throw new JupiterApiKeyMissingError();
+    }
+    const port = parsePort(options.port);
+
+    const prisma = getPrisma();
+
+    // Loaded once: requests never touch the session file
+    let sessionKey = await new SessionService(prisma, getDataDir()).getSessionKey();
+    if (!sessionKey && options.password) {
+      sessionKey = await new MasterPasswordService(prisma).getSessionKeyWithPassword(
+        options.password
+      );
+    }
+
+    const methods = createRpcMethods(createRpcContext(prisma, sessionKey));
+
+    const server = new RpcServer(
+      new RpcDispatcher(methods),
+      new ApiTokenService(new PrismaApiTokenRepository(prisma))
+    );
+    await server.listen(port);
+
+    console.error(chalk.green(`\n✅ Listening on http://${RPC_HOST}:${port}/rpc`));
+    if (!sessionKey) {
+      console.error(
+        chalk.yellow('⚠️  No session key: read-only. Swap and order methods will fail.')
+      );
+      console.error(chalk.dim('   Run `jup-cli init` or pass --password to enable signing.'));
+    }
+    console.error(chalk.dim(`   Methods: ${Object.keys(methods).join(', ')}`));
+    console.error(chalk.dim('   Press Ctrl+C to stop.\n'));
+  });
+
+  const token = serve.command('token').description('Manage bearer tokens for the local API');
+
+  token
+    .command('create')
+    .description('Create a bearer token (shown once)')
+    .requiredOption('-n, --name <name>', 'Token name')
+    .option(
+      '--permissions <list>',
+      `Comma-separated permissions: ${API_PERMISSIONS.join(', ')}`,
+      'read'
+    )
+    .action(async (options) => {
+      const permissions = parsePermissions(options.permissions);
+      const apiTokenService = new ApiTokenService(new PrismaApiTokenRepository(getPrisma()));
+      const { token: secret, apiToken } = await apiTokenService.create(options.name, permissions);
+
+      printResult(
+        { name: apiToken.name, permissions: apiToken.permissions, token: secret },
+        {
+          table: (r) => {
+            console.log(
+              chalk.green(`\n✅ Token "${r.name}" created (${r.permissions.join(', ')})\n`)
+            );
+            console.log(`  ${chalk.bold(r.token)}\n`);
+            console.log(chalk.yellow('⚠️  Store it now: it cannot be shown again.'));
+            console.log(chalk.dim('Send it as "Authorization: Bearer <token>".\n'));
+          },
+          csv: (r) => [{ ...r, permissions: r.permissions.join(' ') }],
+        }
+      );
+    });
+
+  token
+    .command('list')
+    .description('List bearer tokens')
+    .action(async () => {
+      const apiTokenService = new ApiTokenService(new PrismaApiTokenRepository(getPrisma()));
+      const tokens = await apiTokenService.list();
+
+      const result = {
+        tokens: tokens.map((t) => ({
+          name: t.name,
+          permissions: t.permissions,
+          createdAt: t.createdAt,
+          lastUsedAt: t.lastUsedAt ?? null,
+        })),
+      };
+
+      printResult(result, {
+        table: (r) => {
+          if (r.tokens.length === 0) {
+            console.log(chalk.yellow('No API tokens. Create one with: jup-cli serve token create'));
+            return;
+          }
+
+          console.log(chalk.bold('\n🔑 API Tokens\n'));
+          console.log(
+            chalk.gray(`${'Name'.padEnd(20)} ${'Permissions'.padEnd(20)} ${'Last used'}`)
+          );
+          console.log(chalk.gray('─'.repeat(70)));
+          for (const t of r.tokens) {
+            console.log(
+              `${chalk.cyan(t.name.padEnd(20))} ${t.permissions.join(',').padEnd(20)} ${
+                t.lastUsedAt ? t.lastUsedAt.toLocaleString() : chalk.dim('never')
+              }`
+            );
+          }
+          console.log();
+        },
+        csv: (r) => r.tokens.map((t) => ({ ...t, permissions: t.permissions.join(' ') })),
+      });
+    });
+
+  token
+    .command('revoke')
+    .description('Revoke a bearer token')
+    .argument('<name>', 'Token name')
+    .action(async (name) => {
+      const apiTokenService = new ApiTokenService(new PrismaApiTokenRepository(getPrisma()));
+      await apiTokenService.revoke(name);
+
+      printResult(
+        { revoked: name },
+        {
+          table: (r) => console.log(chalk.green(`\n✅ Token "${r.revoked}" revoked\n`)),
+          csv: (r) => [r],
+        }
+      );
+    });
+
+  return serve;
+}
@@ -3,6 +3,17 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { PrismaClient } from '@prisma/client';
 import { SessionService } from '../../../../core/session/session.service';
+import { assertInteractive, printResult } from '../../output/output';
+import { SessionStatusResult } from '../../output/results';
+
+async function getSessionStatus(sessionService: SessionService): Promise<SessionStatusResult> {
+  const info = await sessionService.getSessionInfo();
+  return {
+    active: info.exists,
+    createdAt: info.createdAt ?? null,
+    walletCount: info.walletCount ?? 0,
+  };
+}
 
 export function createSessionCommands(
   getPrisma: () => PrismaClient,
@@ -14,37 +25,33 @@ export function createSessionCommands(
     .command('status')
     .description('Show session status')
     .action(async () => {
-      try {
-        const prisma = getPrisma();
-        const sessionService = new SessionService(prisma, getDataDir());
-
-        const info = await sessionService.getSessionInfo();
-
-        if (!info.exists) {
-          console.log(chalk.yellow('\n⚠️ No active session'));
-          console.log(chalk.dim('Run `jup-cli init` to create a session.'));
-          return;
-        }
-
-        console.log(chalk.bold('\n🔐 Session Status\n'));
-        console.log(`  Status: ${chalk.green('Active')}`);
-        console.log(`  Created: ${info.createdAt?.toLocaleString() || 'Unknown'}`);
-        console.log(`  Wallets: ${info.walletCount}`);
-        console.log();
-        console.log(chalk.dim('The session allows the agent to:'));
-        console.log(chalk.dim('  - View wallets and balances'));
-        console.log(chalk.dim('  - Get token prices'));
-        console.log(chalk.dim('  - Execute swaps'));
-        console.log();
-        console.log(chalk.yellow('Protected operations (require password):'));
-        console.log(chalk.dim('  - wallet export'));
-        console.log(chalk.dim('  - wallet delete'));
-      } catch (error) {
-        console.error(
-          chalk.red(`\n❌ ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
-      }
+      const prisma = getPrisma();
+      const sessionService = new SessionService(prisma, getDataDir());
+
+      printResult(await getSessionStatus(sessionService), {
+        table: (r) => {
+          if (!r.active) {
+            console.log(chalk.yellow('\n⚠️ No active session'));
+            console.log(chalk.dim('Run `jup-cli init` to create a session.'));
+            return;
+          }
+
+          console.log(chalk.bold('\n🔐 Session Status\n'));
+          console.log(`  Status: ${chalk.green('Active')}`);
+          console.log(`  Created: ${r.createdAt?.toLocaleString() || 'Unknown'}`);
+          console.log(`  Wallets: ${r.walletCount}`);
+          console.log();
+          console.log(chalk.dim('The session allows the agent to:'));
+          console.log(chalk.dim('  - View wallets and balances'));
+          console.log(chalk.dim('  - Get token prices'));
+          console.log(chalk.dim('  - Execute swaps'));
+          console.log();
+          console.log(chalk.yellow('Protected operations (require password):'));
+          console.log(chalk.dim('  - wallet export'));
+          console.log(chalk.dim('  - wallet delete'));
+        },
+        csv: (r) => [r],
+      });
     });
 
   session
@@ -52,47 +59,46 @@ export function createSessionCommands(
     .description('Regenerate session key (requires password)')
     .option('-p, --password <password>', 'Master password')
     .action(async (options) => {
-      try {
-        const prisma = getPrisma();
-        const sessionService = new SessionService(prisma, getDataDir());
-
-        let password = options.password;
-
-        if (!password) {
-          const answer = await inquirer.prompt([
-            {
-              type: 'password',
-              name: 'password',
-              message: 'Enter master password:',
-              mask: '*',
-            },
-          ]);
-          password = answer.password;
-        }
-
-        console.log(chalk.dim('\nRegenerating session...'));
+      const prisma = getPrisma();
+      const sessionService = new SessionService(prisma, getDataDir());
 
-        await sessionService.regenerateSession(password);
+      let password = options.password;
 
-        console.log(chalk.green('\n✅ Session regenerated successfully'));
-        console.log(chalk.yellow('\n⚠️  Previous session is now invalid.'));
-        console.log(chalk.dim('Update JUPITER_SESSION on your agent if exported.'));
-      } catch (error) {
-        console.error(
-          chalk.red(`\n❌ ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
+      if (!password) {
+        assertInteractive('Master password', '--password');
+        const answer = await inquirer.prompt([
+          {
+            type: 'password',
+            name: 'password',
+            message: 'Enter master password:',
+            mask: '*',
+          },
+        ]);
+        password = answer.password;
       }
+
+      await sessionService.regenerateSession(password);
+
+      printResult(await getSessionStatus(sessionService), {
+        table: () => {
+          console.log(chalk.green('\n✅ Session regenerated successfully'));
+          console.log(chalk.yellow('\n⚠️  Previous session is now invalid.'));
+          console.log(chalk.dim('Update JUPITER_SESSION on your agent if exported.'));
+        },
+        csv: (r) => [r],
+      });
     });
 
   session
     .command('clear')
     .description('Clear the current session')
-    .action(async () => {
-      try {
-        const prisma = getPrisma();
-        const sessionService = new SessionService(prisma, getDataDir());
+    .option('-y, --yes', 'Skip confirmation')
+    .action(async (options) => {
+      const prisma = getPrisma();
+      const sessionService = new SessionService(prisma, getDataDir());
 
+      if (!options.yes) {
+        assertInteractive('Session clear confirmation', '--yes');
         const { confirm } = await inquirer.prompt([
           {
             type: 'confirm',
@@ -106,17 +112,17 @@ export function createSessionCommands(
           console.log(chalk.dim('Cancelled.'));
           return;
         }
+      }
 
-        await sessionService.clearSession();
+      await sessionService.clearSession();
 
-        console.log(chalk.green('\n✅ Session cleared'));
-        console.log(chalk.dim('Run `jup-cli session regenerate` to create a new session.'));
-      } catch (error) {
-        console.error(
-          chalk.red(`\n❌ ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-        process.exit(1);
-      }
+      printResult(await getSessionStatus(sessionService), {
+        table: () => {
+          console.log(chalk.green('\n✅ Session cleared'));
+          console.log(chalk.dim('Run `jup-cli session regenerate` to create a new session.'));
+        },
+        csv: (r) => [r],
+      });
     });
 
   return session;
@@ -6,6 +6,7 @@ import {
   PriceV3Data,
   SwapStats,
 } from '../../../../application/ports/token-discovery.port';
+import { MintExtensions } from '../../../../application/ports/blockchain.port';
 
 export function formatPrice(price: number | null | undefined): string {
   if (price === null || price === undefined) return chalk.gray('N/A');
@@ -67,6 +68,37 @@ export function formatVerified(isVerified: boolean | null | undefined): string {
   return chalk.gray('x');
 }
 
+/**
+ * One line per Token-2022 extension. Extensions that let someone else take
+ * or lock the holder's tokens are red.
+ */
+export function formatMintExtensions(
+  extensions: MintExtensions,
+  decimals: number,
+  symbol = ''
+): string[] {
+  const lines: string[] = [];
+  if (extensions.transferFee) {
+    const { basisPoints, maxFee } = extensions.transferFee;
+    const max = Number(maxFee) / Math.pow(10, decimals);
+    lines.push(
+      chalk.yellow(
+        `Transfer fee ${(basisPoints / 100).toFixed(2)}% (max ${max} ${symbol}`.trimEnd() + ')'
+      )
+    );
+  }
+  if (extensions.permanentDelegate) {
+    lines.push(chalk.red(`Permanent delegate ${extensions.permanentDelegate}`));
+  }
+  if (extensions.nonTransferable) {
+    lines.push(chalk.red('Non-transferable'));
+  }
+  if (extensions.interestBearing) {
+    lines.push(`Interest-bearing ${(extensions.interestBearing.rateBps / 100).toFixed(2)}%/year`);
+  }
+  return lines;
+}
+
 export function displayTokenTable(tokens: MintInformation[], showStats = false): void {
   if (tokens.length === 0) {
     console.log(chalk.yellow('No tokens found.'));
@@ -114,7 +146,8 @@ export function displayTokenTable(tokens: MintInformation[], showStats = false):
 export function displayTokenDetails(
   token: MintInformation,
   warnings: ShieldWarning[],
-  price: PriceV3Data | null
+  price: PriceV3Data | null,
+  extensions: MintExtensions | null = null
 ): void {
   console.log(chalk.bold(`\n${token.name} (${token.symbol})`));
   console.log(chalk.gray('-'.repeat(60)));
@@ -133,6 +166,17 @@ export function displayTokenDetails(
     console.log(`  ${chalk.gray('Launchpad:')}  ${token.launchpad}`);
   }
 
+  if (extensions) {
+    const lines = formatMintExtensions(extensions, token.decimals, token.symbol);
+    console.log(chalk.bold('\n  Token-2022 Extensions'));
+    if (lines.length === 0) {
+      console.log(chalk.dim('  None affecting holders'));
+    }
+    for (const line of lines) {
+      console.log(`  ${line}`);
+    }
+  }
+
   // Market data
   console.log(chalk.bold('\n  Market Data'));
   console.log(`  ${chalk.gray('Price:')}       ${formatPrice(token.usdPrice)}`);
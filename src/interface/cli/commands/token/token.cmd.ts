@@ -1,13 +1,19 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
 import { TokensApiService } from '../../../../infrastructure/jupiter-api/tokens/tokens-api.service';
 import { ShieldApiService } from '../../../../infrastructure/jupiter-api/shield/shield-api.service';
 import { PriceV3ApiService } from '../../../../infrastructure/jupiter-api/price/price-v3-api.service';
 import { TokenDiscoveryService } from '../../../../application/services/token-discovery/token-discovery.service';
+import { solanaRpcService } from '../../../../infrastructure/solana/solana-rpc.service';
 import { ConfigurationService } from '../../../../core/config/configuration.service';
-import { TokenInterval } from '../../../../application/ports/token-discovery.port';
+import { MintInformation, TokenInterval } from '../../../../application/ports/token-discovery.port';
+import {
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+} from '../../../../core/errors/cli.errors';
 import { displayTokenTable, displayTokenDetails, displayShieldWarnings } from './token-formatters';
+import { createSpinner, printResult } from '../../output/output';
+import { TokenInfoResult, TokenListResult, TokenShieldResult } from '../../output/results';
 
 function checkJupiterApiKey(dataDir: string | undefined): boolean {
   const configService = ConfigurationService.getInstance(dataDir);
@@ -18,21 +24,66 @@ function createService(): TokenDiscoveryService {
   const tokensApi = new TokensApiService();
   const shieldApi = new ShieldApiService();
   const priceApi = new PriceV3ApiService();
-  return new TokenDiscoveryService(tokensApi, shieldApi, priceApi);
+  return new TokenDiscoveryService(tokensApi, shieldApi, priceApi, solanaRpcService);
 }
 
 function apiKeyCheck(getDataDir: () => string | undefined): () => void {
   return () => {
     if (!checkJupiterApiKey(getDataDir())) {
-      console.error(chalk.red('\nJupiter API key not configured.\n'));
-      console.log(chalk.dim('Token commands require a Jupiter API key.'));
-      console.log(chalk.dim('Get one at: https://portal.jup.ag/'));
-      console.log(chalk.dim('Then run: jup-cli config set-jupiter-key\n'));
-      process.exit(1);
+      throw new JupiterApiKeyMissingError();
     }
   };
 }
 
+const VALID_INTERVALS: TokenInterval[] = ['5m', '1h', '6h', '24h'];
+
+function assertInterval(interval: string): asserts interval is TokenInterval {
+  if (!VALID_INTERVALS.includes(interval as TokenInterval)) {
+    throw new InvalidArgumentError(
+      `Invalid interval "${interval}". Use: ${VALID_INTERVALS.join(', ')}`,
+      { interval }
+    );
+  }
+}
+
+function tokenCsvRow(token: MintInformation): Record<string, unknown> {
+  return {
+    mint: token.id,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    usdPrice: token.usdPrice,
+    mcap: token.mcap,
+    liquidity: token.liquidity,
+    priceChange24h: token.stats24h?.priceChange ?? null,
+    volume24h: token.stats24h
+      ? (token.stats24h.buyVolume ?? 0) + (token.stats24h.sellVolume ?? 0)
+      : null,
+    holderCount: token.holderCount,
+    organicScore: token.organicScore,
+    isVerified: token.isVerified,
+  };
+}
+
+function printTokenList(
+  result: TokenListResult,
+  title: string,
+  showStats: boolean,
+  footer?: string
+): void {
+  printResult(result, {
+    table: (r) => {
+      console.log(chalk.bold(`\n${title}\n`));
+      displayTokenTable(r.tokens, showStats);
+      if (footer) {
+        console.log(chalk.dim(`\n  ${footer}`));
+      }
+      console.log();
+    },
+    csv: (r) => r.tokens.map(tokenCsvRow),
+  });
+}
+
 export function createTokenCommands(getDataDir: () => string | undefined): Command {
   const token = new Command('token').description(
     'Discover tokens, check security, and get market data'
@@ -47,24 +98,20 @@ export function createTokenCommands(getDataDir: () => string | undefined): Comma
     .option('--limit <n>', 'Max results to display', '20')
     .hook('preAction', apiKeyCheck(getDataDir))
     .action(async (query, options) => {
-      const spinner = ora('Searching tokens...').start();
+      const spinner = createSpinner('Searching tokens...').start();
 
-      try {
-        const service = createService();
-        const tokens = await service.searchTokens(query);
+      const service = createService();
+      const tokens = await service.searchTokens(query);
 
-        spinner.stop();
+      spinner.stop();
 
-        const limit = parseInt(options.limit, 10);
-        const displayTokens = tokens.slice(0, limit);
+      const limit = parseInt(options.limit, 10);
 
-        console.log(chalk.bold(`\nSearch results for "${query}" (${tokens.length} found)\n`));
-        displayTokenTable(displayTokens, options.stats);
-        console.log();
-      } catch (error) {
-        spinner.fail('Search failed');
-        console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
+      printTokenList(
+        { total: tokens.length, tokens: tokens.slice(0, limit) },
+        `Search results for "${query}" (${tokens.length} found)`,
+        options.stats
+      );
     });
 
   // token info <mint>
@@ -74,19 +121,23 @@ export function createTokenCommands(getDataDir: () => string | undefined): Comma
     .argument('<mint>', 'Token mint address')
     .hook('preAction', apiKeyCheck(getDataDir))
     .action(async (mint) => {
-      const spinner = ora('Fetching token details...').start();
-
-      try {
-        const service = createService();
-        const details = await service.getTokenDetails(mint);
-
-        spinner.stop();
-
-        displayTokenDetails(details.token, details.warnings, details.price);
-      } catch (error) {
-        spinner.fail('Failed to get token details');
-        console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
+      const spinner = createSpinner('Fetching token details...').start();
+
+      const service = createService();
+      const details: TokenInfoResult = await service.getTokenDetails(mint);
+
+      spinner.stop();
+
+      printResult(details, {
+        table: (r) => displayTokenDetails(r.token, r.warnings, r.price, r.extensions),
+        csv: (r) => [
+          {
+            ...tokenCsvRow(r.token),
+            warnings: r.warnings.map((w) => w.type).join(' '),
+            extensions: r.extensions ? Object.keys(r.extensions).join(' ') : '',
+          },
+        ],
+      });
     });
 
   // token trending [interval]
@@ -97,30 +148,21 @@ export function createTokenCommands(getDataDir: () => string | undefined): Comma
     .option('--limit <n>', 'Max results to display', '20')
     .hook('preAction', apiKeyCheck(getDataDir))
     .action(async (interval, options) => {
-      const validIntervals: TokenInterval[] = ['5m', '1h', '6h', '24h'];
-      if (!validIntervals.includes(interval as TokenInterval)) {
-        console.error(
-          chalk.red(`\nInvalid interval "${interval}". Use: ${validIntervals.join(', ')}`)
-        );
-        return;
-      }
+      assertInterval(interval);
 
-      const spinner = ora(`Fetching trending tokens (${interval})...`).start();
+      const spinner = createSpinner(`Fetching trending tokens (${interval})...`).start();
 
-      try {
-        const service = createService();
-        const limit = parseInt(options.limit, 10);
-        const tokens = await service.getTrendingTokens(interval as TokenInterval, limit);
+      const service = createService();
+      const limit = parseInt(options.limit, 10);
+      const tokens = await service.getTrendingTokens(interval, limit);
 
-        spinner.stop();
+      spinner.stop();
 
-        console.log(chalk.bold(`\nTrending Tokens (${interval})\n`));
-        displayTokenTable(tokens.slice(0, limit), true);
-        console.log();
-      } catch (error) {
-        spinner.fail('Failed to fetch trending tokens');
-        console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
+      printTokenList(
+        { total: tokens.length, tokens: tokens.slice(0, limit) },
+        `Trending Tokens (${interval})`,
+        true
+      );
     });
 
   // token traded [interval]
@@ -131,30 +173,21 @@ export function createTokenCommands(getDataDir: () => string | undefined): Comma
     .option('--limit <n>', 'Max results to display', '20')
     .hook('preAction', apiKeyCheck(getDataDir))
     .action(async (interval, options) => {
-      const validIntervals: TokenInterval[] = ['5m', '1h', '6h', '24h'];
-      if (!validIntervals.includes(interval as TokenInterval)) {
-        console.error(
-          chalk.red(`\nInvalid interval "${interval}". Use: ${validIntervals.join(', ')}`)
-        );
-        return;
-      }
+      assertInterval(interval);
 
-      const spinner = ora(`Fetching top traded tokens (${interval})...`).start();
+      const spinner = createSpinner(`Fetching top traded tokens (${interval})...`).start();
 
-      try {
-        const service = createService();
-        const limit = parseInt(options.limit, 10);
-        const tokens = await service.getTopTradedTokens(interval as TokenInterval, limit);
+      const service = createService();
+      const limit = parseInt(options.limit, 10);
+      const tokens = await service.getTopTradedTokens(interval, limit);
 
-        spinner.stop();
+      spinner.stop();
 
-        console.log(chalk.bold(`\nTop Traded Tokens (${interval})\n`));
-        displayTokenTable(tokens.slice(0, limit), true);
-        console.log();
-      } catch (error) {
-        spinner.fail('Failed to fetch top traded tokens');
-        console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
+      printTokenList(
+        { total: tokens.length, tokens: tokens.slice(0, limit) },
+        `Top Traded Tokens (${interval})`,
+        true
+      );
     });
 
   // token organic [interval]
@@ -165,30 +198,21 @@ export function createTokenCommands(getDataDir: () => string | undefined): Comma
     .option('--limit <n>', 'Max results to display', '20')
     .hook('preAction', apiKeyCheck(getDataDir))
     .action(async (interval, options) => {
-      const validIntervals: TokenInterval[] = ['5m', '1h', '6h', '24h'];
-      if (!validIntervals.includes(interval as TokenInterval)) {
-        console.error(
-          chalk.red(`\nInvalid interval "${interval}". Use: ${validIntervals.join(', ')}`)
-        );
-        return;
-      }
+      assertInterval(interval);
 
-      const spinner = ora(`Fetching top organic tokens (${interval})...`).start();
+      const spinner = createSpinner(`Fetching top organic tokens (${interval})...`).start();
 
-      try {
-        const service = createService();
-        const limit = parseInt(options.limit, 10);
-        const tokens = await service.getTopOrganicTokens(interval as TokenInterval, limit);
+      const service = createService();
+      const limit = parseInt(options.limit, 10);
+      const tokens = await service.getTopOrganicTokens(interval, limit);
 
-        spinner.stop();
+      spinner.stop();
 
-        console.log(chalk.bold(`\nTop Organic Score Tokens (${interval})\n`));
-        displayTokenTable(tokens.slice(0, limit), true);
-        console.log();
-      } catch (error) {
-        spinner.fail('Failed to fetch top organic tokens');
-        console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
+      printTokenList(
+        { total: tokens.length, tokens: tokens.slice(0, limit) },
+        `Top Organic Score Tokens (${interval})`,
+        true
+      );
     });
 
   // token recent
@@ -198,23 +222,20 @@ export function createTokenCommands(getDataDir: () => string | undefined): Comma
     .option('--limit <n>', 'Max results to display', '20')
     .hook('preAction', apiKeyCheck(getDataDir))
     .action(async (options) => {
-      const spinner = ora('Fetching recent tokens...').start();
+      const spinner = createSpinner('Fetching recent tokens...').start();
 
-      try {
-        const service = createService();
-        const tokens = await service.getRecentTokens();
+      const service = createService();
+      const tokens = await service.getRecentTokens();
 
-        spinner.stop();
+      spinner.stop();
 
-        const limit = parseInt(options.limit, 10);
+      const limit = parseInt(options.limit, 10);
 
-        console.log(chalk.bold('\nRecently Listed Tokens\n'));
-        displayTokenTable(tokens.slice(0, limit), true);
-        console.log();
-      } catch (error) {
-        spinner.fail('Failed to fetch recent tokens');
-        console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
+      printTokenList(
+        { total: tokens.length, tokens: tokens.slice(0, limit) },
+        'Recently Listed Tokens',
+        true
+      );
     });
 
   // token verified
@@ -224,28 +245,23 @@ export function createTokenCommands(getDataDir: () => string | undefined): Comma
     .option('--limit <n>', 'Max results to display', '50')
     .hook('preAction', apiKeyCheck(getDataDir))
     .action(async (options) => {
-      const spinner = ora('Fetching verified tokens...').start();
-
-      try {
-        const service = createService();
-        const tokens = await service.getTokensByTag('verified');
-
-        spinner.stop();
-
-        const limit = parseInt(options.limit, 10);
-
-        console.log(chalk.bold(`\nVerified Tokens (${tokens.length} total)\n`));
-        displayTokenTable(tokens.slice(0, limit), false);
-        if (tokens.length > limit) {
-          console.log(
-            chalk.dim(`\n  Showing ${limit} of ${tokens.length}. Use --limit to see more.`)
-          );
-        }
-        console.log();
-      } catch (error) {
-        spinner.fail('Failed to fetch verified tokens');
-        console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
+      const spinner = createSpinner('Fetching verified tokens...').start();
+
+      const service = createService();
+      const tokens = await service.getTokensByTag('verified');
+
+      spinner.stop();
+
+      const limit = parseInt(options.limit, 10);
+
+      printTokenList(
+        { total: tokens.length, tokens: tokens.slice(0, limit) },
+        `Verified Tokens (${tokens.length} total)`,
+        false,
+        tokens.length > limit
+          ? `Showing ${limit} of ${tokens.length}. Use --limit to see more.`
+          : undefined
+      );
     });
 
   // token shield <mints...>
@@ -255,20 +271,28 @@ export function createTokenCommands(getDataDir: () => string | undefined): Comma
     .argument('<mints...>', 'Token mint addresses to check')
     .hook('preAction', apiKeyCheck(getDataDir))
     .action(async (mints) => {
-      const spinner = ora('Checking token security...').start();
-
-      try {
-        const service = createService();
-        const response = await service.getShieldWarnings(mints);
-
-        spinner.stop();
-
-        console.log(chalk.bold('\nSecurity Analysis\n'));
-        displayShieldWarnings(response.warnings);
-      } catch (error) {
-        spinner.fail('Security check failed');
-        console.error(chalk.red(`\n${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
+      const spinner = createSpinner('Checking token security...').start();
+
+      const service = createService();
+      const response: TokenShieldResult = await service.getShieldWarnings(mints);
+
+      spinner.stop();
+
+      printResult(response, {
+        table: (r) => {
+          console.log(chalk.bold('\nSecurity Analysis\n'));
+          displayShieldWarnings(r.warnings);
+        },
+        csv: (r) =>
+          Object.entries(r.warnings).flatMap(([mint, warnings]) =>
+            warnings.map((w) => ({
+              mint,
+              type: w.type,
+              severity: w.severity,
+              message: w.message,
+            }))
+          ),
+      });
     });
 
   return token;
@@ -1,118 +1,259 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import ora from 'ora';
 import { PrismaClient } from '@prisma/client';
-import { VersionedTransaction, Keypair } from '@solana/web3.js';
-import bs58 from 'bs58';
-import { UltraApiService } from '../../../../infrastructure/jupiter-api/ultra/ultra-api.service';
 import { ConfigurationService } from '../../../../core/config/configuration.service';
 import { MasterPasswordService } from '../../../../application/services/security/master-password.service';
-import { keyEncryptionService } from '../../../../application/services/security/key-encryption.service';
-import { WalletResolverService } from '../../../../application/services/wallet/wallet-resolver.service';
-import { PrismaWalletRepository } from '../../../../infrastructure/repositories/prisma-wallet.repository';
-import { PrismaTokenInfoRepository } from '../../../../infrastructure/repositories/prisma-token-info.repository';
-import { TokenInfoService } from '../../../../application/services/token-info.service';
 import { SessionService } from '../../../../core/session/session.service';
-import { JupiterApiError } from '../../../../core/errors/api.errors';
-
-function getFriendlyErrorMessage(error: string): { message: string; hint?: string } {
-  if (error.includes('Reached end of buffer') || error.includes('unexpectedly')) {
-    return {
-      message: error,
-      hint: 'This usually means insufficient token balance or account does not exist.',
-    };
-  }
-  return { message: error };
-}
+import {
+  DEFAULT_SWAP_RETRIES,
+  SWAP_ENGINES,
+  SwapEngine,
+} from '../../../../application/services/trade/swap.service';
+import {
+  DEFAULT_TWAP_MAX_IMPACT_PCT,
+  parseDuration,
+} from '../../../../application/services/trade/twap.service';
+import { assertSimulationSucceeded } from '../../../../application/services/trade/transaction-simulator.service';
+import {
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+} from '../../../../core/errors/cli.errors';
+import { RiskPolicyViolationError, RiskViolation } from '../../../../core/errors/risk.errors';
+import { UnsafeTransactionError } from '../../../../core/errors/transaction.errors';
+import { TokenAmount } from '../../../../domain/values/token-amount';
+import {
+  assertInteractive,
+  createSpinner,
+  isMachineOutput,
+  printResult,
+} from '../../output/output';
+import { TradeSwapResult, toTradeSwapResult, toTwapItem } from '../../output/results';
+import {
+  displaySimulation,
+  displayTransactionInspection,
+  displayTransactionViolations,
+} from './transaction-formatters';
+import { formatInterval, printTwap, runTwap, twapCsvRows } from '../../output/twap-output';
+import { loadSessionKey } from '../../output/session-key';
+import { createSwapService, createTwapServices } from '../../../service-factory';
 
 function checkJupiterApiKey(dataDir: string | undefined): boolean {
   const configService = new ConfigurationService(dataDir);
   return !!configService.getConfig().jupiter.apiKey;
 }
 
+function swapCsvRows(result: TradeSwapResult): object[] {
+  return [
+    {
+      wallet: result.wallet.name,
+      engine: result.engine,
+      mode: result.mode,
+      inputMint: result.input.mint,
+      inputSymbol: result.input.symbol,
+      inputAmount: result.input.amount,
+      outputMint: result.output.mint,
+      outputSymbol: result.output.symbol,
+      outputAmount: result.output.amount,
+      priceImpactPct: result.priceImpactPct,
+      slippageBps: result.slippageBps,
+      route: result.route.join(' > '),
+      status: result.status,
+      riskViolations: result.riskViolations.map((v) => v.rule).join(' '),
+      transactionViolations: result.transactionViolations.map((v) => v.check).join(' '),
+      simulationFailure: result.simulation?.failure?.reason ?? '',
+      executionStatus: result.executionStatus,
+      signature: result.signature,
+    },
+  ];
+}
+
+function parseEngine(engine: string | undefined): SwapEngine | undefined {
+  if (engine === undefined) return undefined;
+  if (!(SWAP_ENGINES as readonly string[]).includes(engine)) {
+    throw new InvalidArgumentError(`Invalid engine. Must be one of: ${SWAP_ENGINES.join(', ')}`, {
+      engine,
+    });
+  }
+  return engine as SwapEngine;
+}
+
+function printRiskViolations(violations: RiskViolation[]): void {
+  if (violations.length === 0) return;
+  console.log(chalk.red('⛔ The risk policy would refuse this trade:'));
+  for (const violation of violations) {
+    console.log(chalk.red(`  - ${violation.message}`));
+  }
+  console.log();
+}
+
+function printSwapResult(result: TradeSwapResult): void {
+  const { input, output, signature } = result;
+
+  if (result.status === 'quoted') {
+    printRiskViolations(result.riskViolations);
+    displayTransactionViolations(result.transactionViolations);
+    console.log(chalk.yellow('Dry run complete. No swap executed.'));
+    return;
+  }
+
+  if (!result.recorded && signature) {
+    console.log(chalk.yellow('⚠️  Swap executed but could not be saved to history (see logs)'));
+  }
+
+  if (result.status === 'success') {
+    console.log(chalk.green('\n✅ Swap successful!\n'));
+    console.log(`  Input:  ${input.amount} ${input.symbol}`);
+    console.log(`  Output: ${output.amount} ${output.symbol}`);
+  } else {
+    console.log(chalk.yellow(`\n⚠️ Swap status: ${result.executionStatus}\n`));
+    console.log(
+      chalk.yellow(
+        `  Not confirmed yet (${result.confirmation?.outcome ?? 'not sent'}). Check it later with "jup-cli tx status".`
+      )
+    );
+  }
+  if (result.confirmation) {
+    const { outcome, slot } = result.confirmation;
+    console.log(`  Confirmation: ${outcome}${slot ? chalk.dim(` (slot ${slot})`) : ''}`);
+  }
+  if (result.attempts > 1) {
+    console.log(chalk.dim(`  Attempts: ${result.attempts} (earlier ones expired without landing)`));
+  }
+  if (signature) {
+    console.log(`  Signature: ${chalk.dim(signature)}`);
+    console.log(chalk.dim(`  https://solscan.io/tx/${signature}`));
+  }
+}
+
 export function createTradeCommands(
   getPrisma: () => PrismaClient,
   getDataDir: () => string | undefined
 ): Command {
   const trade = new Command('trade').description('Execute trades on Jupiter');
 
-  const ultraApi = new UltraApiService();
-
   trade
     .command('swap')
-    .description('Swap tokens using Jupiter Ultra API')
+    .description('Swap tokens using Jupiter Ultra, or Metis sent over your RPC')
     .argument('<inputToken>', 'Input token symbol or mint address (e.g., SOL, USDC, or full mint)')
     .argument(
       '<outputToken>',
       'Output token symbol or mint address (e.g., SOL, USDC, or full mint)'
     )
-    .argument('<amount>', 'Amount of input token to swap')
+    .argument(
+      '<amount>',
+      'Amount of input token to swap, or 50%, max, $250 (of the output token with --exact-out)'
+    )
     .requiredOption('-w, --wallet <identifier>', 'Wallet identifier (number, name, or UUID)')
     .option('-s, --slippage <bps>', 'Slippage tolerance in basis points', '100')
     .option('-p, --password <password>', 'Master password (optional if session exists)')
     .option('-y, --yes', 'Skip confirmation prompt')
     .option('--dry-run', 'Get quote without executing the swap')
+    .option('--exact-out', 'Receive exactly <amount> of the output token (Metis engine)')
+    .option('--engine <engine>', 'Swap engine: ultra, or metis to send over your RPC')
+    .option('--exclude-dexes <labels>', 'Comma-separated DEX labels to route around (Metis)')
+    .option('--only-direct-routes', 'Only single-hop routes (Metis)')
+    .option('--max-accounts <n>', 'Cap the accounts the route may use (Metis)')
+    .option('--show-instructions', 'Print the programs, accounts and instructions to be signed')
+    .option(
+      '--retries <n>',
+      'Quote and send again this many times when a transaction expires without landing',
+      String(DEFAULT_SWAP_RETRIES)
+    )
     .hook('preAction', () => {
       if (!checkJupiterApiKey(getDataDir())) {
-        console.error(chalk.red('\n❌ Jupiter API key not configured.\n'));
-        console.log(chalk.dim('Trading commands require a Jupiter API key.'));
-        console.log(chalk.dim('Get one at: https://portal.jup.ag/'));
-        console.log(chalk.dim('Then run: jup-cli config set-jupiter-key\n'));
-        process.exit(1);
+        throw new JupiterApiKeyMissingError();
       }
     })
     .action(async (inputToken, outputToken, amount, options) => {
-      const spinner = ora();
-
-      try {
-        const prisma = getPrisma();
-        const dataDir = getDataDir();
-        const walletRepo = new PrismaWalletRepository(prisma);
-        const walletResolver = new WalletResolverService(walletRepo);
-        const sessionService = new SessionService(prisma, dataDir);
-        const masterPasswordService = new MasterPasswordService(prisma);
-        const tokenInfoRepo = new PrismaTokenInfoRepository(prisma);
-        const tokenInfoService = new TokenInfoService(tokenInfoRepo, ultraApi);
-
-        const wallet = await walletResolver.resolve(options.wallet);
-        console.log(chalk.dim(`\nWallet: ${wallet.name} (${wallet.address.slice(0, 8)}...)\n`));
-
-        spinner.start('Resolving tokens...');
-        const [input, output] = await Promise.all([
-          tokenInfoService.resolveToken(inputToken),
-          tokenInfoService.resolveToken(outputToken),
-        ]);
-        spinner.stop();
+      const spinner = createSpinner();
 
-        const inputAmount = parseFloat(amount);
-        const slippageBps = parseInt(options.slippage, 10);
+      const prisma = getPrisma();
+      const dataDir = getDataDir();
+      const sessionService = new SessionService(prisma, dataDir);
+      const masterPasswordService = new MasterPasswordService(prisma);
+      const swapService = createSwapService(
+        prisma,
+        ConfigurationService.getInstance(dataDir).getConfig()
+      );
 
-        if (input.mint === output.mint) {
-          console.error(chalk.red('❌ Input and output tokens must be different'));
-          process.exit(1);
-        }
+      const engine = parseEngine(options.engine);
+      const retries = parseInt(options.retries, 10);
+      if (!(retries >= 0)) {
+        throw new InvalidArgumentError('--retries must be 0 or a positive integer', {
+          retries: options.retries,
+        });
+      }
+      const maxAccounts = options.maxAccounts ? parseInt(options.maxAccounts, 10) : undefined;
+      if (maxAccounts !== undefined && !(maxAccounts > 0)) {
+        throw new InvalidArgumentError('--max-accounts must be a positive integer', {
+          maxAccounts: options.maxAccounts,
+        });
+      }
 
-        const amountInSmallestUnit = Math.floor(
-          inputAmount * Math.pow(10, input.decimals)
-        ).toString();
-
-        spinner.start('Getting order from Jupiter Ultra...');
-        const order = await ultraApi.getOrder(
-          input.mint,
-          output.mint,
-          amountInSmallestUnit,
-          wallet.address,
-          slippageBps
-        );
-        spinner.stop();
+      spinner.start(
+        (engine ?? (options.exactOut ? 'metis' : 'ultra')) === 'ultra'
+          ? 'Getting order from Jupiter Ultra...'
+          : 'Getting quote from Jupiter Metis...'
+      );
+      const quote = await swapService.quote({
+        wallet: options.wallet,
+        inputToken,
+        outputToken,
+        amount,
+        slippageBps: parseInt(options.slippage, 10),
+        exactOut: !!options.exactOut,
+        engine,
+        routing: {
+          excludeDexes: options.excludeDexes
+            ?.split(',')
+            .map((label: string) => label.trim())
+            .filter(Boolean),
+          onlyDirectRoutes: options.onlyDirectRoutes || undefined,
+          maxAccounts,
+        },
+      });
+      spinner.text = 'Checking risk policy...';
+      const riskViolations = await swapService.checkPolicy(quote);
+      spinner.text = 'Inspecting transaction...';
+      const inspection = await swapService.inspectTransaction(quote);
+      // Exact-out swaps are checked against the balance again before signing
+      const inputBalance =
+        quote.mode === 'ExactOut' ? await swapService.getInputBalance(quote) : null;
+      spinner.stop();
+      const shownInspection = options.showInstructions ? inspection : null;
 
-        const outputAmount = parseFloat(order.outAmount) / Math.pow(10, output.decimals);
-        const priceImpact = parseFloat(order.priceImpactPct);
+      const { wallet, input, output, outputAmount, route } = quote;
+      const priceImpact = quote.priceImpactPct;
+      const basis = quote.amountBasis ? chalk.dim(` (${quote.amountBasis})`) : '';
 
+      if (!isMachineOutput()) {
+        console.log(chalk.dim(`\nWallet: ${wallet.name} (${wallet.address.slice(0, 8)}...)\n`));
         console.log(chalk.bold('📊 Order\n'));
-        console.log(`  Input:  ${chalk.cyan(amount)} ${input.symbol}`);
-        console.log(`  Output: ${chalk.green(outputAmount.toFixed(6))} ${output.symbol}`);
+        if (inputBalance) {
+          const covered = inputBalance.compare(quote.maxInputAmount) >= 0;
+          console.log(
+            `  Input:  ${chalk.cyan(`~${quote.inputAmount.toString()}`)} ${input.symbol}`
+          );
+          console.log(
+            `  Max input: ${(covered ? chalk.cyan : chalk.red)(quote.maxInputAmount.toString())} ${
+              input.symbol
+            } with slippage ${chalk.dim(`(balance ${inputBalance.toString()})`)}`
+          );
+          console.log(`  Output: ${chalk.green(quote.amount)} ${output.symbol} (exact)${basis}`);
+        } else {
+          console.log(`  Input:  ${chalk.cyan(quote.amount)} ${input.symbol}${basis}`);
+          console.log(`  Output: ${chalk.green(outputAmount.toFixed(6))} ${output.symbol}`);
+        }
+        if (quote.transferFee) {
+          console.log(
+            chalk.yellow(
+              `  Transfer fee: ${quote.outputTransferFee.toFixed(6)} ${output.symbol} (${
+                quote.transferFee.basisPoints / 100
+              }%, Token-2022) ${inputBalance ? 'added to the quoted output' : 'already deducted'}`
+            )
+          );
+        }
         console.log(
           `  Price Impact: ${
             priceImpact > 1
@@ -120,113 +261,281 @@ export function createTradeCommands(
               : chalk.dim(priceImpact.toFixed(4) + '%')
           }`
         );
-        console.log(`  Slippage: ${order.slippageBps / 100}%`);
-        if (order.routePlan && order.routePlan.length > 0) {
-          console.log(`  Route: ${order.routePlan.map((r) => r.swapInfo.label).join(' → ')}`);
+        console.log(`  Slippage: ${quote.slippageBps / 100}%`);
+        if (quote.order.engine === 'metis') {
+          console.log(`  Engine: Metis ${chalk.dim('(sent over your RPC)')}`);
+        }
+        if (quote.computeBudget) {
+          const { computeUnitLimit, microLamports, priorityFeeLamports, simulated } =
+            quote.computeBudget;
+          console.log(
+            `  Priority fee: ${TokenAmount.fromRaw(BigInt(priorityFeeLamports), 9).toString()} SOL ${chalk.dim(
+              `(${microLamports.toLocaleString()} micro-lamports × ${computeUnitLimit.toLocaleString()} units${
+                simulated ? '' : ', limit not simulated'
+              })`
+            )}`
+          );
+        }
+        if (route.length > 0) {
+          console.log(`  Route: ${route.join(' → ')}`);
         }
         console.log();
+        if (shownInspection) {
+          displayTransactionInspection(shownInspection, [input, output]);
+        }
+      }
 
-        if (options.dryRun) {
-          console.log(chalk.yellow('Dry run complete. No swap executed.'));
-          return;
+      if (options.dryRun) {
+        // Unsigned: simulation skips signature checks
+        spinner.start('Simulating transaction...');
+        const simulation = await swapService.simulate(quote);
+        spinner.stop();
+        if (!isMachineOutput()) {
+          displaySimulation(simulation);
         }
 
-        let confirm = options.yes;
-        if (!confirm) {
+        printResult(
+          toTradeSwapResult(quote, undefined, {
+            riskViolations,
+            transactionViolations: inspection.violations,
+            transaction: shownInspection,
+            simulation,
+          }),
+          {
+            table: printSwapResult,
+            csv: swapCsvRows,
+          }
+        );
+        return;
+      }
+      if (riskViolations.length > 0) {
+        throw new RiskPolicyViolationError(riskViolations);
+      }
+      if (inspection.violations.length > 0) {
+        throw new UnsafeTransactionError(inspection.violations);
+      }
+
+      // Signed before confirming, so the simulation runs what would be sent
+      spinner.start('Signing transaction...');
+
+      let sessionKey = await sessionService.getSessionKey();
+
+      if (!sessionKey) {
+        if (options.password) {
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(options.password);
+        } else {
+          assertInteractive('Master password', '--password');
+          spinner.stop();
           const answer = await inquirer.prompt([
             {
-              type: 'confirm',
-              name: 'confirm',
-              message: `Confirm swap ${amount} ${input.symbol} → ${outputAmount.toFixed(6)} ${output.symbol}?`,
-              default: false,
+              type: 'password',
+              name: 'password',
+              message: 'Enter master password (no active session):',
+              mask: '*',
             },
           ]);
-          confirm = answer.confirm;
+          spinner.start('Signing transaction...');
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(answer.password);
         }
+      }
 
-        if (!confirm) {
-          console.log(chalk.dim('Swap cancelled.'));
-          return;
-        }
+      const signed = await swapService.sign(quote, sessionKey);
+      spinner.text = 'Simulating transaction...';
+      const simulation = await swapService.simulate(quote, signed.transaction);
+      spinner.stop();
 
-        spinner.start('Signing transaction...');
+      if (!isMachineOutput()) {
+        displaySimulation(simulation);
+      }
+      assertSimulationSucceeded(simulation);
+
+      let confirm = options.yes;
+      if (!confirm) {
+        assertInteractive('Swap confirmation', '--yes');
+        const answer = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: `Confirm swap ${amount} ${input.symbol} → ${outputAmount.toFixed(6)} ${output.symbol}?`,
+            default: false,
+          },
+        ]);
+        confirm = answer.confirm;
+      }
+
+      if (!confirm) {
+        console.log(chalk.dim('Swap cancelled.'));
+        return;
+      }
 
-        let sessionKey = await sessionService.getSessionKey();
+      spinner.start(
+        quote.order.engine === 'ultra'
+          ? 'Executing swap via Jupiter Ultra...'
+          : 'Sending swap over RPC...'
+      );
 
-        if (!sessionKey) {
-          if (options.password) {
-            sessionKey = await masterPasswordService.getSessionKeyWithPassword(options.password);
-          } else {
+      const execution = await swapService.submit(signed, {
+        retries,
+        sessionKey,
+        onProgress: ({ stage, slot }) => {
+          spinner.text =
+            stage === 'sent'
+              ? 'Waiting for the transaction to land...'
+              : `Transaction ${stage}${slot ? ` in slot ${slot}` : ''}, waiting for finalized...`;
+        },
+        onRetry: (attempt, requoted) => {
+          spinner.text = `Expired without landing, sending again (attempt ${attempt} of ${
+            retries + 1
+          })...`;
+          if (!isMachineOutput()) {
             spinner.stop();
-            const answer = await inquirer.prompt([
-              {
-                type: 'password',
-                name: 'password',
-                message: 'Enter master password (no active session):',
-                mask: '*',
-              },
-            ]);
-            spinner.start('Signing transaction...');
-            sessionKey = await masterPasswordService.getSessionKeyWithPassword(answer.password);
+            console.log(
+              chalk.yellow(
+                `⚠️  Blockhash expired before the swap landed. New quote: ${requoted.amount} ${
+                  requoted.input.symbol
+                } → ${requoted.outputAmount.toFixed(6)} ${requoted.output.symbol}`
+              )
+            );
+            spinner.start();
           }
+        },
+      });
+
+      spinner.stop();
+
+      printResult(
+        toTradeSwapResult(quote, execution, { transaction: shownInspection, simulation }),
+        {
+          table: printSwapResult,
+          csv: swapCsvRows,
         }
+      );
+    });
 
-        const privateKeyBase58 = await keyEncryptionService.decryptPrivateKey(
-          wallet.encryptedKey,
-          wallet.keyNonce,
-          wallet.keySalt,
-          wallet.keyAuthTag,
-          sessionKey
-        );
+  trade
+    .command('twap')
+    .description('Split a swap into equal Ultra swaps spread over a time window')
+    .argument('<inputToken>', 'Input token symbol or mint address')
+    .argument('<outputToken>', 'Output token symbol or mint address')
+    .argument('<amount>', 'Total amount of input token, or 50%, max, $250 (worked out once)')
+    .requiredOption('-w, --wallet <identifier>', 'Wallet identifier (number, name, or UUID)')
+    .requiredOption('--over <duration>', 'Time window, e.g. 30m, 6h or 1d')
+    .requiredOption('--slices <n>', 'Number of swaps')
+    .option(
+      '--max-impact <percent>',
+      'Skip a slice quoted above this price impact',
+      String(DEFAULT_TWAP_MAX_IMPACT_PCT)
+    )
+    .option('-s, --slippage <bps>', 'Slippage tolerance in basis points', '100')
+    .option('-p, --password <password>', 'Master password (optional if session exists)')
+    .option('-y, --yes', 'Skip confirmation prompt')
+    .hook('preAction', () => {
+      if (!checkJupiterApiKey(getDataDir())) {
+        throw new JupiterApiKeyMissingError();
+      }
+    })
+    .action(async (inputToken, outputToken, amount, options) => {
+      const durationSeconds = parseDuration(options.over);
+      const slices = Number(options.slices);
+      const maxPriceImpactPct = Number(options.maxImpact);
+      const slippageBps = parseInt(options.slippage, 10);
+      if (!(slippageBps > 0 && slippageBps <= 10_000)) {
+        throw new InvalidArgumentError('Slippage must be between 1 and 10000 bps', {
+          slippage: options.slippage,
+        });
+      }
 
-        const txBuffer = Buffer.from(order.transaction, 'base64');
-        const transaction = VersionedTransaction.deserialize(txBuffer);
+      const prisma = getPrisma();
+      const dataDir = getDataDir();
+      const { twaps } = createTwapServices(
+        prisma,
+        ConfigurationService.getInstance(dataDir).getConfig()
+      );
 
-        const privateKeyBytes = bs58.decode(privateKeyBase58);
-        const keypair = Keypair.fromSecretKey(privateKeyBytes);
-        transaction.sign([keypair]);
+      const spinner = createSpinner('Planning TWAP...').start();
+      const plan = await twaps.plan({
+        wallet: options.wallet,
+        inputToken,
+        outputToken,
+        amount,
+        durationSeconds,
+        slices,
+        maxPriceImpactPct,
+        slippageBps,
+      });
+      spinner.stop();
 
-        privateKeyBytes.fill(0);
+      const { wallet, input, output, twap } = plan;
+      const first = twap.slices[0];
+      const last = twap.slices[twap.slices.length - 1];
+      if (!isMachineOutput()) {
+        console.log(chalk.dim(`\nWallet: ${wallet.name} (${wallet.address.slice(0, 8)}...)\n`));
+        console.log(chalk.bold('⏱️  TWAP\n'));
+        console.log(
+          `  Total:  ${chalk.cyan(plan.amount.toString())} ${input.symbol} → ${output.symbol}${
+            plan.basis ? chalk.dim(` (${plan.basis})`) : ''
+          }`
+        );
+        console.log(
+          `  Slices: ${slices} of ${TokenAmount.fromRaw(first?.inputAmount ?? '0', input.decimals).toString()} ${
+            input.symbol
+          }, every ${formatInterval(twap.intervalSeconds)}`
+        );
+        console.log(
+          `  Window: ${first?.scheduledAt.toLocaleString()} → ${last?.scheduledAt.toLocaleString()}`
+        );
+        console.log(`  Max price impact: ${maxPriceImpactPct}% per slice (skipped above)`);
+        console.log(`  Slippage: ${slippageBps / 100}%\n`);
+      }
 
-        const signedTransaction = Buffer.from(transaction.serialize()).toString('base64');
+      const sessionKey = await loadSessionKey(prisma, dataDir, options.password);
 
-        spinner.text = 'Executing swap via Jupiter Ultra...';
+      let confirm = options.yes;
+      if (!confirm) {
+        assertInteractive('TWAP confirmation', '--yes');
+        const answer = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: `Start TWAP of ${plan.amount.toString()} ${input.symbol} → ${output.symbol} in ${slices} slices?`,
+            default: false,
+          },
+        ]);
+        confirm = answer.confirm;
+      }
 
-        const result = await ultraApi.executeOrder(signedTransaction, order.requestId);
+      if (!confirm) {
+        console.log(chalk.dim('TWAP cancelled.'));
+        return;
+      }
 
-        spinner.stop();
+      await twaps.create(twap);
+      const finished = await runTwap(twaps, twap, sessionKey, {
+        input: input.symbol,
+        output: output.symbol,
+      });
+      const symbols = new Map([
+        [input.mint, input.symbol],
+        [output.mint, output.symbol],
+      ]);
 
-        if (result.status === 'Success' || result.status === 'Completed') {
-          console.log(chalk.green('\n✅ Swap successful!\n'));
-          console.log(`  Input:  ${amount} ${input.symbol}`);
-          console.log(`  Output: ${outputAmount.toFixed(6)} ${output.symbol}`);
-          if (result.signature) {
-            console.log(`  Signature: ${chalk.dim(result.signature)}`);
-            console.log(chalk.dim(`  https://solscan.io/tx/${result.signature}`));
-          }
-        } else {
-          console.log(chalk.yellow(`\n⚠️ Swap status: ${result.status}\n`));
-          if (result.signature) {
-            console.log(`  Signature: ${chalk.dim(result.signature)}`);
-            console.log(chalk.dim(`  https://solscan.io/tx/${result.signature}`));
-          }
-        }
-      } catch (error) {
-        spinner.fail('Swap failed');
-        const errorObj = getFriendlyErrorMessage(
-          error instanceof JupiterApiError || error instanceof Error
-            ? error.message
-            : 'Unknown error'
-        );
-        console.error(chalk.red(`\n❌ ${errorObj.message}`));
-        if (errorObj.hint) {
-          console.error(chalk.dim(`   Hint: ${errorObj.hint}`));
-        }
-        if (error instanceof JupiterApiError && error.details?.code) {
-          console.error(chalk.dim(`   Code: ${error.details.code}`));
+      printResult(
+        { twaps: [toTwapItem(finished, symbols)] },
+        {
+          table: (result) => {
+            console.log(
+              finished.status === 'completed'
+                ? chalk.green('\n✅ TWAP completed.\n')
+                : chalk.yellow(`\n⚠️  TWAP ${finished.status}.\n`)
+            );
+            for (const item of result.twaps) {
+              printTwap(item, false);
+            }
+            console.log('');
+          },
+          csv: twapCsvRows,
         }
-        process.exit(1);
-      }
+      );
     });
 
   return trade;
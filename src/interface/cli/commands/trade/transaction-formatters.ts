@@ -0,0 +1,105 @@
+import chalk from 'chalk';
+import { TransactionInspection } from '../../../../application/services/security/transaction-inspector.service';
+import { ResolvedToken } from '../../../../application/services/token-info.service';
+import { SimulationReport } from '../../../../application/services/trade/transaction-simulator.service';
+import { TransactionViolation } from '../../../../core/errors/transaction.errors';
+import { TokenAmount } from '../../../../domain/values/token-amount';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+function formatOutflow(mint: string, amount: string, tokens: ResolvedToken[]): string {
+  const token = tokens.find((t) => t.mint === mint);
+  if (token) return `${TokenAmount.fromRaw(amount, token.decimals).toString()} ${token.symbol}`;
+  if (mint === SOL_MINT) return `${TokenAmount.fromRaw(amount, 9).toString()} SOL`;
+  return `${amount} raw units of ${mint}`;
+}
+
+export function displayTransactionViolations(violations: TransactionViolation[]): void {
+  if (violations.length === 0) return;
+  console.log(chalk.red('⛔ This transaction would be refused:'));
+  for (const violation of violations) {
+    console.log(chalk.red(`  - ${violation.message}`));
+  }
+  console.log();
+}
+
+/**
+ * The breakdown printed by --show-instructions. `tokens` are used to show
+ * outflows in token units.
+ */
+export function displayTransactionInspection(
+  inspection: TransactionInspection,
+  tokens: ResolvedToken[]
+): void {
+  const { lookupTables } = inspection;
+  console.log(
+    chalk.bold(
+      `🔍 Transaction (${inspection.version === 'legacy' ? 'legacy' : `v${inspection.version}`}, ${
+        lookupTables.length
+      } lookup table${lookupTables.length === 1 ? '' : 's'})\n`
+    )
+  );
+  console.log(`  Fee payer: ${inspection.feePayer}`);
+  console.log(`  Signers:   ${inspection.signers.join(', ')}`);
+
+  console.log(chalk.bold('\n  Programs'));
+  for (const program of inspection.programs) {
+    console.log(
+      `    ${program.name ? chalk.green(program.name) : chalk.red('Not allowed')}  ${chalk.dim(program.id)}`
+    );
+  }
+
+  console.log(chalk.bold('\n  Instructions'));
+  for (const instruction of inspection.instructions) {
+    const program = instruction.program ?? chalk.red(instruction.programId);
+    const detail = instruction.detail ? chalk.dim(`  ${instruction.detail}`) : '';
+    console.log(`    #${instruction.index} ${program}: ${instruction.action}${detail}`);
+  }
+
+  console.log(chalk.bold(`\n  Writable accounts (${inspection.writableAccounts.length})`));
+  for (const account of inspection.writableAccounts) {
+    console.log(
+      `    ${account}${account === inspection.feePayer ? chalk.dim('  (fee payer)') : ''}`
+    );
+  }
+
+  console.log(chalk.bold('\n  Leaves the wallet'));
+  if (inspection.outflows.length === 0) {
+    console.log(chalk.dim('    Nothing but fees and rent'));
+  }
+  for (const outflow of inspection.outflows) {
+    console.log(
+      `    ${formatOutflow(outflow.mint, outflow.amount, tokens)} ${chalk.dim(`(#${outflow.instruction})`)}`
+    );
+  }
+  console.log();
+}
+
+export function displaySimulation(report: SimulationReport): void {
+  console.log(chalk.bold('🧪 Simulation\n'));
+  if (report.failure) {
+    console.log(chalk.red(`  ⛔ ${report.failure.message}`));
+    const errorLog = report.logs.filter((line) => /error|failed/i.test(line)).slice(-1)[0];
+    if (errorLog) {
+      console.log(chalk.dim(`  ${errorLog}`));
+    }
+    console.log();
+    return;
+  }
+
+  const width = Math.max(...report.balanceChanges.map((c) => c.symbol.length));
+  for (const change of report.balanceChanges) {
+    const colored = change.change.startsWith('-')
+      ? chalk.red(change.change)
+      : change.change.startsWith('+')
+        ? chalk.green(change.change)
+        : chalk.dim(change.change);
+    console.log(
+      `  ${change.symbol.padEnd(width)}  ${colored} ${chalk.dim(`(${change.before} → ${change.after})`)}`
+    );
+  }
+  if (report.unitsConsumed !== null) {
+    console.log(`  Compute units: ${report.unitsConsumed.toLocaleString()}`);
+  }
+  console.log();
+}
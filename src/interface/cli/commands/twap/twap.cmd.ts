@@ -0,0 +1,145 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { PrismaClient } from '@prisma/client';
+import { TokenInfoService } from '../../../../application/services/token-info.service';
+import { TwapOrder } from '../../../../domain/entities/twap-order.entity';
+import { ConfigurationService } from '../../../../core/config/configuration.service';
+import { JupiterApiKeyMissingError } from '../../../../core/errors/cli.errors';
+import { printResult } from '../../output/output';
+import { TwapListResult, toTwapItem } from '../../output/results';
+import { printTwap, runTwap, twapCsvRows } from '../../output/twap-output';
+import { loadSessionKey } from '../../output/session-key';
+import { createTwapServices } from '../../../service-factory';
+
+export function createTwapCommands(
+  getPrisma: () => PrismaClient,
+  getDataDir: () => string | undefined
+): Command {
+  const twap = new Command('twap').description(
+    'Show, resume and cancel TWAP swaps started with `jup-cli trade twap`'
+  );
+
+  const toListResult = async (
+    tokenInfoService: TokenInfoService,
+    orders: TwapOrder[]
+  ): Promise<TwapListResult> => {
+    const mints = new Set(orders.flatMap((o) => [o.inputMint, o.outputMint]));
+    const tokenInfo = await tokenInfoService.getTokenInfoBatch([...mints]);
+    const symbols = new Map([...tokenInfo].map(([mint, info]) => [mint, info.symbol]));
+    return { twaps: orders.map((o) => toTwapItem(o, symbols)) };
+  };
+
+  twap
+    .command('status')
+    .description('Show the progress of active TWAPs, or of one TWAP slice by slice')
+    .argument('[id]', 'TWAP ID')
+    .option('-w, --wallet <identifier>', 'Only TWAPs of this wallet')
+    .option('--all', 'Include completed and cancelled TWAPs')
+    .action(async (id: string | undefined, options) => {
+      const { tokenInfoService, walletResolver, twaps } = createTwapServices(
+        getPrisma(),
+        ConfigurationService.getInstance(getDataDir()).getConfig()
+      );
+      let orders: TwapOrder[];
+      if (id) {
+        orders = [await twaps.get(id)];
+      } else {
+        const wallet = options.wallet ? await walletResolver.resolve(options.wallet) : undefined;
+        orders = await twaps.list(wallet?.id, !!options.all);
+      }
+
+      printResult(await toListResult(tokenInfoService, orders), {
+        table: (result) => {
+          if (result.twaps.length === 0) {
+            console.log(chalk.yellow('\nNo active TWAPs. Start one with: jup-cli trade twap'));
+            return;
+          }
+          console.log(chalk.bold(`\n⏱️  TWAPs (${result.twaps.length})\n`));
+          for (const item of result.twaps) {
+            printTwap(item, !!id);
+            console.log('');
+          }
+        },
+        csv: twapCsvRows,
+      });
+    });
+
+  twap
+    .command('resume')
+    .description('Run the remaining slices of a stopped TWAP, or of every active TWAP')
+    .argument('[id]', 'TWAP ID (default: all active TWAPs)')
+    .option('-p, --password <password>', 'Master password (optional if session exists)')
+    .hook('preAction', () => {
+      if (!ConfigurationService.getInstance(getDataDir()).getConfig().jupiter.apiKey) {
+        throw new JupiterApiKeyMissingError();
+      }
+    })
+    .action(async (id: string | undefined, options) => {
+      const prisma = getPrisma();
+      const dataDir = getDataDir();
+      const { tokenInfoService, twaps } = createTwapServices(
+        prisma,
+        ConfigurationService.getInstance(dataDir).getConfig()
+      );
+      const orders = id ? [await twaps.get(id)] : await twaps.list();
+      const active = orders.filter((o) => o.status === 'active');
+      if (active.length === 0) {
+        printResult(await toListResult(tokenInfoService, orders), {
+          table: () => console.log(chalk.yellow('\nNo active TWAP to resume.')),
+          csv: twapCsvRows,
+        });
+        return;
+      }
+
+      const sessionKey = await loadSessionKey(prisma, dataDir, options.password);
+      const tokenInfo = await tokenInfoService.getTokenInfoBatch([
+        ...new Set(active.flatMap((o) => [o.inputMint, o.outputMint])),
+      ]);
+      const symbolOf = (mint: string) => tokenInfo.get(mint)?.symbol ?? mint.slice(0, 6) + '...';
+      // Each TWAP keeps its own schedule
+      const finished = await Promise.all(
+        active.map((order) =>
+          runTwap(twaps, order, sessionKey, {
+            input: symbolOf(order.inputMint),
+            output: symbolOf(order.outputMint),
+          })
+        )
+      );
+
+      printResult(await toListResult(tokenInfoService, finished), {
+        table: (result) => {
+          console.log('');
+          for (const item of result.twaps) {
+            printTwap(item, false);
+            console.log('');
+          }
+        },
+        csv: twapCsvRows,
+      });
+    });
+
+  twap
+    .command('cancel')
+    .description('Cancel an active TWAP; slices already executed are kept')
+    .argument('<id>', 'TWAP ID (see twap status)')
+    .action(async (id: string) => {
+      const { tokenInfoService, twaps } = createTwapServices(
+        getPrisma(),
+        ConfigurationService.getInstance(getDataDir()).getConfig()
+      );
+      const cancelled = await twaps.cancel(id);
+
+      printResult(await toListResult(tokenInfoService, [cancelled]), {
+        table: (result) => {
+          console.log(chalk.green('\n✅ TWAP cancelled.\n'));
+          for (const item of result.twaps) {
+            printTwap(item, false);
+          }
+          console.log(chalk.dim('\nA running `trade twap` stops before its next slice.\n'));
+        },
+        csv: twapCsvRows,
+      });
+    });
+
+  return twap;
+}
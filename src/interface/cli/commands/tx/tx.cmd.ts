@@ -0,0 +1,84 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { PrismaClient } from '@prisma/client';
+import { UltraApiService } from '../../../../infrastructure/jupiter-api/ultra/ultra-api.service';
+import { ConnectionService } from '../../../../infrastructure/solana/connection.service';
+import { PrismaTradeRepository } from '../../../../infrastructure/repositories/prisma-trade.repository';
+import { ConfirmationTrackerService } from '../../../../application/services/trade/confirmation-tracker.service';
+import { TradeService } from '../../../../application/services/trade/trade.service';
+import { InvalidArgumentError } from '../../../../core/errors/cli.errors';
+import { createSpinner, printResult } from '../../output/output';
+import { TxStatusResult, toTxStatusResult } from '../../output/results';
+
+const SIGNATURE_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{64,88}$/;
+
+function printTxStatus(result: TxStatusResult, showLogs: boolean): void {
+  console.log(chalk.dim(`\nSignature: ${result.signature}\n`));
+  if (!result.found) {
+    console.log(chalk.yellow('Not found: the transaction never landed, or it expired.'));
+    return;
+  }
+
+  if (result.error) {
+    console.log(chalk.red(`⛔ Failed: ${result.error.message}`));
+  } else if (result.outcome === 'finalized') {
+    console.log(chalk.green('✅ Finalized'));
+  } else {
+    console.log(chalk.yellow(`⏳ ${result.outcome}, not finalized yet`));
+  }
+  if (result.slot !== null) {
+    console.log(`  Slot: ${result.slot}`);
+  }
+  for (const trade of result.trades) {
+    console.log(`  Trade ${trade.id}: ${trade.status}`);
+  }
+
+  if ((showLogs || result.error) && result.logs.length > 0) {
+    console.log(chalk.bold('\n  Logs'));
+    for (const line of result.logs) {
+      console.log(chalk.dim(`    ${line}`));
+    }
+  }
+  console.log(chalk.dim(`\n  https://solscan.io/tx/${result.signature}`));
+}
+
+export function createTxCommands(getPrisma: () => PrismaClient): Command {
+  const tx = new Command('tx').description('Check transactions on-chain');
+
+  tx.command('status')
+    .description('Show the outcome of a transaction and update the trade recorded for it')
+    .argument('<signature>', 'Transaction signature')
+    .option('--logs', 'Print the program logs of successful transactions too')
+    .action(async (signature: string, options) => {
+      if (!SIGNATURE_PATTERN.test(signature)) {
+        throw new InvalidArgumentError('Invalid transaction signature', { signature });
+      }
+
+      const spinner = createSpinner('Looking up transaction...').start();
+      const ultraApi = new UltraApiService();
+      const tradeService = new TradeService(new PrismaTradeRepository(getPrisma()), {
+        getPrice: async (mints: string[]) => ultraApi.getPrice(mints),
+      });
+      const tracker = new ConfirmationTrackerService(new ConnectionService());
+
+      const outcome = await tracker.lookup(signature);
+      const trades = outcome ? await tradeService.recordOutcome(outcome) : [];
+      spinner.stop();
+
+      printResult(toTxStatusResult(signature, outcome, trades), {
+        table: (result) => printTxStatus(result, !!options.logs),
+        csv: (result) => [
+          {
+            signature: result.signature,
+            found: result.found,
+            outcome: result.outcome,
+            slot: result.slot,
+            error: result.error?.message ?? '',
+            trades: result.trades.map((t) => `${t.id}:${t.status}`).join(' '),
+          },
+        ],
+      });
+    });
+
+  return tx;
+}
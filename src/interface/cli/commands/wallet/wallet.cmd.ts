@@ -1,7 +1,6 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import ora from 'ora';
 import { PrismaClient } from '@prisma/client';
 import { WalletManagerService } from '../../../../application/services/wallet/wallet-manager.service';
 import { WalletCreatorService } from '../../../../application/services/wallet/wallet-creator.service';
@@ -22,6 +21,150 @@ import {
   OrderSyncService,
   ActiveOrderWithPrice,
 } from '../../../../application/services/order/order-sync.service';
+import { WalletHistorySyncService } from '../../../../application/services/wallet/wallet-history-sync.service';
+import { TradeService } from '../../../../application/services/trade/trade.service';
+import { PrismaTradeRepository } from '../../../../infrastructure/repositories/prisma-trade.repository';
+import { PrismaSyncCursorRepository } from '../../../../infrastructure/repositories/prisma-sync-cursor.repository';
+import { PrismaWalletActivityRepository } from '../../../../infrastructure/repositories/prisma-wallet-activity.repository';
+import { ConnectionService } from '../../../../infrastructure/solana/connection.service';
+import { ActivityKind } from '../../../../domain/entities/wallet-activity.entity';
+import { Wallet } from '../../../../domain/entities/wallet.entity';
+import { InvalidArgumentError, NotInitializedError } from '../../../../core/errors/cli.errors';
+import { InvalidMasterPasswordError } from '../../../../core/errors/wallet.errors';
+import { formatMintExtensions } from '../token/token-formatters';
+import {
+  assertInteractive,
+  createSpinner,
+  isMachineOutput,
+  printResult,
+} from '../../output/output';
+import {
+  WalletExportResult,
+  WalletListResult,
+  WalletRef,
+  WalletShowResult,
+  WalletSyncHistoryResult,
+  toWalletShowResult,
+  toWalletSyncHistoryResult,
+} from '../../output/results';
+
+const ACTIVITY_LABELS: Record<ActivityKind, string> = {
+  swap: 'Swap',
+  transfer_in: 'Deposit',
+  transfer_out: 'Withdrawal',
+  order: 'Order',
+  fee: 'Fee only',
+  unknown: 'Unknown',
+};
+
+function toWalletRef(wallet: Wallet): WalletRef {
+  return { id: wallet.id, name: wallet.name, address: wallet.address };
+}
+
+function printWalletRef(wallet: WalletRef): void {
+  console.log(chalk.dim(`ID:      ${wallet.id}`));
+  console.log(chalk.dim(`Name:    ${wallet.name}`));
+  console.log(chalk.dim(`Address: ${wallet.address}`));
+}
+
+function printHistorySync(result: WalletSyncHistoryResult): void {
+  console.log(chalk.bold(`\n🔄 History Sync: ${result.wallet.name}\n`));
+  console.log(
+    `${'Scanned:'.padEnd(20)} ${result.scanned} signature(s)\n` +
+      `${'Imported:'.padEnd(20)} ${result.imported}\n` +
+      `${'Already imported:'.padEnd(20)} ${result.alreadyImported}\n` +
+      `${'Swaps recorded:'.padEnd(20)} ${result.tradesRecorded}`
+  );
+
+  if (result.activities.length > 0) {
+    console.log();
+    console.log(
+      `${chalk.gray('Date'.padEnd(20))} ${chalk.gray('Type'.padEnd(12))} ${chalk.gray('Changes')}`
+    );
+    console.log(chalk.gray('─'.repeat(80)));
+
+    for (const activity of result.activities) {
+      const changes = activity.changes
+        .map((c) => {
+          const symbol = c.symbol ?? c.mint.slice(0, 6) + '...';
+          const negative = c.amount.startsWith('-');
+          const text = `${negative ? '' : '+'}${c.amount} ${symbol}`;
+          return negative ? chalk.red(text) : chalk.green(text);
+        })
+        .join(', ');
+      const label = activity.failed ? 'Failed' : ACTIVITY_LABELS[activity.kind];
+
+      console.log(
+        `${activity.blockTime.toLocaleString().padEnd(20)} ${label.padEnd(12)} ${changes || chalk.dim('-')}`
+      );
+    }
+  }
+
+  if (!result.complete) {
+    console.log(
+      chalk.yellow('\n⚠️  RPC error: sync stopped early. Run the command again to resume.')
+    );
+  }
+  console.log();
+}
+
+function printWalletStatus(result: WalletShowResult): void {
+  const { wallet, activeOrders } = result;
+
+  console.log(chalk.bold('\n📊 Wallet Status\n'));
+  console.log(chalk.cyan('Wallet:'), wallet.name);
+  console.log(chalk.dim('ID:'), wallet.id);
+  console.log(chalk.dim('Address:'), wallet.address);
+  console.log(
+    chalk.dim('Status:'),
+    wallet.isActive ? chalk.green('Active') : chalk.gray('Inactive')
+  );
+  console.log();
+
+  console.log(chalk.bold('💰 Portfolio Summary'));
+  console.log(chalk.gray('─'.repeat(50)));
+  console.log(`${'Total Value:'.padEnd(20)} ${chalk.bold('$' + result.totalValue.toFixed(2))}`);
+  console.log();
+
+  if (result.tokens.length > 0) {
+    console.log(chalk.bold('📈 Token Balances'));
+    console.log(chalk.gray('─'.repeat(80)));
+    console.log(
+      `${chalk.gray('Token'.padEnd(8))} ${chalk.gray('Amount'.padEnd(14))} ${chalk.gray('Price'.padEnd(10))} ${chalk.gray('Value')}`
+    );
+    console.log(chalk.gray('─'.repeat(80)));
+
+    for (const token of result.tokens) {
+      const symbol = token.symbol ?? token.mint.slice(0, 8) + '...';
+      const amount = token.amount.toFixed(4).padEnd(14);
+      const price = '$' + token.price.toFixed(2).padEnd(8);
+      const value = '$' + token.value.toFixed(2);
+
+      console.log(`${chalk.cyan(symbol.padEnd(8))} ${amount} ${price} ${value}`);
+      if (token.program === 'token-2022') {
+        const extensions = token.extensions
+          ? formatMintExtensions(token.extensions, token.decimals, token.symbol ?? '')
+          : [];
+        console.log(chalk.dim('  ↳ Token-2022') + extensions.map((e) => `, ${e}`).join(''));
+      }
+    }
+    console.log();
+  }
+
+  if (activeOrders.count > 0) {
+    console.log(
+      chalk.bold(`⏳ Active Limit Orders: `) +
+        chalk.yellow(`${activeOrders.count}`) +
+        chalk.dim(` ($${activeOrders.blockedValue.toFixed(2)} blocked) `) +
+        chalk.dim(`→ use 'jupiter order list -w ${wallet.name}' for details`)
+    );
+    console.log();
+  }
+
+  console.log();
+  console.log(chalk.dim('Data fetched in real-time from Solana RPC + Jupiter API'));
+  console.log();
+}
 
 export function createWalletCommands(
   getPrisma: () => PrismaClient,
@@ -34,9 +177,7 @@ export function createWalletCommands(
     const pathManager = new PathManager(dataDir);
 
     if (!pathManager.isInitialized()) {
-      console.error(chalk.red('\n❌ Jup CLI is not initialized.\n'));
-      console.log(chalk.dim('Please run: jup-cli init\n'));
-      process.exit(1);
+      throw new NotInitializedError();
     }
   });
 
@@ -44,47 +185,53 @@ export function createWalletCommands(
     .command('list')
     .description('List all wallets')
     .action(async () => {
-      const spinner = ora('Loading wallets...').start();
-
-      try {
-        const prisma = getPrisma();
-        const walletRepo = new PrismaWalletRepository(prisma);
-        const walletManager = new WalletManagerService(walletRepo);
-        const wallets = await walletManager.getAllWallets();
-        spinner.stop();
-
-        if (wallets.length === 0) {
-          console.log(chalk.yellow('No wallets found. Create one with: jup-cli wallet create'));
-          return;
-        }
+      const spinner = createSpinner('Loading wallets...').start();
 
-        console.log(chalk.bold('\n📁 Wallets\n'));
-        console.log(
-          chalk.gray(`${'#'.padEnd(4)} ${'Name'.padEnd(20)} ${'Address'.padEnd(45)} Status`)
-        );
-        console.log(chalk.gray('─'.repeat(80)));
-
-        for (let i = 0; i < wallets.length; i++) {
-          const w = wallets[i];
-          if (!w) continue;
-          const index = String(i + 1).padEnd(4);
-          const status = w.isActive ? chalk.green('Active') : chalk.gray('Inactive');
+      const prisma = getPrisma();
+      const walletRepo = new PrismaWalletRepository(prisma);
+      const walletManager = new WalletManagerService(walletRepo);
+      const wallets = await walletManager.getAllWallets();
+      spinner.stop();
+
+      const result: WalletListResult = {
+        wallets: wallets.map((w, i) => ({
+          index: i + 1,
+          id: w.id,
+          name: w.name,
+          address: w.address,
+          isActive: w.isActive,
+        })),
+      };
+
+      printResult(result, {
+        table: (r) => {
+          if (r.wallets.length === 0) {
+            console.log(chalk.yellow('No wallets found. Create one with: jup-cli wallet create'));
+            return;
+          }
 
+          console.log(chalk.bold('\n📁 Wallets\n'));
           console.log(
-            `${chalk.cyan(index)} ${w.name.padEnd(20)} ${w.address.padEnd(45)} ${status}`
+            chalk.gray(`${'#'.padEnd(4)} ${'Name'.padEnd(20)} ${'Address'.padEnd(45)} Status`)
           );
-        }
+          console.log(chalk.gray('─'.repeat(80)));
 
-        console.log();
-        console.log(chalk.dim('Tip: Use wallet number, name, or UUID in commands'));
-        console.log(chalk.dim('Example: jup-cli wallet show 1  or  jup-cli wallet show Trading'));
-        console.log();
-      } catch (error) {
-        spinner.fail('Failed to load wallets');
-        console.error(
-          chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-      }
+          for (const w of r.wallets) {
+            const index = String(w.index).padEnd(4);
+            const status = w.isActive ? chalk.green('Active') : chalk.gray('Inactive');
+
+            console.log(
+              `${chalk.cyan(index)} ${w.name.padEnd(20)} ${w.address.padEnd(45)} ${status}`
+            );
+          }
+
+          console.log();
+          console.log(chalk.dim('Tip: Use wallet number, name, or UUID in commands'));
+          console.log(chalk.dim('Example: jup-cli wallet show 1  or  jup-cli wallet show Trading'));
+          console.log();
+        },
+        csv: (r) => r.wallets,
+      });
     });
 
   wallet
@@ -101,6 +248,7 @@ export function createWalletCommands(
       const sessionKey = await sessionService.getSessionKey();
 
       if (!name) {
+        assertInteractive('Wallet name', '--name');
         const answer = await inquirer.prompt([
           {
             type: 'input',
@@ -112,50 +260,47 @@ export function createWalletCommands(
         name = answer.name;
       }
 
-      const spinner = ora('Creating wallet...').start();
+      const spinner = createSpinner('Creating wallet...').start();
 
-      try {
-        const walletRepo = new PrismaWalletRepository(prisma);
-        const masterPasswordService = new MasterPasswordService(prisma);
-
-        if (sessionKey) {
-          masterPasswordService.setSessionKey(sessionKey);
-        } else if (options.password) {
-          await masterPasswordService.authenticate(options.password);
-        } else {
-          spinner.stop();
-          const answer = await inquirer.prompt([
-            {
-              type: 'password',
-              name: 'password',
-              message: 'Enter master password (no active session):',
-              mask: '*',
-              validate: (input: string) => input.trim() !== '' || 'Master password is required',
-            },
-          ]);
-          spinner.start('Creating wallet...');
-          await masterPasswordService.authenticate(answer.password);
-        }
+      const walletRepo = new PrismaWalletRepository(prisma);
+      const masterPasswordService = new MasterPasswordService(prisma);
+
+      if (sessionKey) {
+        masterPasswordService.setSessionKey(sessionKey);
+      } else if (options.password) {
+        await masterPasswordService.authenticate(options.password);
+      } else {
+        spinner.stop();
+        assertInteractive('Master password', '--password');
+        const answer = await inquirer.prompt([
+          {
+            type: 'password',
+            name: 'password',
+            message: 'Enter master password (no active session):',
+            mask: '*',
+            validate: (input: string) => input.trim() !== '' || 'Master password is required',
+          },
+        ]);
+        spinner.start('Creating wallet...');
+        await masterPasswordService.authenticate(answer.password);
+      }
 
-        const walletCreator = new WalletCreatorService(walletRepo, masterPasswordService);
+      const walletCreator = new WalletCreatorService(walletRepo, masterPasswordService);
 
-        const newWallet = await walletCreator.createWallet(name);
+      const newWallet = await walletCreator.createWallet(name);
 
-        spinner.succeed('Wallet created successfully');
+      spinner.succeed('Wallet created successfully');
 
-        console.log(chalk.green('\n✅ New wallet created'));
-        console.log(chalk.dim(`ID:      ${newWallet.id}`));
-        console.log(chalk.dim(`Name:    ${newWallet.name}`));
-        console.log(chalk.dim(`Address: ${newWallet.address}`));
-        console.log(
-          chalk.yellow('\n⚠️  Important: Store your address safely. Private key is encrypted.')
-        );
-      } catch (error) {
-        spinner.fail('Failed to create wallet');
-        console.error(
-          chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-      }
+      printResult(toWalletRef(newWallet), {
+        table: (r) => {
+          console.log(chalk.green('\n✅ New wallet created'));
+          printWalletRef(r);
+          console.log(
+            chalk.yellow('\n⚠️  Important: Store your address safely. Private key is encrypted.')
+          );
+        },
+        csv: (r) => [r],
+      });
     });
 
   wallet
@@ -170,6 +315,7 @@ export function createWalletCommands(
       let masterPassword = options.password;
 
       if (!name) {
+        assertInteractive('Wallet name', '--name');
         const answer = await inquirer.prompt([
           {
             type: 'input',
@@ -182,6 +328,7 @@ export function createWalletCommands(
       }
 
       if (!privateKey) {
+        assertInteractive('Private key', '--private-key');
         const answer = await inquirer.prompt([
           {
             type: 'password',
@@ -195,6 +342,7 @@ export function createWalletCommands(
       }
 
       if (!masterPassword) {
+        assertInteractive('Master password', '--password');
         const answer = await inquirer.prompt([
           {
             type: 'password',
@@ -207,28 +355,24 @@ export function createWalletCommands(
         masterPassword = answer.password;
       }
 
-      const spinner = ora('Importing wallet...').start();
+      const spinner = createSpinner('Importing wallet...').start();
 
-      try {
-        const prisma = getPrisma();
-        const walletRepo = new PrismaWalletRepository(prisma);
-        const masterPasswordService = new MasterPasswordService(prisma);
-        const walletImporter = new WalletImporterService(walletRepo, masterPasswordService);
-
-        const importedWallet = await walletImporter.importWallet(name, privateKey, masterPassword);
-
-        spinner.succeed('Wallet imported successfully');
-
-        console.log(chalk.green('\n✅ Wallet imported'));
-        console.log(chalk.dim(`ID:      ${importedWallet.id}`));
-        console.log(chalk.dim(`Name:    ${importedWallet.name}`));
-        console.log(chalk.dim(`Address: ${importedWallet.address}`));
-      } catch (error) {
-        spinner.fail('Failed to import wallet');
-        console.error(
-          chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-      }
+      const prisma = getPrisma();
+      const walletRepo = new PrismaWalletRepository(prisma);
+      const masterPasswordService = new MasterPasswordService(prisma);
+      const walletImporter = new WalletImporterService(walletRepo, masterPasswordService);
+
+      const importedWallet = await walletImporter.importWallet(name, privateKey, masterPassword);
+
+      spinner.succeed('Wallet imported successfully');
+
+      printResult(toWalletRef(importedWallet), {
+        table: (r) => {
+          console.log(chalk.green('\n✅ Wallet imported'));
+          printWalletRef(r);
+        },
+        csv: (r) => [r],
+      });
     });
 
   wallet
@@ -236,101 +380,99 @@ export function createWalletCommands(
     .description('Show wallet status and balances (fetched from blockchain in real-time)')
     .argument('<wallet>', 'Wallet identifier (number, name, or UUID)')
     .action(async (walletIdentifier) => {
-      const spinner = ora('Fetching wallet state from blockchain...').start();
+      const spinner = createSpinner('Fetching wallet state from blockchain...').start();
 
-      try {
-        const prisma = getPrisma();
-        const walletRepo = new PrismaWalletRepository(prisma);
-        const walletResolver = new WalletResolverService(walletRepo);
-
-        const foundWallet = await walletResolver.resolve(walletIdentifier);
-
-        const tokenInfoRepo = new PrismaTokenInfoRepository(prisma);
-        const tokenInfoService = new TokenInfoService(tokenInfoRepo, ultraApiService);
-        const walletSync = new WalletSyncService(
-          walletRepo,
-          solanaRpcService,
-          ultraApiService,
-          tokenInfoService
-        );
-        const state = await walletSync.getWalletState(foundWallet.id);
-
-        const priceProvider = {
-          getPrice: async (mints: string[]) => ultraApiService.getPrice(mints),
-        };
-
-        // Fetch active orders (requires Jupiter API key)
-        let activeOrders: ActiveOrderWithPrice[] = [];
-        try {
-          const triggerApi = new TriggerApiService();
-          const orderSyncService = new OrderSyncService(
-            triggerApi,
-            priceProvider,
-            tokenInfoService
-          );
-          activeOrders = await orderSyncService.getActiveOrdersWithPrices(foundWallet.address);
-        } catch (_error) {
-          // Jupiter API key not configured or API error - skip active orders display
-        }
+      const prisma = getPrisma();
+      const walletRepo = new PrismaWalletRepository(prisma);
+      const walletResolver = new WalletResolverService(walletRepo);
 
-        spinner.stop();
+      const foundWallet = await walletResolver.resolve(walletIdentifier);
 
-        console.log(chalk.bold('\n📊 Wallet Status\n'));
-        console.log(chalk.cyan('Wallet:'), foundWallet.name);
-        console.log(chalk.dim('ID:'), foundWallet.id);
-        console.log(chalk.dim('Address:'), foundWallet.address);
-        console.log(
-          chalk.dim('Status:'),
-          foundWallet.isActive ? chalk.green('Active') : chalk.gray('Inactive')
-        );
-        console.log();
-
-        console.log(chalk.bold('💰 Portfolio Summary'));
-        console.log(chalk.gray('─'.repeat(50)));
-        console.log(
-          `${'Total Value:'.padEnd(20)} ${chalk.bold('$' + state.totalValue.toFixed(2))}`
-        );
-        console.log();
-
-        if (state.tokens.length > 0) {
-          console.log(chalk.bold('📈 Token Balances'));
-          console.log(chalk.gray('─'.repeat(80)));
-          console.log(
-            `${chalk.gray('Token'.padEnd(8))} ${chalk.gray('Amount'.padEnd(14))} ${chalk.gray('Price'.padEnd(10))} ${chalk.gray('Value')}`
-          );
-          console.log(chalk.gray('─'.repeat(80)));
+      const tokenInfoRepo = new PrismaTokenInfoRepository(prisma);
+      const tokenInfoService = new TokenInfoService(tokenInfoRepo, ultraApiService);
+      const walletSync = new WalletSyncService(
+        walletRepo,
+        solanaRpcService,
+        ultraApiService,
+        tokenInfoService
+      );
+      const state = await walletSync.getWalletState(foundWallet.id);
 
-          for (const token of state.tokens) {
-            const symbol = token.symbol ?? token.mint.slice(0, 8) + '...';
-            const amount = token.amount.toFixed(4).padEnd(14);
-            const price = '$' + token.price.toFixed(2).padEnd(8);
-            const value = '$' + token.value.toFixed(2);
+      const priceProvider = {
+        getPrice: async (mints: string[]) => ultraApiService.getPrice(mints),
+      };
 
-            console.log(`${chalk.cyan(symbol.padEnd(8))} ${amount} ${price} ${value}`);
-          }
-          console.log();
-        }
+      // Fetch active orders (requires Jupiter API key)
+      let activeOrders: ActiveOrderWithPrice[] = [];
+      try {
+        const triggerApi = new TriggerApiService();
+        const orderSyncService = new OrderSyncService(triggerApi, priceProvider, tokenInfoService);
+        activeOrders = await orderSyncService.getActiveOrdersWithPrices(foundWallet.address);
+      } catch (_error) {
+        // Jupiter API key not configured or API error - skip active orders display
+      }
 
-        if (activeOrders.length > 0) {
-          const totalBlocked = activeOrders.reduce((sum, o) => sum + o.inputUsdValue, 0);
-          console.log(
-            chalk.bold(`⏳ Active Limit Orders: `) +
-              chalk.yellow(`${activeOrders.length}`) +
-              chalk.dim(` ($${totalBlocked.toFixed(2)} blocked) `) +
-              chalk.dim(`→ use 'jupiter order list -w ${foundWallet.name}' for details`)
-          );
-          console.log();
-        }
+      spinner.stop();
+
+      const result = toWalletShowResult(foundWallet, state, activeOrders);
+
+      printResult(result, {
+        table: printWalletStatus,
+        csv: (r) => r.tokens,
+      });
+    });
 
-        console.log();
-        console.log(chalk.dim('Data fetched in real-time from Solana RPC + Jupiter API'));
-        console.log();
-      } catch (error) {
-        spinner.fail('Failed to load wallet status');
-        console.error(
-          chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
+  wallet
+    .command('sync-history')
+    .description('Import on-chain transactions made outside the CLI into local history')
+    .argument('<wallet>', 'Wallet identifier (number, name, or UUID)')
+    .option('--max <count>', 'Maximum transactions to scan on the first sync', '1000')
+    .action(async (walletIdentifier, options) => {
+      const spinner = createSpinner('Fetching signatures...').start();
+
+      const maxSignatures = parseInt(options.max, 10);
+      if (isNaN(maxSignatures) || maxSignatures < 1) {
+        throw new InvalidArgumentError('--max must be a positive integer');
       }
+
+      const prisma = getPrisma();
+      const walletRepo = new PrismaWalletRepository(prisma);
+      const walletResolver = new WalletResolverService(walletRepo);
+      const foundWallet = await walletResolver.resolve(walletIdentifier);
+
+      const tokenInfoRepo = new PrismaTokenInfoRepository(prisma);
+      const tokenInfoService = new TokenInfoService(tokenInfoRepo, ultraApiService);
+      const tradeService = new TradeService(new PrismaTradeRepository(prisma), {
+        getPrice: async (mints: string[]) => ultraApiService.getPrice(mints),
+      });
+      const historySync = new WalletHistorySyncService(
+        new ConnectionService(),
+        new PrismaWalletActivityRepository(prisma),
+        new PrismaSyncCursorRepository(prisma),
+        tradeService,
+        tokenInfoService
+      );
+
+      const result = await historySync.syncHistory(foundWallet.id, foundWallet.address, {
+        maxSignatures,
+        onProgress: (processed, total) => {
+          spinner.text = `Importing transactions (${processed}/${total})...`;
+        },
+      });
+      spinner.stop();
+
+      const mints = new Set(result.imported.flatMap((a) => a.changes.map((c) => c.mint)));
+      const tokenInfoMap = await tokenInfoService.getTokenInfoBatch(Array.from(mints));
+      const symbols = new Map([...tokenInfoMap].map(([mint, info]) => [mint, info.symbol]));
+
+      printResult(toWalletSyncHistoryResult(foundWallet, result, symbols), {
+        table: printHistorySync,
+        csv: (r) =>
+          r.activities.map(({ changes, ...activity }) => ({
+            ...activity,
+            changes: changes.map((c) => `${c.amount} ${c.symbol ?? c.mint}`).join('; '),
+          })),
+      });
     });
 
   wallet
@@ -345,16 +487,10 @@ export function createWalletCommands(
       const walletRepo = new PrismaWalletRepository(prisma);
       const walletResolver = new WalletResolverService(walletRepo);
 
-      let wallet;
-      try {
-        wallet = await walletResolver.resolve(walletIdentifier);
-      } catch {
-        console.log(chalk.red('\n❌ Wallet not found'));
-        return;
-      }
+      const wallet = await walletResolver.resolve(walletIdentifier);
 
       const hasSession = await sessionService.hasSession();
-      if (hasSession && !options.password) {
+      if (hasSession && !options.password && !isMachineOutput()) {
         console.log(chalk.yellow('\n🔒 This is a protected command.'));
         console.log(chalk.dim('Session access is not allowed for exporting private keys.'));
         console.log(chalk.dim('Please provide your master password.\n'));
@@ -363,6 +499,7 @@ export function createWalletCommands(
       let password = options.password;
 
       if (!password) {
+        assertInteractive('Master password', '--password');
         const answer = await inquirer.prompt([
           {
             type: 'password',
@@ -374,26 +511,25 @@ export function createWalletCommands(
         password = answer.password;
       }
 
-      const spinner = ora('Exporting wallet...').start();
+      const spinner = createSpinner('Exporting wallet...').start();
 
-      try {
-        const masterPasswordService = new MasterPasswordService(prisma);
-        const walletExporter = new WalletExporterService(walletRepo, masterPasswordService);
-
-        const privateKey = await walletExporter.exportPrivateKey(wallet.id, password);
-
-        spinner.succeed('Wallet exported');
-
-        console.log(chalk.yellow('\n⚠️  WARNING: Keep this private key secure!\n'));
-        console.log(chalk.dim('Private Key:'));
-        console.log(chalk.white(privateKey));
-        console.log();
-      } catch (error) {
-        spinner.fail('Failed to export wallet');
-        console.error(
-          chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
-      }
+      const masterPasswordService = new MasterPasswordService(prisma);
+      const walletExporter = new WalletExporterService(walletRepo, masterPasswordService);
+
+      const privateKey = await walletExporter.exportPrivateKey(wallet.id, password);
+
+      spinner.succeed('Wallet exported');
+
+      const result: WalletExportResult = { wallet: toWalletRef(wallet), privateKey };
+      printResult(result, {
+        table: (r) => {
+          console.log(chalk.yellow('\n⚠️  WARNING: Keep this private key secure!\n'));
+          console.log(chalk.dim('Private Key:'));
+          console.log(chalk.white(r.privateKey));
+          console.log();
+        },
+        csv: (r) => [{ ...r.wallet, privateKey: r.privateKey }],
+      });
     });
 
   wallet
@@ -409,24 +545,21 @@ export function createWalletCommands(
       const walletRepo = new PrismaWalletRepository(prisma);
       const walletResolver = new WalletResolverService(walletRepo);
 
-      let foundWallet;
-      try {
-        foundWallet = await walletResolver.resolve(walletIdentifier);
-      } catch {
-        console.log(chalk.red('\n❌ Wallet not found'));
-        return;
-      }
+      const foundWallet = await walletResolver.resolve(walletIdentifier);
 
-      const hasSession = await sessionService.hasSession();
-      if (hasSession && !options.password) {
-        console.log(chalk.yellow('\n🔒 This is a protected command.'));
-        console.log(chalk.dim('Session access is not allowed for deleting wallets.'));
-        console.log(chalk.dim('Please provide your master password.\n'));
-      }
+      if (!isMachineOutput()) {
+        const hasSession = await sessionService.hasSession();
+        if (hasSession && !options.password) {
+          console.log(chalk.yellow('\n🔒 This is a protected command.'));
+          console.log(chalk.dim('Session access is not allowed for deleting wallets.'));
+          console.log(chalk.dim('Please provide your master password.\n'));
+        }
 
-      console.log(chalk.dim(`\nWallet: ${foundWallet.name} (${foundWallet.address})`));
+        console.log(chalk.dim(`\nWallet: ${foundWallet.name} (${foundWallet.address})`));
+      }
 
       if (!options.force) {
+        assertInteractive('Wallet deletion confirmation', '--force');
         const { confirmDelete } = await inquirer.prompt([
           {
             type: 'confirm',
@@ -445,6 +578,7 @@ export function createWalletCommands(
       let password = options.password;
 
       if (!password) {
+        assertInteractive('Master password', '--password');
         const answer = await inquirer.prompt([
           {
             type: 'password',
@@ -456,34 +590,31 @@ export function createWalletCommands(
         password = answer.password;
       }
 
-      const spinner = ora('Deleting wallet...').start();
+      const spinner = createSpinner('Deleting wallet...').start();
 
-      try {
-        const masterPasswordService = new MasterPasswordService(prisma);
-
-        const isValid = await masterPasswordService.verifyPassword(password);
-        if (!isValid) {
-          spinner.fail('Invalid password');
-          return;
-        }
+      const masterPasswordService = new MasterPasswordService(prisma);
 
-        await walletRepo.delete(foundWallet.id);
-
-        spinner.succeed('Wallet deleted');
-
-        console.log(chalk.green('\n✅ Wallet deleted successfully'));
-        console.log(chalk.dim(`ID: ${foundWallet.id}`));
-        console.log();
-        console.log(
-          chalk.yellow('⚠️  The wallet can still be recovered if you have the private key.')
-        );
-        console.log(chalk.dim('Use `jup-cli wallet import` to restore it.'));
-      } catch (error) {
-        spinner.fail('Failed to delete wallet');
-        console.error(
-          chalk.red(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        );
+      const isValid = await masterPasswordService.verifyPassword(password);
+      if (!isValid) {
+        throw new InvalidMasterPasswordError();
       }
+
+      await walletRepo.delete(foundWallet.id);
+
+      spinner.succeed('Wallet deleted');
+
+      printResult(toWalletRef(foundWallet), {
+        table: (r) => {
+          console.log(chalk.green('\n✅ Wallet deleted successfully'));
+          console.log(chalk.dim(`ID: ${r.id}`));
+          console.log();
+          console.log(
+            chalk.yellow('⚠️  The wallet can still be recovered if you have the private key.')
+          );
+          console.log(chalk.dim('Use `jup-cli wallet import` to restore it.'));
+        },
+        csv: (r) => [r],
+      });
     });
 
   return wallet;
@@ -0,0 +1,118 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { PrismaClient } from '@prisma/client';
+import { PriceV3ApiService } from '../../../../infrastructure/jupiter-api/price/price-v3-api.service';
+import { PrismaConditionalOrderRepository } from '../../../../infrastructure/repositories/prisma-conditional-order.repository';
+import { MasterPasswordService } from '../../../../application/services/security/master-password.service';
+import { ConditionalOrderWatcherService } from '../../../../application/services/order/conditional-order-watcher.service';
+import { ConfigurationService } from '../../../../core/config/configuration.service';
+import { PathManager } from '../../../../core/config/path-manager';
+import { SessionService } from '../../../../core/session/session.service';
+import { LoggerService } from '../../../../core/logger/logger.service';
+import {
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+  NotInitializedError,
+} from '../../../../core/errors/cli.errors';
+import { assertInteractive, printResult } from '../../output/output';
+import { eventCsvRows, printConditionalOrderEvents } from '../cond/cond.cmd';
+import { createSwapService } from '../../../service-factory';
+
+const DEFAULT_INTERVAL_SECONDS = 15;
+
+export function createWatchCommand(
+  getPrisma: () => PrismaClient,
+  getDataDir: () => string | undefined
+): Command {
+  return new Command('watch')
+    .description('Check conditional orders against live prices and execute them when triggered')
+    .option(
+      '--interval <seconds>',
+      'Seconds between price checks',
+      String(DEFAULT_INTERVAL_SECONDS)
+    )
+    .option('--once', 'Check once and exit (e.g., from cron)')
+    .option('-p, --password <password>', 'Master password (optional if session exists)')
+    .hook('preAction', () => {
+      if (!new PathManager(getDataDir()).isInitialized()) {
+        throw new NotInitializedError();
+      }
+      if (!ConfigurationService.getInstance(getDataDir()).getConfig().jupiter.apiKey) {
+        throw new JupiterApiKeyMissingError();
+      }
+    })
+    .action(async (options) => {
+      const interval = Number(options.interval);
+      if (!(interval >= 1)) {
+        throw new InvalidArgumentError(`Invalid interval "${options.interval}"`, {
+          interval: options.interval,
+        });
+      }
+
+      const prisma = getPrisma();
+      const dataDir = getDataDir();
+
+      // Loaded once: triggered orders are signed with it for as long as the loop runs
+      let sessionKey = await new SessionService(prisma, dataDir).getSessionKey();
+      if (!sessionKey) {
+        const masterPasswordService = new MasterPasswordService(prisma);
+        if (options.password) {
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(options.password);
+        } else {
+          assertInteractive('Master password', '--password');
+          const answer = await inquirer.prompt([
+            {
+              type: 'password',
+              name: 'password',
+              message: 'Enter master password (no active session):',
+              mask: '*',
+            },
+          ]);
+          sessionKey = await masterPasswordService.getSessionKeyWithPassword(answer.password);
+        }
+      }
+
+      const config = ConfigurationService.getInstance(dataDir).getConfig();
+      const watcher = new ConditionalOrderWatcherService(
+        new PrismaConditionalOrderRepository(prisma),
+        new PriceV3ApiService(),
+        createSwapService(prisma, config),
+        sessionKey
+      );
+
+      if (options.once) {
+        const tick = await watcher.tick();
+        printResult(tick, {
+          table: (result) => {
+            console.log(chalk.dim(`\nChecked ${result.checked} active order(s)\n`));
+            printConditionalOrderEvents(result);
+          },
+          csv: eventCsvRows,
+        });
+        return;
+      }
+
+      console.error(
+        chalk.green(`\n👀 Watching conditional orders every ${interval}s. Press Ctrl+C to stop.\n`)
+      );
+      for (;;) {
+        try {
+          const tick = await watcher.tick();
+          // One result per check that logged events
+          if (tick.events.length > 0) {
+            printResult(tick, {
+              table: printConditionalOrderEvents,
+              csv: eventCsvRows,
+            });
+          }
+        } catch (error) {
+          // Price or database errors: try again on the next check
+          const message = error instanceof Error ? error.message : String(error);
+          LoggerService.getInstance().warn('Conditional order check failed', { error: message });
+          console.error(chalk.yellow(`⚠️  Check failed: ${message}`));
+        }
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+      }
+    });
+}
@@ -0,0 +1,41 @@
+import chalk from 'chalk';
+import { ExitCode, getExitCode } from '../../../core/errors/exit-codes';
+import { getErrorHint, getJupiterErrorCode } from './error-hints';
+import { failActiveSpinner, getOutputFormat, isMachineOutput } from './output';
+import { serializeError } from './serializers';
+
+/**
+ * Single exit point for failed commands: reports the error in the selected
+ * output format and exits with its stable exit code (see ExitCode).
+ *
+ * In json/csv mode, prints `{ "error": ... }` to stdout for json and to stderr
+ * for csv.
+ */
+export function handleError(error: unknown, exitCode: ExitCode = getExitCode(error)): never {
+  failActiveSpinner();
+  const hint = getErrorHint(error);
+
+  if (isMachineOutput()) {
+    const json = JSON.stringify(
+      { error: { ...serializeError(error), exitCode, ...(hint ? { hint } : {}) } },
+      null,
+      2
+    );
+    if (getOutputFormat() === 'json') {
+      console.log(json);
+    } else {
+      console.error(json);
+    }
+  } else {
+    console.error(chalk.red(`\n❌ ${error instanceof Error ? error.message : 'Unknown error'}`));
+    if (hint) {
+      console.error(chalk.dim(`   Hint: ${hint}`));
+    }
+    const jupiterCode = getJupiterErrorCode(error);
+    if (jupiterCode) {
+      console.error(chalk.dim(`   Code: ${jupiterCode}`));
+    }
+  }
+
+  process.exit(exitCode);
+}
@@ -0,0 +1,82 @@
+const INSUFFICIENT_BALANCE_HINT =
+  'This usually means insufficient token balance or account does not exist.';
+const EXPIRED_HINT = 'The quote expired before the transaction landed. Run the command again.';
+const NOT_LANDED_HINT =
+  'The transaction did not land. Check the signature on an explorer before retrying.';
+const INIT_HINT = 'Run "jup-cli init" to set the master password and session key.';
+
+/**
+ * Hints keyed by Jupiter error code (Ultra execute codes and swap program
+ * errors, found in `details.code`) or by CLI error code.
+ */
+export const ERROR_HINTS: Readonly<Record<string, string>> = {
+  // Ultra execute
+  '-1': 'The order is no longer cached by Jupiter. Run the swap again to get a fresh quote.',
+  '-2': 'Jupiter rejected the signed transaction. Make sure the signing wallet is the order taker.',
+  '-3': 'Jupiter rejected the signed transaction. Make sure the signing wallet is the order taker.',
+  '-1000': NOT_LANDED_HINT,
+  '-1004': EXPIRED_HINT,
+  '-1005': EXPIRED_HINT,
+  '-1006': NOT_LANDED_HINT,
+  '-2000': NOT_LANDED_HINT,
+  '-2003': EXPIRED_HINT,
+  '-2004': 'The market maker rejected the swap. Retry, or try a smaller amount.',
+  // Swap program
+  '6001': 'The price moved beyond the slippage tolerance. Retry, or raise --slippage.',
+  '6024': INSUFFICIENT_BALANCE_HINT,
+  // CLI
+  MASTER_PASSWORD_NOT_SET: INIT_HINT,
+  SESSION_KEY_NOT_INITIALIZED: INIT_HINT,
+  JUPITER_API_KEY_MISSING: 'Get a key at https://portal.jup.ag/',
+  WALLET_NOT_FOUND: 'Run "jup-cli wallet list" to see wallet numbers, names and IDs.',
+  TOKEN_NOT_FOUND: 'Use the mint address, or find it with "jup-cli token search <query>".',
+  RATE_LIMIT_EXCEEDED: 'Wait a few seconds and retry. Limits depend on your Jupiter API key tier.',
+  NETWORK_ERROR: 'Check your connection and the RPC URL ("jup-cli config show").',
+  RISK_POLICY_VIOLATION:
+    'Limits are listed by "jup-cli config show" and set with "jup-cli config set-risk".',
+  SIMULATION_FAILED:
+    'Nothing was sent. Check balances with "jup-cli wallet show" and keep some SOL for fees.',
+  UNSAFE_TRANSACTION:
+    'Nothing was signed. Rerun with --show-instructions to see what the transaction does.',
+  INSUFFICIENT_BALANCE:
+    'Nothing was signed. Lower the amount or --slippage, or top up the wallet ("jup-cli wallet show").',
+  TRANSACTION_FAILED: 'Run "jup-cli tx status <signature>" to see the program logs.',
+  TRANSACTION_EXPIRED:
+    'Nothing was spent. Retry with more --retries; Metis swaps can also pay more with "jup-cli config set-priority-fee".',
+};
+
+/**
+ * Fallbacks for errors without a usable code, matched on the message.
+ */
+const MESSAGE_HINTS: { pattern: RegExp; hint: string }[] = [
+  { pattern: /Reached end of buffer|unexpectedly/, hint: INSUFFICIENT_BALANCE_HINT },
+];
+
+function getErrorProperty(error: unknown, key: string): unknown {
+  return typeof error === 'object' && error !== null && key in error
+    ? (error as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/**
+ * Jupiter's own error code, carried in `details.code` of API errors.
+ */
+export function getJupiterErrorCode(error: unknown): string | undefined {
+  const code = getErrorProperty(getErrorProperty(error, 'details'), 'code');
+  return typeof code === 'string' || typeof code === 'number' ? String(code) : undefined;
+}
+
+export function getErrorHint(error: unknown): string | undefined {
+  const jupiterCode = getJupiterErrorCode(error);
+  if (jupiterCode && ERROR_HINTS[jupiterCode]) {
+    return ERROR_HINTS[jupiterCode];
+  }
+
+  const code = getErrorProperty(error, 'code');
+  if (typeof code === 'string' && ERROR_HINTS[code]) {
+    return ERROR_HINTS[code];
+  }
+
+  const message = error instanceof Error ? error.message : '';
+  return MESSAGE_HINTS.find(({ pattern }) => pattern.test(message))?.hint;
+}
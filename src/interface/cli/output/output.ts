@@ -0,0 +1,63 @@
+import ora, { Ora } from 'ora';
+import { InteractionRequiredError } from '../../../core/errors/cli.errors';
+import { OutputFormat, toCsv } from './serializers';
+
+let outputFormat: OutputFormat = 'table';
+let activeSpinner: Ora | undefined;
+
+export function setOutputFormat(format: OutputFormat): void {
+  outputFormat = format;
+}
+
+export function getOutputFormat(): OutputFormat {
+  return outputFormat;
+}
+
+/**
+ * True for json and csv: no colors, spinners, tips or prompts on stdout.
+ */
+export function isMachineOutput(): boolean {
+  return outputFormat !== 'table';
+}
+
+export function createSpinner(text?: string): Ora {
+  activeSpinner = ora({ text, isSilent: isMachineOutput() });
+  return activeSpinner;
+}
+
+/**
+ * Marks the spinner of the failed command as failed, if it is still running.
+ */
+export function failActiveSpinner(): void {
+  if (activeSpinner?.isSpinning) {
+    activeSpinner.fail();
+  }
+}
+
+/**
+ * Prompts cannot be answered by a program: fail with a hint to the flag that
+ * skips the prompt instead.
+ */
+export function assertInteractive(what: string, flag: string): void {
+  if (isMachineOutput()) {
+    throw new InteractionRequiredError(what, flag);
+  }
+}
+
+export interface ResultRenderers<T> {
+  table: (result: T) => void;
+  csv: (result: T) => object[]; // One object per CSV row
+}
+
+export function printResult<T>(result: T, render: ResultRenderers<T>): void {
+  switch (outputFormat) {
+    case 'json':
+      console.log(JSON.stringify(result, null, 2));
+      break;
+    case 'csv':
+      console.log(toCsv(render.csv(result)));
+      break;
+    default:
+      render.table(result);
+  }
+}
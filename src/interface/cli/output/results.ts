@@ -0,0 +1,760 @@
+import { MintInformation, ShieldWarning } from '../../../application/ports/token-discovery.port';
+import { TokenDetails } from '../../../application/services/token-discovery/token-discovery.service';
+import { ActiveOrderWithPrice } from '../../../application/services/order/order-sync.service';
+import { TypedRecurringOrder } from '../../../application/services/order/recurring-order.service';
+import {
+  LadderDistribution,
+  LadderRungResult,
+  LimitOrderLadder,
+} from '../../../application/services/order/limit-order.service';
+import { RecurringType } from '../../../infrastructure/jupiter-api/recurring/recurring.types';
+import { TokenInfo } from '../../../application/ports/jupiter-api.port';
+import { MintExtensions, TokenProgram } from '../../../application/ports/blockchain.port';
+import { FailedWallet } from '../../../application/services/portfolio/portfolio.service';
+import { RiskViolation } from '../../../core/errors/risk.errors';
+import { TransactionViolation } from '../../../core/errors/transaction.errors';
+import { TransactionInspection } from '../../../application/services/security/transaction-inspector.service';
+import { ComputeBudget } from '../../../application/services/trade/compute-budget.service';
+import {
+  ConfirmationOutcome,
+  TransactionOutcome,
+} from '../../../application/services/trade/confirmation-tracker.service';
+import { DecodedTransactionError } from '../../../application/services/trade/transaction-error';
+import {
+  SwapEngine,
+  SwapExecution,
+  SwapQuote,
+} from '../../../application/services/trade/swap.service';
+import { SwapMode } from '../../../infrastructure/jupiter-api/swap/swap.types';
+import { SimulationReport } from '../../../application/services/trade/transaction-simulator.service';
+import { WalletState } from '../../../application/services/wallet/wallet-sync.service';
+import { HistorySyncResult } from '../../../application/services/wallet/wallet-history-sync.service';
+import { toUiAmount } from '../../../application/services/trade/trade.service';
+import { PnLResult, RealizedGainsReport } from '../../../application/services/pnl/pnl.service';
+import { CostBasisMethod } from '../../../application/services/pnl/lot-tracker';
+import { Wallet } from '../../../domain/entities/wallet.entity';
+import { Trade, TradeStatus, TradeType } from '../../../domain/entities/trade.entity';
+import { ActivityKind } from '../../../domain/entities/wallet-activity.entity';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import {
+  ConditionalOrder,
+  ConditionalOrderEvent,
+  ConditionalOrderKind,
+  ConditionalOrderStatus,
+} from '../../../domain/entities/conditional-order.entity';
+import { TwapOrder, TwapSliceStatus, TwapStatus } from '../../../domain/entities/twap-order.entity';
+
+/**
+ * Result objects printed by `--output json`. Field names are part of the
+ * CLI's public interface: add fields, do not rename or remove them.
+ * Amounts are UI units (decimal-adjusted) unless named `raw*`, values are USD.
+ */
+
+export interface WalletRef {
+  id: string;
+  name: string;
+  address: string;
+}
+
+// wallet list
+export interface WalletListResult {
+  wallets: Array<WalletRef & { index: number; isActive: boolean }>;
+}
+
+// wallet show
+export interface WalletShowResult {
+  wallet: WalletRef & { isActive: boolean };
+  totalValue: number;
+  tokens: Array<{
+    mint: string;
+    symbol: string | null;
+    amount: number;
+    decimals: number;
+    price: number;
+    value: number;
+    program: TokenProgram | 'native';
+    extensions: MintExtensions | null; // Token-2022 only
+  }>;
+  activeOrders: {
+    count: number;
+    blockedValue: number;
+  };
+}
+
+export function toWalletShowResult(
+  wallet: Wallet,
+  state: WalletState,
+  activeOrders: ActiveOrderWithPrice[]
+): WalletShowResult {
+  return {
+    wallet: {
+      id: wallet.id,
+      name: wallet.name,
+      address: wallet.address,
+      isActive: wallet.isActive,
+    },
+    totalValue: state.totalValue,
+    tokens: state.tokens.map((t) => ({
+      ...t,
+      symbol: t.symbol ?? null,
+      extensions: t.extensions ?? null,
+    })),
+    activeOrders: {
+      count: activeOrders.length,
+      blockedValue: activeOrders.reduce((sum, o) => sum + o.inputUsdValue, 0),
+    },
+  };
+}
+
+// wallet create, wallet import and wallet delete print the WalletRef
+
+// wallet export
+export interface WalletExportResult {
+  wallet: WalletRef;
+  privateKey: string; // Base58
+}
+
+// wallet sync-history
+export interface WalletSyncHistoryResult {
+  wallet: WalletRef;
+  scanned: number; // Signatures
+  imported: number;
+  alreadyImported: number;
+  tradesRecorded: number; // Swaps added to trade history
+  complete: boolean; // False when the RPC failed mid-way; the next run resumes
+  activities: Array<{
+    signature: string;
+    kind: ActivityKind;
+    failed: boolean;
+    blockTime: Date;
+    fee: number; // Lamports
+    changes: Array<{ mint: string; symbol: string | null; amount: string }>; // Signed
+  }>;
+}
+
+export function toWalletSyncHistoryResult(
+  wallet: Wallet,
+  result: HistorySyncResult,
+  symbols: Map<string, string>
+): WalletSyncHistoryResult {
+  return {
+    wallet: { id: wallet.id, name: wallet.name, address: wallet.address },
+    scanned: result.scanned,
+    imported: result.imported.length,
+    alreadyImported: result.alreadyImported,
+    tradesRecorded: result.tradesRecorded,
+    complete: result.complete,
+    activities: result.imported.map((activity) => ({
+      signature: activity.signature,
+      kind: activity.kind,
+      failed: activity.failed,
+      blockTime: activity.blockTime,
+      fee: activity.fee,
+      changes: activity.changes.map((c) => {
+        const negative = c.amount.startsWith('-');
+        const amount = toUiAmount(negative ? c.amount.slice(1) : c.amount, c.decimals);
+        return {
+          mint: c.mint,
+          symbol: symbols.get(c.mint) ?? null,
+          amount: `${negative ? '-' : ''}${amount.toString()}`,
+        };
+      }),
+    })),
+  };
+}
+
+// history
+export interface TradeItem {
+  id: string;
+  type: TradeType;
+  status: TradeStatus;
+  signature: string;
+  inputMint: string;
+  outputMint: string;
+  inputSymbol: string | null;
+  outputSymbol: string | null;
+  inputAmount: string;
+  outputAmount: string;
+  inputUsdValue: string | null;
+  outputUsdValue: string | null;
+  executedAt: Date;
+}
+
+export interface TradeHistoryResult {
+  wallet: WalletRef;
+  trades: TradeItem[];
+  page: number; // From 1
+  limit: number; // Trades per page
+  total: number; // Matching trades, all pages
+}
+
+export function toTradeItem(trade: Trade): TradeItem {
+  return {
+    id: trade.id,
+    type: trade.type,
+    status: trade.status,
+    signature: trade.signature,
+    inputMint: trade.inputMint,
+    outputMint: trade.outputMint,
+    inputSymbol: trade.inputSymbol ?? null,
+    outputSymbol: trade.outputSymbol ?? null,
+    inputAmount: toUiAmount(trade.inputAmount, trade.inputDecimals).toString(),
+    outputAmount: toUiAmount(trade.outputAmount, trade.outputDecimals).toString(),
+    inputUsdValue: trade.inputUsdValue ?? null,
+    outputUsdValue: trade.outputUsdValue ?? null,
+    executedAt: trade.executedAt,
+  };
+}
+
+// pnl show
+export interface PnlShowResult extends PnLResult {
+  wallet: WalletRef;
+  method: CostBasisMethod;
+}
+
+// pnl realized
+export interface PnlRealizedResult {
+  wallet: WalletRef;
+  method: CostBasisMethod;
+  year: number | null;
+  disposals: Array<{
+    tradeId: string;
+    signature: string;
+    mint: string;
+    symbol: string | null;
+    amount: string;
+    proceeds: string;
+    costBasis: string | null; // Null for units sold without a recorded acquisition
+    gain: string | null;
+    disposedAt: Date;
+    acquiredAt: Date | null; // Null for cost average or untracked units
+    holdingPeriodDays: number | null;
+    longTerm: boolean | null; // Held for more than a year
+  }>;
+  totalProceeds: number;
+  totalCostBasis: number;
+  totalGain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  untrackedProceeds: number; // Not in the totals above
+  skippedTrades: number; // Without USD prices
+}
+
+export function toPnlRealizedResult(
+  wallet: Wallet,
+  report: RealizedGainsReport,
+  year: number | null
+): PnlRealizedResult {
+  const { disposals, ...totals } = report;
+  return {
+    wallet: { id: wallet.id, name: wallet.name, address: wallet.address },
+    ...totals,
+    year,
+    disposals: disposals.map((d) => ({
+      tradeId: d.tradeId,
+      signature: d.signature,
+      mint: d.mint,
+      symbol: d.symbol ?? null,
+      amount: d.amount.toString(),
+      proceeds: d.proceeds.toString(),
+      costBasis: d.costBasis?.toString() ?? null,
+      gain: d.gain?.toString() ?? null,
+      disposedAt: d.disposedAt,
+      acquiredAt: d.acquiredAt ?? null,
+      holdingPeriodDays: d.holdingPeriodDays ?? null,
+      longTerm: d.longTerm ?? null,
+    })),
+  };
+}
+
+// price get
+export interface PriceGetResult {
+  prices: Array<{
+    mint: string;
+    symbol: string | null;
+    price: number | null; // null when the API has no price
+  }>;
+}
+
+// price search
+export interface PriceSearchResult {
+  tokens: TokenInfo[];
+}
+
+// token search | trending | traded | organic | recent | verified
+export interface TokenListResult {
+  total: number; // Matches before --limit
+  tokens: MintInformation[];
+}
+
+// token info
+export type TokenInfoResult = TokenDetails;
+
+// token shield
+export interface TokenShieldResult {
+  warnings: Record<string, ShieldWarning[]>; // Keyed by mint
+}
+
+export interface OrderHistoryItem {
+  orderKey: string | null;
+  status: string;
+  inputMint: string;
+  outputMint: string;
+  inputSymbol: string | null;
+  outputSymbol: string | null;
+  inputAmount: number;
+  outputAmount: number;
+  createdAt: string;
+}
+
+// order list [--history]
+export type OrderListResult =
+  | { wallet: WalletRef; status: 'active'; orders: ActiveOrderWithPrice[] }
+  | { wallet: WalletRef; status: 'history'; orders: OrderHistoryItem[] };
+
+// order create
+export interface OrderCreateResult {
+  wallet: WalletRef;
+  orderId: string;
+  signature: string | null;
+  input: { mint: string; symbol: string; amount: string };
+  output: { mint: string; symbol: string; amount: string };
+  targetPrice: number; // Output tokens per input token
+}
+
+// order sync
+export interface OrderSyncResult {
+  wallet: WalletRef;
+  ordersScanned: number;
+  lastSyncedAt: Date | null; // Previous sync, null on the first one
+  recorded: number; // Fills added to trade history by this run
+  duplicates: number;
+  skipped: number; // Unknown token decimals
+  fills: Array<{
+    orderKey: string | null;
+    signature: string;
+    inputMint: string;
+    outputMint: string;
+    inputSymbol: string | null;
+    outputSymbol: string | null;
+    inputAmount: string;
+    outputAmount: string;
+    executedAt: Date;
+  }>;
+}
+
+// order cancel
+export interface OrderCancelResult {
+  wallet: WalletRef;
+  cancelled: string[]; // Order IDs
+}
+
+// order ladder
+export interface OrderLadderResult {
+  wallet: WalletRef;
+  input: { mint: string; symbol: string; amount: string };
+  output: { mint: string; symbol: string };
+  distribution: LadderDistribution;
+  created: number;
+  failed: number;
+  rungs: Array<{
+    index: number; // From 1
+    targetPrice: number; // Output tokens per input token
+    inputAmount: string;
+    outputAmount: string;
+    status: 'created' | 'failed';
+    orderId: string | null;
+    signature: string | null;
+    error: string | null;
+  }>;
+}
+
+export function toOrderLadderResult(
+  ladder: LimitOrderLadder,
+  results: LadderRungResult[]
+): OrderLadderResult {
+  const { wallet, input, output } = ladder;
+  return {
+    wallet: { id: wallet.id, name: wallet.name, address: wallet.address },
+    input: { mint: input.mint, symbol: input.symbol, amount: ladder.amount.toString() },
+    output: { mint: output.mint, symbol: output.symbol },
+    distribution: ladder.distribution,
+    created: results.filter((r) => r.status === 'created').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    rungs: results.map((result) => ({
+      index: result.index + 1,
+      targetPrice: result.draft.targetPrice,
+      inputAmount: result.draft.inputAmount.toString(),
+      outputAmount: result.draft.outputAmount.toString(),
+      status: result.status,
+      orderId: result.status === 'created' ? result.created.orderId : null,
+      signature: result.status === 'created' ? result.created.signature : null,
+      error: result.status === 'failed' ? result.error.message : null,
+    })),
+  };
+}
+
+// trade swap
+export interface TradeSwapResult {
+  wallet: WalletRef;
+  engine: SwapEngine;
+  mode: SwapMode; // ExactOut: --exact-out, the output amount is fixed
+  input: {
+    mint: string;
+    symbol: string;
+    amount: string;
+    maxAmount: string; // Most that can be spent: amount, plus slippage for ExactOut
+    basis: string | null; // How "50%", "max" or "$250" was resolved, null for token units
+  };
+  output: {
+    mint: string;
+    symbol: string;
+    amount: string; // After any Token-2022 transfer fee
+    transferFee: string | null; // Withheld by a Token-2022 transfer fee
+    basis: string | null; // ExactOut only, as input.basis
+  };
+  priceImpactPct: number;
+  slippageBps: number;
+  route: string[];
+  requestId: string | null; // Ultra orders only
+  computeBudget: ComputeBudget | null; // Metis only: priority fee and compute-unit limit set
+  status: 'quoted' | 'success' | 'pending'; // quoted: --dry-run, nothing executed
+  // Raw status returned by Jupiter Ultra, or Confirmed/Unconfirmed for swaps sent over RPC
+  executionStatus: string | null;
+  signature: string | null;
+  // Tracked on-chain: finalized, or where tracking stopped (e.g. processed, unknown)
+  confirmation: { outcome: ConfirmationOutcome; slot: number | null } | null;
+  attempts: number; // 1, plus re-quotes after expired attempts; 0 for quotes
+  recorded: boolean; // Saved to local trade history
+  riskViolations: RiskViolation[]; // Quotes only: executing with violations is refused
+  transactionViolations: TransactionViolation[]; // Quotes only, as riskViolations
+  transaction: TransactionInspection | null; // With --show-instructions only
+  simulation: SimulationReport | null; // CLI only: balance changes before sending
+}
+
+export interface TradeSwapChecks {
+  riskViolations?: RiskViolation[];
+  transactionViolations?: TransactionViolation[];
+  transaction?: TransactionInspection | null;
+  simulation?: SimulationReport | null;
+}
+
+/**
+ * Executions report the quote they executed last, which is a re-quote when
+ * an attempt expired.
+ */
+export function toTradeSwapResult(
+  quoted: SwapQuote,
+  execution?: SwapExecution,
+  checks: TradeSwapChecks = {}
+): TradeSwapResult {
+  const quote = execution?.quote ?? quoted;
+  const exactOut = quote.mode === 'ExactOut';
+  return {
+    wallet: { id: quote.wallet.id, name: quote.wallet.name, address: quote.wallet.address },
+    engine: quote.order.engine,
+    mode: quote.mode,
+    input: {
+      mint: quote.input.mint,
+      symbol: quote.input.symbol,
+      amount: quote.inputAmount.toString(),
+      maxAmount: quote.maxInputAmount.toString(),
+      basis: exactOut ? null : quote.amountBasis,
+    },
+    output: {
+      mint: quote.output.mint,
+      symbol: quote.output.symbol,
+      amount: exactOut ? quote.outputAmount.toString() : quote.outputAmount.toFixed(6),
+      transferFee: quote.transferFee ? quote.outputTransferFee.toFixed(6) : null,
+      basis: exactOut ? quote.amountBasis : null,
+    },
+    priceImpactPct: quote.priceImpactPct,
+    slippageBps: quote.slippageBps,
+    route: quote.route,
+    requestId: quote.order.engine === 'ultra' ? quote.order.requestId : null,
+    computeBudget: quote.computeBudget,
+    status: execution ? (execution.succeeded ? 'success' : 'pending') : 'quoted',
+    executionStatus: execution?.executionStatus ?? null,
+    signature: execution?.signature ?? null,
+    confirmation: execution?.confirmation
+      ? { outcome: execution.confirmation.outcome, slot: execution.confirmation.slot }
+      : null,
+    attempts: execution?.attempts ?? 0,
+    recorded: execution?.recorded ?? false,
+    riskViolations: checks.riskViolations ?? [],
+    transactionViolations: checks.transactionViolations ?? [],
+    transaction: checks.transaction ?? null,
+    simulation: checks.simulation ?? null,
+  };
+}
+
+// portfolio and portfolio performance print Portfolio and PerformanceReport
+// from the portfolio services as-is
+
+// portfolio snapshot
+export interface PortfolioSnapshotResult {
+  id: string;
+  takenAt: Date;
+  totalValue: number;
+  walletCount: number;
+  failedWallets: FailedWallet[];
+}
+
+// session status, session regenerate, session clear
+export interface SessionStatusResult {
+  active: boolean;
+  createdAt: Date | null;
+  walletCount: number;
+}
+
+// tx status
+export interface TxStatusResult {
+  signature: string;
+  found: boolean; // False when the cluster has no record: never landed, or expired
+  outcome: ConfirmationOutcome | null; // processed, confirmed, finalized or failed
+  slot: number | null;
+  error: DecodedTransactionError | null;
+  logs: string[];
+  trades: Array<{ id: string; walletId: string; status: TradeStatus }>; // Updated with the outcome
+}
+
+export function toTxStatusResult(
+  signature: string,
+  outcome: TransactionOutcome | null,
+  trades: Trade[]
+): TxStatusResult {
+  return {
+    signature,
+    found: outcome !== null,
+    outcome: outcome?.outcome ?? null,
+    slot: outcome?.slot ?? null,
+    error: outcome?.error ?? null,
+    logs: outcome?.logs ?? [],
+    trades: trades.map((t) => ({ id: t.id, walletId: t.walletId, status: t.status })),
+  };
+}
+
+// cond add, cond list, cond cancel
+export interface ConditionalOrderItem {
+  id: string;
+  walletId: string;
+  kind: ConditionalOrderKind;
+  status: ConditionalOrderStatus;
+  inputMint: string;
+  outputMint: string;
+  inputSymbol: string | null;
+  outputSymbol: string | null;
+  amount: string; // As added: token units, or "50%", "max", "$250"
+  stopPrice: string; // USD price of the input token that triggers the order
+  triggerPrice: string | null;
+  trailPct: number | null;
+  highestPrice: string | null;
+  ocoGroupId: string | null;
+  signature: string | null;
+  error: string | null;
+  createdAt: Date;
+  triggeredAt: Date | null;
+}
+
+export interface ConditionalOrderListResult {
+  orders: ConditionalOrderItem[];
+}
+
+export function toConditionalOrderItem(
+  order: ConditionalOrder,
+  symbols: Map<string, string>
+): ConditionalOrderItem {
+  return {
+    id: order.id,
+    walletId: order.walletId,
+    kind: order.kind,
+    status: order.status,
+    inputMint: order.inputMint,
+    outputMint: order.outputMint,
+    inputSymbol: symbols.get(order.inputMint) ?? null,
+    outputSymbol: symbols.get(order.outputMint) ?? null,
+    amount: order.amount,
+    stopPrice: order.stopPrice.toString(),
+    triggerPrice: order.triggerPrice ?? null,
+    trailPct: order.trailPct ?? null,
+    highestPrice: order.highestPrice ?? null,
+    ocoGroupId: order.ocoGroupId ?? null,
+    signature: order.signature ?? null,
+    error: order.error ?? null,
+    createdAt: order.createdAt,
+    triggeredAt: order.triggeredAt ?? null,
+  };
+}
+
+// cond log, and each check of watch
+export interface ConditionalOrderLogResult {
+  events: ConditionalOrderEvent[]; // Oldest first
+}
+
+// trade twap, twap status, twap resume, twap cancel
+export interface TwapItem {
+  id: string;
+  walletId: string;
+  status: TwapStatus;
+  input: { mint: string; symbol: string | null; amount: string; filled: string };
+  output: { mint: string; symbol: string | null; received: string }; // Quoted output of executed slices
+  intervalSeconds: number;
+  maxPriceImpactPct: number;
+  slippageBps: number;
+  progress: Record<TwapSliceStatus, number>; // Slices per status
+  nextSliceAt: Date | null; // Null once no slice is left pending
+  slices: Array<{
+    index: number; // From 1
+    status: TwapSliceStatus;
+    scheduledAt: Date;
+    inputAmount: string;
+    outputAmount: string | null;
+    priceImpactPct: number | null;
+    signature: string | null;
+    error: string | null; // Why the slice was skipped, failed or is unconfirmed
+    executedAt: Date | null;
+  }>;
+  createdAt: Date;
+}
+
+export interface TwapListResult {
+  twaps: TwapItem[];
+}
+
+export function toTwapItem(twap: TwapOrder, symbols: Map<string, string>): TwapItem {
+  const filled = twap.filled;
+  const progress: Record<TwapSliceStatus, number> = {
+    pending: 0,
+    executing: 0,
+    executed: 0,
+    skipped: 0,
+    failed: 0,
+    unconfirmed: 0,
+  };
+  for (const slice of twap.slices) {
+    progress[slice.status]++;
+  }
+  const next = twap.nextSlice();
+
+  return {
+    id: twap.id,
+    walletId: twap.walletId,
+    status: twap.status,
+    input: {
+      mint: twap.inputMint,
+      symbol: symbols.get(twap.inputMint) ?? null,
+      amount: TokenAmount.fromRaw(twap.totalAmount, twap.inputDecimals).toString(),
+      filled: TokenAmount.fromRaw(filled.input, twap.inputDecimals).toString(),
+    },
+    output: {
+      mint: twap.outputMint,
+      symbol: symbols.get(twap.outputMint) ?? null,
+      received: TokenAmount.fromRaw(filled.output, twap.outputDecimals).toString(),
+    },
+    intervalSeconds: twap.intervalSeconds,
+    maxPriceImpactPct: twap.maxPriceImpactPct,
+    slippageBps: twap.slippageBps,
+    progress,
+    nextSliceAt: next ? twap.dueAt(next) : null,
+    slices: twap.slices.map((slice) => ({
+      index: slice.index + 1,
+      status: slice.status,
+      scheduledAt: slice.scheduledAt,
+      inputAmount: TokenAmount.fromRaw(slice.inputAmount, twap.inputDecimals).toString(),
+      outputAmount: slice.outputAmount
+        ? TokenAmount.fromRaw(slice.outputAmount, twap.outputDecimals).toString()
+        : null,
+      priceImpactPct: slice.priceImpactPct ?? null,
+      signature: slice.signature ?? null,
+      error: slice.error ?? null,
+      executedAt: slice.executedAt ?? null,
+    })),
+    createdAt: twap.createdAt,
+  };
+}
+
+// dca create
+export interface DcaCreateResult {
+  wallet: WalletRef;
+  type: RecurringType;
+  orderKey: string | null;
+  signature: string;
+  input: { mint: string; symbol: string; amount: string; perOrder: string | null };
+  output: { mint: string; symbol: string };
+  intervalSeconds: number;
+  numberOfOrders: number | null; // Time-based only
+  incrementUsd: string | null; // Price-based only
+  minPrice: string | null;
+  maxPrice: string | null;
+  startAt: Date | null;
+}
+
+// dca list [--history], dca cancel
+export interface DcaItem {
+  orderKey: string;
+  type: RecurringType;
+  inputMint: string;
+  outputMint: string;
+  inputSymbol: string | null;
+  outputSymbol: string | null;
+  deposited: string;
+  used: string;
+  received: string;
+  amountPerCycle: string | null; // Time-based only
+  incrementUsd: string | null; // Price-based only
+  intervalSeconds: number;
+  fills: number;
+  userClosed: boolean;
+  openTx: string;
+  closeTx: string | null;
+  createdAt: string;
+}
+
+export interface DcaListResult {
+  wallet: WalletRef;
+  status: 'active' | 'history';
+  orders: DcaItem[];
+}
+
+export function toDcaItem(order: TypedRecurringOrder, symbols: Map<string, string>): DcaItem {
+  return {
+    orderKey: order.orderKey,
+    type: order.type,
+    inputMint: order.inputMint,
+    outputMint: order.outputMint,
+    inputSymbol: symbols.get(order.inputMint) ?? null,
+    outputSymbol: symbols.get(order.outputMint) ?? null,
+    deposited: order.inDeposited,
+    used: order.inUsed,
+    received: order.outReceived,
+    amountPerCycle: order.inAmountPerCycle ?? null,
+    incrementUsd: order.incrementalUsdValue ?? null,
+    intervalSeconds: Number(order.cycleFrequency),
+    fills: (order.trades ?? []).filter((t) => t.action.toLowerCase().includes('fill')).length,
+    userClosed: order.userClosed,
+    openTx: order.openTx,
+    closeTx: order.closeTx || null,
+    createdAt: order.createdAt,
+  };
+}
+
+// dca history
+export interface DcaHistoryResult {
+  wallet: WalletRef;
+  recorded: number; // Fills added to trade history by this run
+  duplicates: number;
+  skipped: number; // Unknown token decimals
+  fills: Array<{
+    orderKey: string | null;
+    signature: string;
+    inputMint: string;
+    outputMint: string;
+    inputSymbol: string | null;
+    outputSymbol: string | null;
+    inputAmount: string;
+    outputAmount: string;
+    inputUsdValue: string | null;
+    executedAt: Date;
+  }>;
+  total: number; // Fills in trade history, all pages
+}
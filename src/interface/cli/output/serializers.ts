@@ -0,0 +1,66 @@
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv'];
+
+/**
+ * Error as printed in JSON output: `{ "error": SerializedError }`.
+ */
+export interface SerializedError {
+  name: string; // Error class name, e.g. WalletNotFoundError
+  code: string; // Stable code from core/errors, UNKNOWN_ERROR otherwise
+  message: string;
+  statusCode?: number;
+  details?: Record<string, unknown>;
+}
+
+export function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', code: 'UNKNOWN_ERROR', message: String(error) };
+  }
+
+  const { code, statusCode, details } = error as Error & {
+    code?: unknown;
+    statusCode?: unknown;
+    details?: unknown;
+  };
+
+  const serialized: SerializedError = {
+    name: error.name,
+    code: typeof code === 'string' ? code : 'UNKNOWN_ERROR',
+    message: error.message,
+  };
+  if (typeof statusCode === 'number') {
+    serialized.statusCode = statusCode;
+  }
+  if (details && typeof details === 'object') {
+    serialized.details = details as Record<string, unknown>;
+  }
+  return serialized;
+}
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV. Columns are the union of row keys, in first-seen order.
+ */
+export function toCsv(rows: object[]): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  const lines = [columns.map(csvValue).join(',')];
+  for (const row of rows) {
+    const values = row as Record<string, unknown>;
+    lines.push(columns.map((column) => csvValue(values[column])).join(','));
+  }
+  return lines.join('\n');
+}
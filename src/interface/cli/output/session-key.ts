@@ -0,0 +1,34 @@
+import inquirer from 'inquirer';
+import { PrismaClient } from '@prisma/client';
+import { MasterPasswordService } from '../../../application/services/security/master-password.service';
+import { SessionService } from '../../../core/session/session.service';
+import { assertInteractive } from './output';
+
+/**
+ * The session key, or the master password from `--password` or a prompt.
+ * Loaded once: TWAP slices and DCA cycles are signed with it for as long as
+ * they run.
+ */
+export async function loadSessionKey(
+  prisma: PrismaClient,
+  dataDir: string | undefined,
+  password: string | undefined
+): Promise<Buffer> {
+  const sessionKey = await new SessionService(prisma, dataDir).getSessionKey();
+  if (sessionKey) return sessionKey;
+
+  const masterPasswordService = new MasterPasswordService(prisma);
+  if (password) {
+    return masterPasswordService.getSessionKeyWithPassword(password);
+  }
+  assertInteractive('Master password', '--password');
+  const answer = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'password',
+      message: 'Enter master password (no active session):',
+      mask: '*',
+    },
+  ]);
+  return masterPasswordService.getSessionKeyWithPassword(answer.password);
+}
@@ -0,0 +1,128 @@
+import chalk from 'chalk';
+import { TwapService } from '../../../application/services/trade/twap.service';
+import { TwapOrder, TwapSlice } from '../../../domain/entities/twap-order.entity';
+import { TokenAmount } from '../../../domain/values/token-amount';
+import { isMachineOutput } from './output';
+import { TwapItem, TwapListResult } from './results';
+
+function formatSliceStatus(status: TwapSlice['status'], width = 0): string {
+  const label = status.padEnd(width);
+  switch (status) {
+    case 'executed':
+      return chalk.green(label);
+    case 'failed':
+      return chalk.red(label);
+    case 'skipped':
+    case 'executing':
+    case 'unconfirmed':
+      return chalk.yellow(label);
+    default:
+      return chalk.dim(label);
+  }
+}
+
+function formatTwapStatus(status: TwapItem['status']): string {
+  switch (status) {
+    case 'active':
+      return chalk.cyan(status);
+    case 'completed':
+      return chalk.green(status);
+    default:
+      return chalk.dim(status);
+  }
+}
+
+export function formatInterval(seconds: number): string {
+  if (seconds % 3_600 === 0) return `${seconds / 3_600}h`;
+  if (seconds >= 3_600)
+    return `${Math.floor(seconds / 3_600)}h${Math.round((seconds % 3_600) / 60)}m`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m${seconds % 60}s` : `${seconds}s`;
+}
+
+export function printTwap(twap: TwapItem, showSlices: boolean): void {
+  const input = twap.input.symbol ?? twap.input.mint.slice(0, 6) + '...';
+  const output = twap.output.symbol ?? twap.output.mint.slice(0, 6) + '...';
+  const total = twap.slices.length;
+  const done = total - twap.progress.pending - twap.progress.executing;
+
+  console.log(`${chalk.dim(twap.id)}  ${formatTwapStatus(twap.status)}`);
+  console.log(
+    `  ${twap.input.amount} ${input} → ${output} in ${total} slices every ${formatInterval(twap.intervalSeconds)}, max impact ${twap.maxPriceImpactPct}%`
+  );
+  console.log(
+    `  Progress: ${done}/${total} (${chalk.green(`${twap.progress.executed} executed`)}, ${twap.progress.skipped} skipped, ${twap.progress.failed} failed${
+      twap.progress.unconfirmed > 0
+        ? chalk.yellow(`, ${twap.progress.unconfirmed} unconfirmed`)
+        : ''
+    })`
+  );
+  console.log(`  Filled:   ${twap.input.filled} ${input} → ${twap.output.received} ${output}`);
+  if (twap.nextSliceAt) {
+    console.log(chalk.dim(`  Next slice: ${twap.nextSliceAt.toLocaleString()}`));
+  }
+
+  if (!showSlices) return;
+  console.log('');
+  for (const slice of twap.slices) {
+    console.log(
+      `  ${String(slice.index).padStart(4)}  ${formatSliceStatus(slice.status, 9)} ${chalk.dim(
+        (slice.executedAt ?? slice.scheduledAt).toLocaleString().padEnd(24)
+      )} ${slice.inputAmount} ${input}${
+        slice.outputAmount ? ` → ${slice.outputAmount} ${output}` : ''
+      }${slice.priceImpactPct !== null ? chalk.dim(` impact ${slice.priceImpactPct.toFixed(2)}%`) : ''}${
+        slice.error ? chalk.red(`  ${slice.error}`) : ''
+      }`
+    );
+  }
+}
+
+export function twapCsvRows(result: TwapListResult): object[] {
+  return result.twaps.flatMap((twap) =>
+    twap.slices.map((slice) => ({
+      twapId: twap.id,
+      twapStatus: twap.status,
+      inputSymbol: twap.input.symbol ?? '',
+      outputSymbol: twap.output.symbol ?? '',
+      ...slice,
+      outputAmount: slice.outputAmount ?? '',
+      priceImpactPct: slice.priceImpactPct ?? '',
+      signature: slice.signature ?? '',
+      error: slice.error ?? '',
+      executedAt: slice.executedAt ?? '',
+    }))
+  );
+}
+
+/**
+ * Runs the TWAP in the foreground until it completes or is cancelled,
+ * printing each slice as it finishes.
+ */
+export async function runTwap(
+  twaps: TwapService,
+  twap: TwapOrder,
+  sessionKey: Buffer,
+  symbols: { input: string; output: string }
+): Promise<TwapOrder> {
+  if (!isMachineOutput()) {
+    console.error(
+      chalk.green(
+        `\n⏱️  Running TWAP ${twap.id.slice(0, 8)}. Press Ctrl+C to stop, and "jup-cli twap resume" to continue.\n`
+      )
+    );
+  }
+  return twaps.run(twap.id, sessionKey, {
+    onSlice: (current, slice) => {
+      if (isMachineOutput()) return;
+      const total = current.slices.length;
+      const amount = `${TokenAmount.fromRaw(slice.inputAmount, current.inputDecimals).toString()} ${symbols.input}`;
+      const detail =
+        slice.status === 'executed'
+          ? `${amount} → ${TokenAmount.fromRaw(slice.outputAmount ?? '0', current.outputDecimals).toString()} ${symbols.output}${chalk.dim(` ${slice.signature}`)}`
+          : `${amount}${chalk.red(`  ${slice.error}`)}`;
+      console.log(
+        `${chalk.dim(new Date().toLocaleString().padEnd(24))} slice ${slice.index + 1}/${total} ${formatSliceStatus(slice.status)} ${detail}`
+      );
+    },
+  });
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts the zod schemas of the RPC methods to JSON Schema for MCP tool
+ * definitions. Covers the types those schemas use; refinements cannot be
+ * expressed and are still enforced when the tool is called.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  return schema.description ? { ...result, description: schema.description } : result;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodOptional) {
+    return toJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter((key) => !shape[key]?.isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])
+      ),
+      ...(required.length > 0 && { required }),
+      additionalProperties: false,
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    const def = schema._def;
+    return {
+      type: 'array',
+      items: toJsonSchema(schema.element),
+      ...(def.minLength && { minItems: def.minLength.value }),
+      ...(def.maxLength && { maxItems: def.maxLength.value }),
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') result.minLength = check.value;
+      if (check.kind === 'max') result.maxLength = check.value;
+      if (check.kind === 'regex') result.pattern = check.regex.source;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min')
+        result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max')
+        result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  throw new Error(`Unsupported schema type: ${schema._def.typeName}`);
+}
@@ -0,0 +1,221 @@
+import { createInterface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { toErrorData } from '../rpc/rpc-dispatcher';
+import {
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RpcError,
+  RpcErrorCode,
+  RpcMethod,
+  RpcMethodRegistry,
+} from '../rpc/rpc.types';
+import { JsonSchema, toJsonSchema } from './json-schema';
+
+// Newest first: the first one is offered when the client asks for another
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export interface McpServerInfo {
+  name: string;
+  version: string;
+}
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  annotations: {
+    readOnlyHint: boolean;
+    destructiveHint: boolean;
+    openWorldHint: boolean;
+  };
+}
+
+export interface McpToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+const CONFIRMATION_NOTE =
+  'Moves funds: show the parameters to the user and get their confirmation before calling.';
+
+/**
+ * MCP tool names cannot contain dots: `trade.swap` becomes `trade_swap`.
+ */
+export function toToolName(method: string): string {
+  return method.replace(/\./g, '_');
+}
+
+/**
+ * Anything that signs a transaction needs the user's confirmation.
+ */
+export function movesFunds(method: RpcMethod): boolean {
+  return method.permission !== 'read';
+}
+
+function toolResult(value: unknown, isError = false): McpToolResult {
+  const isObject = typeof value === 'object' && value !== null && !Array.isArray(value);
+  return {
+    content: [{ type: 'text', text: JSON.stringify(value, null, 2) }],
+    ...(isObject && { structuredContent: value }),
+    ...(isError && { isError }),
+  };
+}
+
+/**
+ * Model Context Protocol server over stdio: newline-delimited JSON-RPC,
+ * exposing the RPC methods as tools. Stdout carries protocol messages only.
+ */
+export class McpServer {
+  private tools = new Map<string, RpcMethod>();
+
+  constructor(
+    methods: RpcMethodRegistry,
+    private info: McpServerInfo
+  ) {
+    for (const [name, method] of Object.entries(methods)) {
+      this.tools.set(toToolName(name), method);
+    }
+  }
+
+  listTools(): McpTool[] {
+    return Array.from(this.tools, ([name, method]) => {
+      const confirm = movesFunds(method);
+      return {
+        name,
+        description: confirm ? `${method.description}. ${CONFIRMATION_NOTE}` : method.description,
+        inputSchema: toJsonSchema(method.params),
+        annotations: { readOnlyHint: !confirm, destructiveHint: confirm, openWorldHint: true },
+      };
+    });
+  }
+
+  /**
+   * Returns null for notifications, which get no response.
+   */
+  async handle(message: unknown): Promise<JsonRpcResponse | null> {
+    const request = message as Partial<JsonRpcRequest> | null;
+    if (
+      typeof request !== 'object' ||
+      request === null ||
+      request.jsonrpc !== '2.0' ||
+      typeof request.method !== 'string'
+    ) {
+      return {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: RpcErrorCode.INVALID_REQUEST, message: 'Invalid request' },
+      };
+    }
+    if (request.id === undefined) {
+      return null; // notifications/initialized, notifications/cancelled, ...
+    }
+
+    const id = request.id;
+    try {
+      return { jsonrpc: '2.0', id, result: await this.call(request.method, request.params) };
+    } catch (error) {
+      const rpcError =
+        error instanceof RpcError
+          ? { code: error.rpcCode, message: error.message, data: error.data }
+          : {
+              code: RpcErrorCode.INTERNAL_ERROR,
+              message: error instanceof Error ? error.message : 'Internal error',
+            };
+      return { jsonrpc: '2.0', id, error: rpcError };
+    }
+  }
+
+  /**
+   * Reads requests from `input` until it closes. Requests run one at a time,
+   * so two swaps never race for the same balance.
+   */
+  serve(input: Readable, output: Writable): Promise<void> {
+    const send = (response: JsonRpcResponse | null): void => {
+      if (response) output.write(JSON.stringify(response) + '\n');
+    };
+
+    let queue = Promise.resolve();
+    const lines = createInterface({ input, crlfDelay: Infinity });
+
+    lines.on('line', (line) => {
+      if (!line.trim()) return;
+      queue = queue.then(async () => {
+        let message: unknown;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          send({
+            jsonrpc: '2.0',
+            id: null,
+            error: { code: RpcErrorCode.PARSE_ERROR, message: 'Parse error' },
+          });
+          return;
+        }
+        send(await this.handle(message));
+      });
+    });
+
+    return new Promise((resolve) => lines.on('close', () => void queue.then(resolve)));
+  }
+
+  private async call(method: string, params: unknown): Promise<unknown> {
+    const args = (typeof params === 'object' && params !== null ? params : {}) as Record<
+      string,
+      unknown
+    >;
+
+    switch (method) {
+      case 'initialize': {
+        const requested = args.protocolVersion;
+        return {
+          protocolVersion:
+            typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested)
+              ? requested
+              : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: this.info,
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: this.listTools() };
+      case 'tools/call':
+        return this.callTool(args.name, args.arguments);
+      default:
+        throw new RpcError(RpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private async callTool(name: unknown, args: unknown): Promise<McpToolResult> {
+    const method = typeof name === 'string' ? this.tools.get(name) : undefined;
+    if (!method) {
+      throw new RpcError(RpcErrorCode.INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+
+    // Invalid arguments are tool errors, so the model can correct itself
+    const parsed = method.params.safeParse(args ?? {});
+    if (!parsed.success) {
+      return toolResult(
+        {
+          error: {
+            code: 'INVALID_ARGUMENT',
+            message: 'Invalid arguments',
+            issues: parsed.error.issues.map((i) => ({
+              path: i.path.join('.'),
+              message: i.message,
+            })),
+          },
+        },
+        true
+      );
+    }
+
+    try {
+      return toolResult(await method.handler(parsed.data));
+    } catch (error) {
+      return toolResult({ error: toErrorData(error) }, true);
+    }
+  }
+}
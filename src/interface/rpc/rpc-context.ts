@@ -0,0 +1,74 @@
+import { PrismaClient } from '@prisma/client';
+import { WalletManagerService } from '../../application/services/wallet/wallet-manager.service';
+import { WalletResolverService } from '../../application/services/wallet/wallet-resolver.service';
+import { WalletSyncService } from '../../application/services/wallet/wallet-sync.service';
+import { TokenInfoService } from '../../application/services/token-info.service';
+import { TokenDiscoveryService } from '../../application/services/token-discovery/token-discovery.service';
+import { OrderSyncService } from '../../application/services/order/order-sync.service';
+import { LimitOrderService } from '../../application/services/order/limit-order.service';
+import { AmountResolverService } from '../../application/services/trade/amount-resolver.service';
+import { TransactionInspectorService } from '../../application/services/security/transaction-inspector.service';
+import { ConfigurationService } from '../../core/config/configuration.service';
+import { PrismaWalletRepository } from '../../infrastructure/repositories/prisma-wallet.repository';
+import { PrismaTokenInfoRepository } from '../../infrastructure/repositories/prisma-token-info.repository';
+import { ultraApiService } from '../../infrastructure/jupiter-api/ultra/ultra-api.service';
+import { TriggerApiService } from '../../infrastructure/jupiter-api/trigger/trigger-api.service';
+import { TokensApiService } from '../../infrastructure/jupiter-api/tokens/tokens-api.service';
+import { ShieldApiService } from '../../infrastructure/jupiter-api/shield/shield-api.service';
+import { PriceV3ApiService } from '../../infrastructure/jupiter-api/price/price-v3-api.service';
+import { solanaRpcService } from '../../infrastructure/solana/solana-rpc.service';
+import { ConnectionService } from '../../infrastructure/solana/connection.service';
+import { RpcContext } from './rpc-methods';
+import { createRiskPolicyService, createSwapService } from '../service-factory';
+
+/**
+ * Wires the services behind the agent APIs (`serve` and `mcp`) once per process.
+ */
+export function createRpcContext(prisma: PrismaClient, sessionKey: Buffer | null): RpcContext {
+  const walletRepo = new PrismaWalletRepository(prisma);
+  const walletResolver = new WalletResolverService(walletRepo);
+  const tokenInfoService = new TokenInfoService(
+    new PrismaTokenInfoRepository(prisma),
+    ultraApiService
+  );
+  const priceProvider = {
+    getPrice: async (mints: string[]) => ultraApiService.getPrice(mints),
+  };
+  const triggerApi = new TriggerApiService();
+  const config = ConfigurationService.getInstance().getConfig();
+  const amountResolver = new AmountResolverService(
+    solanaRpcService,
+    priceProvider,
+    config.trading.solReserve
+  );
+
+  return {
+    walletManager: new WalletManagerService(walletRepo),
+    walletResolver,
+    walletSync: new WalletSyncService(
+      walletRepo,
+      solanaRpcService,
+      ultraApiService,
+      tokenInfoService
+    ),
+    tokenInfo: tokenInfoService,
+    tokenDiscovery: new TokenDiscoveryService(
+      new TokensApiService(),
+      new ShieldApiService(),
+      new PriceV3ApiService(),
+      solanaRpcService
+    ),
+    priceProvider,
+    orderSync: new OrderSyncService(triggerApi, priceProvider, tokenInfoService),
+    swaps: createSwapService(prisma, config),
+    limitOrders: new LimitOrderService(
+      walletResolver,
+      tokenInfoService,
+      triggerApi,
+      createRiskPolicyService(prisma, config),
+      new TransactionInspectorService(new ConnectionService()),
+      amountResolver
+    ),
+    sessionKey,
+  };
+}
@@ -0,0 +1,126 @@
+import { ZodError } from 'zod';
+import { ApiToken } from '../../domain/entities/api-token.entity';
+import { getExitCode } from '../../core/errors/exit-codes';
+import { SerializedError, serializeError } from '../cli/output/serializers';
+import { getErrorHint } from '../cli/output/error-hints';
+import {
+  JsonRpcError,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RpcError,
+  RpcErrorCode,
+  RpcMethodRegistry,
+} from './rpc.types';
+
+type RequestId = string | number | null;
+
+function isRequest(value: unknown): value is JsonRpcRequest {
+  if (typeof value !== 'object' || value === null) return false;
+  const request = value as Record<string, unknown>;
+  const id = request.id;
+  return (
+    request.jsonrpc === '2.0' &&
+    typeof request.method === 'string' &&
+    (id === undefined || id === null || typeof id === 'string' || typeof id === 'number')
+  );
+}
+
+/**
+ * The CLI's `--output json` error body: error code, exit code and hint.
+ */
+export function toErrorData(error: unknown): SerializedError & { exitCode: number; hint?: string } {
+  const hint = getErrorHint(error);
+  return { ...serializeError(error), exitCode: getExitCode(error), ...(hint && { hint }) };
+}
+
+function toRpcError(error: unknown): JsonRpcError {
+  if (error instanceof RpcError) {
+    return { code: error.rpcCode, message: error.message, data: error.data };
+  }
+  if (error instanceof ZodError) {
+    return {
+      code: RpcErrorCode.INVALID_PARAMS,
+      message: 'Invalid params',
+      data: error.issues.map((i) => ({ path: i.path.join('.'), message: i.message })),
+    };
+  }
+  return {
+    code: RpcErrorCode.SERVER_ERROR,
+    message: error instanceof Error ? error.message : 'Unknown error',
+    data: toErrorData(error),
+  };
+}
+
+/**
+ * Runs JSON-RPC 2.0 requests (single or batch) against the method registry,
+ * checking the caller's permissions first. Never throws: failures become
+ * error responses.
+ */
+export class RpcDispatcher {
+  constructor(private methods: RpcMethodRegistry) {}
+
+  /**
+   * Returns null when there is nothing to send back (notifications only).
+   */
+  async dispatch(
+    payload: unknown,
+    caller: ApiToken
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (Array.isArray(payload)) {
+      if (payload.length === 0) {
+        return this.errorResponse(null, {
+          code: RpcErrorCode.INVALID_REQUEST,
+          message: 'Empty batch',
+        });
+      }
+      // Sequential: a batch of swaps must not race for the same balance
+      const responses: JsonRpcResponse[] = [];
+      for (const item of payload) {
+        const response = await this.dispatchOne(item, caller);
+        if (response) responses.push(response);
+      }
+      return responses.length > 0 ? responses : null;
+    }
+    return this.dispatchOne(payload, caller);
+  }
+
+  private async dispatchOne(payload: unknown, caller: ApiToken): Promise<JsonRpcResponse | null> {
+    if (!isRequest(payload)) {
+      return this.errorResponse(null, {
+        code: RpcErrorCode.INVALID_REQUEST,
+        message: 'Invalid request',
+      });
+    }
+
+    const id = payload.id;
+    try {
+      const result = await this.call(payload, caller);
+      return id === undefined ? null : { jsonrpc: '2.0', id, result: result ?? null };
+    } catch (error) {
+      return id === undefined ? null : this.errorResponse(id, toRpcError(error));
+    }
+  }
+
+  private async call(request: JsonRpcRequest, caller: ApiToken): Promise<unknown> {
+    const method = Object.prototype.hasOwnProperty.call(this.methods, request.method)
+      ? this.methods[request.method]
+      : undefined;
+    if (!method) {
+      throw new RpcError(RpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+    if (!caller.can(method.permission)) {
+      throw new RpcError(
+        RpcErrorCode.PERMISSION_DENIED,
+        `Token "${caller.name}" lacks the "${method.permission}" permission`,
+        { required: method.permission }
+      );
+    }
+
+    const params = method.params.parse(request.params ?? {});
+    return method.handler(params);
+  }
+
+  private errorResponse(id: RequestId, error: JsonRpcError): JsonRpcResponse {
+    return { jsonrpc: '2.0', id, error };
+  }
+}
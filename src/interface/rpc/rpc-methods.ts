@@ -0,0 +1,313 @@
+import { z } from 'zod';
+import { WalletManagerService } from '../../application/services/wallet/wallet-manager.service';
+import { WalletResolverService } from '../../application/services/wallet/wallet-resolver.service';
+import {
+  PriceProvider,
+  WalletSyncService,
+} from '../../application/services/wallet/wallet-sync.service';
+import { TokenInfoProvider } from '../../application/services/token-info.service';
+import { TokenDiscoveryService } from '../../application/services/token-discovery/token-discovery.service';
+import { OrderSyncService } from '../../application/services/order/order-sync.service';
+import { LimitOrderService } from '../../application/services/order/limit-order.service';
+import {
+  DEFAULT_SWAP_RETRIES,
+  SWAP_ENGINES,
+  SwapRequest,
+  SwapService,
+} from '../../application/services/trade/swap.service';
+import { SessionKeyNotInitializedError } from '../../core/errors/wallet.errors';
+import {
+  OrderListResult,
+  PriceGetResult,
+  TokenInfoResult,
+  TokenListResult,
+  TokenShieldResult,
+  TradeSwapResult,
+  WalletListResult,
+  WalletShowResult,
+  toTradeSwapResult,
+  toWalletShowResult,
+} from '../cli/output/results';
+import { RpcMethodRegistry, defineMethod } from './rpc.types';
+
+/**
+ * Services shared by all requests for the lifetime of the server.
+ */
+export interface RpcContext {
+  walletManager: WalletManagerService;
+  walletResolver: WalletResolverService;
+  walletSync: WalletSyncService;
+  tokenInfo: TokenInfoProvider;
+  tokenDiscovery: TokenDiscoveryService;
+  priceProvider: PriceProvider;
+  orderSync: OrderSyncService;
+  swaps: SwapService;
+  limitOrders: LimitOrderService;
+  sessionKey: Buffer | null; // null: the server runs read-only
+}
+
+const walletParam = z.string().min(1, 'wallet is required').describe('Wallet number, name or UUID');
+const amountParam = z
+  .string()
+  .regex(/^\d+(\.\d+)?$/, 'must be a positive decimal string')
+  .refine((v) => /[1-9]/.test(v), 'must be greater than 0')
+  .describe('Amount in token units, as a decimal string');
+const amountExpressionParam = z
+  .string()
+  .regex(
+    /^(\d+(\.\d+)?%?|\$\d+(\.\d+)?|max)$/i,
+    'must be a decimal string, a percentage, a USD amount or "max"'
+  )
+  .describe(
+    'Amount in token units as a decimal string, or "50%" of the balance, "max" (keeps a SOL reserve for fees), or "$250" worth'
+  );
+const tokenParam = z.string().min(1).describe('Token symbol or mint address');
+
+const swapParams = z.object({
+  wallet: walletParam,
+  inputToken: tokenParam,
+  outputToken: tokenParam,
+  amount: amountExpressionParam,
+  slippageBps: z
+    .number()
+    .int()
+    .min(0)
+    .max(10000)
+    .default(100)
+    .describe('Slippage tolerance in basis points'),
+  exactOut: z
+    .boolean()
+    .default(false)
+    .describe('Receive exactly `amount` of the output token; amount then takes token units or USD'),
+  engine: z
+    .enum(SWAP_ENGINES)
+    .optional()
+    .describe('ultra (default), or metis to build the transaction and send it over RPC'),
+  excludeDexes: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('DEX labels to route around, e.g. ["Raydium"] (metis only)'),
+  onlyDirectRoutes: z.boolean().optional().describe('Single-hop routes only (metis only)'),
+  maxAccounts: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Cap the accounts the route may use (metis only)'),
+});
+
+function toSwapRequest({
+  excludeDexes,
+  onlyDirectRoutes,
+  maxAccounts,
+  ...params
+}: z.infer<typeof swapParams>): SwapRequest {
+  return { ...params, routing: { excludeDexes, onlyDirectRoutes, maxAccounts } };
+}
+
+/**
+ * Method results reuse the `--output json` result types, so agents see the
+ * same shapes over RPC as from the CLI.
+ */
+export function createRpcMethods(ctx: RpcContext): RpcMethodRegistry {
+  function requireSessionKey(): Buffer {
+    if (!ctx.sessionKey) {
+      throw new SessionKeyNotInitializedError();
+    }
+    return ctx.sessionKey;
+  }
+
+  return {
+    'wallet.list': defineMethod({
+      permission: 'read',
+      description: 'List wallets',
+      params: z.object({}),
+      handler: async (): Promise<WalletListResult> => {
+        const wallets = await ctx.walletManager.getAllWallets();
+        return {
+          wallets: wallets.map((w, i) => ({
+            index: i + 1,
+            id: w.id,
+            name: w.name,
+            address: w.address,
+            isActive: w.isActive,
+          })),
+        };
+      },
+    }),
+
+    'wallet.show': defineMethod({
+      permission: 'read',
+      description: 'Wallet balances and active order summary',
+      params: z.object({ wallet: walletParam }),
+      handler: async ({ wallet }): Promise<WalletShowResult> => {
+        const found = await ctx.walletResolver.resolve(wallet);
+        const [state, activeOrders] = await Promise.all([
+          ctx.walletSync.getWalletState(found.id),
+          ctx.orderSync.getActiveOrdersWithPrices(found.address).catch(() => []),
+        ]);
+        return toWalletShowResult(found, state, activeOrders);
+      },
+    }),
+
+    'price.get': defineMethod({
+      permission: 'read',
+      description: 'USD prices for symbols or mints',
+      params: z.object({ tokens: z.array(z.string().min(1)).min(1).max(50) }),
+      handler: async ({ tokens }): Promise<PriceGetResult> => {
+        const resolved = await Promise.all(tokens.map((t) => ctx.tokenInfo.resolveToken(t)));
+        const symbolMap = new Map(resolved.map((t) => [t.mint, t.symbol]));
+        const prices = await ctx.priceProvider.getPrice(resolved.map((t) => t.mint));
+        return {
+          prices: prices.map((p) => ({
+            mint: p.mint,
+            symbol: symbolMap.get(p.mint) ?? null,
+            price: p.price > 0 ? p.price : null,
+          })),
+        };
+      },
+    }),
+
+    'token.search': defineMethod({
+      permission: 'read',
+      description: 'Search tokens by symbol, name or mint',
+      params: z.object({
+        query: z.string().min(1),
+        limit: z.number().int().min(1).max(100).default(20),
+      }),
+      handler: async ({ query, limit }): Promise<TokenListResult> => {
+        const tokens = await ctx.tokenDiscovery.searchTokens(query);
+        return { total: tokens.length, tokens: tokens.slice(0, limit) };
+      },
+    }),
+
+    'token.info': defineMethod({
+      permission: 'read',
+      description: 'Token details with Shield warnings and price',
+      params: z.object({ mint: z.string().min(1) }),
+      handler: async ({ mint }): Promise<TokenInfoResult> =>
+        ctx.tokenDiscovery.getTokenDetails(mint),
+    }),
+
+    'token.shield': defineMethod({
+      permission: 'read',
+      description: 'Shield security warnings for mints',
+      params: z.object({ mints: z.array(z.string().min(1)).min(1).max(50) }),
+      handler: async ({ mints }): Promise<TokenShieldResult> =>
+        ctx.tokenDiscovery.getShieldWarnings(mints),
+    }),
+
+    'order.list': defineMethod({
+      permission: 'read',
+      description: 'Active limit orders of a wallet',
+      params: z.object({ wallet: walletParam }),
+      handler: async ({ wallet }): Promise<OrderListResult> => {
+        const found = await ctx.walletResolver.resolve(wallet);
+        const orders = await ctx.orderSync.getActiveOrdersWithPrices(found.address);
+        return {
+          wallet: { id: found.id, name: found.name, address: found.address },
+          status: 'active',
+          orders,
+        };
+      },
+    }),
+
+    'trade.quote': defineMethod({
+      permission: 'read',
+      description: 'Quote a swap without executing it',
+      params: swapParams,
+      handler: async (params): Promise<TradeSwapResult> => {
+        const quote = await ctx.swaps.quote(toSwapRequest(params));
+        const [riskViolations, inspection] = await Promise.all([
+          ctx.swaps.checkPolicy(quote),
+          ctx.swaps.inspectTransaction(quote),
+        ]);
+        return toTradeSwapResult(quote, undefined, {
+          riskViolations,
+          transactionViolations: inspection.violations,
+        });
+      },
+    }),
+
+    'trade.swap': defineMethod({
+      permission: 'swap',
+      description: 'Quote and execute a swap, tracked on-chain until finalized',
+      params: swapParams.extend({
+        retries: z
+          .number()
+          .int()
+          .min(0)
+          .max(10)
+          .default(DEFAULT_SWAP_RETRIES)
+          .describe('Quote and send again this many times when a transaction expires unlanded'),
+      }),
+      handler: async ({ retries, ...params }): Promise<TradeSwapResult> => {
+        const sessionKey = requireSessionKey();
+        const quote = await ctx.swaps.quote(toSwapRequest(params));
+        return toTradeSwapResult(quote, await ctx.swaps.execute(quote, sessionKey, { retries }));
+      },
+    }),
+
+    'order.create': defineMethod({
+      permission: 'orders',
+      description: 'Create a limit order',
+      params: z.object({
+        wallet: walletParam,
+        inputToken: tokenParam,
+        outputToken: tokenParam,
+        amount: amountExpressionParam,
+        targetPrice: amountParam.describe('Output tokens per input token'),
+        expirySeconds: z.number().int().positive().optional().describe('Expire after N seconds'),
+      }),
+      handler: async (params) => {
+        const sessionKey = requireSessionKey();
+        const draft = await ctx.limitOrders.prepare(params);
+        const created = await ctx.limitOrders.create(draft, sessionKey);
+        return {
+          ...created,
+          wallet: { id: draft.wallet.id, name: draft.wallet.name, address: draft.wallet.address },
+          input: {
+            mint: draft.input.mint,
+            symbol: draft.input.symbol,
+            amount: draft.amount,
+            basis: draft.amountBasis,
+          },
+          output: {
+            mint: draft.output.mint,
+            symbol: draft.output.symbol,
+            amount: draft.outputAmount.toFixed(6),
+          },
+          targetPrice: draft.targetPrice,
+          expiredAt: draft.expiredAt ?? null,
+        };
+      },
+    }),
+
+    'order.cancel': defineMethod({
+      permission: 'orders',
+      description: 'Cancel one limit order, or all active orders with all: true',
+      params: z
+        .object({
+          wallet: walletParam,
+          orderId: z.string().min(1).optional(),
+          all: z.boolean().default(false),
+        })
+        .refine((p) => p.all !== !!p.orderId, 'Pass either orderId or all: true'),
+      handler: async ({ wallet, orderId, all }) => {
+        const sessionKey = requireSessionKey();
+        const found = await ctx.walletResolver.resolve(wallet);
+
+        if (!all && orderId) {
+          await ctx.limitOrders.cancel(found, orderId, sessionKey);
+          return { cancelled: [orderId] };
+        }
+
+        const orderIds = await ctx.limitOrders.getActiveOrderIds(found);
+        if (orderIds.length > 0) {
+          await ctx.limitOrders.cancelMany(found, orderIds, sessionKey);
+        }
+        return { cancelled: orderIds };
+      },
+    }),
+  };
+}
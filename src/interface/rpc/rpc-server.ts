@@ -0,0 +1,164 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { ApiTokenService } from '../../application/services/security/api-token.service';
+import { LoggerService } from '../../core/logger/logger.service';
+import { RpcDispatcher } from './rpc-dispatcher';
+import { JsonRpcError, RpcErrorCode } from './rpc.types';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export const RPC_HOST = '127.0.0.1';
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    public rpcError: JsonRpcError
+  ) {
+    super(rpcError.message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * HTTP transport for the JSON-RPC API: `POST /rpc` with a bearer token,
+ * `GET /health` without. Only listens on the loopback interface.
+ */
+export class RpcServer {
+  private server: http.Server;
+  private logger = LoggerService.getInstance();
+
+  constructor(
+    private dispatcher: RpcDispatcher,
+    private apiTokens: ApiTokenService
+  ) {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.logger.error('RPC request failed', error instanceof Error ? error : undefined);
+        if (!res.headersSent) {
+          this.sendError(res, 500, {
+            code: RpcErrorCode.INTERNAL_ERROR,
+            message: 'Internal error',
+          });
+        }
+      });
+    });
+  }
+
+  listen(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, RPC_HOST, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Port listened on, once `listen` resolved: the one picked by the system for port 0.
+   */
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // Rejects DNS rebinding: a browser page resolving its own name to 127.0.0.1
+    const host = (req.headers.host ?? '').replace(/:\d+$/, '');
+    if (!LOCAL_HOSTS.has(host)) {
+      this.sendError(res, 403, { code: RpcErrorCode.INVALID_REQUEST, message: 'Forbidden host' });
+      return;
+    }
+
+    const url = (req.url ?? '').split('?')[0];
+
+    if (req.method === 'GET' && url === '/health') {
+      this.send(res, 200, { status: 'ok' });
+      return;
+    }
+
+    if (url !== '/rpc') {
+      this.sendError(res, 404, { code: RpcErrorCode.INVALID_REQUEST, message: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      this.sendError(res, 405, {
+        code: RpcErrorCode.INVALID_REQUEST,
+        message: 'Method not allowed',
+      });
+      return;
+    }
+
+    const token = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '')?.[1];
+    const caller = token ? await this.apiTokens.authenticate(token) : null;
+    if (!caller) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendError(res, 401, {
+        code: RpcErrorCode.UNAUTHORIZED,
+        message: 'Missing or invalid bearer token',
+      });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(await this.readBody(req));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.sendError(res, error.status, error.rpcError);
+      } else {
+        this.sendError(res, 400, { code: RpcErrorCode.PARSE_ERROR, message: 'Parse error' });
+      }
+      return;
+    }
+
+    const started = Date.now();
+    const response = await this.dispatcher.dispatch(payload, caller);
+    const methods = (Array.isArray(payload) ? payload : [payload])
+      .map((p) => (typeof p === 'object' && p !== null ? (p as { method?: unknown }).method : ''))
+      .join(',');
+    this.logger.info('RPC request', { token: caller.name, methods, ms: Date.now() - started });
+
+    if (response === null) {
+      res.writeHead(204).end();
+      return;
+    }
+    this.send(res, 200, response);
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(
+            new HttpError(413, { code: RpcErrorCode.INVALID_REQUEST, message: 'Request too large' })
+          );
+          // Drain the rest so the 413 response can still be written
+          req.removeAllListeners('data');
+          req.resume();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private sendError(res: ServerResponse, status: number, error: JsonRpcError): void {
+    this.send(res, status, { jsonrpc: '2.0', id: null, error });
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { ApiPermission } from '../../domain/entities/api-token.entity';
+
+/**
+ * JSON-RPC 2.0 error codes. -32700 to -32600 are defined by the spec,
+ * -32001 and below are specific to this server.
+ */
+export const RpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  SERVER_ERROR: -32000, // A command failed: data carries the CLI error (code, exitCode, ...)
+  UNAUTHORIZED: -32001,
+  PERMISSION_DENIED: -32003,
+} as const;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null; // Absent for notifications
+  method: string;
+  params?: unknown;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: string | number | null; result: unknown }
+  | { jsonrpc: '2.0'; id: string | number | null; error: JsonRpcError };
+
+export class RpcError extends Error {
+  constructor(
+    public rpcCode: number,
+    message: string,
+    public data?: unknown
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export interface RpcMethod<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  permission: ApiPermission;
+  description: string;
+  params: S;
+  handler: (params: z.infer<S>) => Promise<unknown>;
+}
+
+export type RpcMethodRegistry = Record<string, RpcMethod>;
+
+/**
+ * Keeps the params type of each method checked against its schema.
+ */
+export function defineMethod<S extends z.ZodTypeAny>(method: RpcMethod<S>): RpcMethod {
+  return method as unknown as RpcMethod;
+}
@@ -0,0 +1,81 @@
+import { PrismaClient } from '@prisma/client';
+import { WalletResolverService } from '../application/services/wallet/wallet-resolver.service';
+import { TokenInfoService } from '../application/services/token-info.service';
+import { SwapService } from '../application/services/trade/swap.service';
+import { TwapService } from '../application/services/trade/twap.service';
+import { TradeService } from '../application/services/trade/trade.service';
+import { TransactionSimulatorService } from '../application/services/trade/transaction-simulator.service';
+import { AmountResolverService } from '../application/services/trade/amount-resolver.service';
+import { ComputeBudgetService } from '../application/services/trade/compute-budget.service';
+import { ConfirmationTrackerService } from '../application/services/trade/confirmation-tracker.service';
+import { RiskPolicyService } from '../application/services/risk/risk-policy.service';
+import { TransactionInspectorService } from '../application/services/security/transaction-inspector.service';
+import { Configuration } from '../core/config/configuration.service';
+import { PrismaWalletRepository } from '../infrastructure/repositories/prisma-wallet.repository';
+import { PrismaTokenInfoRepository } from '../infrastructure/repositories/prisma-token-info.repository';
+import { PrismaTradeRepository } from '../infrastructure/repositories/prisma-trade.repository';
+import { PrismaOrderCommitmentRepository } from '../infrastructure/repositories/prisma-order-commitment.repository';
+import { PrismaTwapOrderRepository } from '../infrastructure/repositories/prisma-twap-order.repository';
+import { ultraApiService } from '../infrastructure/jupiter-api/ultra/ultra-api.service';
+import { SwapApiService } from '../infrastructure/jupiter-api/swap/swap-api.service';
+import { ShieldApiService } from '../infrastructure/jupiter-api/shield/shield-api.service';
+import { solanaRpcService } from '../infrastructure/solana/solana-rpc.service';
+import { ConnectionService } from '../infrastructure/solana/connection.service';
+
+const priceProvider = {
+  getPrice: async (mints: string[]) => ultraApiService.getPrice(mints),
+};
+
+/**
+ * Wires the services shared by the CLI commands and the agent APIs.
+ */
+export function createRiskPolicyService(
+  prisma: PrismaClient,
+  config: Configuration
+): RiskPolicyService {
+  return new RiskPolicyService(
+    config,
+    new PrismaTradeRepository(prisma),
+    priceProvider,
+    new ShieldApiService(),
+    new PrismaOrderCommitmentRepository(prisma)
+  );
+}
+
+export function createSwapService(prisma: PrismaClient, config: Configuration): SwapService {
+  const connection = new ConnectionService();
+  return new SwapService(
+    new WalletResolverService(new PrismaWalletRepository(prisma)),
+    new TokenInfoService(new PrismaTokenInfoRepository(prisma), ultraApiService),
+    ultraApiService,
+    new SwapApiService(),
+    new TradeService(new PrismaTradeRepository(prisma), priceProvider),
+    solanaRpcService,
+    createRiskPolicyService(prisma, config),
+    new TransactionInspectorService(connection),
+    new TransactionSimulatorService(connection),
+    new AmountResolverService(solanaRpcService, priceProvider, config.trading.solReserve),
+    connection,
+    new ComputeBudgetService(connection, config.priorityFees),
+    new ConfirmationTrackerService(connection)
+  );
+}
+
+export function createTwapServices(prisma: PrismaClient, config: Configuration) {
+  const walletResolver = new WalletResolverService(new PrismaWalletRepository(prisma));
+  const tokenInfoService = new TokenInfoService(
+    new PrismaTokenInfoRepository(prisma),
+    ultraApiService
+  );
+  return {
+    walletResolver,
+    tokenInfoService,
+    twaps: new TwapService(
+      walletResolver,
+      tokenInfoService,
+      new AmountResolverService(solanaRpcService, priceProvider, config.trading.solReserve),
+      createSwapService(prisma, config),
+      new PrismaTwapOrderRepository(prisma)
+    ),
+  };
+}
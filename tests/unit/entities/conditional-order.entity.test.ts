@@ -0,0 +1,113 @@
+import Big from 'big.js';
+import { ConditionalOrder } from '../../../src/domain/entities/conditional-order.entity';
+
+describe('ConditionalOrder Entity', () => {
+  const solMint = 'So11111111111111111111111111111111111111112';
+  const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+  function createOrder(
+    kind: ConditionalOrder['kind'],
+    options: ConstructorParameters<typeof ConditionalOrder>[7]
+  ): ConditionalOrder {
+    return new ConditionalOrder('cond-1', 'wallet-1', kind, solMint, usdcMint, '1', 100, options);
+  }
+
+  describe('constructor', () => {
+    it('should require a positive trigger price for stop-loss and take-profit', () => {
+      expect(() => createOrder('stop_loss', {})).toThrow('Invalid conditional order price');
+      expect(() => createOrder('take_profit', { triggerPrice: '0' })).toThrow(
+        'Invalid conditional order price'
+      );
+    });
+
+    it('should require a trail between 0 and 100 percent', () => {
+      expect(() => createOrder('trailing_stop', { highestPrice: '200', trailPct: 100 })).toThrow(
+        'trail between 0 and 100'
+      );
+    });
+
+    it('should refuse selling a token for itself', () => {
+      expect(
+        () =>
+          new ConditionalOrder('cond-1', 'wallet-1', 'stop_loss', solMint, solMint, '1', 100, {
+            triggerPrice: '150',
+          })
+      ).toThrow('must be different');
+    });
+  });
+
+  describe('isTriggeredAt', () => {
+    it('should trigger a stop-loss at or below its price', () => {
+      const order = createOrder('stop_loss', { triggerPrice: '150' });
+
+      expect(order.isTriggeredAt(new Big('150.01'))).toBe(false);
+      expect(order.isTriggeredAt(new Big('150'))).toBe(true);
+    });
+
+    it('should trigger a take-profit at or above its price', () => {
+      const order = createOrder('take_profit', { triggerPrice: '220' });
+
+      expect(order.isTriggeredAt(new Big('219.99'))).toBe(false);
+      expect(order.isTriggeredAt(new Big('220.5'))).toBe(true);
+    });
+
+    it('should never trigger an order that is not active', () => {
+      const order = createOrder('stop_loss', { triggerPrice: '150', status: 'cancelled' });
+
+      expect(order.isTriggeredAt(new Big('100'))).toBe(false);
+    });
+  });
+
+  describe('trailing stop', () => {
+    it('should follow the highest price and trigger the trail below it', () => {
+      const order = createOrder('trailing_stop', { highestPrice: '200', trailPct: 10 });
+      expect(order.stopPrice.toString()).toBe('180');
+
+      expect(order.observe(new Big('190'))).toBe(false);
+      expect(order.observe(new Big('250'))).toBe(true);
+      expect(order.highestPrice).toBe('250');
+      expect(order.stopPrice.toString()).toBe('225');
+
+      expect(order.isTriggeredAt(new Big('230'))).toBe(false);
+      expect(order.isTriggeredAt(new Big('225'))).toBe(true);
+    });
+
+    it('should leave fixed-price orders alone', () => {
+      const order = createOrder('stop_loss', { triggerPrice: '150' });
+
+      expect(order.observe(new Big('300'))).toBe(false);
+      expect(order.stopPrice.toString()).toBe('150');
+    });
+  });
+
+  describe('status', () => {
+    it('should move from active through triggered to executed', () => {
+      const order = createOrder('stop_loss', { triggerPrice: '150' });
+
+      order.trigger();
+      expect(order.status).toBe('triggered');
+      expect(order.triggeredAt).toBeInstanceOf(Date);
+
+      order.markExecuted('sig123');
+      expect(order.status).toBe('executed');
+      expect(order.signature).toBe('sig123');
+    });
+
+    it('should record why execution failed', () => {
+      const order = createOrder('stop_loss', { triggerPrice: '150' });
+      order.trigger();
+
+      order.markFailed('slippage tolerance exceeded');
+
+      expect(order.status).toBe('failed');
+      expect(order.error).toBe('slippage tolerance exceeded');
+    });
+
+    it('should refuse to cancel or trigger an order that already triggered', () => {
+      const order = createOrder('stop_loss', { triggerPrice: '150', status: 'triggered' });
+
+      expect(() => order.cancel()).toThrow('Cannot move a triggered conditional order');
+      expect(() => order.trigger()).toThrow('Cannot move a triggered conditional order');
+    });
+  });
+});
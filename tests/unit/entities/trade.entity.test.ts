@@ -0,0 +1,125 @@
+import { Trade } from '../../../src/domain/entities/trade.entity';
+
+describe('Trade Entity', () => {
+  const solMint = 'So11111111111111111111111111111111111111112';
+  const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+  function createTrade(overrides?: {
+    inputMint?: string;
+    outputMint?: string;
+    inputAmount?: string;
+    outputAmount?: string;
+    inputDecimals?: number;
+    signature?: string;
+  }): Trade {
+    return new Trade(
+      'trade-1',
+      'wallet-1',
+      'swap',
+      overrides?.inputMint ?? solMint,
+      overrides?.outputMint ?? usdcMint,
+      overrides?.inputAmount ?? '1500000000',
+      overrides?.outputAmount ?? '270000000',
+      overrides?.inputDecimals ?? 9,
+      6,
+      overrides?.signature ?? 'sig123'
+    );
+  }
+
+  describe('constructor', () => {
+    it('should create a trade with defaults', () => {
+      const trade = createTrade();
+
+      expect(trade.id).toBe('trade-1');
+      expect(trade.walletId).toBe('wallet-1');
+      expect(trade.type).toBe('swap');
+      expect(trade.status).toBe('success');
+      expect(trade.inputAmount).toBe('1500000000');
+      expect(trade.outputAmount).toBe('270000000');
+      expect(trade.routeLabels).toEqual([]);
+      expect(trade.inputUsdPrice).toBeUndefined();
+      expect(trade.executedAt).toBeInstanceOf(Date);
+    });
+
+    it('should create a trade with all optional fields', () => {
+      const executedAt = new Date('2026-02-13T14:30:00Z');
+      const trade = new Trade(
+        'trade-1',
+        'wallet-1',
+        'limit_order',
+        solMint,
+        usdcMint,
+        '1000000000',
+        '180000000',
+        9,
+        6,
+        'sig123',
+        {
+          status: 'pending',
+          inputSymbol: 'SOL',
+          outputSymbol: 'USDC',
+          inputUsdPrice: '180',
+          outputUsdPrice: '1',
+          inputUsdValue: '180',
+          outputUsdValue: '180',
+          routeLabels: ['Raydium', 'Orca'],
+          requestId: 'req-1',
+          executedAt,
+        }
+      );
+
+      expect(trade.type).toBe('limit_order');
+      expect(trade.status).toBe('pending');
+      expect(trade.inputSymbol).toBe('SOL');
+      expect(trade.outputSymbol).toBe('USDC');
+      expect(trade.inputUsdValue).toBe('180');
+      expect(trade.routeLabels).toEqual(['Raydium', 'Orca']);
+      expect(trade.requestId).toBe('req-1');
+      expect(trade.executedAt).toBe(executedAt);
+    });
+  });
+
+  describe('validation', () => {
+    it('should throw if input and output mints are the same', () => {
+      expect(() => createTrade({ outputMint: solMint })).toThrow(
+        'Trade input and output mints must be different'
+      );
+    });
+
+    it('should throw if amount is not a raw integer', () => {
+      expect(() => createTrade({ inputAmount: '1.5' })).toThrow(
+        'Input amount must be a non-negative integer in smallest units'
+      );
+      expect(() => createTrade({ outputAmount: '-1' })).toThrow(
+        'Output amount must be a non-negative integer in smallest units'
+      );
+    });
+
+    it('should throw if decimals are out of range', () => {
+      expect(() => createTrade({ inputDecimals: 19 })).toThrow(
+        'Token decimals must be an integer between 0 and 18'
+      );
+    });
+
+    it('should throw if signature is empty', () => {
+      expect(() => createTrade({ signature: ' ' })).toThrow('Trade signature cannot be empty');
+    });
+  });
+
+  describe('methods', () => {
+    it('should tell whether a mint is involved', () => {
+      const trade = createTrade();
+
+      expect(trade.involvesMint(solMint)).toBe(true);
+      expect(trade.involvesMint(usdcMint)).toBe(true);
+      expect(trade.involvesMint('OtherMint')).toBe(false);
+    });
+
+    it('should update status', () => {
+      const trade = createTrade();
+      trade.updateStatus('failed');
+
+      expect(trade.status).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { TwapOrder, TwapSlice } from '../../../src/domain/entities/twap-order.entity';
+
+describe('TwapOrder Entity', () => {
+  const solMint = 'So11111111111111111111111111111111111111112';
+  const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+  const start = new Date('2026-01-01T00:00:00Z');
+
+  function createSlices(amounts: string[]): TwapSlice[] {
+    return amounts.map((inputAmount, index) => ({
+      index,
+      scheduledAt: new Date(start.getTime() + index * 60_000),
+      inputAmount,
+      status: 'pending',
+    }));
+  }
+
+  function createTwap(
+    amounts = ['100', '100', '100'],
+    options?: ConstructorParameters<typeof TwapOrder>[11]
+  ): TwapOrder {
+    const total = amounts.reduce((sum, amount) => sum + BigInt(amount), 0n).toString();
+    return new TwapOrder(
+      'twap-1',
+      'wallet-1',
+      solMint,
+      usdcMint,
+      9,
+      6,
+      total,
+      60,
+      1,
+      100,
+      createSlices(amounts),
+      options
+    );
+  }
+
+  describe('constructor', () => {
+    it('should require the slices to add up to the total', () => {
+      expect(
+        () =>
+          new TwapOrder(
+            'twap-1',
+            'wallet-1',
+            solMint,
+            usdcMint,
+            9,
+            6,
+            '301',
+            60,
+            1,
+            100,
+            createSlices(['100', '100', '100'])
+          )
+      ).toThrow('add up to 300, not 301');
+    });
+
+    it('should refuse swapping a token for itself', () => {
+      expect(
+        () =>
+          new TwapOrder('twap-1', 'wallet-1', solMint, solMint, 9, 9, '100', 60, 1, 100, [
+            ...createSlices(['100']),
+          ])
+      ).toThrow('must be different');
+    });
+  });
+
+  describe('slices', () => {
+    it('should run the pending slices in order and complete after the last', () => {
+      const twap = createTwap(['100', '100']);
+
+      twap.startSlice(0);
+      twap.finishSlice(0, {
+        status: 'executed',
+        outputAmount: '15',
+        priceImpactPct: 0.1,
+        signature: 'sig-1',
+      });
+      expect(twap.nextSlice()?.index).toBe(1);
+      expect(twap.status).toBe('active');
+
+      twap.startSlice(1);
+      twap.finishSlice(1, { status: 'skipped', priceImpactPct: 2.5, error: 'too much impact' });
+
+      expect(twap.status).toBe('completed');
+      expect(twap.nextSlice()).toBeUndefined();
+      expect(twap.filled).toEqual({ input: 100n, output: 15n });
+    });
+
+    it('should stay active while a slice is left executing', () => {
+      const twap = createTwap(['100', '100']);
+      twap.startSlice(0);
+      twap.startSlice(1);
+      twap.finishSlice(1, { status: 'failed', error: 'no route' });
+
+      expect(twap.status).toBe('active');
+      expect(twap.nextSlice()).toBeUndefined();
+
+      twap.finishSlice(0, { status: 'unconfirmed', error: 'interrupted' });
+      expect(twap.status).toBe('completed');
+      expect(twap.filled).toEqual({ input: 0n, output: 0n });
+    });
+
+    it('should find slices left executing once the last attempt is stale', () => {
+      const slices = createSlices(['100', '100']).map((slice) => ({
+        ...slice,
+        status: slice.index === 0 ? ('executing' as const) : slice.status,
+      }));
+      const lastAttemptAt = new Date(Date.now() - 60 * 60_000);
+      const twap = new TwapOrder(
+        'twap-1',
+        'wallet-1',
+        solMint,
+        usdcMint,
+        9,
+        6,
+        '200',
+        60,
+        1,
+        100,
+        slices,
+        { lastAttemptAt }
+      );
+
+      expect(twap.staleSlices(15 * 60_000).map((slice) => slice.index)).toEqual([0]);
+      expect(twap.staleSlices(2 * 60 * 60_000)).toEqual([]);
+    });
+
+    it('should not start a slice twice', () => {
+      const twap = createTwap();
+      twap.startSlice(0);
+
+      expect(() => twap.startSlice(0)).toThrow('Cannot start slice 0');
+    });
+
+    it('should not run slices of a cancelled TWAP', () => {
+      const twap = createTwap();
+      twap.cancel();
+
+      expect(twap.nextSlice()).toBeUndefined();
+      expect(() => twap.startSlice(0)).toThrow('cancelled TWAP');
+      expect(() => twap.cancel()).toThrow('Cannot cancel a cancelled TWAP');
+    });
+  });
+
+  describe('dueAt', () => {
+    it('should be the scheduled time before any attempt', () => {
+      const twap = createTwap();
+      const first = twap.slices[0];
+
+      expect(first && twap.dueAt(first)).toEqual(start);
+    });
+
+    it('should keep slices one interval apart after a late attempt', () => {
+      const lastAttemptAt = new Date(start.getTime() + 3_600_000);
+      const twap = createTwap(['100', '100', '100'], { lastAttemptAt });
+      const next = twap.slices[1];
+
+      expect(next && twap.dueAt(next)).toEqual(new Date(lastAttemptAt.getTime() + 60_000));
+    });
+  });
+});
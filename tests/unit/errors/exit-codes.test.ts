@@ -0,0 +1,64 @@
+import { ExitCode, getExitCode } from '../../../src/core/errors/exit-codes';
+import {
+  ApiError,
+  JupiterApiError,
+  NetworkError,
+  RateLimitError,
+  SwapFailedError,
+} from '../../../src/core/errors/api.errors';
+import {
+  InvalidMasterPasswordError,
+  SessionKeyNotInitializedError,
+  WalletNotFoundError,
+} from '../../../src/core/errors/wallet.errors';
+import {
+  InsufficientBalanceError,
+  TokenNotFoundError,
+} from '../../../src/core/errors/token.errors';
+import { TransactionExpiredError } from '../../../src/core/errors/transaction.errors';
+import {
+  InteractionRequiredError,
+  InvalidArgumentError,
+  JupiterApiKeyMissingError,
+  NotInitializedError,
+} from '../../../src/core/errors/cli.errors';
+
+describe('getExitCode', () => {
+  it.each([
+    [new InvalidMasterPasswordError(), ExitCode.INVALID_PASSWORD],
+    [new WalletNotFoundError('abc'), ExitCode.WALLET_NOT_FOUND],
+    [new TokenNotFoundError('FOO'), ExitCode.TOKEN_NOT_FOUND],
+    [new RateLimitError(5), ExitCode.RATE_LIMITED],
+    [new NetworkError('https://api.jup.ag'), ExitCode.NETWORK_ERROR],
+    [new JupiterApiError('Bad request', 400), ExitCode.API_ERROR],
+    [new SwapFailedError('Slippage exceeded', { code: 6001 }), ExitCode.SWAP_FAILED],
+    [new InsufficientBalanceError('SOL', '1.5', '1.2'), ExitCode.INSUFFICIENT_BALANCE],
+    [new TransactionExpiredError('sig', 3), ExitCode.SWAP_FAILED],
+  ])('should map %p', (error, exitCode) => {
+    expect(getExitCode(error)).toBe(exitCode);
+  });
+
+  it('should map usage errors to USAGE_ERROR', () => {
+    expect(getExitCode(new InvalidArgumentError('bad'))).toBe(ExitCode.USAGE_ERROR);
+    expect(getExitCode(new InteractionRequiredError('Swap confirmation', '--yes'))).toBe(
+      ExitCode.USAGE_ERROR
+    );
+  });
+
+  it('should map missing setup to NOT_CONFIGURED', () => {
+    expect(getExitCode(new NotInitializedError())).toBe(ExitCode.NOT_CONFIGURED);
+    expect(getExitCode(new JupiterApiKeyMissingError())).toBe(ExitCode.NOT_CONFIGURED);
+    expect(getExitCode(new SessionKeyNotInitializedError())).toBe(ExitCode.NOT_CONFIGURED);
+  });
+
+  it('should map other API errors to API_ERROR', () => {
+    expect(getExitCode(new ApiError('Gateway timeout', 'GATEWAY_TIMEOUT', 504))).toBe(
+      ExitCode.API_ERROR
+    );
+  });
+
+  it('should fall back to GENERAL_ERROR', () => {
+    expect(getExitCode(new Error('boom'))).toBe(ExitCode.GENERAL_ERROR);
+    expect(getExitCode('boom')).toBe(ExitCode.GENERAL_ERROR);
+  });
+});
@@ -0,0 +1,137 @@
+import { RecurringApiService } from '../../../src/infrastructure/jupiter-api/recurring/recurring-api.service';
+import { JupiterClient } from '../../../src/infrastructure/jupiter-api/shared/jupiter-client';
+
+jest.mock('../../../src/infrastructure/jupiter-api/shared/jupiter-client');
+
+describe('RecurringApiService', () => {
+  let service: RecurringApiService;
+  let mockClient: {
+    get: jest.Mock;
+    post: jest.Mock;
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+    };
+    (JupiterClient as jest.Mock).mockImplementation(() => mockClient);
+    service = new RecurringApiService(new JupiterClient());
+  });
+
+  describe('createOrder', () => {
+    it('should POST a time-based order to /recurring/v1/createOrder', async () => {
+      mockClient.post.mockResolvedValue({ requestId: 'req-1', transaction: 'base64tx' });
+      const params = {
+        time: {
+          inAmount: 300_000_000,
+          numberOfOrders: 30,
+          interval: 86_400,
+          minPrice: null,
+          maxPrice: null,
+          startAt: null,
+        },
+      };
+
+      const result = await service.createOrder({
+        user: 'wallet-address',
+        inputMint: 'USDC-MINT',
+        outputMint: 'SOL-MINT',
+        params,
+      });
+
+      expect(mockClient.post).toHaveBeenCalledWith('/recurring/v1/createOrder', {
+        user: 'wallet-address',
+        inputMint: 'USDC-MINT',
+        outputMint: 'SOL-MINT',
+        params,
+      });
+      expect(result).toEqual({ requestId: 'req-1', transaction: 'base64tx' });
+    });
+
+    it('should POST a price-based order with its USDC increment', async () => {
+      mockClient.post.mockResolvedValue({ requestId: 'req-2', transaction: 'base64tx' });
+      const params = {
+        price: {
+          depositAmount: 500_000_000,
+          incrementUsdcValue: 10_000_000,
+          interval: 3_600,
+          startAt: null,
+        },
+      };
+
+      await service.createOrder({
+        user: 'wallet-address',
+        inputMint: 'USDC-MINT',
+        outputMint: 'SOL-MINT',
+        params,
+      });
+
+      expect(mockClient.post).toHaveBeenCalledWith(
+        '/recurring/v1/createOrder',
+        expect.objectContaining({ params })
+      );
+    });
+  });
+
+  describe('getOrders', () => {
+    it('should GET /recurring/v1/getRecurringOrders for one type and page', async () => {
+      mockClient.get.mockResolvedValue({ time: [], page: 2, totalPages: 2 });
+
+      const result = await service.getOrders('wallet-address', 'history', 'time', 2);
+
+      expect(mockClient.get).toHaveBeenCalledWith('/recurring/v1/getRecurringOrders', {
+        user: 'wallet-address',
+        orderStatus: 'history',
+        recurringType: 'time',
+        includeFailedTx: false,
+        page: 2,
+      });
+      expect(result.totalPages).toBe(2);
+    });
+
+    it('should default to the first page', async () => {
+      mockClient.get.mockResolvedValue({ price: [], page: 1, totalPages: 1 });
+
+      await service.getOrders('wallet-address', 'active', 'price');
+
+      expect(mockClient.get).toHaveBeenCalledWith(
+        '/recurring/v1/getRecurringOrders',
+        expect.objectContaining({ orderStatus: 'active', recurringType: 'price', page: 1 })
+      );
+    });
+  });
+
+  describe('cancelOrder', () => {
+    it('should POST to /recurring/v1/cancelOrder with the order type', async () => {
+      mockClient.post.mockResolvedValue({ requestId: 'req-3', transaction: 'cancel-tx' });
+
+      const result = await service.cancelOrder('wallet-address', 'order-key', 'price');
+
+      expect(mockClient.post).toHaveBeenCalledWith('/recurring/v1/cancelOrder', {
+        user: 'wallet-address',
+        order: 'order-key',
+        recurringType: 'price',
+      });
+      expect(result.transaction).toBe('cancel-tx');
+    });
+  });
+
+  describe('execute', () => {
+    it('should POST to /recurring/v1/execute with the signed transaction', async () => {
+      mockClient.post.mockResolvedValue({
+        signature: 'sig-1',
+        status: 'Success',
+        order: 'order-key',
+      });
+
+      const result = await service.execute('signed-tx', 'req-1');
+
+      expect(mockClient.post).toHaveBeenCalledWith('/recurring/v1/execute', {
+        signedTransaction: 'signed-tx',
+        requestId: 'req-1',
+      });
+      expect(result.order).toBe('order-key');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { SwapApiService } from '../../../src/infrastructure/jupiter-api/swap/swap-api.service';
+import { JupiterClient } from '../../../src/infrastructure/jupiter-api/shared/jupiter-client';
+import { QuoteResponse } from '../../../src/infrastructure/jupiter-api/swap/swap.types';
+import { JupiterApiError } from '../../../src/core/errors/api.errors';
+
+jest.mock('../../../src/infrastructure/jupiter-api/shared/jupiter-client');
+
+const quote: QuoteResponse = {
+  inputMint: 'SOL-MINT',
+  inAmount: '550000000',
+  outputMint: 'USDC-MINT',
+  outAmount: '100000000',
+  otherAmountThreshold: '555500000',
+  swapMode: 'ExactOut',
+  slippageBps: 100,
+  priceImpactPct: '0.001',
+  routePlan: [],
+};
+
+describe('SwapApiService', () => {
+  let service: SwapApiService;
+  let mockClient: {
+    get: jest.Mock;
+    post: jest.Mock;
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      get: jest.fn(),
+      post: jest.fn(),
+    };
+    (JupiterClient as jest.Mock).mockImplementation(() => mockClient);
+    service = new SwapApiService(new JupiterClient());
+  });
+
+  describe('getQuote', () => {
+    it('should GET /swap/v1/quote with the swap mode', async () => {
+      mockClient.get.mockResolvedValue(quote);
+
+      const result = await service.getQuote({
+        inputMint: 'SOL-MINT',
+        outputMint: 'USDC-MINT',
+        amount: '100000000',
+        swapMode: 'ExactOut',
+        slippageBps: 100,
+      });
+
+      expect(mockClient.get).toHaveBeenCalledWith('/swap/v1/quote', {
+        inputMint: 'SOL-MINT',
+        outputMint: 'USDC-MINT',
+        amount: '100000000',
+        swapMode: 'ExactOut',
+        slippageBps: 100,
+      });
+      expect(result.otherAmountThreshold).toBe('555500000');
+    });
+
+    it('should pass routing constraints only when set', async () => {
+      mockClient.get.mockResolvedValue(quote);
+
+      await service.getQuote({
+        inputMint: 'SOL-MINT',
+        outputMint: 'USDC-MINT',
+        amount: '1000000000',
+        swapMode: 'ExactIn',
+        slippageBps: 50,
+        excludeDexes: ['Raydium', 'Orca V2'],
+        onlyDirectRoutes: false,
+        maxAccounts: 40,
+      });
+
+      expect(mockClient.get).toHaveBeenCalledWith('/swap/v1/quote', {
+        inputMint: 'SOL-MINT',
+        outputMint: 'USDC-MINT',
+        amount: '1000000000',
+        swapMode: 'ExactIn',
+        slippageBps: 50,
+        excludeDexes: 'Raydium,Orca V2',
+        maxAccounts: 40,
+      });
+    });
+  });
+
+  describe('getSwapTransaction', () => {
+    it('should POST the quote to /swap/v1/swap for the user', async () => {
+      mockClient.post.mockResolvedValue({ swapTransaction: 'base64tx', lastValidBlockHeight: 42 });
+
+      const result = await service.getSwapTransaction(quote, 'wallet-address');
+
+      expect(mockClient.post).toHaveBeenCalledWith('/swap/v1/swap', {
+        quoteResponse: quote,
+        userPublicKey: 'wallet-address',
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+      });
+      expect(result).toEqual({ swapTransaction: 'base64tx', lastValidBlockHeight: 42 });
+    });
+
+    it('should throw when no transaction is returned', async () => {
+      mockClient.post.mockResolvedValue({ swapTransaction: '', lastValidBlockHeight: 42 });
+
+      await expect(service.getSwapTransaction(quote, 'wallet-address')).rejects.toThrow(
+        JupiterApiError
+      );
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { parseMintExtensions } from '../../../src/infrastructure/solana/token-extensions.parser';
+
+describe('parseMintExtensions', () => {
+  const transferFeeConfig = {
+    extension: 'transferFeeConfig',
+    state: {
+      olderTransferFee: { epoch: 600, maximumFee: 5000, transferFeeBasisPoints: 100 },
+      newerTransferFee: { epoch: 700, maximumFee: 9000, transferFeeBasisPoints: 250 },
+    },
+  };
+
+  it('should keep the older transfer fee until the newer one takes effect', () => {
+    expect(parseMintExtensions([transferFeeConfig], 699).transferFee).toEqual({
+      basisPoints: 100,
+      maxFee: '5000',
+    });
+    expect(parseMintExtensions([transferFeeConfig], 700).transferFee).toEqual({
+      basisPoints: 250,
+      maxFee: '9000',
+    });
+  });
+
+  it('should ignore a zero transfer fee', () => {
+    const zero = {
+      extension: 'transferFeeConfig',
+      state: {
+        olderTransferFee: { epoch: 0, maximumFee: 0, transferFeeBasisPoints: 0 },
+        newerTransferFee: { epoch: 0, maximumFee: 0, transferFeeBasisPoints: 0 },
+      },
+    };
+
+    expect(parseMintExtensions([zero], 700)).toEqual({});
+  });
+
+  it('should surface delegate, non-transferable and interest-bearing extensions', () => {
+    const result = parseMintExtensions(
+      [
+        { extension: 'permanentDelegate', state: { delegate: 'Delegate111' } },
+        { extension: 'nonTransferable' },
+        { extension: 'interestBearingConfig', state: { currentRate: 500 } },
+        { extension: 'metadataPointer', state: {} },
+      ],
+      0
+    );
+
+    expect(result).toEqual({
+      permanentDelegate: 'Delegate111',
+      nonTransferable: true,
+      interestBearing: { rateBps: 500 },
+    });
+  });
+});
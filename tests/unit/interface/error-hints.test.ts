@@ -0,0 +1,48 @@
+import {
+  ERROR_HINTS,
+  getErrorHint,
+  getJupiterErrorCode,
+} from '../../../src/interface/cli/output/error-hints';
+import { JupiterApiError, SwapFailedError } from '../../../src/core/errors/api.errors';
+import { WalletNotFoundError } from '../../../src/core/errors/wallet.errors';
+
+describe('Error Hints', () => {
+  describe('getJupiterErrorCode', () => {
+    it('should read numeric and string codes from details', () => {
+      expect(getJupiterErrorCode(new SwapFailedError('Failed', { code: -1000 }))).toBe('-1000');
+      expect(getJupiterErrorCode(new JupiterApiError('Failed', 400, { code: '6001' }))).toBe(
+        '6001'
+      );
+    });
+
+    it('should return undefined without details', () => {
+      expect(getJupiterErrorCode(new JupiterApiError('Failed', 400))).toBeUndefined();
+      expect(getJupiterErrorCode(new Error('boom'))).toBeUndefined();
+    });
+  });
+
+  describe('getErrorHint', () => {
+    it('should prefer the Jupiter error code', () => {
+      const error = new SwapFailedError('Slippage tolerance exceeded', { code: 6001 });
+
+      expect(getErrorHint(error)).toBe(ERROR_HINTS['6001']);
+    });
+
+    it('should fall back to the error code', () => {
+      expect(getErrorHint(new WalletNotFoundError('abc'))).toBe(ERROR_HINTS.WALLET_NOT_FOUND);
+    });
+
+    it('should match known messages when no code has a hint', () => {
+      const error = new JupiterApiError('Reached end of buffer unexpectedly', 400, { code: 42 });
+
+      expect(getErrorHint(error)).toBe(
+        'This usually means insufficient token balance or account does not exist.'
+      );
+    });
+
+    it('should return undefined for unknown errors', () => {
+      expect(getErrorHint(new Error('boom'))).toBeUndefined();
+      expect(getErrorHint(undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { PassThrough } from 'stream';
+import { z } from 'zod';
+import { McpServer, MCP_PROTOCOL_VERSIONS, McpTool } from '../../../src/interface/mcp/mcp-server';
+import { toJsonSchema } from '../../../src/interface/mcp/json-schema';
+import { defineMethod, RpcErrorCode } from '../../../src/interface/rpc/rpc.types';
+import { WalletNotFoundError } from '../../../src/core/errors/wallet.errors';
+import { ExitCode } from '../../../src/core/errors/exit-codes';
+
+describe('McpServer', () => {
+  const swap = jest.fn();
+  const server = new McpServer(
+    {
+      'wallet.show': defineMethod({
+        permission: 'read',
+        description: 'Wallet balances',
+        params: z.object({ wallet: z.string().min(1) }),
+        handler: async ({ wallet }) => {
+          if (wallet === 'missing') throw new WalletNotFoundError(wallet);
+          return { wallet: { name: wallet }, totalValue: 10 };
+        },
+      }),
+      'trade.swap': defineMethod({
+        permission: 'swap',
+        description: 'Execute a swap',
+        params: z.object({ amount: z.string(), slippageBps: z.number().int().default(100) }),
+        handler: swap,
+      }),
+    },
+    { name: 'jup-cli', version: '1.2.3' }
+  );
+
+  function call(method: string, params?: unknown): ReturnType<McpServer['handle']> {
+    return server.handle({ jsonrpc: '2.0', id: 1, method, params });
+  }
+
+  beforeEach(() => {
+    swap.mockReset();
+    swap.mockResolvedValue({ status: 'success' });
+  });
+
+  describe('initialize', () => {
+    it('should accept a supported protocol version', async () => {
+      const response = await call('initialize', { protocolVersion: '2025-03-26' });
+
+      expect(response).toMatchObject({
+        result: {
+          protocolVersion: '2025-03-26',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'jup-cli', version: '1.2.3' },
+        },
+      });
+    });
+
+    it('should offer the latest version for an unknown one', async () => {
+      const response = await call('initialize', { protocolVersion: '1999-01-01' });
+
+      expect(response).toMatchObject({ result: { protocolVersion: MCP_PROTOCOL_VERSIONS[0] } });
+    });
+  });
+
+  describe('tools/list', () => {
+    it('should flag fund-moving tools as needing confirmation', async () => {
+      const response = await call('tools/list');
+      const tools = (response as { result: { tools: McpTool[] } }).result.tools;
+      const show = tools.find((t) => t.name === 'wallet_show');
+      const swapTool = tools.find((t) => t.name === 'trade_swap');
+
+      expect(show?.annotations).toMatchObject({ readOnlyHint: true, destructiveHint: false });
+      expect(swapTool?.annotations).toMatchObject({ readOnlyHint: false, destructiveHint: true });
+      expect(swapTool?.description).toContain('confirmation');
+      expect(swapTool?.inputSchema).toEqual({
+        type: 'object',
+        properties: {
+          amount: { type: 'string' },
+          slippageBps: { type: 'integer', default: 100 },
+        },
+        required: ['amount'],
+        additionalProperties: false,
+      });
+    });
+  });
+
+  describe('tools/call', () => {
+    it('should return the result as text and structured content', async () => {
+      const response = await call('tools/call', {
+        name: 'wallet_show',
+        arguments: { wallet: 'Trading' },
+      });
+
+      expect(response).toMatchObject({
+        result: { structuredContent: { totalValue: 10 }, content: [{ type: 'text' }] },
+      });
+      expect((response as { result: { isError?: boolean } }).result.isError).toBeUndefined();
+    });
+
+    it('should apply schema defaults before calling the handler', async () => {
+      await call('tools/call', { name: 'trade_swap', arguments: { amount: '1' } });
+
+      expect(swap).toHaveBeenCalledWith({ amount: '1', slippageBps: 100 });
+    });
+
+    it('should report invalid arguments as a tool error', async () => {
+      const response = await call('tools/call', { name: 'trade_swap', arguments: {} });
+
+      expect(response).toMatchObject({
+        result: {
+          isError: true,
+          structuredContent: { error: { code: 'INVALID_ARGUMENT', issues: [{ path: 'amount' }] } },
+        },
+      });
+      expect(swap).not.toHaveBeenCalled();
+    });
+
+    it('should report command failures with the CLI error code', async () => {
+      const response = await call('tools/call', {
+        name: 'wallet_show',
+        arguments: { wallet: 'missing' },
+      });
+
+      expect(response).toMatchObject({
+        result: {
+          isError: true,
+          structuredContent: {
+            error: { code: 'WALLET_NOT_FOUND', exitCode: ExitCode.WALLET_NOT_FOUND },
+          },
+        },
+      });
+    });
+
+    it('should reject unknown tools', async () => {
+      const response = await call('tools/call', { name: 'wallet.show', arguments: {} });
+
+      expect(response).toMatchObject({ error: { code: RpcErrorCode.INVALID_PARAMS } });
+    });
+  });
+
+  it('should not answer notifications', async () => {
+    const response = await server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    expect(response).toBeNull();
+  });
+
+  it('should reject unknown methods', async () => {
+    const response = await call('resources/list');
+
+    expect(response).toMatchObject({ error: { code: RpcErrorCode.METHOD_NOT_FOUND } });
+  });
+
+  it('should serve newline-delimited messages until input closes', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const done = server.serve(input, output);
+
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    input.write('not json\n');
+    input.end('{"jsonrpc":"2.0","id":2,"method":"ping"}\n');
+    await done;
+
+    const lines = output.read().toString().trim().split('\n').map(JSON.parse);
+    expect(lines).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: RpcErrorCode.PARSE_ERROR, message: 'Parse error' },
+      },
+      { jsonrpc: '2.0', id: 2, result: {} },
+    ]);
+  });
+});
+
+describe('toJsonSchema', () => {
+  it('should convert the constraints used by RPC params', () => {
+    const schema = z.object({
+      tokens: z.array(z.string().min(1)).min(1).max(50),
+      amount: z
+        .string()
+        .regex(/^\d+$/)
+        .refine((v) => v !== '0')
+        .describe('Amount'),
+      limit: z.number().int().min(1).max(100).optional(),
+      all: z.boolean().default(false),
+    });
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        tokens: {
+          type: 'array',
+          items: { type: 'string', minLength: 1 },
+          minItems: 1,
+          maxItems: 50,
+        },
+        amount: { type: 'string', pattern: '^\\d+$', description: 'Amount' },
+        limit: { type: 'integer', minimum: 1, maximum: 100 },
+        all: { type: 'boolean', default: false },
+      },
+      required: ['tokens', 'amount'],
+      additionalProperties: false,
+    });
+  });
+});
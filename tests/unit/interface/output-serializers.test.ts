@@ -0,0 +1,66 @@
+import { serializeError, toCsv } from '../../../src/interface/cli/output/serializers';
+import { WalletNotFoundError } from '../../../src/core/errors/wallet.errors';
+import { JupiterApiError } from '../../../src/core/errors/api.errors';
+import { JupiterApiKeyMissingError } from '../../../src/core/errors/cli.errors';
+
+describe('Output Serializers', () => {
+  describe('serializeError', () => {
+    it('should expose the class name, code and details of domain errors', () => {
+      expect(serializeError(new WalletNotFoundError('abc'))).toEqual({
+        name: 'WalletNotFoundError',
+        code: 'WALLET_NOT_FOUND',
+        message: 'Wallet with ID "abc" not found',
+        details: { walletId: 'abc' },
+      });
+    });
+
+    it('should include the HTTP status of API errors', () => {
+      const serialized = serializeError(new JupiterApiError('Bad request', 400));
+
+      expect(serialized.code).toBe('JUPITER_API_ERROR');
+      expect(serialized.statusCode).toBe(400);
+    });
+
+    it('should omit empty details', () => {
+      expect(serializeError(new JupiterApiKeyMissingError())).not.toHaveProperty('details');
+    });
+
+    it('should fall back to UNKNOWN_ERROR for plain errors and non-errors', () => {
+      expect(serializeError(new Error('boom'))).toEqual({
+        name: 'Error',
+        code: 'UNKNOWN_ERROR',
+        message: 'boom',
+      });
+      expect(serializeError('boom').code).toBe('UNKNOWN_ERROR');
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should print a header and one line per row', () => {
+      expect(
+        toCsv([
+          { mint: 'So1', price: 150.5 },
+          { mint: 'EPj', price: 1 },
+        ])
+      ).toBe('mint,price\nSo1,150.5\nEPj,1');
+    });
+
+    it('should use the union of keys and leave missing values empty', () => {
+      expect(toCsv([{ a: 1 }, { b: 2 }, { a: null, b: undefined }])).toBe('a,b\n1,\n,2\n,');
+    });
+
+    it('should quote values containing separators or quotes', () => {
+      expect(toCsv([{ name: 'Wrapped "SOL", v2' }])).toBe('name\n"Wrapped ""SOL"", v2"');
+    });
+
+    it('should format dates as ISO strings and objects as JSON', () => {
+      expect(toCsv([{ at: new Date('2026-10-19T12:00:00.000Z'), tags: ['verified'] }])).toBe(
+        'at,tags\n2026-10-19T12:00:00.000Z,"[""verified""]"'
+      );
+    });
+
+    it('should print an empty line for no rows', () => {
+      expect(toCsv([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { RpcDispatcher } from '../../../src/interface/rpc/rpc-dispatcher';
+import { RpcErrorCode, defineMethod } from '../../../src/interface/rpc/rpc.types';
+import { ApiToken } from '../../../src/domain/entities/api-token.entity';
+import { WalletNotFoundError } from '../../../src/core/errors/wallet.errors';
+import { ExitCode } from '../../../src/core/errors/exit-codes';
+
+describe('RpcDispatcher', () => {
+  const swap = jest.fn();
+  const dispatcher = new RpcDispatcher({
+    echo: defineMethod({
+      permission: 'read',
+      description: 'Echo',
+      params: z.object({ value: z.string() }),
+      handler: async ({ value }) => ({ value }),
+    }),
+    'wallet.show': defineMethod({
+      permission: 'read',
+      description: 'Show',
+      params: z.object({ wallet: z.string() }),
+      handler: async ({ wallet }) => {
+        throw new WalletNotFoundError(wallet);
+      },
+    }),
+    'trade.swap': defineMethod({
+      permission: 'swap',
+      description: 'Swap',
+      params: z.object({}),
+      handler: swap,
+    }),
+  });
+
+  const readOnly = new ApiToken('1', 'reader', 'hash-1', ['read']);
+  const trader = new ApiToken('2', 'trader', 'hash-2', ['read', 'swap']);
+
+  beforeEach(() => {
+    swap.mockReset();
+    swap.mockResolvedValue({ status: 'success' });
+  });
+
+  it('should return the handler result', async () => {
+    const response = await dispatcher.dispatch(
+      { jsonrpc: '2.0', id: 1, method: 'echo', params: { value: 'hi' } },
+      readOnly
+    );
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 1, result: { value: 'hi' } });
+  });
+
+  it('should refuse methods the token is not allowed to call', async () => {
+    const response = await dispatcher.dispatch(
+      { jsonrpc: '2.0', id: 1, method: 'trade.swap' },
+      readOnly
+    );
+
+    expect(response).toMatchObject({
+      id: 1,
+      error: { code: RpcErrorCode.PERMISSION_DENIED, data: { required: 'swap' } },
+    });
+    expect(swap).not.toHaveBeenCalled();
+  });
+
+  it('should run methods the token is allowed to call', async () => {
+    const response = await dispatcher.dispatch(
+      { jsonrpc: '2.0', id: 'a', method: 'trade.swap' },
+      trader
+    );
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 'a', result: { status: 'success' } });
+  });
+
+  it('should reject invalid params with the failing fields', async () => {
+    const response = await dispatcher.dispatch(
+      { jsonrpc: '2.0', id: 1, method: 'echo', params: { value: 42 } },
+      readOnly
+    );
+
+    expect(response).toMatchObject({
+      error: { code: RpcErrorCode.INVALID_PARAMS, data: [{ path: 'value' }] },
+    });
+  });
+
+  it('should report unknown methods, including inherited property names', async () => {
+    for (const method of ['nope', 'toString', '__proto__']) {
+      const response = await dispatcher.dispatch({ jsonrpc: '2.0', id: 1, method }, trader);
+
+      expect(response).toMatchObject({ error: { code: RpcErrorCode.METHOD_NOT_FOUND } });
+    }
+  });
+
+  it('should reject malformed requests', async () => {
+    const response = await dispatcher.dispatch({ id: 1, method: 'echo' }, readOnly);
+
+    expect(response).toMatchObject({ id: null, error: { code: RpcErrorCode.INVALID_REQUEST } });
+  });
+
+  it('should carry the CLI error code and exit code of failed commands', async () => {
+    const response = await dispatcher.dispatch(
+      { jsonrpc: '2.0', id: 1, method: 'wallet.show', params: { wallet: 'x' } },
+      readOnly
+    );
+
+    expect(response).toMatchObject({
+      error: {
+        code: RpcErrorCode.SERVER_ERROR,
+        data: { code: 'WALLET_NOT_FOUND', exitCode: ExitCode.WALLET_NOT_FOUND },
+      },
+    });
+  });
+
+  it('should not answer notifications', async () => {
+    const response = await dispatcher.dispatch({ jsonrpc: '2.0', method: 'trade.swap' }, trader);
+
+    expect(response).toBeNull();
+    expect(swap).toHaveBeenCalled();
+  });
+
+  it('should answer batches in order and skip notifications', async () => {
+    const response = await dispatcher.dispatch(
+      [
+        { jsonrpc: '2.0', id: 1, method: 'echo', params: { value: 'a' } },
+        { jsonrpc: '2.0', method: 'echo', params: { value: 'b' } },
+        { jsonrpc: '2.0', id: 2, method: 'trade.swap' },
+      ],
+      readOnly
+    );
+
+    expect(response).toMatchObject([
+      { id: 1, result: { value: 'a' } },
+      { id: 2, error: { code: RpcErrorCode.PERMISSION_DENIED } },
+    ]);
+  });
+
+  it('should reject an empty batch', async () => {
+    const response = await dispatcher.dispatch([], readOnly);
+
+    expect(response).toMatchObject({ error: { code: RpcErrorCode.INVALID_REQUEST } });
+  });
+});
@@ -0,0 +1,143 @@
+import http from 'http';
+import { z } from 'zod';
+import { RpcServer } from '../../../src/interface/rpc/rpc-server';
+import { RpcDispatcher } from '../../../src/interface/rpc/rpc-dispatcher';
+import { RpcErrorCode, defineMethod } from '../../../src/interface/rpc/rpc.types';
+import { ApiToken } from '../../../src/domain/entities/api-token.entity';
+import { ApiTokenService } from '../../../src/application/services/security/api-token.service';
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('RpcServer', () => {
+  const swap = jest.fn();
+  const tokens: Record<string, ApiToken> = {
+    'read-token': new ApiToken('1', 'reader', 'hash-1', ['read']),
+    'swap-token': new ApiToken('2', 'trader', 'hash-2', ['read', 'swap']),
+  };
+  const server = new RpcServer(
+    new RpcDispatcher({
+      echo: defineMethod({
+        permission: 'read',
+        description: 'Echo',
+        params: z.object({ value: z.string() }),
+        handler: async ({ value }) => ({ value }),
+      }),
+      'trade.swap': defineMethod({
+        permission: 'swap',
+        description: 'Swap',
+        params: z.object({}),
+        handler: swap,
+      }),
+    }),
+    {
+      authenticate: jest.fn(async (token: string) => tokens[token] ?? null),
+    } as unknown as ApiTokenService
+  );
+
+  function post(
+    body: string,
+    headers: http.OutgoingHttpHeaders = { authorization: 'Bearer read-token' }
+  ): Promise<Reply> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        {
+          host: '127.0.0.1',
+          port: server.port,
+          path: '/rpc',
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...headers },
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () =>
+            resolve({
+              status: res.statusCode ?? 0,
+              headers: res.headers,
+              body: Buffer.concat(chunks).toString('utf8'),
+            })
+          );
+        }
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  function request(method: string): string {
+    return JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: { value: 'hi' } });
+  }
+
+  beforeAll(() => server.listen(0));
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    swap.mockReset();
+    swap.mockResolvedValue({ status: 'success' });
+  });
+
+  it('should answer requests with a valid token', async () => {
+    const reply = await post(request('echo'));
+
+    expect(reply.status).toBe(200);
+    expect(JSON.parse(reply.body)).toEqual({ jsonrpc: '2.0', id: 1, result: { value: 'hi' } });
+  });
+
+  it('should refuse hosts other than the loopback interface', async () => {
+    const reply = await post(request('echo'), {
+      authorization: 'Bearer read-token',
+      host: `attacker.example:${server.port}`,
+    });
+
+    expect(reply.status).toBe(403);
+    expect(JSON.parse(reply.body).error.message).toBe('Forbidden host');
+  });
+
+  it('should refuse requests without a valid bearer token', async () => {
+    const missing = await post(request('echo'), {});
+    const invalid = await post(request('echo'), { authorization: 'Bearer wrong-token' });
+
+    for (const reply of [missing, invalid]) {
+      expect(reply.status).toBe(401);
+      expect(reply.headers['www-authenticate']).toBe('Bearer');
+      expect(JSON.parse(reply.body).error.code).toBe(RpcErrorCode.UNAUTHORIZED);
+    }
+  });
+
+  it('should refuse a swap to a read-only token', async () => {
+    const reply = await post(request('trade.swap'));
+
+    expect(reply.status).toBe(200);
+    expect(JSON.parse(reply.body).error).toMatchObject({
+      code: RpcErrorCode.PERMISSION_DENIED,
+      data: { required: 'swap' },
+    });
+    expect(swap).not.toHaveBeenCalled();
+  });
+
+  it('should run a swap for a token allowed to swap', async () => {
+    const reply = await post(request('trade.swap'), { authorization: 'Bearer swap-token' });
+
+    expect(JSON.parse(reply.body).result).toEqual({ status: 'success' });
+  });
+
+  it('should refuse bodies over 1 MB', async () => {
+    const reply = await post(' '.repeat(1024 * 1024 + 1));
+
+    expect(reply.status).toBe(413);
+    expect(JSON.parse(reply.body).error.message).toBe('Request too large');
+  });
+
+  it('should answer notifications with no content', async () => {
+    const reply = await post(
+      JSON.stringify({ jsonrpc: '2.0', method: 'echo', params: { value: 'hi' } })
+    );
+
+    expect(reply.status).toBe(204);
+    expect(reply.body).toBe('');
+  });
+});
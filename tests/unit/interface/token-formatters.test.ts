@@ -4,6 +4,7 @@ import {
   formatPercent,
   formatOrganicScore,
   formatVerified,
+  formatMintExtensions,
 } from '../../../src/interface/cli/commands/token/token-formatters';
 
 // Strip ANSI codes for testing
@@ -140,4 +141,28 @@ describe('Token Formatters', () => {
       expect(result).toBe('x');
     });
   });
+
+  describe('formatMintExtensions', () => {
+    it('should describe each extension in UI units', () => {
+      const lines = formatMintExtensions(
+        {
+          transferFee: { basisPoints: 150, maxFee: '2500000' },
+          nonTransferable: true,
+          interestBearing: { rateBps: 425 },
+        },
+        6,
+        'PYUSD'
+      ).map(stripAnsi);
+
+      expect(lines).toEqual([
+        'Transfer fee 1.50% (max 2.5 PYUSD)',
+        'Non-transferable',
+        'Interest-bearing 4.25%/year',
+      ]);
+    });
+
+    it('should return nothing when no extension applies', () => {
+      expect(formatMintExtensions({}, 6)).toEqual([]);
+    });
+  });
 });
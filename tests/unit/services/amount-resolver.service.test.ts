@@ -0,0 +1,115 @@
+import {
+  AmountResolverService,
+  parseAmountExpression,
+} from '../../../src/application/services/trade/amount-resolver.service';
+import { InvalidAmountError } from '../../../src/core/errors/token.errors';
+import { ExitCode, getExitCode } from '../../../src/core/errors/exit-codes';
+
+const SOL = { mint: 'So11111111111111111111111111111111111111112', symbol: 'SOL', decimals: 9 };
+const USDC = { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', decimals: 6 };
+const BONK = { mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', symbol: 'BONK', decimals: 5 };
+
+describe('parseAmountExpression', () => {
+  it.each([
+    ['1.5', { kind: 'tokens', value: '1.5' }],
+    [' MAX ', { kind: 'max' }],
+  ])('should parse %p', (expression, expected) => {
+    expect(parseAmountExpression(expression)).toEqual(expected);
+  });
+
+  it('should parse percentages and USD amounts', () => {
+    expect(parseAmountExpression('12.5%')).toMatchObject({ kind: 'percent' });
+    expect(parseAmountExpression('$250')).toMatchObject({ kind: 'usd' });
+  });
+
+  it.each(['0%', '150%', '$0'])('should reject %p', (expression) => {
+    expect(() => parseAmountExpression(expression)).toThrow(InvalidAmountError);
+  });
+});
+
+describe('AmountResolverService', () => {
+  const getTokenAccounts = jest.fn();
+  const getPrice = jest.fn();
+  const service = new AmountResolverService({ getTokenAccounts }, { getPrice }, 0.01);
+
+  beforeEach(() => {
+    getTokenAccounts.mockReset();
+    getPrice.mockReset();
+    getTokenAccounts.mockResolvedValue({
+      address: 'wallet',
+      solBalance: 2.5,
+      tokens: [
+        // Two accounts for the same mint are added up
+        { mint: USDC.mint, amount: '100000000', decimals: 6, uiAmount: 100, program: 'spl-token' },
+        {
+          mint: USDC.mint,
+          amount: '23456789',
+          decimals: 6,
+          uiAmount: 23.456789,
+          program: 'token-2022',
+        },
+      ],
+    });
+  });
+
+  it('should parse token units without looking up the balance', async () => {
+    const resolved = await service.resolve('0.25', SOL, 'wallet');
+
+    expect(resolved.amount.toString()).toBe('0.25');
+    expect(resolved.basis).toBeNull();
+    expect(getTokenAccounts).not.toHaveBeenCalled();
+  });
+
+  it('should take a percentage of the balance, rounded down', async () => {
+    const resolved = await service.resolve('33%', USDC, 'wallet');
+
+    expect(resolved.amount.toRawString()).toBe('40740740');
+    expect(resolved.basis).toBe('33% of 123.456789 USDC');
+  });
+
+  it('should keep the SOL reserve for max', async () => {
+    const resolved = await service.resolve('max', SOL, 'wallet');
+
+    expect(resolved.amount.toString()).toBe('2.49');
+    expect(resolved.basis).toBe('2.5 SOL less 0.01 SOL kept for fees');
+  });
+
+  it('should use the whole token balance for max', async () => {
+    const resolved = await service.resolve('max', USDC, 'wallet');
+
+    expect(resolved.amount.toString()).toBe('123.456789');
+  });
+
+  it('should convert USD at the current price', async () => {
+    getPrice.mockResolvedValue([{ mint: SOL.mint, price: 180, timestamp: new Date() }]);
+
+    const resolved = await service.resolve('$250', SOL, 'wallet');
+
+    expect(getPrice).toHaveBeenCalledWith([SOL.mint]);
+    expect(resolved.amount.toString()).toBe('1.388888888');
+    expect(resolved.basis).toBe('$250 at $180 per SOL');
+  });
+
+  it('should value stablecoins at $1 without a price', async () => {
+    getPrice.mockResolvedValue([]);
+
+    const resolved = await service.resolve('$250', USDC, 'wallet');
+
+    expect(resolved.amount.toString()).toBe('250');
+  });
+
+  it.each([
+    ['50%', BONK, 'the wallet holds no BONK'],
+    ['$10', BONK, 'no USD price for BONK'],
+    ['max', SOL, 'no more than the 0.01 SOL kept for fees'],
+  ])('should refuse %p', async (expression, token, reason) => {
+    getTokenAccounts.mockResolvedValue({ address: 'wallet', solBalance: 0.005, tokens: [] });
+    getPrice.mockResolvedValue([]);
+
+    const error = await service.resolve(expression, token, 'wallet').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InvalidAmountError);
+    expect((error as Error).message).toContain(reason);
+    expect(getExitCode(error)).toBe(ExitCode.USAGE_ERROR);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  ApiTokenService,
+  hashApiToken,
+} from '../../../src/application/services/security/api-token.service';
+import { ApiTokenRepository } from '../../../src/domain/repositories/api-token.repository';
+import { ApiToken } from '../../../src/domain/entities/api-token.entity';
+import { ApiTokenNotFoundError, InvalidArgumentError } from '../../../src/core/errors/cli.errors';
+
+function createMockRepository(tokens: ApiToken[]): jest.Mocked<ApiTokenRepository> {
+  return {
+    findAll: jest.fn().mockImplementation(async () => tokens),
+    findByHash: jest.fn().mockImplementation(async (hash: string) => {
+      return tokens.find((t) => t.tokenHash === hash) ?? null;
+    }),
+    findByName: jest.fn().mockImplementation(async (name: string) => {
+      return tokens.find((t) => t.name === name) ?? null;
+    }),
+    save: jest.fn().mockImplementation(async (token: ApiToken) => {
+      tokens.push(token);
+      return token;
+    }),
+    delete: jest.fn(),
+  };
+}
+
+describe('ApiTokenService', () => {
+  let tokens: ApiToken[];
+  let mockRepo: jest.Mocked<ApiTokenRepository>;
+  let service: ApiTokenService;
+
+  beforeEach(() => {
+    tokens = [];
+    mockRepo = createMockRepository(tokens);
+    service = new ApiTokenService(mockRepo);
+  });
+
+  describe('create', () => {
+    it('should store only the hash of the issued token', async () => {
+      const { token, apiToken } = await service.create('agent', ['read', 'swap']);
+
+      expect(token).toMatch(/^jup_[1-9A-HJ-NP-Za-km-z]+$/);
+      expect(apiToken.tokenHash).toBe(hashApiToken(token));
+      expect(apiToken.tokenHash).not.toContain(token);
+      expect(apiToken.permissions).toEqual(['read', 'swap']);
+    });
+
+    it('should issue different tokens each time', async () => {
+      const first = await service.create('a', ['read']);
+      const second = await service.create('b', ['read']);
+
+      expect(first.token).not.toBe(second.token);
+    });
+
+    it('should refuse a duplicate name', async () => {
+      await service.create('agent', ['read']);
+
+      await expect(service.create('agent', ['read'])).rejects.toThrow(InvalidArgumentError);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the record of a valid token', async () => {
+      const { token } = await service.create('agent', ['read']);
+
+      const result = await service.authenticate(token);
+
+      expect(result?.name).toBe('agent');
+      expect(result?.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('should return null for unknown or malformed tokens', async () => {
+      await service.create('agent', ['read']);
+
+      expect(await service.authenticate('jup_unknown')).toBeNull();
+      expect(await service.authenticate('not-a-token')).toBeNull();
+      expect(mockRepo.findByHash).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not write lastUsedAt on every request', async () => {
+      const { token } = await service.create('agent', ['read']);
+      mockRepo.save.mockClear();
+
+      await service.authenticate(token);
+      await service.authenticate(token);
+
+      expect(mockRepo.save).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should delete the token by name', async () => {
+      const { apiToken } = await service.create('agent', ['read']);
+
+      await service.revoke('agent');
+
+      expect(mockRepo.delete).toHaveBeenCalledWith(apiToken.id);
+    });
+
+    it('should throw for an unknown name', async () => {
+      await expect(service.revoke('missing')).rejects.toThrow(ApiTokenNotFoundError);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Keypair,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  ComputeBudgetService,
+  PriorityFeeSettings,
+  computeUnitLimit,
+  estimatePriorityFee,
+} from '../../../src/application/services/trade/compute-budget.service';
+
+const owner = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+const table = Keypair.generate().publicKey;
+const blockhash = Keypair.generate().publicKey.toBase58();
+
+const AUTO: PriorityFeeSettings = {
+  mode: 'auto',
+  microLamports: 10_000,
+  percentile: 75,
+  maxMicroLamports: 1_000_000,
+  computeUnitMarginPct: 10,
+};
+
+/**
+ * Transfer as a builder would send it: its own budget instructions first,
+ * the recipient looked up through a table.
+ */
+function builtTransaction(): string {
+  const message = new TransactionMessage({
+    payerKey: owner,
+    recentBlockhash: blockhash,
+    instructions: [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 250_000 }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+      SystemProgram.transfer({ fromPubkey: owner, toPubkey: recipient, lamports: 1_000 }),
+    ],
+  }).compileToV0Message([
+    new AddressLookupTableAccount({
+      key: table,
+      state: {
+        deactivationSlot: BigInt('18446744073709551615'),
+        lastExtendedSlot: 0,
+        lastExtendedSlotStartIndex: 0,
+        addresses: [recipient],
+      },
+    }),
+  ]);
+  return Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+}
+
+function budgetOf(transaction: string): { limit?: number; price?: bigint; others: number } {
+  const decoded = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+  const keys = decoded.message.getAccountKeys({
+    accountKeysFromLookups: { writable: [recipient], readonly: [] },
+  });
+  const result: { limit?: number; price?: bigint; others: number } = { others: 0 };
+  for (const instruction of decoded.message.compiledInstructions) {
+    const data = Buffer.from(instruction.data);
+    if (!keys.get(instruction.programIdIndex)?.equals(ComputeBudgetProgram.programId)) {
+      result.others++;
+    } else if (data[0] === 2) {
+      expect(result.limit).toBeUndefined();
+      result.limit = data.readUInt32LE(1);
+    } else if (data[0] === 3) {
+      expect(result.price).toBeUndefined();
+      result.price = data.readBigUInt64LE(1);
+    }
+  }
+  return result;
+}
+
+describe('estimatePriorityFee', () => {
+  const fees = [0, 0, 100, 5_000, 20_000, 40_000, 80_000, 2_000_000];
+
+  it.each([
+    [50, 5_000],
+    [75, 40_000],
+    [90, 1_000_000], // Capped
+    [0, 0],
+  ])('should take percentile %p of recent fees', (percentile, expected) => {
+    expect(estimatePriorityFee(fees, { ...AUTO, percentile })).toBe(expected);
+  });
+
+  it('should use the fixed price, within the cap', () => {
+    expect(estimatePriorityFee(fees, { ...AUTO, mode: 'fixed' })).toBe(10_000);
+    expect(estimatePriorityFee([], { ...AUTO, mode: 'fixed', microLamports: 5_000_000 })).toBe(
+      1_000_000
+    );
+  });
+
+  it('should pay nothing extra without recent fees', () => {
+    expect(estimatePriorityFee([], AUTO)).toBe(0);
+  });
+});
+
+describe('computeUnitLimit', () => {
+  it('should add the margin and stay within the maximum', () => {
+    expect(computeUnitLimit(100_000, 10)).toBe(110_000);
+    expect(computeUnitLimit(1_300_000, 20)).toBe(1_400_000);
+  });
+});
+
+describe('ComputeBudgetService', () => {
+  const getLookupTableAddresses = jest.fn();
+  const simulateTransaction = jest.fn();
+  const getRecentPrioritizationFees = jest.fn();
+  const rpc = { getLookupTableAddresses, simulateTransaction, getRecentPrioritizationFees };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    getLookupTableAddresses.mockResolvedValue(
+      new Map([[table.toBase58(), [recipient.toBase58()]]])
+    );
+    getRecentPrioritizationFees.mockResolvedValue([1_000, 2_000, 3_000, 4_000]);
+    simulateTransaction.mockResolvedValue({
+      err: null,
+      logs: [],
+      unitsConsumed: 3_000,
+      accounts: [],
+    });
+  });
+
+  it('should replace the builder budget with the estimate and simulated limit', async () => {
+    const service = new ComputeBudgetService(rpc, AUTO);
+
+    const result = await service.apply(builtTransaction());
+
+    expect(getRecentPrioritizationFees).toHaveBeenCalledWith(
+      expect.arrayContaining([owner.toBase58(), recipient.toBase58()])
+    );
+    expect(budgetOf(simulateTransaction.mock.calls[0][0])).toMatchObject({ limit: 1_400_000 });
+    expect(result?.computeBudget).toEqual({
+      computeUnitLimit: 3_300,
+      microLamports: 3_000,
+      priorityFeeLamports: 10,
+      simulated: true,
+    });
+    expect(budgetOf(result?.transaction ?? '')).toEqual({ limit: 3_300, price: 3_000n, others: 1 });
+
+    const rebuilt = VersionedTransaction.deserialize(
+      Buffer.from(result?.transaction ?? '', 'base64')
+    );
+    expect(rebuilt.message.recentBlockhash).toBe(blockhash);
+    expect(rebuilt.message.addressTableLookups[0]?.accountKey.equals(table)).toBe(true);
+  });
+
+  it('should keep the builder limit when the simulation fails', async () => {
+    simulateTransaction.mockResolvedValue({
+      err: { InstructionError: [2, { Custom: 1 }] },
+      logs: [],
+      unitsConsumed: 900,
+      accounts: [],
+    });
+    const service = new ComputeBudgetService(rpc, { ...AUTO, mode: 'fixed' });
+
+    const result = await service.apply(builtTransaction());
+
+    expect(getRecentPrioritizationFees).not.toHaveBeenCalled();
+    expect(result?.computeBudget).toMatchObject({
+      computeUnitLimit: 250_000,
+      microLamports: 10_000,
+      simulated: false,
+    });
+  });
+
+  it('should leave the transaction alone when a lookup table is missing', async () => {
+    getLookupTableAddresses.mockResolvedValue(new Map());
+    const service = new ComputeBudgetService(rpc, AUTO);
+
+    await expect(service.apply(builtTransaction())).resolves.toBeNull();
+    expect(simulateTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,227 @@
+import { ConditionalOrderWatcherService } from '../../../src/application/services/order/conditional-order-watcher.service';
+import { SwapService } from '../../../src/application/services/trade/swap.service';
+import {
+  ConditionalOrder,
+  ConditionalOrderStatus,
+} from '../../../src/domain/entities/conditional-order.entity';
+import { ConditionalOrderRepository } from '../../../src/domain/repositories/conditional-order.repository';
+import { TransactionFailedError } from '../../../src/core/errors/transaction.errors';
+import { TokenAmount } from '../../../src/domain/values/token-amount';
+
+const solMint = 'So11111111111111111111111111111111111111112';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function createOrder(
+  id: string,
+  kind: ConditionalOrder['kind'],
+  options: ConstructorParameters<typeof ConditionalOrder>[7]
+): ConditionalOrder {
+  return new ConditionalOrder(id, 'wallet-1', kind, solMint, usdcMint, '1', 100, options);
+}
+
+function prices(solPrice: string) {
+  return {
+    data: { [solMint]: { id: solMint, type: 'derivedPrice', price: solPrice } },
+    timeTaken: 0,
+  };
+}
+
+describe('ConditionalOrderWatcherService', () => {
+  let orders: ConditionalOrder[];
+  let stored: Map<string, ConditionalOrderStatus>; // Status as the database has it
+  let repository: jest.Mocked<ConditionalOrderRepository>;
+  let priceApi: { getPricesV3: jest.Mock };
+  let swaps: { quote: jest.Mock; execute: jest.Mock };
+  let watcher: ConditionalOrderWatcherService;
+  const sessionKey = Buffer.alloc(32);
+  const quote = {
+    input: { symbol: 'SOL' },
+    output: { symbol: 'USDC' },
+    inputAmount: TokenAmount.parse('1', 9),
+    outputAmount: TokenAmount.parse('149.5', 6),
+  };
+
+  beforeEach(() => {
+    orders = [];
+    stored = new Map();
+    repository = {
+      findById: jest.fn(async (id) => orders.find((o) => o.id === id) ?? null),
+      findByStatus: jest.fn(async (statuses) => orders.filter((o) => statuses.includes(o.status))),
+      findByGroup: jest.fn(async (group) => orders.filter((o) => o.ocoGroupId === group)),
+      create: jest.fn(async (order) => order),
+      update: jest.fn(async (order, from) => {
+        if (stored.get(order.id) !== from) return false;
+        stored.set(order.id, order.status);
+        return true;
+      }),
+      addEvent: jest.fn(),
+      findEvents: jest.fn(),
+    };
+    priceApi = { getPricesV3: jest.fn() };
+    swaps = {
+      quote: jest.fn().mockResolvedValue(quote),
+      execute: jest.fn().mockResolvedValue({
+        quote,
+        succeeded: true,
+        executionStatus: 'Success',
+        signature: 'swap-sig',
+        confirmation: null,
+        attempts: 1,
+        recorded: true,
+      }),
+    };
+    watcher = new ConditionalOrderWatcherService(
+      repository,
+      priceApi,
+      swaps as unknown as SwapService,
+      sessionKey
+    );
+  });
+
+  function add(...added: ConditionalOrder[]): void {
+    for (const order of added) {
+      orders.push(order);
+      stored.set(order.id, order.status);
+    }
+  }
+
+  it('should not fetch prices without active orders', async () => {
+    const tick = await watcher.tick();
+
+    expect(tick).toEqual({ checked: 0, prices: {}, events: [] });
+    expect(priceApi.getPricesV3).not.toHaveBeenCalled();
+  });
+
+  it('should sell through Ultra when a stop-loss triggers', async () => {
+    const order = createOrder('stop', 'stop_loss', { triggerPrice: '150' });
+    add(order);
+    priceApi.getPricesV3.mockResolvedValue(prices('149.8'));
+
+    const tick = await watcher.tick();
+
+    expect(swaps.quote).toHaveBeenCalledWith({
+      wallet: 'wallet-1',
+      inputToken: solMint,
+      outputToken: usdcMint,
+      amount: '1',
+      slippageBps: 100,
+      engine: 'ultra',
+    });
+    expect(swaps.execute).toHaveBeenCalledWith(quote, sessionKey, { retries: 2 });
+    expect(order.status).toBe('executed');
+    expect(order.signature).toBe('swap-sig');
+    expect(tick.events.map((e) => e.type)).toEqual(['triggered', 'executed']);
+    expect(tick.events[1]?.message).toBe('Sold 1 SOL for 149.5 USDC');
+    expect(repository.addEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave orders whose condition is not met', async () => {
+    add(createOrder('stop', 'stop_loss', { triggerPrice: '150' }));
+    priceApi.getPricesV3.mockResolvedValue(prices('160'));
+
+    const tick = await watcher.tick();
+
+    expect(tick.checked).toBe(1);
+    expect(tick.prices).toEqual({ [solMint]: '160' });
+    expect(tick.events).toEqual([]);
+    expect(swaps.quote).not.toHaveBeenCalled();
+  });
+
+  it('should save a trailing stop that moved up', async () => {
+    const order = createOrder('trail', 'trailing_stop', { highestPrice: '200', trailPct: 10 });
+    add(order);
+    priceApi.getPricesV3.mockResolvedValue(prices('210'));
+
+    await watcher.tick();
+
+    expect(order.highestPrice).toBe('210');
+    expect(repository.update).toHaveBeenCalledWith(order, 'active');
+    expect(swaps.quote).not.toHaveBeenCalled();
+  });
+
+  it('should leave an order cancelled while the prices were fetched', async () => {
+    const order = createOrder('trail', 'trailing_stop', { highestPrice: '200', trailPct: 10 });
+    add(order);
+    priceApi.getPricesV3.mockImplementation(async () => {
+      stored.set('trail', 'cancelled');
+      return prices('170');
+    });
+
+    const tick = await watcher.tick();
+
+    expect(stored.get('trail')).toBe('cancelled');
+    expect(tick.events).toEqual([]);
+    expect(swaps.quote).not.toHaveBeenCalled();
+  });
+
+  it('should sell once when two watchers see the same trigger', async () => {
+    add(createOrder('stop', 'stop_loss', { triggerPrice: '150' }));
+    // Each watcher reads its own copy of the row
+    repository.findByStatus.mockImplementation(async () => [
+      createOrder('stop', 'stop_loss', { triggerPrice: '150' }),
+    ]);
+    priceApi.getPricesV3.mockResolvedValue(prices('140'));
+    const other = new ConditionalOrderWatcherService(
+      repository,
+      priceApi,
+      swaps as unknown as SwapService,
+      sessionKey
+    );
+
+    const ticks = await Promise.all([watcher.tick(), other.tick()]);
+
+    expect(swaps.execute).toHaveBeenCalledTimes(1);
+    expect(stored.get('stop')).toBe('executed');
+    expect(ticks.flatMap((t) => t.events.map((e) => e.type))).toEqual(['triggered', 'executed']);
+  });
+
+  it('should cancel the other orders of an OCO group', async () => {
+    const stop = createOrder('stop', 'stop_loss', { triggerPrice: '150', ocoGroupId: 'oco' });
+    const take = createOrder('take', 'take_profit', { triggerPrice: '220', ocoGroupId: 'oco' });
+    add(stop, take);
+    priceApi.getPricesV3.mockResolvedValue(prices('225'));
+
+    const tick = await watcher.tick();
+
+    expect(take.status).toBe('executed');
+    expect(stop.status).toBe('cancelled');
+    expect(tick.events.map((e) => [e.orderId, e.type])).toEqual([
+      ['take', 'triggered'],
+      ['stop', 'cancelled'],
+      ['take', 'executed'],
+    ]);
+    expect(swaps.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should mark the order failed and log the error when the swap fails', async () => {
+    const order = createOrder('stop', 'stop_loss', { triggerPrice: '150' });
+    add(order);
+    priceApi.getPricesV3.mockResolvedValue(prices('140'));
+    swaps.execute.mockRejectedValue(
+      new TransactionFailedError('slippage tolerance exceeded', {
+        signature: 'failed-sig',
+        code: 6001,
+        instruction: 2,
+        programId: null,
+        logs: [],
+        recorded: true,
+      })
+    );
+
+    const tick = await watcher.tick();
+
+    expect(order.status).toBe('failed');
+    expect(order.error).toContain('slippage tolerance exceeded');
+    expect(tick.events[1]).toMatchObject({ type: 'failed', signature: 'failed-sig' });
+  });
+
+  it('should skip orders without a price', async () => {
+    add(createOrder('stop', 'stop_loss', { triggerPrice: '150' }));
+    priceApi.getPricesV3.mockResolvedValue({ data: {}, timeTaken: 0 });
+
+    const tick = await watcher.tick();
+
+    expect(tick.events).toEqual([]);
+    expect(orders[0]?.status).toBe('active');
+  });
+});
@@ -0,0 +1,177 @@
+import { ConditionalOrderService } from '../../../src/application/services/order/conditional-order.service';
+import { WalletResolverService } from '../../../src/application/services/wallet/wallet-resolver.service';
+import { TokenInfoProvider } from '../../../src/application/services/token-info.service';
+import { ConditionalOrder } from '../../../src/domain/entities/conditional-order.entity';
+import { ConditionalOrderRepository } from '../../../src/domain/repositories/conditional-order.repository';
+import {
+  ConditionalOrderNotFoundError,
+  InvalidArgumentError,
+} from '../../../src/core/errors/cli.errors';
+import { InvalidAmountError } from '../../../src/core/errors/token.errors';
+
+const solMint = 'So11111111111111111111111111111111111111112';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const TOKENS = {
+  SOL: { mint: solMint, symbol: 'SOL', decimals: 9 },
+  USDC: { mint: usdcMint, symbol: 'USDC', decimals: 6 },
+};
+
+describe('ConditionalOrderService', () => {
+  let saved: ConditionalOrder[];
+  let repository: jest.Mocked<ConditionalOrderRepository>;
+  let service: ConditionalOrderService;
+
+  const request = {
+    wallet: 'Trading',
+    inputToken: 'SOL',
+    outputToken: 'USDC',
+    amount: '1.5',
+    slippageBps: 100,
+  };
+
+  beforeEach(() => {
+    saved = [];
+    repository = {
+      findById: jest.fn(async (id) => saved.find((o) => o.id === id) ?? null),
+      findByStatus: jest.fn(),
+      findByGroup: jest.fn(),
+      create: jest.fn(async (order) => {
+        saved = [...saved, order];
+        return order;
+      }),
+      update: jest.fn().mockResolvedValue(true),
+      addEvent: jest.fn(),
+      findEvents: jest.fn().mockResolvedValue([]),
+    };
+    const walletResolver = {
+      resolve: jest.fn().mockResolvedValue({ id: 'wallet-1', name: 'Trading' }),
+    } as unknown as WalletResolverService;
+    const tokenInfo = {
+      resolveToken: jest.fn(async (symbol: keyof typeof TOKENS) => TOKENS[symbol]),
+    } as unknown as TokenInfoProvider;
+    const priceApi = {
+      getPricesV3: jest.fn().mockResolvedValue({
+        data: { [solMint]: { id: solMint, type: 'derivedPrice', price: '180' } },
+        timeTaken: 0,
+      }),
+    };
+    service = new ConditionalOrderService(walletResolver, tokenInfo, priceApi, repository);
+  });
+
+  describe('add', () => {
+    it('should save a stop-loss and log its creation', async () => {
+      const created = await service.add({ ...request, stopLoss: '$150' });
+
+      expect(created.currentPrice.toString()).toBe('180');
+      expect(created.orders).toHaveLength(1);
+      expect(created.orders[0]).toMatchObject({
+        kind: 'stop_loss',
+        walletId: 'wallet-1',
+        inputMint: solMint,
+        outputMint: usdcMint,
+        amount: '1.5',
+        triggerPrice: '150',
+        ocoGroupId: undefined,
+        status: 'active',
+      });
+      expect(repository.addEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'created',
+          price: '180',
+          message: 'stop-loss when SOL ≤ $150, selling 1.5 SOL for USDC',
+        })
+      );
+    });
+
+    it('should group several conditions as OCO', async () => {
+      const created = await service.add({ ...request, stopLoss: '150', takeProfit: '220' });
+
+      const [stop, take] = created.orders;
+      expect(stop?.kind).toBe('stop_loss');
+      expect(take?.kind).toBe('take_profit');
+      expect(stop?.ocoGroupId).toBeDefined();
+      expect(take?.ocoGroupId).toBe(stop?.ocoGroupId);
+    });
+
+    it('should start a trailing stop at the current price', async () => {
+      const created = await service.add({ ...request, amount: '50%', trailPct: 10 });
+
+      expect(created.orders[0]?.highestPrice).toBe('180');
+      expect(created.orders[0]?.stopPrice.toString()).toBe('162');
+      expect(created.orders[0]?.amount).toBe('50%');
+    });
+
+    it.each([
+      [{}, 'Set a stop-loss, take-profit or trailing stop'],
+      [{ stopLoss: '190' }, 'Stop-loss $190 is not below the current SOL price $180'],
+      [{ takeProfit: '180' }, 'Take-profit $180 is not above the current SOL price $180'],
+      [{ stopLoss: 'cheap' }, 'Invalid stopLoss price "cheap"'],
+      [{ trailPct: 100 }, 'Trailing stop must be between 0 and 100 percent'],
+    ])('should refuse %p', async (conditions, message) => {
+      await expect(service.add({ ...request, ...conditions })).rejects.toThrow(
+        new InvalidArgumentError(message)
+      );
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an amount with more decimals than the token has', async () => {
+      await expect(
+        service.add({
+          ...request,
+          inputToken: 'USDC',
+          outputToken: 'SOL',
+          amount: '1.0000001',
+          stopLoss: '0.9',
+        })
+      ).rejects.toThrow(InvalidAmountError);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel an active order and log it', async () => {
+      const { orders } = await service.add({ ...request, stopLoss: '150' });
+
+      const cancelled = await service.cancel(orders[0]?.id ?? '');
+
+      expect(cancelled.status).toBe('cancelled');
+      expect(repository.addEvent).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: 'cancelled', message: 'Cancelled by the user' })
+      );
+    });
+
+    it('should refuse unknown and closed orders', async () => {
+      const { orders } = await service.add({ ...request, stopLoss: '150' });
+      const id = orders[0]?.id ?? '';
+      await service.cancel(id);
+
+      await expect(service.cancel('missing')).rejects.toThrow(ConditionalOrderNotFoundError);
+      await expect(service.cancel(id)).rejects.toThrow('Conditional order is cancelled');
+    });
+
+    it('should not overwrite an order the watcher triggered after it was read', async () => {
+      const { orders } = await service.add({ ...request, stopLoss: '150' });
+      const stored = orders[0];
+      const triggered = new ConditionalOrder(
+        stored?.id ?? '',
+        'wallet-1',
+        'stop_loss',
+        solMint,
+        usdcMint,
+        '1.5',
+        100,
+        { triggerPrice: '150', status: 'triggered' }
+      );
+      repository.update.mockResolvedValueOnce(false);
+      repository.findById.mockResolvedValueOnce(stored ?? null).mockResolvedValueOnce(triggered);
+
+      await expect(service.cancel(triggered.id)).rejects.toThrow(
+        'Conditional order is triggered, not active'
+      );
+      expect(repository.update).toHaveBeenCalledWith(stored, 'active');
+      expect(repository.addEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'cancelled' })
+      );
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { ConfirmationTrackerService } from '../../../src/application/services/trade/confirmation-tracker.service';
+import { SignatureStatus } from '../../../src/application/ports/blockchain.port';
+
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+function status(confirmationStatus: SignatureStatus['confirmationStatus'], err: unknown = null) {
+  return { slot: 300, err, confirmationStatus };
+}
+
+function parsedTransaction(err: unknown, logMessages: string[]) {
+  return {
+    slot: 300,
+    transaction: {
+      message: { accountKeys: [], instructions: [{ programId: JUPITER }] },
+      signatures: ['sig'],
+    },
+    meta: { err, fee: 5000, preBalances: [], postBalances: [], logMessages },
+    blockTime: null,
+  };
+}
+
+function token(amount: string) {
+  return { amount, decimals: 6, uiAmount: Number(amount) / 1e6 };
+}
+
+describe('ConfirmationTrackerService', () => {
+  const getSignatureStatus = jest.fn();
+  const isBlockhashValid = jest.fn();
+  const getBlockHeight = jest.fn();
+  const getParsedTransaction = jest.fn();
+  const rpc = {
+    getSignatureStatus,
+    isBlockhashValid,
+    getBlockHeight,
+    getParsedTransaction,
+    getSignaturesForAddress: jest.fn(),
+  };
+  const tracker = new ConfirmationTrackerService(rpc, { pollIntervalMs: 0, timeoutMs: 60_000 });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    isBlockhashValid.mockResolvedValue(true);
+    getParsedTransaction.mockResolvedValue(parsedTransaction(null, ['Program log: ok']));
+  });
+
+  it('should report each commitment until finalized', async () => {
+    getSignatureStatus
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(status('processed'))
+      .mockResolvedValueOnce(status('confirmed'))
+      .mockResolvedValueOnce(status('confirmed'))
+      .mockResolvedValueOnce(status('finalized'));
+    const resend = jest.fn().mockRejectedValue(new Error('already processed'));
+    const onProgress = jest.fn();
+
+    const outcome = await tracker.track('sig', { blockhash: 'hash', resend, onProgress });
+
+    expect(outcome).toEqual({
+      signature: 'sig',
+      outcome: 'finalized',
+      slot: 300,
+      error: null,
+      logs: ['Program log: ok'],
+    });
+    expect(onProgress.mock.calls.map(([p]) => p.stage)).toEqual([
+      'sent',
+      'processed',
+      'confirmed',
+      'finalized',
+    ]);
+    // Only while the transaction had not been seen
+    expect(resend).toHaveBeenCalledTimes(1);
+  });
+
+  it('should decode the error of a transaction that landed and failed', async () => {
+    const err = { InstructionError: [0, { Custom: 6001 }] };
+    getSignatureStatus.mockResolvedValue(status('confirmed', err));
+    getParsedTransaction.mockResolvedValue(
+      parsedTransaction(err, ['Program log: Error: Slippage'])
+    );
+
+    const outcome = await tracker.track('sig', { blockhash: 'hash' });
+
+    expect(outcome.outcome).toBe('failed');
+    expect(outcome.error?.message).toContain('slippage tolerance exceeded');
+    expect(outcome.logs).toEqual(['Program log: Error: Slippage']);
+  });
+
+  it('should report an expired blockhash when the transaction never landed', async () => {
+    getSignatureStatus.mockResolvedValue(null);
+    isBlockhashValid.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const outcome = await tracker.track('sig', { blockhash: 'hash' });
+
+    expect(outcome).toMatchObject({ outcome: 'expired', slot: null, error: null });
+    expect(isBlockhashValid).toHaveBeenCalledWith('hash');
+    expect(getParsedTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should keep polling a transaction not seen yet while its blockhash is fresh', async () => {
+    getSignatureStatus
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue(status('finalized'));
+    const resend = jest.fn().mockResolvedValue(undefined);
+
+    const outcome = await tracker.track('sig', { blockhash: 'hash', resend });
+
+    expect(outcome.outcome).toBe('finalized');
+    expect(resend).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expire only past the last valid block height when it is known', async () => {
+    getSignatureStatus.mockResolvedValue(null);
+    getBlockHeight.mockResolvedValueOnce(1_000).mockResolvedValueOnce(1_001);
+
+    const outcome = await tracker.track('sig', { blockhash: 'hash', lastValidBlockHeight: 1_000 });
+
+    expect(outcome.outcome).toBe('expired');
+    expect(getBlockHeight).toHaveBeenCalledTimes(2);
+    expect(isBlockhashValid).not.toHaveBeenCalled();
+  });
+
+  it('should keep tracking a transaction that landed as the blockhash expired', async () => {
+    getSignatureStatus
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(status('confirmed'))
+      .mockResolvedValue(status('finalized'));
+    isBlockhashValid.mockResolvedValue(false);
+
+    const outcome = await tracker.track('sig', { blockhash: 'hash' });
+
+    expect(outcome.outcome).toBe('finalized');
+  });
+
+  it('should give up with the last commitment seen', async () => {
+    const impatient = new ConfirmationTrackerService(rpc, { pollIntervalMs: 0, timeoutMs: 0 });
+    getSignatureStatus.mockResolvedValue(status('processed'));
+
+    const outcome = await impatient.track('sig', { blockhash: 'hash' });
+
+    expect(outcome.outcome).toBe('processed');
+  });
+
+  it('should return null for signatures the cluster has no record of', async () => {
+    getSignatureStatus.mockResolvedValue(null);
+
+    await expect(tracker.lookup('sig')).resolves.toBeNull();
+  });
+
+  it('should read the balance changes of the wallet, without the fee', async () => {
+    const usdc = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    const transaction = parsedTransaction(null, []);
+    getParsedTransaction.mockResolvedValue({
+      ...transaction,
+      transaction: {
+        ...transaction.transaction,
+        message: {
+          ...transaction.transaction.message,
+          accountKeys: [{ pubkey: 'wallet', signer: true, writable: true }],
+        },
+      },
+      meta: {
+        ...transaction.meta,
+        preBalances: [2_000_000_000],
+        postBalances: [1_489_995_000],
+        preTokenBalances: [
+          { accountIndex: 1, mint: usdc, owner: 'wallet', uiTokenAmount: token('0') },
+        ],
+        postTokenBalances: [
+          { accountIndex: 1, mint: usdc, owner: 'wallet', uiTokenAmount: token('100000000') },
+        ],
+      },
+    });
+
+    await expect(tracker.getBalanceChanges('sig', 'wallet')).resolves.toEqual([
+      { mint: 'So11111111111111111111111111111111111111112', amount: '-510000000', decimals: 9 },
+      { mint: usdc, amount: '100000000', decimals: 6 },
+    ]);
+    getParsedTransaction.mockResolvedValue(null);
+    await expect(tracker.getBalanceChanges('sig', 'wallet')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import Big from 'big.js';
+import {
+  LimitOrderService,
+  ladderPrices,
+} from '../../../src/application/services/order/limit-order.service';
+import { AmountResolverService } from '../../../src/application/services/trade/amount-resolver.service';
+import { WalletResolverService } from '../../../src/application/services/wallet/wallet-resolver.service';
+import { WalletSignerService } from '../../../src/application/services/wallet/wallet-signer.service';
+import { RiskPolicyService } from '../../../src/application/services/risk/risk-policy.service';
+import { TransactionInspectorService } from '../../../src/application/services/security/transaction-inspector.service';
+import { TokenInfoProvider } from '../../../src/application/services/token-info.service';
+import { TriggerApiService } from '../../../src/infrastructure/jupiter-api/trigger/trigger-api.service';
+import { JupiterApiError } from '../../../src/core/errors/api.errors';
+import { RiskPolicyViolationError } from '../../../src/core/errors/risk.errors';
+import { TokenAmount } from '../../../src/domain/values/token-amount';
+
+const solMint = 'So11111111111111111111111111111111111111112';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+describe('ladderPrices', () => {
+  it('should space linear rungs evenly, both ends included', () => {
+    const prices = ladderPrices(new Big(180), new Big(220), 5, 'linear');
+
+    expect(prices.map((p) => p.toNumber())).toEqual([180, 190, 200, 210, 220]);
+  });
+
+  it('should keep geometric rungs a constant ratio apart', () => {
+    const prices = ladderPrices(new Big(100), new Big(400), 3, 'geometric');
+
+    expect(prices.map((p) => p.toNumber())).toEqual([100, 200, 400]);
+  });
+
+  it('should run downwards when the range does', () => {
+    const prices = ladderPrices(new Big(220), new Big(180), 3, 'linear');
+
+    expect(prices.map((p) => p.toNumber())).toEqual([220, 200, 180]);
+  });
+});
+
+describe('LimitOrderService ladders', () => {
+  let service: LimitOrderService;
+  let triggerApi: { createOrder: jest.Mock; execute: jest.Mock };
+  let riskPolicy: { check: jest.Mock; enforce: jest.Mock; recordCommitment: jest.Mock };
+  const sessionKey = Buffer.alloc(32);
+  const request = {
+    wallet: '1',
+    inputToken: 'SOL',
+    outputToken: 'USDC',
+    amount: '10',
+    fromPrice: '180',
+    toPrice: '220',
+    steps: 8,
+    distribution: 'linear' as const,
+  };
+
+  beforeEach(() => {
+    let created = 0;
+    triggerApi = {
+      createOrder: jest.fn(async () => {
+        created++;
+        return { order: `order-${created}`, requestId: `req-${created}`, transaction: 'unsigned' };
+      }),
+      execute: jest.fn().mockResolvedValue({ signature: 'sig', status: 'Success' }),
+    };
+    riskPolicy = {
+      check: jest.fn().mockResolvedValue([]),
+      enforce: jest.fn(),
+      recordCommitment: jest.fn(),
+    };
+    const tokenInfoProvider = {
+      resolveToken: jest.fn(async (token: string) =>
+        token === 'SOL'
+          ? { mint: solMint, symbol: 'SOL', decimals: 9 }
+          : { mint: usdcMint, symbol: 'USDC', decimals: 6 }
+      ),
+    };
+    const amountResolver = {
+      resolve: jest.fn(async (expression: string) => ({
+        amount: TokenAmount.parse(expression, 9),
+        basis: null,
+      })),
+    };
+    service = new LimitOrderService(
+      {
+        resolve: jest.fn().mockResolvedValue({ id: 'wallet-1', address: 'wallet-address' }),
+      } as unknown as WalletResolverService,
+      tokenInfoProvider as unknown as TokenInfoProvider,
+      triggerApi as unknown as TriggerApiService,
+      riskPolicy as unknown as RiskPolicyService,
+      { inspect: jest.fn(), verify: jest.fn() } as unknown as TransactionInspectorService,
+      amountResolver as unknown as AmountResolverService,
+      {
+        signTransaction: jest.fn().mockResolvedValue('signed'),
+      } as unknown as WalletSignerService
+    );
+  });
+
+  it('should split the amount equally over the rungs', async () => {
+    const ladder = await service.prepareLadder(request);
+
+    expect(ladder.rungs).toHaveLength(8);
+    expect(ladder.rungs.map((r) => r.amount)).toEqual(Array(8).fill('1.25'));
+    expect(ladder.rungs[0]?.targetPrice).toBe(180);
+    expect(ladder.rungs[0]?.outputAmount.toString()).toBe('225');
+    expect(ladder.rungs[7]?.takingAmount).toBe('275000000');
+  });
+
+  it('should give the remainder of an uneven split to the last rung', async () => {
+    const ladder = await service.prepareLadder({ ...request, amount: '1', steps: 3 });
+
+    const raws = ladder.rungs.map((r) => r.inputAmount.raw);
+    expect(raws).toEqual([333333333n, 333333333n, 333333334n]);
+  });
+
+  it('should refuse a single step and equal prices', async () => {
+    await expect(service.prepareLadder({ ...request, steps: 1 })).rejects.toThrow(
+      'at least 2 steps'
+    );
+    await expect(service.prepareLadder({ ...request, toPrice: '180' })).rejects.toThrow(
+      'positive and different'
+    );
+  });
+
+  it('should keep the rungs created before and after one that fails', async () => {
+    triggerApi.createOrder.mockImplementationOnce(async () => ({
+      order: 'order-a',
+      requestId: 'req-a',
+      transaction: 'unsigned',
+    }));
+    triggerApi.createOrder.mockImplementationOnce(async () => {
+      throw new JupiterApiError('Order too small', 400);
+    });
+    const ladder = await service.prepareLadder({ ...request, steps: 3 });
+    const seen: number[] = [];
+
+    const results = await service.createLadder(ladder, sessionKey, (r) => seen.push(r.index));
+
+    expect(results.map((r) => r.status)).toEqual(['created', 'failed', 'created']);
+    expect(results[1]?.status === 'failed' && results[1].error.message).toBe('Order too small');
+    expect(results[0]?.status === 'created' && results[0].created.orderId).toBe('order-a');
+    expect(seen).toEqual([0, 1, 2]);
+    expect(riskPolicy.enforce).toHaveBeenCalledTimes(3);
+    expect(triggerApi.execute).toHaveBeenCalledTimes(2);
+    expect(riskPolicy.recordCommitment.mock.calls.map((c) => c[2])).toEqual(['order-a', 'order-1']);
+  });
+
+  it('should check USD limits against the whole ladder, then each rung in turn', async () => {
+    const ladder = await service.prepareLadder({ ...request, steps: 2 });
+    const perDay = {
+      rule: 'max-usd-per-day' as const,
+      message: '$2000.00 traded in 24 hours would exceed the $1000 daily limit',
+    };
+    let running = 0;
+    let overlapped = false;
+    riskPolicy.check.mockImplementation(async (check: { inputAmount: TokenAmount }) => {
+      overlapped ||= running > 0;
+      running++;
+      await Promise.resolve();
+      running--;
+      return check.inputAmount.toString() === '10'
+        ? [perDay]
+        : [{ rule: 'max-usd-per-day', message: 'rung' }];
+    });
+
+    const violations = await service.checkLadderPolicy(ladder);
+
+    expect(violations).toEqual([perDay]);
+    expect(riskPolicy.check.mock.calls[0]?.[0].outputAmount.toString()).toBe('2000');
+    expect(riskPolicy.check).toHaveBeenCalledTimes(3);
+    expect(overlapped).toBe(false);
+  });
+
+  it('should create no rung when the whole ladder breaks the policy', async () => {
+    riskPolicy.check.mockResolvedValueOnce([{ rule: 'max-usd-per-trade', message: 'too large' }]);
+    const ladder = await service.prepareLadder({ ...request, steps: 3 });
+
+    await expect(service.createLadder(ladder, sessionKey)).rejects.toThrow(
+      RiskPolicyViolationError
+    );
+    expect(triggerApi.createOrder).not.toHaveBeenCalled();
+  });
+});
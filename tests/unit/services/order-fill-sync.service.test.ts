@@ -0,0 +1,192 @@
+import { OrderFillSyncService } from '../../../src/application/services/order/order-fill-sync.service';
+import { TradeService } from '../../../src/application/services/trade/trade.service';
+import { TokenInfoProvider } from '../../../src/application/services/token-info.service';
+import { TriggerApiService } from '../../../src/infrastructure/jupiter-api/trigger/trigger-api.service';
+import {
+  GetOrdersResponse,
+  TriggerOrder,
+  TriggerOrderTrade,
+} from '../../../src/infrastructure/jupiter-api/trigger/trigger.types';
+import { TradeRepository } from '../../../src/domain/repositories/trade.repository';
+import { SyncCursorRepository } from '../../../src/domain/repositories/sync-cursor.repository';
+import { SyncCursor } from '../../../src/domain/entities/sync-cursor.entity';
+import { Trade } from '../../../src/domain/entities/trade.entity';
+
+const solMint = 'So11111111111111111111111111111111111111112';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function createFill(overrides: Partial<TriggerOrderTrade> = {}): TriggerOrderTrade {
+  return {
+    orderKey: 'order-1',
+    inputMint: solMint,
+    outputMint: usdcMint,
+    inputAmount: '0.5',
+    outputAmount: '100',
+    txId: 'fill-sig-1',
+    confirmedAt: '2026-10-01T10:00:00.000Z',
+    action: 'Fill',
+    ...overrides,
+  };
+}
+
+function createOrder(trades: TriggerOrderTrade[], overrides: Partial<TriggerOrder> = {}) {
+  return {
+    orderKey: 'order-1',
+    maker: 'wallet-address',
+    inputMint: solMint,
+    outputMint: usdcMint,
+    makingAmount: '1',
+    takingAmount: '200',
+    expiredAt: null,
+    createdAt: '2026-09-30T10:00:00.000Z',
+    updatedAt: trades[trades.length - 1]?.confirmedAt,
+    status: 'filled',
+    trades,
+    ...overrides,
+  } as TriggerOrder;
+}
+
+function page(orders: TriggerOrder[], hasMoreData = false): GetOrdersResponse {
+  return { orders, hasMoreData } as GetOrdersResponse;
+}
+
+describe('OrderFillSyncService', () => {
+  let service: OrderFillSyncService;
+  let triggerApi: { getOrders: jest.Mock };
+  let tradeRepo: jest.Mocked<TradeRepository>;
+  let cursorRepo: jest.Mocked<SyncCursorRepository>;
+  let tokenInfo: jest.Mocked<TokenInfoProvider>;
+  let recorded: Trade[];
+
+  beforeEach(() => {
+    recorded = [];
+    triggerApi = { getOrders: jest.fn() };
+    tradeRepo = {
+      create: jest.fn().mockImplementation(async (trade: Trade) => {
+        recorded.push(trade);
+        return trade;
+      }),
+      update: jest.fn(),
+      findById: jest.fn(),
+      findBySignature: jest
+        .fn()
+        .mockImplementation(async (sig: string) => recorded.filter((t) => t.signature === sig)),
+      findByWallet: jest.fn(),
+      countByWallet: jest.fn(),
+    };
+    cursorRepo = {
+      find: jest.fn().mockResolvedValue(null),
+      save: jest.fn().mockImplementation(async (cursor: SyncCursor) => cursor),
+    };
+    tokenInfo = {
+      getTokenInfo: jest.fn(),
+      getTokenInfoBatch: jest.fn().mockResolvedValue(
+        new Map([
+          [solMint, { address: solMint, symbol: 'SOL', name: 'Solana', decimals: 9 }],
+          [usdcMint, { address: usdcMint, symbol: 'USDC', name: 'USD Coin', decimals: 6 }],
+        ])
+      ),
+      resolveToken: jest.fn(),
+    } as unknown as jest.Mocked<TokenInfoProvider>;
+
+    const tradeService = new TradeService(tradeRepo, { getPrice: jest.fn() });
+    service = new OrderFillSyncService(
+      triggerApi as unknown as TriggerApiService,
+      tradeService,
+      cursorRepo,
+      tokenInfo
+    );
+  });
+
+  it('should record partial fills of active orders and fills of closed orders', async () => {
+    const partial = createFill({ orderKey: 'order-2', txId: 'partial-sig' });
+    triggerApi.getOrders
+      .mockResolvedValueOnce(page([createOrder([partial], { status: 'active' })]))
+      .mockResolvedValueOnce(page([createOrder([createFill()])]));
+
+    const result = await service.syncFills('wallet-1', 'wallet-address');
+
+    expect(result.recorded).toHaveLength(2);
+    expect(result.ordersScanned).toBe(2);
+    const [trade] = result.recorded;
+    expect(trade?.type).toBe('limit_order');
+    expect(trade?.inputAmount).toBe('500000000');
+    expect(trade?.outputAmount).toBe('100000000');
+    expect(trade?.executedAt.toISOString()).toBe('2026-10-01T10:00:00.000Z');
+    // Priced from the fill ratio, not from current prices
+    expect(trade?.inputUsdPrice).toBe('200');
+  });
+
+  it('should prefer raw amounts when the API provides them', async () => {
+    const fill = createFill({ rawInputAmount: '500000001', rawOutputAmount: '100000002' });
+    triggerApi.getOrders
+      .mockResolvedValueOnce(page([]))
+      .mockResolvedValueOnce(page([createOrder([fill])]));
+
+    const result = await service.syncFills('wallet-1', 'wallet-address');
+
+    expect(result.recorded[0]?.inputAmount).toBe('500000001');
+    expect(result.recorded[0]?.outputAmount).toBe('100000002');
+  });
+
+  it('should ignore non-fill actions and already recorded fills', async () => {
+    const fills = [createFill(), createFill({ txId: 'cancel-sig', action: 'Cancel' })];
+    triggerApi.getOrders.mockImplementation(async (_address: string, status: string) =>
+      page(status === 'history' ? [createOrder(fills)] : [])
+    );
+
+    await service.syncFills('wallet-1', 'wallet-address');
+    const second = await service.syncFills('wallet-1', 'wallet-address');
+
+    expect(recorded).toHaveLength(1);
+    expect(second.recorded).toHaveLength(0);
+    expect(second.duplicates).toBe(1);
+  });
+
+  it('should advance the cursor to the newest fill', async () => {
+    triggerApi.getOrders
+      .mockResolvedValueOnce(page([]))
+      .mockResolvedValueOnce(
+        page([
+          createOrder([
+            createFill({ txId: 'a', confirmedAt: '2026-10-02T00:00:00.000Z' }),
+            createFill({ txId: 'b', confirmedAt: '2026-10-01T00:00:00.000Z' }),
+          ]),
+        ])
+      );
+
+    await service.syncFills('wallet-1', 'wallet-address');
+
+    const saved = cursorRepo.save.mock.calls[0]?.[0];
+    expect(saved?.source).toBe('trigger_orders');
+    expect(saved?.cursor).toBe('2026-10-02T00:00:00.000Z');
+  });
+
+  it('should stop paging history once a page predates the cursor', async () => {
+    cursorRepo.find.mockResolvedValueOnce(
+      new SyncCursor('wallet-1', 'trigger_orders', '2026-10-05T00:00:00.000Z')
+    );
+    const oldFill = createFill({ confirmedAt: '2026-09-01T00:00:00.000Z' });
+    triggerApi.getOrders
+      .mockResolvedValueOnce(page([]))
+      .mockResolvedValueOnce(page([createOrder([oldFill])], true));
+
+    const result = await service.syncFills('wallet-1', 'wallet-address');
+
+    expect(triggerApi.getOrders).toHaveBeenCalledTimes(2);
+    expect(result.recorded).toHaveLength(0);
+    expect(result.lastSyncedAt?.toISOString()).toBe('2026-10-05T00:00:00.000Z');
+  });
+
+  it('should skip fills for tokens with unknown decimals', async () => {
+    tokenInfo.getTokenInfoBatch.mockResolvedValueOnce(new Map());
+    triggerApi.getOrders
+      .mockResolvedValueOnce(page([]))
+      .mockResolvedValueOnce(page([createOrder([createFill()])]));
+
+    const result = await service.syncFills('wallet-1', 'wallet-address');
+
+    expect(result.skipped).toBe(1);
+    expect(tradeRepo.create).not.toHaveBeenCalled();
+  });
+});
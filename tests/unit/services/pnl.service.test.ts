@@ -0,0 +1,608 @@
+import { PnLService, TokenCost } from '../../../src/application/services/pnl/pnl.service';
+import { PriceProvider } from '../../../src/application/services/wallet/wallet-sync.service';
+import { SolanaRpcPort } from '../../../src/application/ports/blockchain.port';
+import { TradeRepository } from '../../../src/domain/repositories/trade.repository';
+import { Trade } from '../../../src/domain/entities/trade.entity';
+import { WalletActivity } from '../../../src/domain/entities/wallet-activity.entity';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const DECIMALS: Record<string, number> = { [SOL]: 9, [USDC]: 6, [USDT]: 6, [BONK]: 5 };
+
+let tradeSeq = 0;
+
+function toRaw(amount: string, decimals: number): string {
+  const [whole = '0', fraction = ''] = amount.split('.');
+  return (
+    BigInt(whole) * 10n ** BigInt(decimals) +
+    BigInt(fraction.padEnd(decimals, '0') || '0')
+  ).toString();
+}
+
+/**
+ * Build a trade from human-readable amounts and USD values.
+ */
+function createTrade(
+  inputMint: string,
+  inputAmount: string,
+  outputMint: string,
+  outputAmount: string,
+  usd: { input?: string; output?: string },
+  executedAt: Date = new Date(Date.UTC(2026, 0, 1, 0, tradeSeq))
+): Trade {
+  tradeSeq++;
+  const inputDecimals = DECIMALS[inputMint] ?? 9;
+  const outputDecimals = DECIMALS[outputMint] ?? 9;
+  return new Trade(
+    `trade-${tradeSeq}`,
+    'wallet-1',
+    'swap',
+    inputMint,
+    outputMint,
+    toRaw(inputAmount, inputDecimals),
+    toRaw(outputAmount, outputDecimals),
+    inputDecimals,
+    outputDecimals,
+    `sig-${tradeSeq}`,
+    { inputUsdValue: usd.input, outputUsdValue: usd.output, executedAt }
+  );
+}
+
+/** Buy `amount` SOL for `usd` USDC. */
+function buySol(amount: string, usd: string, executedAt?: Date): Trade {
+  return createTrade(USDC, usd, SOL, amount, { input: usd, output: usd }, executedAt);
+}
+
+/** Sell `amount` SOL for `usd` USDC. */
+function sellSol(amount: string, usd: string, executedAt?: Date): Trade {
+  return createTrade(SOL, amount, USDC, usd, { input: usd, output: usd }, executedAt);
+}
+
+function createMockTradeRepository(trades: Trade[] = []): jest.Mocked<TradeRepository> {
+  return {
+    create: jest.fn(),
+    update: jest.fn(),
+    findById: jest.fn(),
+    findBySignature: jest.fn().mockResolvedValue([]),
+    findByWallet: jest.fn().mockResolvedValue(trades),
+    countByWallet: jest.fn().mockResolvedValue(trades.length),
+  };
+}
+
+function createMockRpc(): jest.Mocked<SolanaRpcPort> {
+  return {
+    getTokenAccounts: jest.fn().mockResolvedValue({ address: 'addr', solBalance: 0, tokens: [] }),
+  };
+}
+
+function createMockPriceProvider(prices: Record<string, number> = {}): jest.Mocked<PriceProvider> {
+  return {
+    getPrice: jest
+      .fn()
+      .mockImplementation(async (mints: string[]) =>
+        mints
+          .filter((m) => prices[m] !== undefined)
+          .map((m) => ({ mint: m, price: prices[m] as number, timestamp: new Date() }))
+      ),
+  };
+}
+
+function costOf(costs: Map<string, TokenCost>, mint: string): TokenCost {
+  const cost = costs.get(mint);
+  if (!cost) throw new Error(`No cost for ${mint}`);
+  return cost;
+}
+
+describe('PnLService', () => {
+  let service: PnLService;
+
+  beforeEach(() => {
+    service = new PnLService(
+      createMockTradeRepository(),
+      createMockRpc(),
+      createMockPriceProvider()
+    );
+  });
+
+  describe('calculateCostByMint', () => {
+    describe('acquisitions only', () => {
+      it('should calculate cost for a single buy', () => {
+        const costs = service.calculateCostByMint([buySol('10', '1000')]);
+        const sol = costOf(costs, SOL);
+
+        expect(sol.totalAcquired.toString()).toBe('10');
+        expect(sol.remainingAmount.toString()).toBe('10');
+        expect(sol.remainingCost.toString()).toBe('1000');
+        expect(sol.realizedPnl.toString()).toBe('0');
+      });
+
+      it('should average cost across multiple buys', () => {
+        const costs = service.calculateCostByMint([buySol('10', '1000'), buySol('5', '1000')]);
+        const sol = costOf(costs, SOL);
+
+        expect(sol.remainingAmount.toString()).toBe('15');
+        expect(sol.remainingCost.toString()).toBe('2000');
+        expect(sol.remainingCost.div(sol.remainingAmount).toFixed(2)).toBe('133.33');
+      });
+
+      it('should handle dust amounts without precision loss', () => {
+        const costs = service.calculateCostByMint([
+          buySol('0.000000001', '0.0000002'),
+          buySol('0.000000002', '0.0000004'),
+        ]);
+
+        expect(costOf(costs, SOL).remainingAmount.toString()).toBe('3e-9');
+        expect(costOf(costs, SOL).remainingCost.toString()).toBe('6e-7');
+      });
+    });
+
+    describe('disposals', () => {
+      it('should reduce cost proportionally on partial sell (PLAN C8 example)', () => {
+        const costs = service.calculateCostByMint([
+          buySol('10', '1000'),
+          buySol('5', '1000'),
+          sellSol('10', '1800'),
+        ]);
+        const sol = costOf(costs, SOL);
+
+        expect(sol.remainingAmount.toString()).toBe('5');
+        expect(sol.remainingCost.toFixed(2)).toBe('666.67');
+        expect(sol.realizedPnl.toFixed(2)).toBe('466.67');
+        expect(sol.totalDisposed.toString()).toBe('10');
+      });
+
+      it('should reduce cost to zero on full sell', () => {
+        const costs = service.calculateCostByMint([buySol('10', '1000'), sellSol('10', '800')]);
+        const sol = costOf(costs, SOL);
+
+        expect(sol.remainingAmount.toString()).toBe('0');
+        expect(sol.remainingCost.toString()).toBe('0');
+        expect(sol.realizedPnl.toString()).toBe('-200');
+      });
+
+      it('should handle multiple partial sells', () => {
+        const costs = service.calculateCostByMint([
+          buySol('10', '1000'),
+          sellSol('2', '300'),
+          sellSol('3', '240'),
+        ]);
+        const sol = costOf(costs, SOL);
+
+        expect(sol.remainingAmount.toString()).toBe('5');
+        expect(sol.remainingCost.toString()).toBe('500');
+        expect(sol.realizedPnl.toString()).toBe('40');
+      });
+
+      it('should restart average after selling the whole position', () => {
+        const costs = service.calculateCostByMint([
+          buySol('1', '100'),
+          sellSol('1', '150'),
+          buySol('2', '400'),
+        ]);
+        const sol = costOf(costs, SOL);
+
+        expect(sol.realizedPnl.toString()).toBe('50');
+        expect(sol.remainingCost.div(sol.remainingAmount).toString()).toBe('200');
+      });
+
+      it('should leave units sold without prior acquisition out of realized PnL', () => {
+        const costs = service.calculateCostByMint([sellSol('1', '150')]);
+        const sol = costOf(costs, SOL);
+
+        expect(sol.realizedPnl.toString()).toBe('0');
+        expect(sol.untrackedDisposed.toString()).toBe('1');
+        expect(sol.remainingAmount.toString()).toBe('0');
+      });
+    });
+
+    describe('multiple tokens', () => {
+      it('should update both sides of a non-stablecoin swap', () => {
+        const costs = service.calculateCostByMint([
+          buySol('10', '1000'),
+          createTrade(SOL, '5', BONK, '25000000', { input: '900', output: '900' }),
+        ]);
+
+        expect(costOf(costs, SOL).realizedPnl.toString()).toBe('400');
+        expect(costOf(costs, BONK).remainingCost.toString()).toBe('900');
+      });
+
+      it('should handle a USDC → SOL → BONK → USDC chain', () => {
+        const costs = service.calculateCostByMint([
+          buySol('1', '100'),
+          createTrade(SOL, '1', BONK, '1000000', { input: '150', output: '150' }),
+          createTrade(BONK, '1000000', USDC, '120', { input: '120', output: '120' }),
+        ]);
+
+        expect(costOf(costs, SOL).realizedPnl.toString()).toBe('50');
+        expect(costOf(costs, BONK).realizedPnl.toString()).toBe('-30');
+        expect(costOf(costs, USDC).realizedPnl.toString()).toBe('0');
+      });
+    });
+
+    describe('stablecoins and missing prices', () => {
+      it('should not generate PnL for USDC ↔ USDT swaps', () => {
+        const costs = service.calculateCostByMint([
+          createTrade(USDC, '100', USDT, '99.9', { input: '100.2', output: '99.7' }),
+          createTrade(USDT, '99.9', USDC, '99.9', {}),
+        ]);
+
+        expect(costOf(costs, USDC).realizedPnl.toString()).toBe('0');
+        expect(costOf(costs, USDT).realizedPnl.toString()).toBe('0');
+      });
+
+      it('should derive a missing USD value from the stablecoin side', () => {
+        const costs = service.calculateCostByMint([
+          createTrade(USDC, '180', SOL, '1', { input: undefined, output: undefined }),
+        ]);
+
+        expect(costOf(costs, SOL).remainingCost.toString()).toBe('180');
+      });
+
+      it('should skip trades without any USD value', () => {
+        const costs = service.calculateCostByMint([createTrade(SOL, '1', BONK, '1000000', {})]);
+
+        expect(costs.size).toBe(0);
+      });
+    });
+
+    describe('order of operations', () => {
+      it('should process trades chronologically regardless of input order', () => {
+        const buy = buySol('1', '100', new Date('2026-01-01'));
+        const sell = sellSol('1', '150', new Date('2026-01-02'));
+
+        const costs = service.calculateCostByMint([sell, buy]);
+
+        expect(costOf(costs, SOL).realizedPnl.toString()).toBe('50');
+      });
+
+      it('should ignore pending and failed trades', () => {
+        const pending = buySol('1', '100');
+        pending.updateStatus('pending');
+
+        expect(service.calculateCostByMint([pending]).size).toBe(0);
+      });
+    });
+
+    describe('withdrawals', () => {
+      const withdrawSol = (amount: string, at: Date) =>
+        new WalletActivity('activity-1', 'wallet-1', 'sig-out', 'transfer_out', 1, at, [
+          { mint: SOL, amount: `-${toRaw(amount, 9)}`, decimals: 9 },
+        ]);
+
+      it('should remove withdrawn units at cost without realizing PnL', () => {
+        const buy = buySol('2', '200', new Date('2026-01-01'));
+        const withdrawal = withdrawSol('1', new Date('2026-01-02'));
+
+        const cost = costOf(service.calculateCostByMint([buy], 'average', [withdrawal]), SOL);
+
+        expect(cost.remainingAmount.toString()).toBe('1');
+        expect(cost.remainingCost.toString()).toBe('100');
+        expect(cost.realizedPnl.toString()).toBe('0');
+      });
+
+      it('should ignore withdrawals of untracked tokens and those before any buy', () => {
+        const withdrawal = withdrawSol('1', new Date('2026-01-01'));
+        const buy = buySol('1', '100', new Date('2026-01-02'));
+
+        expect(service.calculateCostByMint([], 'average', [withdrawal]).size).toBe(0);
+        expect(
+          costOf(
+            service.calculateCostByMint([buy], 'average', [withdrawal]),
+            SOL
+          ).remainingAmount.toString()
+        ).toBe('1');
+      });
+    });
+
+    describe('deposits', () => {
+      const depositSol = (amount: string, at: Date) =>
+        new WalletActivity('activity-2', 'wallet-1', 'sig-in', 'transfer_in', 1, at, [
+          { mint: SOL, amount: toRaw(amount, 9), decimals: 9 },
+        ]);
+      const trades = () => [
+        buySol('1', '100', new Date('2026-01-02')),
+        sellSol('1', '150', new Date('2026-01-03')),
+      ];
+
+      it('should sell deposited units first-in without realizing a gain on them', () => {
+        const deposit = depositSol('1', new Date('2026-01-01'));
+
+        const disposals = service.calculateDisposals(trades(), 'fifo', [deposit]);
+        const cost = costOf(service.calculateCostByMint(trades(), 'fifo', [deposit]), SOL);
+
+        expect(disposals).toHaveLength(1);
+        expect(disposals[0]?.costBasis).toBeNull();
+        expect(disposals[0]?.acquiredAt).toEqual(new Date('2026-01-01'));
+        expect(cost.realizedPnl.toString()).toBe('0');
+        expect(cost.untrackedDisposed.toString()).toBe('1');
+        expect(cost.remainingAmount.toString()).toBe('1');
+        expect(cost.remainingCost.toString()).toBe('100');
+      });
+
+      it('should sell deposited and bought units in proportion with cost average', () => {
+        const deposit = depositSol('1', new Date('2026-01-01'));
+
+        const cost = costOf(service.calculateCostByMint(trades(), 'average', [deposit]), SOL);
+
+        expect(cost.realizedPnl.toString()).toBe('25');
+        expect(cost.untrackedDisposed.toString()).toBe('0.5');
+        expect(cost.remainingAmount.toString()).toBe('0.5');
+        expect(cost.remainingCost.toString()).toBe('50');
+      });
+    });
+
+    describe('orders', () => {
+      const escrow = (id: string, amount: string, at: Date) =>
+        new WalletActivity(id, 'wallet-1', `sig-${id}`, 'order', 1, at, [
+          { mint: SOL, amount: toRaw(amount, 9), decimals: 9 },
+        ]);
+
+      it('should dispose of units once when a limit order is created, filled and cancelled', () => {
+        const buy = buySol('2', '200', new Date('2026-01-01'));
+        const fill = new Trade(
+          'fill-1',
+          'wallet-1',
+          'limit_order',
+          SOL,
+          USDC,
+          toRaw('0.5', 9),
+          toRaw('100', 6),
+          9,
+          6,
+          'sig-fill',
+          { inputUsdValue: '100', outputUsdValue: '100', executedAt: new Date('2026-01-03') }
+        );
+        const activities = [
+          new WalletActivity(
+            'created',
+            'wallet-1',
+            'sig-created',
+            'order',
+            1,
+            new Date('2026-01-02'),
+            [{ mint: SOL, amount: `-${toRaw('1', 9)}`, decimals: 9 }]
+          ),
+          escrow('cancelled', '0.5', new Date('2026-01-04')),
+        ];
+
+        const cost = costOf(service.calculateCostByMint([buy, fill], 'fifo', activities), SOL);
+
+        expect(cost.realizedPnl.toString()).toBe('50');
+        expect(cost.untrackedDisposed.toString()).toBe('0');
+        expect(cost.remainingAmount.toString()).toBe('1.5');
+        expect(cost.remainingCost.toString()).toBe('150');
+      });
+    });
+  });
+
+  describe('computePnL', () => {
+    it('should return zero PnL for an empty portfolio', () => {
+      const result = service.computePnL(new Map(), new Map(), new Map());
+
+      expect(result.tokens).toEqual([]);
+      expect(result.totalValue).toBe(0);
+      expect(result.totalUnrealizedPnlPercent).toBe(0);
+    });
+
+    it('should calculate unrealized PnL from average cost', () => {
+      const costs = service.calculateCostByMint([buySol('10', '1600')]);
+
+      const result = service.computePnL(costs, new Map([[SOL, 10]]), new Map([[SOL, 180]]));
+      const sol = result.tokens[0];
+
+      expect(sol?.avgCost).toBe(160);
+      expect(sol?.currentValue).toBe(1800);
+      expect(sol?.unrealizedPnl).toBe(200);
+      expect(sol?.unrealizedPnlPercent).toBe(12.5);
+      expect(result.totalUnrealizedPnlPercent).toBe(12.5);
+    });
+
+    it('should mark tokens with balance but no trades as untracked', () => {
+      const result = service.computePnL(
+        new Map(),
+        new Map([[BONK, 1000]]),
+        new Map([[BONK, 0.02]])
+      );
+
+      expect(result.untrackedTokens).toEqual([BONK]);
+      expect(result.tokens[0]?.tracked).toBe(false);
+      expect(result.totalValue).toBe(20);
+      expect(result.totalCost).toBe(0);
+      expect(result.totalUnrealizedPnl).toBe(0);
+    });
+
+    it('should keep realized PnL for fully sold tokens', () => {
+      const costs = service.calculateCostByMint([buySol('1', '100'), sellSol('1', '150')]);
+
+      const result = service.computePnL(costs, new Map(), new Map([[SOL, 200]]));
+
+      expect(result.totalRealizedPnl).toBe(50);
+      expect(result.tokens.find((t) => t.mint === SOL)?.unrealizedPnl).toBe(0);
+    });
+
+    it('should only cost the units covered by trades', () => {
+      const costs = service.calculateCostByMint([buySol('1', '100')]);
+
+      const result = service.computePnL(costs, new Map([[SOL, 3]]), new Map([[SOL, 150]]));
+      const sol = result.tokens.find((t) => t.mint === SOL);
+
+      expect(sol?.currentValue).toBe(450);
+      expect(sol?.totalCost).toBe(100);
+      expect(sol?.unrealizedPnl).toBe(50);
+    });
+
+    it('should exclude unpriced tokens from unrealized totals', () => {
+      const costs = service.calculateCostByMint([buySol('1', '100')]);
+
+      const result = service.computePnL(costs, new Map([[SOL, 1]]), new Map());
+
+      expect(result.tokens[0]?.priced).toBe(false);
+      expect(result.totalUnrealizedPnl).toBe(0);
+      expect(Number.isFinite(result.totalUnrealizedPnlPercent)).toBe(true);
+    });
+  });
+
+  describe('calculatePnL', () => {
+    it('should combine trades, balances and prices', async () => {
+      const tradeRepo = createMockTradeRepository([buySol('2', '300')]);
+      const rpc = createMockRpc();
+      rpc.getTokenAccounts.mockResolvedValueOnce({
+        address: 'addr',
+        solBalance: 2,
+        tokens: [
+          { mint: USDC, amount: '50000000', decimals: 6, uiAmount: 50, program: 'spl-token' },
+        ],
+      });
+      const prices = createMockPriceProvider({ [SOL]: 200 });
+      service = new PnLService(tradeRepo, rpc, prices);
+
+      const result = await service.calculatePnL('wallet-1', 'addr');
+
+      expect(tradeRepo.findByWallet).toHaveBeenCalledWith('wallet-1', {
+        status: 'success',
+        order: 'asc',
+      });
+      expect(prices.getPrice).toHaveBeenCalledWith([SOL]);
+      expect(result.totalValue).toBe(450);
+      expect(result.totalUnrealizedPnl).toBe(100);
+      expect(result.tradeCount).toBe(1);
+    });
+
+    it('should filter by mint when provided', async () => {
+      const tradeRepo = createMockTradeRepository([buySol('2', '300')]);
+      const rpc = createMockRpc();
+      rpc.getTokenAccounts.mockResolvedValueOnce({
+        address: 'addr',
+        solBalance: 2,
+        tokens: [{ mint: BONK, amount: '100000', decimals: 5, uiAmount: 1, program: 'spl-token' }],
+      });
+      service = new PnLService(tradeRepo, rpc, createMockPriceProvider({ [SOL]: 150 }));
+
+      const result = await service.calculatePnL('wallet-1', 'addr', SOL);
+
+      expect(result.tokens.map((t) => t.mint)).toEqual([SOL]);
+    });
+
+    it('should keep going when the price API fails', async () => {
+      const prices = createMockPriceProvider();
+      prices.getPrice.mockRejectedValueOnce(new Error('API down'));
+      const rpc = createMockRpc();
+      rpc.getTokenAccounts.mockResolvedValueOnce({ address: 'addr', solBalance: 1, tokens: [] });
+      service = new PnLService(createMockTradeRepository([buySol('1', '100')]), rpc, prices);
+
+      const result = await service.calculatePnL('wallet-1', 'addr');
+
+      expect(result.tokens.find((t) => t.mint === SOL)?.priced).toBe(false);
+    });
+  });
+
+  describe('lot methods', () => {
+    const jan = new Date(2025, 0, 10);
+    const jun = new Date(2025, 5, 10);
+    const mar26 = new Date(2026, 2, 1);
+
+    // Lot 1: 1 SOL @ $100 (Jan 2025), lot 2: 1 SOL @ $300 (Jun 2025), lot 3: 1 SOL @ $200
+    const lotTrades = () => [
+      buySol('1', '100', jan),
+      buySol('1', '300', jun),
+      buySol('1', '200', new Date(2025, 8, 1)),
+      sellSol('1.5', '375', mar26),
+    ];
+
+    it('should match the oldest lots first with FIFO', () => {
+      const disposals = service.calculateDisposals(lotTrades(), 'fifo');
+
+      expect(disposals.map((d) => d.amount.toString())).toEqual(['1', '0.5']);
+      expect(disposals.map((d) => d.costBasis?.toString())).toEqual(['100', '150']);
+      expect(disposals.map((d) => d.proceeds.toString())).toEqual(['250', '125']);
+      expect(disposals[0]?.acquiredAt).toBe(jan);
+      expect(disposals[0]?.longTerm).toBe(true);
+      expect(disposals[1]?.longTerm).toBe(false);
+    });
+
+    it('should match the newest lots first with LIFO', () => {
+      const disposals = service.calculateDisposals(lotTrades(), 'lifo');
+
+      expect(disposals.map((d) => d.costBasis?.toString())).toEqual(['200', '150']);
+    });
+
+    it('should match the highest-cost lots first with HIFO', () => {
+      const disposals = service.calculateDisposals(lotTrades(), 'hifo');
+
+      expect(disposals.map((d) => d.costBasis?.toString())).toEqual(['300', '100']);
+      expect(disposals.reduce((sum, d) => sum + (d.gain?.toNumber() ?? 0), 0)).toBe(-25);
+    });
+
+    it('should compute remaining cost from unmatched lots', () => {
+      const costs = service.calculateCostByMint(lotTrades(), 'fifo');
+      const sol = costOf(costs, SOL);
+
+      expect(sol.remainingAmount.toString()).toBe('1.5');
+      expect(sol.remainingCost.toString()).toBe('350');
+      expect(sol.realizedPnl.toString()).toBe('125');
+    });
+
+    it('should give a single disposal without acquisition date for cost average', () => {
+      const disposals = service.calculateDisposals(lotTrades(), 'average');
+
+      expect(disposals).toHaveLength(1);
+      expect(disposals[0]?.costBasis?.toString()).toBe('300');
+      expect(disposals[0]?.acquiredAt).toBeUndefined();
+    });
+
+    it('should report units sold beyond tracked lots as untracked, outside realized PnL', () => {
+      const trades = [buySol('1', '100', jan), sellSol('2', '400', jun)];
+
+      const disposals = service.calculateDisposals(trades, 'fifo');
+      const sol = costOf(service.calculateCostByMint(trades, 'fifo'), SOL);
+
+      expect(disposals).toHaveLength(2);
+      expect(disposals[1]?.proceeds.toString()).toBe('200');
+      expect(disposals[1]?.costBasis).toBeNull();
+      expect(disposals[1]?.gain).toBeNull();
+      expect(disposals[1]?.acquiredAt).toBeUndefined();
+      expect(sol.realizedPnl.toString()).toBe('100');
+      expect(sol.untrackedDisposed.toString()).toBe('1');
+    });
+
+    it('should filter realized gains by period but match against earlier lots', async () => {
+      const tradeRepo = createMockTradeRepository([
+        ...lotTrades(),
+        sellSol('0.5', '100', new Date(2025, 11, 1)),
+      ]);
+      service = new PnLService(tradeRepo, createMockRpc(), createMockPriceProvider());
+
+      const report = await service.calculateRealizedGains('wallet-1', {
+        method: 'fifo',
+        from: new Date(2026, 0, 1),
+        to: new Date(2026, 11, 31, 23, 59, 59, 999),
+      });
+
+      // Dec 2025 sale consumed half of lot 1, so 2026 matches the rest of lot 1 then lot 2
+      expect(report.disposals.map((d) => d.costBasis?.toString())).toEqual(['50', '300']);
+      expect(report.totalProceeds).toBe(375);
+      expect(report.totalCostBasis).toBe(350);
+      expect(report.totalGain).toBe(25);
+      expect(report.longTermGain).toBe(75);
+      expect(report.shortTermGain).toBe(-50);
+      expect(report.untrackedProceeds).toBe(0);
+    });
+
+    it('should leave untracked units out of the realized gains totals', async () => {
+      const tradeRepo = createMockTradeRepository([
+        buySol('1', '100', jan),
+        sellSol('2', '400', jun),
+      ]);
+      service = new PnLService(tradeRepo, createMockRpc(), createMockPriceProvider());
+
+      const report = await service.calculateRealizedGains('wallet-1', { method: 'fifo' });
+
+      expect(report.totalProceeds).toBe(200);
+      expect(report.totalGain).toBe(100);
+      expect(report.untrackedProceeds).toBe(200);
+    });
+  });
+});
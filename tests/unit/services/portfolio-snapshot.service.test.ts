@@ -0,0 +1,157 @@
+import Big from 'big.js';
+import {
+  CashFlow,
+  PortfolioSnapshotService,
+  WalletStateProvider,
+} from '../../../src/application/services/portfolio/portfolio-snapshot.service';
+import { PortfolioSnapshotRepository } from '../../../src/domain/repositories/portfolio-snapshot.repository';
+import { WalletRepository } from '../../../src/domain/repositories/wallet.repository';
+import { PortfolioSnapshot } from '../../../src/domain/entities/portfolio-snapshot.entity';
+import { Wallet } from '../../../src/domain/entities/wallet.entity';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function createMockWallet(id: string, name: string): Wallet {
+  return new Wallet(id, name, `addr-${id}`, 'encrypted-key', 'nonce', 'salt', 'auth-tag');
+}
+
+// Snapshot holding only USDC at $1, one entry per wallet
+function snapshot(takenAt: string, values: Record<string, number>): PortfolioSnapshot {
+  return new PortfolioSnapshot(
+    takenAt,
+    new Date(takenAt),
+    Object.entries(values).map(([walletId, value]) => ({
+      walletId,
+      walletName: walletId,
+      mint: USDC,
+      amount: String(value),
+      usdPrice: '1',
+      usdValue: String(value),
+    }))
+  );
+}
+
+describe('PortfolioSnapshotService', () => {
+  let service: PortfolioSnapshotService;
+  let snapshotRepo: jest.Mocked<PortfolioSnapshotRepository>;
+  let walletState: jest.Mocked<WalletStateProvider>;
+
+  beforeEach(() => {
+    snapshotRepo = {
+      create: jest.fn().mockImplementation(async (s: PortfolioSnapshot) => s),
+      findBetween: jest.fn().mockResolvedValue([]),
+    };
+    const walletRepo = {
+      findAll: jest
+        .fn()
+        .mockResolvedValue([createMockWallet('w1', 'Trading'), createMockWallet('w2', 'Savings')]),
+    } as unknown as WalletRepository;
+    walletState = {
+      getWalletState: jest.fn().mockResolvedValue({
+        address: 'addr-w1',
+        solBalance: 2,
+        totalValue: 250,
+        tokens: [
+          { mint: SOL, symbol: 'SOL', amount: 2, decimals: 9, price: 100, value: 200 },
+          { mint: USDC, symbol: 'USDC', amount: 50, decimals: 6, price: 1, value: 50 },
+          { mint: 'closed-account', amount: 0, decimals: 6, price: 0, value: 0 },
+        ],
+      }),
+    };
+
+    service = new PortfolioSnapshotService(snapshotRepo, walletRepo, walletState);
+  });
+
+  describe('takeSnapshot', () => {
+    it('should store non-zero balances of every wallet', async () => {
+      const { snapshot: taken, failedWallets } = await service.takeSnapshot();
+
+      expect(snapshotRepo.create).toHaveBeenCalledTimes(1);
+      expect(failedWallets).toEqual([]);
+      expect(taken.items).toHaveLength(4);
+      expect(taken.totalValue.toNumber()).toBe(500);
+      expect(taken.priceOf(SOL)?.toNumber()).toBe(100);
+    });
+
+    it('should leave out wallets whose state could not be fetched', async () => {
+      walletState.getWalletState.mockRejectedValueOnce(new Error('RPC timeout'));
+
+      const { snapshot: taken, failedWallets } = await service.takeSnapshot();
+
+      expect(failedWallets).toEqual([{ walletId: 'w1', name: 'Trading', error: 'RPC timeout' }]);
+      expect(taken.walletIds).toEqual(['w2']);
+    });
+  });
+
+  describe('computePerformance', () => {
+    it('should return an empty report without snapshots', () => {
+      const report = service.computePerformance([], []);
+
+      expect(report.snapshotCount).toBe(0);
+      expect(report.equityCurve).toEqual([]);
+    });
+
+    it('should not count deposits as performance', () => {
+      const snapshots = [
+        snapshot('2026-10-01T00:00:00.000Z', { w1: 1000 }),
+        snapshot('2026-10-02T00:00:00.000Z', { w1: 2100 }),
+      ];
+      // 1000 USDC deposited at the very start of the period
+      const flows: CashFlow[] = [
+        { walletId: 'w1', at: new Date('2026-10-01T00:00:01.000Z'), mint: USDC, amount: Big(1000) },
+      ];
+
+      const report = service.computePerformance(snapshots, flows);
+
+      expect(report.netFlows).toBe(1000);
+      expect(report.timeWeightedReturn).toBeCloseTo(5, 2);
+    });
+
+    it('should ignore wallets that are not in both snapshots of a period', () => {
+      const snapshots = [
+        snapshot('2026-10-01T00:00:00.000Z', { w1: 1000 }),
+        snapshot('2026-10-02T00:00:00.000Z', { w1: 1100, w2: 5000 }),
+      ];
+
+      const report = service.computePerformance(snapshots, []);
+
+      expect(report.endValue).toBe(6100);
+      expect(report.timeWeightedReturn).toBeCloseTo(10);
+    });
+
+    it('should chain period returns and find the maximum drawdown', () => {
+      const snapshots = [
+        snapshot('2026-10-01T00:00:00.000Z', { w1: 1000 }),
+        snapshot('2026-10-02T00:00:00.000Z', { w1: 1200 }),
+        snapshot('2026-10-03T00:00:00.000Z', { w1: 900 }),
+        snapshot('2026-10-04T00:00:00.000Z', { w1: 1100 }),
+      ];
+
+      const report = service.computePerformance(snapshots, []);
+
+      expect(report.equityCurve.map((p) => p.index)).toEqual([1, 1.2, 0.9, 1.1]);
+      expect(report.timeWeightedReturn).toBeCloseTo(10);
+      expect(report.maxDrawdown).toBeCloseTo(25);
+      expect(report.maxDrawdownPeak).toEqual(new Date('2026-10-02T00:00:00.000Z'));
+      expect(report.maxDrawdownTrough).toEqual(new Date('2026-10-03T00:00:00.000Z'));
+    });
+
+    it('should report daily changes from the last snapshot of each day', () => {
+      const snapshots = [
+        snapshot('2026-10-01T08:00:00.000Z', { w1: 1000 }),
+        snapshot('2026-10-01T20:00:00.000Z', { w1: 1050 }),
+        snapshot('2026-10-02T08:00:00.000Z', { w1: 990 }),
+        snapshot('2026-10-02T20:00:00.000Z', { w1: 945 }),
+      ];
+
+      const report = service.computePerformance(snapshots, []);
+
+      expect(report.daily.map((d) => [d.date, d.value, d.change])).toEqual([
+        ['2026-10-01', 1050, 50],
+        ['2026-10-02', 945, -105],
+      ]);
+      expect(report.daily[1]?.returnPercent).toBeCloseTo(-10);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { PortfolioService } from '../../../src/application/services/portfolio/portfolio.service';
+import { PriceProvider } from '../../../src/application/services/wallet/wallet-sync.service';
+import { TokenInfoProvider } from '../../../src/application/services/token-info.service';
+import { SolanaRpcPort, WalletTokens } from '../../../src/application/ports/blockchain.port';
+import { WalletRepository } from '../../../src/domain/repositories/wallet.repository';
+import { Wallet } from '../../../src/domain/entities/wallet.entity';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function createMockWallet(id: string, name: string, address: string): Wallet {
+  return new Wallet(id, name, address, 'encrypted-key', 'nonce', 'salt', 'auth-tag');
+}
+
+function tokens(address: string, solBalance: number, usdc: number): WalletTokens {
+  return {
+    address,
+    solBalance,
+    tokens:
+      usdc > 0
+        ? [{ mint: USDC, amount: '0', decimals: 6, uiAmount: usdc, program: 'spl-token' }]
+        : [],
+  };
+}
+
+describe('PortfolioService', () => {
+  let service: PortfolioService;
+  let rpc: jest.Mocked<SolanaRpcPort>;
+  let prices: jest.Mocked<PriceProvider>;
+  let wallets: Wallet[];
+
+  beforeEach(() => {
+    wallets = [
+      createMockWallet('uuid-1', 'Trading', 'addr-1'),
+      createMockWallet('uuid-2', 'Savings', 'addr-2'),
+    ];
+    const walletRepo = {
+      findAll: jest.fn().mockResolvedValue(wallets),
+    } as unknown as WalletRepository;
+    rpc = {
+      getTokenAccounts: jest
+        .fn()
+        .mockImplementation(async (address: string) =>
+          address === 'addr-1' ? tokens(address, 1, 100) : tokens(address, 3, 0)
+        ),
+    };
+    prices = {
+      getPrice: jest.fn().mockResolvedValue([
+        { mint: SOL, price: 100, timestamp: new Date() },
+        { mint: USDC, price: 1, timestamp: new Date() },
+      ]),
+    };
+    const tokenInfo = {
+      getTokenInfoBatch: jest
+        .fn()
+        .mockResolvedValue(
+          new Map([[SOL, { address: SOL, symbol: 'SOL', name: 'Solana', decimals: 9 }]])
+        ),
+    } as unknown as TokenInfoProvider;
+
+    service = new PortfolioService(walletRepo, rpc, prices, tokenInfo);
+  });
+
+  it('should merge positions by mint with shares of the total', async () => {
+    const portfolio = await service.getPortfolio();
+
+    expect(portfolio.totalValue).toBe(500);
+    expect(portfolio.positions.map((p) => [p.mint, p.amount, p.value, p.share])).toEqual([
+      [SOL, 4, 400, 80],
+      [USDC, 100, 100, 20],
+    ]);
+    expect(portfolio.positions[0]?.symbol).toBe('SOL');
+  });
+
+  it('should break positions down per wallet', async () => {
+    const portfolio = await service.getPortfolio();
+
+    const sol = portfolio.positions.find((p) => p.mint === SOL);
+    expect(sol?.wallets.map((w) => [w.walletName, w.amount, w.share])).toEqual([
+      ['Savings', 3, 75],
+      ['Trading', 1, 25],
+    ]);
+    expect(portfolio.wallets.map((w) => [w.name, w.totalValue, w.share])).toEqual([
+      ['Savings', 300, 60],
+      ['Trading', 200, 40],
+    ]);
+  });
+
+  it('should fetch prices once for all mints', async () => {
+    await service.getPortfolio();
+
+    expect(rpc.getTokenAccounts).toHaveBeenCalledTimes(2);
+    expect(prices.getPrice).toHaveBeenCalledTimes(1);
+    expect(prices.getPrice).toHaveBeenCalledWith([SOL, USDC]);
+  });
+
+  it('should report wallets whose balances could not be fetched', async () => {
+    rpc.getTokenAccounts.mockRejectedValueOnce(new Error('RPC timeout'));
+
+    const portfolio = await service.getPortfolio();
+
+    expect(portfolio.failedWallets).toEqual([
+      { walletId: 'uuid-1', name: 'Trading', error: 'RPC timeout' },
+    ]);
+    expect(portfolio.totalValue).toBe(300);
+  });
+
+  it('should keep unpriced tokens out of the total value', () => {
+    const result = service.aggregate(
+      [{ wallet: wallets[0] as Wallet, balances: new Map([[BONK, 1000]]) }],
+      new Map()
+    );
+
+    expect(result.totalValue).toBe(0);
+    expect(result.positions[0]?.priced).toBe(false);
+    expect(result.positions[0]?.wallets[0]?.share).toBe(100);
+  });
+});
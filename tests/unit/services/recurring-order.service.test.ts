@@ -0,0 +1,363 @@
+import { RecurringOrderService } from '../../../src/application/services/order/recurring-order.service';
+import { RecurringFillSyncService } from '../../../src/application/services/order/recurring-fill-sync.service';
+import { AmountResolverService } from '../../../src/application/services/trade/amount-resolver.service';
+import { WalletResolverService } from '../../../src/application/services/wallet/wallet-resolver.service';
+import { WalletSignerService } from '../../../src/application/services/wallet/wallet-signer.service';
+import { RiskPolicyService } from '../../../src/application/services/risk/risk-policy.service';
+import { TransactionInspectorService } from '../../../src/application/services/security/transaction-inspector.service';
+import { TokenInfoProvider } from '../../../src/application/services/token-info.service';
+import { TradeService } from '../../../src/application/services/trade/trade.service';
+import { RecurringApiService } from '../../../src/infrastructure/jupiter-api/recurring/recurring-api.service';
+import {
+  RecurringOrder,
+  RecurringOrderTrade,
+} from '../../../src/infrastructure/jupiter-api/recurring/recurring.types';
+import { TradeRepository } from '../../../src/domain/repositories/trade.repository';
+import { SyncCursorRepository } from '../../../src/domain/repositories/sync-cursor.repository';
+import { SyncCursor } from '../../../src/domain/entities/sync-cursor.entity';
+import { Trade } from '../../../src/domain/entities/trade.entity';
+import { Wallet } from '../../../src/domain/entities/wallet.entity';
+import { TokenAmount } from '../../../src/domain/values/token-amount';
+import {
+  InvalidArgumentError,
+  RecurringOrderNotFoundError,
+} from '../../../src/core/errors/cli.errors';
+
+const solMint = 'So11111111111111111111111111111111111111112';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function createFill(overrides: Partial<RecurringOrderTrade> = {}): RecurringOrderTrade {
+  return {
+    orderKey: 'order-1',
+    inputMint: usdcMint,
+    outputMint: solMint,
+    inputAmount: '10',
+    outputAmount: '0.05',
+    txId: 'fill-sig-1',
+    confirmedAt: '2026-10-01T10:00:00.000Z',
+    action: 'Fill',
+    ...overrides,
+  };
+}
+
+function createOrder(overrides: Partial<RecurringOrder> = {}): RecurringOrder {
+  return {
+    userPubkey: 'wallet-address',
+    orderKey: 'order-1',
+    inputMint: usdcMint,
+    outputMint: solMint,
+    inDeposited: '300',
+    inUsed: '10',
+    outReceived: '0.05',
+    cycleFrequency: '86400',
+    userClosed: false,
+    createdAt: '2026-09-30T10:00:00.000Z',
+    updatedAt: '2026-10-01T10:00:00.000Z',
+    trades: [],
+    ...overrides,
+  } as RecurringOrder;
+}
+
+describe('RecurringOrderService', () => {
+  let service: RecurringOrderService;
+  let recurringApi: {
+    createOrder: jest.Mock;
+    getOrders: jest.Mock;
+    cancelOrder: jest.Mock;
+    execute: jest.Mock;
+  };
+  let riskPolicy: { check: jest.Mock; enforce: jest.Mock; recordCommitment: jest.Mock };
+  let inspector: { inspect: jest.Mock; verify: jest.Mock };
+  let signer: { signTransaction: jest.Mock };
+  const wallet = { id: 'wallet-1', address: 'wallet-address' } as Wallet;
+  const sessionKey = Buffer.alloc(32);
+  const request = {
+    wallet: '1',
+    inputToken: 'USDC',
+    outputToken: 'SOL',
+    amount: '300',
+    intervalSeconds: 86_400,
+  };
+
+  beforeEach(() => {
+    recurringApi = {
+      createOrder: jest.fn().mockResolvedValue({ requestId: 'req-1', transaction: 'unsigned' }),
+      getOrders: jest.fn(async (_user: string, _status: string, type: string) => ({
+        [type]: type === 'price' ? [createOrder({ orderKey: 'price-order' })] : [],
+        page: 1,
+        totalPages: 1,
+      })),
+      cancelOrder: jest.fn().mockResolvedValue({ requestId: 'req-2', transaction: 'cancel-tx' }),
+      execute: jest
+        .fn()
+        .mockResolvedValue({ signature: 'sig-1', status: 'Success', order: 'order-key' }),
+    };
+    riskPolicy = {
+      check: jest.fn().mockResolvedValue([]),
+      enforce: jest.fn(),
+      recordCommitment: jest.fn(),
+    };
+    inspector = { inspect: jest.fn(), verify: jest.fn() };
+    signer = { signTransaction: jest.fn().mockResolvedValue('signed') };
+    const tokenInfoProvider = {
+      resolveToken: jest.fn(async (token: string) =>
+        token === 'SOL'
+          ? { mint: solMint, symbol: 'SOL', decimals: 9 }
+          : { mint: usdcMint, symbol: 'USDC', decimals: 6 }
+      ),
+    };
+    const amountResolver = {
+      resolve: jest.fn(async (expression: string) => ({
+        amount: TokenAmount.parse(expression, 6),
+        basis: null,
+      })),
+    };
+    service = new RecurringOrderService(
+      { resolve: jest.fn().mockResolvedValue(wallet) } as unknown as WalletResolverService,
+      tokenInfoProvider as unknown as TokenInfoProvider,
+      recurringApi as unknown as RecurringApiService,
+      riskPolicy as unknown as RiskPolicyService,
+      inspector as unknown as TransactionInspectorService,
+      amountResolver as unknown as AmountResolverService,
+      signer as unknown as WalletSignerService
+    );
+  });
+
+  describe('prepare', () => {
+    it('should split a time-based deposit into equal cycles', async () => {
+      const draft = await service.prepare({ ...request, numberOfOrders: 30 });
+
+      expect(draft.type).toBe('time');
+      expect(draft.amountPerOrder?.toString()).toBe('10');
+      expect(draft.incrementUsd).toBeNull();
+    });
+
+    it('should need either a number of orders or a USD increment', async () => {
+      await expect(service.prepare(request)).rejects.toThrow('Set either');
+      await expect(
+        service.prepare({ ...request, numberOfOrders: 30, incrementUsd: '10' })
+      ).rejects.toThrow('Set either');
+    });
+
+    it('should refuse price bounds on price-based orders and inverted bounds', async () => {
+      await expect(
+        service.prepare({ ...request, incrementUsd: '10', minPrice: '100' })
+      ).rejects.toThrow('only apply to time-based');
+      await expect(
+        service.prepare({ ...request, numberOfOrders: 30, minPrice: '200', maxPrice: '150' })
+      ).rejects.toThrow('minimum price must be below');
+    });
+
+    it('should refuse a single order and a start time in the past', async () => {
+      await expect(service.prepare({ ...request, numberOfOrders: 1 })).rejects.toThrow(
+        'at least 2 orders'
+      );
+      await expect(
+        service.prepare({ ...request, numberOfOrders: 30, startAt: new Date(Date.now() - 1000) })
+      ).rejects.toThrow('must be in the future');
+    });
+  });
+
+  describe('buildTransaction', () => {
+    it('should send time-based parameters in raw units', async () => {
+      const draft = await service.prepare({ ...request, numberOfOrders: 30, maxPrice: '250' });
+
+      await service.buildTransaction(draft);
+
+      expect(recurringApi.createOrder).toHaveBeenCalledWith({
+        user: 'wallet-address',
+        inputMint: usdcMint,
+        outputMint: solMint,
+        params: {
+          time: {
+            inAmount: 300_000_000,
+            numberOfOrders: 30,
+            interval: 86_400,
+            minPrice: null,
+            maxPrice: 250,
+            startAt: null,
+          },
+        },
+      });
+    });
+
+    it('should send the price-based increment in raw USDC', async () => {
+      const startAt = new Date(Date.now() + 3_600_000);
+      const draft = await service.prepare({ ...request, incrementUsd: '$12.5', startAt });
+
+      await service.buildTransaction(draft);
+
+      expect(recurringApi.createOrder.mock.calls[0]?.[0].params).toEqual({
+        price: {
+          depositAmount: 300_000_000,
+          incrementUsdcValue: 12_500_000,
+          interval: 86_400,
+          startAt: Math.floor(startAt.getTime() / 1000),
+        },
+      });
+    });
+
+    it('should refuse amounts and prices a JSON number cannot hold exactly', async () => {
+      const large = await service.prepare({
+        ...request,
+        amount: '10000000000',
+        numberOfOrders: 30,
+      });
+      await expect(service.buildTransaction(large)).rejects.toThrow(
+        'deposit amount 10000000000000000 is too large'
+      );
+
+      const highPrice = await service.prepare({
+        ...request,
+        numberOfOrders: 30,
+        maxPrice: '9007199254740993',
+      });
+      await expect(service.buildTransaction(highPrice)).rejects.toThrow(InvalidArgumentError);
+      expect(recurringApi.createOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submit', () => {
+    it('should enforce the policy and verify the deposit before signing', async () => {
+      const draft = await service.prepare({ ...request, numberOfOrders: 30 });
+      const order = await service.buildTransaction(draft);
+
+      const created = await service.submit(order, sessionKey);
+
+      expect(riskPolicy.enforce).toHaveBeenCalled();
+      expect(inspector.verify).toHaveBeenCalledWith('unsigned', 'wallet-address', {
+        mint: usdcMint,
+        amount: draft.amount,
+      });
+      expect(recurringApi.execute).toHaveBeenCalledWith('signed', 'req-1');
+      expect(created).toEqual({ orderKey: 'order-key', signature: 'sig-1' });
+      expect(riskPolicy.recordCommitment).toHaveBeenCalledWith(
+        expect.objectContaining({ inputAmount: draft.amount }),
+        'recurring_order',
+        'order-key'
+      );
+    });
+
+    it('should throw when the transaction failed', async () => {
+      recurringApi.execute.mockResolvedValue({ signature: 'sig-1', status: 'Failed' });
+      const order = await service.buildTransaction(
+        await service.prepare({ ...request, numberOfOrders: 30 })
+      );
+
+      await expect(service.submit(order, sessionKey)).rejects.toThrow('transaction failed');
+      expect(riskPolicy.recordCommitment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel an active order with its own type', async () => {
+      const signature = await service.cancel(wallet, 'price-order', sessionKey);
+
+      expect(recurringApi.cancelOrder).toHaveBeenCalledWith(
+        'wallet-address',
+        'price-order',
+        'price'
+      );
+      expect(inspector.verify).toHaveBeenCalledWith('cancel-tx', 'wallet-address', null);
+      expect(recurringApi.execute).toHaveBeenCalledWith('signed', 'req-2');
+      expect(signature).toBe('sig-1');
+    });
+
+    it('should throw for an order that is not active', async () => {
+      await expect(service.cancel(wallet, 'unknown', sessionKey)).rejects.toThrow(
+        RecurringOrderNotFoundError
+      );
+      expect(recurringApi.cancelOrder).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('RecurringFillSyncService', () => {
+  let service: RecurringFillSyncService;
+  let getOrders: jest.Mock;
+  let recorded: Trade[];
+  let cursorRepo: jest.Mocked<SyncCursorRepository>;
+
+  const respond = (orders: Partial<Record<string, RecurringOrder[]>>) =>
+    getOrders.mockImplementation(async (_user: string, status: string, type: string) => ({
+      [type]: orders[`${status}:${type}`] ?? [],
+      page: 1,
+      totalPages: 1,
+    }));
+
+  beforeEach(() => {
+    recorded = [];
+    getOrders = jest.fn();
+    const tradeRepo: jest.Mocked<TradeRepository> = {
+      create: jest.fn().mockImplementation(async (trade: Trade) => {
+        recorded.push(trade);
+        return trade;
+      }),
+      update: jest.fn(),
+      findById: jest.fn(),
+      findBySignature: jest
+        .fn()
+        .mockImplementation(async (sig: string) => recorded.filter((t) => t.signature === sig)),
+      findByWallet: jest.fn(),
+      countByWallet: jest.fn(),
+    };
+    cursorRepo = {
+      find: jest.fn().mockResolvedValue(null),
+      save: jest.fn().mockImplementation(async (cursor: SyncCursor) => cursor),
+    };
+    const tokenInfo = {
+      getTokenInfoBatch: jest.fn().mockResolvedValue(
+        new Map([
+          [solMint, { address: solMint, symbol: 'SOL', name: 'Solana', decimals: 9 }],
+          [usdcMint, { address: usdcMint, symbol: 'USDC', name: 'USD Coin', decimals: 6 }],
+        ])
+      ),
+    };
+    service = new RecurringFillSyncService(
+      { getOrders } as unknown as RecurringApiService,
+      new TradeService(tradeRepo, { getPrice: jest.fn() }),
+      cursorRepo,
+      tokenInfo as unknown as TokenInfoProvider
+    );
+  });
+
+  it('should record fills of both order types as recurring order trades', async () => {
+    respond({
+      'active:time': [createOrder({ trades: [createFill()] })],
+      'history:price': [
+        createOrder({
+          orderKey: 'order-2',
+          trades: [
+            createFill({ orderKey: 'order-2', txId: 'fill-sig-2', rawOutputAmount: '49000000' }),
+            createFill({ orderKey: 'order-2', txId: 'deposit-sig', action: 'Deposit' }),
+          ],
+        }),
+      ],
+    });
+
+    const result = await service.syncFills('wallet-1', 'wallet-address');
+
+    expect(result.recorded).toHaveLength(2);
+    expect(result.ordersScanned).toBe(2);
+    const [first, second] = result.recorded;
+    expect(first?.type).toBe('recurring_order');
+    expect(first?.inputAmount).toBe('10000000');
+    expect(first?.outputAmount).toBe('50000000');
+    expect(first?.requestId).toBe('order-1');
+    expect(second?.outputAmount).toBe('49000000');
+    expect(cursorRepo.save).toHaveBeenCalledWith(
+      expect.objectContaining({ source: 'recurring_orders' })
+    );
+  });
+
+  it('should not record a fill twice', async () => {
+    respond({ 'active:time': [createOrder({ trades: [createFill()] })] });
+
+    await service.syncFills('wallet-1', 'wallet-address');
+    const again = await service.syncFills('wallet-1', 'wallet-address');
+
+    expect(again.recorded).toHaveLength(0);
+    expect(again.duplicates).toBe(1);
+    expect(recorded).toHaveLength(1);
+  });
+});
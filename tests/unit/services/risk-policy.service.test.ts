@@ -0,0 +1,310 @@
+import * as os from 'os';
+import * as path from 'path';
+import {
+  EffectiveRiskLimits,
+  RiskFacts,
+  RiskPolicyService,
+  evaluateRiskPolicy,
+  resolveRiskLimits,
+} from '../../../src/application/services/risk/risk-policy.service';
+import {
+  Configuration,
+  ConfigurationService,
+} from '../../../src/core/config/configuration.service';
+import { RiskPolicyViolationError } from '../../../src/core/errors/risk.errors';
+import { getExitCode, ExitCode } from '../../../src/core/errors/exit-codes';
+import { Wallet } from '../../../src/domain/entities/wallet.entity';
+import { Trade, TradeStatus } from '../../../src/domain/entities/trade.entity';
+import { TokenAmount } from '../../../src/domain/values/token-amount';
+import { TradeRepository } from '../../../src/domain/repositories/trade.repository';
+import { OrderCommitmentRepository } from '../../../src/domain/repositories/order-commitment.repository';
+import { OrderCommitment } from '../../../src/domain/entities/order-commitment.entity';
+import { ShieldPort } from '../../../src/application/ports/token-discovery.port';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SCAM = 'Scam111111111111111111111111111111111111111';
+
+const wallet = new Wallet('uuid-1', 'Bot', 'addr-1', 'key', 'nonce', 'salt', 'tag');
+
+function createConfig(): Configuration {
+  // A data dir without config.yaml gives the defaults
+  return new ConfigurationService(path.join(os.tmpdir(), 'jup-cli-risk-test')).getConfig();
+}
+
+const noLimits: EffectiveRiskLimits = {
+  maxSlippageBps: null,
+  maxPriceImpactPct: null,
+  maxUsdPerTrade: null,
+  maxUsdPerDay: null,
+  allowTokens: [],
+  denyTokens: [],
+  blockCriticalWarnings: false,
+};
+
+const facts: RiskFacts = {
+  inputMint: USDC,
+  outputMint: SOL,
+  slippageBps: 50,
+  priceImpactPct: 0.1,
+  usdValue: 100,
+  usdLast24h: 0,
+  criticalWarnings: [],
+};
+
+describe('resolveRiskLimits', () => {
+  it('should use trading.maxSlippageBps as the global slippage limit', () => {
+    expect(resolveRiskLimits(createConfig(), wallet)).toMatchObject({
+      maxSlippageBps: 500,
+      maxUsdPerTrade: null,
+      blockCriticalWarnings: true,
+    });
+  });
+
+  it('should overlay the wallet override and add up denylists', () => {
+    const config = createConfig();
+    config.risk.maxUsdPerTrade = 1000;
+    config.risk.maxUsdPerDay = 5000;
+    config.risk.denyTokens = [SCAM];
+    config.risk.wallets = {
+      Bot: { maxUsdPerTrade: 50, maxUsdPerDay: null, denyTokens: [SOL], allowTokens: [USDC] },
+    };
+
+    expect(resolveRiskLimits(config, wallet)).toMatchObject({
+      maxUsdPerTrade: 50,
+      maxUsdPerDay: null,
+      allowTokens: [USDC],
+      denyTokens: [SCAM, SOL],
+    });
+  });
+});
+
+describe('evaluateRiskPolicy', () => {
+  it('should pass a trade within every limit', () => {
+    expect(
+      evaluateRiskPolicy(
+        { ...noLimits, maxSlippageBps: 100, maxPriceImpactPct: 1, maxUsdPerTrade: 500 },
+        facts
+      )
+    ).toEqual([]);
+  });
+
+  it('should report every violated limit', () => {
+    const violations = evaluateRiskPolicy(
+      {
+        ...noLimits,
+        maxSlippageBps: 30,
+        maxPriceImpactPct: 0.05,
+        maxUsdPerTrade: 50,
+        maxUsdPerDay: 120,
+      },
+      { ...facts, priceImpactPct: -0.1, usdLast24h: 40 }
+    );
+
+    expect(violations.map((v) => v.rule)).toEqual([
+      'max-slippage',
+      'max-price-impact',
+      'max-usd-per-trade',
+      'max-usd-per-day',
+    ]);
+    expect(violations[3]).toMatchObject({ limit: 120, actual: 140 });
+  });
+
+  it('should apply the denylist before the allowlist', () => {
+    const violations = evaluateRiskPolicy(
+      { ...noLimits, allowTokens: [USDC], denyTokens: [USDC] },
+      facts
+    );
+
+    expect(violations).toEqual([
+      expect.objectContaining({ rule: 'token-denied', mint: USDC }),
+      expect.objectContaining({ rule: 'token-not-allowed', mint: SOL }),
+    ]);
+  });
+
+  it('should refuse USD limits it cannot check', () => {
+    const violations = evaluateRiskPolicy(
+      { ...noLimits, maxUsdPerDay: 1000 },
+      { ...facts, usdValue: null }
+    );
+
+    expect(violations.map((v) => v.rule)).toEqual(['unpriced-trade']);
+  });
+
+  it('should block critical Shield warnings and an unavailable Shield', () => {
+    const limits = { ...noLimits, blockCriticalWarnings: true };
+    const warning = {
+      type: 'NOT_SELLABLE' as const,
+      message: 'Not sellable',
+      severity: 'critical' as const,
+    };
+
+    expect(
+      evaluateRiskPolicy(limits, { ...facts, criticalWarnings: [{ mint: SOL, warning }] })
+    ).toEqual([{ rule: 'critical-warning', message: `${SOL}: Not sellable`, mint: SOL }]);
+    expect(
+      evaluateRiskPolicy(limits, { ...facts, criticalWarnings: null }).map((v) => v.rule)
+    ).toEqual(['shield-unavailable']);
+  });
+});
+
+describe('RiskPolicyService', () => {
+  const request = {
+    wallet,
+    input: { mint: USDC, symbol: 'USDC', decimals: 6 },
+    output: { mint: SCAM, symbol: 'SCAM', decimals: 6 },
+    inputAmount: TokenAmount.parse('300', 6),
+    outputAmount: TokenAmount.parse('1000', 6),
+    slippageBps: 50,
+    priceImpactPct: 0.2,
+  };
+
+  let tradeRepo: jest.Mocked<TradeRepository>;
+  let commitmentRepo: jest.Mocked<OrderCommitmentRepository>;
+  let shield: jest.Mocked<ShieldPort>;
+  let getPrice: jest.Mock;
+
+  beforeEach(() => {
+    const earlier = new Trade(
+      't-1',
+      'uuid-1',
+      'swap',
+      USDC,
+      SOL,
+      '800000000',
+      '4000000000',
+      6,
+      9,
+      'sig',
+      {
+        inputUsdValue: '800',
+      }
+    );
+    tradeRepo = {
+      create: jest.fn(),
+      update: jest.fn(),
+      findById: jest.fn(),
+      findBySignature: jest.fn(),
+      findByWallet: jest.fn().mockResolvedValue([earlier]),
+      countByWallet: jest.fn(),
+    };
+    commitmentRepo = {
+      create: jest.fn(async (commitment: OrderCommitment) => commitment),
+      findByWallet: jest.fn().mockResolvedValue([]),
+    };
+    shield = {
+      getShieldWarnings: jest.fn().mockResolvedValue({
+        warnings: {
+          [SCAM]: [
+            { type: 'HAS_FREEZE_AUTHORITY', message: 'Freeze authority', severity: 'warning' },
+            { type: 'NOT_SELLABLE', message: 'Not sellable', severity: 'critical' },
+          ],
+        },
+      }),
+    };
+    getPrice = jest.fn().mockResolvedValue([]);
+  });
+
+  it('should value the trade, add the last 24 hours and check Shield', async () => {
+    const config = createConfig();
+    config.risk.maxUsdPerDay = 1000;
+    const service = new RiskPolicyService(config, tradeRepo, { getPrice }, shield, commitmentRepo);
+
+    const violations = await service.check(request);
+
+    // USDC falls back to $1 without a price
+    expect(violations.map((v) => v.rule)).toEqual(['max-usd-per-day', 'critical-warning']);
+    expect(violations[0]?.actual).toBe(1100);
+    expect(tradeRepo.findByWallet).toHaveBeenCalledWith('uuid-1', {
+      type: 'swap',
+      from: expect.any(Date),
+    });
+  });
+
+  it('should count pending swaps toward the daily limit, but not failed ones', async () => {
+    const config = createConfig();
+    config.risk.maxUsdPerDay = 1400;
+    config.risk.blockCriticalWarnings = false;
+    const swap = (id: string, status: TradeStatus, usd: string) =>
+      new Trade(id, 'uuid-1', 'swap', USDC, SOL, '1', '1', 6, 9, id, {
+        status,
+        inputUsdValue: usd,
+      });
+    tradeRepo.findByWallet.mockResolvedValue([
+      swap('t-1', 'success', '800'),
+      swap('t-2', 'pending', '400'),
+      swap('t-3', 'failed', '5000'),
+    ]);
+    const service = new RiskPolicyService(config, tradeRepo, { getPrice }, shield, commitmentRepo);
+
+    const violations = await service.check(request);
+
+    expect(violations.map((v) => v.actual)).toEqual([1500]);
+  });
+
+  it('should count orders created in the last 24 hours toward the daily limit', async () => {
+    const config = createConfig();
+    config.risk.maxUsdPerDay = 1500;
+    config.risk.blockCriticalWarnings = false;
+    commitmentRepo.findByWallet.mockResolvedValue([
+      new OrderCommitment('uuid-1', 'limit_order', 'order-1', '250'),
+      new OrderCommitment('uuid-1', 'recurring_order', 'dca-1', '200'),
+    ]);
+    const service = new RiskPolicyService(config, tradeRepo, { getPrice }, shield, commitmentRepo);
+
+    const violations = await service.check(request);
+
+    expect(violations.map((v) => v.actual)).toEqual([1550]);
+    expect(commitmentRepo.findByWallet).toHaveBeenCalledWith('uuid-1', expect.any(Date));
+  });
+
+  it('should record the USD value of an order when it is created', async () => {
+    const service = new RiskPolicyService(
+      createConfig(),
+      tradeRepo,
+      { getPrice },
+      shield,
+      commitmentRepo
+    );
+
+    await service.recordCommitment(request, 'limit_order', 'order-1');
+
+    expect(commitmentRepo.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        walletId: 'uuid-1',
+        source: 'limit_order',
+        orderKey: 'order-1',
+        usdValue: '300',
+      })
+    );
+  });
+
+  it('should only fetch what the configured limits need', async () => {
+    const config = createConfig();
+    config.risk.blockCriticalWarnings = false;
+    const service = new RiskPolicyService(config, tradeRepo, { getPrice }, shield, commitmentRepo);
+
+    await expect(service.enforce(request)).resolves.toBeUndefined();
+    expect(getPrice).not.toHaveBeenCalled();
+    expect(tradeRepo.findByWallet).not.toHaveBeenCalled();
+    expect(shield.getShieldWarnings).not.toHaveBeenCalled();
+  });
+
+  it('should refuse with a structured error', async () => {
+    const service = new RiskPolicyService(
+      createConfig(),
+      tradeRepo,
+      { getPrice },
+      shield,
+      commitmentRepo
+    );
+
+    const error = await service.enforce(request).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RiskPolicyViolationError);
+    expect((error as RiskPolicyViolationError).details.violations).toEqual([
+      expect.objectContaining({ rule: 'critical-warning', mint: SCAM }),
+    ]);
+    expect(getExitCode(error)).toBe(ExitCode.POLICY_REFUSED);
+  });
+});
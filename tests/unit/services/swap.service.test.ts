@@ -0,0 +1,226 @@
+import { Keypair, SystemProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { SwapService } from '../../../src/application/services/trade/swap.service';
+import { WalletResolverService } from '../../../src/application/services/wallet/wallet-resolver.service';
+import { WalletSignerService } from '../../../src/application/services/wallet/wallet-signer.service';
+import { TokenInfoProvider } from '../../../src/application/services/token-info.service';
+import { TradeService } from '../../../src/application/services/trade/trade.service';
+import { RiskPolicyService } from '../../../src/application/services/risk/risk-policy.service';
+import { TransactionInspectorService } from '../../../src/application/services/security/transaction-inspector.service';
+import { TransactionSimulatorService } from '../../../src/application/services/trade/transaction-simulator.service';
+import { AmountResolverService } from '../../../src/application/services/trade/amount-resolver.service';
+import { ComputeBudgetService } from '../../../src/application/services/trade/compute-budget.service';
+import { ConfirmationTrackerService } from '../../../src/application/services/trade/confirmation-tracker.service';
+import { UltraApiService } from '../../../src/infrastructure/jupiter-api/ultra/ultra-api.service';
+import { SwapApiService } from '../../../src/infrastructure/jupiter-api/swap/swap-api.service';
+import { InvalidArgumentError } from '../../../src/core/errors/cli.errors';
+import { InsufficientBalanceError } from '../../../src/core/errors/token.errors';
+import { TokenAmount } from '../../../src/domain/values/token-amount';
+
+const SOL = { mint: 'So11111111111111111111111111111111111111112', symbol: 'SOL', decimals: 9 };
+const USDC = { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', decimals: 6 };
+const sessionKey = Buffer.alloc(32);
+
+function signedTransaction(): string {
+  const payer = Keypair.generate().publicKey;
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions: [SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1 })],
+  }).compileToV0Message();
+  return Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+}
+
+function metisQuote(inAmount: string, outAmount: string, otherAmountThreshold: string) {
+  return {
+    inAmount,
+    outAmount,
+    otherAmountThreshold,
+    priceImpactPct: '0.01',
+    slippageBps: 50,
+    routePlan: [{ swapInfo: { label: 'Whirlpool' } }],
+  };
+}
+
+describe('SwapService', () => {
+  let service: SwapService;
+  let ultraApi: { getOrder: jest.Mock; executeOrder: jest.Mock };
+  let swapApi: { getQuote: jest.Mock; getSwapTransaction: jest.Mock };
+  let mintExtensions: { getMintExtensions: jest.Mock };
+  let amountResolver: { resolve: jest.Mock; getBalance: jest.Mock };
+  let signer: { signTransaction: jest.Mock };
+  let sender: { sendTransaction: jest.Mock };
+  let tracker: { track: jest.Mock; getBalanceChanges: jest.Mock };
+  let tradeService: { recordTrade: jest.Mock };
+  let simulator: { simulate: jest.Mock; verify: jest.Mock };
+  const signed = signedTransaction();
+  const request = {
+    wallet: '1',
+    inputToken: 'SOL',
+    outputToken: 'USDC',
+    amount: '300',
+    slippageBps: 50,
+    exactOut: true,
+  };
+
+  beforeEach(() => {
+    ultraApi = { getOrder: jest.fn(), executeOrder: jest.fn() };
+    swapApi = {
+      getQuote: jest.fn().mockResolvedValue(metisQuote('1900000000', '300000000', '2000000000')),
+      getSwapTransaction: jest
+        .fn()
+        .mockResolvedValue({ swapTransaction: 'unsigned', lastValidBlockHeight: 1_000 }),
+    };
+    mintExtensions = { getMintExtensions: jest.fn().mockResolvedValue(new Map()) };
+    amountResolver = {
+      resolve: jest.fn(async (expression: string, token: { decimals: number }) => ({
+        amount: TokenAmount.parse(expression, token.decimals),
+        basis: null,
+      })),
+      getBalance: jest.fn().mockResolvedValue(TokenAmount.parse('5', 9)),
+    };
+    signer = { signTransaction: jest.fn().mockResolvedValue(signed) };
+    sender = { sendTransaction: jest.fn() };
+    tracker = { track: jest.fn(), getBalanceChanges: jest.fn().mockResolvedValue(null) };
+    tradeService = { recordTrade: jest.fn() };
+    simulator = { simulate: jest.fn(), verify: jest.fn() };
+    const tokenInfoProvider = {
+      resolveToken: jest.fn(async (token: string) => (token === 'SOL' ? SOL : USDC)),
+    };
+
+    service = new SwapService(
+      {
+        resolve: jest.fn().mockResolvedValue({ id: 'wallet-1', name: 'Main', address: 'owner' }),
+      } as unknown as WalletResolverService,
+      tokenInfoProvider as unknown as TokenInfoProvider,
+      ultraApi as unknown as UltraApiService,
+      swapApi as unknown as SwapApiService,
+      tradeService as unknown as TradeService,
+      mintExtensions,
+      {
+        check: jest.fn().mockResolvedValue([]),
+        enforce: jest.fn(),
+      } as unknown as RiskPolicyService,
+      { inspect: jest.fn(), verify: jest.fn() } as unknown as TransactionInspectorService,
+      simulator as unknown as TransactionSimulatorService,
+      amountResolver as unknown as AmountResolverService,
+      sender,
+      { apply: jest.fn().mockResolvedValue(null) } as unknown as ComputeBudgetService,
+      tracker as unknown as ConfirmationTrackerService,
+      signer as unknown as WalletSignerService
+    );
+  });
+
+  describe('quote', () => {
+    it('should refuse exact-output swaps on the Ultra engine', async () => {
+      await expect(service.quote({ ...request, engine: 'ultra' })).rejects.toThrow(
+        new InvalidArgumentError('Exact-output swaps need the Metis engine')
+      );
+      expect(ultraApi.getOrder).not.toHaveBeenCalled();
+      expect(swapApi.getQuote).not.toHaveBeenCalled();
+    });
+
+    it('should quote exact-output swaps with Metis, spending up to the slippage threshold', async () => {
+      const quote = await service.quote(request);
+
+      expect(swapApi.getQuote).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: '300000000', swapMode: 'ExactOut', slippageBps: 50 })
+      );
+      expect(amountResolver.resolve).toHaveBeenCalledWith('300', USDC, null);
+      expect(quote.mode).toBe('ExactOut');
+      expect(quote.order).toEqual({ engine: 'metis', lastValidBlockHeight: 1_000 });
+      expect(quote.inputAmount.toString()).toBe('1.9');
+      expect(quote.maxInputAmount.toString()).toBe('2');
+      expect(quote.outputAmount.toString()).toBe('300');
+      expect(quote.route).toEqual(['Whirlpool']);
+    });
+
+    it('should ask for enough extra output to cover a transfer fee', async () => {
+      mintExtensions.getMintExtensions.mockResolvedValue(
+        new Map([[USDC.mint, { transferFee: { basisPoints: 100, maxFee: '1000000000' } }]])
+      );
+      swapApi.getQuote.mockResolvedValue(metisQuote('1900000000', '303030304', '2000000000'));
+
+      const quote = await service.quote(request);
+
+      // 303030304 less its 1% fee, rounded up, is 300000000
+      expect(swapApi.getQuote.mock.calls[0]?.[0].amount).toBe('303030304');
+      expect(quote.outputAmount.toString()).toBe('300');
+      expect(quote.outputTransferFee.toString()).toBe('3.030304');
+      expect(quote.transferFee).toEqual({ basisPoints: 100, maxFee: '1000000000' });
+    });
+  });
+
+  describe('sign', () => {
+    it('should refuse an exact-output swap that could spend more than the wallet holds', async () => {
+      amountResolver.getBalance.mockResolvedValue(TokenAmount.parse('1.95', 9));
+      const quote = await service.quote(request);
+
+      const signing = service.sign(quote, sessionKey);
+
+      await expect(signing).rejects.toThrow(InsufficientBalanceError);
+      await expect(signing).rejects.toThrow('up to 2 SOL may be spent, the wallet holds 1.95');
+      expect(signer.signTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should sign an exact-output swap the balance covers', async () => {
+      amountResolver.getBalance.mockResolvedValue(TokenAmount.parse('2', 9));
+      const quote = await service.quote(request);
+
+      await expect(service.sign(quote, sessionKey)).resolves.toEqual({
+        quote,
+        transaction: signed,
+      });
+    });
+  });
+
+  describe('submit', () => {
+    function outcome(signature: string, result: 'expired' | 'finalized') {
+      return {
+        signature,
+        outcome: result,
+        slot: result === 'expired' ? null : 300,
+        error: null,
+        logs: [],
+      };
+    }
+
+    it('should quote, sign and send again when an attempt expires without landing', async () => {
+      sender.sendTransaction.mockResolvedValueOnce('sig-1').mockResolvedValueOnce('sig-2');
+      tracker.track
+        .mockResolvedValueOnce(outcome('sig-1', 'expired'))
+        .mockResolvedValueOnce(outcome('sig-2', 'finalized'));
+      swapApi.getQuote
+        .mockResolvedValueOnce(metisQuote('1900000000', '300000000', '2000000000'))
+        .mockResolvedValueOnce(metisQuote('1950000000', '300000000', '2050000000'));
+      const quote = await service.quote(request);
+      const onRetry = jest.fn();
+
+      const execution = await service.submit(await service.sign(quote, sessionKey), {
+        retries: 2,
+        sessionKey,
+        onRetry,
+      });
+
+      expect(execution).toMatchObject({
+        succeeded: true,
+        signature: 'sig-2',
+        attempts: 2,
+        recorded: true,
+        executionStatus: 'Confirmed',
+      });
+      expect(execution.quote.maxInputAmount.toString()).toBe('2.05');
+      expect(onRetry).toHaveBeenCalledWith(2, execution.quote);
+      expect(signer.signTransaction).toHaveBeenCalledTimes(2);
+      expect(simulator.verify).toHaveBeenCalledTimes(1);
+      // Only the attempt that landed is recorded
+      expect(tradeService.recordTrade).toHaveBeenCalledTimes(1);
+      expect(tradeService.recordTrade).toHaveBeenCalledWith(
+        expect.objectContaining({
+          signature: 'sig-2',
+          status: 'success',
+          inputAmount: '1950000000',
+        })
+      );
+    });
+  });
+});
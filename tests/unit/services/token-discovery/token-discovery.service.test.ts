@@ -208,6 +208,29 @@ describe('TokenDiscoveryService', () => {
 
       expect(result.token.id).toBe(mint);
     });
+
+    it('should fetch Token-2022 extensions only for Token-2022 mints', async () => {
+      const mintExtensions = {
+        getMintExtensions: jest
+          .fn()
+          .mockResolvedValue(new Map([[mint, { nonTransferable: true }]])),
+      };
+      service = new TokenDiscoveryService(
+        mockTokensApi,
+        mockShieldApi,
+        mockPriceApi,
+        mintExtensions
+      );
+
+      mockTokensApi.searchTokens.mockResolvedValueOnce([createMintInfo()]);
+      expect((await service.getTokenDetails(mint)).extensions).toBeNull();
+      expect(mintExtensions.getMintExtensions).not.toHaveBeenCalled();
+
+      mockTokensApi.searchTokens.mockResolvedValueOnce([
+        createMintInfo({ tokenProgram: 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb' }),
+      ]);
+      expect((await service.getTokenDetails(mint)).extensions).toEqual({ nonTransferable: true });
+    });
   });
 
   describe('getTrendingTokens', () => {
@@ -0,0 +1,222 @@
+import {
+  TradeService,
+  toRawAmount,
+  toUiAmount,
+} from '../../../src/application/services/trade/trade.service';
+import { PriceProvider } from '../../../src/application/services/wallet/wallet-sync.service';
+import { TradeRepository } from '../../../src/domain/repositories/trade.repository';
+import { Trade } from '../../../src/domain/entities/trade.entity';
+
+function createMockRepository(): jest.Mocked<TradeRepository> {
+  return {
+    create: jest.fn().mockImplementation(async (trade: Trade) => trade),
+    update: jest.fn().mockImplementation(async (trade: Trade) => trade),
+    findById: jest.fn().mockResolvedValue(null),
+    findBySignature: jest.fn().mockResolvedValue([]),
+    findByWallet: jest.fn().mockResolvedValue([]),
+    countByWallet: jest.fn().mockResolvedValue(0),
+  };
+}
+
+function createMockPriceProvider(): jest.Mocked<PriceProvider> {
+  return {
+    getPrice: jest.fn().mockResolvedValue([]),
+  };
+}
+
+describe('TradeService', () => {
+  let service: TradeService;
+  let mockRepo: jest.Mocked<TradeRepository>;
+  let mockPrices: jest.Mocked<PriceProvider>;
+
+  const solMint = 'So11111111111111111111111111111111111111112';
+  const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+  const bonkMint = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+  const baseParams = {
+    walletId: 'wallet-1',
+    inputMint: solMint,
+    outputMint: usdcMint,
+    inputSymbol: 'SOL',
+    outputSymbol: 'USDC',
+    inputAmount: '1500000000',
+    outputAmount: '270000000',
+    inputDecimals: 9,
+    outputDecimals: 6,
+    signature: 'sig123',
+  };
+
+  beforeEach(() => {
+    mockRepo = createMockRepository();
+    mockPrices = createMockPriceProvider();
+    service = new TradeService(mockRepo, mockPrices);
+  });
+
+  describe('toUiAmount', () => {
+    it('should convert raw amounts without float rounding', () => {
+      expect(toUiAmount('1500000000', 9).toString()).toBe('1.5');
+      expect(toUiAmount('123456789012345678', 9).toString()).toBe('123456789.012345678');
+    });
+
+    it('should convert ui amounts back to raw, truncating extra decimals', () => {
+      expect(toRawAmount('1.5', 9)).toBe('1500000000');
+      expect(toRawAmount('0.1234567', 6)).toBe('123456');
+    });
+  });
+
+  describe('recordTrade', () => {
+    it('should record a swap with USD prices at execution', async () => {
+      mockPrices.getPrice.mockResolvedValueOnce([
+        { mint: solMint, price: 180, timestamp: new Date() },
+        { mint: usdcMint, price: 1, timestamp: new Date() },
+      ]);
+
+      const trade = await service.recordTrade({ ...baseParams, routeLabels: ['Raydium'] });
+
+      expect(mockPrices.getPrice).toHaveBeenCalledWith([solMint, usdcMint]);
+      expect(mockRepo.create).toHaveBeenCalledTimes(1);
+      expect(trade.type).toBe('swap');
+      expect(trade.status).toBe('success');
+      expect(trade.inputUsdPrice).toBe('180');
+      expect(trade.inputUsdValue).toBe('270');
+      expect(trade.outputUsdValue).toBe('270');
+      expect(trade.routeLabels).toEqual(['Raydium']);
+    });
+
+    it('should use provided prices without fetching', async () => {
+      const trade = await service.recordTrade({
+        ...baseParams,
+        inputUsdPrice: 200,
+        outputUsdPrice: 1,
+      });
+
+      expect(mockPrices.getPrice).not.toHaveBeenCalled();
+      expect(trade.inputUsdValue).toBe('300');
+    });
+
+    it('should fall back to $1 for stablecoins when the price API fails', async () => {
+      mockPrices.getPrice.mockRejectedValueOnce(new Error('API down'));
+
+      const trade = await service.recordTrade(baseParams);
+
+      expect(trade.outputUsdPrice).toBe('1');
+      expect(trade.outputUsdValue).toBe('270');
+      // Implicit price from the swap ratio: 270 USDC / 1.5 SOL
+      expect(trade.inputUsdPrice).toBe('180');
+      expect(trade.inputUsdValue).toBe('270');
+    });
+
+    it('should not fetch current prices for past executions', async () => {
+      const trade = await service.recordTrade({
+        ...baseParams,
+        type: 'limit_order',
+        fetchPrices: false,
+      });
+
+      expect(mockPrices.getPrice).not.toHaveBeenCalled();
+      expect(trade.inputUsdPrice).toBe('180');
+    });
+
+    it('should leave USD fields empty for unpriced tokens', async () => {
+      mockPrices.getPrice.mockResolvedValueOnce([]);
+
+      const trade = await service.recordTrade({
+        ...baseParams,
+        inputMint: bonkMint,
+        inputDecimals: 5,
+        inputAmount: '100000',
+        outputMint: solMint,
+        outputDecimals: 9,
+      });
+
+      expect(trade.inputUsdValue).toBeUndefined();
+      expect(trade.outputUsdValue).toBeUndefined();
+    });
+  });
+
+  describe('getTradeHistory', () => {
+    it('should return a page of trades with the unpaginated total', async () => {
+      mockRepo.countByWallet.mockResolvedValueOnce(42);
+
+      const result = await service.getTradeHistory('wallet-1', {
+        mint: solMint,
+        limit: 20,
+        offset: 20,
+      });
+
+      expect(result.total).toBe(42);
+      expect(mockRepo.findByWallet).toHaveBeenCalledWith('wallet-1', {
+        mint: solMint,
+        limit: 20,
+        offset: 20,
+      });
+      expect(mockRepo.countByWallet).toHaveBeenCalledWith('wallet-1', {
+        mint: solMint,
+        limit: undefined,
+        offset: undefined,
+      });
+    });
+  });
+
+  describe('isTradeRecorded', () => {
+    it('should check by signature', async () => {
+      expect(await service.isTradeRecorded('sig123')).toBe(false);
+      expect(mockRepo.findBySignature).toHaveBeenCalledWith('sig123');
+    });
+  });
+
+  describe('recordOutcome', () => {
+    const pending = () =>
+      new Trade('trade-1', 'wallet-1', 'swap', solMint, usdcMint, '1', '1', 9, 6, 'sig123', {
+        status: 'pending',
+      });
+
+    it('should update pending trades with a failed outcome', async () => {
+      mockRepo.findBySignature.mockResolvedValue([pending()]);
+
+      const [trade] = await service.recordOutcome({
+        signature: 'sig123',
+        outcome: 'failed',
+        slot: 42,
+        error: { message: 'slippage exceeded', instruction: 3, programId: null, code: 6001 },
+        logs: ['Program log: Error'],
+      });
+
+      expect(mockRepo.update).toHaveBeenCalledTimes(1);
+      expect(trade?.status).toBe('failed');
+      expect(trade?.error).toBe('slippage exceeded');
+      expect(trade?.logMessages).toEqual(['Program log: Error']);
+    });
+
+    it.each([
+      ['finalized', 'success'],
+      ['processed', 'pending'],
+    ] as const)('should record %p as %p', async (outcome, status) => {
+      mockRepo.findBySignature.mockResolvedValue([pending()]);
+
+      const [trade] = await service.recordOutcome({
+        signature: 'sig123',
+        outcome,
+        slot: 42,
+        error: null,
+        logs: [],
+      });
+
+      expect(trade?.status).toBe(status);
+    });
+
+    it('should leave trades alone when the transaction expired', async () => {
+      mockRepo.findBySignature.mockResolvedValue([pending()]);
+
+      await service.recordOutcome({
+        signature: 'sig123',
+        outcome: 'expired',
+        slot: null,
+        error: null,
+        logs: [],
+      });
+
+      expect(mockRepo.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { classifyTransaction } from '../../../src/application/services/wallet/transaction-classifier';
+import { ParsedTransaction } from '../../../src/application/ports/blockchain.port';
+
+const wallet = 'WaLLet1111111111111111111111111111111111111';
+const other = 'Other11111111111111111111111111111111111111';
+const solMint = 'So11111111111111111111111111111111111111112';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+type TokenBalance = NonNullable<NonNullable<ParsedTransaction['meta']>['preTokenBalances']>[number];
+
+function tokenBalance(
+  owner: string,
+  mint: string,
+  amount: string,
+  decimals = 6,
+  accountIndex = 2
+): TokenBalance {
+  return {
+    accountIndex,
+    mint,
+    owner,
+    uiTokenAmount: { amount, decimals, uiAmount: Number(amount) / 10 ** decimals },
+  };
+}
+
+function createTx(options: {
+  feePayer?: string;
+  preBalances?: number[];
+  postBalances?: number[];
+  preTokenBalances?: TokenBalance[];
+  postTokenBalances?: TokenBalance[];
+  programIds?: string[];
+  err?: unknown;
+}): ParsedTransaction {
+  const feePayer = options.feePayer ?? wallet;
+  return {
+    slot: 100,
+    blockTime: 1760000000,
+    transaction: {
+      message: {
+        accountKeys: [
+          { pubkey: feePayer, signer: true, writable: true },
+          { pubkey: feePayer === wallet ? other : wallet, signer: false, writable: true },
+        ],
+        instructions: (options.programIds ?? []).map((programId) => ({ programId })),
+      },
+      signatures: ['sig'],
+    },
+    meta: {
+      err: options.err ?? null,
+      fee: 5000,
+      preBalances: options.preBalances ?? [1_000_000_000, 0],
+      postBalances: options.postBalances ?? [999_995_000, 0],
+      preTokenBalances: options.preTokenBalances ?? [],
+      postTokenBalances: options.postTokenBalances ?? [],
+      logMessages: [],
+    },
+  };
+}
+
+describe('classifyTransaction', () => {
+  it('should classify a token-for-SOL swap and ignore the fee', () => {
+    const tx = createTx({
+      preBalances: [1_000_000_000, 0],
+      postBalances: [499_995_000, 0],
+      postTokenBalances: [tokenBalance(wallet, usdcMint, '90000000')],
+    });
+
+    const result = classifyTransaction(tx, wallet);
+
+    expect(result.kind).toBe('swap');
+    expect(result.fee).toBe(5000);
+    expect(result.changes).toEqual([
+      { mint: solMint, amount: '-500000000', decimals: 9 },
+      { mint: usdcMint, amount: '90000000', decimals: 6 },
+    ]);
+  });
+
+  it('should classify an incoming token transfer paid by another account', () => {
+    const tx = createTx({
+      feePayer: other,
+      preBalances: [1_000_000_000, 2_039_280],
+      postBalances: [999_995_000, 2_039_280],
+      preTokenBalances: [tokenBalance(wallet, usdcMint, '1000000')],
+      postTokenBalances: [tokenBalance(wallet, usdcMint, '6000000')],
+    });
+
+    const result = classifyTransaction(tx, wallet);
+
+    expect(result.kind).toBe('transfer_in');
+    expect(result.fee).toBe(0);
+    expect(result.changes).toEqual([{ mint: usdcMint, amount: '5000000', decimals: 6 }]);
+  });
+
+  it('should leave out the rent of a token account opened for the recipient', () => {
+    const tx = createTx({
+      preBalances: [1_000_000_000, 0],
+      postBalances: [997_955_720, 2_039_280],
+      preTokenBalances: [tokenBalance(wallet, usdcMint, '6000000')],
+      postTokenBalances: [
+        tokenBalance(wallet, usdcMint, '1000000'),
+        tokenBalance(other, usdcMint, '5000000', 6, 1),
+      ],
+    });
+
+    const result = classifyTransaction(tx, wallet);
+
+    expect(result.kind).toBe('transfer_out');
+    expect(result.changes).toEqual([{ mint: usdcMint, amount: '-5000000', decimals: 6 }]);
+  });
+
+  it('should keep a small SOL amount swapped next to the rent of a new account', () => {
+    // 0.002 SOL for 0.3 USDC, opening the wallet's USDC account
+    const tx = createTx({
+      preBalances: [1_000_000_000, 0],
+      postBalances: [995_955_720, 2_039_280],
+      postTokenBalances: [tokenBalance(wallet, usdcMint, '300000', 6, 1)],
+    });
+
+    const result = classifyTransaction(tx, wallet);
+
+    expect(result.kind).toBe('swap');
+    expect(result.changes).toEqual([
+      { mint: solMint, amount: '-2000000', decimals: 9 },
+      { mint: usdcMint, amount: '300000', decimals: 6 },
+    ]);
+  });
+
+  it('should leave out the rent refunded by closing a token account of the wallet', () => {
+    const tx = createTx({
+      preBalances: [1_000_000_000, 2_039_280, 2_039_280],
+      postBalances: [1_002_034_280, 2_039_280, 0],
+      preTokenBalances: [
+        tokenBalance(wallet, usdcMint, '5000000'),
+        tokenBalance(other, usdcMint, '0', 6, 1),
+      ],
+      postTokenBalances: [tokenBalance(other, usdcMint, '5000000', 6, 1)],
+    });
+
+    const result = classifyTransaction(tx, wallet);
+
+    expect(result.kind).toBe('transfer_out');
+    expect(result.changes).toEqual([{ mint: usdcMint, amount: '-5000000', decimals: 6 }]);
+  });
+
+  it('should keep SOL unwrapped from a closed account apart from its rent', () => {
+    // 0.5 USDC for 0.001 SOL, received in the wallet's wrapped SOL account, which is then closed
+    const tx = createTx({
+      preBalances: [1_000_000_000, 2_039_280],
+      postBalances: [1_003_034_280, 0],
+      preTokenBalances: [
+        tokenBalance(wallet, usdcMint, '5000000'),
+        tokenBalance(wallet, solMint, '0', 9, 1),
+      ],
+      postTokenBalances: [tokenBalance(wallet, usdcMint, '4500000')],
+    });
+
+    const result = classifyTransaction(tx, wallet);
+
+    expect(result.kind).toBe('swap');
+    expect(result.changes).toEqual([
+      { mint: solMint, amount: '1000000', decimals: 9 },
+      { mint: usdcMint, amount: '-500000', decimals: 6 },
+    ]);
+  });
+
+  it('should classify a SOL withdrawal', () => {
+    const tx = createTx({
+      preBalances: [1_000_000_000, 0],
+      postBalances: [749_995_000, 250_000_000],
+    });
+
+    expect(classifyTransaction(tx, wallet).changes).toEqual([
+      { mint: solMint, amount: '-250000000', decimals: 9 },
+    ]);
+    expect(classifyTransaction(tx, wallet).kind).toBe('transfer_out');
+  });
+
+  it('should classify failed and no-op transactions as fees', () => {
+    expect(classifyTransaction(createTx({ err: { InstructionError: [0, 'x'] } }), wallet)).toEqual({
+      kind: 'fee',
+      changes: [],
+      fee: 5000,
+      failed: true,
+    });
+    expect(classifyTransaction(createTx({}), wallet).kind).toBe('fee');
+  });
+
+  it('should leave multi-leg transactions unknown', () => {
+    const bonkMint = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+    const tx = createTx({
+      preBalances: [1_000_000_000, 0],
+      postBalances: [499_995_000, 0],
+      preTokenBalances: [tokenBalance(wallet, usdcMint, '1000000')],
+      postTokenBalances: [tokenBalance(wallet, bonkMint, '100000', 5)],
+    });
+
+    expect(classifyTransaction(tx, wallet).kind).toBe('unknown');
+  });
+
+  it('should classify the escrow movements of a limit order as order, not transfers', () => {
+    const trigger = 'jupoNjAxXgZ4rjzxzPMP4oxduvQsQtZzyknqvzYNrNu';
+    // Created: 1 SOL into escrow. Filled: USDC paid out by a keeper. Cancelled: SOL refunded
+    const created = createTx({
+      programIds: [trigger],
+      preBalances: [2_000_000_000, 0],
+      postBalances: [999_995_000, 1_000_000_000],
+    });
+    const filled = createTx({
+      feePayer: other,
+      programIds: [trigger],
+      postTokenBalances: [tokenBalance(wallet, usdcMint, '100000000')],
+    });
+    const cancelled = createTx({
+      programIds: [trigger],
+      preBalances: [999_995_000, 500_000_000],
+      postBalances: [1_499_990_000, 0],
+    });
+
+    expect(classifyTransaction(created, wallet)).toMatchObject({
+      kind: 'order',
+      changes: [{ mint: solMint, amount: '-1000000000', decimals: 9 }],
+    });
+    expect(classifyTransaction(filled, wallet).kind).toBe('order');
+    expect(classifyTransaction(cancelled, wallet)).toMatchObject({
+      kind: 'order',
+      changes: [{ mint: solMint, amount: '500000000', decimals: 9 }],
+    });
+  });
+});
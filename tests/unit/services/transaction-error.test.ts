@@ -0,0 +1,73 @@
+import {
+  decodeTransactionError,
+  failedSignatureOf,
+} from '../../../src/application/services/trade/transaction-error';
+import { SwapFailedError } from '../../../src/core/errors/api.errors';
+import { TransactionExpiredError } from '../../../src/core/errors/transaction.errors';
+
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const COMPUTE_BUDGET = 'ComputeBudget111111111111111111111111111111';
+const OTHER = 'Stake11111111111111111111111111111111111111';
+
+describe('decodeTransactionError', () => {
+  it('should name the instruction, program and known Jupiter error', () => {
+    expect(
+      decodeTransactionError(
+        { InstructionError: [2, { Custom: 6001 }] },
+        [],
+        [COMPUTE_BUDGET, COMPUTE_BUDGET, JUPITER]
+      )
+    ).toEqual({
+      message: 'instruction #2 (Jupiter Aggregator v6) failed: slippage tolerance exceeded',
+      instruction: 2,
+      programId: JUPITER,
+      code: 6001,
+    });
+  });
+
+  it('should prefer the message an Anchor program logged', () => {
+    const decoded = decodeTransactionError(
+      { InstructionError: [0, { Custom: 6024 }] },
+      [
+        `Program ${JUPITER} invoke [1]`,
+        'Program log: AnchorError occurred. Error Code: InsufficientFunds. Error Number: 6024. Error Message: Insufficient funds.',
+      ],
+      [JUPITER]
+    );
+
+    expect(decoded.message).toBe(
+      'instruction #0 (Jupiter Aggregator v6) failed: Insufficient funds'
+    );
+  });
+
+  it.each([
+    [{ InstructionError: [0, { Custom: 1 }] }, [TOKEN_PROGRAM], 'failed: insufficient funds'],
+    [
+      { InstructionError: [0, { Custom: 6001 }] },
+      [OTHER],
+      `(${OTHER}) failed: custom program error 0x1771 (6001)`,
+    ],
+    [{ InstructionError: [0, 'InvalidAccountData'] }, [OTHER], 'failed: InvalidAccountData'],
+    ['InsufficientFundsForFee', [], 'not enough SOL to pay the fee'],
+    [{ InsufficientFundsForRent: { account_index: 0 } }, [], 'not enough SOL left for rent'],
+    [{ DuplicateInstruction: 1 }, [], '{"DuplicateInstruction":1}'],
+  ])('should decode %p', (err, programIds, message) => {
+    expect(decodeTransactionError(err, [], programIds).message).toContain(message);
+  });
+});
+
+describe('failedSignatureOf', () => {
+  it('should read the signature from the error details', () => {
+    expect(failedSignatureOf(new TransactionExpiredError('sig-1', 3))).toBe('sig-1');
+    expect(failedSignatureOf(new SwapFailedError('Swap failed', { signature: 'sig-2' }))).toBe(
+      'sig-2'
+    );
+  });
+
+  it('should ignore errors without a signature', () => {
+    expect(failedSignatureOf(new TransactionExpiredError(null, 1))).toBeUndefined();
+    expect(failedSignatureOf(new Error('boom'))).toBeUndefined();
+    expect(failedSignatureOf('boom')).toBeUndefined();
+  });
+});
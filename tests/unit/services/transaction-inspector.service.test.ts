@@ -0,0 +1,247 @@
+import { createHash } from 'crypto';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  DeclaredInput,
+  TransactionInspectorService,
+  inspectTransaction,
+} from '../../../src/application/services/security/transaction-inspector.service';
+import { UnsafeTransactionError } from '../../../src/core/errors/transaction.errors';
+import { ExitCode, getExitCode } from '../../../src/core/errors/exit-codes';
+import { TokenAmount } from '../../../src/domain/values/token-amount';
+
+const SOL_MINT = new PublicKey('So11111111111111111111111111111111111111112');
+const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const TOKEN_PROGRAM = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const ATA_PROGRAM = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+const JUPITER = new PublicKey('JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4');
+
+const owner = Keypair.generate().publicKey;
+const stranger = Keypair.generate().publicKey;
+const pool = Keypair.generate().publicKey;
+const table = Keypair.generate().publicKey;
+
+const ataOf = (mint: PublicKey): PublicKey =>
+  PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM.toBuffer(), mint.toBuffer()],
+    ATA_PROGRAM
+  )[0];
+
+const oneSol: DeclaredInput = {
+  mint: SOL_MINT.toBase58(),
+  amount: TokenAmount.parse('1', 9),
+};
+
+function u64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+/**
+ * Jupiter `route` with an opaque route plan followed by its fixed tail.
+ */
+function jupiterRoute(inAmount: bigint): TransactionInstruction {
+  const slippage = Buffer.alloc(3);
+  slippage.writeUInt16LE(50);
+  return new TransactionInstruction({
+    programId: JUPITER,
+    keys: [
+      { pubkey: TOKEN_PROGRAM, isSigner: false, isWritable: false },
+      { pubkey: owner, isSigner: true, isWritable: false },
+      { pubkey: ataOf(SOL_MINT), isSigner: false, isWritable: true },
+      { pubkey: ataOf(USDC_MINT), isSigner: false, isWritable: true },
+      { pubkey: pool, isSigner: false, isWritable: true },
+    ],
+    data: Buffer.concat([
+      createHash('sha256').update('global:route').digest().subarray(0, 8),
+      Buffer.from([1, 0, 0, 0, 7, 0, 0]), // Route plan, not decoded
+      u64(inAmount),
+      u64(150_000_000n),
+      slippage,
+    ]),
+  });
+}
+
+function tokenInstruction(
+  keys: PublicKey[],
+  data: number[],
+  amount?: bigint
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM,
+    keys: keys.map((pubkey, i) => ({ pubkey, isSigner: i === keys.length - 1, isWritable: true })),
+    data: Buffer.concat([Buffer.from(data), amount === undefined ? Buffer.alloc(0) : u64(amount)]),
+  });
+}
+
+function compile(instructions: TransactionInstruction[], lookupTable?: PublicKey[]) {
+  const message = new TransactionMessage({
+    payerKey: owner,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions,
+  }).compileToV0Message(
+    lookupTable
+      ? [
+          new AddressLookupTableAccount({
+            key: table,
+            state: {
+              deactivationSlot: BigInt('18446744073709551615'),
+              lastExtendedSlot: 0,
+              lastExtendedSlotStartIndex: 0,
+              addresses: lookupTable,
+            },
+          }),
+        ]
+      : []
+  );
+  return new VersionedTransaction(message);
+}
+
+function swapInstructions(inAmount: bigint): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000 }),
+    // Wrapping SOL into the wallet's own account is not an outflow
+    SystemProgram.transfer({ fromPubkey: owner, toPubkey: ataOf(SOL_MINT), lamports: inAmount }),
+    tokenInstruction([ataOf(SOL_MINT)], [17]),
+    jupiterRoute(inAmount),
+  ];
+}
+
+describe('inspectTransaction', () => {
+  it('should resolve lookup tables and accept a swap of the declared input', () => {
+    const tx = compile(swapInstructions(1_000_000_000n), [pool]);
+
+    const inspection = inspectTransaction(
+      tx,
+      new Map([[table.toBase58(), [pool.toBase58()]]]),
+      owner.toBase58(),
+      oneSol
+    );
+
+    expect(inspection.violations).toEqual([]);
+    expect(inspection.version).toBe(0);
+    expect(inspection.lookupTables).toEqual([table.toBase58()]);
+    expect(inspection.programs.map((p) => p.name)).toEqual([
+      'Compute Budget Program',
+      'System Program',
+      'Token Program',
+      'Jupiter Aggregator v6',
+    ]);
+    expect(inspection.writableAccounts).toEqual(
+      expect.arrayContaining([owner.toBase58(), pool.toBase58()])
+    );
+    expect(inspection.instructions.map((i) => i.action)).toEqual([
+      'setComputeUnitLimit',
+      'setComputeUnitPrice',
+      'transfer',
+      'syncNative',
+      'route',
+    ]);
+    expect(inspection.outflows).toEqual([
+      { instruction: 4, mint: SOL_MINT.toBase58(), amount: '1000000000' },
+    ]);
+  });
+
+  it('should refuse a route spending more than declared', () => {
+    const tx = compile(swapInstructions(1_500_000_000n));
+
+    const inspection = inspectTransaction(tx, new Map(), owner.toBase58(), oneSol);
+
+    expect(inspection.violations).toEqual([
+      expect.objectContaining({
+        check: 'outflow-exceeds-input',
+        message: '1.5 would leave the wallet, more than the declared 1',
+      }),
+    ]);
+  });
+
+  it('should refuse unknown programs, undeclared transfers and delegation', () => {
+    const unknownProgram = Keypair.generate().publicKey;
+    const tx = compile([
+      ...swapInstructions(1_000_000_000n),
+      new TransactionInstruction({ programId: unknownProgram, keys: [], data: Buffer.alloc(0) }),
+      SystemProgram.transfer({ fromPubkey: owner, toPubkey: stranger, lamports: 5n }),
+      tokenInstruction([ataOf(USDC_MINT), USDC_MINT, stranger, owner], [12], 10n),
+      tokenInstruction([ataOf(USDC_MINT), stranger, owner], [4], 10n),
+    ]);
+
+    const inspection = inspectTransaction(tx, new Map(), owner.toBase58(), oneSol);
+
+    expect(inspection.violations.map((v) => v.check)).toEqual([
+      'unknown-program',
+      'token-delegation',
+      'outflow-exceeds-input', // 1 SOL routed plus 5 lamports sent away
+      'undeclared-outflow', // USDC was not declared
+    ]);
+    expect(inspection.programs).toContainEqual({ id: unknownProgram.toBase58(), name: null });
+  });
+
+  it('should refuse a lookup table that cannot be resolved', () => {
+    const tx = compile(swapInstructions(1_000_000_000n), [pool]);
+
+    const inspection = inspectTransaction(tx, new Map(), owner.toBase58(), oneSol);
+
+    expect(inspection.violations).toEqual([
+      expect.objectContaining({ check: 'unresolved-lookup-table' }),
+    ]);
+  });
+
+  it('should refuse any outflow when nothing is declared', () => {
+    const tx = compile(swapInstructions(1n));
+
+    const inspection = inspectTransaction(tx, new Map(), owner.toBase58(), null);
+
+    expect(inspection.violations).toEqual([
+      expect.objectContaining({
+        check: 'undeclared-outflow',
+        message: `0.000000001 SOL of ${SOL_MINT.toBase58()} would leave the wallet but was not declared`,
+      }),
+    ]);
+  });
+});
+
+describe('TransactionInspectorService', () => {
+  const getLookupTableAddresses = jest.fn();
+  const service = new TransactionInspectorService({ getLookupTableAddresses });
+
+  beforeEach(() => {
+    getLookupTableAddresses.mockReset();
+    getLookupTableAddresses.mockResolvedValue(new Map([[table.toBase58(), [pool.toBase58()]]]));
+  });
+
+  it('should fetch the lookup tables the transaction uses', async () => {
+    const tx = compile(swapInstructions(1_000_000_000n), [pool]);
+    const base64 = Buffer.from(tx.serialize()).toString('base64');
+
+    const inspection = await service.verify(base64, owner.toBase58(), oneSol);
+
+    expect(getLookupTableAddresses).toHaveBeenCalledWith([table.toBase58()]);
+    expect(inspection.violations).toEqual([]);
+  });
+
+  it('should refuse to pass an unsafe transaction', async () => {
+    const tx = compile(swapInstructions(2_000_000_000n));
+    const base64 = Buffer.from(tx.serialize()).toString('base64');
+
+    const error = await service.verify(base64, owner.toBase58(), oneSol).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UnsafeTransactionError);
+    expect(getExitCode(error)).toBe(ExitCode.UNSAFE_TRANSACTION);
+  });
+
+  it('should refuse what it cannot decode', async () => {
+    await expect(service.inspect('bm90IGEgdHg=', owner.toBase58(), oneSol)).rejects.toMatchObject({
+      details: { violations: [expect.objectContaining({ check: 'undecodable' })] },
+    });
+  });
+});
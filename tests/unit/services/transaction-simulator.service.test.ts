@@ -0,0 +1,105 @@
+import { Keypair } from '@solana/web3.js';
+import {
+  TransactionSimulatorService,
+  classifySimulationFailure,
+} from '../../../src/application/services/trade/transaction-simulator.service';
+import { getAssociatedTokenAddress } from '../../../src/application/services/wallet/token-account.util';
+import {
+  SimulatedAccount,
+  TransactionSimulation,
+} from '../../../src/application/ports/blockchain.port';
+import { SimulationFailedError } from '../../../src/core/errors/transaction.errors';
+import { ExitCode, getExitCode } from '../../../src/core/errors/exit-codes';
+
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const SOL = { mint: 'So11111111111111111111111111111111111111112', symbol: 'SOL', decimals: 9 };
+const USDC = { mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', decimals: 6 };
+
+const owner = Keypair.generate().publicKey.toBase58();
+const usdcAccount = getAssociatedTokenAddress(owner, USDC.mint, 'spl-token');
+
+function wallet(lamports: bigint): SimulatedAccount {
+  return { lamports, owner: '11111111111111111111111111111111', data: Buffer.alloc(0) };
+}
+
+function tokenAccount(amount: bigint): SimulatedAccount {
+  const data = Buffer.alloc(165);
+  data.writeBigUInt64LE(amount, 64);
+  return { lamports: 2_039_280n, owner: TOKEN_PROGRAM, data };
+}
+
+describe('TransactionSimulatorService', () => {
+  const simulateTransaction = jest.fn();
+  const service = new TransactionSimulatorService({ simulateTransaction });
+
+  beforeEach(() => {
+    simulateTransaction.mockReset();
+  });
+
+  it('should report SOL and token balance changes and compute units', async () => {
+    simulateTransaction.mockImplementation(
+      async (_tx: string, accounts: string[]): Promise<TransactionSimulation> => ({
+        err: null,
+        logs: [],
+        unitsConsumed: 123_456,
+        accounts: accounts.map((address) => ({
+          address,
+          before: address === owner ? wallet(2_000_000_000n) : null,
+          after:
+            address === owner
+              ? wallet(1_499_995_000n)
+              : address === usdcAccount
+                ? tokenAccount(75_120_000n)
+                : null,
+        })),
+      })
+    );
+
+    const report = await service.simulate('tx', owner, [SOL, USDC]);
+
+    expect(simulateTransaction).toHaveBeenCalledWith('tx', [
+      owner,
+      usdcAccount,
+      getAssociatedTokenAddress(owner, USDC.mint, 'token-2022'),
+    ]);
+    expect(report).toMatchObject({ succeeded: true, failure: null, unitsConsumed: 123_456 });
+    expect(report.balanceChanges).toEqual([
+      { mint: SOL.mint, symbol: 'SOL', before: '2', after: '1.499995', change: '-0.500005' },
+      { mint: USDC.mint, symbol: 'USDC', before: '0', after: '75.12', change: '+75.12' },
+    ]);
+  });
+
+  it('should refuse a transaction that would fail for lack of funds', async () => {
+    simulateTransaction.mockResolvedValue({
+      err: { InstructionError: [3, { Custom: 1 }] },
+      logs: ['Program log: Instruction: Transfer', 'Program log: Error: insufficient funds'],
+      unitsConsumed: 4_000,
+      accounts: [],
+    });
+
+    const error = await service.verify('tx', owner, [USDC]).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SimulationFailedError);
+    expect((error as SimulationFailedError).details.reason).toBe('insufficient-balance');
+    expect(getExitCode(error)).toBe(ExitCode.SIMULATION_FAILED);
+  });
+});
+
+describe('classifySimulationFailure', () => {
+  it.each([
+    ['AccountNotFound', [], 'insufficient-balance'],
+    [
+      { InstructionError: [2, 'InvalidAccountData'] },
+      ['Program log: Error: InvalidAccountData'],
+      'missing-token-account',
+    ],
+    [
+      { InstructionError: [4, { Custom: 3012 }] },
+      ['Program log: AnchorError caused by account: source. Error Code: AccountNotInitialized.'],
+      'missing-token-account',
+    ],
+    [{ InstructionError: [4, { Custom: 6001 }] }, ['Slippage tolerance exceeded'], 'failed'],
+  ])('should classify %p', (err, logs, reason) => {
+    expect(classifySimulationFailure(err, logs)).toBe(reason);
+  });
+});
@@ -0,0 +1,36 @@
+import {
+  calculateTransferFee,
+  grossUpForTransferFee,
+} from '../../../src/application/services/trade/transfer-fee';
+
+describe('calculateTransferFee', () => {
+  const fee = { basisPoints: 100, maxFee: '5000' };
+
+  it('should round the fee up', () => {
+    expect(calculateTransferFee(101n, fee)).toBe(2n);
+    expect(calculateTransferFee(100n, fee)).toBe(1n);
+  });
+
+  it('should cap the fee at the maximum', () => {
+    expect(calculateTransferFee(10_000_000n, fee)).toBe(5000n);
+  });
+
+  it('should charge nothing on a zero amount', () => {
+    expect(calculateTransferFee(0n, fee)).toBe(0n);
+  });
+});
+
+describe('grossUpForTransferFee', () => {
+  const fee = { basisPoints: 100, maxFee: '5000' };
+
+  it.each([100n, 101n, 9_900n, 123_456n])('should deliver at least %p after the fee', (net) => {
+    const gross = grossUpForTransferFee(net, fee);
+
+    expect(gross - calculateTransferFee(gross, fee)).toBeGreaterThanOrEqual(net);
+    expect(gross - 1n - calculateTransferFee(gross - 1n, fee)).toBeLessThan(net);
+  });
+
+  it('should add the maximum fee to large amounts', () => {
+    expect(grossUpForTransferFee(10_000_000n, fee)).toBe(10_005_000n);
+  });
+});
@@ -0,0 +1,341 @@
+import { TwapService, parseDuration } from '../../../src/application/services/trade/twap.service';
+import { SwapService } from '../../../src/application/services/trade/swap.service';
+import { AmountResolverService } from '../../../src/application/services/trade/amount-resolver.service';
+import { WalletResolverService } from '../../../src/application/services/wallet/wallet-resolver.service';
+import { TokenInfoProvider } from '../../../src/application/services/token-info.service';
+import { TwapOrder } from '../../../src/domain/entities/twap-order.entity';
+import { TwapOrderRepository } from '../../../src/domain/repositories/twap-order.repository';
+import { TransactionFailedError } from '../../../src/core/errors/transaction.errors';
+import { TokenAmount } from '../../../src/domain/values/token-amount';
+
+const solMint = 'So11111111111111111111111111111111111111112';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+describe('parseDuration', () => {
+  it('should read seconds, minutes, hours and days', () => {
+    expect(parseDuration('90s')).toBe(90);
+    expect(parseDuration('30m')).toBe(1_800);
+    expect(parseDuration('6h')).toBe(21_600);
+    expect(parseDuration('1.5d')).toBe(129_600);
+  });
+
+  it('should refuse durations without a unit', () => {
+    expect(() => parseDuration('6')).toThrow('Invalid duration');
+    expect(() => parseDuration('0h')).toThrow('Invalid duration');
+  });
+});
+
+describe('TwapService', () => {
+  let saved: Map<string, TwapOrder>;
+  let repository: jest.Mocked<TwapOrderRepository>;
+  let swaps: { quote: jest.Mock; execute: jest.Mock };
+  let service: TwapService;
+  let createService: (checkIntervalMs: number) => TwapService;
+  const sessionKey = Buffer.alloc(32);
+  const quote = {
+    priceImpactPct: 0.2,
+    outputAmount: TokenAmount.parse('14.95', 6),
+  };
+
+  beforeEach(() => {
+    saved = new Map();
+    repository = {
+      create: jest.fn(async (twap) => {
+        saved.set(twap.id, twap);
+        return twap;
+      }),
+      findById: jest.fn(async (id) => saved.get(id) ?? null),
+      findByStatus: jest.fn(async (statuses) =>
+        [...saved.values()].filter((t) => statuses.includes(t.status))
+      ),
+      claimSlice: jest.fn().mockResolvedValue(true),
+      saveSlice: jest.fn(),
+      saveStatus: jest.fn().mockResolvedValue(true),
+    };
+    swaps = {
+      quote: jest.fn().mockResolvedValue(quote),
+      execute: jest.fn().mockResolvedValue({
+        quote,
+        succeeded: true,
+        executionStatus: 'Success',
+        signature: 'slice-sig',
+        confirmation: null,
+        attempts: 1,
+        recorded: true,
+      }),
+    };
+    const walletResolver = {
+      resolve: jest.fn().mockResolvedValue({ id: 'wallet-1', address: 'wallet-address' }),
+    };
+    const tokenInfoProvider = {
+      resolveToken: jest.fn(async (token: string) =>
+        token === 'SOL'
+          ? { mint: solMint, symbol: 'SOL', decimals: 9 }
+          : { mint: usdcMint, symbol: 'USDC', decimals: 6 }
+      ),
+    };
+    const amountResolver = {
+      resolve: jest.fn(async (expression: string) => ({
+        amount: TokenAmount.parse(expression, 9),
+        basis: null,
+      })),
+    };
+    createService = (checkIntervalMs) =>
+      new TwapService(
+        walletResolver as unknown as WalletResolverService,
+        tokenInfoProvider as unknown as TokenInfoProvider,
+        amountResolver as unknown as AmountResolverService,
+        swaps as unknown as SwapService,
+        repository,
+        checkIntervalMs
+      );
+    service = createService(0);
+  });
+
+  function plan(overrides: Partial<Parameters<TwapService['plan']>[0]> = {}) {
+    return service.plan({
+      wallet: '1',
+      inputToken: 'SOL',
+      outputToken: 'USDC',
+      amount: '500',
+      durationSeconds: 21_600,
+      slices: 24,
+      maxPriceImpactPct: 1,
+      slippageBps: 100,
+      ...overrides,
+    });
+  }
+
+  describe('plan', () => {
+    it('should split the amount into slices one interval apart', async () => {
+      const { twap } = await plan();
+      const slices = twap.slices;
+
+      expect(twap.intervalSeconds).toBe(900);
+      expect(slices).toHaveLength(24);
+      expect(slices[0]?.inputAmount).toBe('20833333333');
+      expect(slices[23]?.inputAmount).toBe('20833333341');
+      expect(
+        (slices[1]?.scheduledAt.getTime() ?? 0) - (slices[0]?.scheduledAt.getTime() ?? 0)
+      ).toBe(900_000);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse slices closer than the minimum interval', async () => {
+      await expect(plan({ durationSeconds: 60, slices: 24 })).rejects.toThrow('at least 10s apart');
+    });
+
+    it('should refuse an amount too small to split', async () => {
+      await expect(plan({ amount: '0.00000001', slices: 24 })).rejects.toThrow('too small');
+    });
+  });
+
+  describe('executeSlice', () => {
+    it('should swap the slice through Ultra and record the fill', async () => {
+      const twap = await service.create((await plan()).twap);
+      const first = twap.nextSlice();
+      if (!first) throw new Error('no slice');
+
+      const slice = await service.executeSlice(twap, first, sessionKey);
+
+      expect(swaps.quote).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: '20.833333333', engine: 'ultra', slippageBps: 100 })
+      );
+      expect(slice).toMatchObject({
+        status: 'executed',
+        outputAmount: '14950000',
+        signature: 'slice-sig',
+      });
+      expect(repository.claimSlice).toHaveBeenCalledWith(twap, 0);
+      expect(repository.saveSlice).toHaveBeenCalledWith(twap, slice);
+    });
+
+    it('should skip a slice quoted over the price impact bound', async () => {
+      swaps.quote.mockResolvedValue({ ...quote, priceImpactPct: -1.5 });
+      const twap = await service.create((await plan()).twap);
+      const first = twap.nextSlice();
+      if (!first) throw new Error('no slice');
+
+      const slice = await service.executeSlice(twap, first, sessionKey);
+
+      expect(slice.status).toBe('skipped');
+      expect(slice.error).toContain('1.50% is over the 1% bound');
+      expect(swaps.execute).not.toHaveBeenCalled();
+    });
+
+    it('should mark a slice failed with the signature of a failed swap', async () => {
+      swaps.execute.mockRejectedValue(
+        new TransactionFailedError('slippage tolerance exceeded', {
+          signature: 'failed-sig',
+          code: 6001,
+          instruction: 2,
+          programId: null,
+          logs: [],
+          recorded: true,
+        })
+      );
+      const twap = await service.create((await plan()).twap);
+      const first = twap.nextSlice();
+      if (!first) throw new Error('no slice');
+
+      const slice = await service.executeSlice(twap, first, sessionKey);
+
+      expect(slice).toMatchObject({
+        status: 'failed',
+        signature: 'failed-sig',
+        priceImpactPct: 0.2,
+      });
+      expect(twap.nextSlice()?.index).toBe(1);
+    });
+
+    it('should mark a slice unconfirmed when its swap was not seen to land', async () => {
+      swaps.execute.mockResolvedValue({
+        quote,
+        succeeded: false,
+        executionStatus: 'Unconfirmed',
+        signature: 'slice-sig',
+        confirmation: {
+          signature: 'slice-sig',
+          outcome: 'unknown',
+          slot: null,
+          error: null,
+          logs: [],
+        },
+        attempts: 1,
+        recorded: true,
+      });
+      const twap = await service.create((await plan()).twap);
+      const first = twap.nextSlice();
+      if (!first) throw new Error('no slice');
+
+      const slice = await service.executeSlice(twap, first, sessionKey);
+
+      expect(slice).toMatchObject({ status: 'unconfirmed', signature: 'slice-sig' });
+      expect(slice.outputAmount).toBeUndefined();
+      expect(slice.error).toContain('Swap not confirmed (unknown)');
+      expect(twap.filled).toEqual({ input: 0n, output: 0n });
+    });
+
+    it('should not run a slice another process claimed', async () => {
+      repository.claimSlice.mockResolvedValue(false);
+      const twap = await service.create((await plan()).twap);
+      const first = twap.nextSlice();
+      if (!first) throw new Error('no slice');
+
+      await expect(service.executeSlice(twap, first, sessionKey)).rejects.toThrow(
+        'already being run by another process'
+      );
+      expect(swaps.quote).not.toHaveBeenCalled();
+    });
+
+    it('should not run a slice of a TWAP cancelled since it was read', async () => {
+      const twap = await service.create((await plan()).twap);
+      const first = twap.nextSlice();
+      if (!first) throw new Error('no slice');
+      const cancelled = await service.create((await plan()).twap);
+      cancelled.cancel();
+      repository.claimSlice.mockResolvedValue(false);
+      repository.findById.mockResolvedValueOnce(cancelled);
+
+      await expect(service.executeSlice(twap, first, sessionKey)).rejects.toThrow(
+        'TWAP is cancelled, not active'
+      );
+      expect(swaps.quote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should not cancel a TWAP whose last slice finished since it was read', async () => {
+      const twap = await service.create((await plan()).twap);
+      repository.saveStatus.mockResolvedValue(false);
+      const completed = new TwapOrder(
+        twap.id,
+        'wallet-1',
+        solMint,
+        usdcMint,
+        9,
+        6,
+        '100',
+        60,
+        1,
+        100,
+        [{ index: 0, scheduledAt: new Date(), inputAmount: '100', status: 'executed' }],
+        { status: 'completed' }
+      );
+      repository.findById.mockResolvedValueOnce(twap).mockResolvedValueOnce(completed);
+
+      await expect(service.cancel(twap.id)).rejects.toThrow('TWAP is completed, not active');
+    });
+  });
+
+  describe('run', () => {
+    it('should stop once the TWAP is cancelled', async () => {
+      const twap = await service.create((await plan({ slices: 2, durationSeconds: 60 })).twap);
+      const onSlice = jest.fn(() => {
+        twap.cancel();
+      });
+
+      const finished = await service.run(twap.id, sessionKey, { onSlice });
+
+      expect(onSlice).toHaveBeenCalledTimes(1);
+      expect(finished.status).toBe('cancelled');
+    });
+
+    it('should mark a slice a stopped process left executing unconfirmed', async () => {
+      const scheduledAt = new Date(Date.now() - 2 * 60 * 60_000);
+      const twap = await service.create(
+        new TwapOrder(
+          'twap-1',
+          'wallet-1',
+          solMint,
+          usdcMint,
+          9,
+          6,
+          '200',
+          60,
+          1,
+          100,
+          [
+            { index: 0, scheduledAt, inputAmount: '100', status: 'executed', outputAmount: '15' },
+            { index: 1, scheduledAt, inputAmount: '100', status: 'executing' },
+          ],
+          { lastAttemptAt: new Date(Date.now() - 60 * 60_000) }
+        )
+      );
+      const onSlice = jest.fn();
+
+      const finished = await service.run(twap.id, sessionKey, { onSlice });
+
+      expect(finished.status).toBe('completed');
+      expect(finished.slices[1]).toMatchObject({ status: 'unconfirmed' });
+      expect(onSlice).toHaveBeenCalledWith(twap, expect.objectContaining({ index: 1 }));
+      expect(repository.saveSlice).toHaveBeenCalledTimes(1);
+      expect(swaps.execute).not.toHaveBeenCalled();
+    });
+
+    it('should space slices one interval apart and complete', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        const scheduledAt = new Date(Date.now() - 60_000);
+        const twap = await service.create(
+          new TwapOrder('twap-1', 'wallet-1', solMint, usdcMint, 9, 6, '200', 1, 1, 100, [
+            { index: 0, scheduledAt, inputAmount: '100', status: 'pending' },
+            { index: 1, scheduledAt, inputAmount: '100', status: 'pending' },
+          ])
+        );
+
+        const running = createService(1_000).run(twap.id, sessionKey);
+        await jest.advanceTimersByTimeAsync(999);
+        expect(swaps.execute).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(1);
+        const finished = await running;
+
+        expect(finished.status).toBe('completed');
+        expect(swaps.execute).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { WalletHistorySyncService } from '../../../src/application/services/wallet/wallet-history-sync.service';
+import { TradeService } from '../../../src/application/services/trade/trade.service';
+import { TokenInfoProvider } from '../../../src/application/services/token-info.service';
+import {
+  ParsedTransaction,
+  SignatureInfo,
+  TransactionHistoryPort,
+} from '../../../src/application/ports/blockchain.port';
+import { TradeRepository } from '../../../src/domain/repositories/trade.repository';
+import { WalletActivityRepository } from '../../../src/domain/repositories/wallet-activity.repository';
+import { SyncCursorRepository } from '../../../src/domain/repositories/sync-cursor.repository';
+import { SyncCursor } from '../../../src/domain/entities/sync-cursor.entity';
+import { WalletActivity } from '../../../src/domain/entities/wallet-activity.entity';
+import { Trade } from '../../../src/domain/entities/trade.entity';
+
+const wallet = 'WaLLet1111111111111111111111111111111111111';
+const solMint = 'So11111111111111111111111111111111111111112';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function signature(sig: string, blockTime = 1760000000): SignatureInfo {
+  return { signature: sig, slot: 1, err: null, memo: null, blockTime };
+}
+
+// SOL → USDC swap: -0.5 SOL, +90 USDC
+function swapTx(blockTime = 1760000000): ParsedTransaction {
+  return {
+    slot: 1,
+    blockTime,
+    transaction: {
+      message: {
+        accountKeys: [{ pubkey: wallet, signer: true, writable: true }],
+        instructions: [],
+      },
+      signatures: [],
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [1_000_000_000],
+      postBalances: [499_995_000],
+      preTokenBalances: [],
+      postTokenBalances: [
+        {
+          accountIndex: 1,
+          mint: usdcMint,
+          owner: wallet,
+          uiTokenAmount: { amount: '90000000', decimals: 6, uiAmount: 90 },
+        },
+      ],
+      logMessages: [],
+    },
+  };
+}
+
+describe('WalletHistorySyncService', () => {
+  let service: WalletHistorySyncService;
+  let history: jest.Mocked<TransactionHistoryPort>;
+  let activities: WalletActivity[];
+  let trades: Trade[];
+  let cursor: SyncCursor | null;
+  let cursorRepo: jest.Mocked<SyncCursorRepository>;
+
+  beforeEach(() => {
+    activities = [];
+    trades = [];
+    cursor = null;
+
+    history = {
+      getSignaturesForAddress: jest.fn().mockResolvedValue([]),
+      getParsedTransaction: jest.fn().mockResolvedValue(swapTx()),
+    };
+    const activityRepo: jest.Mocked<WalletActivityRepository> = {
+      create: jest.fn().mockImplementation(async (a: WalletActivity) => {
+        activities.push(a);
+        return a;
+      }),
+      exists: jest
+        .fn()
+        .mockImplementation(async (_w: string, sig: string) =>
+          activities.some((a) => a.signature === sig)
+        ),
+      findByWallet: jest.fn(),
+    };
+    cursorRepo = {
+      find: jest.fn().mockImplementation(async () => cursor),
+      save: jest.fn().mockImplementation(async (c: SyncCursor) => {
+        cursor = new SyncCursor(c.walletId, c.source, c.cursor, c.lastSyncedAt);
+        return c;
+      }),
+    };
+    const tradeRepo: jest.Mocked<TradeRepository> = {
+      create: jest.fn().mockImplementation(async (t: Trade) => {
+        trades.push(t);
+        return t;
+      }),
+      update: jest.fn(),
+      findById: jest.fn(),
+      findBySignature: jest
+        .fn()
+        .mockImplementation(async (sig: string) => trades.filter((t) => t.signature === sig)),
+      findByWallet: jest.fn(),
+      countByWallet: jest.fn(),
+    };
+    const tokenInfo = {
+      getTokenInfo: jest.fn().mockResolvedValue(null),
+    } as unknown as TokenInfoProvider;
+
+    service = new WalletHistorySyncService(
+      history,
+      activityRepo,
+      cursorRepo,
+      new TradeService(tradeRepo, { getPrice: jest.fn().mockResolvedValue([]) }),
+      tokenInfo
+    );
+  });
+
+  it('should import transactions oldest first and mirror swaps into trades', async () => {
+    history.getSignaturesForAddress.mockResolvedValueOnce([signature('new'), signature('old')]);
+
+    const result = await service.syncHistory('wallet-1', wallet);
+
+    expect(result.imported.map((a) => a.signature)).toEqual(['old', 'new']);
+    expect(result.tradesRecorded).toBe(2);
+    expect(trades[0]?.inputMint).toBe(solMint);
+    expect(trades[0]?.inputAmount).toBe('500000000');
+    expect(trades[0]?.outputAmount).toBe('90000000');
+    expect(trades[0]?.executedAt).toEqual(new Date(1760000000 * 1000));
+    expect(cursor?.cursor).toBe('new');
+  });
+
+  it('should only walk back to the stored checkpoint', async () => {
+    cursor = new SyncCursor('wallet-1', 'signatures', 'checkpoint');
+
+    await service.syncHistory('wallet-1', wallet, { maxSignatures: 5 });
+
+    expect(history.getSignaturesForAddress).toHaveBeenCalledWith(wallet, {
+      before: undefined,
+      until: 'checkpoint',
+      limit: 1000,
+    });
+  });
+
+  it('should cap the depth of the first sync', async () => {
+    history.getSignaturesForAddress.mockResolvedValueOnce([signature('a'), signature('b')]);
+
+    const result = await service.syncHistory('wallet-1', wallet, { maxSignatures: 2 });
+
+    expect(history.getSignaturesForAddress).toHaveBeenCalledTimes(1);
+    expect(result.scanned).toBe(2);
+  });
+
+  it('should stop at an RPC failure and resume from the last processed signature', async () => {
+    history.getSignaturesForAddress.mockResolvedValueOnce([signature('b'), signature('a')]);
+    history.getParsedTransaction.mockResolvedValueOnce(swapTx()).mockResolvedValueOnce(null);
+
+    const first = await service.syncHistory('wallet-1', wallet);
+
+    expect(first.complete).toBe(false);
+    expect(cursor?.cursor).toBe('a');
+
+    history.getSignaturesForAddress.mockResolvedValueOnce([signature('b')]);
+    const second = await service.syncHistory('wallet-1', wallet);
+
+    expect(history.getSignaturesForAddress).toHaveBeenLastCalledWith(wallet, {
+      before: undefined,
+      until: 'a',
+      limit: 1000,
+    });
+    expect(second.imported.map((a) => a.signature)).toEqual(['b']);
+    expect(activities).toHaveLength(2);
+  });
+
+  it('should not import a signature twice or duplicate trades recorded by the CLI', async () => {
+    history.getSignaturesForAddress.mockResolvedValue([signature('a')]);
+
+    await service.syncHistory('wallet-1', wallet);
+    const second = await service.syncHistory('wallet-1', wallet);
+
+    expect(second.imported).toHaveLength(0);
+    expect(second.alreadyImported).toBe(1);
+    expect(activities).toHaveLength(1);
+    expect(trades).toHaveLength(1);
+  });
+});
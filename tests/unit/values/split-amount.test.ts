@@ -0,0 +1,12 @@
+import { splitAmount } from '../../../src/domain/values/split-amount';
+
+describe('splitAmount', () => {
+  it('should put the remainder in the last part', () => {
+    expect(splitAmount(1_000n, 3)).toEqual([333n, 333n, 334n]);
+    expect(splitAmount(500_000_000_000n, 24).reduce((a, b) => a + b, 0n)).toBe(500_000_000_000n);
+  });
+
+  it('should split evenly when it divides', () => {
+    expect(splitAmount(10_000_000_000n, 8)).toEqual(Array(8).fill(1_250_000_000n));
+  });
+});
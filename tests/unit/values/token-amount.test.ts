@@ -0,0 +1,79 @@
+import Big from 'big.js';
+import { TokenAmount } from '../../../src/domain/values/token-amount';
+import { InvalidAmountError } from '../../../src/core/errors/token.errors';
+
+describe('TokenAmount', () => {
+  describe('parse', () => {
+    it('should convert exactly what was typed to raw units', () => {
+      // parseFloat('0.3') * 1e9 floors to 299999999
+      expect(TokenAmount.parse('0.3', 9).toRawString()).toBe('300000000');
+      expect(TokenAmount.parse('1.000000001', 9).toRawString()).toBe('1000000001');
+      expect(TokenAmount.parse('123456789012.34567', 5).toRawString()).toBe('12345678901234567');
+      expect(TokenAmount.parse('.5', 6).toRawString()).toBe('500000');
+      expect(TokenAmount.parse('7', 0).toRawString()).toBe('7');
+    });
+
+    it('should reject more decimals than the token has', () => {
+      expect(() => TokenAmount.parse('0.1234567', 6)).toThrow(InvalidAmountError);
+      expect(() => TokenAmount.parse('0.1234567', 6)).toThrow('this token has 6 decimals');
+    });
+
+    it('should reject anything but a plain positive decimal', () => {
+      for (const value of ['', '-1', '1e9', '1,5', 'abc', '.', '0x10']) {
+        expect(() => TokenAmount.parse(value, 9)).toThrow(InvalidAmountError);
+      }
+    });
+  });
+
+  describe('fromRaw', () => {
+    it('should format raw units without losing precision', () => {
+      const amount = TokenAmount.fromRaw('123456789012345678', 9);
+
+      expect(amount.toString()).toBe('123456789.012345678');
+      expect(amount.toBig().eq(new Big('123456789.012345678'))).toBe(true);
+    });
+
+    it('should drop trailing zeros and keep small amounts', () => {
+      expect(TokenAmount.fromRaw('1500000000', 9).toString()).toBe('1.5');
+      expect(TokenAmount.fromRaw('1', 9).toString()).toBe('0.000000001');
+      expect(TokenAmount.fromRaw('0', 6).toString()).toBe('0');
+    });
+
+    it('should reject negative and fractional raw amounts', () => {
+      expect(() => TokenAmount.fromRaw('-1', 6)).toThrow(InvalidAmountError);
+      expect(() => TokenAmount.fromRaw('1.5', 6)).toThrow(InvalidAmountError);
+    });
+  });
+
+  describe('fromDecimal', () => {
+    it('should round computed values down to the smallest unit', () => {
+      const output = TokenAmount.parse('3', 9).times('0.3333333');
+
+      expect(TokenAmount.fromDecimal(output, 6).toRawString()).toBe('999999');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add, subtract and compare same-decimal amounts', () => {
+      const a = TokenAmount.parse('1.5', 6);
+      const b = TokenAmount.parse('0.25', 6);
+
+      expect(a.plus(b).toString()).toBe('1.75');
+      expect(a.minus(b).toString()).toBe('1.25');
+      expect(b.minus(a).isZero()).toBe(true);
+      expect(a.compare(b)).toBe(1);
+    });
+
+    it('should refuse to mix decimals', () => {
+      expect(() => TokenAmount.parse('1', 6).plus(TokenAmount.parse('1', 9))).toThrow();
+    });
+
+    it('should compute USD values with decimal math', () => {
+      expect(TokenAmount.parse('0.1', 9).times(0.2).toString()).toBe('0.02');
+    });
+
+    it('should round display values down', () => {
+      expect(TokenAmount.fromRaw('1999999', 6).toFixed(2)).toBe('1.99');
+    });
+  });
+});